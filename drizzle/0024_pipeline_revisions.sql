@@ -0,0 +1,55 @@
+CREATE TABLE IF NOT EXISTS "pipeline_revisions" (
+  "id" uuid PRIMARY KEY,
+  "pipeline_id" text NOT NULL,
+  "revision" integer NOT NULL,
+  "name" text NOT NULL,
+  "description" text,
+  "yaml" text NOT NULL,
+  "node_count" integer NOT NULL DEFAULT 0,
+  "source" text NOT NULL,
+  "rolled_back_from" uuid,
+  "created_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "pipeline_revisions_pipeline_revision_idx"
+  ON "pipeline_revisions" USING btree ("pipeline_id", "revision");
+--> statement-breakpoint
+ALTER TABLE "pipelines" ADD COLUMN IF NOT EXISTS "current_revision_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "runs" ADD COLUMN IF NOT EXISTS "pipeline_revision_id" uuid;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "runs_pipeline_revision_id_idx"
+  ON "runs" USING btree ("pipeline_revision_id")
+  WHERE "pipeline_revision_id" IS NOT NULL;
+--> statement-breakpoint
+INSERT INTO "pipeline_revisions" (
+  "id",
+  "pipeline_id",
+  "revision",
+  "name",
+  "description",
+  "yaml",
+  "node_count",
+  "source",
+  "created_at"
+)
+SELECT
+  gen_random_uuid(),
+  p."id",
+  1,
+  p."name",
+  p."description",
+  p."yaml",
+  p."node_count",
+  CASE WHEN p."is_built_in" THEN 'seed' ELSE 'save' END,
+  p."updated_at"
+FROM "pipelines" p
+WHERE p."current_revision_id" IS NULL
+ON CONFLICT ("pipeline_id", "revision") DO NOTHING;
+--> statement-breakpoint
+UPDATE "pipelines" p
+SET "current_revision_id" = r."id"
+FROM "pipeline_revisions" r
+WHERE p."current_revision_id" IS NULL
+  AND r."pipeline_id" = p."id"
+  AND r."revision" = 1;
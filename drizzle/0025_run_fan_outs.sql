@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "run_fan_outs" (
+  "id" uuid PRIMARY KEY,
+  "task" text NOT NULL,
+  "base_branch" text NOT NULL,
+  "targets" jsonb NOT NULL,
+  "repo_slugs" text[] NOT NULL,
+  "concurrency" integer NOT NULL,
+  "pipeline_hint" text,
+  "skip_nodes" text[],
+  "enable_nodes" text[],
+  "requested_by" text NOT NULL,
+  "channel_id" text NOT NULL,
+  "thread_ts" text NOT NULL,
+  "status_message_ts" text,
+  "status" text NOT NULL,
+  "created_at" timestamp with time zone NOT NULL DEFAULT now(),
+  "finished_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "run_fan_outs_status_idx"
+  ON "run_fan_outs" USING btree ("status");
+--> statement-breakpoint
+ALTER TABLE "runs" ADD COLUMN IF NOT EXISTS "fan_out_id" uuid;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "runs_fan_out_id_idx"
+  ON "runs" USING btree ("fan_out_id")
+  WHERE "fan_out_id" IS NOT NULL;
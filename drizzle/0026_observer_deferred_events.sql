@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "observer_deferred_events" (
+  "id" uuid PRIMARY KEY,
+  "event_id" text NOT NULL,
+  "event" jsonb NOT NULL,
+  "rule" jsonb NOT NULL,
+  "reason" text NOT NULL,
+  "priority" integer NOT NULL,
+  "retry_count" integer NOT NULL DEFAULT 0,
+  "deferred_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "observer_deferred_events_deferred_at_idx"
+  ON "observer_deferred_events" USING btree ("deferred_at");
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "observer_escalations" (
+  "id" uuid PRIMARY KEY,
+  "event_id" text NOT NULL,
+  "source" text NOT NULL,
+  "rule_id" text NOT NULL,
+  "repo_slug" text,
+  "priority" text NOT NULL,
+  "reason" text NOT NULL,
+  "confidence" real NOT NULL,
+  "status" text NOT NULL,
+  "event" jsonb NOT NULL,
+  "rule" jsonb NOT NULL,
+  "slack_channel_id" text,
+  "slack_message_ts" text,
+  "run_id" uuid,
+  "audit" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "created_at" timestamp with time zone NOT NULL DEFAULT now(),
+  "updated_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "observer_escalations_status_created_idx"
+  ON "observer_escalations" USING btree ("status", "created_at");
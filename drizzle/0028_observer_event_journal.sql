@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "observer_event_journal" (
+  "id" bigserial PRIMARY KEY,
+  "event_id" text NOT NULL,
+  "source" text NOT NULL,
+  "repo_slug" text,
+  "event" jsonb NOT NULL,
+  "received_at" timestamp with time zone NOT NULL,
+  "matched_rule_id" text,
+  "triage" jsonb,
+  "safety" jsonb,
+  "outcome" text NOT NULL,
+  "reason" text NOT NULL,
+  "run_id" uuid
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "observer_event_journal_received_at_idx"
+  ON "observer_event_journal" USING btree ("received_at");
@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS "observer_run_links" (
+  "id" bigserial PRIMARY KEY,
+  "run_id" uuid,
+  "event_id" text NOT NULL,
+  "source" text NOT NULL,
+  "dedup_key" text NOT NULL,
+  "repo_slug" text,
+  "event" jsonb NOT NULL,
+  "channel_id" text,
+  "thread_ts" text,
+  "status" text NOT NULL,
+  "pr_url" text,
+  "pr_number" integer,
+  "merged_at" timestamp with time zone,
+  "recurred_at" timestamp with time zone,
+  "recurrence_event_id" text,
+  "created_at" timestamp with time zone NOT NULL,
+  "updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "observer_run_links_run_id_idx"
+  ON "observer_run_links" USING btree ("run_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "observer_run_links_dedup_key_idx"
+  ON "observer_run_links" USING btree ("dedup_key");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "observer_run_links_status_idx"
+  ON "observer_run_links" USING btree ("status");
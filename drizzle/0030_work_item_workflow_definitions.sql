@@ -0,0 +1 @@
+ALTER TABLE "work_items" ADD COLUMN IF NOT EXISTS "workflow_definition_id" text;
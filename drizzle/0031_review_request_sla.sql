@@ -0,0 +1,4 @@
+ALTER TABLE "review_requests" ADD COLUMN IF NOT EXISTS "workflow_stage" text;--> statement-breakpoint
+ALTER TABLE "review_requests" ADD COLUMN IF NOT EXISTS "reminded_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "review_requests" ADD COLUMN IF NOT EXISTS "escalated_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "review_requests" ADD COLUMN IF NOT EXISTS "escalation_target" jsonb;
@@ -0,0 +1,3 @@
+ALTER TABLE "review_requests" ADD COLUMN IF NOT EXISTS "assigned_user_ids" text[] DEFAULT ARRAY[]::text[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "review_requests" ADD COLUMN IF NOT EXISTS "assignment" jsonb;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "away_until" timestamp with time zone;
@@ -0,0 +1 @@
+ALTER TABLE "pipelines" ADD COLUMN IF NOT EXISTS "include_only" boolean DEFAULT false NOT NULL;
@@ -0,0 +1 @@
+ALTER TABLE "pipeline_revisions" ADD COLUMN IF NOT EXISTS "called_revisions" jsonb DEFAULT '{}'::jsonb NOT NULL;
@@ -0,0 +1,13 @@
+ALTER TABLE "observer_run_links" ADD COLUMN IF NOT EXISTS "recurrence_key" text;
+--> statement-breakpoint
+UPDATE "observer_run_links"
+  SET "recurrence_key" = CASE
+    WHEN "dedup_key" LIKE 'gh:check:%' THEN regexp_replace("dedup_key", ':[^:]*$', '')
+    ELSE "dedup_key"
+  END
+  WHERE "recurrence_key" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "observer_run_links" ALTER COLUMN "recurrence_key" SET NOT NULL;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "observer_run_links_recurrence_key_idx"
+  ON "observer_run_links" USING btree ("recurrence_key");
@@ -0,0 +1 @@
+ALTER TABLE "run_fan_outs" ADD COLUMN IF NOT EXISTS "enqueue_errors" jsonb DEFAULT '{}'::jsonb NOT NULL;
@@ -0,0 +1,18 @@
+#!/usr/bin/env tsx
+/**
+ * Regenerate schemas/pipeline.schema.json from the node registry and the
+ * contracts declared on the handlers. Run after adding an action or changing what a handler reads or
+ * writes; tests fail when the checked-in schema is stale.
+ *
+ * Usage:
+ *   npm run pipeline:schema
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { buildPipelineJsonSchema } from "../src/pipeline/pipeline-schema.js";
+
+const outFile = path.resolve(process.cwd(), "schemas/pipeline.schema.json");
+mkdirSync(path.dirname(outFile), { recursive: true });
+writeFileSync(outFile, JSON.stringify(buildPipelineJsonSchema(), null, 2) + "\n");
+console.log(`Wrote ${path.relative(process.cwd(), outFile)}`);
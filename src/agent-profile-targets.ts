@@ -1,4 +1,4 @@
-import { loadPipelineFromString } from "./pipeline/pipeline-loader.js";
+import { flattenPipelineNodes, loadPipelineFromString } from "./pipeline/pipeline-loader.js";
 import type { PipelineConfig } from "./pipeline/types.js";
 import type { StoredPipeline } from "./pipeline/pipeline-store.js";
 import type { RunIntentKind } from "./runs/run-intent.js";
@@ -451,21 +451,26 @@ export function buildAgentProfileTargetCatalog(pipelines: StoredPipeline[] = [])
       ...(POLICY_MODE_LABELS[id].description ? { description: POLICY_MODE_LABELS[id].description } : {}),
     })),
     intents: AGENT_PROFILE_INTENT_CATALOG,
-    pipelines: pipelines.map(pipelineToCatalogEntry),
+    pipelines: pipelines
+      .filter((pipeline) => !pipeline.includeOnly)
+      .map((pipeline) => pipelineToCatalogEntry(pipeline, pipelines)),
     actions: Object.values(AGENT_PROFILE_ACTION_CATALOG).sort((a, b) => `${a.group}:${a.label}`.localeCompare(`${b.group}:${b.label}`)),
     presets: AGENT_PROFILE_TARGET_PRESETS,
   };
 }
 
-function pipelineToCatalogEntry(pipeline: StoredPipeline): AgentProfileTargetCatalog["pipelines"][number] {
+function pipelineToCatalogEntry(pipeline: StoredPipeline, pipelines: StoredPipeline[]): AgentProfileTargetCatalog["pipelines"][number] {
   let config: PipelineConfig | undefined;
   try {
-    config = loadPipelineFromString(pipeline.yaml);
+    config = loadPipelineFromString(pipeline.yaml, {
+      pipelineId: pipeline.id,
+      resolvePipeline: (calledId) => pipelines.find((candidate) => candidate.id === calledId)?.yaml,
+    });
   } catch {
     config = undefined;
   }
 
-  const nodes = (config?.nodes ?? []).map((node) => {
+  const nodes = flattenPipelineNodes(config?.nodes ?? []).map((node) => {
     const action = actionCatalogEntry(node.action);
     return {
       id: node.id,
@@ -47,9 +47,16 @@ export interface AppConfig {
   /** Canonical Jira read-access config for future discovery/work-items integrations. */
   jiraBaseUrl?: string;
   jiraCloudId?: string;
+  /** REST API root override (Jira Data Center or a local stand-in) */
+  jiraApiBaseUrl?: string;
   jiraUser?: string;
   jiraApiToken?: string;
   jiraRequestTimeoutMs: number;
+  /** Push work item state, PR links and review outcomes to their Jira issues */
+  jiraWritebackEnabled: boolean;
+  /** Work item state → Jira transition: "in_progress:Start Progress,feature_delivery.done:Done" */
+  jiraWritebackTransitions: Map<string, string>;
+  jiraWritebackIntervalMs: number;
 
   runnerConcurrency: number;
   workRoot: string;
@@ -118,8 +125,21 @@ export interface AppConfig {
   /** Per-source webhook secrets for custom adapters: { source: secret } */
   observerWebhookSecrets: Record<string, string>;
   observerGithubPollIntervalSeconds: number;
+  /** Incident service (id or name) → repo: "PXYZ123:owner/repo,checkout-api:owner/repo2" */
+  observerIncidentServiceMap: Map<string, string>;
+  /** Incident write-back: run outcomes are added as notes on the incident */
+  pagerdutyApiToken?: string;
+  pagerdutyFromEmail?: string;
+  opsgenieApiKey?: string;
+  /** Override for EU accounts, e.g. https://api.eu.opsgenie.com */
+  opsgenieApiUrl?: string;
   /** Repos to watch for failed GitHub Actions: "owner/repo,owner2/repo2" */
   observerGithubWatchedRepos: string[];
+  /** JQL for the Jira poller (needs JIRA_* credentials); unset disables it */
+  observerJiraJql?: string;
+  observerJiraPollIntervalSeconds: number;
+  /** Jira project key → repo: "OPS:owner/repo,PAY:owner/repo2" */
+  observerJiraRepoMap: Map<string, string>;
 
   openrouterApiKey?: string;
   anthropicApiKey?: string;
@@ -144,6 +164,11 @@ export interface AppConfig {
   observerSmartTriageEnabled: boolean;
   observerSmartTriageModel: string;
   observerSmartTriageTimeoutMs: number;
+  /** Hold allowed events briefly and group related alerts into one run */
+  observerAlertClusteringEnabled: boolean;
+  observerAlertClusterWindowSeconds: number;
+  observerWritebackEnabled: boolean;
+  observerBudgetDefaultRunCostUsd: number;
 
   browserVerifyEnabled: boolean;
   reviewAppUrlPattern?: string;
@@ -178,6 +203,11 @@ export interface AppConfig {
   featureDeliverySkipProductReview: boolean;
   featureDeliverySelfReviewEnabled: boolean;
   featureDeliveryApplyReviewFeedbackEnabled: boolean;
+  /** Directory of custom `*.workflow.yml` work item workflow definitions */
+  workItemWorkflowsDir: string;
+  /** Run the review SLA monitor: reminders, escalation and no_response expiry */
+  reviewSlaEnabled: boolean;
+  reviewSlaIntervalMs: number;
   workItemGithubAdoptionLabels: string[];
   autoReviewBranchSyncEnabled: boolean;
   autoReviewBranchSyncMaxBehindCommits: number;
@@ -5,6 +5,7 @@ import {
   parseInteger,
   parseList,
   parseNonNegativeInteger,
+  parsePositiveNumber,
   parseProviderPreferences,
   parseRepoMap,
   parseWebhookSecrets,
@@ -30,7 +31,15 @@ type FeatureConfigSlice = Pick<
   | "observerWebhookPort"
   | "observerWebhookSecrets"
   | "observerGithubPollIntervalSeconds"
+  | "observerIncidentServiceMap"
+  | "pagerdutyApiToken"
+  | "pagerdutyFromEmail"
+  | "opsgenieApiKey"
+  | "opsgenieApiUrl"
   | "observerGithubWatchedRepos"
+  | "observerJiraJql"
+  | "observerJiraPollIntervalSeconds"
+  | "observerJiraRepoMap"
   | "openrouterApiKey"
   | "anthropicApiKey"
   | "openaiApiKey"
@@ -50,6 +59,10 @@ type FeatureConfigSlice = Pick<
   | "observerSmartTriageEnabled"
   | "observerSmartTriageModel"
   | "observerSmartTriageTimeoutMs"
+  | "observerAlertClusteringEnabled"
+  | "observerAlertClusterWindowSeconds"
+  | "observerWritebackEnabled"
+  | "observerBudgetDefaultRunCostUsd"
   | "browserVerifyEnabled"
   | "reviewAppUrlPattern"
   | "screenshotEnabled"
@@ -73,6 +86,9 @@ type FeatureConfigSlice = Pick<
   | "featureDeliverySkipProductReview"
   | "featureDeliverySelfReviewEnabled"
   | "featureDeliveryApplyReviewFeedbackEnabled"
+  | "workItemWorkflowsDir"
+  | "reviewSlaEnabled"
+  | "reviewSlaIntervalMs"
   | "workItemGithubAdoptionLabels"
   | "autoReviewBranchSyncEnabled"
   | "autoReviewBranchSyncMaxBehindCommits"
@@ -115,7 +131,15 @@ export function loadFeatureConfig(parsed: ParsedEnv, features: AppFeatures): Fea
     observerWebhookPort: parseInteger(parsed.OBSERVER_WEBHOOK_PORT, 9090),
     observerWebhookSecrets: parseWebhookSecrets(parsed.OBSERVER_WEBHOOK_SECRETS),
     observerGithubPollIntervalSeconds: parseInteger(parsed.OBSERVER_GITHUB_POLL_INTERVAL_SECONDS, 300),
+    observerIncidentServiceMap: parseRepoMap(parsed.OBSERVER_INCIDENT_SERVICE_MAP),
+    pagerdutyApiToken: parsed.PAGERDUTY_API_TOKEN?.trim() || undefined,
+    pagerdutyFromEmail: parsed.PAGERDUTY_FROM_EMAIL?.trim() || undefined,
+    opsgenieApiKey: parsed.OPSGENIE_API_KEY?.trim() || undefined,
+    opsgenieApiUrl: parsed.OPSGENIE_API_URL?.trim() || undefined,
     observerGithubWatchedRepos: parseList(parsed.OBSERVER_GITHUB_WATCHED_REPOS),
+    observerJiraJql: parsed.OBSERVER_JIRA_JQL?.trim() || undefined,
+    observerJiraPollIntervalSeconds: parseInteger(parsed.OBSERVER_JIRA_POLL_INTERVAL_SECONDS, 300),
+    observerJiraRepoMap: parseRepoMap(parsed.OBSERVER_JIRA_REPO_MAP),
     openrouterApiKey: parsed.OPENROUTER_API_KEY?.trim() || undefined,
     anthropicApiKey: parsed.ANTHROPIC_API_KEY?.trim() || undefined,
     openaiApiKey: parsed.OPENAI_API_KEY?.trim() || undefined,
@@ -137,6 +161,10 @@ export function loadFeatureConfig(parsed: ParsedEnv, features: AppFeatures): Fea
     observerSmartTriageEnabled: parseBoolean(parsed.OBSERVER_SMART_TRIAGE_ENABLED, false),
     observerSmartTriageModel: parsed.OBSERVER_SMART_TRIAGE_MODEL?.trim() || parsed.DEFAULT_LLM_MODEL?.trim() || "anthropic/claude-sonnet-4-6",
     observerSmartTriageTimeoutMs: parseInteger(parsed.OBSERVER_SMART_TRIAGE_TIMEOUT_MS, 10_000),
+    observerAlertClusteringEnabled: parseBoolean(parsed.OBSERVER_ALERT_CLUSTERING_ENABLED, false),
+    observerAlertClusterWindowSeconds: parseInteger(parsed.OBSERVER_ALERT_CLUSTER_WINDOW_SECONDS, 120),
+    observerWritebackEnabled: parseBoolean(parsed.OBSERVER_WRITEBACK_ENABLED, true),
+    observerBudgetDefaultRunCostUsd: parsePositiveNumber(parsed.OBSERVER_BUDGET_DEFAULT_RUN_COST_USD, 1),
     browserVerifyEnabled: features.browserVerify,
     reviewAppUrlPattern: parsed.REVIEW_APP_URL_PATTERN?.trim() || undefined,
     screenshotEnabled: parseBoolean(parsed.SCREENSHOT_ENABLED, false),
@@ -175,6 +203,9 @@ export function loadFeatureConfig(parsed: ParsedEnv, features: AppFeatures): Fea
       parsed.FEATURE_DELIVERY_APPLY_REVIEW_FEEDBACK_ENABLED,
       false,
     ),
+    workItemWorkflowsDir: parsed.WORK_ITEM_WORKFLOWS_DIR?.trim() || "workflows",
+    reviewSlaEnabled: parseBoolean(parsed.REVIEW_SLA_ENABLED, false),
+    reviewSlaIntervalMs: parseInteger(parsed.REVIEW_SLA_INTERVAL_MS, 300_000),
     workItemGithubAdoptionLabels: workItemGithubAdoptionLabels.length > 0
       ? workItemGithubAdoptionLabels
       : ["ai:assist"],
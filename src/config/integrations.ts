@@ -1,6 +1,6 @@
 import type { AppConfig } from "../config.js";
 import type { ParsedEnv } from "./shared.js";
-import { parseInteger, parseList, parseBoolean } from "./shared.js";
+import { parseInteger, parseList, parseBoolean, parseRepoMap } from "./shared.js";
 
 interface IntegrationDefaults {
   appSlug: string;
@@ -26,9 +26,13 @@ type IntegrationConfigSlice = Pick<
   | "defaultTeamSlackChannelId"
   | "jiraBaseUrl"
   | "jiraCloudId"
+  | "jiraApiBaseUrl"
   | "jiraUser"
   | "jiraApiToken"
   | "jiraRequestTimeoutMs"
+  | "jiraWritebackEnabled"
+  | "jiraWritebackTransitions"
+  | "jiraWritebackIntervalMs"
   | "cemsApiUrl"
   | "cemsApiKey"
   | "cemsEnabled"
@@ -59,9 +63,13 @@ export function loadIntegrationConfig(parsed: ParsedEnv, defaults: IntegrationDe
     defaultTeamSlackChannelId: parsed.DEFAULT_TEAM_SLACK_CHANNEL_ID?.trim() || undefined,
     jiraBaseUrl: parsed.JIRA_BASE_URL?.trim() || undefined,
     jiraCloudId: parsed.JIRA_CLOUD_ID?.trim() || undefined,
+    jiraApiBaseUrl: parsed.JIRA_API_BASE_URL?.trim() || undefined,
     jiraUser: parsed.JIRA_USER?.trim() || undefined,
     jiraApiToken: parsed.JIRA_API_TOKEN?.trim() || undefined,
     jiraRequestTimeoutMs: parseInteger(parsed.JIRA_REQUEST_TIMEOUT_MS, 10_000),
+    jiraWritebackEnabled: parseBoolean(parsed.JIRA_WRITEBACK_ENABLED, false),
+    jiraWritebackTransitions: parseRepoMap(parsed.JIRA_WRITEBACK_TRANSITIONS),
+    jiraWritebackIntervalMs: parseInteger(parsed.JIRA_WRITEBACK_INTERVAL_MS, 60_000),
     cemsApiUrl: parsed.CEMS_API_URL?.trim() || undefined,
     cemsApiKey: parsed.CEMS_API_KEY?.trim() || undefined,
     cemsEnabled: parseBoolean(parsed.CEMS_ENABLED, false),
@@ -24,9 +24,13 @@ export const envSchema = z.object({
 
   JIRA_BASE_URL: z.string().optional(),
   JIRA_CLOUD_ID: z.string().optional(),
+  JIRA_API_BASE_URL: z.string().optional(),
   JIRA_USER: z.string().optional(),
   JIRA_API_TOKEN: z.string().optional(),
   JIRA_REQUEST_TIMEOUT_MS: z.string().optional(),
+  JIRA_WRITEBACK_ENABLED: z.string().optional(),
+  JIRA_WRITEBACK_TRANSITIONS: z.string().optional(),
+  JIRA_WRITEBACK_INTERVAL_MS: z.string().optional(),
 
   RUNNER_CONCURRENCY: z.string().optional(),
   WORK_ROOT: z.string().optional(),
@@ -89,6 +93,15 @@ export const envSchema = z.object({
   OBSERVER_WEBHOOK_SECRETS: z.string().optional(),
   OBSERVER_GITHUB_POLL_INTERVAL_SECONDS: z.string().optional(),
   OBSERVER_GITHUB_WATCHED_REPOS: z.string().optional(),
+  OBSERVER_JIRA_JQL: z.string().optional(),
+  OBSERVER_JIRA_POLL_INTERVAL_SECONDS: z.string().optional(),
+  OBSERVER_JIRA_REPO_MAP: z.string().optional(),
+
+  OBSERVER_INCIDENT_SERVICE_MAP: z.string().optional(),
+  PAGERDUTY_API_TOKEN: z.string().optional(),
+  PAGERDUTY_FROM_EMAIL: z.string().optional(),
+  OPSGENIE_API_KEY: z.string().optional(),
+  OPSGENIE_API_URL: z.string().optional(),
 
   OPENROUTER_API_KEY: z.string().optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
@@ -111,6 +124,10 @@ export const envSchema = z.object({
   OBSERVER_SMART_TRIAGE_ENABLED: z.string().optional(),
   OBSERVER_SMART_TRIAGE_MODEL: z.string().optional(),
   OBSERVER_SMART_TRIAGE_TIMEOUT_MS: z.string().optional(),
+  OBSERVER_ALERT_CLUSTERING_ENABLED: z.string().optional(),
+  OBSERVER_ALERT_CLUSTER_WINDOW_SECONDS: z.string().optional(),
+  OBSERVER_WRITEBACK_ENABLED: z.string().optional(),
+  OBSERVER_BUDGET_DEFAULT_RUN_COST_USD: z.string().optional(),
 
   BROWSER_VERIFY_ENABLED: z.string().optional(),
   REVIEW_APP_URL_PATTERN: z.string().optional(),
@@ -139,6 +156,9 @@ export const envSchema = z.object({
   FEATURE_DELIVERY_SKIP_PRODUCT_REVIEW: z.string().optional(),
   FEATURE_DELIVERY_SELF_REVIEW_ENABLED: z.string().optional(),
   FEATURE_DELIVERY_APPLY_REVIEW_FEEDBACK_ENABLED: z.string().optional(),
+  WORK_ITEM_WORKFLOWS_DIR: z.string().optional(),
+  REVIEW_SLA_ENABLED: z.string().optional(),
+  REVIEW_SLA_INTERVAL_MS: z.string().optional(),
   WORK_ITEM_GITHUB_ADOPTION_LABELS: z.string().optional(),
   AUTO_REVIEW_BRANCH_SYNC_ENABLED: z.string().optional(),
   AUTO_REVIEW_BRANCH_SYNC_MAX_BEHIND_COMMITS: z.string().optional(),
@@ -212,6 +232,17 @@ export function parseInteger(value: string | undefined, fallback: number): numbe
   return parsed;
 }
 
+export function parsePositiveNumber(value: string | undefined, fallback: number): number {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value.trim());
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback;
+  }
+  return parsed;
+}
+
 export function parseNonNegativeInteger(value: string | undefined, fallback: number): number {
   if (!value) {
     return fallback;
@@ -21,6 +21,7 @@ import {
 } from "./dashboard/actor-principal.js";
 import type {
   DashboardConversationSource,
+  DashboardFanOutSource,
   DashboardObserver,
   DashboardWorkItemsSource,
 } from "./dashboard/contracts.js";
@@ -37,7 +38,7 @@ import { UserDirectoryService } from "./user-directory/service.js";
 
 export type { DashboardConversationSource, DashboardObserver, DashboardWorkItemsSource } from "./dashboard/contracts.js";
 
-type DashboardRunManager = Pick<RunManager, "retryRun" | "continueRun" | "getRunChain" | "saveFeedbackFromSlackAction" | "cancelRun" | "enqueueRun">;
+type DashboardRunManager = Pick<RunManager, "retryRun" | "resumeRun" | "listResumePoints" | "continueRun" | "getRunChain" | "saveFeedbackFromSlackAction" | "cancelRun" | "enqueueRun" | "getApprovalRequest" | "decideApproval">;
 
 export function startDashboardServer(
   config: AppConfig,
@@ -56,6 +57,7 @@ export function startDashboardServer(
   workItemsSource?: DashboardWorkItemsSource,
   db?: Database,
   modelPriceStore?: ModelPriceStore,
+  fanOutSource?: DashboardFanOutSource,
 ): Server {
   const githubService = GitHubService.create(config);
   let githubRepositoriesCache: CachedGitHubRepositories | undefined;
@@ -140,6 +142,7 @@ export function startDashboardServer(
       if (await handleRunRoutes(req, res, pathname, {
         config,
         conversationSource,
+        fanOutSource,
         requestUrl,
         runManager,
         store,
@@ -152,7 +155,10 @@ export function startDashboardServer(
       })) return;
 
       if (await handleFeatureRoutes(req, res, pathname, {
+        actorPrincipal,
+        config,
         evalStore,
+        githubService,
         learningStore,
         observer,
         pipelineStore,
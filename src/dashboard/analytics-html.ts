@@ -0,0 +1,167 @@
+export function analyticsHtml(appName: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${appName} Delivery Metrics</title>
+  <style>
+    :root { color-scheme: dark; --bg:#070b15; --panel:#111827; --panel2:#0b1220; --line:#253653; --text:#e5edf8; --muted:#9fb0c7; --accent:#2563eb; --bad:#f87171; --ok:#34d399; }
+    * { box-sizing: border-box; }
+    body { margin:0; font-family: Inter, ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; background:var(--bg); color:var(--text); }
+    .shell { max-width:1240px; margin:28px auto; border:1px solid var(--line); border-radius:16px; background:var(--panel); overflow:hidden; }
+    header { display:flex; justify-content:space-between; gap:16px; align-items:center; padding:28px; border-bottom:1px solid var(--line); }
+    h1 { margin:0 0 8px; font-size:26px; }
+    h2 { margin:24px 0 12px; font-size:16px; }
+    p { margin:0; color:var(--muted); font-size:14px; }
+    .actions { display:flex; gap:10px; }
+    .btn { border:1px solid var(--line); background:#172033; color:var(--text); border-radius:10px; padding:10px 16px; font-weight:700; cursor:pointer; text-decoration:none; font-size:14px; }
+    .btn.primary { background:var(--accent); border-color:var(--accent); }
+    .content { padding:28px; }
+    .filters { display:flex; flex-wrap:wrap; gap:12px; align-items:flex-end; margin-bottom:20px; }
+    .filters label { display:flex; flex-direction:column; gap:6px; color:var(--muted); font-size:12px; text-transform:uppercase; letter-spacing:.08em; }
+    input, select { background:#071020; color:var(--text); border:1px solid var(--line); border-radius:8px; padding:8px; font:inherit; text-transform:none; letter-spacing:normal; }
+    .stats { display:grid; grid-template-columns:repeat(4, minmax(0, 1fr)); gap:12px; margin-bottom:20px; }
+    .stat { border:1px solid var(--line); border-radius:10px; padding:14px; background:var(--panel2); }
+    .stat strong { display:block; font-size:22px; margin-bottom:4px; }
+    .stat span { color:var(--muted); font-size:12px; text-transform:uppercase; letter-spacing:.08em; }
+    .table-wrap { overflow-x:auto; }
+    table { width:100%; border-collapse:collapse; border:1px solid var(--line); border-radius:12px; }
+    th, td { padding:10px 12px; border-bottom:1px solid var(--line); text-align:left; font-size:13px; vertical-align:middle; white-space:nowrap; }
+    th { color:var(--muted); text-transform:uppercase; letter-spacing:.08em; font-size:11px; background:#0d1628; }
+    td.num, th.num { text-align:right; }
+    tr:last-child td { border-bottom:0; }
+    .muted { color:var(--muted); }
+    .empty { border:1px dashed var(--line); border-radius:12px; padding:28px; text-align:center; color:var(--muted); }
+    .status { min-height:20px; margin:12px 0; color:var(--muted); }
+    .error { color:var(--bad); }
+  </style>
+</head>
+<body>
+  <div class="shell">
+    <header>
+      <div>
+        <h1>Delivery Metrics</h1>
+        <p>Feature delivery work items, reconstructed from their event history. Periods filter on creation date.</p>
+      </div>
+      <div class="actions">
+        <a class="btn" href="/">Back</a>
+        <a class="btn primary" id="csv" href="/api/analytics/work-items?format=csv">Export CSV</a>
+      </div>
+    </header>
+    <div class="content">
+      <form class="filters" id="filters">
+        <label>Team<select name="teamId"><option value="">All teams</option></select></label>
+        <label>Repo<select name="repo"><option value="">All repos</option></select></label>
+        <label>From<input type="date" name="from" /></label>
+        <label>To<input type="date" name="to" /></label>
+        <label>Group by<select name="groupBy">
+          <option value="team">Team</option>
+          <option value="repo">Repo</option>
+          <option value="week">Week</option>
+          <option value="month">Month</option>
+        </select></label>
+        <button class="btn" type="submit">Apply</button>
+      </form>
+      <div class="stats" id="stats"></div>
+      <div class="status" id="status"></div>
+      <h2>Summary</h2>
+      <div class="table-wrap" id="groups"></div>
+      <h2>Median hours per state</h2>
+      <div class="table-wrap" id="states"></div>
+    </div>
+  </div>
+<script>
+const el = {
+  form: document.getElementById('filters'),
+  csv: document.getElementById('csv'),
+  stats: document.getElementById('stats'),
+  status: document.getElementById('status'),
+  groups: document.getElementById('groups'),
+  states: document.getElementById('states'),
+};
+const STATE_ORDER = ['backlog', 'in_progress', 'auto_review', 'engineering_review', 'qa_preparation', 'product_review', 'qa_review', 'ready_for_merge'];
+let optionsLoaded = false;
+function esc(value) { return String(value ?? '').replace(/[&<>"']/g, c => ({'&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;',"'":'&#39;'}[c])); }
+async function fetchJson(url) {
+  const res = await fetch(url);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Request failed');
+  return data;
+}
+function hours(value) { return value === undefined || value === null ? '—' : value < 48 ? value + 'h' : (Math.round(value / 2.4) / 10) + 'd'; }
+function percent(value) { return value === undefined || value === null ? '—' : Math.round(value * 100) + '%'; }
+function plain(value) { return value === undefined || value === null ? '—' : String(value); }
+function queryString(extra) {
+  const params = new URLSearchParams();
+  new FormData(el.form).forEach((value, key) => { if (value) params.set(key, String(value)); });
+  Object.entries(extra || {}).forEach(([key, value]) => params.set(key, value));
+  return params.toString();
+}
+function fillOptions(report) {
+  const teams = new Map();
+  const repos = new Set();
+  report.workItems.forEach(item => {
+    teams.set(item.teamId, item.teamName);
+    if (item.repo) repos.add(item.repo);
+  });
+  const teamSelect = el.form.elements.namedItem('teamId');
+  Array.from(teams.entries()).sort((a, b) => a[1].localeCompare(b[1])).forEach(([id, name]) => teamSelect.add(new Option(name, id)));
+  const repoSelect = el.form.elements.namedItem('repo');
+  Array.from(repos).sort().forEach(repo => repoSelect.add(new Option(repo, repo)));
+  optionsLoaded = true;
+}
+function renderStats(overall) {
+  el.stats.innerHTML = [
+    [overall.workItems + ' / ' + overall.done, 'Work items / done'],
+    [hours(overall.medianLeadTimeHours) + ' · ' + hours(overall.p85LeadTimeHours), 'Lead time median · p85'],
+    [hours(overall.medianReviewWaitHours), 'Median review wait'],
+    [plain(overall.averageAutoReviewRounds), 'Auto-review rounds per PR'],
+    [percent(overall.ciRepairSuccessRate) + ' of ' + overall.ciRepairs, 'CI repairs succeeded'],
+    [percent(overall.doneWithoutHumanChangesRate), 'Done without human changes'],
+  ].map(([value, label]) => '<div class="stat"><strong>' + esc(value) + '</strong><span>' + esc(label) + '</span></div>').join('');
+}
+function renderGroups(report) {
+  if (report.groups.length === 0) {
+    el.groups.innerHTML = '<div class="empty">No feature delivery work items match these filters.</div>';
+    el.states.innerHTML = '';
+    return;
+  }
+  const rows = report.groups.concat(report.groups.length > 1 ? [report.overall] : []);
+  el.groups.innerHTML = '<table><thead><tr><th>' + esc(report.groupBy) + '</th><th class="num">Items</th><th class="num">Done</th>'
+    + '<th class="num">Lead time (median)</th><th class="num">Lead time (p85)</th><th class="num">Review wait</th>'
+    + '<th class="num">Auto-review rounds</th><th class="num">CI repair success</th><th class="num">Done w/o human changes</th></tr></thead><tbody>'
+    + rows.map(row => '<tr><td>' + esc(row.label) + '</td><td class="num">' + row.workItems + '</td><td class="num">' + row.done + '</td>'
+      + '<td class="num">' + hours(row.medianLeadTimeHours) + '</td><td class="num">' + hours(row.p85LeadTimeHours) + '</td>'
+      + '<td class="num">' + hours(row.medianReviewWaitHours) + '</td><td class="num">' + plain(row.averageAutoReviewRounds) + '</td>'
+      + '<td class="num">' + percent(row.ciRepairSuccessRate) + ' <span class="muted">(' + row.ciRepairs + ')</span></td>'
+      + '<td class="num">' + percent(row.doneWithoutHumanChangesRate) + '</td></tr>').join('')
+    + '</tbody></table>';
+
+  const seen = new Set(rows.flatMap(row => Object.keys(row.medianStateHours)));
+  const states = STATE_ORDER.filter(state => seen.has(state)).concat(Array.from(seen).filter(state => !STATE_ORDER.includes(state)).sort());
+  el.states.innerHTML = '<table><thead><tr><th>' + esc(report.groupBy) + '</th>' + states.map(state => '<th class="num">' + esc(state) + '</th>').join('') + '</tr></thead><tbody>'
+    + rows.map(row => '<tr><td>' + esc(row.label) + '</td>' + states.map(state => '<td class="num">' + hours(row.medianStateHours[state]) + '</td>').join('') + '</tr>').join('')
+    + '</tbody></table>';
+}
+async function load() {
+  el.status.className = 'status';
+  el.status.textContent = 'Loading…';
+  el.csv.href = '/api/analytics/work-items?' + queryString({ format: 'csv' });
+  try {
+    const report = await fetchJson('/api/analytics/work-items?' + queryString());
+    if (!optionsLoaded) fillOptions(report);
+    renderStats(report.overall);
+    renderGroups(report);
+    el.status.textContent = 'Generated ' + new Date(report.generatedAt).toLocaleString();
+  } catch (error) {
+    el.status.className = 'status error';
+    el.status.textContent = error.message;
+  }
+}
+el.form.addEventListener('submit', event => { event.preventDefault(); load(); });
+load();
+</script>
+</body>
+</html>`;
+}
@@ -1,15 +1,48 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { ChatMessage } from "../llm/caller.js";
-import type { ObserverEventRecord, ObserverStateSnapshot, TriggerRule } from "../observer/types.js";
+import type { FanOutView, StartFanOutInput } from "../runs/fan-out.js";
+import type { AlertCluster } from "../observer/alert-clustering.js";
+import type { DeferredEvent } from "../observer/autonomous-scheduler.js";
+import type { BacktestReport } from "../observer/backtest.js";
+import type { BudgetStatus } from "../observer/budgets.js";
+import type { EscalationActionResult } from "../observer/escalation-inbox.js";
+import type {
+  EscalationRecord,
+  EscalationStatus,
+  ObserverEventRecord,
+  ObserverStateSnapshot,
+  TriggerPriority,
+  TriggerRule,
+} from "../observer/types.js";
+import type { OverdueReviewTeam } from "../work-items/review-sla-monitor.js";
+import type { DeliveryAnalyticsQuery, DeliveryAnalyticsReport } from "../work-items/delivery-analytics.js";
 import type { ReviewRequestRecord, WorkItemEventRecord, WorkItemLinkedRunRecord, WorkItemRecord } from "../work-items/types.js";
 import type { DashboardActorPrincipal, DashboardUserActorPrincipal } from "./actor-principal.js";
 
-/** Lean interface — dashboard only reads observer state, never mutates it. */
+/**
+ * Lean interface — dashboard reads observer state; the only writes are manual
+ * actions on the deferred queue and the escalation inbox. Backtests are read-only.
+ */
 export interface DashboardObserver {
   getStateSnapshot(): Promise<ObserverStateSnapshot>;
   getRecentEvents(limit?: number): ObserverEventRecord[];
   getRules(): TriggerRule[];
   handleWebhookHttpRequest?(req: IncomingMessage, res: ServerResponse): Promise<boolean>;
+  /** Undefined when the autonomous scheduler is disabled. */
+  listDeferredEvents?(): DeferredEvent[] | undefined;
+  promoteDeferredEvent?(id: string): Promise<DeferredEvent | undefined>;
+  reprioritizeDeferredEvent?(id: string, priority: TriggerPriority): Promise<DeferredEvent | undefined>;
+  dropDeferredEvent?(id: string): Promise<DeferredEvent | undefined>;
+  listEscalations?(options?: { status?: EscalationStatus; limit?: number }): Promise<EscalationRecord[]>;
+  getEscalation?(id: string): Promise<EscalationRecord | undefined>;
+  acknowledgeEscalation?(id: string, actor: string): Promise<EscalationActionResult>;
+  convertEscalation?(id: string, actor: string): Promise<EscalationActionResult>;
+  dismissEscalation?(id: string, actor: string, note?: string): Promise<EscalationActionResult>;
+  backtest?(options: { days: number; rules?: TriggerRule[] }): Promise<BacktestReport>;
+  /** Undefined when alert clustering is disabled. */
+  listAlertClusters?(): AlertCluster[] | undefined;
+  /** Undefined when no spend budgets are configured. */
+  getBudgetStatus?(): Promise<BudgetStatus[] | undefined>;
 }
 
 /** Optional source for in-memory orchestrator thread messages. */
@@ -17,6 +50,14 @@ export interface DashboardConversationSource {
   get(threadKey: string): Promise<ChatMessage[] | undefined>;
 }
 
+/** Multi-repo fan-outs (see FanOutManager). */
+export interface DashboardFanOutSource {
+  start(input: StartFanOutInput): Promise<FanOutView>;
+  get(id: string): Promise<FanOutView | undefined>;
+  list(limit?: number): Promise<FanOutView[]>;
+  cancel(id: string): Promise<FanOutView | undefined>;
+}
+
 export interface DashboardWorkItemsSource {
   listWorkItems(workflow?: string): Promise<WorkItemRecord[]>;
   getWorkItem(id: string): Promise<WorkItemRecord | undefined>;
@@ -31,6 +72,10 @@ export interface DashboardWorkItemsSource {
     createdAt: string;
   }>>;
   listEventsForWorkItem(workItemId: string): Promise<WorkItemEventRecord[]>;
+  /** Review requests past their SLA response deadline, per owner team */
+  listOverdueReviews?(): Promise<OverdueReviewTeam[]>;
+  /** Feature delivery metrics from the work item event history */
+  getDeliveryAnalytics?(query: DeliveryAnalyticsQuery): Promise<DeliveryAnalyticsReport>;
   createDiscoveryWorkItem(input: {
     title: string;
     summary?: string;
@@ -907,6 +907,11 @@ export function dashboardHtml(config: AppConfig): string {
       border-color: color-mix(in srgb, var(--accent) 36%, var(--border));
       color: color-mix(in srgb, var(--accent) 80%, var(--text));
     }
+    .status-pill.awaiting_approval {
+      background: color-mix(in srgb, var(--warn) 18%, transparent);
+      border-color: color-mix(in srgb, var(--warn) 42%, var(--border));
+      color: color-mix(in srgb, var(--warn) 82%, var(--text));
+    }
     .status-pill.running,
     .status-pill.validating,
     .status-pill.pushing,
@@ -1911,6 +1916,10 @@ export function dashboardHtml(config: AppConfig): string {
                   <span class="material-symbols-rounded">refresh</span>
                   <span>Retry</span>
                 </button>
+                <button class="action-btn" id="resume-run" disabled title="Resume from the last node that ran">
+                  <span class="material-symbols-rounded">play_arrow</span>
+                  <span>Resume</span>
+                </button>
               </div>
             </div>
             <div id="summary" class="summary-empty">No run selected.</div>
@@ -2020,6 +2029,51 @@ export function dashboardHtml(config: AppConfig): string {
                 <div id="observer-stats" class="meta">Loading...</div>
               </div>
             </div>
+            <details id="observer-rule-test" style="margin-bottom: 12px; border: 1px solid var(--border); border-radius: 8px; padding: 10px; background: var(--panel-3);">
+              <summary style="cursor: pointer; font-size: 12px; font-weight: 700; color: var(--muted); text-transform: uppercase; letter-spacing: 0.06em;">Test a rule</summary>
+              <div style="display: flex; gap: 8px; margin: 8px 0;">
+                <select id="observer-rule-test-rule" style="flex: 1; font-size: 12px;"></select>
+                <button class="modal-inline-btn" id="observer-rule-test-run">Test</button>
+              </div>
+              <textarea id="observer-rule-test-payload" rows="6" placeholder='Sample payload (JSON), e.g. {"level": "fatal", "userCount": 250}' style="width: 100%; box-sizing: border-box; font-family: var(--font-mono); font-size: 12px;"></textarea>
+              <div id="observer-rule-test-result" class="meta" style="margin-top: 8px; font-family: var(--font-mono); font-size: 12px;"></div>
+            </details>
+            <details id="observer-backtest" style="margin-bottom: 12px; border: 1px solid var(--border); border-radius: 8px; padding: 10px; background: var(--panel-3);">
+              <summary style="cursor: pointer; font-size: 12px; font-weight: 700; color: var(--muted); text-transform: uppercase; letter-spacing: 0.06em;">Backtest rules</summary>
+              <div style="display: flex; gap: 8px; margin: 8px 0; align-items: center; font-size: 12px;">
+                <label for="observer-backtest-days">Last</label>
+                <input id="observer-backtest-days" type="number" min="1" max="90" value="7" style="width: 64px; font-size: 12px;">
+                <span>days</span>
+                <button class="modal-inline-btn" id="observer-backtest-run">Run backtest</button>
+              </div>
+              <textarea id="observer-backtest-rules" rows="6" placeholder="Candidate rules file (YAML with trigger_rules). Leave empty to backtest the loaded rules." style="width: 100%; box-sizing: border-box; font-family: var(--font-mono); font-size: 12px;"></textarea>
+              <div id="observer-backtest-result" class="meta" style="margin-top: 8px; font-size: 12px;"></div>
+            </details>
+            <div id="observer-escalations-panel" style="display: none; margin-bottom: 12px;">
+              <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 6px;">
+                <div style="font-size: 12px; font-weight: 700; color: var(--muted); text-transform: uppercase; letter-spacing: 0.06em;">Escalations</div>
+                <select id="observer-escalations-filter" style="font-size: 12px;">
+                  <option value="">All</option>
+                  <option value="open" selected>Open</option>
+                  <option value="acknowledged">Acknowledged</option>
+                  <option value="converted">Converted</option>
+                  <option value="dismissed">Dismissed</option>
+                </select>
+              </div>
+              <div id="observer-escalations" class="activity-stream" style="max-height: 320px;"></div>
+            </div>
+            <div id="observer-budgets-panel" style="display: none; margin-bottom: 12px;">
+              <div style="font-size: 12px; font-weight: 700; margin-bottom: 6px; color: var(--muted); text-transform: uppercase; letter-spacing: 0.06em;">Spend budgets</div>
+              <div id="observer-budgets" class="activity-stream" style="max-height: 320px;"></div>
+            </div>
+            <div id="observer-clusters-panel" style="display: none; margin-bottom: 12px;">
+              <div style="font-size: 12px; font-weight: 700; margin-bottom: 6px; color: var(--muted); text-transform: uppercase; letter-spacing: 0.06em;">Alert clusters</div>
+              <div id="observer-clusters" class="activity-stream" style="max-height: 280px;"></div>
+            </div>
+            <div id="observer-deferred-panel" style="display: none; margin-bottom: 12px;">
+              <div style="font-size: 12px; font-weight: 700; margin-bottom: 6px; color: var(--muted); text-transform: uppercase; letter-spacing: 0.06em;">Deferred events</div>
+              <div id="observer-deferred" class="activity-stream" style="max-height: 240px;"></div>
+            </div>
             <div style="font-size: 12px; font-weight: 700; margin-bottom: 6px; color: var(--muted); text-transform: uppercase; letter-spacing: 0.06em;">Recent events</div>
             <div id="observer-events" class="activity-stream" style="max-height: 300px;">
               <div class="act-info">No events yet.</div>
@@ -2056,9 +2110,13 @@ export function dashboardHtml(config: AppConfig): string {
                   </select>
                 </div>
               </div>
-              <div class="meta" id="board-meta">Loading work items...</div>
+              <div class="meta"><span id="board-meta">Loading work items...</span> <a href="/analytics" class="top-btn" style="padding:6px 12px; margin-left:8px;">Delivery metrics</a></div>
             </div>
           </div>
+          <div class="card" id="board-overdue-panel" style="display: none;">
+            <div style="font-size: 12px; font-weight: 700; margin-bottom: 6px; color: var(--muted); text-transform: uppercase; letter-spacing: 0.06em;">Overdue reviews</div>
+            <div id="board-overdue" class="activity-stream" style="max-height: 240px;"></div>
+          </div>
           <div class="board-layout">
             <div class="board-columns" id="board-columns"></div>
             <div class="card board-detail is-hidden" id="board-detail">
@@ -2167,7 +2225,7 @@ export function dashboardHtml(config: AppConfig): string {
           <label style="display: block; font-size: 12px; color: var(--muted); margin-bottom: 4px; font-weight: 600;">Pipeline ID</label>
           <input type="text" id="pl-editor-id" placeholder="e.g. my-pipeline" style="width: 100%; padding: 7px 10px; border: 1px solid var(--border); background: var(--panel); color: var(--text); border-radius: 6px; font-size: 12px; font-family: var(--font-mono); outline: none; margin-bottom: 10px;" />
           <label style="display: block; font-size: 12px; color: var(--muted); margin-bottom: 4px; font-weight: 600;">Pipeline YAML</label>
-          <textarea id="pl-editor-yaml" style="width: 100%; min-height: 200px; padding: 8px 10px; border: 1px solid var(--border); background: var(--panel); color: var(--text); border-radius: 6px; font-size: 12px; font-family: var(--font-mono); resize: vertical; outline: none;" placeholder="version: 1\nname: My Pipeline\nnodes:\n  - id: step1\n    type: deterministic\n    action: clone"></textarea>
+          <textarea id="pl-editor-yaml" style="width: 100%; min-height: 200px; padding: 8px 10px; border: 1px solid var(--border); background: var(--panel); color: var(--text); border-radius: 6px; font-size: 12px; font-family: var(--font-mono); resize: vertical; outline: none;" placeholder="version: 2\nname: My Pipeline\nnodes:\n  - id: step1\n    type: deterministic\n    action: clone"></textarea>
           <div id="pl-editor-result" style="margin-top: 8px; font-size: 12px; min-height: 20px;"></div>
           <div style="display: flex; gap: 8px; justify-content: flex-end; margin-top: 12px;">
             <button class="action-btn" id="pl-editor-cancel" style="font-size: 11px; padding: 5px 12px;">Cancel</button>
@@ -2175,6 +2233,34 @@ export function dashboardHtml(config: AppConfig): string {
             <button class="action-btn" id="pl-editor-save" style="font-size: 11px; padding: 5px 12px; background: var(--ring); color: #fff; border-color: var(--ring);">Save</button>
           </div>
         </div>
+
+        <!-- Plan preview (hidden by default) -->
+        <div id="pl-plan" style="display: none; border: 1px solid var(--border); border-radius: 8px; padding: 14px; background: var(--panel-3); margin-top: 12px;">
+          <div style="font-size: 13px; font-weight: 700; margin-bottom: 10px;" id="pl-plan-title">Plan Preview</div>
+          <label style="display: block; font-size: 12px; color: var(--muted); margin-bottom: 4px; font-weight: 600;">Skip nodes (comma-separated)</label>
+          <input type="text" id="pl-plan-skip" placeholder="e.g. lint_fix, browser_verify" style="width: 100%; padding: 7px 10px; border: 1px solid var(--border); background: var(--panel); color: var(--text); border-radius: 6px; font-size: 12px; font-family: var(--font-mono); outline: none; margin-bottom: 10px;" />
+          <label style="display: block; font-size: 12px; color: var(--muted); margin-bottom: 4px; font-weight: 600;">Enable nodes (comma-separated)</label>
+          <input type="text" id="pl-plan-enable" placeholder="e.g. scope_judge" style="width: 100%; padding: 7px 10px; border: 1px solid var(--border); background: var(--panel); color: var(--text); border-radius: 6px; font-size: 12px; font-family: var(--font-mono); outline: none; margin-bottom: 10px;" />
+          <label style="display: block; font-size: 12px; color: var(--muted); margin-bottom: 4px; font-weight: 600;">Repo (optional, applies its .gooseherd.yml)</label>
+          <input type="text" id="pl-plan-repo" placeholder="e.g. org/repo" style="width: 100%; padding: 7px 10px; border: 1px solid var(--border); background: var(--panel); color: var(--text); border-radius: 6px; font-size: 12px; font-family: var(--font-mono); outline: none; margin-bottom: 10px;" />
+          <label style="display: block; font-size: 12px; color: var(--muted); margin-bottom: 4px; font-weight: 600;">Base branch (optional)</label>
+          <input type="text" id="pl-plan-base-branch" placeholder="defaults to the configured base branch" style="width: 100%; padding: 7px 10px; border: 1px solid var(--border); background: var(--panel); color: var(--text); border-radius: 6px; font-size: 12px; font-family: var(--font-mono); outline: none;" />
+          <div style="display: flex; gap: 8px; justify-content: flex-end; margin-top: 12px;">
+            <button class="action-btn" id="pl-plan-close" style="font-size: 11px; padding: 5px 12px;">Close</button>
+            <button class="action-btn" id="pl-plan-run" style="font-size: 11px; padding: 5px 12px; background: var(--ring); color: #fff; border-color: var(--ring);">Preview</button>
+          </div>
+          <div id="pl-plan-result" class="mono" style="margin-top: 10px; font-size: 11px;"></div>
+        </div>
+
+        <!-- Revision history (hidden by default) -->
+        <div id="pl-history" style="display: none; border: 1px solid var(--border); border-radius: 8px; padding: 14px; background: var(--panel-3); margin-top: 12px;">
+          <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 10px;">
+            <div style="font-size: 13px; font-weight: 700;" id="pl-history-title">History</div>
+            <button class="action-btn" id="pl-history-close" style="font-size: 11px; padding: 5px 12px;">Close</button>
+          </div>
+          <div id="pl-history-list" style="font-size: 12px;"></div>
+          <div id="pl-history-diff" class="mono" style="margin-top: 10px; font-size: 11px;"></div>
+        </div>
       </div>
     </div>
   </div>
@@ -2227,6 +2313,7 @@ export function dashboardHtml(config: AppConfig): string {
       <div id="nr-repo-custom-wrap" style="display: none;">
         <label for="nr-repo">Repository (owner/repo)</label>
         <input type="text" id="nr-repo" placeholder="yourorg/yourrepo" />
+        <div class="modal-help">For a multi-repo run, list several repos separated by commas, or use org:yourorg and/or topic:yourtopic.</div>
       </div>
       <div class="modal-subactions">
         <button type="button" class="modal-inline-btn" id="nr-repo-custom-toggle">Use custom repository</button>
@@ -2297,6 +2384,8 @@ export function dashboardHtml(config: AppConfig): string {
       boardWorkflow: document.getElementById('board-workflow'),
       boardMeta: document.getElementById('board-meta'),
       boardColumns: document.getElementById('board-columns'),
+      boardOverduePanel: document.getElementById('board-overdue-panel'),
+      boardOverdue: document.getElementById('board-overdue'),
       boardDetail: document.getElementById('board-detail'),
       boardDetailSubtitle: document.getElementById('board-detail-subtitle'),
       boardDetailTitle: document.getElementById('board-detail-title'),
@@ -2317,6 +2406,7 @@ export function dashboardHtml(config: AppConfig): string {
       summary: document.getElementById('summary'),
       summarySubtitle: document.getElementById('summary-subtitle'),
       retryRun: document.getElementById('retry-run'),
+      resumeRun: document.getElementById('resume-run'),
       openBranch: document.getElementById('open-branch'),
       openPr: document.getElementById('open-pr'),
       openCommit: document.getElementById('open-commit'),
@@ -2410,6 +2500,20 @@ export function dashboardHtml(config: AppConfig): string {
       plEditorCancel: document.getElementById('pl-editor-cancel'),
       plEditorValidate: document.getElementById('pl-editor-validate'),
       plEditorSave: document.getElementById('pl-editor-save'),
+      plPlan: document.getElementById('pl-plan'),
+      plPlanTitle: document.getElementById('pl-plan-title'),
+      plPlanSkip: document.getElementById('pl-plan-skip'),
+      plPlanEnable: document.getElementById('pl-plan-enable'),
+      plPlanRepo: document.getElementById('pl-plan-repo'),
+      plPlanBaseBranch: document.getElementById('pl-plan-base-branch'),
+      plPlanClose: document.getElementById('pl-plan-close'),
+      plPlanRun: document.getElementById('pl-plan-run'),
+      plPlanResult: document.getElementById('pl-plan-result'),
+      plHistory: document.getElementById('pl-history'),
+      plHistoryTitle: document.getElementById('pl-history-title'),
+      plHistoryClose: document.getElementById('pl-history-close'),
+      plHistoryList: document.getElementById('pl-history-list'),
+      plHistoryDiff: document.getElementById('pl-history-diff'),
     };
 
     // Session tab switching
@@ -2961,6 +3065,236 @@ export function dashboardHtml(config: AppConfig): string {
       }
     }
 
+    async function renderApprovalRequest(run, mountNode) {
+      if (!run || !mountNode || run.status !== 'awaiting_approval') {
+        if (mountNode) {
+          mountNode.style.display = 'none';
+          mountNode.innerHTML = '';
+        }
+        return;
+      }
+
+      mountNode.style.display = '';
+      mountNode.innerHTML = '';
+      mountNode.style.marginTop = '12px';
+      mountNode.style.padding = '12px';
+      mountNode.style.border = '1px solid color-mix(in srgb, var(--warn) 42%, var(--border))';
+      mountNode.style.borderRadius = '12px';
+      mountNode.style.background = 'var(--panel)';
+
+      var title = document.createElement('div');
+      title.style.fontWeight = '600';
+      title.textContent = 'Approval needed';
+      mountNode.appendChild(title);
+
+      var body = document.createElement('div');
+      body.style.marginTop = '8px';
+      body.style.color = 'var(--text-muted)';
+      body.textContent = 'Loading approval request…';
+      mountNode.appendChild(body);
+
+      var request;
+      try {
+        var data = await fetchJson('/api/runs/' + encodeURIComponent(run.id) + '/approval');
+        if (state.selectedId !== run.id) {
+          return;
+        }
+        request = data.request;
+      } catch (e) {
+        body.textContent = e.message || 'Failed to load approval request.';
+        return;
+      }
+      if (!request) {
+        body.textContent = 'No approval request recorded for this run.';
+        return;
+      }
+
+      title.textContent = 'Approval needed at ' + request.nodeId;
+      body.innerHTML = '';
+      var lines = [];
+      if (request.diffStats) {
+        lines.push('Diff: +' + request.diffStats.linesAdded + ' / -' + request.diffStats.linesRemoved + ' across ' + request.diffStats.filesChanged + ' file(s)');
+      }
+      if (request.changedFiles.length > 0) {
+        lines.push('Files: ' + request.changedFiles.slice(0, 10).join(', ') + (request.changedFiles.length > 10 ? ' (+' + (request.changedFiles.length - 10) + ' more)' : ''));
+      }
+      for (var i = 0; i < request.gateReport.length; i++) {
+        var gate = request.gateReport[i];
+        lines.push(gate.gate + ': ' + gate.verdict + (gate.reasons.length > 0 ? ' — ' + gate.reasons.join('; ') : ''));
+      }
+      if (lines.length === 0) {
+        lines.push('No diff summary or gate results were recorded.');
+      }
+      for (var j = 0; j < lines.length; j++) {
+        var line = document.createElement('div');
+        line.textContent = lines[j];
+        body.appendChild(line);
+      }
+
+      var note = document.createElement('textarea');
+      note.placeholder = 'Note for the agent (required to request changes; loops back to ' + request.loopBackTo + ')';
+      note.rows = 3;
+      note.style.width = '100%';
+      note.style.marginTop = '10px';
+      note.style.boxSizing = 'border-box';
+      mountNode.appendChild(note);
+
+      var actions = document.createElement('div');
+      actions.style.display = 'flex';
+      actions.style.gap = '8px';
+      actions.style.marginTop = '8px';
+      mountNode.appendChild(actions);
+
+      var buttons = [];
+      function addDecisionButton(label, decision) {
+        var btn = document.createElement('button');
+        btn.className = 'modal-inline-btn';
+        btn.textContent = label;
+        btn.onclick = async function() {
+          var noteText = note.value.trim();
+          if (decision === 'changes_requested' && !noteText) {
+            alert('Describe the changes you want before sending the run back.');
+            return;
+          }
+          if (decision === 'rejected' && !confirm('Reject this run? It will be marked failed.')) return;
+          buttons.forEach(function(b) { b.disabled = true; });
+          try {
+            await fetchJson('/api/runs/' + encodeURIComponent(run.id) + '/approval', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ decision: decision, note: noteText || undefined, by: 'dashboard' })
+            });
+            await refreshAll();
+          } catch (e) {
+            alert(e.message || 'Failed to record the decision.');
+            buttons.forEach(function(b) { b.disabled = false; });
+          }
+        };
+        buttons.push(btn);
+        actions.appendChild(btn);
+      }
+      addDecisionButton('Approve', 'approved');
+      addDecisionButton('Request changes', 'changes_requested');
+      addDecisionButton('Reject', 'rejected');
+    }
+
+    async function renderFanOutSummary(run, mountNode) {
+      if (!run || !mountNode || !run.fanOutId) {
+        if (mountNode) {
+          mountNode.style.display = 'none';
+          mountNode.innerHTML = '';
+        }
+        return;
+      }
+
+      mountNode.style.display = '';
+      mountNode.innerHTML = '';
+      mountNode.style.marginTop = '12px';
+      mountNode.style.padding = '12px';
+      mountNode.style.border = '1px solid var(--border)';
+      mountNode.style.borderRadius = '12px';
+      mountNode.style.background = 'var(--panel)';
+
+      var header = document.createElement('div');
+      header.style.display = 'flex';
+      header.style.alignItems = 'center';
+      header.style.justifyContent = 'space-between';
+      header.style.gap = '12px';
+
+      var title = document.createElement('div');
+      title.style.fontWeight = '600';
+      title.textContent = 'Multi-repo run';
+      header.appendChild(title);
+      mountNode.appendChild(header);
+
+      var body = document.createElement('div');
+      body.style.marginTop = '10px';
+      body.style.color = 'var(--text-muted)';
+      body.textContent = 'Loading repositories…';
+      mountNode.appendChild(body);
+
+      try {
+        var data = await fetchJson('/api/fan-outs/' + encodeURIComponent(run.fanOutId));
+        if (state.selectedId !== run.id) {
+          return;
+        }
+        var fanOut = data.fanOut;
+        var counts = fanOut.counts || {};
+        var done = (counts.completed || 0) + (counts.failed || 0) + (counts.cancelled || 0);
+        title.textContent = 'Multi-repo run · ' + done + '/' + fanOut.children.length + ' done · ' + fanOut.status;
+
+        if (fanOut.status === 'running') {
+          var cancelBtn = document.createElement('button');
+          cancelBtn.className = 'modal-inline-btn';
+          cancelBtn.textContent = 'Cancel all';
+          cancelBtn.onclick = async function() {
+            if (!confirm('Cancel every remaining run in this multi-repo run?')) return;
+            cancelBtn.disabled = true;
+            try {
+              await fetchJson('/api/fan-outs/' + encodeURIComponent(fanOut.id) + '/cancel', { method: 'POST' });
+              renderFanOutSummary(run, mountNode);
+            } catch (e) {
+              alert(e.message || 'Failed to cancel.');
+              cancelBtn.disabled = false;
+            }
+          };
+          header.appendChild(cancelBtn);
+        }
+
+        body.innerHTML = '';
+        for (var i = 0; i < fanOut.children.length; i++) {
+          var child = fanOut.children[i];
+          var row = document.createElement('div');
+          row.style.display = 'flex';
+          row.style.alignItems = 'center';
+          row.style.gap = '8px';
+          row.style.padding = '4px 0';
+
+          var pill = document.createElement('span');
+          pill.className = 'status-pill ' + child.status;
+          pill.textContent = child.status.replace(/_/g, ' ');
+          row.appendChild(pill);
+
+          var repoNode;
+          if (child.runId && child.runId !== run.id) {
+            repoNode = document.createElement('a');
+            repoNode.href = '#run/' + child.runId.slice(0, 8);
+            repoNode.style.color = 'var(--ring)';
+            repoNode.style.textDecoration = 'none';
+          } else {
+            repoNode = document.createElement('span');
+            repoNode.style.color = 'var(--text)';
+          }
+          repoNode.textContent = child.repoSlug;
+          row.appendChild(repoNode);
+
+          if (child.prUrl) {
+            var prLink = document.createElement('a');
+            prLink.href = child.prUrl;
+            prLink.target = '_blank';
+            prLink.rel = 'noreferrer noopener';
+            prLink.textContent = 'PR';
+            prLink.style.color = 'var(--ring)';
+            prLink.style.marginLeft = 'auto';
+            row.appendChild(prLink);
+          } else if (child.status === 'failed' && child.error) {
+            var errNode = document.createElement('span');
+            errNode.style.marginLeft = 'auto';
+            errNode.style.color = 'var(--err)';
+            errNode.style.fontSize = '12px';
+            errNode.textContent = child.error.length > 80 ? child.error.slice(0, 80) + '…' : child.error;
+            row.appendChild(errNode);
+          }
+          body.appendChild(row);
+        }
+      } catch (_error) {
+        if (state.selectedId !== run.id) {
+          return;
+        }
+        body.textContent = 'Multi-repo status is unavailable.';
+      }
+    }
+
     function renderSummary(run) {
       if (!run) {
         el.summary.className = 'summary-empty';
@@ -3112,6 +3446,16 @@ export function dashboardHtml(config: AppConfig): string {
       autoReviewSummaryMount.style.display = 'none';
       el.summary.appendChild(autoReviewSummaryMount);
       renderAutoReviewSummary(run, autoReviewSummaryMount);
+
+      var approvalMount = document.createElement('div');
+      approvalMount.style.display = 'none';
+      el.summary.appendChild(approvalMount);
+      renderApprovalRequest(run, approvalMount);
+
+      var fanOutSummaryMount = document.createElement('div');
+      fanOutSummaryMount.style.display = 'none';
+      el.summary.appendChild(fanOutSummaryMount);
+      renderFanOutSummary(run, fanOutSummaryMount);
     }
 
     var consoleFilter = 'all';
@@ -3352,7 +3696,7 @@ export function dashboardHtml(config: AppConfig): string {
         if (!matchesRepositoryFilter(run)) return false;
         if (currentStatusFilter !== 'all') {
           if (currentStatusFilter === 'running') {
-            if (run.status !== 'running' && run.status !== 'queued' && run.status !== 'validating' && run.status !== 'pushing' && run.status !== 'awaiting_ci' && run.status !== 'ci_fixing') return false;
+            if (run.status !== 'running' && run.status !== 'queued' && run.status !== 'validating' && run.status !== 'pushing' && run.status !== 'awaiting_ci' && run.status !== 'ci_fixing' && run.status !== 'awaiting_approval') return false;
           } else if (run.status !== currentStatusFilter) return false;
         }
         if (currentSearchQuery) {
@@ -3551,17 +3895,33 @@ export function dashboardHtml(config: AppConfig): string {
         progressBar.appendChild(step);
       }
 
-      // Render text log
+      // Render text log. Steps of a called pipeline ("<callId>.<stepId>")
+      // are indented under a header for the call.
       var lines = [];
+      var currentCall = '';
       for (var j = 0; j < events.length; j++) {
         var evt = events[j];
         var ts = evt.timestamp ? evt.timestamp.split('T')[1].split('.')[0] : '';
+        var stepLabel = evt.nodeId || '';
+        var stepIndent = '';
+        if ((evt.type === 'node_start' || evt.type === 'node_end') && evt.nodeId) {
+          var callEnd = evt.nodeId.lastIndexOf('.');
+          var callId = callEnd >= 0 ? evt.nodeId.slice(0, callEnd) : '';
+          if (callId && callId !== currentCall) {
+            lines.push(ts + '  \u25B8 ' + callId + ' (called pipeline)');
+          }
+          currentCall = callId;
+          if (callId) {
+            stepIndent = '    '.repeat(callId.split('.').length);
+            stepLabel = evt.nodeId.slice(callEnd + 1);
+          }
+        }
         if (evt.type === 'node_start') {
-          lines.push(ts + '  \u25B6 ' + (evt.nodeId || ''));
+          lines.push(ts + '  ' + stepIndent + '\u25B6 ' + stepLabel);
         } else if (evt.type === 'node_end') {
           var dur = evt.durationMs ? ' (' + (evt.durationMs / 1000).toFixed(1) + 's)' : '';
           var icon = evt.outcome === 'success' ? '\u2705' : evt.outcome === 'skipped' ? '\u23ED' : evt.outcome === 'soft_fail' ? '\u26A0\uFE0F' : '\u274C';
-          lines.push(ts + '  ' + icon + ' ' + (evt.nodeId || '') + dur + (evt.error ? ' \u2014 ' + evt.error.slice(0, 80) : ''));
+          lines.push(ts + '  ' + stepIndent + icon + ' ' + stepLabel + dur + (evt.error ? ' \u2014 ' + evt.error.slice(0, 80) : ''));
         } else if (evt.type === 'phase_change') {
           lines.push(ts + '  \u{1F504} phase \u2192 ' + (evt.phase || ''));
         } else if (evt.type === 'artifact' && evt.artifact) {
@@ -3948,12 +4308,45 @@ export function dashboardHtml(config: AppConfig): string {
       } else {
         renderBoardDetail();
       }
+      loadOverdueReviews().catch(function() {
+        el.boardOverduePanel.style.display = 'none';
+      });
+    }
+
+    async function loadOverdueReviews() {
+      var data = await fetchJson('/api/review-requests/overdue');
+      var teams = data && data.enabled ? (data.teams || []) : [];
+      if (teams.length === 0) {
+        el.boardOverduePanel.style.display = 'none';
+        return;
+      }
+      el.boardOverduePanel.style.display = '';
+      el.boardOverdue.innerHTML = '';
+      teams.forEach(function(team) {
+        var node = document.createElement('div');
+        node.className = 'act-event act-info';
+        node.style.cssText = 'padding: 6px 10px; font-size: 12px; line-height: 1.5; border-bottom: 1px dashed color-mix(in srgb, var(--border) 60%, transparent);';
+        node.innerHTML = '<strong>' + esc(team.teamName) + '</strong>' +
+          ' \u00b7 <span style="font-weight: 700; color: var(--warn);">' + team.reviews.length + ' overdue</span>' +
+          team.reviews.map(function(review) {
+            return '<br><a href="#work-item/' + encodeURIComponent(review.workItemId.slice(0, 8)) + '">' +
+              esc(review.jiraIssueKey || review.workItemTitle) + '</a>' +
+              ' \u00b7 ' + esc(review.title) + ' \u00b7 ' + esc(titleCaseWorkItemState(review.stage)) +
+              '<span style="color: var(--muted); font-size: 11px;"> \u00b7 due ' + esc(timeAgo(review.dueAt)) +
+              (review.escalated ? ' \u00b7 <span style="color: var(--err);">escalated</span>' : '') + '</span>';
+          }).join('');
+        el.boardOverdue.appendChild(node);
+      });
     }
 
     function canRetry(run) {
       return run.status === 'failed' || run.status === 'completed';
     }
 
+    function canResume(run) {
+      return (run.status === 'failed' || run.status === 'cancelled') && run.runtime !== 'kubernetes';
+    }
+
     function renderBoard() {
       if (!el.boardColumns) return;
       el.boardColumns.innerHTML = '';
@@ -4481,6 +4874,7 @@ export function dashboardHtml(config: AppConfig): string {
     async function refreshSelected() {
       if (!state.selectedId) {
         el.retryRun.disabled = true;
+        el.resumeRun.disabled = true;
         renderSummary(null);
         renderActivityStream(null, null, false);
         renderPipelineTimeline(null, false);
@@ -4500,6 +4894,7 @@ export function dashboardHtml(config: AppConfig): string {
 
       const run = runData.run;
       el.retryRun.disabled = !canRetry(run);
+      el.resumeRun.disabled = !canResume(run);
       renderSummary(run);
 
       const files = (changesData.files || []).slice();
@@ -4622,9 +5017,27 @@ export function dashboardHtml(config: AppConfig): string {
       }
     }
 
+    async function resumeSelected() {
+      if (!state.selectedId) {
+        return;
+      }
+      el.resumeRun.disabled = true;
+      try {
+        await fetchJson('/api/runs/' + encodeURIComponent(state.selectedId) + '/resume', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ by: 'dashboard' }),
+        });
+        await refreshAll();
+      } finally {
+        await refreshSelected();
+      }
+    }
+
     el.feedbackUp.onclick = () => saveFeedback('up').catch(console.error);
     el.feedbackDown.onclick = () => saveFeedback('down').catch(console.error);
     el.retryRun.onclick = () => retrySelected().catch(console.error);
+    el.resumeRun.onclick = () => resumeSelected().catch(console.error);
     el.actShowAll.onclick = function() {
       activityShowAll = true;
       lastRenderedEventCount = -1; // force re-render
@@ -5123,6 +5536,7 @@ export function dashboardHtml(config: AppConfig): string {
         if (res.pipelines) {
           for (var i = 0; i < res.pipelines.length; i++) {
             var p = res.pipelines[i];
+            if (p.includeOnly) continue;
             var opt = document.createElement('option');
             opt.value = p.id;
             opt.textContent = p.name + (p.isBuiltIn ? ' (built-in)' : '');
@@ -5174,6 +5588,20 @@ export function dashboardHtml(config: AppConfig): string {
         el.pipelinesOverlay.classList.remove('open');
       }
     });
+    // "a/b, c/d" or "org:x topic:y" → fan-out targets; a single repo → null.
+    function parseFanOutTargets(value) {
+      var tokens = value.split(/[ ,]+/).filter(Boolean);
+      var targets = { repos: [] };
+      for (var i = 0; i < tokens.length; i++) {
+        if (tokens[i].indexOf('org:') === 0) targets.org = tokens[i].slice(4);
+        else if (tokens[i].indexOf('topic:') === 0) targets.topic = tokens[i].slice(6);
+        else targets.repos.push(tokens[i]);
+      }
+      if (!targets.org && !targets.topic && targets.repos.length < 2) return null;
+      if (targets.repos.length === 0) delete targets.repos;
+      return targets;
+    }
+
     el.nrSubmit.onclick = async () => {
       var repo = (newRunRepoMode === 'custom' ? el.nrRepo.value : el.nrRepoSelect.value).trim();
       var task = el.nrTask.value.trim();
@@ -5184,6 +5612,33 @@ export function dashboardHtml(config: AppConfig): string {
       }
       el.nrSubmit.disabled = true;
       el.nrError.style.display = 'none';
+      var targets = newRunRepoMode === 'custom' ? parseFanOutTargets(repo) : null;
+      if (targets) {
+        try {
+          var fanOutResult = await fetchJson('/api/fan-outs', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({
+              repos: targets.repos,
+              org: targets.org,
+              topic: targets.topic,
+              baseBranch: el.nrBranch.value.trim() || undefined,
+              task: task,
+              pipeline: el.nrPipeline.value.trim() || undefined,
+            }),
+          });
+          el.newRunOverlay.classList.remove('open');
+          var firstChild = fanOutResult.fanOut.children.find(function(child) { return child.runId; });
+          if (firstChild) state.selectedId = firstChild.runId;
+          await refreshAll();
+        } catch (e) {
+          el.nrError.textContent = e.message || 'Failed to start multi-repo run.';
+          el.nrError.style.display = 'block';
+        } finally {
+          el.nrSubmit.disabled = false;
+        }
+        return;
+      }
       try {
         var result = await fetchJson('/api/runs', {
           method: 'POST',
@@ -5380,6 +5835,23 @@ export function dashboardHtml(config: AppConfig): string {
       rules: document.getElementById('observer-rules'),
       stats: document.getElementById('observer-stats'),
       events: document.getElementById('observer-events'),
+      ruleTestRule: document.getElementById('observer-rule-test-rule'),
+      ruleTestRun: document.getElementById('observer-rule-test-run'),
+      ruleTestPayload: document.getElementById('observer-rule-test-payload'),
+      ruleTestResult: document.getElementById('observer-rule-test-result'),
+      backtestDays: document.getElementById('observer-backtest-days'),
+      backtestRules: document.getElementById('observer-backtest-rules'),
+      backtestRun: document.getElementById('observer-backtest-run'),
+      backtestResult: document.getElementById('observer-backtest-result'),
+      escalationsPanel: document.getElementById('observer-escalations-panel'),
+      escalationsFilter: document.getElementById('observer-escalations-filter'),
+      escalations: document.getElementById('observer-escalations'),
+      deferredPanel: document.getElementById('observer-deferred-panel'),
+      deferred: document.getElementById('observer-deferred'),
+      budgetsPanel: document.getElementById('observer-budgets-panel'),
+      budgets: document.getElementById('observer-budgets'),
+      clustersPanel: document.getElementById('observer-clusters-panel'),
+      clusters: document.getElementById('observer-clusters'),
     };
 
     function esc(s) {
@@ -5392,6 +5864,10 @@ export function dashboardHtml(config: AppConfig): string {
       if (outcome === 'denied') return '\\u26d4';
       if (outcome === 'no_match') return '\\u2796';
       if (outcome === 'approval_required') return '\\u23f3';
+      if (outcome === 'escalated') return '\\ud83d\\udea8';
+      if (outcome === 'discarded') return '\\ud83d\\uddd1';
+      if (outcome === 'deferred') return '\\u23f8';
+      if (outcome === 'clustered') return '\\ud83d\\udd17';
       return '\\u2753';
     }
 
@@ -5457,20 +5933,427 @@ export function dashboardHtml(config: AppConfig): string {
         var icon = outcomeIcon(ev.outcome);
         var ruleLabel = ev.matchedRuleId ? ' \\u00b7 rule: <span style="font-family: var(--font-mono);">' + esc(ev.matchedRuleId) + '</span>' : '';
         var runLabel = ev.runId ? ' \\u00b7 <span style="font-family: var(--font-mono);">' + esc(ev.runId.slice(0, 8)) + '</span>' : '';
+        var clusterLabel = ev.clusterId ? ' \\u00b7 cluster <span style="font-family: var(--font-mono);">' + esc(ev.clusterId.slice(0, 8)) + '</span>' : '';
         node.innerHTML = icon + ' <strong>' + esc(ev.source) + '</strong>' +
           (ev.repoSlug ? ' \\u00b7 ' + esc(ev.repoSlug) : '') +
-          ruleLabel + runLabel +
+          ruleLabel + runLabel + clusterLabel +
           '<br><span style="color: var(--muted); font-size: 11px;">' + esc(ev.reason) + ' \\u00b7 ' + timeAgo(ev.processedAt) + '</span>';
         observerEl.events.appendChild(node);
       }
     }
 
+    function renderRuleTestOptions(rules) {
+      var selected = observerEl.ruleTestRule.value;
+      observerEl.ruleTestRule.innerHTML = '';
+      rules.forEach(function(r) {
+        var opt = document.createElement('option');
+        opt.value = r.id;
+        opt.textContent = r.id + ' (' + r.source + ')';
+        observerEl.ruleTestRule.appendChild(opt);
+      });
+      if (selected) observerEl.ruleTestRule.value = selected;
+    }
+
+    function describeConditionTrace(trace, depth, lines) {
+      var indent = '';
+      for (var d = 0; d < depth; d++) indent += '\\u00a0\\u00a0\\u00a0\\u00a0';
+      var mark = trace.matched ? '\\u2714 ' : '\\u2718 ';
+      if (trace.type === 'condition') {
+        var c = trace.condition;
+        var expected = c.operator === 'in' ? '[' + (c.values || []).join(', ') + ']' : (c.value === undefined ? '' : c.value);
+        lines.push({
+          matched: trace.matched,
+          text: indent + mark + c.field + ' ' + c.operator + ' ' + expected + '  (actual: ' + JSON.stringify(trace.actual === undefined ? null : trace.actual) + ')'
+        });
+        return;
+      }
+      lines.push({ matched: trace.matched, text: indent + mark + trace.type.toUpperCase() });
+      trace.children.forEach(function(child) { describeConditionTrace(child, depth + 1, lines); });
+    }
+
+    async function runRuleTest() {
+      var out = observerEl.ruleTestResult;
+      var ruleId = observerEl.ruleTestRule.value;
+      if (!ruleId) {
+        out.textContent = 'No rules loaded.';
+        return;
+      }
+      var payload = {};
+      var raw = observerEl.ruleTestPayload.value.trim();
+      if (raw) {
+        try {
+          payload = JSON.parse(raw);
+        } catch (e) {
+          out.textContent = 'Payload is not valid JSON.';
+          return;
+        }
+      }
+      out.textContent = 'Testing...';
+      try {
+        var result = await fetchJson('/api/observer/rules/test', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ruleId: ruleId, payload: payload })
+        });
+        var lines = [];
+        result.conditions.forEach(function(trace) { describeConditionTrace(trace, 0, lines); });
+        out.innerHTML = '';
+        var head = document.createElement('div');
+        head.style.fontWeight = '700';
+        head.style.color = result.matched ? 'var(--ok)' : 'var(--warn)';
+        head.textContent = result.matched ? 'Rule matches' : (result.sourceMatched ? 'Rule does not match' : 'Rule does not match (source differs)');
+        out.appendChild(head);
+        if (lines.length === 0) {
+          var none = document.createElement('div');
+          none.textContent = 'Rule has no conditions.';
+          out.appendChild(none);
+        }
+        lines.forEach(function(line) {
+          var row = document.createElement('div');
+          row.textContent = line.text;
+          if (!line.matched) row.style.color = 'var(--muted)';
+          out.appendChild(row);
+        });
+      } catch (e) {
+        out.textContent = e.message || 'Rule test failed.';
+      }
+    }
+
+    observerEl.ruleTestRun.addEventListener('click', runRuleTest);
+
+    function describeDenied(denied) {
+      var parts = [];
+      Object.keys(denied || {}).forEach(function(check) {
+        parts.push(check.replace('_', ' ') + ' ' + denied[check]);
+      });
+      return parts.join(', ');
+    }
+
+    async function runBacktest() {
+      var out = observerEl.backtestResult;
+      var body = { days: Number(observerEl.backtestDays.value) || 7 };
+      var rulesYaml = observerEl.backtestRules.value.trim();
+      if (rulesYaml) body.rulesYaml = rulesYaml;
+      out.textContent = 'Replaying events...';
+      try {
+        var report = await fetchJson('/api/observer/backtest', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        });
+        out.innerHTML = '';
+        var head = document.createElement('div');
+        head.style.fontWeight = '700';
+        head.style.marginBottom = '6px';
+        head.textContent = report.eventCount === 0
+          ? 'No recorded events in this window.'
+          : report.eventCount + ' events replayed \u00b7 ' + report.unmatched + ' unmatched \u00b7 would trigger ' + report.wouldTrigger + ' (actual ' + report.actualTriggered + ')'
+            + (report.truncated ? ' \u00b7 window truncated to the newest events since ' + new Date(report.from).toLocaleString() : '');
+        out.appendChild(head);
+        if (report.rules.length === 0) return;
+        var table = document.createElement('table');
+        table.style.cssText = 'width: 100%; border-collapse: collapse; font-size: 12px;';
+        var header = document.createElement('tr');
+        ['Rule', 'Matched', 'Would trigger', 'Actual', 'Runs (ok)', 'Blocked'].forEach(function(label) {
+          var th = document.createElement('th');
+          th.textContent = label;
+          th.style.cssText = 'text-align: left; padding: 3px 6px; color: var(--muted); border-bottom: 1px solid var(--border);';
+          header.appendChild(th);
+        });
+        table.appendChild(header);
+        report.rules.forEach(function(rule) {
+          var tr = document.createElement('tr');
+          var blocked = describeDenied(rule.denied);
+          if (rule.blockedByTriage) blocked = (blocked ? blocked + ', ' : '') + 'triage ' + rule.blockedByTriage;
+          var cells = [
+            rule.ruleId + (rule.inCandidateSet ? '' : ' (not in candidate set)'),
+            String(rule.matched),
+            rule.wouldTrigger + (rule.approvalRequired ? ' (' + rule.approvalRequired + ' approval)' : ''),
+            String(rule.actual.triggered),
+            rule.actual.runs + ' (' + rule.actual.succeeded + ')',
+            blocked || '\u2014'
+          ];
+          cells.forEach(function(text, index) {
+            var td = document.createElement('td');
+            td.textContent = text;
+            td.style.cssText = 'padding: 3px 6px; border-bottom: 1px dashed color-mix(in srgb, var(--border) 60%, transparent);';
+            if (index === 2 && rule.delta !== 0) td.style.color = rule.delta > 0 ? 'var(--warn)' : 'var(--ok)';
+            tr.appendChild(td);
+          });
+          table.appendChild(tr);
+        });
+        out.appendChild(table);
+      } catch (e) {
+        out.textContent = e.message || 'Backtest failed.';
+      }
+    }
+
+    observerEl.backtestRun.addEventListener('click', runBacktest);
+
+    async function escalationAction(escalation, action, note) {
+      try {
+        var result = await fetchJson('/api/observer/escalations/' + encodeURIComponent(escalation.id) + '/' + action, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(note ? { note: note } : {})
+        });
+        if (result.runId) {
+          alert('Queued run ' + result.runId.slice(0, 8) + '.');
+        }
+      } catch (e) {
+        alert(e.message || 'Escalation action failed.');
+      }
+      refreshObserver(false);
+    }
+
+    function renderObserverEscalations(data) {
+      if (!data || !data.enabled) {
+        observerEl.escalationsPanel.style.display = 'none';
+        return;
+      }
+      observerEl.escalationsPanel.style.display = '';
+      var escalations = data.escalations || [];
+      if (escalations.length === 0) {
+        observerEl.escalations.innerHTML = '<div class="act-info">No escalations.</div>';
+        return;
+      }
+      observerEl.escalations.innerHTML = '';
+      escalations.forEach(function(escalation) {
+        var node = document.createElement('div');
+        node.className = 'act-event act-info';
+        node.style.cssText = 'padding: 6px 10px; font-size: 12px; line-height: 1.5; border-bottom: 1px dashed color-mix(in srgb, var(--border) 60%, transparent);';
+        var open = escalation.status === 'open';
+        var closed = escalation.status === 'converted' || escalation.status === 'dismissed';
+        var info = document.createElement('div');
+        info.innerHTML = '<span style="font-weight: 700; color: ' + (open ? 'var(--warn)' : 'var(--muted)') + ';">' + esc(escalation.status) + '</span>' +
+          ' \\u00b7 <strong>' + esc(escalation.source) + '</strong>' +
+          (escalation.repoSlug ? ' \\u00b7 ' + esc(escalation.repoSlug) : '') +
+          ' \\u00b7 rule: <span style="font-family: var(--font-mono);">' + esc(escalation.ruleId) + '</span>' +
+          ' \\u00b7 ' + esc(escalation.priority) + ' \\u00b7 ' + Math.round(escalation.confidence * 100) + '% confidence' +
+          '<br><span style="color: var(--muted); font-size: 11px;">' + esc(escalation.reason) + ' \\u00b7 ' + timeAgo(escalation.createdAt) + '</span>';
+        node.appendChild(info);
+
+        if (!closed) {
+          var actions = document.createElement('div');
+          actions.style.cssText = 'display: flex; gap: 6px; margin-top: 4px;';
+          if (open) {
+            var ackBtn = document.createElement('button');
+            ackBtn.className = 'modal-inline-btn';
+            ackBtn.textContent = 'Acknowledge';
+            ackBtn.onclick = function() { ackBtn.disabled = true; escalationAction(escalation, 'acknowledge'); };
+            actions.appendChild(ackBtn);
+          }
+          var convertBtn = document.createElement('button');
+          convertBtn.className = 'modal-inline-btn';
+          convertBtn.textContent = 'Convert to run';
+          convertBtn.onclick = function() {
+            if (!confirm('Queue a run for this escalated event?')) return;
+            convertBtn.disabled = true;
+            escalationAction(escalation, 'convert');
+          };
+          actions.appendChild(convertBtn);
+          var dismissBtn = document.createElement('button');
+          dismissBtn.className = 'modal-inline-btn';
+          dismissBtn.textContent = 'Dismiss';
+          dismissBtn.onclick = function() {
+            var note = prompt('Why dismiss this escalation? (optional)');
+            if (note === null) return;
+            dismissBtn.disabled = true;
+            escalationAction(escalation, 'dismiss', note.trim());
+          };
+          actions.appendChild(dismissBtn);
+          node.appendChild(actions);
+        }
+
+        var audit = document.createElement('details');
+        audit.style.marginTop = '4px';
+        var summary = document.createElement('summary');
+        summary.textContent = 'Audit trail (' + escalation.audit.length + ')';
+        summary.style.cssText = 'cursor: pointer; color: var(--muted); font-size: 11px;';
+        audit.appendChild(summary);
+        escalation.audit.forEach(function(entry) {
+          var line = document.createElement('div');
+          line.style.cssText = 'font-size: 11px; color: var(--muted); padding-left: 12px;';
+          line.textContent = new Date(entry.at).toLocaleString() + ' \\u00b7 ' + entry.action + ' by ' + entry.actor +
+            (entry.runId ? ' \\u00b7 run ' + entry.runId.slice(0, 8) : '') +
+            (entry.note ? ' \\u00b7 ' + entry.note : '');
+          audit.appendChild(line);
+        });
+        node.appendChild(audit);
+        observerEl.escalations.appendChild(node);
+      });
+    }
+
+    async function deferredAction(entry, path, options) {
+      try {
+        await fetchJson('/api/observer/deferred/' + encodeURIComponent(entry.id) + path, options);
+      } catch (e) {
+        alert(e.message || 'Deferred event action failed.');
+      }
+      refreshObserver(false);
+    }
+
+    function renderObserverDeferred(data) {
+      if (!data || !data.enabled) {
+        observerEl.deferredPanel.style.display = 'none';
+        return;
+      }
+      observerEl.deferredPanel.style.display = '';
+      var events = data.events || [];
+      if (events.length === 0) {
+        observerEl.deferred.innerHTML = '<div class="act-info">Nothing deferred.</div>';
+        return;
+      }
+      observerEl.deferred.innerHTML = '';
+      events.forEach(function(entry) {
+        var node = document.createElement('div');
+        node.className = 'act-event act-info';
+        node.style.cssText = 'padding: 6px 10px; font-size: 12px; line-height: 1.5; border-bottom: 1px dashed color-mix(in srgb, var(--border) 60%, transparent);';
+        var info = document.createElement('div');
+        info.innerHTML = '<strong>' + esc(entry.event.source) + '</strong>' +
+          (entry.event.repoSlug ? ' \u00b7 ' + esc(entry.event.repoSlug) : '') +
+          ' \u00b7 rule: <span style="font-family: var(--font-mono);">' + esc(entry.rule.id) + '</span>' +
+          ' \u00b7 score ' + entry.priority + ' \u00b7 retries ' + entry.retryCount +
+          '<br><span style="color: var(--muted); font-size: 11px;">' + esc(entry.reason) + ' \u00b7 deferred ' + timeAgo(entry.deferredAt) + '</span>';
+        node.appendChild(info);
+
+        var actions = document.createElement('div');
+        actions.style.cssText = 'display: flex; gap: 6px; margin-top: 4px; align-items: center;';
+        var priority = document.createElement('select');
+        ['critical', 'high', 'medium', 'low'].forEach(function(level) {
+          var opt = document.createElement('option');
+          opt.value = level;
+          opt.textContent = level;
+          priority.appendChild(opt);
+        });
+        priority.value = entry.event.priority;
+        priority.onchange = function() {
+          deferredAction(entry, '/priority', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ priority: priority.value })
+          });
+        };
+        var promote = document.createElement('button');
+        promote.className = 'modal-inline-btn';
+        promote.textContent = 'Run now';
+        promote.onclick = function() {
+          promote.disabled = true;
+          deferredAction(entry, '/promote', { method: 'POST' });
+        };
+        var drop = document.createElement('button');
+        drop.className = 'modal-inline-btn';
+        drop.textContent = 'Drop';
+        drop.onclick = function() {
+          if (!confirm('Drop this deferred event? It will not be triggered.')) return;
+          drop.disabled = true;
+          deferredAction(entry, '', { method: 'DELETE' });
+        };
+        actions.appendChild(priority);
+        actions.appendChild(promote);
+        actions.appendChild(drop);
+        node.appendChild(actions);
+        observerEl.deferred.appendChild(node);
+      });
+    }
+
+    function budgetBurnDownSvg(status) {
+      var points = status.burnDown || [];
+      var max = status.budget.maxUsd;
+      if (!max || points.length === 0) return '';
+      var start = Date.parse(status.periodStart);
+      var span = Date.parse(status.periodEnd) - start;
+      var width = 240, height = 48;
+      var x = function(day) { return ((Date.parse(day + 'T00:00:00Z') + 86400000 - start) / span) * width; };
+      var y = function(value) { return height - (Math.max(Math.min(value, max), 0) / max) * height; };
+      var line = '0,' + y(max) + ' ' + points.map(function(p) { return x(p.day).toFixed(1) + ',' + y(p.remainingUsd).toFixed(1); }).join(' ');
+      return '<svg width="' + width + '" height="' + height + '" viewBox="0 0 ' + width + ' ' + height + '" style="display: block; margin-top: 4px; overflow: visible;">' +
+        '<line x1="0" y1="0" x2="' + width + '" y2="' + height + '" stroke="var(--muted)" stroke-dasharray="3 3" stroke-width="1" />' +
+        '<polyline points="' + line + '" fill="none" stroke="var(--accent)" stroke-width="2" />' +
+        '</svg>';
+    }
+
+    function renderObserverBudgets(data) {
+      if (!data || !data.enabled) {
+        observerEl.budgetsPanel.style.display = 'none';
+        return;
+      }
+      observerEl.budgetsPanel.style.display = '';
+      observerEl.budgets.innerHTML = '';
+      (data.budgets || []).forEach(function(status) {
+        var budget = status.budget;
+        var pct = Math.round(status.usedRatio * 100);
+        var color = pct >= 100 ? 'var(--err)' : pct >= 80 ? 'var(--warn)' : 'var(--ok)';
+        var limits = [];
+        if (budget.maxUsd !== undefined) {
+          limits.push('$' + status.spentUsd.toFixed(2) + ' / $' + budget.maxUsd.toFixed(2) +
+            ' \u00b7 projected $' + status.projectedUsd.toFixed(2));
+        }
+        if (budget.maxRuns !== undefined) {
+          limits.push(status.runs + ' / ' + budget.maxRuns + ' runs');
+        }
+        var node = document.createElement('div');
+        node.className = 'act-event act-info';
+        node.style.cssText = 'padding: 6px 10px; font-size: 12px; line-height: 1.5; border-bottom: 1px dashed color-mix(in srgb, var(--border) 60%, transparent);';
+        node.innerHTML = '<strong>' + esc(budget.name) + '</strong>' +
+          ' \u00b7 ' + esc(budget.scope) + ' \u00b7 ' + esc(budget.period) +
+          ' \u00b7 <span style="font-weight: 700; color: ' + color + ';">' + pct + '%</span>' +
+          '<br><span style="color: var(--muted); font-size: 11px;">' + esc(limits.join(' \u00b7 ')) +
+          (status.pendingRuns ? ' \u00b7 ' + status.pendingRuns + ' in flight' : '') + '</span>' +
+          '<div style="height: 4px; background: color-mix(in srgb, var(--border) 60%, transparent); border-radius: 2px; margin-top: 4px;">' +
+          '<div style="height: 4px; width: ' + Math.min(pct, 100) + '%; background: ' + color + '; border-radius: 2px;"></div></div>' +
+          budgetBurnDownSvg(status);
+        observerEl.budgets.appendChild(node);
+      });
+    }
+
+    function renderObserverClusters(data) {
+      if (!data || !data.enabled) {
+        observerEl.clustersPanel.style.display = 'none';
+        return;
+      }
+      observerEl.clustersPanel.style.display = '';
+      var clusters = data.clusters || [];
+      if (clusters.length === 0) {
+        observerEl.clusters.innerHTML = '<div class="act-info">No alert clusters yet.</div>';
+        return;
+      }
+      observerEl.clusters.innerHTML = '';
+      clusters.forEach(function(cluster) {
+        var node = document.createElement('details');
+        node.className = 'act-event act-info';
+        node.style.cssText = 'padding: 6px 10px; font-size: 12px; line-height: 1.5; border-bottom: 1px dashed color-mix(in srgb, var(--border) 60%, transparent);';
+        var summary = document.createElement('summary');
+        summary.style.cursor = 'pointer';
+        var statusColor = cluster.status === 'open' ? 'var(--warn)' : cluster.status === 'failed' || cluster.status === 'denied' ? 'var(--err)' : 'var(--ok)';
+        summary.innerHTML = '<span style="font-weight: 700; color: ' + statusColor + ';">' + esc(cluster.status) + '</span>' +
+          ' \\u00b7 <span style="font-family: var(--font-mono);">' + esc(cluster.id.slice(0, 8)) + '</span>' +
+          (cluster.repoSlug ? ' \\u00b7 ' + esc(cluster.repoSlug) : '') +
+          ' \\u00b7 ' + cluster.members.length + ' alert' + (cluster.members.length === 1 ? '' : 's') +
+          (cluster.runId ? ' \\u00b7 run <span style="font-family: var(--font-mono);">' + esc(cluster.runId.slice(0, 8)) + '</span>' : '') +
+          ' \\u00b7 ' + timeAgo(cluster.launchedAt || cluster.createdAt);
+        node.appendChild(summary);
+        cluster.members.forEach(function(member) {
+          var line = document.createElement('div');
+          line.style.cssText = 'font-size: 11px; padding-left: 12px;';
+          line.innerHTML = '<strong>' + esc(member.source) + '</strong> \\u00b7 ' + esc(member.priority) + ' \\u00b7 ' + esc(member.summary) +
+            '<br><span style="color: var(--muted);">' + esc(member.reason) + ' \\u00b7 rule ' + esc(member.ruleId) + '</span>';
+          node.appendChild(line);
+        });
+        observerEl.clusters.appendChild(node);
+      });
+    }
+
     async function refreshObserver(forceRules) {
       try {
         var shouldLoadRules = !!forceRules || !observerRulesLoaded;
         var requests = [
           fetchJson('/api/observer/state'),
           fetchJson('/api/observer/events?limit=50'),
+          fetchJson('/api/observer/deferred'),
+          fetchJson('/api/observer/escalations?status=' + encodeURIComponent(observerEl.escalationsFilter.value)),
+          fetchJson('/api/observer/clusters'),
+          fetchJson('/api/observer/budgets'),
         ];
         if (shouldLoadRules) {
           requests.push(fetchJson('/api/observer/rules'));
@@ -5479,7 +6362,11 @@ export function dashboardHtml(config: AppConfig): string {
         var results = await Promise.all(requests);
         var stateData = results[0];
         var eventsData = results[1];
-        var rulesData = shouldLoadRules ? results[2] : { rules: observerRulesCache };
+        var deferredData = results[2];
+        var escalationsData = results[3];
+        var clustersData = results[4];
+        var budgetsData = results[5];
+        var rulesData = shouldLoadRules ? results[6] : { rules: observerRulesCache };
 
         if (!stateData.enabled) {
           observerEl.card.style.display = 'none';
@@ -5497,14 +6384,21 @@ export function dashboardHtml(config: AppConfig): string {
         observerEl.budget.textContent = stateData.dailyCount + ' runs today';
 
         renderObserverRules(observerRulesCache, stateData.ruleOutcomes || {});
+        if (shouldLoadRules) renderRuleTestOptions(observerRulesCache);
         renderObserverStats(stateData);
         renderObserverEvents(eventsData.events || []);
+        renderObserverDeferred(deferredData);
+        renderObserverEscalations(escalationsData);
+        renderObserverClusters(clustersData);
+        renderObserverBudgets(budgetsData);
       } catch (e) {
         // Observer not available — hide panel
         observerEl.card.style.display = 'none';
       }
     }
 
+    observerEl.escalationsFilter.addEventListener('change', function() { refreshObserver(false); });
+
     function observerRefreshDue() {
       return observerLastRefreshAt === 0 || (Date.now() - observerLastRefreshAt) >= OBSERVER_POLL_INTERVAL_MS;
     }
@@ -5540,12 +6434,17 @@ export function dashboardHtml(config: AppConfig): string {
         for (var i = 0; i < pipelines.length; i++) {
           var p = pipelines[i];
           var builtInBadge = p.isBuiltIn ? '<span style="font-size: 10px; font-weight: 600; background: color-mix(in srgb, var(--ok) 18%, transparent); color: var(--ok); border-radius: 4px; padding: 1px 5px; margin-left: 4px;">built-in</span>' : '';
+          if (p.includeOnly) {
+            builtInBadge += '<span style="font-size: 10px; font-weight: 600; background: color-mix(in srgb, var(--muted) 18%, transparent); color: var(--muted); border-radius: 4px; padding: 1px 5px; margin-left: 4px;" title="Only called from other pipelines">include-only</span>';
+          }
           html += '<tr style="border-bottom: 1px solid color-mix(in srgb, var(--border) 60%, transparent);">';
           html += '<td style="padding: 8px 8px; font-weight: 600;">' + esc(p.name) + builtInBadge + '</td>';
           html += '<td style="padding: 8px 8px; font-family: var(--font-mono); color: var(--muted);">' + esc(p.id) + '</td>';
           html += '<td style="padding: 8px 8px; text-align: center;">' + p.nodeCount + '</td>';
           html += '<td style="padding: 8px 8px; color: var(--muted);">' + timeAgo(p.updatedAt) + '</td>';
           html += '<td style="padding: 8px 8px; text-align: right; white-space: nowrap;">';
+          html += '<button class="action-btn pl-plan-btn" data-id="' + esc(p.id) + '" style="font-size: 11px; padding: 3px 8px; margin-right: 4px;">Plan</button>';
+          html += '<button class="action-btn pl-history-btn" data-id="' + esc(p.id) + '" data-built-in="' + (p.isBuiltIn ? '1' : '') + '" style="font-size: 11px; padding: 3px 8px; margin-right: 4px;">History</button>';
           html += '<button class="action-btn pl-edit-btn" data-id="' + esc(p.id) + '" style="font-size: 11px; padding: 3px 8px; margin-right: 4px;">Edit</button>';
           if (!p.isBuiltIn) {
             html += '<button class="action-btn pl-delete-btn" data-id="' + esc(p.id) + '" style="font-size: 11px; padding: 3px 8px; color: var(--err); border-color: color-mix(in srgb, var(--err) 30%, var(--border));">Delete</button>';
@@ -5559,6 +6458,14 @@ export function dashboardHtml(config: AppConfig): string {
         el.plList.querySelectorAll('.pl-edit-btn').forEach(function(btn) {
           btn.onclick = function() { openPipelineEditor(btn.getAttribute('data-id')); };
         });
+        // Wire plan buttons
+        el.plList.querySelectorAll('.pl-plan-btn').forEach(function(btn) {
+          btn.onclick = function() { openPlanPreview(btn.getAttribute('data-id')); };
+        });
+        // Wire history buttons
+        el.plList.querySelectorAll('.pl-history-btn').forEach(function(btn) {
+          btn.onclick = function() { openPipelineHistory(btn.getAttribute('data-id'), btn.getAttribute('data-built-in') === '1'); };
+        });
         // Wire delete buttons
         el.plList.querySelectorAll('.pl-delete-btn').forEach(function(btn) {
           btn.onclick = function() { deletePipeline(btn.getAttribute('data-id')); };
@@ -5645,6 +6552,180 @@ export function dashboardHtml(config: AppConfig): string {
       }
     };
 
+    // ── Plan preview ──
+
+    var plPlanId = null;
+
+    function openPlanPreview(id) {
+      plPlanId = id;
+      el.plPlanTitle.textContent = 'Plan Preview \u2014 ' + id;
+      el.plPlanResult.innerHTML = '';
+      el.plPlan.style.display = '';
+    }
+
+    function splitNodeList(value) {
+      return value.split(',').map(function(s) { return s.trim(); }).filter(Boolean);
+    }
+
+    function renderPlanNode(node, indent) {
+      var icon = node.status === 'run' ? '\u2713' : node.status === 'skipped' ? '\u2013' : '?';
+      var color = node.status === 'run' ? 'var(--ok)' : node.status === 'skipped' ? 'var(--muted)' : 'var(--warn)';
+      var html = '<div style="padding: 3px 0 3px ' + (indent * 16) + 'px; color: ' + color + ';">';
+      html += icon + ' <strong>' + esc(node.id) + '</strong> <span style="color: var(--muted);">' + esc(node.action) + '</span>';
+      if (node.reason) html += ' \u2014 ' + esc(node.reason);
+      var details = [];
+      if (node.routing && node.routing.profileName) details.push('profile: ' + node.routing.profileName + (node.routing.model ? ' (' + node.routing.model + ')' : ''));
+      if (node.loop) details.push('on failure: loop ' + node.loop.agent_node + ' \u00D7' + node.loop.max_rounds);
+      if (node.gotoTargets && node.gotoTargets.length) details.push('may jump to: ' + node.gotoTargets.join(', '));
+      if (node.retry) details.push('retry: ' + node.retry.max_attempts + ' attempts');
+      if (node.timeoutSeconds) details.push('timeout: ' + node.timeoutSeconds + 's');
+      if (details.length) html += '<div style="color: var(--muted); padding-left: 14px;">' + esc(details.join(' \u00B7 ')) + '</div>';
+      html += '</div>';
+      (node.children || []).forEach(function(child) { html += renderPlanNode(child, indent + 1); });
+      return html;
+    }
+
+    el.plPlanClose.onclick = function() {
+      el.plPlan.style.display = 'none';
+      el.plPlanResult.innerHTML = '';
+    };
+
+    el.plPlanRun.onclick = async function() {
+      if (!plPlanId) return;
+      el.plPlanRun.disabled = true;
+      try {
+        var res = await fetchJson('/api/pipelines/' + encodeURIComponent(plPlanId) + '/plan', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({
+            skipNodes: splitNodeList(el.plPlanSkip.value),
+            enableNodes: splitNodeList(el.plPlanEnable.value),
+            repo: el.plPlanRepo.value.trim() || undefined,
+            baseBranch: el.plPlanBaseBranch.value.trim() || undefined,
+          }),
+        });
+        var html = el.plPlanRepo.value.trim() && !res.repoConfig
+          ? '<div style="padding: 3px 0; color: var(--muted);">No .gooseherd.yml on the base branch; defaults apply.</div>'
+          : '';
+        var lastCall = null;
+        res.plan.nodes.forEach(function(node) {
+          if (node.calledFrom && node.calledFrom !== lastCall) {
+            html += '<div style="padding: 3px 0; font-weight: 600;">\u25B8 ' + esc(node.calledFrom) + ' (called pipeline)</div>';
+          }
+          lastCall = node.calledFrom || null;
+          html += renderPlanNode(node, node.calledFrom ? 1 : 0);
+        });
+        el.plPlanResult.innerHTML = html || '<span style="color: var(--muted);">Pipeline has no nodes.</span>';
+      } catch(e) {
+        el.plPlanResult.innerHTML = '<span style="color: var(--err);">Plan failed: ' + esc(e.message) + '</span>';
+      } finally {
+        el.plPlanRun.disabled = false;
+      }
+    };
+
+    // ── Revision history ──
+
+    var plHistoryId = null;
+
+    async function openPipelineHistory(id, isBuiltIn) {
+      plHistoryId = id;
+      el.plHistoryTitle.textContent = 'History \u2014 ' + id;
+      el.plHistoryDiff.innerHTML = '';
+      el.plHistory.style.display = '';
+      el.plHistoryList.innerHTML = '<span style="color: var(--muted);">Loading\u2026</span>';
+      try {
+        var res = await fetchJson('/api/pipelines/' + encodeURIComponent(id) + '/revisions');
+        var revisions = res.revisions || [];
+        if (revisions.length === 0) {
+          el.plHistoryList.innerHTML = '<span style="color: var(--muted);">No revisions recorded.</span>';
+          return;
+        }
+        var html = '<table style="width: 100%; border-collapse: collapse;">';
+        revisions.forEach(function(rev, index) {
+          var finished = rev.runs.completed + rev.runs.failed;
+          var rate = finished > 0 ? Math.round(rev.runs.completed / finished * 100) + '% success' : 'no finished runs';
+          var note = rev.source === 'rollback' && rev.rolledBackFrom
+            ? 'rollback to r' + ((revisions.find(function(r) { return r.id === rev.rolledBackFrom; }) || {}).revision || '?')
+            : rev.source === 'call' ? 'called pipeline changed' : rev.source;
+          html += '<tr style="border-bottom: 1px solid color-mix(in srgb, var(--border) 60%, transparent);">';
+          html += '<td style="padding: 6px 8px; font-weight: 600;">r' + rev.revision + (rev.current ? ' <span style="font-size: 10px; color: var(--ok);">current</span>' : '') + '</td>';
+          html += '<td style="padding: 6px 8px; color: var(--muted);">' + esc(note) + '</td>';
+          html += '<td style="padding: 6px 8px; color: var(--muted);">' + timeAgo(rev.createdAt) + '</td>';
+          html += '<td style="padding: 6px 8px;">' + rev.nodeCount + ' nodes</td>';
+          html += '<td style="padding: 6px 8px;">' + rev.runs.total + ' runs \u00B7 ' + rate + '</td>';
+          html += '<td style="padding: 6px 8px; text-align: right; white-space: nowrap;">';
+          var previous = revisions[index + 1];
+          if (previous) {
+            html += '<button class="action-btn pl-diff-btn" data-from="' + esc(previous.id) + '" data-to="' + esc(rev.id) + '" style="font-size: 11px; padding: 3px 8px; margin-right: 4px;">Diff</button>';
+          }
+          if (!rev.current && !isBuiltIn) {
+            html += '<button class="action-btn pl-rollback-btn" data-id="' + esc(rev.id) + '" data-revision="' + rev.revision + '" style="font-size: 11px; padding: 3px 8px;">Roll back</button>';
+          }
+          html += '</td></tr>';
+        });
+        html += '</table>';
+        el.plHistoryList.innerHTML = html;
+        el.plHistoryList.querySelectorAll('.pl-diff-btn').forEach(function(btn) {
+          btn.onclick = function() { showRevisionDiff(btn.getAttribute('data-from'), btn.getAttribute('data-to')); };
+        });
+        el.plHistoryList.querySelectorAll('.pl-rollback-btn').forEach(function(btn) {
+          btn.onclick = function() { rollbackPipeline(btn.getAttribute('data-id'), btn.getAttribute('data-revision'), isBuiltIn); };
+        });
+      } catch(e) {
+        el.plHistoryList.innerHTML = '<span style="color: var(--err);">Failed to load history: ' + esc(e.message) + '</span>';
+      }
+    }
+
+    function renderRevisionDiff(title, d) {
+      var summary = [];
+      if (d.nodes.added.length) summary.push('added: ' + d.nodes.added.join(', '));
+      if (d.nodes.removed.length) summary.push('removed: ' + d.nodes.removed.join(', '));
+      if (d.nodes.changed.length) summary.push('changed: ' + d.nodes.changed.join(', '));
+      var html = '<div style="font-weight: 600; margin: 6px 0;">' + esc(title) + ' (+' + d.added + ' \u2212' + d.removed + ')' + (summary.length ? ' \u2014 ' + esc(summary.join('; ')) : '') + '</div>';
+      if (d.added === 0 && d.removed === 0) return html;
+      html += '<pre style="margin: 0; white-space: pre-wrap; max-height: 320px; overflow: auto;">';
+      d.lines.forEach(function(line) {
+        if (line.op === 'add') html += '<span style="color: var(--ok);">+ ' + esc(line.text) + '</span>\\n';
+        else if (line.op === 'remove') html += '<span style="color: var(--err);">- ' + esc(line.text) + '</span>\\n';
+        else html += '<span style="color: var(--muted);">  ' + esc(line.text) + '</span>\\n';
+      });
+      return html + '</pre>';
+    }
+
+    async function showRevisionDiff(fromId, toId) {
+      try {
+        var res = await fetchJson('/api/pipelines/' + encodeURIComponent(plHistoryId) + '/diff?from=' + encodeURIComponent(fromId) + '&to=' + encodeURIComponent(toId));
+        var html = renderRevisionDiff('r' + res.from.revision + ' \u2192 r' + res.to.revision, res.diff);
+        (res.calls || []).forEach(function(call) {
+          var range = (call.from ? 'r' + call.from.revision : 'none') + ' \u2192 ' + (call.to ? 'r' + call.to.revision : 'none');
+          html += renderRevisionDiff('called pipeline ' + call.pipelineId + ': ' + range, call.diff);
+        });
+        el.plHistoryDiff.innerHTML = html;
+      } catch(e) {
+        el.plHistoryDiff.innerHTML = '<span style="color: var(--err);">Diff failed: ' + esc(e.message) + '</span>';
+      }
+    }
+
+    async function rollbackPipeline(revisionId, revision, isBuiltIn) {
+      if (!confirm('Roll back pipeline "' + plHistoryId + '" to r' + revision + '? This saves a new revision with that YAML and rolls back the custom pipelines it calls to their revisions at the time.')) return;
+      try {
+        await fetchJson('/api/pipelines/' + encodeURIComponent(plHistoryId) + '/rollback', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ revisionId: revisionId }),
+        });
+        refreshPipelineList();
+        openPipelineHistory(plHistoryId, isBuiltIn);
+      } catch(e) {
+        alert('Rollback failed: ' + e.message);
+      }
+    }
+
+    el.plHistoryClose.onclick = function() {
+      el.plHistory.style.display = 'none';
+      el.plHistoryDiff.innerHTML = '';
+    };
+
     async function deletePipeline(id) {
       if (!confirm('Delete pipeline "' + id + '"? This cannot be undone.')) return;
       try {
@@ -1,26 +1,49 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { URL } from "node:url";
+import { parse as parseYaml } from "yaml";
+import type { AppConfig } from "../../config.js";
 import type { EvalStore } from "../../eval/eval-store.js";
+import type { GitHubService } from "../../github.js";
 import type { LearningStore } from "../../observer/learning-store.js";
+import type { DashboardActorPrincipal } from "../actor-principal.js";
 import type { DashboardObserver } from "../contracts.js";
+import { explainRuleMatch, parseTriggerRule, parseTriggerRulesYaml } from "../../observer/trigger-rules.js";
+import type { EscalationStatus, TriggerEvent, TriggerRule } from "../../observer/types.js";
 import type { PipelineStore } from "../../pipeline/pipeline-store.js";
+import { diffPipelineYaml } from "../../pipeline/pipeline-diff.js";
+import { planPipeline } from "../../pipeline/pipeline-plan.js";
+import { loadRepoConfigFromGitHub, type RepoConfig } from "../../pipeline/repo-config.js";
 import { parseLimit, readBody, sendJson } from "./shared.js";
 
 export interface FeatureRoutesDeps {
+  actorPrincipal?: DashboardActorPrincipal;
+  config: AppConfig;
   evalStore?: EvalStore;
+  githubService?: GitHubService;
   learningStore?: LearningStore;
   observer?: DashboardObserver;
   pipelineStore?: PipelineStore;
   requestUrl: URL;
 }
 
+const DEFAULT_BACKTEST_DAYS = 7;
+const MAX_BACKTEST_DAYS = 90;
+
+const ESCALATION_STATUSES: EscalationStatus[] = ["open", "acknowledged", "converted", "dismissed"];
+
+/** Audit-trail name for whoever is driving the dashboard. */
+function dashboardActorLabel(principal: DashboardActorPrincipal | undefined): string {
+  if (!principal) return "dashboard";
+  return principal.principalType === "user" ? `user:${principal.userId}` : "dashboard-admin";
+}
+
 export async function handleFeatureRoutes(
   req: IncomingMessage,
   res: ServerResponse,
   pathname: string,
   deps: FeatureRoutesDeps,
 ): Promise<boolean> {
-  const { evalStore, learningStore, observer, pipelineStore, requestUrl } = deps;
+  const { actorPrincipal, config, evalStore, githubService, learningStore, observer, pipelineStore, requestUrl } = deps;
 
   if (req.method === "GET" && pathname === "/api/observer/state") {
     if (!observer) {
@@ -61,6 +84,127 @@ export async function handleFeatureRoutes(
     return true;
   }
 
+  if (req.method === "POST" && pathname === "/api/observer/rules/test") {
+    const body = await readBody(req);
+    if (body === null) {
+      sendJson(res, 413, { error: "Request body too large" });
+      return true;
+    }
+    let parsed: { ruleId?: unknown; ruleYaml?: unknown; event?: unknown; payload?: unknown };
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON" });
+      return true;
+    }
+    let rule: TriggerRule | undefined;
+    if (typeof parsed.ruleYaml === "string" && parsed.ruleYaml.trim()) {
+      try {
+        rule = parseTriggerRule(parseYaml(parsed.ruleYaml));
+      } catch (err) {
+        sendJson(res, 400, { error: err instanceof Error ? err.message : "Invalid rule" });
+        return true;
+      }
+    } else if (typeof parsed.ruleId === "string") {
+      rule = observer?.getRules().find((candidate) => candidate.id === parsed.ruleId);
+      if (!rule) {
+        sendJson(res, 404, { error: `Rule not found: ${parsed.ruleId}` });
+        return true;
+      }
+    } else {
+      sendJson(res, 400, { error: "ruleId or ruleYaml is required" });
+      return true;
+    }
+    if (parsed.event !== undefined && (typeof parsed.event !== "object" || parsed.event === null || Array.isArray(parsed.event))) {
+      sendJson(res, 400, { error: "event must be an object" });
+      return true;
+    }
+    // The sample payload becomes rawPayload; event overrides the other TriggerEvent fields
+    const event: TriggerEvent = {
+      id: "rule-test",
+      source: rule.source,
+      timestamp: new Date().toISOString(),
+      priority: "medium",
+      rawPayload: parsed.payload ?? {},
+      notificationTarget: { type: "dashboard_only" },
+      ...(parsed.event as Partial<TriggerEvent> | undefined),
+    };
+    sendJson(res, 200, explainRuleMatch(event, rule));
+    return true;
+  }
+
+  if (req.method === "POST" && pathname === "/api/observer/backtest") {
+    if (!observer?.backtest) {
+      sendJson(res, 404, { error: "Observer is not enabled" });
+      return true;
+    }
+    const body = await readBody(req);
+    if (body === null) {
+      sendJson(res, 413, { error: "Request body too large" });
+      return true;
+    }
+    let parsed: { days?: unknown; rulesYaml?: unknown };
+    try {
+      parsed = body.trim() ? JSON.parse(body) : {};
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON" });
+      return true;
+    }
+    const days = parsed.days === undefined ? DEFAULT_BACKTEST_DAYS : Number(parsed.days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_BACKTEST_DAYS) {
+      sendJson(res, 400, { error: `days must be an integer between 1 and ${String(MAX_BACKTEST_DAYS)}` });
+      return true;
+    }
+    // Candidate rule set; defaults to the loaded rules
+    let rules: TriggerRule[] | undefined;
+    if (typeof parsed.rulesYaml === "string" && parsed.rulesYaml.trim()) {
+      try {
+        rules = parseTriggerRulesYaml(parsed.rulesYaml);
+      } catch (err) {
+        sendJson(res, 400, { error: err instanceof Error ? err.message : "Invalid rules" });
+        return true;
+      }
+    }
+    sendJson(res, 200, await observer.backtest({ days, rules }));
+    return true;
+  }
+
+  if (req.method === "GET" && pathname === "/api/observer/deferred") {
+    const events = observer?.listDeferredEvents?.();
+    sendJson(res, 200, { enabled: events !== undefined, events: events ?? [] });
+    return true;
+  }
+
+  if (req.method === "GET" && pathname === "/api/observer/clusters") {
+    const clusters = observer?.listAlertClusters?.();
+    sendJson(res, 200, { enabled: clusters !== undefined, clusters: clusters ?? [] });
+    return true;
+  }
+
+  if (req.method === "GET" && pathname === "/api/observer/budgets") {
+    const budgets = await observer?.getBudgetStatus?.();
+    sendJson(res, 200, { enabled: budgets !== undefined, budgets: budgets ?? [] });
+    return true;
+  }
+
+  if (req.method === "GET" && pathname === "/api/observer/escalations") {
+    if (!observer?.listEscalations) {
+      sendJson(res, 200, { enabled: false, escalations: [] });
+      return true;
+    }
+    const status = requestUrl.searchParams.get("status");
+    if (status && !ESCALATION_STATUSES.includes(status as EscalationStatus)) {
+      sendJson(res, 400, { error: `status must be one of: ${ESCALATION_STATUSES.join(", ")}` });
+      return true;
+    }
+    const escalations = await observer.listEscalations({
+      status: (status as EscalationStatus | null) ?? undefined,
+      limit: parseLimit(requestUrl.searchParams.get("limit")),
+    });
+    sendJson(res, 200, { enabled: true, escalations });
+    return true;
+  }
+
   if (req.method === "GET" && pathname === "/api/pipelines") {
     if (!pipelineStore) {
       sendJson(res, 501, { error: "Pipeline store not available" });
@@ -80,7 +224,7 @@ export async function handleFeatureRoutes(
       sendJson(res, 413, { error: "Request body too large" });
       return true;
     }
-    let parsed: { yaml?: string };
+    let parsed: { id?: string; yaml?: string };
     try {
       parsed = JSON.parse(body);
     } catch {
@@ -92,7 +236,7 @@ export async function handleFeatureRoutes(
       return true;
     }
     try {
-      const config = pipelineStore.validate(parsed.yaml);
+      const config = pipelineStore.validate(parsed.yaml, parsed.id);
       sendJson(res, 200, { valid: true, name: config.name, nodeCount: config.nodes.length });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "unknown";
@@ -133,6 +277,266 @@ export async function handleFeatureRoutes(
   }
 
   const parts = pathname.split("/").filter(Boolean);
+  if (parts[0] === "api" && parts[1] === "observer" && parts[2] === "escalations" && parts[3] && parts.length <= 5) {
+    const id = decodeURIComponent(parts[3]);
+    const action = parts[4];
+    if (!observer?.getEscalation) {
+      sendJson(res, 501, { error: "Escalation inbox not available" });
+      return true;
+    }
+    if (req.method === "GET" && action === undefined) {
+      const escalation = await observer.getEscalation(id);
+      if (!escalation) {
+        sendJson(res, 404, { error: `Escalation not found: ${id}` });
+      } else {
+        sendJson(res, 200, { escalation });
+      }
+      return true;
+    }
+    if (req.method !== "POST" || (action !== "acknowledge" && action !== "convert" && action !== "dismiss")) {
+      return false;
+    }
+    const body = await readBody(req);
+    if (body === null) {
+      sendJson(res, 413, { error: "Request body too large" });
+      return true;
+    }
+    let parsed: { note?: unknown };
+    try {
+      parsed = body.trim() ? JSON.parse(body) : {};
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON" });
+      return true;
+    }
+    const actor = dashboardActorLabel(actorPrincipal);
+    const note = typeof parsed.note === "string" ? parsed.note.trim().slice(0, 4000) || undefined : undefined;
+    const result = action === "acknowledge"
+      ? await observer.acknowledgeEscalation?.(id, actor)
+      : action === "convert"
+        ? await observer.convertEscalation?.(id, actor)
+        : await observer.dismissEscalation?.(id, actor, note);
+    if (!result) {
+      sendJson(res, 501, { error: "Escalation inbox not available" });
+    } else if (!result.ok) {
+      sendJson(res, 400, { error: result.error });
+    } else {
+      sendJson(res, 200, { escalation: result.escalation, ...(result.run ? { runId: result.run.id } : {}) });
+    }
+    return true;
+  }
+
+  if (parts[0] === "api" && parts[1] === "observer" && parts[2] === "deferred" && parts[3] && parts.length <= 5) {
+    const id = decodeURIComponent(parts[3]);
+    const action = parts[4];
+    if (!observer?.listDeferredEvents?.()) {
+      sendJson(res, 501, { error: "Autonomous scheduler not enabled" });
+      return true;
+    }
+    let entry;
+    if (req.method === "POST" && action === "promote") {
+      entry = await observer.promoteDeferredEvent?.(id);
+    } else if (req.method === "POST" && action === "priority") {
+      const body = await readBody(req);
+      if (body === null) {
+        sendJson(res, 413, { error: "Request body too large" });
+        return true;
+      }
+      let parsed: { priority?: unknown };
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        sendJson(res, 400, { error: "Invalid JSON" });
+        return true;
+      }
+      const priority = parsed.priority;
+      if (priority !== "low" && priority !== "medium" && priority !== "high" && priority !== "critical") {
+        sendJson(res, 400, { error: "priority must be one of low, medium, high, critical" });
+        return true;
+      }
+      entry = await observer.reprioritizeDeferredEvent?.(id, priority);
+    } else if (req.method === "DELETE" && action === undefined) {
+      entry = await observer.dropDeferredEvent?.(id);
+    } else {
+      return false;
+    }
+    if (!entry) {
+      sendJson(res, 404, { error: `Deferred event not found: ${id}` });
+    } else {
+      sendJson(res, 200, { event: entry });
+    }
+    return true;
+  }
+
+  if (req.method === "POST" && parts[0] === "api" && parts[1] === "pipelines" && parts[3] === "plan" && parts.length === 4) {
+    if (!pipelineStore) {
+      sendJson(res, 501, { error: "Pipeline store not available" });
+      return true;
+    }
+    const id = decodeURIComponent(parts[2]);
+    const stored = pipelineStore.get(id);
+    if (!stored) {
+      sendJson(res, 404, { error: `Pipeline not found: ${id}` });
+      return true;
+    }
+    const body = await readBody(req);
+    if (body === null) {
+      sendJson(res, 413, { error: "Request body too large" });
+      return true;
+    }
+    let parsed: {
+      skipNodes?: unknown;
+      enableNodes?: unknown;
+      context?: unknown;
+      repo?: unknown;
+      baseBranch?: unknown;
+      intentKind?: unknown;
+    };
+    try {
+      parsed = body.trim() ? JSON.parse(body) : {};
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON" });
+      return true;
+    }
+    const isStringList = (value: unknown): value is string[] | undefined =>
+      value === undefined || (Array.isArray(value) && value.every(entry => typeof entry === "string"));
+    if (!isStringList(parsed.skipNodes) || !isStringList(parsed.enableNodes)) {
+      sendJson(res, 400, { error: "skipNodes and enableNodes must be arrays of node ids" });
+      return true;
+    }
+    if (parsed.context !== undefined && (typeof parsed.context !== "object" || parsed.context === null || Array.isArray(parsed.context))) {
+      sendJson(res, 400, { error: "context must be an object" });
+      return true;
+    }
+    if (parsed.repo !== undefined && (typeof parsed.repo !== "string" || !/^[\w.-]+\/[\w.-]+$/.test(parsed.repo))) {
+      sendJson(res, 400, { error: "repo must be an owner/name slug" });
+      return true;
+    }
+    if (parsed.baseBranch !== undefined && (typeof parsed.baseBranch !== "string" || !parsed.baseBranch.trim())) {
+      sendJson(res, 400, { error: "baseBranch must be a branch name" });
+      return true;
+    }
+    // The repo's .gooseherd.yml is read from its base branch, as a run would.
+    let repoConfig: RepoConfig | null = null;
+    if (parsed.repo) {
+      if (!githubService) {
+        sendJson(res, 501, { error: "GitHub is not configured; cannot load the repo's .gooseherd.yml" });
+        return true;
+      }
+      const baseBranch = (parsed.baseBranch as string | undefined)?.trim() || config.defaultBaseBranch;
+      try {
+        repoConfig = await loadRepoConfigFromGitHub(githubService, parsed.repo, baseBranch);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        sendJson(res, 502, { error: `Could not read .gooseherd.yml from ${parsed.repo}@${baseBranch}: ${msg}` });
+        return true;
+      }
+    }
+    try {
+      const pipeline = pipelineStore.validate(stored.yaml, id);
+      const plan = planPipeline(pipeline, {
+        pipelineId: id,
+        config,
+        skipNodes: parsed.skipNodes,
+        enableNodes: parsed.enableNodes,
+        context: parsed.repo
+          ? { repoSlug: parsed.repo, ...(parsed.context as Record<string, unknown> | undefined) }
+          : parsed.context as Record<string, unknown> | undefined,
+        repoConfig,
+        intentKind: typeof parsed.intentKind === "string" && parsed.intentKind ? parsed.intentKind : undefined,
+      });
+      sendJson(res, 200, { plan, repoConfig });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      sendJson(res, 400, { error: msg });
+    }
+    return true;
+  }
+
+  if (req.method === "GET" && parts[0] === "api" && parts[1] === "pipelines" && parts[3] === "revisions" && parts.length <= 5) {
+    if (!pipelineStore) {
+      sendJson(res, 501, { error: "Pipeline store not available" });
+      return true;
+    }
+    const id = decodeURIComponent(parts[2]);
+    if (parts.length === 4) {
+      sendJson(res, 200, { revisions: await pipelineStore.listRevisions(id) });
+      return true;
+    }
+    const revision = await pipelineStore.getRevision(id, decodeURIComponent(parts[4]!));
+    if (!revision) {
+      sendJson(res, 404, { error: `Revision not found: ${parts[4]}` });
+    } else {
+      sendJson(res, 200, { revision });
+    }
+    return true;
+  }
+
+  if (req.method === "GET" && parts[0] === "api" && parts[1] === "pipelines" && parts[3] === "diff" && parts.length === 4) {
+    if (!pipelineStore) {
+      sendJson(res, 501, { error: "Pipeline store not available" });
+      return true;
+    }
+    const id = decodeURIComponent(parts[2]);
+    const fromId = requestUrl.searchParams.get("from");
+    if (!fromId) {
+      sendJson(res, 400, { error: "from is required" });
+      return true;
+    }
+    // `to` defaults to the current revision
+    const toId = requestUrl.searchParams.get("to") ?? pipelineStore.get(id)?.revisionId;
+    const from = await pipelineStore.getRevision(id, fromId);
+    const to = toId ? await pipelineStore.getRevision(id, toId) : undefined;
+    if (!from || !to) {
+      sendJson(res, 404, { error: `Revision not found: ${!from ? fromId : toId ?? "current"}` });
+      return true;
+    }
+    const { yaml: _fromYaml, ...fromSummary } = from;
+    const { yaml: _toYaml, ...toSummary } = to;
+    sendJson(res, 200, {
+      from: fromSummary,
+      to: toSummary,
+      diff: diffPipelineYaml(from.yaml, to.yaml),
+      calls: await pipelineStore.diffCalls(from, to),
+    });
+    return true;
+  }
+
+  if (req.method === "POST" && parts[0] === "api" && parts[1] === "pipelines" && parts[3] === "rollback" && parts.length === 4) {
+    if (!pipelineStore) {
+      sendJson(res, 501, { error: "Pipeline store not available" });
+      return true;
+    }
+    const id = decodeURIComponent(parts[2]);
+    const body = await readBody(req);
+    if (body === null) {
+      sendJson(res, 413, { error: "Request body too large" });
+      return true;
+    }
+    let parsed: { revisionId?: unknown };
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON" });
+      return true;
+    }
+    if (typeof parsed.revisionId !== "string" || !parsed.revisionId) {
+      sendJson(res, 400, { error: "revisionId is required" });
+      return true;
+    }
+    try {
+      const pipeline = await pipelineStore.rollback(id, parsed.revisionId);
+      if (!pipeline) {
+        sendJson(res, 404, { error: `Revision not found: ${parsed.revisionId}` });
+      } else {
+        sendJson(res, 200, { pipeline });
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      sendJson(res, 400, { error: msg });
+    }
+    return true;
+  }
+
   if (parts[0] === "api" && parts[1] === "pipelines" && parts.length === 3) {
     const id = decodeURIComponent(parts[2]);
 
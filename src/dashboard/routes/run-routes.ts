@@ -10,14 +10,17 @@ import type { ChatMessage } from "../../llm/caller.js";
 import type { RunManager } from "../../run-manager.js";
 import type { RunStore } from "../../store.js";
 import type { RunFeedback, RunRecord } from "../../types.js";
-import type { DashboardConversationSource } from "../contracts.js";
+import { FanOutError, type FanOutTargets } from "../../runs/fan-out.js";
+import { isApprovalDecision } from "../../runs/run-checkpoints.js";
+import type { DashboardConversationSource, DashboardFanOutSource } from "../contracts.js";
 import { parseLimit, readBody, readLogFromOffset, readLogTail, sendJson } from "./shared.js";
 
-type DashboardRunManager = Pick<RunManager, "retryRun" | "continueRun" | "getRunChain" | "saveFeedbackFromSlackAction" | "cancelRun" | "enqueueRun">;
+type DashboardRunManager = Pick<RunManager, "retryRun" | "resumeRun" | "listResumePoints" | "continueRun" | "getRunChain" | "saveFeedbackFromSlackAction" | "cancelRun" | "enqueueRun" | "getApprovalRequest" | "decideApproval">;
 
 export interface RunRoutesDeps {
   config: AppConfig;
   conversationSource?: DashboardConversationSource;
+  fanOutSource?: DashboardFanOutSource;
   requestUrl: URL;
   runManager?: DashboardRunManager;
   store: RunStore;
@@ -29,7 +32,7 @@ export async function handleRunRoutes(
   pathname: string,
   deps: RunRoutesDeps,
 ): Promise<boolean> {
-  const { config, conversationSource, requestUrl, runManager, store } = deps;
+  const { config, conversationSource, fanOutSource, requestUrl, runManager, store } = deps;
 
   if (req.method === "POST" && pathname === "/api/runs") {
     if (!runManager) {
@@ -122,6 +125,10 @@ export async function handleRunRoutes(
     return true;
   }
 
+  if (parts[0] === "api" && parts[1] === "fan-outs") {
+    return handleFanOutRoutes(req, res, parts.slice(2), fanOutSource, requestUrl);
+  }
+
   if (parts[0] !== "api" || parts[1] !== "runs" || !parts[2]) {
     return false;
   }
@@ -410,12 +417,98 @@ export async function handleRunRoutes(
     return true;
   }
 
+  if (parts.length === 4 && parts[3] === "resume" && req.method === "GET") {
+    if (!runManager) {
+      sendJson(res, 501, { error: "Resume is unavailable: run manager not attached." });
+      return true;
+    }
+    const points = await runManager.listResumePoints(run.id);
+    sendJson(res, 200, { runId: run.id, points });
+    return true;
+  }
+
+  if (parts.length === 4 && parts[3] === "resume" && req.method === "POST") {
+    if (!runManager) {
+      sendJson(res, 501, { error: "Resume is unavailable: run manager not attached." });
+      return true;
+    }
+
+    const raw = await readBody(req);
+    if (raw === null) {
+      sendJson(res, 413, { error: "Request body too large" });
+      return true;
+    }
+    let parsed: { fromNode?: string; by?: string } = {};
+    try {
+      parsed = raw ? JSON.parse(raw) as { fromNode?: string; by?: string } : {};
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+      return true;
+    }
+
+    const requestedBy = parsed.by?.trim().slice(0, 120) || "dashboard";
+    const fromNode = typeof parsed.fromNode === "string" && parsed.fromNode.trim() ? parsed.fromNode.trim() : undefined;
+    const resumed = await runManager.resumeRun(run.id, requestedBy, fromNode);
+    if (!resumed.ok) {
+      sendJson(res, 400, { error: resumed.error });
+      return true;
+    }
+
+    sendJson(res, 200, { ok: true, run: resumed.run, fromNode: resumed.fromNodeId });
+    return true;
+  }
+
+  if (parts.length === 4 && parts[3] === "approval" && req.method === "GET") {
+    if (!runManager) {
+      sendJson(res, 501, { error: "Approvals are unavailable: run manager not attached." });
+      return true;
+    }
+    const request = run.status === "awaiting_approval" ? await runManager.getApprovalRequest(run.id) : undefined;
+    sendJson(res, 200, { runId: run.id, request: request ?? null });
+    return true;
+  }
+
+  if (parts.length === 4 && parts[3] === "approval" && req.method === "POST") {
+    if (!runManager) {
+      sendJson(res, 501, { error: "Approvals are unavailable: run manager not attached." });
+      return true;
+    }
+
+    const raw = await readBody(req);
+    if (raw === null) {
+      sendJson(res, 413, { error: "Request body too large" });
+      return true;
+    }
+    let parsed: { decision?: string; note?: string; by?: string } = {};
+    try {
+      parsed = raw ? JSON.parse(raw) as { decision?: string; note?: string; by?: string } : {};
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+      return true;
+    }
+    if (!isApprovalDecision(parsed.decision)) {
+      sendJson(res, 400, { error: "decision must be one of: approved, rejected, changes_requested" });
+      return true;
+    }
+
+    const decidedBy = parsed.by?.trim().slice(0, 120) || "dashboard";
+    const note = typeof parsed.note === "string" ? parsed.note.trim().slice(0, 4000) || undefined : undefined;
+    const decided = await runManager.decideApproval(run.id, parsed.decision, decidedBy, note);
+    if (!decided.ok) {
+      sendJson(res, 400, { error: decided.error });
+      return true;
+    }
+
+    sendJson(res, 200, { ok: true, run: decided.run });
+    return true;
+  }
+
   if (parts.length === 4 && parts[3] === "cancel" && req.method === "POST") {
     if (!runManager) {
       sendJson(res, 501, { error: "Cancel is unavailable: run manager not attached." });
       return true;
     }
-    if (!["running", "queued", "validating", "pushing", "awaiting_ci", "ci_fixing"].includes(run.status)) {
+    if (!["running", "queued", "validating", "pushing", "awaiting_ci", "ci_fixing", "awaiting_approval"].includes(run.status)) {
       sendJson(res, 400, { error: "Can only cancel in-progress runs" });
       return true;
     }
@@ -622,3 +715,97 @@ async function getChangedFilesDetailed(config: AppConfig, run: RunRecord): Promi
 
   return results.filter((result) => filterInternalGeneratedFiles([result.path]).length > 0);
 }
+
+async function handleFanOutRoutes(
+  req: IncomingMessage,
+  res: ServerResponse,
+  rest: string[],
+  fanOutSource: DashboardFanOutSource | undefined,
+  requestUrl: URL,
+): Promise<boolean> {
+  if (!fanOutSource) {
+    sendJson(res, 501, { error: "Multi-repo runs are unavailable: fan-out manager not attached." });
+    return true;
+  }
+
+  if (req.method === "POST" && rest.length === 0) {
+    const raw = await readBody(req);
+    if (raw === null) {
+      sendJson(res, 413, { error: "Request body too large" });
+      return true;
+    }
+    let parsed: {
+      task?: string;
+      repos?: unknown;
+      org?: string;
+      topic?: string;
+      baseBranch?: string;
+      concurrency?: number;
+      pipeline?: string;
+    } = {};
+    try {
+      parsed = JSON.parse(raw) as typeof parsed;
+    } catch {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+      return true;
+    }
+    if (!parsed.task || parsed.task.length > 10_000) {
+      sendJson(res, 400, { error: "task is required and must be under 10,000 characters" });
+      return true;
+    }
+    const targets: FanOutTargets = {
+      repos: Array.isArray(parsed.repos) ? parsed.repos.filter((repo): repo is string => typeof repo === "string") : undefined,
+      org: parsed.org?.trim() || undefined,
+      topic: parsed.topic?.trim() || undefined,
+    };
+    try {
+      const fanOut = await fanOutSource.start({
+        task: parsed.task,
+        targets,
+        baseBranch: parsed.baseBranch,
+        concurrency: typeof parsed.concurrency === "number" ? parsed.concurrency : undefined,
+        pipelineHint: parsed.pipeline?.trim() || undefined,
+        requestedBy: "dashboard",
+        channelId: "dashboard",
+        threadTs: `dash-${Date.now()}`,
+      });
+      sendJson(res, 201, { ok: true, fanOut });
+    } catch (error) {
+      if (error instanceof FanOutError) {
+        sendJson(res, 400, { error: error.message });
+        return true;
+      }
+      throw error;
+    }
+    return true;
+  }
+
+  if (req.method === "GET" && rest.length === 0) {
+    const fanOuts = await fanOutSource.list(parseLimit(requestUrl.searchParams.get("limit")));
+    sendJson(res, 200, { fanOuts });
+    return true;
+  }
+
+  const id = rest[0] ? decodeURIComponent(rest[0]) : undefined;
+  if (req.method === "GET" && id && rest.length === 1) {
+    const fanOut = await fanOutSource.get(id);
+    if (!fanOut) {
+      sendJson(res, 404, { error: "Fan-out not found" });
+      return true;
+    }
+    sendJson(res, 200, { fanOut });
+    return true;
+  }
+
+  if (req.method === "POST" && id && rest[1] === "cancel" && rest.length === 2) {
+    const fanOut = await fanOutSource.cancel(id);
+    if (!fanOut) {
+      sendJson(res, 404, { error: "Fan-out not found" });
+      return true;
+    }
+    sendJson(res, 200, { ok: true, fanOut });
+    return true;
+  }
+
+  return false;
+}
@@ -225,6 +225,7 @@ export async function handleSettingsRoutes(
       return true;
     }
     let parsed: {
+      awayUntil?: string | null;
       displayName?: string;
       githubLogin?: string | null;
       isActive?: boolean;
@@ -264,6 +265,7 @@ export async function handleSettingsRoutes(
       return true;
     }
     let parsed: {
+      awayUntil?: string | null;
       displayName?: string;
       githubLogin?: string | null;
       isActive?: boolean;
@@ -9,6 +9,7 @@ import { agentProfileWizardHtml } from "../agent-profile-wizard-html.js";
 import { agentProfileRoutingHtml } from "../agent-profile-routing-html.js";
 import { usersHtml } from "../users-html.js";
 import { modelPricesHtml } from "../model-prices-html.js";
+import { analyticsHtml } from "../analytics-html.js";
 import type { DashboardActorPrincipal } from "../actor-principal.js";
 import { buildDashboardSessionCookie, hashToken } from "../auth.js";
 import { requireDashboardAdminActor, readBody, sendJson, sendText } from "./shared.js";
@@ -70,6 +71,11 @@ export async function handleSetupRoutes(
     return true;
   }
 
+  if (req.method === "GET" && pathname === "/analytics") {
+    sendText(res, 200, analyticsHtml(config.appName), "text/html");
+    return true;
+  }
+
   if (req.method === "GET" && pathname === "/model-prices") {
     try {
       requireDashboardAdminActor(actorPrincipal);
@@ -6,8 +6,20 @@ import {
   type DashboardUserActorPrincipal,
 } from "../actor-principal.js";
 import type { DashboardWorkItemsSource } from "../contracts.js";
+import { deliveryAnalyticsCsv, type DeliveryAnalyticsGroupBy } from "../../work-items/delivery-analytics.js";
 import type { ReviewRequestRecord, WorkItemRecord } from "../../work-items/types.js";
-import { readBody, requireDashboardActor, sendJson } from "./shared.js";
+import { readBody, requireDashboardActor, sendJson, sendText } from "./shared.js";
+
+const DELIVERY_ANALYTICS_GROUPS = new Set(["team", "repo", "week", "month"]);
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** A YYYY-MM-DD query parameter as UTC midnight; undefined when absent, null when malformed. */
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
 
 export interface WorkItemRoutesDeps {
   actorPrincipal?: DashboardActorPrincipal;
@@ -39,6 +51,56 @@ export async function handleWorkItemRoutes(
     return true;
   }
 
+  if (req.method === "GET" && pathname === "/api/review-requests/overdue") {
+    if (!workItemsSource?.listOverdueReviews) {
+      sendJson(res, 200, { enabled: false, teams: [] });
+      return true;
+    }
+    sendJson(res, 200, { enabled: true, teams: await workItemsSource.listOverdueReviews() });
+    return true;
+  }
+
+  if (req.method === "GET" && pathname === "/api/analytics/work-items") {
+    if (!workItemsSource?.getDeliveryAnalytics) {
+      sendJson(res, 501, { error: "Delivery analytics are unavailable" });
+      return true;
+    }
+
+    const params = requestUrl.searchParams;
+    const groupBy = params.get("groupBy") || "team";
+    if (!DELIVERY_ANALYTICS_GROUPS.has(groupBy)) {
+      sendJson(res, 400, { error: "groupBy must be team, repo, week or month" });
+      return true;
+    }
+    const teamId = params.get("teamId") || undefined;
+    if (teamId && !UUID_RE.test(teamId)) {
+      sendJson(res, 400, { error: "teamId must be a team id" });
+      return true;
+    }
+    const from = parseDateParam(params.get("from"));
+    const to = parseDateParam(params.get("to"));
+    if (from === null || to === null) {
+      sendJson(res, 400, { error: "from and to must be dates (YYYY-MM-DD)" });
+      return true;
+    }
+
+    const report = await workItemsSource.getDeliveryAnalytics({
+      teamId,
+      repo: params.get("repo") || undefined,
+      from,
+      // `to` names the last day included
+      to: to ? new Date(to.getTime() + 86_400_000) : undefined,
+      groupBy: groupBy as DeliveryAnalyticsGroupBy,
+    });
+    if (params.get("format") === "csv") {
+      res.setHeader("content-disposition", "attachment; filename=\"work-item-analytics.csv\"");
+      sendText(res, 200, deliveryAnalyticsCsv(report), "text/csv");
+      return true;
+    }
+    sendJson(res, 200, report);
+    return true;
+  }
+
   const parts = pathname.split("/").filter(Boolean);
 
   if (req.method === "GET" && parts[0] === "api" && parts[1] === "repo" && parts[2] && parts[3] && parts[4] === "work-items") {
@@ -98,7 +98,8 @@ export function usersHtml(appName: string): string {
       font-weight: 600;
       margin-bottom: 6px;
     }
-    input[type="text"] {
+    input[type="text"],
+    input[type="date"] {
       width: 100%;
       padding: 10px 12px;
       font-size: 14px;
@@ -110,7 +111,8 @@ export function usersHtml(appName: string): string {
       outline: none;
       margin-bottom: 14px;
     }
-    input[type="text"]:focus { border-color: #60a5fa; }
+    input[type="text"]:focus,
+    input[type="date"]:focus { border-color: #60a5fa; }
     .checkbox-row {
       display: flex;
       align-items: center;
@@ -156,6 +158,8 @@ export function usersHtml(appName: string): string {
         <input id="github-login" type="text" placeholder="octocat" />
         <label for="jira-account-id">Jira Account ID</label>
         <input id="jira-account-id" type="text" placeholder="JIRA_123" />
+        <label for="away-until">Out of office until</label>
+        <input id="away-until" type="date" title="Skipped by reviewer auto-assignment until this date" />
         <label class="checkbox-row">
           <input id="is-active" type="checkbox" checked />
           <span>Active</span>
@@ -185,6 +189,7 @@ const el = {
   slackUserId: document.getElementById('slack-user-id'),
   githubLogin: document.getElementById('github-login'),
   jiraAccountId: document.getElementById('jira-account-id'),
+  awayUntil: document.getElementById('away-until'),
   isActive: document.getElementById('is-active'),
 };
 
@@ -195,6 +200,7 @@ function emptyDraft() {
     slackUserId: '',
     githubLogin: '',
     jiraAccountId: '',
+    awayUntil: '',
     isActive: true,
   };
 }
@@ -231,6 +237,7 @@ function renderList() {
       user.slackUserId || 'No Slack',
       user.githubLogin || 'No GitHub',
       user.jiraAccountId || 'No Jira',
+      ...(user.awayUntil && new Date(user.awayUntil) > new Date() ? ['Away until ' + user.awayUntil.slice(0, 10)] : []),
       user.isActive ? 'Active' : 'Inactive',
     ].join(' · ');
     const activeClass = user.id === state.selectedUserId ? ' active' : '';
@@ -252,6 +259,7 @@ function renderList() {
         slackUserId: user.slackUserId || '',
         githubLogin: user.githubLogin || '',
         jiraAccountId: user.jiraAccountId || '',
+        awayUntil: (user.awayUntil || '').slice(0, 10),
         isActive: Boolean(user.isActive),
       };
       setStatus('', '');
@@ -266,6 +274,7 @@ function renderForm() {
   el.slackUserId.value = state.draft.slackUserId || '';
   el.githubLogin.value = state.draft.githubLogin || '';
   el.jiraAccountId.value = state.draft.jiraAccountId || '';
+  el.awayUntil.value = state.draft.awayUntil || '';
   el.isActive.checked = Boolean(state.draft.isActive);
 }
 
@@ -275,6 +284,7 @@ function currentPayload() {
     slackUserId: el.slackUserId.value,
     githubLogin: el.githubLogin.value,
     jiraAccountId: el.jiraAccountId.value,
+    awayUntil: el.awayUntil.value || null,
     isActive: el.isActive.checked,
   };
 }
@@ -291,6 +301,7 @@ async function loadUsers() {
       slackUserId: first.slackUserId || '',
       githubLogin: first.githubLogin || '',
       jiraAccountId: first.jiraAccountId || '',
+      awayUntil: (first.awayUntil || '').slice(0, 10),
       isActive: Boolean(first.isActive),
     };
   }
@@ -320,6 +331,7 @@ el.cancelUserBtn.onclick = () => {
     slackUserId: existing.slackUserId || '',
     githubLogin: existing.githubLogin || '',
     jiraAccountId: existing.jiraAccountId || '',
+    awayUntil: (existing.awayUntil || '').slice(0, 10),
     isActive: Boolean(existing.isActive),
   };
   setStatus('', '');
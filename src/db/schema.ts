@@ -14,6 +14,7 @@ import {
   bigint,
   bigserial,
   numeric,
+  real,
   jsonb,
   date,
   index,
@@ -26,6 +27,14 @@ import {
 import { sql } from "drizzle-orm";
 import type { RunPrefetchContext } from "../runtime/run-context-types.js";
 import type { RunIntent } from "../runs/run-intent.js";
+import type { FanOutTargets } from "../runs/fan-out.js";
+import type {
+  EscalationAuditEntry,
+  ObserverDecision,
+  SafetyDecision,
+  TriggerEvent,
+  TriggerRule,
+} from "../observer/types.js";
 
 // Custom bytea type for encrypted fields
 const bytea = customType<{ data: Buffer; driverData: Buffer }>({
@@ -80,6 +89,8 @@ export const runs = pgTable(
     autoReviewSourceSubstate: text("auto_review_source_substate"),
     intent: jsonb("intent").$type<RunIntent>(),
     intentKind: text("intent_kind"),
+    pipelineRevisionId: uuid("pipeline_revision_id"),
+    fanOutId: uuid("fan_out_id"),
   },
   (t) => [
     index("runs_runtime_idx").on(t.runtime),
@@ -99,9 +110,43 @@ export const runs = pgTable(
     index("runs_work_item_intent_kind_idx")
       .on(t.workItemId, t.intentKind)
       .where(sql`work_item_id IS NOT NULL AND intent_kind IS NOT NULL`),
+    index("runs_pipeline_revision_id_idx")
+      .on(t.pipelineRevisionId)
+      .where(sql`pipeline_revision_id IS NOT NULL`),
+    index("runs_fan_out_id_idx")
+      .on(t.fanOutId)
+      .where(sql`fan_out_id IS NOT NULL`),
   ]
 );
 
+// ── run_fan_outs ──
+// One task applied to many repos; child runs carry runs.fan_out_id.
+
+export const runFanOuts = pgTable(
+  "run_fan_outs",
+  {
+    id: uuid("id").primaryKey(),
+    task: text("task").notNull(),
+    baseBranch: text("base_branch").notNull(),
+    targets: jsonb("targets").$type<FanOutTargets>().notNull(),
+    repoSlugs: text("repo_slugs").array().notNull(),
+    concurrency: integer("concurrency").notNull(),
+    pipelineHint: text("pipeline_hint"),
+    skipNodes: text("skip_nodes").array(),
+    enableNodes: text("enable_nodes").array(),
+    requestedBy: text("requested_by").notNull(),
+    channelId: text("channel_id").notNull(),
+    threadTs: text("thread_ts").notNull(),
+    statusMessageTs: text("status_message_ts"),
+    /** Repo slug → error, for repos whose child run could not be enqueued */
+    enqueueErrors: jsonb("enqueue_errors").notNull().$type<Record<string, string>>().default({}),
+    status: text("status").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    finishedAt: timestamp("finished_at", { withTimezone: true }),
+  },
+  (t) => [index("run_fan_outs_status_idx").on(t.status)]
+);
+
 // ── run control-plane ──
 
 export const runPayloads = pgTable(
@@ -314,6 +359,102 @@ export const observerRuleOutcomes = pgTable("observer_rule_outcomes", {
   lastAt: timestamp("last_at", { withTimezone: true }),
 });
 
+// ── observer_deferred_events ──
+
+export const observerDeferredEvents = pgTable(
+  "observer_deferred_events",
+  {
+    id: uuid("id").primaryKey(),
+    eventId: text("event_id").notNull(),
+    event: jsonb("event").notNull().$type<TriggerEvent>(),
+    rule: jsonb("rule").notNull().$type<TriggerRule>(),
+    reason: text("reason").notNull(),
+    priority: integer("priority").notNull(),
+    retryCount: integer("retry_count").notNull().default(0),
+    deferredAt: timestamp("deferred_at", { withTimezone: true }).notNull(),
+  },
+  (t) => [index("observer_deferred_events_deferred_at_idx").on(t.deferredAt)]
+);
+
+// ── observer_escalations ──
+
+export const observerEscalations = pgTable(
+  "observer_escalations",
+  {
+    id: uuid("id").primaryKey(),
+    eventId: text("event_id").notNull(),
+    source: text("source").notNull(),
+    ruleId: text("rule_id").notNull(),
+    repoSlug: text("repo_slug"),
+    priority: text("priority").notNull(),
+    reason: text("reason").notNull(),
+    confidence: real("confidence").notNull(),
+    status: text("status").notNull(),
+    event: jsonb("event").notNull().$type<TriggerEvent>(),
+    rule: jsonb("rule").notNull().$type<TriggerRule>(),
+    slackChannelId: text("slack_channel_id"),
+    slackMessageTs: text("slack_message_ts"),
+    runId: uuid("run_id"),
+    audit: jsonb("audit").notNull().$type<EscalationAuditEntry[]>().default([]),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("observer_escalations_status_created_idx").on(t.status, t.createdAt)]
+);
+
+// ── observer_event_journal ──
+
+export const observerEventJournal = pgTable(
+  "observer_event_journal",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    eventId: text("event_id").notNull(),
+    source: text("source").notNull(),
+    repoSlug: text("repo_slug"),
+    event: jsonb("event").notNull().$type<TriggerEvent>(),
+    receivedAt: timestamp("received_at", { withTimezone: true }).notNull(),
+    matchedRuleId: text("matched_rule_id"),
+    triage: jsonb("triage").$type<ObserverDecision>(),
+    safety: jsonb("safety").$type<SafetyDecision>(),
+    outcome: text("outcome").notNull(),
+    reason: text("reason").notNull(),
+    runId: uuid("run_id"),
+  },
+  (t) => [index("observer_event_journal_received_at_idx").on(t.receivedAt)]
+);
+
+export const observerRunLinks = pgTable(
+  "observer_run_links",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+    /** Null until an approved run is enqueued */
+    runId: uuid("run_id"),
+    eventId: text("event_id").notNull(),
+    source: text("source").notNull(),
+    dedupKey: text("dedup_key").notNull(),
+    /** What a later event must match to count as a recurrence (see buildRecurrenceKey) */
+    recurrenceKey: text("recurrence_key").notNull(),
+    repoSlug: text("repo_slug"),
+    event: jsonb("event").notNull().$type<TriggerEvent>(),
+    channelId: text("channel_id"),
+    threadTs: text("thread_ts"),
+    status: text("status").notNull(),
+    prUrl: text("pr_url"),
+    prNumber: integer("pr_number"),
+    mergedAt: timestamp("merged_at", { withTimezone: true }),
+    recurredAt: timestamp("recurred_at", { withTimezone: true }),
+    recurrenceEventId: text("recurrence_event_id"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => [
+    index("observer_run_links_run_id_idx").on(t.runId),
+    index("observer_run_links_dedup_key_idx").on(t.dedupKey),
+    index("observer_run_links_recurrence_key_idx").on(t.recurrenceKey),
+    index("observer_run_links_status_idx").on(t.status),
+  ]
+);
+
 // ── pipelines ──
 
 export const pipelines = pgTable("pipelines", {
@@ -323,10 +464,38 @@ export const pipelines = pgTable("pipelines", {
   yaml: text("yaml").notNull(),
   isBuiltIn: boolean("is_built_in").notNull().default(false),
   nodeCount: integer("node_count").notNull().default(0),
+  includeOnly: boolean("include_only").notNull().default(false),
+  currentRevisionId: uuid("current_revision_id"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+// ── pipeline_revisions ──
+// Immutable: every save, seed change, rollback and change to a called
+// pipeline appends a row. Kept after the pipeline is deleted so
+// runs.pipeline_revision_id stays resolvable.
+
+export const pipelineRevisions = pgTable(
+  "pipeline_revisions",
+  {
+    id: uuid("id").primaryKey(),
+    pipelineId: text("pipeline_id").notNull(),
+    revision: integer("revision").notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    yaml: text("yaml").notNull(),
+    nodeCount: integer("node_count").notNull().default(0),
+    source: text("source").notNull(),
+    rolledBackFrom: uuid("rolled_back_from"),
+    // Called pipeline id → its current revision id when this row was written
+    calledRevisions: jsonb("called_revisions").notNull().$type<Record<string, string | null>>().default({}),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    uniqueIndex("pipeline_revisions_pipeline_revision_idx").on(t.pipelineId, t.revision),
+  ]
+);
+
 // ── work item identity ──
 
 export const users = pgTable(
@@ -339,6 +508,8 @@ export const users = pgTable(
     primaryTeamId: uuid("primary_team_id"),
     displayName: text("display_name").notNull(),
     isActive: boolean("is_active").notNull().default(true),
+    /** Out of office: skipped by reviewer auto-assignment until then */
+    awayUntil: timestamp("away_until", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
@@ -429,6 +600,7 @@ export const workItems = pgTable(
   {
     id: uuid("id").primaryKey(),
     workflow: text("workflow").notNull(),
+    workflowDefinitionId: text("workflow_definition_id"),
     state: text("state").notNull(),
     substate: text("substate"),
     flags: text("flags").array().notNull().default([]),
@@ -497,6 +669,12 @@ export const reviewRequests = pgTable(
     requestedByUserId: uuid("requested_by_user_id").notNull(),
     requestedAt: timestamp("requested_at", { withTimezone: true }).notNull().defaultNow(),
     resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+    workflowStage: text("workflow_stage"),
+    remindedAt: timestamp("reminded_at", { withTimezone: true }),
+    escalatedAt: timestamp("escalated_at", { withTimezone: true }),
+    escalationTarget: jsonb("escalation_target").$type<{ targetType: string; targetRef: Record<string, unknown> }>(),
+    assignedUserIds: text("assigned_user_ids").array().notNull().default([]),
+    assignment: jsonb("assignment").$type<Record<string, unknown>>(),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
@@ -21,6 +21,7 @@ import type {
   ExpectedOutcomeJudgeConfig,
 } from "./types.js";
 import { callLLM, type LLMCallerConfig } from "../llm/caller.js";
+import { localNodeId } from "../pipeline/pipeline-loader.js";
 
 const execFileAsync = promisify(execFile);
 
@@ -424,10 +425,12 @@ async function readGateReportFromEvents(
     } catch {
       continue;
     }
-    if (event.type === "node_end" && event.nodeId && event.outcome && GATE_NODE_IDS.has(event.nodeId)) {
+    // Gates inlined from a called pipeline are logged as `<callId>.<gate>`
+    const gate = event.nodeId ? localNodeId(event.nodeId) : undefined;
+    if (event.type === "node_end" && gate && event.outcome && GATE_NODE_IDS.has(gate)) {
       // A skipped gate appends no verdict in production; keep it absent here too.
       if (event.outcome === "skipped") continue;
-      verdicts.set(event.nodeId, outcomeToVerdict(event.outcome));
+      verdicts.set(gate, outcomeToVerdict(event.outcome));
     }
   }
 
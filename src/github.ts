@@ -340,6 +340,37 @@ export class GitHubService {
     });
   }
 
+  /** Paths changed by a pull request (GitHub caps the list at 3000 files). */
+  async listPullRequestFiles(repoSlug: string, prNumber: number, signal?: AbortSignal): Promise<string[]> {
+    const { owner, repo } = parseRepoSlug(repoSlug);
+    const files = await this.paginateRest(page =>
+      this.octokit.pulls.listFiles({
+        owner,
+        repo,
+        pull_number: prNumber,
+        per_page: 100,
+        page,
+        ...(signal ? { request: { signal } } : {})
+      }),
+      signal
+    );
+    return files.map(file => file.filename);
+  }
+
+  async requestPullRequestReviewers(repoSlug: string, prNumber: number, reviewers: string[]): Promise<void> {
+    if (reviewers.length === 0) {
+      return;
+    }
+
+    const { owner, repo } = parseRepoSlug(repoSlug);
+    await this.octokit.pulls.requestReviewers({
+      owner,
+      repo,
+      pull_number: prNumber,
+      reviewers,
+    });
+  }
+
   async listPullRequestDiscussionComments(
     repoSlug: string,
     prNumber: number,
@@ -1019,6 +1050,32 @@ export class GitHubService {
     });
   }
 
+  /**
+   * Attach a completed check run to a commit — shows up in the commit's check
+   * suite. Requires GitHub App auth (PATs cannot create check runs).
+   */
+  async createCheckRun(params: {
+    repoSlug: string;
+    headSha: string;
+    name: string;
+    conclusion: "success" | "failure" | "neutral";
+    title: string;
+    summary: string;
+    detailsUrl?: string;
+  }): Promise<void> {
+    const { owner, repo } = parseRepoSlug(params.repoSlug);
+    await this.octokit.checks.create({
+      owner,
+      repo,
+      name: params.name,
+      head_sha: params.headSha,
+      status: "completed",
+      conclusion: params.conclusion,
+      ...(params.detailsUrl ? { details_url: params.detailsUrl } : {}),
+      output: { title: params.title, summary: params.summary },
+    });
+  }
+
   /**
    * Update the body of an existing PR conversation (issue) comment in place.
    * `commentId` is the string id surfaced by listPullRequestDiscussionComments.
@@ -1082,6 +1139,28 @@ export class GitHubService {
     }));
   }
 
+  /** Non-archived repos matching an org and/or topic, most recently pushed first. */
+  async searchRepositories(filter: { org?: string; topic?: string }, limit = 100): Promise<AccessibleRepository[]> {
+    const qualifiers = [
+      filter.org ? `org:${filter.org}` : "",
+      filter.topic ? `topic:${filter.topic}` : "",
+    ].filter(Boolean);
+    if (qualifiers.length === 0) {
+      throw new Error("searchRepositories needs an org or a topic");
+    }
+    const { data } = await this.octokit.search.repos({
+      q: [...qualifiers, "archived:false"].join(" "),
+      sort: "updated",
+      per_page: Math.min(Math.max(limit, 1), 100),
+    });
+    return data.items.map((r) => ({
+      fullName: r.full_name,
+      private: r.private,
+      defaultBranch: r.default_branch ?? undefined,
+      htmlUrl: r.html_url ?? undefined,
+    }));
+  }
+
   private async paginateRest<T>(
     fetchPage: (page: number) => Promise<{ data: T[] }>,
     signal?: AbortSignal,
@@ -2,9 +2,22 @@ import type { MemoryProvider } from "../memory/provider.js";
 import type { RunRecord, ExecutionResult } from "../types.js";
 import { logError } from "../logger.js";
 
+/** Called once per run that reaches a terminal status (completed, failed or cancelled). */
+export type RunFinishedListener = (run: RunRecord) => Promise<void>;
+
 export class RunLifecycleHooks {
+  private readonly finishedListeners: RunFinishedListener[] = [];
+
   constructor(private readonly memory?: MemoryProvider) {}
 
+  addRunFinishedListener(listener: RunFinishedListener): void {
+    this.finishedListeners.push(listener);
+  }
+
+  get hasRunFinishedListeners(): boolean {
+    return this.finishedListeners.length > 0;
+  }
+
   /** Expose the memory provider so pipeline nodes can store discoveries. */
   get memoryProvider(): MemoryProvider | undefined {
     return this.memory;
@@ -54,6 +67,16 @@ export class RunLifecycleHooks {
     }
   }
 
+  async onRunFinished(run: RunRecord): Promise<void> {
+    for (const listener of this.finishedListeners) {
+      try {
+        await listener(run);
+      } catch (error) {
+        logError("Hook onRunFinished failed", { runId: run.id, error: error instanceof Error ? error.message : "unknown" });
+      }
+    }
+  }
+
   async onFeedback(run: RunRecord, rating: "up" | "down", note?: string): Promise<void> {
     if (!this.memory) return;
     try {
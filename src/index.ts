@@ -44,6 +44,8 @@ import { RunnerDbSlotManager } from "./runtime/runner-db-slot-manager.js";
 import { resolveRunnerProfile } from "./runtime/runner-profile.js";
 import { RunContextPrefetcher } from "./runtime/run-context-prefetcher.js";
 import { RunCheckpointStore } from "./runs/run-checkpoint-store.js";
+import { FanOutManager } from "./runs/fan-out.js";
+import { FanOutStore } from "./runs/fan-out-store.js";
 import { RunCheckpointProcessor } from "./runs/run-checkpoint-processor.js";
 import {
   resolveKubernetesInternalBaseUrl,
@@ -100,6 +102,7 @@ interface Services {
   runCheckpointProcessor?: RunCheckpointProcessor;
   workItemGitHubSync?: GitHubWorkItemSync;
   workItemJiraSync?: JiraWorkItemSync;
+  fanOutManager: FanOutManager;
 }
 
 type HomeThreadCreator = (input: { channelId: string; text: string }) => Promise<string>;
@@ -137,6 +140,7 @@ interface WorkItemServicesBundle {
   postWorkItemReviewNotifications?:
     | typeof import("./work-items/slack-actions.js").postWorkItemReviewNotifications
     | undefined;
+  stageReviews?: Pick<import("./work-items/service.js").WorkItemServiceOptions, "githubService" | "notifyReviewRequests">;
   workItemOrchestratorRef: { current?: WorkItemOrchestrator };
 }
 
@@ -290,6 +294,7 @@ async function createWorkItemServices(
   db: Database,
   githubService: GitHubService | undefined,
   jiraClient: JiraClient | undefined,
+  webClient: import("@slack/web-api").WebClient | undefined,
   createHomeThread?: HomeThreadCreator,
 ): Promise<WorkItemServicesBundle> {
   if (!isFeatureEnabled(config, "workItems")) {
@@ -312,8 +317,15 @@ async function createWorkItemServices(
   let postWorkItemReviewNotifications:
     | typeof import("./work-items/slack-actions.js").postWorkItemReviewNotifications
     | undefined;
+  let stageReviews: WorkItemServicesBundle["stageReviews"];
   const workItemOrchestratorRef: { current?: WorkItemOrchestrator } = {};
 
+  // Custom workflow definitions must be registered before any work item is read
+  const workflowDefinitionMod = await import("./work-items/workflow-definition.js");
+  workflowDefinitionMod.registerWorkflowDefinitions(
+    await workflowDefinitionMod.loadWorkflowDefinitions(config.workItemWorkflowsDir),
+  );
+
   {
     const [
       workItemStoreMod,
@@ -344,6 +356,7 @@ async function createWorkItemServices(
     ]);
     const userDirectoryService = new userDirectoryServiceMod.UserDirectoryService(db);
     workItemStore = new workItemStoreMod.WorkItemStore(db);
+    workflowDefinitionMod.assertPinnedWorkflowDefinitionsRegistered(await workItemStore.listPinnedWorkflowDefinitions());
     reviewRequestStore = new reviewRequestStoreMod.ReviewRequestStore(db);
     workItemEventsStore = new workItemEventsStoreMod.WorkItemEventsStore(db);
     const readyForMergeActions = githubService
@@ -364,10 +377,32 @@ async function createWorkItemServices(
       : undefined;
     qaPreparationHandler = qaPreparationActions?.handleEntry.bind(qaPreparationActions);
     readyForMergeHandler = readyForMergeActions?.handleEntry.bind(readyForMergeActions);
+    workItemIdentityStore = new workItemIdentityStoreMod.WorkItemIdentityStore(db);
+    const identityStoreForNotifications = workItemIdentityStore;
+    stageReviews = {
+      githubService,
+      notifyReviewRequests: async (workItem, reviewRequests) => {
+        if (!webClient) return;
+        try {
+          await workItemSlackActionsMod.postWorkItemReviewNotifications(
+            webClient,
+            config,
+            identityStoreForNotifications,
+            workItem,
+            reviewRequests,
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "unknown";
+          logError("Failed to post stage review notification", { workItemId: workItem.id, error: message });
+        }
+      },
+    };
     workItemService = new workItemServiceMod.WorkItemService(db, {
+      qaPreparationHandler,
       readyForMergeHandler,
+      reducerPolicy: { skipProductReview: config.featureDeliverySkipProductReview },
+      ...stageReviews,
     });
-    workItemIdentityStore = new workItemIdentityStoreMod.WorkItemIdentityStore(db);
     workItemContextResolver = new workItemContextResolverMod.WorkItemContextResolver(db);
     postWorkItemReviewNotifications = workItemSlackActionsMod.postWorkItemReviewNotifications;
 
@@ -381,6 +416,7 @@ async function createWorkItemServices(
       githubService,
       qaPreparationHandler,
       readyForMergeHandler,
+      stageReviews,
       resetEngineeringReviewOnNewCommits: config.featureDeliveryResetEngineeringReviewOnNewCommits,
       resetQaReviewOnNewCommits: config.featureDeliveryResetQaReviewOnNewCommits,
       skipProductReview: config.featureDeliverySkipProductReview,
@@ -475,6 +511,17 @@ async function createWorkItemServices(
         createHomeThread,
       }),
     });
+
+    if (config.jiraWritebackEnabled && jiraClient) {
+      const { startJiraWriteBack } = await import("./work-items/jira-writeback.js");
+      await startJiraWriteBack({
+        events: workItemEventsStore,
+        workItems: requiredWorkItemStore,
+        jira: jiraClient,
+        transitions: config.jiraWritebackTransitions,
+        intervalMs: config.jiraWritebackIntervalMs,
+      });
+    }
   }
 
   return {
@@ -490,6 +537,7 @@ async function createWorkItemServices(
     workItemGitHubSync,
     workItemJiraSync,
     postWorkItemReviewNotifications,
+    stageReviews,
     workItemOrchestratorRef,
   };
 }
@@ -514,6 +562,7 @@ async function createDashboardWorkItemsBundle(
     workItemIdentityStore,
     workItemContextResolver,
     postWorkItemReviewNotifications,
+    stageReviews,
     workItemOrchestratorRef,
   } = workItemServices;
 
@@ -531,6 +580,8 @@ async function createDashboardWorkItemsBundle(
   }
 
   const { WorkItemOrchestrator } = await import("./work-items/orchestrator.js");
+  const reviewSlaMod = await import("./work-items/review-sla-monitor.js");
+  const deliveryAnalyticsMod = await import("./work-items/delivery-analytics.js");
   const requiredWorkItemStore = workItemStore;
   const requiredReviewRequestStore = reviewRequestStore;
   const requiredWorkItemEventsStore = workItemEventsStore;
@@ -554,7 +605,7 @@ async function createDashboardWorkItemsBundle(
       }));
     },
     listWorkItems: async (workflow?: string) => {
-      const activeStatuses = new Set(["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing"]);
+      const activeStatuses = new Set(["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing", "awaiting_approval"]);
       const workItems = await requiredWorkItemStore.listWorkItems();
       const filtered = workflow ? workItems.filter((workItem) => workItem.workflow === workflow) : workItems;
       return Promise.all(filtered.map(async (workItem) => {
@@ -570,7 +621,7 @@ async function createDashboardWorkItemsBundle(
       if (!workItem) {
         return undefined;
       }
-      const activeStatuses = new Set(["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing"]);
+      const activeStatuses = new Set(["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing", "awaiting_approval"]);
       const runs = await store.listRunsForWorkItem(id);
       return {
         ...workItem,
@@ -580,6 +631,18 @@ async function createDashboardWorkItemsBundle(
     listReviewRequestsForWorkItem: (workItemId) => requiredReviewRequestStore.listReviewRequestsForWorkItem(workItemId),
     listReviewRequestComments: (reviewRequestId) => requiredReviewRequestStore.listComments(reviewRequestId),
     listEventsForWorkItem: (workItemId) => requiredWorkItemEventsStore.listForWorkItem(workItemId),
+    listOverdueReviews: () => reviewSlaMod.listOverdueReviews({
+      reviewRequests: requiredReviewRequestStore,
+      workItems: requiredWorkItemStore,
+      getTeamName: async (teamId) => (await requiredWorkItemIdentityStore.getTeam(teamId))?.name,
+    }),
+    getDeliveryAnalytics: (query) => deliveryAnalyticsMod.loadDeliveryAnalytics({
+      workItems: requiredWorkItemStore,
+      events: requiredWorkItemEventsStore,
+      reviewRequests: requiredReviewRequestStore,
+      runs: store,
+      getTeamName: async (teamId) => (await requiredWorkItemIdentityStore.getTeam(teamId))?.name,
+    }, query),
     createDiscoveryWorkItem: async (input) => {
       if (!input.ownerTeamId || !input.homeChannelId || !input.homeThreadTs) {
         const resolved = await requiredWorkItemContextResolver.resolveDiscoveryContext({
@@ -669,10 +732,27 @@ async function createDashboardWorkItemsBundle(
     githubService,
     qaPreparationHandler,
     readyForMergeHandler,
+    stageReviews,
     runManager,
   });
   workItemOrchestratorRef.current = workItemOrchestrator;
 
+  if (config.reviewSlaEnabled) {
+    const { postReviewRequestSlaNotice } = await import("./work-items/slack-actions.js");
+    reviewSlaMod.startReviewSlaMonitor({
+      reviewRequests: requiredReviewRequestStore,
+      workItems: requiredWorkItemStore,
+      events: requiredWorkItemEventsStore,
+      notify: async (workItem, reviewRequest, notice) => {
+        if (webClient) {
+          await postReviewRequestSlaNotice(webClient, config, requiredWorkItemIdentityStore, workItem, reviewRequest, notice);
+        }
+      },
+      expire: (reviewRequestId, onNoResponse) => requiredWorkItemService.expireReviewRequest({ reviewRequestId, onNoResponse }),
+      intervalMs: config.reviewSlaIntervalMs,
+    });
+  }
+
   if (
     config.autoReviewBranchSyncEnabled &&
     githubService &&
@@ -710,6 +790,7 @@ async function createServices(config: AppConfig, db: Database): Promise<Services
     db,
     coreServices.githubService,
     coreServices.jiraClient,
+    coreServices.webClient,
     coreServices.createHomeThread,
   );
 
@@ -843,6 +924,15 @@ async function createServices(config: AppConfig, db: Database): Promise<Services
     sweepTimer.unref?.();
   }
 
+  const fanOutManager = new FanOutManager(
+    config,
+    new FanOutStore(db),
+    coreServices.store,
+    runManager,
+    coreServices.githubService,
+    coreServices.webClient,
+  );
+
   const conversationStore = new ConversationStore({ db });
   await conversationStore.load();
   conversationStore.startCleanupTimer();
@@ -882,6 +972,7 @@ async function createServices(config: AppConfig, db: Database): Promise<Services
     runCheckpointProcessor,
     workItemGitHubSync: workItemServices.workItemGitHubSync,
     workItemJiraSync: workItemServices.workItemJiraSync,
+    fanOutManager,
   };
 }
 
@@ -1024,7 +1115,9 @@ async function startBackgroundServices(config: AppConfig, db: Database, svc: Ser
       await svc.workItemJiraSync.handleWebhookPayload(webhookPayload);
       return true;
     },
+    githubService: svc.githubService,
   });
+  svc.hooks.addRunFinishedListener((run) => observer.handleRunFinished(run));
   await observer.start();
   globalRefs.observer = observer;
   logInfo("Observer system enabled");
@@ -1070,6 +1163,7 @@ async function startInteractiveServices(
       workItemsEnabled ? svc.dashboardWorkItemsSource : undefined,
       db,
       svc.modelPriceStore,
+      svc.fanOutManager,
     );
   }
 
@@ -1099,7 +1193,20 @@ async function startInteractiveServices(
             source: "slack",
           });
         },
+        reassignReviewRequest: async (input) => {
+          const { WorkItemIdentityStore } = await import("./work-items/identity-store.js");
+          const actor = await new WorkItemIdentityStore(db).getUserBySlackUserId(input.slackUserId);
+          if (!actor) {
+            throw new Error("Unknown Slack actor");
+          }
+          const reassigned = await svc.workItemService!.reassignReviewRequest({
+            reviewRequestId: input.reviewRequestId,
+            actor: slackActor(actor.id),
+          });
+          return reassigned.assignment?.reviewers.map((reviewer) => reviewer.displayName) ?? [];
+        },
       } : undefined,
+      svc.fanOutManager,
     );
     return;
   }
@@ -1171,6 +1278,8 @@ async function main(): Promise<void> {
     logInfo("Reconciled in-progress kubernetes runs after restart", { count: recovery.kubernetesRuns.length });
   }
 
+  await svc.fanOutManager.recover();
+
   await startBackgroundServices(config, db, svc);
   await startInteractiveServices(config, db, svc, setupStore, workItemsEnabled);
 }
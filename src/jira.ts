@@ -15,9 +15,54 @@ export interface JiraComment {
   body: string;
 }
 
+export interface JiraTransition {
+  id: string;
+  name: string;
+  /** Status the transition moves the issue to */
+  toStatus?: string;
+}
+
+export interface JiraRemoteLink {
+  /** Jira keeps one link per globalId, so re-sending updates it */
+  globalId: string;
+  url: string;
+  title: string;
+}
+
+export interface JiraSearchIssue {
+  id: string;
+  key: string;
+  fields: {
+    summary?: string;
+    description?: unknown;
+    status?: { name?: string };
+    priority?: { name?: string };
+    issuetype?: { name?: string };
+    project?: { key?: string };
+    labels?: string[];
+    assignee?: { displayName?: string } | null;
+    reporter?: { displayName?: string } | null;
+    updated?: string;
+  };
+}
+
+export interface JiraSearchPage {
+  issues: JiraSearchIssue[];
+  nextPageToken?: string;
+}
+
+export class JiraRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "JiraRequestError";
+  }
+}
+
 interface JiraClientConfig {
   jiraBaseUrl?: string;
   jiraCloudId?: string;
+  /** REST API root that bypasses the Atlassian cloud gateway (Data Center, local stand-in) */
+  jiraApiBaseUrl?: string;
   jiraUser?: string;
   jiraApiToken?: string;
   jiraRequestTimeoutMs: number;
@@ -61,6 +106,7 @@ export class JiraClient {
     return new JiraClient({
       jiraBaseUrl: config.jiraBaseUrl,
       jiraCloudId: config.jiraCloudId,
+      jiraApiBaseUrl: config.jiraApiBaseUrl,
       jiraUser: config.jiraUser,
       jiraApiToken: config.jiraApiToken,
       jiraRequestTimeoutMs: config.jiraRequestTimeoutMs
@@ -72,7 +118,7 @@ export class JiraClient {
     const fields = issue.fields ?? {};
     return {
       key: issue.key ?? issueKey,
-      url: `${this.browseBaseUrl}/browse/${encodeURIComponent(issueKey)}`,
+      url: this.issueUrl(issueKey),
       summary: fields.summary,
       status: fields.status?.name,
       description: normalizeJiraText(fields.description)
@@ -117,6 +163,82 @@ export class JiraClient {
       });
   }
 
+  /**
+   * One page of a JQL search (`/rest/api/3/search/jql`). Pass the previous
+   * page's `nextPageToken` to continue.
+   */
+  async searchIssues(
+    jql: string,
+    options: { fields: string[]; maxResults?: number; nextPageToken?: string },
+    signal?: AbortSignal
+  ): Promise<JiraSearchPage> {
+    const apiBaseUrl = await this.resolveApiBaseUrl();
+    const response = await fetch(`${apiBaseUrl}/rest/api/3/search/jql`, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        Authorization: this.authHeader
+      },
+      body: JSON.stringify({
+        jql,
+        fields: options.fields,
+        maxResults: options.maxResults ?? 50,
+        ...(options.nextPageToken ? { nextPageToken: options.nextPageToken } : {})
+      }),
+      signal: buildAbortSignal(this.config.jiraRequestTimeoutMs, signal)
+    });
+
+    if (!response.ok) {
+      const message = await safeReadResponseText(response);
+      throw new Error(
+        `Jira search failed: ${response.status} ${response.statusText}${message ? ` - ${message}` : ""}`
+      );
+    }
+
+    const page = await response.json() as { issues?: JiraSearchIssue[]; nextPageToken?: string; isLast?: boolean };
+    return { issues: page.issues ?? [], nextPageToken: page.isLast === false ? page.nextPageToken : undefined };
+  }
+
+  async getTransitions(issueKey: string, signal?: AbortSignal): Promise<JiraTransition[]> {
+    const response = await this.send("GET", `/issue/${encodeURIComponent(issueKey)}/transitions`, undefined, `${issueKey} transitions`, signal);
+    const body = await response.json() as { transitions?: Array<{ id?: string; name?: string; to?: { name?: string } }> };
+    return (body.transitions ?? [])
+      .filter((transition) => transition.id && transition.name)
+      .map((transition) => ({ id: String(transition.id), name: String(transition.name), toStatus: transition.to?.name }));
+  }
+
+  async transitionIssue(issueKey: string, transitionId: string, signal?: AbortSignal): Promise<void> {
+    await this.send("POST", `/issue/${encodeURIComponent(issueKey)}/transitions`, { transition: { id: transitionId } }, `${issueKey} transition`, signal);
+  }
+
+  /** Add a plain-text comment (sent as a single ADF paragraph per line). */
+  async addComment(issueKey: string, text: string, signal?: AbortSignal): Promise<void> {
+    const body = {
+      type: "doc",
+      version: 1,
+      content: text.split("\n").filter((line) => line.trim()).map((line) => ({
+        type: "paragraph",
+        content: [{ type: "text", text: line }]
+      }))
+    };
+    await this.send("POST", `/issue/${encodeURIComponent(issueKey)}/comment`, { body }, `${issueKey} comment`, signal);
+  }
+
+  async addRemoteLink(issueKey: string, link: JiraRemoteLink, signal?: AbortSignal): Promise<void> {
+    await this.send(
+      "POST",
+      `/issue/${encodeURIComponent(issueKey)}/remotelink`,
+      { globalId: link.globalId, object: { url: link.url, title: link.title } },
+      `${issueKey} remote link`,
+      signal
+    );
+  }
+
+  issueUrl(issueKey: string): string {
+    return `${this.browseBaseUrl}/browse/${encodeURIComponent(issueKey)}`;
+  }
+
   private get browseBaseUrl(): string {
     const baseUrl = this.config.jiraBaseUrl?.trim();
     if (!baseUrl || !this.config.jiraUser || !this.config.jiraApiToken) {
@@ -132,6 +254,29 @@ export class JiraClient {
     return `Basic ${Buffer.from(`${this.config.jiraUser}:${this.config.jiraApiToken}`).toString("base64")}`;
   }
 
+  private async send(method: string, path: string, body: unknown, label: string, signal?: AbortSignal): Promise<Response> {
+    const apiBaseUrl = await this.resolveApiBaseUrl();
+    const response = await fetch(`${apiBaseUrl}/rest/api/3${path}`, {
+      method,
+      headers: {
+        Accept: "application/json",
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        Authorization: this.authHeader
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: buildAbortSignal(this.config.jiraRequestTimeoutMs, signal)
+    });
+
+    if (!response.ok) {
+      const message = await safeReadResponseText(response);
+      throw new JiraRequestError(
+        `Jira request failed for ${label}: ${response.status} ${response.statusText}${message ? ` - ${message}` : ""}`,
+        response.status
+      );
+    }
+    return response;
+  }
+
   private async fetchIssue(issueKey: string, signal?: AbortSignal): Promise<JiraIssueResponse> {
     const apiBaseUrl = await this.resolveApiBaseUrl();
     const response = await fetch(
@@ -179,6 +324,11 @@ export class JiraClient {
   }
 
   private async resolveApiBaseUrl(): Promise<string> {
+    const configuredApiBaseUrl = this.config.jiraApiBaseUrl?.trim();
+    if (configuredApiBaseUrl) {
+      return configuredApiBaseUrl.replace(/\/+$/, "");
+    }
+
     const configuredCloudId = this.config.jiraCloudId?.trim();
     if (configuredCloudId) {
       return `https://api.atlassian.com/ex/jira/${encodeURIComponent(configuredCloudId)}`;
@@ -216,7 +366,7 @@ function buildAbortSignal(timeoutMs: number, signal?: AbortSignal): AbortSignal
   return signal ? AbortSignal.any([timeoutSignal, signal]) : timeoutSignal;
 }
 
-function normalizeJiraText(value: unknown): string {
+export function normalizeJiraText(value: unknown): string {
   const text = visitJiraValue(value).replace(/\n{3,}/g, "\n\n").trim();
   return text;
 }
@@ -0,0 +1,372 @@
+/**
+ * Alert clustering — groups related observer events so one root cause yields
+ * one run instead of a burst of competing runs.
+ *
+ * Events that pass the safety pipeline are held for a short window. An event
+ * joins an open cluster for the same repo and rule when they share a stack
+ * frame or a source file; otherwise an optional LLM check decides whether both alerts
+ * share a root cause. When the window closes the cluster becomes one run
+ * whose task lists every grouped alert.
+ */
+
+import { randomUUID } from "node:crypto";
+import { callLLMForJSON, type LLMCallerConfig } from "../llm/caller.js";
+import { logInfo } from "../logger.js";
+import type { JournaledEvent } from "./event-journal.js";
+import { buildTask } from "./run-composer.js";
+import { buildDedupKey } from "./safety.js";
+import type { ObserverEventRecord, TriggerEvent, TriggerPriority, TriggerRule } from "./types.js";
+
+const MAX_CLUSTER_SIZE = 25;
+const MAX_RECENT_CLUSTERS = 50;
+/** LLM checks per event; the newest open clusters are asked first */
+const MAX_SIMILARITY_CHECKS = 3;
+const MIN_SIMILARITY_CONFIDENCE = 0.6;
+const MAX_TASK_ALERTS = 20;
+const PRIORITY_ORDER: TriggerPriority[] = ["low", "medium", "high", "critical"];
+
+const FILE_PATTERN =
+  /(?:[\w@.-]+\/)*[\w@-][\w@.-]*\.(?:tsx?|jsx?|mjs|cjs|py|rb|go|java|kt|rs|php|cs|swift|scala|exs?|vue|svelte)\b/g;
+/** JS "at fn (file:line)" frames */
+const JS_FRAME_PATTERN = /\bat ([\w$.<>]+) \(/g;
+/** Python 'File "x", line n, in fn' frames */
+const PY_FRAME_PATTERN = /File "([^"]+)", line \d+, in ([\w<>]+)/g;
+
+export interface ClusterSignals {
+  files: string[];
+  frames: string[];
+}
+
+export interface AlertClusterMember {
+  eventId: string;
+  source: string;
+  priority: TriggerPriority;
+  ruleId: string;
+  /** First line of the alert's task */
+  summary: string;
+  /** Why it joined: "first alert", "shared frame …", "shared file …" or the LLM's reason */
+  reason: string;
+  joinedAt: string;
+}
+
+export interface AlertCluster {
+  id: string;
+  repoSlug: string;
+  /** The rule every member matched; it decides approval, pipeline and channel for the run */
+  ruleId: string;
+  status: "open" | "launched" | "failed" | "denied";
+  members: AlertClusterMember[];
+  createdAt: string;
+  launchedAt?: string;
+  runId?: string;
+}
+
+/** LLM verdict on whether an event belongs to a cluster. */
+export interface ClusterSimilarity {
+  sameRootCause: boolean;
+  confidence: number;
+  reason: string;
+}
+
+export type ClusterSimilarityCheck = (event: TriggerEvent, cluster: AlertCluster) => Promise<ClusterSimilarity | null>;
+
+/** A held event with what the daemon needs to launch and journal it. */
+export interface ClusterEntry {
+  event: TriggerEvent;
+  rule: TriggerRule;
+  journal: JournaledEvent;
+  record: ObserverEventRecord;
+  signals: ClusterSignals;
+}
+
+export interface ReadyCluster {
+  cluster: AlertCluster;
+  entries: ClusterEntry[];
+}
+
+export interface AlertClustererOptions {
+  windowMs: number;
+  /** LLM fallback when no frame or file overlaps */
+  similarity?: ClusterSimilarityCheck;
+}
+
+// ── Signals ──
+
+/** Stack frames and source files mentioned by an event. */
+export function extractClusterSignals(event: TriggerEvent): ClusterSignals {
+  const raw = event.rawPayload && typeof event.rawPayload === "object"
+    ? (event.rawPayload as Record<string, unknown>)
+    : {};
+  let payloadText = "";
+  try {
+    payloadText = JSON.stringify(event.rawPayload ?? null).slice(0, 8000);
+  } catch {
+    payloadText = "";
+  }
+  const text = `${event.suggestedTask ?? ""}\n${payloadText}`;
+
+  const files = new Set<string>();
+  for (const match of text.matchAll(FILE_PATTERN)) {
+    files.add(match[0].replace(/^\.\//, ""));
+  }
+
+  const frames = new Set<string>();
+  // Sentry's culprit is the top in-app frame
+  if (typeof raw["culprit"] === "string" && raw["culprit"].trim()) {
+    frames.add(raw["culprit"].trim());
+  }
+  for (const match of text.matchAll(JS_FRAME_PATTERN)) {
+    if (match[1] !== "new" && match[1] !== "async") frames.add(match[1]!);
+  }
+  for (const match of text.matchAll(PY_FRAME_PATTERN)) {
+    frames.add(`${match[1]!}:${match[2]!}`);
+  }
+
+  return { files: [...files], frames: [...frames] };
+}
+
+/** Reason the two signal sets overlap, or undefined. Frames win over files. */
+export function findSignalOverlap(a: ClusterSignals, b: ClusterSignals): string | undefined {
+  const frame = a.frames.find((candidate) => b.frames.includes(candidate));
+  if (frame) return `shared frame ${frame}`;
+  const file = a.files.find((candidate) => b.files.includes(candidate));
+  if (file) return `shared file ${file}`;
+  return undefined;
+}
+
+// ── LLM similarity ──
+
+export function buildSimilarityUserMessage(event: TriggerEvent, cluster: AlertCluster): string {
+  return [
+    `Repo: ${cluster.repoSlug || "unknown"}`,
+    "",
+    "Existing cluster alerts:",
+    ...cluster.members.slice(0, 5).map((member, i) => `${String(i + 1)}. [${member.source}] ${member.summary}`),
+    "",
+    "New alert:",
+    `[${event.source}] ${truncate(event.suggestedTask ?? event.id, 1500)}`
+  ].join("\n");
+}
+
+export function parseSimilarityResponse(raw: unknown): ClusterSimilarity | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj["sameRootCause"] !== "boolean") return null;
+  return {
+    sameRootCause: obj["sameRootCause"],
+    confidence: typeof obj["confidence"] === "number" ? Math.max(0, Math.min(1, obj["confidence"])) : 0.5,
+    reason: typeof obj["reason"] === "string" ? obj["reason"] : ""
+  };
+}
+
+/**
+ * Ask the LLM whether `event` shares a root cause with `cluster`.
+ * Returns null on error or timeout (the event then starts its own cluster).
+ */
+export async function checkSameRootCause(
+  event: TriggerEvent,
+  cluster: AlertCluster,
+  llmConfig: LLMCallerConfig,
+  timeoutMs: number
+): Promise<ClusterSimilarity | null> {
+  try {
+    const { parsed } = await callLLMForJSON<Record<string, unknown>>(llmConfig, {
+      system: [
+        "You group production alerts for an AI coding agent orchestrator.",
+        "Decide whether the new alert is most likely caused by the same code defect as the existing cluster.",
+        "Alerts in one cluster are fixed by a single code change.",
+        "",
+        "Respond ONLY with a JSON object:",
+        '{ "sameRootCause": true | false, "confidence": 0.0-1.0, "reason": "one-line explanation" }'
+      ].join("\n"),
+      userMessage: buildSimilarityUserMessage(event, cluster),
+      maxTokens: 128,
+      timeoutMs
+    });
+    return parseSimilarityResponse(parsed);
+  } catch (err) {
+    logInfo("Observer: cluster similarity check failed", {
+      eventId: event.id,
+      clusterId: cluster.id,
+      error: err instanceof Error ? err.message : "unknown"
+    });
+    return null;
+  }
+}
+
+// ── Clusterer ──
+
+export class AlertClusterer {
+  private readonly open: Array<{ cluster: AlertCluster; entries: ClusterEntry[] }> = [];
+  private readonly recent: AlertCluster[] = [];
+
+  constructor(private readonly options: AlertClustererOptions) {}
+
+  /** Hold an event, joining a related open cluster or starting a new one. */
+  async add(
+    entry: Omit<ClusterEntry, "signals">,
+    now = Date.now()
+  ): Promise<AlertCluster> {
+    const { event, rule } = entry;
+    const repoSlug = event.repoSlug ?? rule.repoSlug ?? "";
+    const signals = extractClusterSignals(event);
+    const held: ClusterEntry = { ...entry, signals };
+
+    const candidates = repoSlug
+      ? this.open
+          .filter(({ cluster, entries }) =>
+            cluster.repoSlug === repoSlug &&
+            cluster.ruleId === rule.id &&
+            entries.length < MAX_CLUSTER_SIZE &&
+            now - Date.parse(cluster.createdAt) < this.options.windowMs)
+          .reverse()
+      : [];
+
+    for (const candidate of candidates) {
+      const overlap = candidate.entries
+        .map((existing) => findSignalOverlap(signals, existing.signals))
+        .find(Boolean);
+      if (overlap) return this.join(candidate, held, overlap, now);
+    }
+
+    if (this.options.similarity) {
+      for (const candidate of candidates.slice(0, MAX_SIMILARITY_CHECKS)) {
+        const verdict = await this.options.similarity(event, candidate.cluster);
+        if (verdict?.sameRootCause && verdict.confidence >= MIN_SIMILARITY_CONFIDENCE) {
+          return this.join(candidate, held, `LLM: ${verdict.reason || "same root cause"}`, now);
+        }
+      }
+    }
+
+    const cluster: AlertCluster = {
+      id: randomUUID(),
+      repoSlug,
+      ruleId: rule.id,
+      status: "open",
+      members: [toMember(held, "first alert", now)],
+      createdAt: new Date(now).toISOString()
+    };
+    this.open.push({ cluster, entries: [held] });
+    return cluster;
+  }
+
+  /**
+   * Whether an open cluster holds an event with this dedup key. Held events
+   * are only marked in the dedup store at launch, so a crash loses nothing.
+   */
+  isHeld(dedupKey: string): boolean {
+    return this.open.some(({ entries }) => entries.some((entry) => buildDedupKey(entry.event) === dedupKey));
+  }
+
+  /** Remove and return clusters whose window has closed (all of them with `all`). */
+  takeReady(now = Date.now(), all = false): ReadyCluster[] {
+    const ready: ReadyCluster[] = [];
+    for (let i = this.open.length - 1; i >= 0; i--) {
+      const pending = this.open[i]!;
+      if (all || now - Date.parse(pending.cluster.createdAt) >= this.options.windowMs) {
+        this.open.splice(i, 1);
+        ready.unshift(pending);
+      }
+    }
+    return ready;
+  }
+
+  /** Record how a taken cluster ended, for the dashboard. */
+  markLaunched(cluster: AlertCluster, runId: string | undefined, now = Date.now()): void {
+    cluster.status = runId ? "launched" : "failed";
+    cluster.runId = runId;
+    this.retire(cluster, now);
+  }
+
+  /** Record a taken cluster that a spend budget stopped at launch. */
+  markDenied(cluster: AlertCluster, now = Date.now()): void {
+    cluster.status = "denied";
+    this.retire(cluster, now);
+  }
+
+  /** Open clusters first, then recently launched ones (newest first). */
+  list(): AlertCluster[] {
+    return [
+      ...this.open.map(({ cluster }) => cluster).reverse(),
+      ...[...this.recent].reverse()
+    ];
+  }
+
+  private join(
+    target: { cluster: AlertCluster; entries: ClusterEntry[] },
+    entry: ClusterEntry,
+    reason: string,
+    now: number
+  ): AlertCluster {
+    target.entries.push(entry);
+    target.cluster.members.push(toMember(entry, reason, now));
+    return target.cluster;
+  }
+
+  private retire(cluster: AlertCluster, now: number): void {
+    cluster.launchedAt = new Date(now).toISOString();
+    this.recent.push(cluster);
+    if (this.recent.length > MAX_RECENT_CLUSTERS) {
+      this.recent.splice(0, this.recent.length - MAX_RECENT_CLUSTERS);
+    }
+  }
+}
+
+function toMember(entry: ClusterEntry, reason: string, now: number): AlertClusterMember {
+  return {
+    eventId: entry.event.id,
+    source: entry.event.source,
+    priority: entry.event.priority,
+    ruleId: entry.rule.id,
+    summary: truncate(firstLine(buildTask(entry.event, entry.rule)), 200),
+    reason,
+    joinedAt: new Date(now).toISOString()
+  };
+}
+
+// ── Run composition ──
+
+/** Task for a multi-alert cluster: every grouped alert, then one instruction. */
+export function buildClusterTask(cluster: AlertCluster, entries: ClusterEntry[]): string {
+  const lines = [
+    `Fix ${String(entries.length)} related alerts${cluster.repoSlug ? ` in ${cluster.repoSlug}` : ""} that likely share one root cause.`,
+    ""
+  ];
+  entries.slice(0, MAX_TASK_ALERTS).forEach((entry, i) => {
+    const detail = buildTask(entry.event, entry.rule)
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .slice(0, 3)
+      .map((line) => truncate(line, 200));
+    lines.push(`${String(i + 1)}. [${entry.event.source}] ${detail[0] ?? entry.event.id}`);
+    for (const extra of detail.slice(1)) lines.push(`   ${extra}`);
+  });
+  if (entries.length > MAX_TASK_ALERTS) {
+    lines.push(`… and ${String(entries.length - MAX_TASK_ALERTS)} more`);
+  }
+  lines.push("", "Find the shared cause and fix it once; the fix should resolve every alert above.");
+  return lines.join("\n");
+}
+
+/**
+ * The event a cluster runs as: the first alert, with the highest member
+ * priority and the combined task. Single-alert clusters run unchanged.
+ */
+export function composeClusterEvent(cluster: AlertCluster, entries: ClusterEntry[]): TriggerEvent {
+  const leader = entries[0]!.event;
+  if (entries.length === 1) return leader;
+  const priority = entries
+    .map((entry) => entry.event.priority)
+    .reduce((max, p) => (PRIORITY_ORDER.indexOf(p) > PRIORITY_ORDER.indexOf(max) ? p : max), leader.priority);
+  return { ...leader, priority, suggestedTask: buildClusterTask(cluster, entries) };
+}
+
+function firstLine(text: string): string {
+  return text.split("\n").find((line) => line.trim())?.trim() ?? text;
+}
+
+function truncate(str: string, maxLen: number): string {
+  if (str.length <= maxLen) return str;
+  return `${str.slice(0, maxLen - 3)}...`;
+}
@@ -3,14 +3,17 @@
  * and re-evaluates them periodically, triggering runs when system capacity allows.
  *
  * Conservative by design: one trigger per evaluation cycle, respects all safety limits.
+ * With a queue store the queue is written through to Postgres and reloaded on startup.
  */
 
+import { randomUUID } from "node:crypto";
 import { logInfo, logWarn } from "../logger.js";
 import type { TriggerEvent, TriggerRule, TriggerPriority } from "./types.js";
 
 // ── Types ──
 
 export interface DeferredEvent {
+  id: string;
   event: TriggerEvent;
   rule: TriggerRule;
   deferredAt: string;       // ISO timestamp
@@ -31,6 +34,13 @@ export interface SchedulerHandle {
   stop(): void;
 }
 
+/** Persistence for the deferred queue (see DeferredEventStore). */
+export interface DeferredQueueStore {
+  list(): Promise<DeferredEvent[]>;
+  save(entries: DeferredEvent[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
 export interface SchedulerSlotChecker {
   /** Returns true if there's capacity for another run */
   hasCapacity(): Promise<boolean>;
@@ -69,6 +79,13 @@ export function computePriority(base: number, deferredAt: string, now: number):
   return Math.min(100, base + ageBonus);
 }
 
+function sortQueue(queue: DeferredEvent[]): void {
+  queue.sort((a, b) => {
+    if (b.priority !== a.priority) return b.priority - a.priority;
+    return new Date(a.deferredAt).getTime() - new Date(b.deferredAt).getTime();
+  });
+}
+
 // ── Evaluation logic (exported for direct testing) ──
 
 /**
@@ -122,10 +139,7 @@ export async function evaluateQueue(
   }
 
   // 3. Sort: highest priority first, then oldest first (stable tiebreak)
-  queue.sort((a, b) => {
-    if (b.priority !== a.priority) return b.priority - a.priority;
-    return new Date(a.deferredAt).getTime() - new Date(b.deferredAt).getTime();
-  });
+  sortQueue(queue);
 
   // 4. Check capacity
   if (!(await slotChecker.hasCapacity())) {
@@ -168,14 +182,24 @@ export async function evaluateQueue(
  *
  * Maintains a priority queue of deferred events.
  * Periodically re-evaluates the queue and triggers runs when capacity allows.
+ * When a store is given, call load() once before relying on the queue.
  */
 export function startAutonomousScheduler(
   config: SchedulerConfig,
   slotChecker: SchedulerSlotChecker,
-  onTrigger: (event: TriggerEvent, rule: TriggerRule) => void
+  onTrigger: (event: TriggerEvent, rule: TriggerRule) => void,
+  store?: DeferredQueueStore
 ): SchedulerHandle & {
+  /** Restore the persisted queue */
+  load(): Promise<void>;
   /** Add a deferred event to the queue */
   defer(event: TriggerEvent, rule: TriggerRule, reason: string): void;
+  /** Trigger a deferred event now, skipping the capacity check */
+  promote(id: string): Promise<DeferredEvent | undefined>;
+  /** Change a deferred event's priority */
+  reprioritize(id: string, priority: TriggerPriority): Promise<DeferredEvent | undefined>;
+  /** Remove a deferred event without triggering it */
+  drop(id: string): Promise<DeferredEvent | undefined>;
   /** Get current queue state */
   getQueue(): DeferredEvent[];
   /** Get queue stats */
@@ -189,9 +213,49 @@ export function startAutonomousScheduler(
     totalDropped: 0
   };
 
+  // Writes are chained so a slow save can never land after a later remove
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  function persist(save: DeferredEvent[], remove: string[]): Promise<void> {
+    if (!store || (save.length === 0 && remove.length === 0)) return pendingWrite;
+    const entries = save.map((entry) => ({ ...entry }));
+    pendingWrite = pendingWrite
+      .then(async () => {
+        await store.remove(remove);
+        await store.save(entries);
+      })
+      .catch((err) => {
+        logWarn("Autonomous scheduler: failed to persist deferred queue", {
+          error: err instanceof Error ? err.message : String(err)
+        });
+      });
+    return pendingWrite;
+  }
+
+  function takeEntry(id: string): DeferredEvent | undefined {
+    const index = queue.findIndex((entry) => entry.id === id);
+    if (index === -1) return undefined;
+    const [entry] = queue.splice(index, 1);
+    stats.queueSize = queue.length;
+    return entry;
+  }
+
+  async function load(): Promise<void> {
+    if (!store) return;
+    const known = new Set(queue.map((entry) => entry.id));
+    const entries = (await store.list()).filter((entry) => !known.has(entry.id));
+    queue.push(...entries);
+    sortQueue(queue);
+    stats.queueSize = queue.length;
+    if (entries.length > 0) {
+      logInfo("Autonomous scheduler: restored deferred queue", { queueSize: entries.length });
+    }
+  }
+
   function defer(event: TriggerEvent, rule: TriggerRule, reason: string): void {
     const priority = basePriority(event.priority);
     const entry: DeferredEvent = {
+      id: randomUUID(),
       event,
       rule,
       deferredAt: new Date().toISOString(),
@@ -204,14 +268,13 @@ export function startAutonomousScheduler(
     stats.totalDeferred += 1;
 
     // Sort by priority (highest first), then age (oldest first)
-    queue.sort((a, b) => {
-      if (b.priority !== a.priority) return b.priority - a.priority;
-      return new Date(a.deferredAt).getTime() - new Date(b.deferredAt).getTime();
-    });
+    sortQueue(queue);
 
     // Trim if over maxDeferredEvents — drop lowest priority (last in sorted queue)
+    const trimmed: string[] = [];
     while (queue.length > config.maxDeferredEvents) {
       const dropped = queue.pop()!;
+      trimmed.push(dropped.id);
       stats.totalDropped += 1;
       logWarn("Autonomous scheduler: queue full, dropping lowest priority event", {
         droppedEventId: dropped.event.id,
@@ -221,6 +284,7 @@ export function startAutonomousScheduler(
     }
 
     stats.queueSize = queue.length;
+    void persist(trimmed.includes(entry.id) ? [] : [entry], trimmed.filter((id) => id !== entry.id));
 
     logInfo("Autonomous scheduler: event deferred", {
       eventId: event.id,
@@ -230,10 +294,44 @@ export function startAutonomousScheduler(
     });
   }
 
+  async function promote(id: string): Promise<DeferredEvent | undefined> {
+    const entry = takeEntry(id);
+    if (!entry) return undefined;
+    stats.totalTriggered += 1;
+    await persist([], [entry.id]);
+    logInfo("Autonomous scheduler: deferred event promoted by hand", { eventId: entry.event.id });
+    onTrigger(entry.event, entry.rule);
+    return entry;
+  }
+
+  async function reprioritize(id: string, priority: TriggerPriority): Promise<DeferredEvent | undefined> {
+    const entry = queue.find((candidate) => candidate.id === id);
+    if (!entry) return undefined;
+    // evaluateQueue rescores from event.priority, so the change has to live there
+    entry.event = { ...entry.event, priority };
+    entry.priority = computePriority(basePriority(priority), entry.deferredAt, Date.now());
+    sortQueue(queue);
+    await persist([entry], []);
+    return { ...entry };
+  }
+
+  async function drop(id: string): Promise<DeferredEvent | undefined> {
+    const entry = takeEntry(id);
+    if (!entry) return undefined;
+    stats.totalDropped += 1;
+    await persist([], [entry.id]);
+    logInfo("Autonomous scheduler: deferred event dropped by hand", { eventId: entry.event.id });
+    return entry;
+  }
+
   async function runEvaluation(): Promise<void> {
+    const before = new Set(queue.map((entry) => entry.id));
     const triggered = await evaluateQueue(queue, config, slotChecker, stats, Date.now());
     stats.queueSize = queue.length;
 
+    const remaining = new Set(queue.map((entry) => entry.id));
+    void persist(queue, [...before].filter((id) => !remaining.has(id)));
+
     if (triggered) {
       onTrigger(triggered.event, triggered.rule);
     }
@@ -246,7 +344,11 @@ export function startAutonomousScheduler(
     stop() {
       clearInterval(interval);
     },
+    load,
     defer,
+    promote,
+    reprioritize,
+    drop,
     getQueue(): DeferredEvent[] {
       return [...queue];
     },
@@ -0,0 +1,205 @@
+/**
+ * Rule backtesting — replay journaled events through a candidate rule set.
+ *
+ * Uses the same matching (trigger-rules.ts) and safety checks (safety.ts) as
+ * the live daemon, against simulated dedup / rate-limit / budget / cooldown
+ * state rebuilt from the replayed events themselves. Nothing is enqueued.
+ *
+ * Smart triage cannot be re-run offline; by default the recorded triage
+ * decision for an event is honoured (discard, defer and escalate all block).
+ */
+
+import type { JournaledEvent } from "./event-journal.js";
+import { buildDedupKey, getDedupTtl, runSafetyChecks } from "./safety.js";
+import { matchTriggerRule } from "./trigger-rules.js";
+import type { SafetyCheck, TriggerRule } from "./types.js";
+
+export interface BacktestOptions {
+  maxDaily: number;
+  maxPerRepo: number;
+  repoAllowlist: string[];
+  /** Minutes a simulated run takes before its cooldown starts (default 30) */
+  assumedRunMinutes?: number;
+  /** Honour recorded smart-triage decisions (default true) */
+  replayTriage?: boolean;
+}
+
+/** Real runs per rule over the backtest window (from LearningStore). */
+export interface RuleOutcomeCounts {
+  runs: number;
+  succeeded: number;
+}
+
+export interface RuleBacktestResult {
+  ruleId: string;
+  /** False for rules that only appear in the real history */
+  inCandidateSet: boolean;
+  matched: number;
+  wouldTrigger: number;
+  /** Subset of wouldTrigger that would have waited for approval */
+  approvalRequired: number;
+  blockedByTriage: number;
+  denied: Partial<Record<SafetyCheck, number>>;
+  actual: {
+    /** Events the live observer triggered (or sent for approval) for this rule */
+    triggered: number;
+    runs: number;
+    succeeded: number;
+  };
+  /** wouldTrigger minus actual.triggered */
+  delta: number;
+}
+
+export interface BacktestReport {
+  from: string;
+  to: string;
+  eventCount: number;
+  unmatched: number;
+  wouldTrigger: number;
+  actualTriggered: number;
+  rules: RuleBacktestResult[];
+  /** Set when the window held more events than a backtest replays; only the newest were replayed */
+  truncated?: boolean;
+}
+
+interface SimulatedDedup {
+  seenAt: number;
+  ttlMs: number;
+  completedAt: number;
+}
+
+const DEFAULT_ASSUMED_RUN_MINUTES = 30;
+
+function emptyResult(ruleId: string, inCandidateSet: boolean): RuleBacktestResult {
+  return {
+    ruleId,
+    inCandidateSet,
+    matched: 0,
+    wouldTrigger: 0,
+    approvalRequired: 0,
+    blockedByTriage: 0,
+    denied: {},
+    actual: { triggered: 0, runs: 0, succeeded: 0 },
+    delta: 0
+  };
+}
+
+/**
+ * Replay `events` (oldest first) through `rules` and compare with what
+ * actually happened.
+ */
+export function backtestRules(
+  events: JournaledEvent[],
+  rules: TriggerRule[],
+  options: BacktestOptions,
+  outcomes: Map<string, RuleOutcomeCounts> = new Map()
+): BacktestReport {
+  const assumedRunMs = (options.assumedRunMinutes ?? DEFAULT_ASSUMED_RUN_MINUTES) * 60_000;
+  const replayTriage = options.replayTriage ?? true;
+
+  const results = new Map<string, RuleBacktestResult>();
+  for (const rule of rules) {
+    results.set(rule.id, emptyResult(rule.id, true));
+  }
+  const resultFor = (ruleId: string): RuleBacktestResult => {
+    let result = results.get(ruleId);
+    if (!result) {
+      result = emptyResult(ruleId, false);
+      results.set(ruleId, result);
+    }
+    return result;
+  };
+
+  const dedup = new Map<string, SimulatedDedup>();
+  const rateEvents = new Map<string, number[]>();
+  const dailyCounts = new Map<string, { total: number; perRepo: Map<string, number> }>();
+  let unmatched = 0;
+
+  for (const entry of events) {
+    if (entry.matchedRuleId && (entry.outcome === "triggered" || entry.outcome === "approval_required")) {
+      resultFor(entry.matchedRuleId).actual.triggered += 1;
+    }
+
+    const event = entry.event;
+    const now = new Date(entry.receivedAt).getTime();
+    const rule = matchTriggerRule(event, rules);
+    if (!rule) {
+      unmatched += 1;
+      continue;
+    }
+    const result = resultFor(rule.id);
+    result.matched += 1;
+
+    if (replayTriage && entry.triage && !rule.skipTriage) {
+      const triage = entry.triage;
+      if ((triage.action === "discard" && triage.confidence > 0.7) || triage.action === "defer" || triage.action === "escalate") {
+        result.blockedByTriage += 1;
+        continue;
+      }
+    }
+
+    // Mirror ObserverStateStore: prune the hour window, expire dedup keys
+    const timestamps = (rateEvents.get(event.source) ?? []).filter(t => now - t <= 60 * 60 * 1000);
+    rateEvents.set(event.source, timestamps);
+    const dedupKey = buildDedupKey(event);
+    const existing = dedup.get(dedupKey);
+    if (existing && (existing.ttlMs === 0 || now - existing.seenAt > existing.ttlMs)) {
+      dedup.delete(dedupKey);
+    }
+    const dedupEntry = dedup.get(dedupKey);
+
+    const day = new Date(now).toISOString().slice(0, 10);
+    let counters = dailyCounts.get(day);
+    if (!counters) {
+      counters = { total: 0, perRepo: new Map() };
+      dailyCounts.set(day, counters);
+    }
+    const repoSlug = event.repoSlug ?? rule.repoSlug ?? "";
+
+    const decision = runSafetyChecks(event, rule, {
+      isDuplicate: dedupEntry !== undefined,
+      rateLimitTimestamps: timestamps,
+      dailyCount: counters.total,
+      repoCount: repoSlug ? counters.perRepo.get(repoSlug) ?? 0 : 0,
+      completedAt: dedupEntry && dedupEntry.completedAt <= now ? dedupEntry.completedAt : undefined,
+      maxDaily: options.maxDaily,
+      maxPerRepo: options.maxPerRepo,
+      repoAllowlist: options.repoAllowlist,
+      now
+    });
+
+    if (decision.action === "deny") {
+      const check = decision.check ?? "dedup";
+      result.denied[check] = (result.denied[check] ?? 0) + 1;
+      continue;
+    }
+
+    result.wouldTrigger += 1;
+    if (rule.requiresApproval) result.approvalRequired += 1;
+    dedup.set(dedupKey, { seenAt: now, ttlMs: getDedupTtl(event.source), completedAt: now + assumedRunMs });
+    timestamps.push(now);
+    counters.total += 1;
+    if (repoSlug) counters.perRepo.set(repoSlug, (counters.perRepo.get(repoSlug) ?? 0) + 1);
+  }
+
+  for (const [ruleId, counts] of outcomes) {
+    const result = resultFor(ruleId);
+    result.actual.runs = counts.runs;
+    result.actual.succeeded = counts.succeeded;
+  }
+
+  const ruleResults = [...results.values()];
+  for (const result of ruleResults) {
+    result.delta = result.wouldTrigger - result.actual.triggered;
+  }
+
+  return {
+    from: events[0]?.receivedAt ?? "",
+    to: events[events.length - 1]?.receivedAt ?? "",
+    eventCount: events.length,
+    unmatched,
+    wouldTrigger: ruleResults.reduce((sum, result) => sum + result.wouldTrigger, 0),
+    actualTriggered: ruleResults.reduce((sum, result) => sum + result.actual.triggered, 0),
+    rules: ruleResults
+  };
+}
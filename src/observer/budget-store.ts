@@ -0,0 +1,58 @@
+/**
+ * Budget spend — observer run counts and recorded cost per team or repo,
+ * read from the runs table. A run counts as an observer run when the observer
+ * enqueued it (`requested_by` = observer:<source>) or when it is linked to an
+ * observer event — approved from Slack or converted from an escalation.
+ */
+
+import { and, eq, exists, gte, like, or, sql } from "drizzle-orm";
+import type { Database } from "../db/index.js";
+import { observerRunLinks, runs } from "../db/schema.js";
+import type { BudgetScope, BudgetSpend } from "./budgets.js";
+
+const FINISHED = sql`${runs.status} in ('completed', 'failed', 'cancelled')`;
+const COST = sql`coalesce((${runs.tokenUsage}->>'costUsd')::float, 0)`;
+
+export class BudgetSpendStore {
+  private readonly db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async getSpend(scope: BudgetScope, name: string, since: Date): Promise<BudgetSpend> {
+    const rows = await this.db
+      .select({
+        spentUsd: sql<number>`coalesce(sum(${COST}) filter (where ${FINISHED}), 0)::float`,
+        runs: sql<number>`count(*)::int`,
+        pendingRuns: sql<number>`(count(*) filter (where not ${FINISHED}))::int`,
+      })
+      .from(runs)
+      .where(this.scopeFilter(scope, name, since));
+    const row = rows[0];
+    return { spentUsd: Number(row?.spentUsd ?? 0), runs: row?.runs ?? 0, pendingRuns: row?.pendingRuns ?? 0 };
+  }
+
+  /** Recorded cost per UTC day, for burn-down charts. */
+  async getDailySpend(scope: BudgetScope, name: string, since: Date): Promise<Array<{ day: string; spentUsd: number }>> {
+    const day = sql<string>`to_char(${runs.createdAt} at time zone 'UTC', 'YYYY-MM-DD')`;
+    const rows = await this.db
+      .select({ day, spentUsd: sql<number>`coalesce(sum(${COST}), 0)::float` })
+      .from(runs)
+      .where(and(this.scopeFilter(scope, name, since), FINISHED))
+      .groupBy(day)
+      .orderBy(day);
+    return rows.map((row) => ({ day: row.day, spentUsd: Number(row.spentUsd) }));
+  }
+
+  private scopeFilter(scope: BudgetScope, name: string, since: Date) {
+    return and(
+      or(
+        like(runs.requestedBy, "observer:%"),
+        exists(this.db.select({ runId: observerRunLinks.runId }).from(observerRunLinks).where(eq(observerRunLinks.runId, runs.id))),
+      ),
+      gte(runs.createdAt, since),
+      scope === "team" ? eq(runs.teamId, name) : eq(runs.repoSlug, name),
+    );
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Observer budgets — USD and run-count caps per team or repo over a day,
+ * week or month. Budgets live in the trigger rules file under `budgets:`.
+ *
+ * Spend is the recorded `tokenUsage.costUsd` of finished observer runs; runs
+ * still in flight are charged at the forecast for the event being checked.
+ * The forecast is the matched rule's historical average cost.
+ */
+
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import type { SafetyDecision } from "./types.js";
+
+export type BudgetScope = "team" | "repo";
+export type BudgetPeriod = "daily" | "weekly" | "monthly";
+
+const BUDGET_SCOPES: BudgetScope[] = ["team", "repo"];
+const BUDGET_PERIODS: BudgetPeriod[] = ["daily", "weekly", "monthly"];
+
+/** Share of a budget at which the Slack alert fires. */
+export const BUDGET_ALERT_RATIO = 0.8;
+
+export interface ObserverBudget {
+  /** `${scope}:${name}` */
+  id: string;
+  scope: BudgetScope;
+  /** Team name from TEAM_CHANNEL_MAP, or owner/repo */
+  name: string;
+  period: BudgetPeriod;
+  maxUsd?: number;
+  maxRuns?: number;
+  /** Slack channel for the 80% alert (default: observer alert channel) */
+  notificationChannel?: string;
+}
+
+/** Observer runs charged to a budget in its current period. */
+export interface BudgetSpend {
+  /** Cost of finished runs */
+  spentUsd: number;
+  /** Every run started in the period, finished or not */
+  runs: number;
+  /** Runs not finished yet, so without a final cost */
+  pendingRuns: number;
+}
+
+export interface BudgetUsage extends BudgetSpend {
+  budget: ObserverBudget;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface BurnDownPoint {
+  /** YYYY-MM-DD */
+  day: string;
+  /** Budget left at the end of the day */
+  remainingUsd: number;
+}
+
+export interface BudgetStatus extends BudgetUsage {
+  /** Highest share used across USD and runs, 0–1+ */
+  usedRatio: number;
+  /** Spend by period end if the current daily rate holds */
+  projectedUsd: number;
+  burnDown: BurnDownPoint[];
+}
+
+export class ObserverBudgetsLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ObserverBudgetsLoadError";
+  }
+}
+
+/**
+ * Load budgets from the trigger rules file. A missing file or section means
+ * no budgets.
+ */
+export async function loadObserverBudgets(yamlPath: string): Promise<ObserverBudget[]> {
+  let raw: string;
+  try {
+    raw = await readFile(yamlPath, "utf8");
+  } catch {
+    return [];
+  }
+  return parseObserverBudgetsYaml(raw);
+}
+
+export function parseObserverBudgetsYaml(raw: string): ObserverBudget[] {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(raw);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "unknown";
+    throw new ObserverBudgetsLoadError(`Invalid YAML in budgets: ${msg}`);
+  }
+  const rawBudgets = parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>)["budgets"] : undefined;
+  if (rawBudgets === undefined || rawBudgets === null) return [];
+  if (!Array.isArray(rawBudgets)) {
+    throw new ObserverBudgetsLoadError("budgets must be an array");
+  }
+
+  const budgets: ObserverBudget[] = [];
+  const seen = new Set<string>();
+  rawBudgets.forEach((entry, i) => {
+    const budget = parseBudget(entry, `budgets[${String(i)}]`);
+    if (seen.has(budget.id)) {
+      throw new ObserverBudgetsLoadError(`budgets[${String(i)}]: duplicate budget for ${budget.id}`);
+    }
+    seen.add(budget.id);
+    budgets.push(budget);
+  });
+  return budgets;
+}
+
+function parseBudget(raw: unknown, label: string): ObserverBudget {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ObserverBudgetsLoadError(`${label}: must be an object`);
+  }
+  const obj = raw as Record<string, unknown>;
+
+  const scope = obj["scope"];
+  if (!BUDGET_SCOPES.includes(scope as BudgetScope)) {
+    throw new ObserverBudgetsLoadError(`${label}: scope must be one of: ${BUDGET_SCOPES.join(", ")}`);
+  }
+  const name = obj["name"];
+  if (typeof name !== "string" || !name.trim()) {
+    throw new ObserverBudgetsLoadError(`${label}: name is required`);
+  }
+  const period = obj["period"] ?? "monthly";
+  if (!BUDGET_PERIODS.includes(period as BudgetPeriod)) {
+    throw new ObserverBudgetsLoadError(`${label}: period must be one of: ${BUDGET_PERIODS.join(", ")}`);
+  }
+  const maxUsd = parseLimit(obj["maxUsd"], `${label}.maxUsd`);
+  const maxRuns = parseLimit(obj["maxRuns"], `${label}.maxRuns`);
+  if (maxUsd === undefined && maxRuns === undefined) {
+    throw new ObserverBudgetsLoadError(`${label}: set maxUsd, maxRuns or both`);
+  }
+  if (maxRuns !== undefined && !Number.isInteger(maxRuns)) {
+    throw new ObserverBudgetsLoadError(`${label}.maxRuns: must be a whole number`);
+  }
+  const channel = obj["notificationChannel"];
+  if (channel !== undefined && typeof channel !== "string") {
+    throw new ObserverBudgetsLoadError(`${label}.notificationChannel: must be a string`);
+  }
+
+  return {
+    id: `${scope as BudgetScope}:${name.trim()}`,
+    scope: scope as BudgetScope,
+    name: name.trim(),
+    period: period as BudgetPeriod,
+    maxUsd,
+    maxRuns,
+    notificationChannel: channel
+  };
+}
+
+function parseLimit(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new ObserverBudgetsLoadError(`${label}: must be a positive number`);
+  }
+  return value;
+}
+
+/** Budgets that cover a run for this team and repo. */
+export function budgetsFor(budgets: ObserverBudget[], target: { teamId?: string; repoSlug?: string }): ObserverBudget[] {
+  return budgets.filter((budget) =>
+    budget.scope === "team" ? budget.name === target.teamId : budget.name === target.repoSlug
+  );
+}
+
+/** UTC bounds of the period containing `now`. Weeks start on Monday. */
+export function budgetPeriodBounds(period: BudgetPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const d = now.getUTCDate();
+  switch (period) {
+    case "daily":
+      return { start: new Date(Date.UTC(y, m, d)), end: new Date(Date.UTC(y, m, d + 1)) };
+    case "weekly": {
+      const sinceMonday = (now.getUTCDay() + 6) % 7;
+      return { start: new Date(Date.UTC(y, m, d - sinceMonday)), end: new Date(Date.UTC(y, m, d - sinceMonday + 7)) };
+    }
+    case "monthly":
+      return { start: new Date(Date.UTC(y, m, 1)), end: new Date(Date.UTC(y, m + 1, 1)) };
+  }
+}
+
+/**
+ * Pre-flight a run costing `forecastUsd` against every budget that covers it.
+ * In-flight runs count at the same forecast until their cost is recorded.
+ */
+export function checkSpendBudgets(usages: BudgetUsage[], forecastUsd: number): SafetyDecision {
+  for (const usage of usages) {
+    const { budget } = usage;
+    const label = `${budget.scope} budget ${budget.name}`;
+    if (budget.maxRuns !== undefined && usage.runs >= budget.maxRuns) {
+      return {
+        action: "deny",
+        reason: `${label} exhausted: ${String(usage.runs)}/${String(budget.maxRuns)} runs ${periodLabel(budget.period)}`,
+        check: "spend_budget"
+      };
+    }
+    if (budget.maxUsd !== undefined) {
+      const committed = usage.spentUsd + usage.pendingRuns * forecastUsd;
+      if (committed + forecastUsd > budget.maxUsd) {
+        return {
+          action: "deny",
+          reason: `${label} would be exceeded: ${formatUsd(committed)} committed + ${formatUsd(forecastUsd)} forecast > ${formatUsd(budget.maxUsd)} ${periodLabel(budget.period)}`,
+          check: "spend_budget"
+        };
+      }
+    }
+  }
+  return { action: "allow", reason: "within spend budgets" };
+}
+
+/** Highest share of the budget used, across USD and run count. */
+export function budgetUsedRatio(usage: BudgetUsage): number {
+  const { budget } = usage;
+  const usd = budget.maxUsd !== undefined ? usage.spentUsd / budget.maxUsd : 0;
+  const runs = budget.maxRuns !== undefined ? usage.runs / budget.maxRuns : 0;
+  return Math.max(usd, runs);
+}
+
+/**
+ * Dashboard view of a budget: used share, spend projected to the period end
+ * from the current daily rate, and the remaining USD per day so far.
+ */
+export function buildBudgetStatus(
+  usage: BudgetUsage,
+  dailySpend: Array<{ day: string; spentUsd: number }>,
+  now: Date = new Date()
+): BudgetStatus {
+  const start = Date.parse(usage.periodStart);
+  const end = Date.parse(usage.periodEnd);
+  const elapsed = Math.min(Math.max(now.getTime() - start, 0), end - start);
+  const projectedUsd = elapsed > 0 ? round((usage.spentUsd * (end - start)) / elapsed) : usage.spentUsd;
+
+  const byDay = new Map(dailySpend.map((entry) => [entry.day, entry.spentUsd]));
+  const burnDown: BurnDownPoint[] = [];
+  let remaining = usage.budget.maxUsd ?? 0;
+  for (let day = start; day < end && day <= now.getTime(); day += 24 * 60 * 60 * 1000) {
+    const key = new Date(day).toISOString().slice(0, 10);
+    remaining -= byDay.get(key) ?? 0;
+    burnDown.push({ day: key, remainingUsd: round(remaining) });
+  }
+
+  return {
+    ...usage,
+    usedRatio: round(budgetUsedRatio(usage)),
+    projectedUsd,
+    burnDown: usage.budget.maxUsd !== undefined ? burnDown : []
+  };
+}
+
+/** Slack text for a budget that crossed the alert threshold. */
+export function formatBudgetAlert(usage: BudgetUsage): string {
+  const { budget } = usage;
+  const parts: string[] = [];
+  if (budget.maxUsd !== undefined) {
+    parts.push(`${formatUsd(usage.spentUsd)} of ${formatUsd(budget.maxUsd)}`);
+  }
+  if (budget.maxRuns !== undefined) {
+    parts.push(`${String(usage.runs)} of ${String(budget.maxRuns)} runs`);
+  }
+  return [
+    `:warning: *Observer ${budget.scope} budget for ${budget.name} is at ${String(Math.round(budgetUsedRatio(usage) * 100))}%*`,
+    `${parts.join(" · ")} ${periodLabel(budget.period)}. New observer runs stop when it runs out.`
+  ].join("\n");
+}
+
+function periodLabel(period: BudgetPeriod): string {
+  return period === "daily" ? "today" : period === "weekly" ? "this week" : "this month";
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -8,47 +8,109 @@
 import path from "node:path";
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { WebClient } from "@slack/web-api";
-import type { AppConfig } from "../config.js";
+import { resolveTeamFromChannel, type AppConfig } from "../config.js";
 import type { RunEnqueuer } from "./run-enqueuer.js";
 import { logError, logInfo, logWarn } from "../logger.js";
-import { loadExtensionAdapters } from "./sources/load-extension-adapters.js";
+import { loadDeclarativeAdapters } from "./sources/declarative-adapter.js";
+import { loadExtensionAdapters, loadExtensionPollers } from "./sources/load-extension-adapters.js";
 import { ObserverStateStore } from "./state-store.js";
 import { LearningStore } from "./learning-store.js";
 import type { Database } from "../db/index.js";
 
 import { loadTriggerRules, matchTriggerRule } from "./trigger-rules.js";
-import { buildDedupKey, getDedupTtl, runSafetyChecks } from "./safety.js";
-import { composeRunInput } from "./run-composer.js";
+import {
+  buildDedupKey,
+  buildRecurrenceKey,
+  checkBudget,
+  checkPerRepoBudget,
+  checkRateLimit,
+  getDedupTtl,
+  runSafetyChecks
+} from "./safety.js";
+import { composeRunInput, resolveRunChannel } from "./run-composer.js";
 import { handleWebhookRequest, startWebhookServer, type OnAdapterPayloadCallback, type OnEventCallback, type OnGitHubWebhookPayloadCallback } from "./webhook-server.js";
 import { registerAdapter } from "./sources/adapter-registry.js";
 import { githubAdapter } from "./sources/github-adapter-wrapper.js";
 import { createSentryAdapter } from "./sources/sentry-adapter-wrapper.js";
 import { jiraWorkItemAdapter } from "./sources/jira-work-item-adapter.js";
-import { pollSentry, type SentryPollerConfig } from "./sources/sentry-poller.js";
-import { pollGitHub, type GitHubPollerConfig } from "./sources/github-poller.js";
+import { createIncidentAdapter } from "./sources/incident-adapter-wrapper.js";
+import { IncidentNoteClient } from "./incident-notes.js";
+import { OutcomeWriteBack, type WriteBackContext } from "./outcome-writeback.js";
+import { RunLinkStore, type ObserverRunLink } from "./run-link-store.js";
+import {
+  BUDGET_ALERT_RATIO,
+  budgetPeriodBounds,
+  budgetUsedRatio,
+  budgetsFor,
+  buildBudgetStatus,
+  checkSpendBudgets,
+  formatBudgetAlert,
+  loadObserverBudgets,
+  type BudgetStatus,
+  type BudgetUsage,
+  type ObserverBudget
+} from "./budgets.js";
+import { BudgetSpendStore } from "./budget-store.js";
+import { createSentryPoller } from "./sources/sentry-poller.js";
+import { createGitHubPoller } from "./sources/github-poller.js";
+import { createJiraPoller } from "./sources/jira-poller.js";
+import { startPollingAdapter, type PollerHandle, type PollingAdapter } from "./sources/polling-adapter.js";
 import { triageEvent } from "./smart-triage.js";
 import { startCronScheduler, type CronSchedulerHandle } from "./sources/cron-adapter.js";
-import { startAutonomousScheduler, type SchedulerSlotChecker, type SchedulerStats } from "./autonomous-scheduler.js";
+import { startAutonomousScheduler, type DeferredEvent, type SchedulerSlotChecker, type SchedulerStats } from "./autonomous-scheduler.js";
+import { DeferredEventStore } from "./deferred-event-store.js";
+import { EscalationInbox, type EscalationActionResult } from "./escalation-inbox.js";
+import { EscalationStore } from "./escalation-store.js";
+import { EventJournalStore, type JournaledEvent } from "./event-journal.js";
+import { backtestRules, type BacktestReport } from "./backtest.js";
+import { AlertClusterer, checkSameRootCause, composeClusterEvent, type AlertCluster, type ReadyCluster } from "./alert-clustering.js";
 import type { LLMCallerConfig } from "../llm/caller.js";
-import type { TriggerEvent, TriggerRule, ObserverEventRecord, ObserverStateSnapshot } from "./types.js";
+import type { GitHubService } from "../github.js";
+import { JiraClient } from "../jira.js";
+import type { RunRecord } from "../types.js";
+import type {
+  EscalationRecord,
+  EscalationStatus,
+  TriggerEvent,
+  TriggerRule,
+  TriggerPriority,
+  ObserverEventRecord,
+  ObserverStateSnapshot,
+  SafetyDecision
+} from "./types.js";
 
 const MAX_PENDING_EVENTS = 1000;
 const MAX_EVENT_HISTORY = 200;
+const JOURNAL_RETENTION_DAYS = 90;
+const JOURNAL_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MAX_BACKTEST_EVENTS = 20_000;
+const MERGE_WATCH_INTERVAL_MS = 10 * 60 * 1000;
+const MAX_MERGE_CHECKS = 100;
 
 export class ObserverDaemon {
   private readonly stateStore: ObserverStateStore;
+  private readonly deferredEventStore: DeferredEventStore;
+  private readonly escalations: EscalationInbox;
   private readonly learningStore: LearningStore;
+  private readonly eventJournal: EventJournalStore;
+  private readonly runLinks: RunLinkStore;
+  private readonly budgetSpend: BudgetSpendStore;
+  private readonly writeBack: OutcomeWriteBack;
+  private readonly githubService?: Pick<GitHubService, "createCheckRun" | "getPullRequest">;
   private readonly onGitHubWebhookPayload?: OnGitHubWebhookPayloadCallback;
   private readonly onAdapterPayload?: OnAdapterPayloadCallback;
   private rules: TriggerRule[] = [];
-  private sentryPoller: NodeJS.Timeout | undefined;
-  private githubPoller: NodeJS.Timeout | undefined;
+  private pollers: PollerHandle[] = [];
   private webhookStop: (() => Promise<void>) | undefined;
   private readonly pendingWebhookEvents: TriggerEvent[] = [];
   private readonly eventHistory: ObserverEventRecord[] = [];
   private processingInterval: NodeJS.Timeout | undefined;
   private cronScheduler: CronSchedulerHandle | undefined;
   private autonomousScheduler: ReturnType<typeof startAutonomousScheduler> | undefined;
+  private alertClusterer: AlertClusterer | undefined;
+  private mergeWatcher: NodeJS.Timeout | undefined;
+  private journalPruner: NodeJS.Timeout | undefined;
+  private budgets: ObserverBudget[] = [];
 
   constructor(
     private readonly config: AppConfig,
@@ -60,12 +122,26 @@ export class ObserverDaemon {
     hooks?: {
       onGitHubWebhookPayload?: OnGitHubWebhookPayloadCallback;
       onAdapterPayload?: OnAdapterPayloadCallback;
+      /** Check runs on failing commits and PR merge status for outcome write-back */
+      githubService?: Pick<GitHubService, "createCheckRun" | "getPullRequest">;
     }
   ) {
     const database = db ?? (learningStore as unknown as { db: Database })?.db;
     if (!database) throw new Error("ObserverDaemon requires a Database instance");
     this.stateStore = new ObserverStateStore(database);
+    this.deferredEventStore = new DeferredEventStore(database);
+    this.escalations = new EscalationInbox(new EscalationStore(database), config, runManager, webClient);
     this.learningStore = learningStore ?? new LearningStore(database);
+    this.eventJournal = new EventJournalStore(database);
+    this.runLinks = new RunLinkStore(database);
+    this.budgetSpend = new BudgetSpendStore(database);
+    this.githubService = hooks?.githubService;
+    this.writeBack = new OutcomeWriteBack({
+      sentryAuthToken: config.sentryAuthToken,
+      webClient,
+      github: hooks?.githubService,
+      incidentNotes: IncidentNoteClient.create(config)
+    });
     this.onGitHubWebhookPayload = hooks?.onGitHubWebhookPayload;
     this.onAdapterPayload = hooks?.onAdapterPayload;
   }
@@ -74,6 +150,7 @@ export class ObserverDaemon {
     // Load persisted state
     await this.stateStore.load();
     await this.learningStore.load();
+    await this.pruneJournal();
 
     // Register learning loop callback — when a run finishes, update dedup + enrich ruleId
     this.runManager.onRunTerminal((runId, status) => {
@@ -86,59 +163,44 @@ export class ObserverDaemon {
           await this.learningStore.enrichOutcome(runId, { ruleId });
           await this.learningStore.flush();
         }
+
+        // The run's cost is final now; warn budgets it pushed past the alert threshold
+        const run = ruleId ? await this.runManager.findRun?.(runId) : undefined;
+        if (run) await this.checkBudgetAlerts({ teamId: run.teamId, repoSlug: run.repoSlug });
       })().catch(() => {});
     });
 
     // Load trigger rules
     this.rules = await loadTriggerRules(this.config.observerRulesFile);
     logInfo("Observer: loaded trigger rules", { count: this.rules.length });
+    this.budgets = await loadObserverBudgets(this.config.observerRulesFile);
+    if (this.budgets.length > 0) {
+      logInfo("Observer: loaded spend budgets", { count: this.budgets.length });
+    }
 
-    // Start Sentry poller (if configured)
-    if (this.config.sentryAuthToken && this.config.sentryOrgSlug && this.config.observerRepoMap.size > 0) {
-      const sentryConfig: SentryPollerConfig = {
-        authToken: this.config.sentryAuthToken,
-        orgSlug: this.config.sentryOrgSlug,
-        repoMap: this.config.observerRepoMap,
-        pollIntervalSeconds: this.config.observerSentryPollIntervalSeconds,
-        alertChannelId: this.config.observerAlertChannelId
-      };
-
-      // Initial poll
-      await this.runSentryPoll(sentryConfig);
-
-      // Recurring poll
-      this.sentryPoller = setInterval(() => {
-        this.runSentryPoll(sentryConfig).catch((err) => {
-          const msg = err instanceof Error ? err.message : "unknown";
-          logError("Observer: Sentry poll error", { error: msg });
-        });
-      }, sentryConfig.pollIntervalSeconds * 1000);
-      this.sentryPoller.unref?.();
-
-      logInfo("Observer: Sentry poller started", {
-        intervalSeconds: sentryConfig.pollIntervalSeconds,
-        projects: Array.from(sentryConfig.repoMap.keys())
+    if (this.config.observerAlertClusteringEnabled) {
+      const llmConfig = this.llmConfig();
+      this.alertClusterer = new AlertClusterer({
+        windowMs: this.config.observerAlertClusterWindowSeconds * 1000,
+        similarity: llmConfig
+          ? (event, cluster) => checkSameRootCause(event, cluster, llmConfig, this.config.observerSmartTriageTimeoutMs)
+          : undefined
       });
+      logInfo("Observer: alert clustering enabled", { windowSeconds: this.config.observerAlertClusterWindowSeconds });
     }
 
-    // Start GitHub Actions poller (if configured)
-    if (this.tokenGetter && this.config.observerGithubWatchedRepos.length > 0) {
-      // Initial poll
-      await this.runGitHubPollWithFreshToken();
-
-      // Recurring poll — resolves a fresh token on each cycle
-      this.githubPoller = setInterval(() => {
-        this.runGitHubPollWithFreshToken().catch((err) => {
-          const msg = err instanceof Error ? err.message : "unknown";
-          logError("Observer: GitHub poll error", { error: msg });
-        });
-      }, this.config.observerGithubPollIntervalSeconds * 1000);
-      this.githubPoller.unref?.();
-
-      logInfo("Observer: GitHub Actions poller started", {
-        intervalSeconds: this.config.observerGithubPollIntervalSeconds,
-        repos: this.config.observerGithubWatchedRepos
-      });
+    // Start pollers for sources without webhooks
+    for (const adapter of await this.buildPollingAdapters()) {
+      this.pollers.push(await startPollingAdapter(adapter, {
+        cursors: this.stateStore,
+        onEvents: async (events) => {
+          for (const event of events) {
+            this.enqueueEvent(event);
+          }
+          // Persist cursor updates
+          await this.stateStore.flush();
+        }
+      }));
     }
 
     // Register built-in webhook adapters
@@ -147,6 +209,16 @@ export class ObserverDaemon {
       registerAdapter(createSentryAdapter(this.config.observerAlertChannelId));
     }
     registerAdapter(jiraWorkItemAdapter);
+    // Incidents can launch runs, so the endpoint only exists once it can be authenticated
+    const incidentAdapter = createIncidentAdapter({
+      alertChannelId: this.config.observerAlertChannelId,
+      serviceRepoMap: this.config.observerIncidentServiceMap
+    });
+    if (this.config.observerWebhookSecrets?.[incidentAdapter.source]) {
+      registerAdapter(incidentAdapter);
+    } else {
+      logInfo("Observer: incident webhooks disabled (no incident secret in OBSERVER_WEBHOOK_SECRETS)");
+    }
 
     // Load extension adapters from extensions/adapters/
     const extensionDir = path.resolve("extensions/adapters");
@@ -158,6 +230,21 @@ export class ObserverDaemon {
       });
     }
 
+    // YAML adapters from the same directory; an invalid file fails startup
+    await loadDeclarativeAdapters(extensionDir, {
+      alertChannelId: this.config.observerAlertChannelId,
+      webhookSecrets: this.config.observerWebhookSecrets ?? {},
+      reservedSources: [
+        githubAdapter.source,
+        "sentry_alert",
+        "slack_observer",
+        "cron",
+        jiraWorkItemAdapter.source,
+        incidentAdapter.source,
+        ...extensionAdapters.map(a => a.source)
+      ]
+    });
+
     // Start dedicated webhook server only when the dashboard server is unavailable.
     const hasGitHubWebhook = Boolean(this.config.observerGithubWebhookSecret);
     const hasSentryWebhook = Boolean(this.config.observerSentryWebhookSecret);
@@ -202,6 +289,23 @@ export class ObserverDaemon {
     }, 5000);
     this.processingInterval.unref?.();
 
+    // Watch open fix PRs so merged fixes are written back and checked for recurrence
+    if (this.config.observerWritebackEnabled && this.githubService) {
+      this.mergeWatcher = setInterval(() => {
+        this.checkMergedFixes().catch((err) => {
+          const msg = err instanceof Error ? err.message : "unknown";
+          logError("Observer: merge watch error", { error: msg });
+        });
+      }, MERGE_WATCH_INTERVAL_MS);
+      this.mergeWatcher.unref?.();
+    }
+
+    // The daemon can run for months; keep the journal at its retention window
+    this.journalPruner = setInterval(() => {
+      void this.pruneJournal();
+    }, JOURNAL_PRUNE_INTERVAL_MS);
+    this.journalPruner.unref?.();
+
     // Start autonomous scheduler (if enabled)
     if (this.config.autonomousSchedulerEnabled) {
       const slotChecker: SchedulerSlotChecker = {
@@ -224,8 +328,15 @@ export class ObserverDaemon {
         (event, rule) => {
           logInfo("Autonomous scheduler: triggering deferred event", { eventId: event.id, ruleId: rule.id });
           this.enqueueEvent(event);
-        }
+        },
+        this.deferredEventStore
       );
+      try {
+        await this.autonomousScheduler.load();
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        logError("Observer: failed to restore deferred events", { error: msg });
+      }
       logInfo("Observer: autonomous scheduler started");
     }
 
@@ -233,20 +344,20 @@ export class ObserverDaemon {
   }
 
   async stop(): Promise<void> {
-    if (this.sentryPoller) {
-      clearInterval(this.sentryPoller);
-      this.sentryPoller = undefined;
-    }
-
-    if (this.githubPoller) {
-      clearInterval(this.githubPoller);
-      this.githubPoller = undefined;
-    }
+    this.stopPollers();
 
     if (this.processingInterval) {
       clearInterval(this.processingInterval);
       this.processingInterval = undefined;
     }
+    if (this.mergeWatcher) {
+      clearInterval(this.mergeWatcher);
+      this.mergeWatcher = undefined;
+    }
+    if (this.journalPruner) {
+      clearInterval(this.journalPruner);
+      this.journalPruner = undefined;
+    }
 
     if (this.cronScheduler) {
       this.cronScheduler.stop();
@@ -263,6 +374,9 @@ export class ObserverDaemon {
       this.webhookStop = undefined;
     }
 
+    // Held alerts are launched now rather than lost
+    await this.launchReadyClusters(true);
+
     // Flush state to disk before exit
     await this.stateStore.flush();
     await this.learningStore.flush();
@@ -278,18 +392,19 @@ export class ObserverDaemon {
     logInfo("Observer: reloading configuration");
 
     // Stop existing pollers and webhook server (preserves state store in memory)
-    if (this.sentryPoller) {
-      clearInterval(this.sentryPoller);
-      this.sentryPoller = undefined;
-    }
-    if (this.githubPoller) {
-      clearInterval(this.githubPoller);
-      this.githubPoller = undefined;
-    }
+    this.stopPollers();
     if (this.processingInterval) {
       clearInterval(this.processingInterval);
       this.processingInterval = undefined;
     }
+    if (this.mergeWatcher) {
+      clearInterval(this.mergeWatcher);
+      this.mergeWatcher = undefined;
+    }
+    if (this.journalPruner) {
+      clearInterval(this.journalPruner);
+      this.journalPruner = undefined;
+    }
     if (this.cronScheduler) {
       this.cronScheduler.stop();
       this.cronScheduler = undefined;
@@ -302,6 +417,8 @@ export class ObserverDaemon {
       await this.webhookStop();
       this.webhookStop = undefined;
     }
+    await this.launchReadyClusters(true);
+    this.alertClusterer = undefined;
 
     // Flush current state before switching config
     await this.stateStore.flush();
@@ -322,7 +439,8 @@ export class ObserverDaemon {
    */
   async reloadRules(): Promise<void> {
     this.rules = await loadTriggerRules(this.config.observerRulesFile);
-    logInfo("Observer: trigger rules reloaded", { count: this.rules.length });
+    this.budgets = await loadObserverBudgets(this.config.observerRulesFile);
+    logInfo("Observer: trigger rules reloaded", { count: this.rules.length, budgets: this.budgets.length });
   }
 
   /**
@@ -369,6 +487,62 @@ export class ObserverDaemon {
     return this.autonomousScheduler?.getStats() ?? { queueSize: 0, totalDeferred: 0, totalTriggered: 0, totalDropped: 0 };
   }
 
+  /** Deferred events waiting for capacity, highest priority first. */
+  listDeferredEvents(): DeferredEvent[] | undefined {
+    return this.autonomousScheduler?.getQueue();
+  }
+
+  /** Trigger a deferred event now. Undefined when the id is unknown. */
+  async promoteDeferredEvent(id: string): Promise<DeferredEvent | undefined> {
+    return this.autonomousScheduler?.promote(id);
+  }
+
+  async reprioritizeDeferredEvent(id: string, priority: TriggerPriority): Promise<DeferredEvent | undefined> {
+    return this.autonomousScheduler?.reprioritize(id, priority);
+  }
+
+  async dropDeferredEvent(id: string): Promise<DeferredEvent | undefined> {
+    return this.autonomousScheduler?.drop(id);
+  }
+
+  // ── Escalation inbox ──
+
+  listEscalations(options?: { status?: EscalationStatus; limit?: number }): Promise<EscalationRecord[]> {
+    return this.escalations.list(options);
+  }
+
+  getEscalation(id: string): Promise<EscalationRecord | undefined> {
+    return this.escalations.get(id);
+  }
+
+  acknowledgeEscalation(id: string, actor: string): Promise<EscalationActionResult> {
+    return this.escalations.acknowledge(id, actor);
+  }
+
+  dismissEscalation(id: string, actor: string, note?: string): Promise<EscalationActionResult> {
+    return this.escalations.dismiss(id, actor, note);
+  }
+
+  /** Queue a run for an escalated event; tracked by the learning loop like any observer run. */
+  async convertEscalation(id: string, actor: string): Promise<EscalationActionResult> {
+    const result = await this.escalations.convertToRun(id, actor);
+    if (result.ok && result.run) {
+      const event = result.escalation.event;
+      const dedupKey = buildDedupKey(event);
+      await this.stateStore.setDedup(dedupKey, getDedupTtl(event.source), result.run.id, result.escalation.ruleId);
+      await this.runLinks.createMany([{
+        runId: result.run.id, event, dedupKey, repoSlug: result.run.repoSlug,
+        channelId: result.run.channelId, threadTs: result.run.threadTs, status: "queued"
+      }]);
+    }
+    return result;
+  }
+
+  /** Open and recently launched alert clusters; undefined when clustering is off. */
+  listAlertClusters(): AlertCluster[] | undefined {
+    return this.alertClusterer?.list();
+  }
+
   /** Get loaded trigger rules. */
   getRules(): TriggerRule[] {
     return [...this.rules];
@@ -384,7 +558,120 @@ export class ObserverDaemon {
     return this.learningStore.getAllRuleLearnings();
   }
 
-  private recordEvent(record: ObserverEventRecord): void {
+  /**
+   * Replay the last `days` of journaled events through `rules` (the loaded
+   * rules by default) and compare with real outcomes. Nothing is enqueued.
+   */
+  async backtest(options: { days: number; rules?: TriggerRule[] }): Promise<BacktestReport> {
+    let since = new Date(Date.now() - options.days * 24 * 60 * 60 * 1000);
+    // One extra row tells whether the window held more events than are replayed
+    const events = await this.eventJournal.listSince(since, MAX_BACKTEST_EVENTS + 1);
+    const truncated = events.length > MAX_BACKTEST_EVENTS;
+    if (truncated) {
+      events.shift();
+      // Compare against real outcomes over the replayed span only
+      since = new Date(events[0]!.receivedAt);
+    }
+    const outcomes = await this.learningStore.getRuleOutcomeCounts(since);
+    const report = backtestRules(events, options.rules ?? this.rules, {
+      maxDaily: this.config.observerMaxRunsPerDay,
+      maxPerRepo: this.config.observerMaxRunsPerRepoPerDay,
+      repoAllowlist: this.config.repoAllowlist
+    }, outcomes);
+    return truncated ? { ...report, truncated } : report;
+  }
+
+  private async pruneJournal(): Promise<void> {
+    await this.eventJournal
+      .pruneBefore(new Date(Date.now() - JOURNAL_RETENTION_DAYS * 24 * 60 * 60 * 1000))
+      .catch((err: unknown) => {
+        logWarn("Observer: failed to prune event journal", { error: err instanceof Error ? err.message : "unknown" });
+      });
+  }
+
+  /**
+   * Current usage of each spend budget, with projected period-end spend and
+   * burn-down. Undefined when no budgets are configured.
+   */
+  async getBudgetStatus(): Promise<BudgetStatus[] | undefined> {
+    if (this.budgets.length === 0) return undefined;
+    const now = new Date();
+    return Promise.all((await this.budgetUsages(this.budgets, now)).map(async (usage) => {
+      const daily = await this.budgetSpend.getDailySpend(usage.budget.scope, usage.budget.name, new Date(usage.periodStart));
+      return buildBudgetStatus(usage, daily, now);
+    }));
+  }
+
+  /** Re-check the source rate limit and the daily caps against the current counters. */
+  private async checkLaunchLimits(source: TriggerEvent["source"], repoSlug: string): Promise<SafetyDecision> {
+    await this.stateStore.pruneRateLimitEvents(source, 60 * 60 * 1000);
+    const rate = checkRateLimit(source, await this.stateStore.getRateLimitEvents(source));
+    if (rate.action === "deny") return { ...rate, check: "rate_limit" };
+    const daily = checkBudget(await this.stateStore.getDailyCount(), this.config.observerMaxRunsPerDay);
+    if (daily.action === "deny") return { ...daily, check: "budget" };
+    if (repoSlug) {
+      const perRepo = checkPerRepoBudget(
+        repoSlug,
+        await this.stateStore.getDailyPerRepoCount(repoSlug),
+        this.config.observerMaxRunsPerRepoPerDay
+      );
+      if (perRepo.action === "deny") return { ...perRepo, check: "repo_budget" };
+    }
+    return { action: "allow", reason: "within rate limits and daily budgets" };
+  }
+
+  /** Pre-flight a rule's next run against the team and repo budgets it falls under. */
+  private async checkSpendBudgets(rule: TriggerRule, repoSlug: string): Promise<SafetyDecision> {
+    const teamId = resolveTeamFromChannel(resolveRunChannel(rule, this.config), this.config.teamChannelMap);
+    const covering = budgetsFor(this.budgets, { teamId, repoSlug });
+    if (covering.length === 0) return { action: "allow", reason: "no spend budgets" };
+
+    const forecast = await this.learningStore.getRuleCostForecast(rule.id);
+    const forecastUsd = forecast && forecast.avgCostUsd > 0 ? forecast.avgCostUsd : this.config.observerBudgetDefaultRunCostUsd;
+    return checkSpendBudgets(await this.budgetUsages(covering), forecastUsd);
+  }
+
+  private async budgetUsages(budgets: ObserverBudget[], now: Date = new Date()): Promise<BudgetUsage[]> {
+    return Promise.all(budgets.map(async (budget) => {
+      const { start, end } = budgetPeriodBounds(budget.period, now);
+      const spend = await this.budgetSpend.getSpend(budget.scope, budget.name, start);
+      return { budget, periodStart: start.toISOString(), periodEnd: end.toISOString(), ...spend };
+    }));
+  }
+
+  /** Post once per period when a budget reaches BUDGET_ALERT_RATIO. */
+  private async checkBudgetAlerts(target: { teamId?: string; repoSlug?: string }): Promise<void> {
+    const covering = budgetsFor(this.budgets, target);
+    if (covering.length === 0 || !this.webClient) return;
+    for (const usage of await this.budgetUsages(covering)) {
+      if (budgetUsedRatio(usage) < BUDGET_ALERT_RATIO) continue;
+      const alertKey = `budget-alert:${usage.budget.id}:${usage.periodStart}`;
+      if (await this.stateStore.hasDedup(alertKey)) continue;
+      await this.stateStore.setDedup(alertKey, Date.parse(usage.periodEnd) - Date.now());
+      await this.webClient.chat.postMessage({
+        channel: usage.budget.notificationChannel ?? this.config.observerAlertChannelId,
+        text: formatBudgetAlert(usage)
+      });
+      logWarn("Observer: spend budget alert", { budget: usage.budget.id, usedRatio: budgetUsedRatio(usage) });
+    }
+  }
+
+  /** Smart-triage LLM settings, shared by alert clustering. Undefined without an API key. */
+  private llmConfig(): LLMCallerConfig | undefined {
+    if (!this.config.openrouterApiKey) return undefined;
+    return {
+      apiKey: this.config.openrouterApiKey,
+      defaultModel: this.config.observerSmartTriageModel,
+      defaultTimeoutMs: this.config.observerSmartTriageTimeoutMs,
+      providerPreferences: this.config.openrouterProviderPreferences
+    };
+  }
+
+  private recordEvent(record: ObserverEventRecord, journal: JournaledEvent): void {
+    journal.outcome = record.outcome;
+    journal.reason = record.reason;
+    journal.matchedRuleId = record.matchedRuleId;
+    journal.runId = record.runId;
     this.eventHistory.push(record);
     if (this.eventHistory.length > MAX_EVENT_HISTORY) {
       this.eventHistory.splice(0, this.eventHistory.length - MAX_EVENT_HISTORY);
@@ -392,55 +679,183 @@ export class ObserverDaemon {
   }
 
 
-  private async runSentryPoll(sentryConfig: SentryPollerConfig): Promise<void> {
-    const events = await pollSentry(sentryConfig, this.stateStore);
-    for (const event of events) {
-      this.enqueueEvent(event);
+  /**
+   * Record the run's links to its outcome, then write the outcome back to each
+   * source. Runs approved in Slack are matched to their links by thread.
+   */
+  async handleRunFinished(run: RunRecord): Promise<void> {
+    if (!this.config.observerWritebackEnabled) return;
+    let links = await this.runLinks.listForRun(run.id);
+    if (links.length === 0 && run.channelId && run.threadTs) {
+      links = await this.runLinks.claimForThread(run.id, run.channelId, run.threadTs);
+    }
+    if (links.length === 0) return;
+
+    const status = run.status !== "completed" ? "failed" : run.prUrl ? "pr_open" : "completed";
+    await this.runLinks.updateForRun(run.id, { status, prUrl: run.prUrl, prNumber: run.prNumber });
+    await this.writeBackLinks(links, {
+      stage: "finished", runId: run.id, status: run.status, run, prUrl: run.prUrl, dashboardUrl: this.dashboardUrl()
+    });
+  }
+
+  /** Mark open fix PRs merged or closed; merged fixes are written back to their sources. */
+  private async checkMergedFixes(): Promise<void> {
+    if (!this.githubService) return;
+    const byRun = new Map<string, ObserverRunLink[]>();
+    for (const link of await this.runLinks.listByStatus("pr_open", MAX_MERGE_CHECKS)) {
+      if (!link.runId) continue;
+      byRun.set(link.runId, [...(byRun.get(link.runId) ?? []), link]);
     }
-    if (events.length > 0) {
-      logInfo("Observer: Sentry poll produced events", { count: events.length });
+
+    for (const [runId, links] of byRun) {
+      const { repoSlug, prNumber, prUrl } = links[0]!;
+      if (!repoSlug || !prNumber) continue;
+      const pr = await this.githubService.getPullRequest(repoSlug, prNumber);
+      if (pr.merged) {
+        await this.runLinks.updateForRun(runId, { status: "merged", mergedAt: new Date() });
+        logInfo("Observer: auto-fix PR merged", { runId, prUrl });
+        await this.writeBackLinks(links, { stage: "merged", runId, prUrl, dashboardUrl: this.dashboardUrl() });
+      } else if (pr.state === "closed") {
+        await this.runLinks.updateForRun(runId, { status: "closed" });
+      }
     }
-    // Flush state after poll (cursor updates)
-    await this.stateStore.flush();
   }
 
-  private async runGitHubPollWithFreshToken(): Promise<void> {
-    const token = await this.tokenGetter!();
-    const ghConfig: GitHubPollerConfig = {
-      githubToken: token,
-      watchedRepos: this.config.observerGithubWatchedRepos,
-      pollIntervalSeconds: this.config.observerGithubPollIntervalSeconds,
-      alertChannelId: this.config.observerAlertChannelId
-    };
-    await this.runGitHubPoll(ghConfig);
+  /** Flag an event whose recurrence key already had a fix merged, and reopen it at the source. */
+  private async checkRecurrence(event: TriggerEvent): Promise<void> {
+    const links = await this.runLinks.findMergedByRecurrenceKey(buildRecurrenceKey(event));
+    if (links.length === 0) return;
+    await this.runLinks.markRecurred(links.map((link) => link.id), event.id);
+
+    const { runId, prUrl, dedupKey } = links[0]!;
+    logWarn("Observer: alert recurred after its fix merged", { eventId: event.id, dedupKey, runId, prUrl });
+    await this.writeBackLinks(links, {
+      stage: "recurred", runId: runId ?? "", prUrl, recurrence: event, dashboardUrl: this.dashboardUrl()
+    });
+
+    if (this.webClient && this.config.observerAlertChannelId) {
+      await this.webClient.chat.postMessage({
+        channel: this.config.observerAlertChannelId,
+        text: [
+          `:repeat: *Alert recurred after its fix merged*`,
+          `*Dedup key:* \`${dedupKey}\`${prUrl ? ` | *Fix:* ${prUrl}` : ""}${runId ? ` | *Run:* \`${runId.slice(0, 8)}\`` : ""}`,
+          `*New event:* ${event.id} (${event.source})`
+        ].join("\n")
+      });
+    }
   }
 
-  private async runGitHubPoll(ghConfig: GitHubPollerConfig): Promise<void> {
-    const events = await pollGitHub(ghConfig, this.stateStore);
-    for (const event of events) {
-      this.enqueueEvent(event);
+  private async writeBackLinks(links: ObserverRunLink[], context: WriteBackContext): Promise<void> {
+    for (const link of links) {
+      try {
+        const target = await this.writeBack.writeBack(link, context);
+        if (target) {
+          logInfo("Observer: wrote run outcome back to source", { runId: context.runId, stage: context.stage, target });
+        }
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        logError("Observer: outcome write-back failed", {
+          runId: context.runId, stage: context.stage, source: link.event.source, error: msg
+        });
+      }
+    }
+  }
+
+  private dashboardUrl(): string | undefined {
+    return this.config.dashboardEnabled
+      ? this.config.dashboardPublicUrl ?? `http://${this.config.dashboardHost}:${String(this.config.dashboardPort)}`
+      : undefined;
+  }
+
+  /** Built-in pollers whose source is configured, plus extension pollers. */
+  private async buildPollingAdapters(): Promise<PollingAdapter[]> {
+    const adapters: PollingAdapter[] = [];
+    if (this.config.sentryAuthToken && this.config.sentryOrgSlug && this.config.observerRepoMap.size > 0) {
+      adapters.push(createSentryPoller({
+        authToken: this.config.sentryAuthToken,
+        orgSlug: this.config.sentryOrgSlug,
+        repoMap: this.config.observerRepoMap,
+        pollIntervalSeconds: this.config.observerSentryPollIntervalSeconds,
+        alertChannelId: this.config.observerAlertChannelId
+      }));
     }
-    if (events.length > 0) {
-      logInfo("Observer: GitHub poll produced events", { count: events.length });
+    if (this.tokenGetter && this.config.observerGithubWatchedRepos.length > 0) {
+      adapters.push(createGitHubPoller({
+        getToken: this.tokenGetter,
+        watchedRepos: this.config.observerGithubWatchedRepos,
+        pollIntervalSeconds: this.config.observerGithubPollIntervalSeconds,
+        alertChannelId: this.config.observerAlertChannelId
+      }));
     }
-    await this.stateStore.flush();
+    const jiraJql = this.config.observerJiraJql;
+    const jiraClient = jiraJql ? JiraClient.create(this.config) : undefined;
+    if (jiraJql && jiraClient) {
+      adapters.push(createJiraPoller({
+        client: jiraClient,
+        jql: jiraJql,
+        repoMap: this.config.observerJiraRepoMap,
+        pollIntervalSeconds: this.config.observerJiraPollIntervalSeconds,
+        alertChannelId: this.config.observerAlertChannelId
+      }));
+    }
+    const extensionPollers = await loadExtensionPollers(path.resolve("extensions/adapters"), {
+      reservedIds: ["sentry", "github", "jira"]
+    });
+    return [...adapters, ...extensionPollers];
+  }
+
+  private stopPollers(): void {
+    for (const poller of this.pollers) {
+      poller.stop();
+    }
+    this.pollers = [];
   }
 
   private async processPendingEvents(): Promise<void> {
     // Drain the queue
     const events = this.pendingWebhookEvents.splice(0);
-    if (events.length === 0) return;
 
     for (const event of events) {
       await this.processEvent(event);
     }
+    const launched = await this.launchReadyClusters();
+    if (events.length === 0 && launched === 0) return;
 
     // Flush state after processing batch
     await this.stateStore.flush();
   }
 
+  /** Evaluate one event and journal what happened to it, even on failure. */
   private async processEvent(event: TriggerEvent): Promise<void> {
     const now = new Date().toISOString();
+    // Shallow copy: triage only reassigns top-level fields on `event`
+    const journal: JournaledEvent = { event: { ...event }, receivedAt: now, outcome: "error", reason: "Processing failed" };
+    let held = false;
+    try {
+      held = await this.evaluateEvent(event, journal, now);
+    } finally {
+      // Held events are journaled once their cluster launches
+      if (!held) await this.journalEvent(journal);
+    }
+  }
+
+  private async journalEvent(journal: JournaledEvent): Promise<void> {
+    await this.eventJournal.record(journal).catch((err: unknown) => {
+      const msg = err instanceof Error ? err.message : "unknown";
+      logError("Observer: failed to journal event", { eventId: journal.event.id, error: msg });
+    });
+  }
+
+  /** Returns true when the event is held in an alert cluster. */
+  private async evaluateEvent(event: TriggerEvent, journal: JournaledEvent, now: string): Promise<boolean> {
+
+    // 0. Recurrence of an alert whose fix already merged
+    if (this.config.observerWritebackEnabled) {
+      await this.checkRecurrence(event).catch((err: unknown) => {
+        const msg = err instanceof Error ? err.message : "unknown";
+        logError("Observer: recurrence check failed", { eventId: event.id, error: msg });
+      });
+    }
 
     // 1. Match against trigger rules
     const rule = matchTriggerRule(event, this.rules);
@@ -449,18 +864,13 @@ export class ObserverDaemon {
       this.recordEvent({
         eventId: event.id, source: event.source, timestamp: event.timestamp,
         repoSlug: event.repoSlug, outcome: "no_match", reason: "No matching rule", processedAt: now
-      });
-      return;
+      }, journal);
+      return false;
     }
 
     // 1b. Smart triage (optional LLM-based event classification)
     if (this.config.observerSmartTriageEnabled && this.config.openrouterApiKey) {
-      const llmConfig: LLMCallerConfig = {
-        apiKey: this.config.openrouterApiKey,
-        defaultModel: this.config.observerSmartTriageModel,
-        defaultTimeoutMs: this.config.observerSmartTriageTimeoutMs,
-        providerPreferences: this.config.openrouterProviderPreferences
-      };
+      const llmConfig = this.llmConfig()!;
       const learningSummary = await this.learningStore.getTriageSummary(rule.id);
       const triageDecision = await triageEvent(
         event, rule, this.rules, llmConfig,
@@ -468,13 +878,19 @@ export class ObserverDaemon {
         learningSummary || undefined
       );
       if (triageDecision) {
+        journal.triage = triageDecision;
         if (triageDecision.action === "discard" && triageDecision.confidence > 0.7) {
           logInfo("Observer: smart triage discarded event", {
             eventId: event.id,
             reason: triageDecision.reason,
             confidence: triageDecision.confidence
           });
-          return;
+          this.recordEvent({
+            eventId: event.id, source: event.source, timestamp: event.timestamp,
+            repoSlug: event.repoSlug, matchedRuleId: rule.id,
+            outcome: "discarded", reason: triageDecision.reason, processedAt: now
+          }, journal);
+          return false;
         }
         if (triageDecision.action === "defer") {
           logInfo("Observer: smart triage deferred event", {
@@ -485,7 +901,12 @@ export class ObserverDaemon {
           if (this.autonomousScheduler) {
             this.autonomousScheduler.defer(event, rule, triageDecision.reason);
           }
-          return;
+          this.recordEvent({
+            eventId: event.id, source: event.source, timestamp: event.timestamp,
+            repoSlug: event.repoSlug, matchedRuleId: rule.id,
+            outcome: "deferred", reason: triageDecision.reason, processedAt: now
+          }, journal);
+          return false;
         }
         if (triageDecision.action === "escalate") {
           logInfo("Observer: smart triage escalated event (requires human review)", {
@@ -493,7 +914,19 @@ export class ObserverDaemon {
             reason: triageDecision.reason,
             confidence: triageDecision.confidence
           });
-          return; // Escalated events require human intervention, not auto-triggering
+          // Escalated events require human intervention, not auto-triggering
+          try {
+            await this.escalations.escalate(event, rule, triageDecision);
+          } catch (err) {
+            const msg = err instanceof Error ? err.message : "unknown";
+            logError("Observer: failed to record escalation", { eventId: event.id, error: msg });
+          }
+          this.recordEvent({
+            eventId: event.id, source: event.source, timestamp: event.timestamp,
+            repoSlug: event.repoSlug, matchedRuleId: rule.id,
+            outcome: "escalated", reason: triageDecision.reason, processedAt: now
+          }, journal);
+          return false;
         }
         // Apply refined task if triage provided one
         if (triageDecision.task && triageDecision.action === "trigger") {
@@ -520,9 +953,9 @@ export class ObserverDaemon {
     await this.stateStore.pruneRateLimitEvents(event.source, 60 * 60 * 1000);
 
     // Check dedup first (hasDedup may delete expired entries), then fetch entry for cooldown
-    const isDuplicate = await this.stateStore.hasDedup(dedupKey);
+    const isDuplicate = await this.stateStore.hasDedup(dedupKey) || (this.alertClusterer?.isHeld(dedupKey) ?? false);
     const dedupEntry = await this.stateStore.getDedupEntry(dedupKey);
-    const decision = runSafetyChecks(event, rule, {
+    let decision = runSafetyChecks(event, rule, {
       isDuplicate,
       rateLimitTimestamps: await this.stateStore.getRateLimitEvents(event.source),
       dailyCount: await this.stateStore.getDailyCount(),
@@ -532,6 +965,10 @@ export class ObserverDaemon {
       maxPerRepo: this.config.observerMaxRunsPerRepoPerDay,
       repoAllowlist: this.config.repoAllowlist
     });
+    if (decision.action === "allow") {
+      decision = await this.checkSpendBudgets(rule, repoSlug);
+    }
+    journal.safety = decision;
 
     if (decision.action === "deny") {
       logInfo("Observer: event denied by safety pipeline", {
@@ -542,68 +979,180 @@ export class ObserverDaemon {
         eventId: event.id, source: event.source, timestamp: event.timestamp,
         repoSlug: event.repoSlug, matchedRuleId: rule.id,
         outcome: "denied", reason: decision.reason, processedAt: now
+      }, journal);
+      return false;
+    }
+
+    // 3. Alert clustering: hold the event so related alerts share one run
+    if (this.alertClusterer) {
+      const record: ObserverEventRecord = {
+        eventId: event.id, source: event.source, timestamp: event.timestamp,
+        repoSlug: event.repoSlug, matchedRuleId: rule.id,
+        outcome: "clustered", reason: "Held for alert clustering", processedAt: now
+      };
+      const cluster = await this.alertClusterer.add({ event, rule, journal, record });
+      record.clusterId = cluster.id;
+      this.recordEvent(record, journal);
+      logInfo("Observer: event held in alert cluster", {
+        eventId: event.id, clusterId: cluster.id, size: cluster.members.length
       });
-      return;
+      return true;
     }
 
-    // 3. Compose NewRunInput (posts seed Slack message for threadTs)
     try {
-      const runInput = await composeRunInput(event, rule, this.config, this.webClient);
+      const launched = await this.launchRun(event, rule, [event], repoSlug);
+      this.recordEvent({
+        eventId: event.id, source: event.source, timestamp: event.timestamp,
+        repoSlug: event.repoSlug, matchedRuleId: rule.id,
+        outcome: launched.outcome, reason: launched.reason, runId: launched.runId, processedAt: now
+      }, journal);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      logError("Observer: failed to compose/enqueue run", {
+        eventId: event.id,
+        error: msg
+      });
+      journal.matchedRuleId = rule.id;
+      journal.reason = `Failed to compose/enqueue run: ${msg}`;
+    }
+    return false;
+  }
 
-      // 4. Approval gate (if rule requires it and Slack is available)
-      if (rule.requiresApproval && this.webClient) {
-        logInfo("Observer: event requires approval, posting for review", {
-          eventId: event.id,
-          ruleId: rule.id
-        });
-        await this.postApprovalRequest(event, rule, runInput);
-        // Record dedup and rate limit, increment daily counters
-        await this.stateStore.setDedup(dedupKey, getDedupTtl(event.source));
-        await this.stateStore.addRateLimitEvent(event.source, Date.now());
-        if (repoSlug) {
-          await this.stateStore.incrementDailyCount(repoSlug);
-        }
-        this.recordEvent({
-          eventId: event.id, source: event.source, timestamp: event.timestamp,
-          repoSlug: event.repoSlug, matchedRuleId: rule.id,
-          outcome: "approval_required", reason: "Rule requires approval", processedAt: now
-        });
-        return;
-      }
-      if (rule.requiresApproval && !this.webClient) {
-        logWarn("Observer: approval required but Slack not configured — auto-approving", {
-          ruleId: rule.id, eventId: event.id
-        });
+  /**
+   * Compose the run for an allowed event, then post it for approval or
+   * enqueue it. Each of `sources` has its dedup key marked and is linked to
+   * the run for outcome write-back.
+   */
+  private async launchRun(
+    event: TriggerEvent,
+    rule: TriggerRule,
+    sources: TriggerEvent[],
+    repoSlug: string
+  ): Promise<{ outcome: "triggered" | "approval_required"; reason: string; runId?: string }> {
+    // Compose NewRunInput (posts seed Slack message for threadTs)
+    const runInput = await composeRunInput(event, rule, this.config, this.webClient);
+    const dedupKeys = sources.map((source) => buildDedupKey(source));
+    const links = (runId?: string) => sources.map((source, i) => ({
+      runId,
+      event: source,
+      dedupKey: dedupKeys[i]!,
+      repoSlug: runInput.repoSlug,
+      channelId: runInput.channelId,
+      threadTs: runInput.threadTs,
+      status: runId ? "queued" as const : "awaiting_approval" as const
+    }));
+
+    // Approval gate (if rule requires it and Slack is available)
+    if (rule.requiresApproval && this.webClient) {
+      logInfo("Observer: event requires approval, posting for review", {
+        eventId: event.id,
+        ruleId: rule.id
+      });
+      await this.postApprovalRequest(event, rule, runInput);
+      // Record dedup and rate limit, increment daily counters
+      for (const key of dedupKeys) {
+        await this.stateStore.setDedup(key, getDedupTtl(event.source));
       }
-
-      // 5. Enqueue the run
-      const record = await this.runManager.enqueueRun(runInput);
-
-      // Update state (include ruleId for learning loop outcome tracking)
-      await this.stateStore.setDedup(dedupKey, getDedupTtl(event.source), record.id, rule.id);
       await this.stateStore.addRateLimitEvent(event.source, Date.now());
       if (repoSlug) {
         await this.stateStore.incrementDailyCount(repoSlug);
       }
-
-      this.recordEvent({
-        eventId: event.id, source: event.source, timestamp: event.timestamp,
-        repoSlug: event.repoSlug, matchedRuleId: rule.id,
-        outcome: "triggered", reason: "Run enqueued", runId: record.id, processedAt: now
+      await this.runLinks.createMany(links());
+      return { outcome: "approval_required", reason: "Rule requires approval" };
+    }
+    if (rule.requiresApproval && !this.webClient) {
+      logWarn("Observer: approval required but Slack not configured — auto-approving", {
+        ruleId: rule.id, eventId: event.id
       });
+    }
 
-      logInfo("Observer: run enqueued", {
-        eventId: event.id,
-        runId: record.id,
-        ruleId: rule.id,
-        repoSlug: runInput.repoSlug
+    // Enqueue the run
+    const record = await this.runManager.enqueueRun(runInput);
+
+    // Update state (include ruleId for learning loop outcome tracking)
+    for (const key of dedupKeys) {
+      await this.stateStore.setDedup(key, getDedupTtl(event.source), record.id, rule.id);
+    }
+    await this.stateStore.addRateLimitEvent(event.source, Date.now());
+    if (repoSlug) {
+      await this.stateStore.incrementDailyCount(repoSlug);
+    }
+    await this.runLinks.createMany(links(record.id));
+    await this.checkBudgetAlerts({ teamId: runInput.teamId, repoSlug: runInput.repoSlug }).catch((err: unknown) => {
+      const msg = err instanceof Error ? err.message : "unknown";
+      logError("Observer: budget alert check failed", { runId: record.id, error: msg });
+    });
+
+    logInfo("Observer: run enqueued", {
+      eventId: event.id,
+      runId: record.id,
+      ruleId: rule.id,
+      repoSlug: runInput.repoSlug
+    });
+    return { outcome: "triggered", reason: "Run enqueued", runId: record.id };
+  }
+
+  /** Launch clusters whose window closed (all held clusters with `all`). Returns how many. */
+  private async launchReadyClusters(all = false): Promise<number> {
+    if (!this.alertClusterer) return 0;
+    const ready = this.alertClusterer.takeReady(Date.now(), all);
+    for (const pending of ready) {
+      await this.launchCluster(pending);
+    }
+    return ready.length;
+  }
+
+  private async launchCluster({ cluster, entries }: ReadyCluster): Promise<void> {
+    const leader = entries[0]!;
+    const event = composeClusterEvent(cluster, entries);
+    // The combined task replaces a rule-level task override
+    const rule = entries.length > 1 ? { ...leader.rule, task: undefined } : leader.rule;
+    const repoSlug = cluster.repoSlug;
+    let runId: string | undefined;
+
+    // Held events counted toward no limit, and other runs may have launched meanwhile
+    let decision = await this.checkLaunchLimits(event.source, repoSlug);
+    if (decision.action === "allow") {
+      decision = await this.checkSpendBudgets(rule, repoSlug);
+    }
+    if (decision.action === "deny") {
+      logInfo("Observer: alert cluster denied at launch", { clusterId: cluster.id, reason: decision.reason });
+      for (const entry of entries) {
+        Object.assign(entry.record, { outcome: "denied", reason: decision.reason });
+        Object.assign(entry.journal, { outcome: "denied", reason: decision.reason, safety: decision });
+      }
+      this.alertClusterer?.markDenied(cluster);
+      for (const entry of entries) {
+        await this.journalEvent(entry.journal);
+      }
+      return;
+    }
+
+    try {
+      const launched = await this.launchRun(event, rule, entries.map((entry) => entry.event), repoSlug);
+      runId = launched.runId;
+      entries.forEach((entry, i) => {
+        const reason = i === 0
+          ? `${launched.reason} for ${String(entries.length)} clustered alert(s)`
+          : `Grouped with ${leader.event.id}${launched.runId ? ` into run ${launched.runId.slice(0, 8)}` : ""}`;
+        const outcome = i === 0 ? launched.outcome : "clustered";
+        Object.assign(entry.record, { outcome, reason, runId: launched.runId });
+        Object.assign(entry.journal, { outcome, reason, runId: launched.runId });
+      });
+      logInfo("Observer: alert cluster launched", {
+        clusterId: cluster.id, size: entries.length, runId: launched.runId, outcome: launched.outcome
       });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "unknown";
-      logError("Observer: failed to compose/enqueue run", {
-        eventId: event.id,
-        error: msg
-      });
+      logError("Observer: failed to launch alert cluster", { clusterId: cluster.id, error: msg });
+      for (const entry of entries) {
+        entry.record.reason = `Cluster launch failed: ${msg}`;
+        Object.assign(entry.journal, { outcome: "error", reason: `Failed to compose/enqueue run: ${msg}` });
+      }
+    }
+    this.alertClusterer?.markLaunched(cluster, runId);
+    for (const entry of entries) {
+      await this.journalEvent(entry.journal);
     }
   }
 
@@ -0,0 +1,67 @@
+/**
+ * Deferred event store — persists the autonomous scheduler's queue to PostgreSQL
+ * so deferred events survive a restart.
+ */
+
+import { inArray } from "drizzle-orm";
+import type { Database } from "../db/index.js";
+import { observerDeferredEvents } from "../db/schema.js";
+import type { DeferredEvent } from "./autonomous-scheduler.js";
+
+type DeferredEventRow = typeof observerDeferredEvents.$inferSelect;
+
+function rowToDeferredEvent(row: DeferredEventRow): DeferredEvent {
+  return {
+    id: row.id,
+    event: row.event,
+    rule: row.rule,
+    deferredAt: row.deferredAt.toISOString(),
+    reason: row.reason,
+    priority: row.priority,
+    retryCount: row.retryCount,
+  };
+}
+
+export class DeferredEventStore {
+  private readonly db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async list(): Promise<DeferredEvent[]> {
+    const rows = await this.db
+      .select()
+      .from(observerDeferredEvents)
+      .orderBy(observerDeferredEvents.deferredAt);
+    return rows.map(rowToDeferredEvent);
+  }
+
+  /** Insert or update entries (priority and retry count change every cycle). */
+  async save(entries: DeferredEvent[]): Promise<void> {
+    for (const entry of entries) {
+      const values = {
+        id: entry.id,
+        eventId: entry.event.id,
+        event: entry.event,
+        rule: entry.rule,
+        reason: entry.reason,
+        priority: entry.priority,
+        retryCount: entry.retryCount,
+        deferredAt: new Date(entry.deferredAt),
+      };
+      await this.db
+        .insert(observerDeferredEvents)
+        .values(values)
+        .onConflictDoUpdate({
+          target: observerDeferredEvents.id,
+          set: { event: values.event, priority: values.priority, retryCount: values.retryCount },
+        });
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.delete(observerDeferredEvents).where(inArray(observerDeferredEvents.id, ids));
+  }
+}
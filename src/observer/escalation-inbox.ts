@@ -0,0 +1,255 @@
+/**
+ * Escalation inbox — smart-triage `escalate` decisions land here instead of
+ * being dropped.
+ *
+ * Each escalation is stored with its triage reason and confidence, paged to the
+ * rule's notificationChannel (falling back to the observer alert channel) with
+ * Acknowledge / Convert to run / Dismiss buttons, and listed in the dashboard.
+ * Every state change is appended to the escalation's audit trail.
+ */
+
+import type { Block, Button, KnownBlock } from "@slack/types";
+import type { WebClient } from "@slack/web-api";
+import type { AppConfig } from "../config.js";
+import { logError, logInfo } from "../logger.js";
+import type { RunRecord } from "../types.js";
+import type { EscalationStore } from "./escalation-store.js";
+import { buildTask, composeRunInput } from "./run-composer.js";
+import type { RunEnqueuer } from "./run-enqueuer.js";
+import type { EscalationRecord, EscalationStatus, ObserverDecision, TriggerEvent, TriggerRule } from "./types.js";
+
+export type EscalationActionResult =
+  | { ok: true; escalation: EscalationRecord; run?: RunRecord }
+  | { ok: false; error: string };
+
+/** Storage the inbox needs (EscalationStore in production). */
+export type EscalationRecordStore = Pick<EscalationStore, "create" | "get" | "list" | "setSlackMessage" | "setRun" | "transition">;
+
+const CLOSED_STATUSES: EscalationStatus[] = ["converted", "dismissed"];
+
+const STATUS_LABELS: Record<EscalationStatus, string> = {
+  open: "🚨 Open",
+  acknowledged: "👀 Acknowledged",
+  converted: "🚀 Converted to run",
+  dismissed: "🗑️ Dismissed"
+};
+
+/** Audit actor for a Slack user; rendered back as a mention. */
+export function slackEscalationActor(userId: string): string {
+  return `slack:${userId}`;
+}
+
+function formatActor(actor: string): string {
+  return actor.startsWith("slack:") ? `<@${actor.slice("slack:".length)}>` : actor;
+}
+
+/** Slack text for an escalation page. */
+export function formatEscalationText(escalation: EscalationRecord): string {
+  const task = buildTask(escalation.event, escalation.rule);
+  const lines = [
+    `🚨 *Observer escalation — needs a human*`,
+    `*Source:* ${escalation.source} | *Rule:* ${escalation.ruleId}`,
+    escalation.repoSlug ? `*Repo:* \`${escalation.repoSlug}\`` : undefined,
+    `*Priority:* ${escalation.priority} | *Triage confidence:* ${String(Math.round(escalation.confidence * 100))}%`,
+    `*Why:* ${escalation.reason}`,
+    `*Task:* ${task.length > 200 ? `${task.slice(0, 197)}...` : task}`,
+    `*Status:* ${STATUS_LABELS[escalation.status]}`
+  ];
+  const last = escalation.audit[escalation.audit.length - 1];
+  if (last && last.action !== "escalated") {
+    lines.push(`_${last.action} by ${formatActor(last.actor)}${last.runId ? ` (run ${last.runId.slice(0, 8)})` : ""}_`);
+  }
+  return lines.filter(Boolean).join("\n");
+}
+
+/** Section plus the action buttons still valid for the escalation's status. */
+export function buildEscalationBlocks(escalation: EscalationRecord): Array<KnownBlock | Block> {
+  const blocks: Array<KnownBlock | Block> = [
+    { type: "section", text: { type: "mrkdwn", text: formatEscalationText(escalation) } }
+  ];
+  if (CLOSED_STATUSES.includes(escalation.status)) {
+    return blocks;
+  }
+  const elements: Button[] = [];
+  if (escalation.status === "open") {
+    elements.push({
+      type: "button",
+      action_id: "observer_escalation_ack",
+      text: { type: "plain_text", text: "Acknowledge", emoji: true },
+      value: escalation.id
+    });
+  }
+  elements.push(
+    {
+      type: "button",
+      action_id: "observer_escalation_convert",
+      text: { type: "plain_text", text: "Convert to run", emoji: true },
+      style: "primary",
+      value: escalation.id
+    },
+    {
+      type: "button",
+      action_id: "observer_escalation_dismiss",
+      text: { type: "plain_text", text: "Dismiss", emoji: true },
+      style: "danger",
+      value: escalation.id
+    }
+  );
+  blocks.push({ type: "actions", elements });
+  return blocks;
+}
+
+export class EscalationInbox {
+  constructor(
+    private readonly store: EscalationRecordStore,
+    private readonly config: AppConfig,
+    private readonly runManager: RunEnqueuer,
+    private readonly webClient?: WebClient
+  ) {}
+
+  /** Record an escalation and page the rule's channel. */
+  async escalate(event: TriggerEvent, rule: TriggerRule, decision: ObserverDecision): Promise<EscalationRecord> {
+    const escalation = await this.store.create({
+      event,
+      rule,
+      reason: decision.reason,
+      confidence: decision.confidence
+    });
+
+    const channelId = rule.notificationChannel ?? this.config.observerAlertChannelId;
+    if (this.webClient && channelId) {
+      try {
+        const response = await this.webClient.chat.postMessage({
+          channel: channelId,
+          text: formatEscalationText(escalation),
+          blocks: buildEscalationBlocks(escalation)
+        });
+        if (response.ts) {
+          await this.store.setSlackMessage(escalation.id, channelId, response.ts);
+          escalation.slackChannelId = channelId;
+          escalation.slackMessageTs = response.ts;
+        }
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        logError("Observer: failed to page escalation", { escalationId: escalation.id, error: msg });
+      }
+    }
+
+    logInfo("Observer: escalation recorded", { escalationId: escalation.id, eventId: event.id, ruleId: rule.id });
+    return escalation;
+  }
+
+  list(options?: { status?: EscalationStatus; limit?: number }): Promise<EscalationRecord[]> {
+    return this.store.list(options);
+  }
+
+  get(id: string): Promise<EscalationRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  async acknowledge(id: string, actor: string): Promise<EscalationActionResult> {
+    const current = await this.store.get(id);
+    if (!current) return { ok: false, error: `Escalation not found: ${id}` };
+    if (current.status !== "open") {
+      return { ok: false, error: `Escalation is already ${current.status}` };
+    }
+    return this.applyTransition(current, "acknowledged", { action: "acknowledged", actor, at: new Date().toISOString() });
+  }
+
+  async dismiss(id: string, actor: string, note?: string): Promise<EscalationActionResult> {
+    const current = await this.store.get(id);
+    if (!current) return { ok: false, error: `Escalation not found: ${id}` };
+    if (CLOSED_STATUSES.includes(current.status)) {
+      return { ok: false, error: `Escalation is already ${current.status}` };
+    }
+    return this.applyTransition(current, "dismissed", {
+      action: "dismissed",
+      actor,
+      at: new Date().toISOString(),
+      ...(note ? { note } : {})
+    });
+  }
+
+  /**
+   * Queue a run for the escalated event. A human made the call, so the
+   * observer safety pipeline is not consulted (same as observer approvals).
+   */
+  async convertToRun(id: string, actor: string): Promise<EscalationActionResult> {
+    const current = await this.store.get(id);
+    if (!current) return { ok: false, error: `Escalation not found: ${id}` };
+    if (CLOSED_STATUSES.includes(current.status)) {
+      return { ok: false, error: `Escalation is already ${current.status}` };
+    }
+
+    if (!current.event.repoSlug && !current.rule.repoSlug) {
+      return { ok: false, error: "Escalated event has no repo; set repoSlug on the rule before converting" };
+    }
+
+    // Claim the conversion before queueing so a second decision cannot queue a second run
+    const claimed = await this.store.transition(current.id, current.status, {
+      action: "converted",
+      actor,
+      at: new Date().toISOString()
+    }, "converted");
+    if (!claimed) {
+      return { ok: false, error: "Escalation was updated by someone else; reload and try again" };
+    }
+
+    let run: RunRecord;
+    try {
+      // Thread the run under the escalation page when there is one
+      const paged = current.slackChannelId && current.slackMessageTs;
+      const runInput = await composeRunInput(current.event, current.rule, this.config, paged ? undefined : this.webClient);
+      if (paged) {
+        runInput.channelId = current.slackChannelId!;
+        runInput.threadTs = current.slackMessageTs!;
+      }
+      run = await this.runManager.enqueueRun({ ...runInput, requestedBy: actor });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      logError("Observer: escalation conversion failed", { escalationId: current.id, error: msg });
+      // Reopen so the escalation can be converted again
+      await this.store.transition(current.id, "converted", {
+        action: "reopened",
+        actor: "observer",
+        at: new Date().toISOString(),
+        note: `Run could not be queued: ${msg}`
+      }, current.status);
+      return { ok: false, error: `Run could not be queued: ${msg}` };
+    }
+
+    const updated = await this.store.setRun(current.id, run.id) ?? { ...claimed, runId: run.id };
+    await this.refreshSlackMessage(updated);
+    logInfo("Observer: escalation updated", { escalationId: updated.id, status: "converted", actor, runId: run.id });
+    return { ok: true, escalation: updated, run };
+  }
+
+  private async applyTransition(
+    current: EscalationRecord,
+    status: EscalationStatus,
+    entry: EscalationRecord["audit"][number]
+  ): Promise<EscalationActionResult> {
+    const updated = await this.store.transition(current.id, current.status, entry, status);
+    if (!updated) {
+      return { ok: false, error: "Escalation was updated by someone else; reload and try again" };
+    }
+    await this.refreshSlackMessage(updated);
+    logInfo("Observer: escalation updated", { escalationId: updated.id, status, actor: entry.actor });
+    return { ok: true, escalation: updated };
+  }
+
+  private async refreshSlackMessage(escalation: EscalationRecord): Promise<void> {
+    if (!this.webClient || !escalation.slackChannelId || !escalation.slackMessageTs) return;
+    try {
+      await this.webClient.chat.update({
+        channel: escalation.slackChannelId,
+        ts: escalation.slackMessageTs,
+        text: formatEscalationText(escalation),
+        blocks: buildEscalationBlocks(escalation)
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      logError("Observer: failed to update escalation message", { escalationId: escalation.id, error: msg });
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Escalation store — persists smart-triage escalations and their audit trail.
+ */
+
+import { randomUUID } from "node:crypto";
+import { and, desc, eq } from "drizzle-orm";
+import type { Database } from "../db/index.js";
+import { observerEscalations } from "../db/schema.js";
+import type {
+  EscalationAuditEntry,
+  EscalationRecord,
+  EscalationStatus,
+  TriggerEvent,
+  TriggerPriority,
+  TriggerRule,
+} from "./types.js";
+
+type EscalationRow = typeof observerEscalations.$inferSelect;
+
+export interface NewEscalationInput {
+  event: TriggerEvent;
+  rule: TriggerRule;
+  reason: string;
+  confidence: number;
+}
+
+function rowToRecord(row: EscalationRow): EscalationRecord {
+  return {
+    id: row.id,
+    eventId: row.eventId,
+    source: row.source,
+    ruleId: row.ruleId,
+    repoSlug: row.repoSlug ?? undefined,
+    priority: row.priority as TriggerPriority,
+    reason: row.reason,
+    confidence: row.confidence,
+    status: row.status as EscalationStatus,
+    event: row.event,
+    rule: row.rule,
+    slackChannelId: row.slackChannelId ?? undefined,
+    slackMessageTs: row.slackMessageTs ?? undefined,
+    runId: row.runId ?? undefined,
+    audit: row.audit,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export class EscalationStore {
+  private readonly db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async create(input: NewEscalationInput): Promise<EscalationRecord> {
+    const now = new Date();
+    const audit: EscalationAuditEntry[] = [
+      { action: "escalated", actor: "observer", at: now.toISOString(), note: input.reason },
+    ];
+    const rows = await this.db
+      .insert(observerEscalations)
+      .values({
+        id: randomUUID(),
+        eventId: input.event.id,
+        source: input.event.source,
+        ruleId: input.rule.id,
+        repoSlug: input.event.repoSlug ?? input.rule.repoSlug ?? null,
+        priority: input.event.priority,
+        reason: input.reason,
+        confidence: input.confidence,
+        status: "open",
+        event: input.event,
+        rule: input.rule,
+        audit,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    return rowToRecord(rows[0]!);
+  }
+
+  async get(id: string): Promise<EscalationRecord | undefined> {
+    const rows = await this.db
+      .select()
+      .from(observerEscalations)
+      .where(eq(observerEscalations.id, id));
+    return rows[0] ? rowToRecord(rows[0]) : undefined;
+  }
+
+  /** Newest first, optionally filtered by status. */
+  async list(options: { status?: EscalationStatus; limit?: number } = {}): Promise<EscalationRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(observerEscalations)
+      .where(options.status ? eq(observerEscalations.status, options.status) : undefined)
+      .orderBy(desc(observerEscalations.createdAt))
+      .limit(options.limit ?? 50);
+    return rows.map(rowToRecord);
+  }
+
+  async setSlackMessage(id: string, channelId: string, messageTs: string): Promise<void> {
+    await this.db
+      .update(observerEscalations)
+      .set({ slackChannelId: channelId, slackMessageTs: messageTs })
+      .where(eq(observerEscalations.id, id));
+  }
+
+  /**
+   * Move an escalation to a new status and append the audit entry.
+   * The status guard makes concurrent decisions (Slack + dashboard) first-wins.
+   */
+  async transition(
+    id: string,
+    from: EscalationStatus,
+    entry: EscalationAuditEntry,
+    status: EscalationStatus,
+  ): Promise<EscalationRecord | undefined> {
+    const current = await this.get(id);
+    if (!current || current.status !== from) return undefined;
+    const rows = await this.db
+      .update(observerEscalations)
+      .set({
+        status,
+        audit: [...current.audit, entry],
+        runId: entry.runId ?? current.runId ?? null,
+        updatedAt: new Date(entry.at),
+      })
+      .where(and(eq(observerEscalations.id, id), eq(observerEscalations.status, from)))
+      .returning();
+    return rows[0] ? rowToRecord(rows[0]) : undefined;
+  }
+
+  /** Record the run a conversion queued, on the record and its "converted" audit entry. */
+  async setRun(id: string, runId: string): Promise<EscalationRecord | undefined> {
+    const current = await this.get(id);
+    if (!current) return undefined;
+    const audit = [...current.audit];
+    const index = audit.map((entry) => entry.action).lastIndexOf("converted");
+    if (index >= 0) audit[index] = { ...audit[index]!, runId };
+    const rows = await this.db
+      .update(observerEscalations)
+      .set({ runId, audit })
+      .where(eq(observerEscalations.id, id))
+      .returning();
+    return rows[0] ? rowToRecord(rows[0]) : undefined;
+  }
+}
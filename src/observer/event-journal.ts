@@ -0,0 +1,76 @@
+/**
+ * Event journal — every TriggerEvent the observer processed, with the rule it
+ * matched, the smart-triage decision, the safety decision and the final outcome.
+ *
+ * Feeds rule backtesting (see backtest.ts).
+ */
+
+import { desc, gte, lt } from "drizzle-orm";
+import type { Database } from "../db/index.js";
+import { observerEventJournal } from "../db/schema.js";
+import type { ObserverDecision, ObserverEventRecord, SafetyDecision, TriggerEvent } from "./types.js";
+
+export type JournalOutcome = ObserverEventRecord["outcome"] | "error";
+
+export interface JournaledEvent {
+  /** The event as received, before triage rewrote task or priority */
+  event: TriggerEvent;
+  receivedAt: string;
+  matchedRuleId?: string;
+  triage?: ObserverDecision;
+  safety?: SafetyDecision;
+  outcome: JournalOutcome;
+  reason: string;
+  runId?: string;
+}
+
+export class EventJournalStore {
+  private readonly db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async record(entry: JournaledEvent): Promise<void> {
+    await this.db.insert(observerEventJournal).values({
+      eventId: entry.event.id,
+      source: entry.event.source,
+      repoSlug: entry.event.repoSlug ?? null,
+      event: entry.event,
+      receivedAt: new Date(entry.receivedAt),
+      matchedRuleId: entry.matchedRuleId ?? null,
+      triage: entry.triage ?? null,
+      safety: entry.safety ?? null,
+      outcome: entry.outcome,
+      reason: entry.reason,
+      runId: entry.runId ?? null,
+    });
+  }
+
+  /**
+   * The newest `limit` events since `since`, returned oldest first so callers
+   * can replay in order.
+   */
+  async listSince(since: Date, limit: number): Promise<JournaledEvent[]> {
+    const rows = await this.db
+      .select()
+      .from(observerEventJournal)
+      .where(gte(observerEventJournal.receivedAt, since))
+      .orderBy(desc(observerEventJournal.receivedAt), desc(observerEventJournal.id))
+      .limit(limit);
+    return rows.reverse().map((row) => ({
+      event: row.event,
+      receivedAt: row.receivedAt.toISOString(),
+      matchedRuleId: row.matchedRuleId ?? undefined,
+      triage: row.triage ?? undefined,
+      safety: row.safety ?? undefined,
+      outcome: row.outcome as JournalOutcome,
+      reason: row.reason,
+      runId: row.runId ?? undefined,
+    }));
+  }
+
+  async pruneBefore(cutoff: Date): Promise<void> {
+    await this.db.delete(observerEventJournal).where(lt(observerEventJournal.receivedAt, cutoff));
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Incident notes — posts observer run outcomes back to the originating
+ * PagerDuty incident or Opsgenie alert.
+ */
+
+import type { AppConfig } from "../config.js";
+import type { RunRecord } from "../types.js";
+import type { IncidentProvider } from "./sources/incident-webhook-adapter.js";
+
+const PAGERDUTY_API_BASE = "https://api.pagerduty.com";
+const DEFAULT_OPSGENIE_API_BASE = "https://api.opsgenie.com";
+const REQUEST_TIMEOUT_MS = 15_000;
+
+interface IncidentNoteClientConfig {
+  pagerdutyApiToken?: string;
+  /** PagerDuty requires the email of a valid user in the From header */
+  pagerdutyFromEmail?: string;
+  opsgenieApiKey?: string;
+  opsgenieApiUrl?: string;
+}
+
+export class IncidentNoteClient {
+  constructor(private readonly config: IncidentNoteClientConfig) {}
+
+  /** Undefined when no incident provider has write-back credentials. */
+  static create(config: AppConfig): IncidentNoteClient | undefined {
+    const client = new IncidentNoteClient({
+      pagerdutyApiToken: config.pagerdutyApiToken,
+      pagerdutyFromEmail: config.pagerdutyFromEmail,
+      opsgenieApiKey: config.opsgenieApiKey,
+      opsgenieApiUrl: config.opsgenieApiUrl
+    });
+    return client.supports("pagerduty") || client.supports("opsgenie") ? client : undefined;
+  }
+
+  supports(provider: IncidentProvider): boolean {
+    if (provider === "pagerduty") {
+      return Boolean(this.config.pagerdutyApiToken && this.config.pagerdutyFromEmail);
+    }
+    return Boolean(this.config.opsgenieApiKey);
+  }
+
+  async addNote(provider: IncidentProvider, incidentId: string, content: string): Promise<void> {
+    if (!this.supports(provider)) {
+      throw new Error(`Incident write-back is not configured for ${provider}`);
+    }
+    const response = provider === "pagerduty"
+      ? await fetch(`${PAGERDUTY_API_BASE}/incidents/${encodeURIComponent(incidentId)}/notes`, {
+          method: "POST",
+          headers: {
+            Accept: "application/vnd.pagerduty+json;version=2",
+            "Content-Type": "application/json",
+            Authorization: `Token token=${this.config.pagerdutyApiToken!}`,
+            From: this.config.pagerdutyFromEmail!
+          },
+          body: JSON.stringify({ note: { content } }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        })
+      : await fetch(`${this.opsgenieBaseUrl}/v2/alerts/${encodeURIComponent(incidentId)}/notes?identifierType=id`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `GenieKey ${this.config.opsgenieApiKey!}`
+          },
+          body: JSON.stringify({ note: content, source: "gooseherd" }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        });
+
+    if (!response.ok) {
+      throw new Error(`${provider} note request failed for ${incidentId}: ${String(response.status)} ${response.statusText}`);
+    }
+  }
+
+  private get opsgenieBaseUrl(): string {
+    return (this.config.opsgenieApiUrl?.trim() || DEFAULT_OPSGENIE_API_BASE).replace(/\/+$/, "");
+  }
+}
+
+/** Note text for a finished observer run. */
+export function formatIncidentRunNote(
+  runId: string,
+  status: string,
+  run?: RunRecord,
+  dashboardUrl?: string
+): string {
+  const outcome = status === "completed" ? "completed" : `finished with status ${status}`;
+  const lines = [`Gooseherd run ${runId.slice(0, 8)} ${outcome}.`];
+  if (run?.prUrl) lines.push(`Pull request: ${run.prUrl}`);
+  if (run?.changedFiles?.length) lines.push(`Changed files: ${String(run.changedFiles.length)}`);
+  if (status !== "completed" && run?.error) lines.push(`Error: ${run.error.slice(0, 500)}`);
+  if (dashboardUrl) lines.push(`Run: ${dashboardUrl.replace(/\/+$/, "")}/#run/${runId.slice(0, 8)}`);
+  return lines.join("\n");
+}
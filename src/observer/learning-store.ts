@@ -3,7 +3,7 @@
  * aggregated statistics via SQL queries.
  */
 
-import { eq, desc, sql, and } from "drizzle-orm";
+import { eq, desc, sql, and, gte } from "drizzle-orm";
 import { logInfo } from "../logger.js";
 import type { Database } from "../db/index.js";
 import { learningOutcomes } from "../db/schema.js";
@@ -304,6 +304,39 @@ export class LearningStore {
     return results;
   }
 
+  /** Runs and successes per rule since `since` (used by rule backtesting). */
+  async getRuleOutcomeCounts(since: Date): Promise<Map<string, { runs: number; succeeded: number }>> {
+    const rows = await this.db
+      .select({
+        ruleId: learningOutcomes.ruleId,
+        runs: sql<number>`count(*)::int`,
+        succeeded: sql<number>`count(*) filter (where status = 'completed')::int`,
+      })
+      .from(learningOutcomes)
+      .where(and(sql`rule_id IS NOT NULL`, gte(learningOutcomes.timestamp, since)))
+      .groupBy(learningOutcomes.ruleId);
+
+    const counts = new Map<string, { runs: number; succeeded: number }>();
+    for (const row of rows) {
+      if (row.ruleId) counts.set(row.ruleId, { runs: row.runs, succeeded: row.succeeded });
+    }
+    return counts;
+  }
+
+  /** Average recorded cost of a rule's runs (used to forecast budget spend). */
+  async getRuleCostForecast(ruleId: string): Promise<{ runs: number; avgCostUsd: number } | undefined> {
+    const rows = await this.db
+      .select({
+        runs: sql<number>`count(*)::int`,
+        avgCostUsd: sql<number>`coalesce(avg(cost_usd::float), 0)`,
+      })
+      .from(learningOutcomes)
+      .where(eq(learningOutcomes.ruleId, ruleId));
+    const row = rows[0];
+    if (!row || row.runs === 0) return undefined;
+    return { runs: row.runs, avgCostUsd: Number(row.avgCostUsd) };
+  }
+
   async getTriageSummary(ruleId: string): Promise<string> {
     const learnings = await this.getRuleLearnings(ruleId);
     if (!learnings) return "";
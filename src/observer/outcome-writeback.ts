@@ -0,0 +1,184 @@
+/**
+ * Outcome write-back — tells the source of an observer event what became of
+ * its run: a comment on (and, once merged, resolution of) the Sentry issue, a
+ * check run on the failing GitHub commit, a reply in the source Slack thread
+ * or a note on the incident.
+ *
+ * Stages: "finished" when the run ends, "merged" when its PR merges and
+ * "recurred" when an event with the same recurrence key fires after the merge.
+ */
+
+import type { WebClient } from "@slack/web-api";
+import type { GitHubService } from "../github.js";
+import type { RunRecord } from "../types.js";
+import { formatIncidentRunNote, type IncidentNoteClient } from "./incident-notes.js";
+import type { ObserverRunLink } from "./run-link-store.js";
+import type { IncidentPayload } from "./sources/incident-webhook-adapter.js";
+import type { TriggerEvent } from "./types.js";
+
+const DEFAULT_SENTRY_API_BASE = "https://sentry.io/api/0";
+const REQUEST_TIMEOUT_MS = 15_000;
+const CHECK_RUN_NAME = "Gooseherd auto-fix";
+
+export type WriteBackStage = "finished" | "merged" | "recurred";
+export type WriteBackTarget = "sentry" | "github_check" | "slack_thread" | "incident";
+
+export interface WriteBackContext {
+  stage: WriteBackStage;
+  runId: string;
+  /** Terminal run status, for "finished" */
+  status?: string;
+  run?: RunRecord;
+  prUrl?: string;
+  dashboardUrl?: string;
+  /** The event that fired again, for "recurred" */
+  recurrence?: TriggerEvent;
+}
+
+export interface OutcomeWriteBackDeps {
+  sentryAuthToken?: string;
+  sentryApiBase?: string;
+  webClient?: WebClient;
+  github?: Pick<GitHubService, "createCheckRun">;
+  incidentNotes?: IncidentNoteClient;
+}
+
+export class OutcomeWriteBack {
+  constructor(private readonly deps: OutcomeWriteBackDeps) {}
+
+  /**
+   * Write the outcome back to the link's source. Returns the target written,
+   * or undefined when the source (or stage) has nothing to update.
+   * Throws when the target's API rejects the request.
+   */
+  async writeBack(link: ObserverRunLink, context: WriteBackContext): Promise<WriteBackTarget | undefined> {
+    const raw = payloadOf(link.event);
+    switch (link.event.source) {
+      case "sentry_alert":
+        return this.writeSentry(raw, context);
+      case "github_webhook":
+        return this.writeGitHubCheck(raw, context);
+      case "slack_observer":
+        return this.writeSlackThread(raw, context);
+      case "incident":
+        return this.writeIncident(link.event.rawPayload as IncidentPayload, context);
+      default:
+        return undefined;
+    }
+  }
+
+  private async writeSentry(raw: Record<string, unknown>, context: WriteBackContext): Promise<WriteBackTarget | undefined> {
+    const issueId = stringField(raw, "issueId");
+    if (!this.deps.sentryAuthToken || !issueId) return undefined;
+
+    if (context.stage === "recurred") {
+      await this.sentryRequest("PUT", `/issues/${encodeURIComponent(issueId)}/`, { status: "unresolved" });
+    }
+    await this.sentryRequest("POST", `/issues/${encodeURIComponent(issueId)}/comments/`, {
+      text: formatOutcomeMessage(context)
+    });
+    if (context.stage === "merged") {
+      await this.sentryRequest("PUT", `/issues/${encodeURIComponent(issueId)}/`, { status: "resolved" });
+    }
+    return "sentry";
+  }
+
+  private async writeGitHubCheck(raw: Record<string, unknown>, context: WriteBackContext): Promise<WriteBackTarget | undefined> {
+    const repoSlug = stringField(raw, "repo");
+    const headSha = stringField(raw, "sha");
+    // The check run annotates the failing commit once; later stages have nothing to add there
+    if (context.stage !== "finished" || !this.deps.github || !repoSlug || !headSha) return undefined;
+
+    const prNumber = context.run?.prNumber;
+    await this.deps.github.createCheckRun({
+      repoSlug,
+      headSha,
+      name: CHECK_RUN_NAME,
+      conclusion: "neutral",
+      title: context.prUrl
+        ? `Fix proposed${prNumber ? ` in #${String(prNumber)}` : ""}`
+        : `Auto-fix run ${context.status ?? "finished"}`,
+      summary: formatOutcomeMessage(context),
+      detailsUrl: context.prUrl
+    });
+    return "github_check";
+  }
+
+  private async writeSlackThread(raw: Record<string, unknown>, context: WriteBackContext): Promise<WriteBackTarget | undefined> {
+    const channelId = stringField(raw, "channelId");
+    const messageTs = stringField(raw, "messageTs");
+    if (!this.deps.webClient || !channelId || !messageTs) return undefined;
+
+    await this.deps.webClient.chat.postMessage({
+      channel: channelId,
+      thread_ts: messageTs,
+      text: formatOutcomeMessage(context)
+    });
+    return "slack_thread";
+  }
+
+  private async writeIncident(incident: IncidentPayload, context: WriteBackContext): Promise<WriteBackTarget | undefined> {
+    const notes = this.deps.incidentNotes;
+    if (!notes || !incident?.incidentId || !notes.supports(incident.provider)) return undefined;
+
+    const note = context.stage === "finished"
+      ? formatIncidentRunNote(context.runId, context.status ?? "completed", context.run, context.dashboardUrl)
+      : formatOutcomeMessage(context);
+    await notes.addNote(incident.provider, incident.incidentId, note);
+    return "incident";
+  }
+
+  private async sentryRequest(method: "POST" | "PUT", path: string, body: unknown): Promise<void> {
+    const base = (this.deps.sentryApiBase ?? DEFAULT_SENTRY_API_BASE).replace(/\/+$/, "");
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.deps.sentryAuthToken!}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Sentry ${method} ${path} failed: ${String(response.status)} ${response.statusText}`);
+    }
+  }
+}
+
+/** Message text shared by Sentry comments, check runs, Slack replies and incident notes. */
+export function formatOutcomeMessage(context: WriteBackContext): string {
+  const shortId = context.runId.slice(0, 8);
+  const lines: string[] = [];
+  switch (context.stage) {
+    case "finished":
+      if (context.status === "completed" && context.prUrl) {
+        lines.push(`Gooseherd opened a fix for this alert: ${context.prUrl} (run ${shortId}).`);
+      } else if (context.status === "completed") {
+        lines.push(`Gooseherd run ${shortId} completed without opening a pull request.`);
+      } else {
+        lines.push(`Gooseherd run ${shortId} finished with status ${context.status ?? "unknown"}.`);
+        if (context.run?.error) lines.push(`Error: ${context.run.error.slice(0, 500)}`);
+      }
+      break;
+    case "merged":
+      lines.push(`The Gooseherd fix for this alert was merged${context.prUrl ? `: ${context.prUrl}` : ""}.`);
+      break;
+    case "recurred":
+      lines.push(`This alert fired again after the Gooseherd fix${context.prUrl ? ` (${context.prUrl})` : ""} was merged. Reopened for review.`);
+      if (context.recurrence) lines.push(`Recurrence: ${context.recurrence.id} at ${context.recurrence.timestamp}`);
+      break;
+  }
+  if (context.dashboardUrl) lines.push(`Run: ${context.dashboardUrl.replace(/\/+$/, "")}/#run/${shortId}`);
+  return lines.join("\n");
+}
+
+function payloadOf(event: TriggerEvent): Record<string, unknown> {
+  return event.rawPayload && typeof event.rawPayload === "object" ? (event.rawPayload as Record<string, unknown>) : {};
+}
+
+function stringField(raw: Record<string, unknown>, key: string): string | undefined {
+  const value = raw[key];
+  if (typeof value === "string" && value.trim()) return value;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
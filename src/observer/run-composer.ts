@@ -5,7 +5,7 @@
  */
 
 import type { WebClient } from "@slack/web-api";
-import type { AppConfig } from "../config.js";
+import { resolveTeamFromChannel, type AppConfig } from "../config.js";
 import type { NewRunInput } from "../types.js";
 import type { TriggerEvent, TriggerRule } from "./types.js";
 
@@ -24,7 +24,7 @@ export async function composeRunInput(
   const repoSlug = event.repoSlug ?? rule.repoSlug ?? "";
   const baseBranch = event.baseBranch ?? rule.baseBranch ?? config.defaultBaseBranch;
   const task = buildTask(event, rule);
-  const channelId = rule.notificationChannel ?? config.observerAlertChannelId;
+  const channelId = resolveRunChannel(rule, config);
 
   // Post seed message to get a real threadTs (or generate one when Slack is absent)
   const threadTs = webClient
@@ -39,10 +39,16 @@ export async function composeRunInput(
     channelId,
     threadTs,
     runtime: config.sandboxRuntime,
-    pipelineHint: event.pipelineHint ?? rule.pipeline
+    pipelineHint: event.pipelineHint ?? rule.pipeline,
+    teamId: resolveTeamFromChannel(channelId, config.teamChannelMap)
   };
 }
 
+/** Slack channel a rule's runs post to; its TEAM_CHANNEL_MAP team owns them. */
+export function resolveRunChannel(rule: TriggerRule, config: AppConfig): string {
+  return rule.notificationChannel ?? config.observerAlertChannelId;
+}
+
 /**
  * Build task description from event + rule context.
  *
@@ -101,6 +107,8 @@ function formatSourceLabel(source: string): string {
       return "GitHub Webhook";
     case "slack_observer":
       return "Slack Channel Alert";
+    case "incident":
+      return "Incident";
     default:
       return source;
   }
@@ -0,0 +1,166 @@
+/**
+ * Run links — which observer events a run was started for, so its outcome can
+ * be written back to each source and a merged fix can be watched for
+ * recurrence. Alert clusters get one link per grouped event.
+ */
+
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+import type { Database } from "../db/index.js";
+import { observerRunLinks } from "../db/schema.js";
+import { buildRecurrenceKey } from "./safety.js";
+import type { TriggerEvent } from "./types.js";
+
+export type RunLinkStatus =
+  | "awaiting_approval"
+  | "queued"
+  | "pr_open"
+  | "completed"
+  | "failed"
+  | "merged"
+  | "closed"
+  | "recurred";
+
+export interface ObserverRunLink {
+  id: number;
+  runId?: string;
+  event: TriggerEvent;
+  dedupKey: string;
+  repoSlug?: string;
+  channelId?: string;
+  threadTs?: string;
+  status: RunLinkStatus;
+  prUrl?: string;
+  prNumber?: number;
+  mergedAt?: string;
+  recurredAt?: string;
+  recurrenceEventId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewRunLinkInput {
+  runId?: string;
+  event: TriggerEvent;
+  dedupKey: string;
+  repoSlug?: string;
+  channelId?: string;
+  threadTs?: string;
+  status: "awaiting_approval" | "queued";
+}
+
+type RunLinkRow = typeof observerRunLinks.$inferSelect;
+
+function rowToLink(row: RunLinkRow): ObserverRunLink {
+  return {
+    id: row.id,
+    runId: row.runId ?? undefined,
+    event: row.event,
+    dedupKey: row.dedupKey,
+    repoSlug: row.repoSlug ?? undefined,
+    channelId: row.channelId ?? undefined,
+    threadTs: row.threadTs ?? undefined,
+    status: row.status as RunLinkStatus,
+    prUrl: row.prUrl ?? undefined,
+    prNumber: row.prNumber ?? undefined,
+    mergedAt: row.mergedAt?.toISOString(),
+    recurredAt: row.recurredAt?.toISOString(),
+    recurrenceEventId: row.recurrenceEventId ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export class RunLinkStore {
+  private readonly db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async createMany(inputs: NewRunLinkInput[]): Promise<void> {
+    if (inputs.length === 0) return;
+    const now = new Date();
+    await this.db.insert(observerRunLinks).values(inputs.map((input) => ({
+      runId: input.runId ?? null,
+      eventId: input.event.id,
+      source: input.event.source,
+      dedupKey: input.dedupKey,
+      recurrenceKey: buildRecurrenceKey(input.event),
+      repoSlug: input.repoSlug ?? null,
+      event: input.event,
+      channelId: input.channelId ?? null,
+      threadTs: input.threadTs ?? null,
+      status: input.status,
+      createdAt: now,
+      updatedAt: now,
+    })));
+  }
+
+  async listForRun(runId: string): Promise<ObserverRunLink[]> {
+    const rows = await this.db.select().from(observerRunLinks).where(eq(observerRunLinks.runId, runId));
+    return rows.map(rowToLink);
+  }
+
+  /**
+   * Attach a run to links still awaiting approval in its Slack thread — the
+   * approval button enqueues the run outside the observer.
+   */
+  async claimForThread(runId: string, channelId: string, threadTs: string): Promise<ObserverRunLink[]> {
+    const rows = await this.db
+      .update(observerRunLinks)
+      .set({ runId, status: "queued", updatedAt: new Date() })
+      .where(and(
+        isNull(observerRunLinks.runId),
+        eq(observerRunLinks.status, "awaiting_approval"),
+        eq(observerRunLinks.channelId, channelId),
+        eq(observerRunLinks.threadTs, threadTs),
+      ))
+      .returning();
+    return rows.map(rowToLink);
+  }
+
+  async updateForRun(
+    runId: string,
+    patch: { status: RunLinkStatus; prUrl?: string; prNumber?: number; mergedAt?: Date }
+  ): Promise<void> {
+    await this.db
+      .update(observerRunLinks)
+      .set({
+        status: patch.status,
+        ...(patch.prUrl !== undefined ? { prUrl: patch.prUrl } : {}),
+        ...(patch.prNumber !== undefined ? { prNumber: patch.prNumber } : {}),
+        ...(patch.mergedAt ? { mergedAt: patch.mergedAt } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(observerRunLinks.runId, runId));
+  }
+
+  async listByStatus(status: RunLinkStatus, limit: number): Promise<ObserverRunLink[]> {
+    const rows = await this.db
+      .select()
+      .from(observerRunLinks)
+      .where(eq(observerRunLinks.status, status))
+      .orderBy(desc(observerRunLinks.updatedAt))
+      .limit(limit);
+    return rows.map(rowToLink);
+  }
+
+  /** Links whose fix merged for this recurrence key, newest first. */
+  async findMergedByRecurrenceKey(recurrenceKey: string): Promise<ObserverRunLink[]> {
+    const rows = await this.db
+      .select()
+      .from(observerRunLinks)
+      .where(and(eq(observerRunLinks.recurrenceKey, recurrenceKey), eq(observerRunLinks.status, "merged")))
+      .orderBy(desc(observerRunLinks.mergedAt));
+    return rows.map(rowToLink);
+  }
+
+  async markRecurred(ids: number[], eventId: string): Promise<void> {
+    if (ids.length === 0) return;
+    const now = new Date();
+    await this.db
+      .update(observerRunLinks)
+      .set({ status: "recurred", recurredAt: now, recurrenceEventId: eventId, updatedAt: now })
+      .where(inArray(observerRunLinks.id, ids));
+  }
+}
@@ -5,14 +5,16 @@
  * The ObserverStateStore handles persistence; these functions only read/check state.
  */
 
-import type { TriggerEvent, TriggerRule, SafetyDecision, TriggerSource } from "./types.js";
+import type { TriggerEvent, TriggerRule, SafetyCheck, SafetyDecision, TriggerSource } from "./types.js";
 
 // ── Rate limit defaults per source (per hour) ──
 
 const DEFAULT_RATE_LIMITS: Record<TriggerSource, { perMinute: number; perHour: number }> = {
   sentry_alert: { perMinute: 2, perHour: 10 },
   github_webhook: { perMinute: 3, perHour: 15 },
-  slack_observer: { perMinute: 1, perHour: 5 }
+  slack_observer: { perMinute: 1, perHour: 5 },
+  incident: { perMinute: 2, perHour: 10 },
+  jira: { perMinute: 2, perHour: 10 }
 };
 
 // ── Dedup key TTLs (milliseconds) ──
@@ -20,7 +22,9 @@ const DEFAULT_RATE_LIMITS: Record<TriggerSource, { perMinute: number; perHour: n
 const DEDUP_TTL: Record<TriggerSource, number> = {
   sentry_alert: 60 * 60 * 1000,      // 60 minutes
   github_webhook: 30 * 60 * 1000,    // 30 minutes
-  slack_observer: 30 * 60 * 1000     // 30 minutes
+  slack_observer: 30 * 60 * 1000,    // 30 minutes
+  incident: 4 * 60 * 60 * 1000,      // 4 hours — one run per incident, even when it escalates
+  jira: 24 * 60 * 60 * 1000          // 24 hours — one run per issue a day
 };
 
 // ── Pure functions ──
@@ -33,8 +37,13 @@ const DEDUP_TTL: Record<TriggerSource, number> = {
  * - GitHub check_suite: gh:check:${repo}:${branch}:${sha}
  * - GitHub PR review: gh:review:${repo}:${prNumber}:${reviewId}
  * - Slack: slack:${channelId}:${messageTs}
+ * - Incident: incident:${provider}:${incidentId}
+ * - Events carrying an explicit dedupKey: ${source}:${dedupKey}
  */
 export function buildDedupKey(event: TriggerEvent): string {
+  if (event.dedupKey) {
+    return `${event.source}:${event.dedupKey}`;
+  }
   const payload = event.rawPayload as Record<string, unknown>;
 
   switch (event.source) {
@@ -63,11 +72,35 @@ export function buildDedupKey(event: TriggerEvent): string {
       const messageTs = String(payload["messageTs"] ?? event.id);
       return `slack:${channelId}:${messageTs}`;
     }
+    case "incident": {
+      const provider = String(payload["provider"] ?? "unknown");
+      const incidentId = String(payload["incidentId"] ?? event.id);
+      return `incident:${provider}:${incidentId}`;
+    }
     default:
       return `unknown:${event.id}`;
   }
 }
 
+/**
+ * Build the key a merged fix is watched under for recurrence.
+ *
+ * Same as the dedup key except where the dedup key names one occurrence:
+ * - GitHub check_suite: gh:check:${repo}:${branch} (a new failure comes on a new sha)
+ * - Sentry: sentry:${projectSlug}:${fingerprint ?? shortId} (webhook issues carry
+ *   the shortId the poller uses as its fingerprint)
+ */
+export function buildRecurrenceKey(event: TriggerEvent): string {
+  const payload = (event.rawPayload ?? {}) as Record<string, unknown>;
+  if (!event.dedupKey && event.source === "github_webhook" && payload["eventType"] === "check_suite") {
+    return `gh:check:${String(payload["repo"] ?? "")}:${String(payload["branch"] ?? "")}`;
+  }
+  if (!event.dedupKey && event.source === "sentry_alert" && payload["fingerprint"] === undefined && payload["shortId"] !== undefined) {
+    return `sentry:${String(payload["projectSlug"] ?? "unknown")}:${String(payload["shortId"])}`;
+  }
+  return buildDedupKey(event);
+}
+
 /**
  * Get the TTL for a dedup entry based on event source.
  */
@@ -181,7 +214,8 @@ export function checkRepoAllowlist(
  */
 export function checkThresholds(
   event: TriggerEvent,
-  rule: TriggerRule
+  rule: TriggerRule,
+  now: number = Date.now()
 ): SafetyDecision {
   const payload = event.rawPayload as Record<string, unknown> | undefined;
 
@@ -198,7 +232,7 @@ export function checkThresholds(
   if (rule.minAgeMinutes !== undefined) {
     const firstSeen = payload?.["firstSeen"] ?? payload?.["first_seen"] ?? payload?.["created_at"];
     if (firstSeen && typeof firstSeen === "string") {
-      const ageMs = Date.now() - new Date(firstSeen).getTime();
+      const ageMs = now - new Date(firstSeen).getTime();
       const ageMinutes = ageMs / 60_000;
       if (ageMinutes < rule.minAgeMinutes) {
         return {
@@ -227,6 +261,7 @@ export function checkThresholds(
  *
  * Returns the first denial reason, or "allow" if all checks pass.
  * Callers should update the state store based on the result.
+ * `now` defaults to the wall clock; backtests pass the historical event time.
  */
 export function runSafetyChecks(
   event: TriggerEvent,
@@ -240,45 +275,49 @@ export function runSafetyChecks(
     maxDaily: number;
     maxPerRepo: number;
     repoAllowlist: string[];
+    now?: number;
   }
 ): SafetyDecision {
   const repoSlug = event.repoSlug ?? rule.repoSlug ?? "";
+  const now = opts.now ?? Date.now();
+  const denied = (decision: SafetyDecision, check: SafetyCheck): SafetyDecision => ({ ...decision, check });
 
   // 1. Dedup
   if (opts.isDuplicate) {
-    return { action: "deny", reason: "duplicate event" };
+    return { action: "deny", reason: "duplicate event", check: "dedup" };
   }
 
   // 2. Thresholds (occurrence count, age, user count)
-  const thresholdResult = checkThresholds(event, rule);
-  if (thresholdResult.action === "deny") return thresholdResult;
+  const thresholdResult = checkThresholds(event, rule, now);
+  if (thresholdResult.action === "deny") return denied(thresholdResult, "thresholds");
 
   // 3. Repo allowlist
   if (repoSlug) {
     const allowResult = checkRepoAllowlist(repoSlug, opts.repoAllowlist);
-    if (allowResult.action === "deny") return allowResult;
+    if (allowResult.action === "deny") return denied(allowResult, "allowlist");
   }
 
   // 4. Rate limit
-  const rateResult = checkRateLimit(event.source, opts.rateLimitTimestamps);
-  if (rateResult.action === "deny") return rateResult;
+  const rateResult = checkRateLimit(event.source, opts.rateLimitTimestamps, now);
+  if (rateResult.action === "deny") return denied(rateResult, "rate_limit");
 
   // 5. Global budget
   const budgetResult = checkBudget(opts.dailyCount, opts.maxDaily);
-  if (budgetResult.action === "deny") return budgetResult;
+  if (budgetResult.action === "deny") return denied(budgetResult, "budget");
 
   // 6. Per-repo budget
   if (repoSlug) {
     const repoResult = checkPerRepoBudget(repoSlug, opts.repoCount, opts.maxPerRepo);
-    if (repoResult.action === "deny") return repoResult;
+    if (repoResult.action === "deny") return denied(repoResult, "repo_budget");
   }
 
   // 7. Cooldown
   const cooldownResult = checkCooldown(
     opts.completedAt,
-    rule.cooldownMinutes
+    rule.cooldownMinutes,
+    now
   );
-  if (cooldownResult.action === "deny") return cooldownResult;
+  if (cooldownResult.action === "deny") return denied(cooldownResult, "cooldown");
 
   return { action: "allow", reason: "all safety checks passed" };
 }
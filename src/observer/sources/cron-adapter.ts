@@ -7,7 +7,8 @@
  */
 
 import { logInfo, logWarn } from "../../logger.js";
-import type { TriggerEvent, TriggerRule } from "../types.js";
+import type { RuleCondition, TriggerEvent, TriggerRule } from "../types.js";
+import { isConditionGroup } from "../trigger-rules.js";
 
 // ── Cron expression parser ──
 
@@ -144,10 +145,12 @@ interface ParsedCronRule {
 /**
  * Extract the cron schedule expression from a trigger rule's conditions.
  *
- * Looks for a condition with field="schedule", operator="equals", and value as the cron expression.
+ * Looks for a top-level condition with field="schedule", operator="equals", and value as the cron expression.
  */
 function extractSchedule(rule: TriggerRule): string | null {
-  const cond = rule.conditions.find(c => c.field === "schedule" && c.operator === "equals" && c.value);
+  const cond = rule.conditions
+    .filter((c): c is RuleCondition => !isConditionGroup(c))
+    .find(c => c.field === "schedule" && c.operator === "equals" && c.value);
   return cond?.value ?? null;
 }
 
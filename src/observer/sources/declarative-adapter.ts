@@ -0,0 +1,338 @@
+/**
+ * Declarative webhook adapters — WebhookAdapters described in YAML instead of
+ * TypeScript, so a new alert source (Datadog, Grafana, internal tools) needs
+ * no code.
+ *
+ * Each `*.yml` / `*.yaml` file in extensions/adapters/ names a source, its
+ * signature scheme, JSONPath mappings into TriggerEvent fields and an optional
+ * filter. Files are validated when the daemon starts; an invalid file fails
+ * startup rather than silently dropping alerts.
+ *
+ * Mapping values are a JSONPath (`$.alert.title`), a template with JSONPath
+ * placeholders (`"Fix {{$.title}}"`) or a literal string.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { logInfo, logWarn } from "../../logger.js";
+import { evaluateConditionNode, parseConditionNode } from "../trigger-rules.js";
+import type { RuleConditionNode, TriggerEvent, TriggerPriority } from "../types.js";
+import { registerAdapter, type WebhookAdapter } from "./adapter-registry.js";
+import { parseJsonPath, readJsonPath, type JsonPathSegment } from "./json-path.js";
+
+export class DeclarativeAdapterLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeclarativeAdapterLoadError";
+  }
+}
+
+export interface DeclarativeSignatureSpec {
+  /** hmac: digest of the raw body; token: the header carries the secret itself */
+  scheme: "hmac" | "token";
+  header: string;
+  algorithm: "sha1" | "sha256" | "sha512";
+  encoding: "hex" | "base64";
+  /** Expected before the digest or token, e.g. "sha256=" or "Bearer " */
+  prefix: string;
+}
+
+export const MAPPED_FIELDS = ["repoSlug", "suggestedTask", "priority", "dedupKey", "baseBranch"] as const;
+export type MappedField = (typeof MAPPED_FIELDS)[number];
+
+export interface DeclarativeAdapterSpec {
+  source: string;
+  signature?: DeclarativeSignatureSpec;
+  /** Trigger-rule conditions evaluated against the mapped event; all must match */
+  filter: RuleConditionNode[];
+  mapping: Partial<Record<MappedField, string>>;
+  /** Source priority value → TriggerPriority, e.g. { P1: critical } */
+  priorityMap: Record<string, TriggerPriority>;
+  notificationChannel?: string;
+}
+
+export interface DeclarativeAdapterOptions {
+  alertChannelId: string;
+  /** OBSERVER_WEBHOOK_SECRETS — a signed source must have an entry */
+  webhookSecrets: Record<string, string>;
+  /** Sources owned by built-in or code extension adapters */
+  reservedSources?: string[];
+}
+
+type CompiledValue = (payload: unknown) => string | undefined;
+
+const SOURCE_PATTERN = /^[a-z0-9_-]+$/;
+const PRIORITIES = new Set<string>(["low", "medium", "high", "critical"]);
+const ALGORITHMS = new Set<string>(["sha1", "sha256", "sha512"]);
+const ENCODINGS = new Set<string>(["hex", "base64"]);
+const TEMPLATE_PLACEHOLDER = /\{\{\s*(\$[^}]*?)\s*\}\}/g;
+
+// ── Parsing / validation ──
+
+/** Parse and validate one adapter file. */
+export function parseDeclarativeAdapterYaml(raw: string, label = "adapter"): DeclarativeAdapterSpec {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(raw);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "unknown";
+    throw new DeclarativeAdapterLoadError(`${label}: invalid YAML: ${msg}`);
+  }
+  if (!isRecord(parsed)) {
+    throw new DeclarativeAdapterLoadError(`${label}: must be a YAML object`);
+  }
+
+  const source = parsed["source"];
+  if (typeof source !== "string" || !SOURCE_PATTERN.test(source)) {
+    throw new DeclarativeAdapterLoadError(`${label}: source must match ${String(SOURCE_PATTERN)}`);
+  }
+  const where = `${label} (${source})`;
+
+  const mapping = parseMapping(parsed["mapping"], where);
+  const filter = parseFilter(parsed["filter"], where);
+  const priorityMap = parsePriorityMap(parsed["priorityMap"], where);
+  const signature = parsed["signature"] === undefined ? undefined : parseSignature(parsed["signature"], where);
+
+  const notificationChannel = parsed["notificationChannel"];
+  if (notificationChannel !== undefined && typeof notificationChannel !== "string") {
+    throw new DeclarativeAdapterLoadError(`${where}: notificationChannel must be a string`);
+  }
+
+  return { source, signature, filter, mapping, priorityMap, notificationChannel };
+}
+
+function parseSignature(input: unknown, where: string): DeclarativeSignatureSpec {
+  if (!isRecord(input)) {
+    throw new DeclarativeAdapterLoadError(`${where}: signature must be an object`);
+  }
+  const scheme = input["scheme"] ?? "hmac";
+  if (scheme !== "hmac" && scheme !== "token") {
+    throw new DeclarativeAdapterLoadError(`${where}: signature.scheme must be hmac or token`);
+  }
+  const header = input["header"];
+  if (typeof header !== "string" || !header.trim()) {
+    throw new DeclarativeAdapterLoadError(`${where}: signature.header is required`);
+  }
+  const algorithm = input["algorithm"] ?? "sha256";
+  if (typeof algorithm !== "string" || !ALGORITHMS.has(algorithm)) {
+    throw new DeclarativeAdapterLoadError(`${where}: signature.algorithm must be one of: ${[...ALGORITHMS].join(", ")}`);
+  }
+  const encoding = input["encoding"] ?? "hex";
+  if (typeof encoding !== "string" || !ENCODINGS.has(encoding)) {
+    throw new DeclarativeAdapterLoadError(`${where}: signature.encoding must be hex or base64`);
+  }
+  const prefix = input["prefix"] ?? "";
+  if (typeof prefix !== "string") {
+    throw new DeclarativeAdapterLoadError(`${where}: signature.prefix must be a string`);
+  }
+  return {
+    scheme,
+    // Node lower-cases incoming header names
+    header: header.trim().toLowerCase(),
+    algorithm: algorithm as DeclarativeSignatureSpec["algorithm"],
+    encoding: encoding as DeclarativeSignatureSpec["encoding"],
+    prefix
+  };
+}
+
+function parseMapping(input: unknown, where: string): DeclarativeAdapterSpec["mapping"] {
+  if (!isRecord(input)) {
+    throw new DeclarativeAdapterLoadError(`${where}: mapping must be an object`);
+  }
+  const mapping: DeclarativeAdapterSpec["mapping"] = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!(MAPPED_FIELDS as readonly string[]).includes(key)) {
+      throw new DeclarativeAdapterLoadError(`${where}: unknown mapping '${key}' (expected one of: ${MAPPED_FIELDS.join(", ")})`);
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      throw new DeclarativeAdapterLoadError(`${where}: mapping.${key} must be a non-empty string`);
+    }
+    // Compile now so bad JSONPaths fail at startup
+    try {
+      compileValue(value);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      throw new DeclarativeAdapterLoadError(`${where}: mapping.${key}: ${msg}`);
+    }
+    mapping[key as MappedField] = value;
+  }
+  return mapping;
+}
+
+function parseFilter(input: unknown, where: string): RuleConditionNode[] {
+  if (input === undefined) return [];
+  if (!Array.isArray(input)) {
+    throw new DeclarativeAdapterLoadError(`${where}: filter must be an array of conditions`);
+  }
+  try {
+    return input.map((node) => parseConditionNode(node, `${where} filter`));
+  } catch (err) {
+    throw new DeclarativeAdapterLoadError(err instanceof Error ? err.message : `${where}: invalid filter`);
+  }
+}
+
+function parsePriorityMap(input: unknown, where: string): Record<string, TriggerPriority> {
+  if (input === undefined) return {};
+  if (!isRecord(input)) {
+    throw new DeclarativeAdapterLoadError(`${where}: priorityMap must be an object`);
+  }
+  const priorityMap: Record<string, TriggerPriority> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (typeof value !== "string" || !PRIORITIES.has(value)) {
+      throw new DeclarativeAdapterLoadError(`${where}: priorityMap.${key} must be one of: ${[...PRIORITIES].join(", ")}`);
+    }
+    priorityMap[key] = value as TriggerPriority;
+  }
+  return priorityMap;
+}
+
+// ── Runtime ──
+
+function compileValue(expression: string): CompiledValue {
+  if (expression.includes("{{")) {
+    const parts: Array<string | JsonPathSegment[]> = [];
+    let last = 0;
+    for (const match of expression.matchAll(TEMPLATE_PLACEHOLDER)) {
+      parts.push(expression.slice(last, match.index));
+      parts.push(parseJsonPath(match[1]!));
+      last = match.index + match[0].length;
+    }
+    parts.push(expression.slice(last));
+    return (payload) => {
+      const text = parts
+        .map((part) => (typeof part === "string" ? part : stringify(readJsonPath(payload, part)) ?? ""))
+        .join("")
+        .trim();
+      return text || undefined;
+    };
+  }
+  if (expression.startsWith("$")) {
+    const segments = parseJsonPath(expression);
+    return (payload) => stringify(readJsonPath(payload, segments));
+  }
+  return () => expression;
+}
+
+function stringify(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return undefined;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a);
+  const bBuf = Buffer.from(b);
+  return aBuf.length === bBuf.length && timingSafeEqual(aBuf, bBuf);
+}
+
+/** Verify a request against a declarative signature spec. */
+export function verifyDeclarativeSignature(
+  spec: DeclarativeSignatureSpec,
+  body: string,
+  headers: Record<string, string>,
+  secret: string
+): boolean {
+  const received = headers[spec.header];
+  if (!received) return false;
+  if (spec.scheme === "token") {
+    return safeEqual(received, `${spec.prefix}${secret}`);
+  }
+  const digest = createHmac(spec.algorithm, secret).update(body).digest(spec.encoding);
+  return safeEqual(received, `${spec.prefix}${digest}`);
+}
+
+/** Build a WebhookAdapter from a validated spec. */
+export function createDeclarativeAdapter(spec: DeclarativeAdapterSpec, alertChannelId: string): WebhookAdapter {
+  const compiled = Object.fromEntries(
+    Object.entries(spec.mapping).map(([field, expression]) => [field, compileValue(expression)])
+  ) as Partial<Record<MappedField, CompiledValue>>;
+  const channelId = spec.notificationChannel ?? alertChannelId;
+
+  return {
+    source: spec.source,
+    verifySignature(body, headers, secret) {
+      // Unsigned sources are accepted; signed ones are checked at load for a secret
+      return spec.signature ? verifyDeclarativeSignature(spec.signature, body, headers, secret) : true;
+    },
+    parseEvent(_headers, payload) {
+      const read = (field: MappedField): string | undefined => compiled[field]?.(payload);
+      const dedupKey = read("dedupKey");
+      const event: TriggerEvent = {
+        id: `${spec.source}-${dedupKey ?? randomUUID().slice(0, 8)}-${randomUUID().slice(0, 8)}`,
+        source: spec.source,
+        timestamp: new Date().toISOString(),
+        repoSlug: read("repoSlug"),
+        suggestedTask: read("suggestedTask"),
+        baseBranch: read("baseBranch"),
+        priority: mapPriority(read("priority"), spec.priorityMap),
+        dedupKey,
+        rawPayload: payload,
+        notificationTarget: channelId ? { type: "slack", channelId } : { type: "dashboard_only" }
+      };
+      return spec.filter.every((node) => evaluateConditionNode(event, node)) ? event : null;
+    }
+  };
+}
+
+function mapPriority(value: string | undefined, priorityMap: Record<string, TriggerPriority>): TriggerPriority {
+  if (value === undefined) return "medium";
+  const mapped = priorityMap[value];
+  if (mapped) return mapped;
+  const normalized = value.toLowerCase();
+  return PRIORITIES.has(normalized) ? (normalized as TriggerPriority) : "medium";
+}
+
+// ── Loading ──
+
+/**
+ * Load, validate and register every YAML adapter in `dir`.
+ *
+ * Throws DeclarativeAdapterLoadError on the first invalid file, on a source
+ * that is already registered, or on a signed source with no secret.
+ */
+export async function loadDeclarativeAdapters(
+  dir: string,
+  options: DeclarativeAdapterOptions
+): Promise<WebhookAdapter[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const files = entries.filter((file) => file.endsWith(".yml") || file.endsWith(".yaml")).sort();
+  const specs: DeclarativeAdapterSpec[] = [];
+  const seen = new Set<string>(options.reservedSources ?? []);
+  for (const file of files) {
+    const raw = await readFile(path.join(dir, file), "utf8");
+    const spec = parseDeclarativeAdapterYaml(raw, file);
+    if (seen.has(spec.source)) {
+      throw new DeclarativeAdapterLoadError(`${file}: an adapter for source '${spec.source}' is already registered`);
+    }
+    if (spec.signature && !options.webhookSecrets[spec.source]) {
+      throw new DeclarativeAdapterLoadError(
+        `${file}: signature configured but OBSERVER_WEBHOOK_SECRETS has no entry for '${spec.source}'`
+      );
+    }
+    if (!spec.signature) {
+      logWarn("Observer: declarative adapter accepts unsigned webhooks", { file, source: spec.source });
+    }
+    seen.add(spec.source);
+    specs.push(spec);
+  }
+
+  // Register only once every file validated
+  const adapters = specs.map((spec) => createDeclarativeAdapter(spec, options.alertChannelId));
+  for (const adapter of adapters) {
+    registerAdapter(adapter);
+    logInfo("Observer: loaded declarative adapter", { source: adapter.source });
+  }
+  return adapters;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
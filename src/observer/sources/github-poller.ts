@@ -2,17 +2,18 @@
  * GitHub Actions Poller — polls GitHub API for failed workflow runs.
  *
  * Converts failed workflow runs into TriggerEvents for the observer safety pipeline.
- * Follows the same pattern as sentry-poller.ts.
+ * One cursor (highest workflow run id) per watched repo.
  */
 
 import { randomUUID } from "node:crypto";
-import { logError, logInfo } from "../../logger.js";
+import { logInfo, logWarn } from "../../logger.js";
 import { parseRepoSlug } from "../../github.js";
 import type { TriggerEvent } from "../types.js";
-import type { ObserverStateStore } from "../state-store.js";
+import { collectPages, parseNextLink, type PollingAdapter, type PollResult } from "./polling-adapter.js";
 
 export interface GitHubPollerConfig {
-  githubToken: string;
+  /** Resolved on every poll so installation tokens stay fresh */
+  getToken: () => Promise<string>;
   watchedRepos: string[];
   pollIntervalSeconds: number;
   alertChannelId: string;
@@ -40,102 +41,112 @@ interface WorkflowRunsResponse {
 
 const GITHUB_API_BASE = "https://api.github.com";
 
+const PAGE_SIZE = 100;
+/** Bounds the API calls after downtime in a busy repo; older failures past it are skipped */
+const MAX_PAGES = 3;
+
 /**
  * Poll GitHub for failed workflow runs across configured repos.
- *
- * Returns TriggerEvents for workflow runs not yet seen (based on state store cursor).
+ * Keys are repo slugs.
  */
-export async function pollGitHub(
-  config: GitHubPollerConfig,
-  stateStore: ObserverStateStore
-): Promise<TriggerEvent[]> {
-  const events: TriggerEvent[] = [];
-
-  for (const repoSlug of config.watchedRepos) {
-    try {
-      const newEvents = await pollRepo(config, repoSlug, stateStore);
-      events.push(...newEvents);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : "unknown";
-      logError("GitHub poll failed for repo", { repo: repoSlug, error: msg });
-    }
-  }
-
-  return events;
+export function createGitHubPoller(config: GitHubPollerConfig): PollingAdapter {
+  return {
+    id: "github",
+    intervalSeconds: config.pollIntervalSeconds,
+    keys: () => config.watchedRepos,
+    fetchSince: (cursor, repoSlug) => pollRepo(config, repoSlug, cursor ? Number(cursor) : undefined)
+  };
 }
 
 async function pollRepo(
   config: GitHubPollerConfig,
   repoSlug: string,
-  stateStore: ObserverStateStore
-): Promise<TriggerEvent[]> {
+  lastRunId: number | undefined
+): Promise<PollResult> {
   const { owner, repo } = parseRepoSlug(repoSlug);
-  const lastRunId = await stateStore.getGithubLastRunId(repoSlug);
+  const token = await config.getToken();
 
-  const runs = await fetchFailedRuns(config.githubToken, owner, repo);
-  if (runs.length === 0) return [];
+  const { runs, capped } = await fetchFailedRuns(token, owner, repo, lastRunId);
+  if (capped) {
+    logWarn("GitHub: failed-run backlog exceeds one poll; skipping older runs", { repo: repoSlug, limit: PAGE_SIZE * MAX_PAGES });
+  }
 
   // Filter to only runs newer than our cursor
   const newRuns = lastRunId
     ? runs.filter(r => r.id > lastRunId)
     : runs;
 
-  if (newRuns.length === 0) return [];
+  if (newRuns.length === 0) return { events: [] };
 
   logInfo("GitHub: new failed runs found", { repo: repoSlug, count: newRuns.length });
 
-  // Update cursor to highest run ID
+  // Resume from the highest run ID, also when older runs were skipped
   const maxRunId = Math.max(...newRuns.map(r => r.id));
-  await stateStore.setGithubLastRunId(repoSlug, maxRunId);
-
-  return newRuns.map(run => ({
-    id: `gh-actions-${String(run.id)}-${randomUUID().slice(0, 8)}`,
-    source: "github_webhook" as const,
-    timestamp: run.updated_at,
-    repoSlug,
-    baseBranch: run.head_branch,
-    suggestedTask: buildFailedRunTask(run),
-    priority: "high" as const,
-    rawPayload: {
-      eventType: "workflow_run_failure",
-      repo: repoSlug,
-      runId: run.id,
-      name: run.name,
-      branch: run.head_branch,
-      sha: run.head_sha,
-      conclusion: run.conclusion,
-      url: run.html_url
-    },
-    notificationTarget: {
-      type: "slack" as const,
-      channelId: config.alertChannelId
-    }
-  }));
+
+  return {
+    cursor: String(maxRunId),
+    events: newRuns.map(run => ({
+      id: `gh-actions-${String(run.id)}-${randomUUID().slice(0, 8)}`,
+      source: "github_webhook" as const,
+      timestamp: run.updated_at,
+      repoSlug,
+      baseBranch: run.head_branch,
+      suggestedTask: buildFailedRunTask(run),
+      priority: "high" as const,
+      rawPayload: {
+        eventType: "workflow_run_failure",
+        repo: repoSlug,
+        runId: run.id,
+        name: run.name,
+        branch: run.head_branch,
+        sha: run.head_sha,
+        conclusion: run.conclusion,
+        url: run.html_url
+      },
+      notificationTarget: {
+        type: "slack" as const,
+        channelId: config.alertChannelId
+      }
+    }))
+  };
 }
 
+/**
+ * Recent failed workflow runs, newest first. Without a cursor only the first
+ * page is read; with one, pages are followed until a run at or below it (or
+ * the last page), up to MAX_PAGES. `capped` is set when runs newer than the
+ * cursor were left unread.
+ */
 async function fetchFailedRuns(
   token: string,
   owner: string,
-  repo: string
-): Promise<WorkflowRun[]> {
-  // Fetch recent failed workflow runs (last 10, sorted by most recent)
-  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/actions/runs?status=failure&per_page=10`;
-
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github+json",
-      "X-GitHub-Api-Version": "2022-11-28"
-    },
-    signal: AbortSignal.timeout(15_000)
-  });
-
-  if (!response.ok) {
-    throw new Error(`GitHub API ${String(response.status)}: ${response.statusText}`);
-  }
+  repo: string,
+  lastRunId: number | undefined
+): Promise<{ runs: WorkflowRun[]; capped: boolean }> {
+  let capped = false;
+  const firstPage = `${GITHUB_API_BASE}/repos/${owner}/${repo}/actions/runs?status=failure&per_page=${String(PAGE_SIZE)}`;
+
+  const runs = await collectPages<WorkflowRun>(async (next) => {
+    const response = await fetch(next ?? firstPage, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/vnd.github+json",
+        "X-GitHub-Api-Version": "2022-11-28"
+      },
+      signal: AbortSignal.timeout(15_000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub API ${String(response.status)}: ${response.statusText}`);
+    }
 
-  const data = (await response.json()) as WorkflowRunsResponse;
-  return data.workflow_runs;
+    const data = (await response.json()) as WorkflowRunsResponse;
+    const caughtUp = lastRunId === undefined || data.workflow_runs.some(r => r.id <= lastRunId);
+    const nextPage = caughtUp ? undefined : parseNextLink(response.headers.get("link"));
+    capped = nextPage !== undefined;
+    return { items: data.workflow_runs, next: nextPage };
+  }, MAX_PAGES);
+  return { runs, capped };
 }
 
 function buildFailedRunTask(run: WorkflowRun): string {
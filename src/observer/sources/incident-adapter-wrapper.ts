@@ -0,0 +1,22 @@
+/**
+ * Incident webhook adapter wrapper — bridges the incident webhook adapter
+ * into the generic WebhookAdapter interface (POST /webhooks/incident).
+ *
+ * Uses a factory function because incidents need an alert channel and the
+ * service → repo map at construction time.
+ */
+
+import type { WebhookAdapter } from "./adapter-registry.js";
+import { parseIncidentWebhook, verifyIncidentSignature, type IncidentAdapterOptions } from "./incident-webhook-adapter.js";
+
+export function createIncidentAdapter(options: IncidentAdapterOptions): WebhookAdapter {
+  return {
+    source: "incident",
+    verifySignature(body, headers, secret) {
+      return verifyIncidentSignature(body, headers, secret);
+    },
+    parseEvent(_headers, payload) {
+      return parseIncidentWebhook(payload, options);
+    }
+  };
+}
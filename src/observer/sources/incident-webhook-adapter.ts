@@ -0,0 +1,212 @@
+/**
+ * Incident Webhook Adapter — verifies and parses incident-manager webhooks
+ * (PagerDuty v3, Opsgenie) into TriggerEvents.
+ *
+ * Handles:
+ * - PagerDuty incident.triggered / incident.escalated / incident.reopened
+ * - Opsgenie alert Create / Escalate
+ *
+ * Signatures:
+ *   PagerDuty: x-pagerduty-signature: v1=<HMAC-SHA256 hex>[,v1=<hex>...]
+ *   Opsgenie has no payload signing; configure the webhook integration to send
+ *   the shared secret as `Authorization: Bearer <secret>` or `x-webhook-secret`.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import type { TriggerEvent, TriggerPriority } from "../types.js";
+
+export type IncidentProvider = "pagerduty" | "opsgenie";
+
+export interface IncidentAdapterOptions {
+  /** Slack channel for incident notifications */
+  alertChannelId: string;
+  /** Incident service (id or name) → repo slug */
+  serviceRepoMap?: Map<string, string>;
+}
+
+/** Normalized incident fields, stored as the event's rawPayload. */
+export interface IncidentPayload {
+  provider: IncidentProvider;
+  eventType: string;
+  incidentId: string;
+  title: string;
+  status?: string;
+  service?: string;
+  serviceId?: string;
+  urgency?: string;
+  /** Provider priority label, e.g. "P1" */
+  incidentPriority?: string;
+  runbookUrl?: string;
+  htmlUrl?: string;
+  description?: string;
+}
+
+const PAGERDUTY_EVENT_TYPES = new Set(["incident.triggered", "incident.escalated", "incident.reopened"]);
+const OPSGENIE_ACTIONS = new Set(["Create", "Escalate"]);
+const RUNBOOK_KEYS = ["runbook_url", "runbookUrl", "runbook"];
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a);
+  const bBuf = Buffer.from(b);
+  return aBuf.length === bBuf.length && timingSafeEqual(aBuf, bBuf);
+}
+
+/**
+ * Verify a PagerDuty v3 webhook signature. The header may carry several
+ * `v1=` signatures during secret rotation; any match is accepted.
+ */
+export function verifyPagerDutySignature(
+  body: string,
+  signatureHeader: string | undefined,
+  secret: string
+): boolean {
+  if (!signatureHeader) return false;
+  const expected = `v1=${createHmac("sha256", secret).update(body).digest("hex")}`;
+  return signatureHeader.split(",").some((signature) => safeEqual(signature.trim(), expected));
+}
+
+/** Verify an incident webhook: PagerDuty HMAC when signed, shared secret otherwise. */
+export function verifyIncidentSignature(body: string, headers: Record<string, string>, secret: string): boolean {
+  if (headers["x-pagerduty-signature"]) {
+    return verifyPagerDutySignature(body, headers["x-pagerduty-signature"], secret);
+  }
+  const bearer = headers["authorization"]?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const token = bearer ?? headers["x-webhook-secret"];
+  return token !== undefined && safeEqual(token, secret);
+}
+
+/**
+ * Map provider priority (P1–P5) or urgency to a TriggerPriority.
+ * Priority wins when both are present.
+ */
+export function mapIncidentPriority(incidentPriority: string | undefined, urgency: string | undefined): TriggerPriority {
+  switch (incidentPriority?.toUpperCase()) {
+    case "P1":
+      return "critical";
+    case "P2":
+      return "high";
+    case "P3":
+      return "medium";
+    case "P4":
+    case "P5":
+      return "low";
+  }
+  if (urgency === "high") return "high";
+  if (urgency === "low") return "low";
+  return "medium";
+}
+
+/**
+ * Parse an incident webhook payload into a TriggerEvent.
+ *
+ * Returns null for unknown payloads and non-actionable events (acknowledged,
+ * resolved, notes...).
+ */
+export function parseIncidentWebhook(payload: unknown, options: IncidentAdapterOptions): TriggerEvent | null {
+  if (!payload || typeof payload !== "object") return null;
+  const body = payload as Record<string, unknown>;
+
+  let incident: IncidentPayload | null = null;
+  if (isRecord(body["event"])) {
+    incident = parsePagerDutyEvent(body["event"]);
+  } else if (isRecord(body["alert"]) && typeof body["action"] === "string") {
+    incident = parseOpsgenieAlert(body["action"], body["alert"]);
+  }
+  if (!incident) return null;
+
+  const repoSlug = (incident.serviceId ? options.serviceRepoMap?.get(incident.serviceId) : undefined)
+    ?? (incident.service ? options.serviceRepoMap?.get(incident.service) : undefined);
+
+  return {
+    id: `incident-${incident.provider}-${incident.incidentId}-${randomUUID().slice(0, 8)}`,
+    source: "incident",
+    timestamp: new Date().toISOString(),
+    repoSlug,
+    suggestedTask: buildIncidentTask(incident),
+    priority: mapIncidentPriority(incident.incidentPriority, incident.urgency),
+    rawPayload: incident,
+    notificationTarget: {
+      type: "slack" as const,
+      channelId: options.alertChannelId
+    }
+  };
+}
+
+function parsePagerDutyEvent(event: Record<string, unknown>): IncidentPayload | null {
+  const eventType = event["event_type"];
+  if (typeof eventType !== "string" || !PAGERDUTY_EVENT_TYPES.has(eventType)) return null;
+
+  const data = event["data"];
+  if (!isRecord(data)) return null;
+  const incidentId = readString(data, "id");
+  if (!incidentId) return null;
+
+  const service = isRecord(data["service"]) ? data["service"] : undefined;
+  const priority = isRecord(data["priority"]) ? data["priority"] : undefined;
+  const details = isRecord(data["body"]) && isRecord(data["body"]["details"]) ? data["body"]["details"] : undefined;
+
+  return {
+    provider: "pagerduty",
+    eventType,
+    incidentId,
+    title: readString(data, "title") ?? "Untitled incident",
+    status: readString(data, "status"),
+    service: service ? readString(service, "summary") : undefined,
+    serviceId: service ? readString(service, "id") : undefined,
+    urgency: readString(data, "urgency"),
+    incidentPriority: priority ? readString(priority, "summary") : undefined,
+    runbookUrl: findRunbookUrl(data) ?? findRunbookUrl(details),
+    htmlUrl: readString(data, "html_url")
+  };
+}
+
+function parseOpsgenieAlert(action: string, alert: Record<string, unknown>): IncidentPayload | null {
+  if (!OPSGENIE_ACTIONS.has(action)) return null;
+  const incidentId = readString(alert, "alertId");
+  if (!incidentId) return null;
+
+  const details = isRecord(alert["details"]) ? alert["details"] : undefined;
+
+  return {
+    provider: "opsgenie",
+    eventType: `alert.${action.toLowerCase()}`,
+    incidentId,
+    title: readString(alert, "message") ?? "Untitled alert",
+    service: (details ? readString(details, "service") : undefined) ?? readString(alert, "entity"),
+    incidentPriority: readString(alert, "priority"),
+    runbookUrl: findRunbookUrl(details),
+    description: readString(alert, "description")
+  };
+}
+
+function buildIncidentTask(incident: IncidentPayload): string {
+  const lines = [`Investigate incident: ${incident.title}`];
+  const facts = [
+    incident.service ? `Service: ${incident.service}` : undefined,
+    incident.urgency ? `Urgency: ${incident.urgency}` : undefined,
+    incident.incidentPriority ? `Priority: ${incident.incidentPriority}` : undefined
+  ].filter(Boolean);
+  if (facts.length > 0) lines.push(facts.join(" | "));
+  if (incident.description) lines.push(`\n${incident.description}`);
+  if (incident.runbookUrl) lines.push(`\nRunbook: ${incident.runbookUrl} — follow it where it applies.`);
+  if (incident.htmlUrl) lines.push(`Incident link: ${incident.htmlUrl}`);
+  return lines.join("\n");
+}
+
+function findRunbookUrl(record: Record<string, unknown> | undefined): string | undefined {
+  if (!record) return undefined;
+  for (const key of RUNBOOK_KEYS) {
+    const value = record[key];
+    if (typeof value === "string" && /^https?:\/\//.test(value)) return value;
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(record: Record<string, unknown>, key: string): string | undefined {
+  const value = record[key];
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
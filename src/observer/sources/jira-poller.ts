@@ -0,0 +1,160 @@
+/**
+ * Jira Poller — runs a JQL query and reports the issues that newly match it.
+ *
+ * Each issue that joins the result set becomes a TriggerEvent (source "jira",
+ * deduplicated by issue key). Updates to an issue that already matched are not
+ * events, so comments and transitions written back by Gooseherd cannot loop.
+ * The cursor is the JSON list of issue keys that matched on the last poll.
+ */
+
+import { randomUUID } from "node:crypto";
+import { logInfo, logWarn } from "../../logger.js";
+import { normalizeJiraText, type JiraClient, type JiraSearchIssue } from "../../jira.js";
+import type { TriggerEvent, TriggerPriority } from "../types.js";
+import { collectPages, type PollingAdapter, type PollResult } from "./polling-adapter.js";
+
+export interface JiraPollerConfig {
+  client: Pick<JiraClient, "searchIssues" | "issueUrl">;
+  /** Issues to watch, e.g. `project = OPS AND labels = gooseherd` */
+  jql: string;
+  /** Jira project key → repo slug mapping */
+  repoMap: Map<string, string>;
+  pollIntervalSeconds: number;
+  alertChannelId: string;
+}
+
+const FIELDS = ["summary", "description", "status", "priority", "issuetype", "project", "labels", "assignee", "updated"];
+const PAGE_SIZE = 50;
+const MAX_PAGES = 5;
+const FIRST_POLL_LOOKBACK_MS = 5 * 60 * 1000;
+
+interface JiraPollCursor {
+  keys: string[];
+}
+
+/** Poll Jira for issues matching the configured JQL. */
+export function createJiraPoller(config: JiraPollerConfig): PollingAdapter {
+  return {
+    id: "jira",
+    intervalSeconds: config.pollIntervalSeconds,
+    fetchSince: (cursor) => pollIssues(config, cursor)
+  };
+}
+
+async function pollIssues(config: JiraPollerConfig, cursor: string | undefined): Promise<PollResult> {
+  const previous = parseCursor(cursor);
+  // Newest first, so a capped read drops the oldest issues, which the cursor already knows
+  const jql = `(${config.jql}) ORDER BY created DESC`;
+  const issues = await collectPages<JiraSearchIssue>(async (next) => {
+    const page = await config.client.searchIssues(jql, { fields: FIELDS, maxResults: PAGE_SIZE, nextPageToken: next });
+    return { items: page.issues, next: page.nextPageToken };
+  }, MAX_PAGES);
+
+  // A capped result set cannot show which issues stopped matching
+  const truncated = issues.length >= PAGE_SIZE * MAX_PAGES;
+  if (truncated) {
+    logWarn("Jira: JQL matches more issues than one poll reads; narrow OBSERVER_JIRA_JQL", { limit: PAGE_SIZE * MAX_PAGES });
+  }
+
+  let fresh: JiraSearchIssue[];
+  if (previous.keys) {
+    const known = new Set(previous.keys);
+    fresh = issues.filter((issue) => !known.has(issue.key));
+  } else {
+    // No baseline yet: only issues touched since the last poll (or recently) are new
+    fresh = issues.filter((issue) => updatedAt(issue) > previous.since);
+  }
+
+  const keys = new Set(issues.map((issue) => issue.key));
+  if (truncated) previous.keys?.forEach((key) => keys.add(key));
+  const next: JiraPollCursor = { keys: [...keys].sort() };
+
+  if (fresh.length > 0) {
+    logInfo("Jira: newly matching issues found", { count: fresh.length });
+  }
+  return {
+    cursor: JSON.stringify(next),
+    events: fresh.map((issue) => issueToEvent(config, issue))
+  };
+}
+
+/** The keys matched on the last poll, or the time to look back to without them. */
+function parseCursor(cursor: string | undefined): { keys?: string[]; since: number } {
+  const since = Date.now() - FIRST_POLL_LOOKBACK_MS;
+  if (!cursor) return { since };
+  if (cursor.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(cursor) as Partial<JiraPollCursor>;
+      if (Array.isArray(parsed.keys)) return { keys: parsed.keys.filter((key) => typeof key === "string"), since };
+    } catch {
+      // Fall through to a fresh baseline
+    }
+    return { since };
+  }
+  // Cursors from before key tracking hold the latest `updated` timestamp
+  const updated = Date.parse(cursor);
+  return { since: Number.isNaN(updated) ? since : updated };
+}
+
+export function mapJiraPriority(name: string | undefined): TriggerPriority {
+  switch (name?.toLowerCase()) {
+    case "highest":
+    case "blocker":
+      return "critical";
+    case "high":
+    case "critical":
+      return "high";
+    case "medium":
+      return "medium";
+    default:
+      return "low";
+  }
+}
+
+function updatedAt(issue: JiraSearchIssue): number {
+  const parsed = issue.fields.updated ? Date.parse(issue.fields.updated) : NaN;
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+function issueToEvent(config: JiraPollerConfig, issue: JiraSearchIssue): TriggerEvent {
+  const { fields } = issue;
+  const projectKey = fields.project?.key ?? issue.key.split("-")[0] ?? "";
+  const url = config.client.issueUrl(issue.key);
+  return {
+    id: `jira-${issue.key}-${randomUUID().slice(0, 8)}`,
+    source: "jira",
+    timestamp: new Date(updatedAt(issue) || Date.now()).toISOString(),
+    repoSlug: config.repoMap.get(projectKey),
+    suggestedTask: buildIssueTask(issue, url),
+    priority: mapJiraPriority(fields.priority?.name),
+    dedupKey: issue.key,
+    rawPayload: {
+      issueKey: issue.key,
+      issueId: issue.id,
+      projectKey,
+      summary: fields.summary ?? "",
+      status: fields.status?.name,
+      priority: fields.priority?.name,
+      issueType: fields.issuetype?.name,
+      labels: fields.labels ?? [],
+      assignee: fields.assignee?.displayName,
+      url,
+      updated: fields.updated
+    },
+    notificationTarget: {
+      type: "slack",
+      channelId: config.alertChannelId
+    }
+  };
+}
+
+function buildIssueTask(issue: JiraSearchIssue, url: string): string {
+  const lines: string[] = [];
+  lines.push(`${issue.key}: ${issue.fields.summary ?? ""}`.trim());
+  const description = normalizeJiraText(issue.fields.description);
+  if (description) {
+    lines.push(`\n${description}`);
+  }
+  lines.push(`\nJira: ${url}`);
+  return lines.join("\n");
+}
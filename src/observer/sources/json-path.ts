@@ -0,0 +1,66 @@
+/**
+ * Minimal JSONPath — the subset declarative adapters need to pull fields out
+ * of webhook payloads: `$`, `.name`, `['name']` / `["name"]` and `[0]`.
+ * No wildcards, filters or recursive descent.
+ */
+
+export type JsonPathSegment = string | number;
+
+export class JsonPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonPathError";
+  }
+}
+
+/** Parse a JSONPath into segments. Throws JsonPathError on unsupported syntax. */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  if (!path.startsWith("$")) {
+    throw new JsonPathError(`JSONPath must start with '$': ${path}`);
+  }
+  const segments: JsonPathSegment[] = [];
+  let i = 1;
+  while (i < path.length) {
+    const char = path[i];
+    if (char === ".") {
+      const match = /^[A-Za-z0-9_$-]+/.exec(path.slice(i + 1));
+      if (!match) throw new JsonPathError(`Expected a field name after '.' at ${String(i)} in ${path}`);
+      segments.push(match[0]);
+      i += 1 + match[0].length;
+      continue;
+    }
+    if (char === "[") {
+      const rest = path.slice(i);
+      const quoted = /^\[(['"])(.*?)\1\]/.exec(rest);
+      if (quoted) {
+        segments.push(quoted[2]!);
+        i += quoted[0].length;
+        continue;
+      }
+      const index = /^\[(\d+)\]/.exec(rest);
+      if (index) {
+        segments.push(Number(index[1]));
+        i += index[0].length;
+        continue;
+      }
+      throw new JsonPathError(`Unsupported bracket expression at ${String(i)} in ${path}`);
+    }
+    throw new JsonPathError(`Unexpected '${char ?? ""}' at ${String(i)} in ${path}`);
+  }
+  return segments;
+}
+
+/** Read the value at `segments`; undefined when any step is missing. */
+export function readJsonPath(document: unknown, segments: JsonPathSegment[]): unknown {
+  let current: unknown = document;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") return undefined;
+    if (typeof segment === "number") {
+      if (!Array.isArray(current)) return undefined;
+      current = current[segment];
+    } else {
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return current;
+}
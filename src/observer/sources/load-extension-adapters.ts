@@ -3,6 +3,7 @@
  *
  * Convention: each file should export a `default` or named `adapter` that is a WebhookAdapter,
  * or a factory function `createAdapter(config)` that returns a WebhookAdapter.
+ * Polling sources export a named `poller` (PollingAdapter) or a `createPoller(config)` factory.
  *
  * Files are discovered by scanning the directory for `.ts` and `.js` files (excluding `.d.ts`).
  * Invalid files are skipped with a warning — a bad extension never crashes the daemon.
@@ -12,6 +13,7 @@ import { readdir } from "node:fs/promises";
 import path from "node:path";
 import { logInfo, logWarn } from "../../logger.js";
 import { registerAdapter, type WebhookAdapter } from "./adapter-registry.js";
+import type { PollingAdapter } from "./polling-adapter.js";
 
 /** Check whether a value quacks like a WebhookAdapter. */
 function isWebhookAdapter(value: unknown): value is WebhookAdapter {
@@ -24,16 +26,23 @@ function isWebhookAdapter(value: unknown): value is WebhookAdapter {
   );
 }
 
-/**
- * Scan `dir` for adapter files, dynamically import them, and register valid adapters.
- *
- * Returns the list of successfully loaded adapters.
- * Returns an empty array when the directory is missing or empty.
- */
-export async function loadExtensionAdapters(
-  dir: string,
-  config?: Record<string, unknown>
-): Promise<WebhookAdapter[]> {
+/** Check whether a value quacks like a PollingAdapter. */
+function isPollingAdapter(value: unknown): value is PollingAdapter {
+  if (value == null || typeof value !== "object") return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.id === "string" &&
+    typeof obj.intervalSeconds === "number" &&
+    obj.intervalSeconds > 0 &&
+    typeof obj.fetchSince === "function"
+  );
+}
+
+function hasPollerExport(mod: Record<string, unknown>): boolean {
+  return mod.poller !== undefined || typeof mod.createPoller === "function";
+}
+
+async function listExtensionFiles(dir: string): Promise<string[]> {
   let entries: string[];
   try {
     entries = await readdir(dir);
@@ -41,12 +50,23 @@ export async function loadExtensionAdapters(
     // Directory doesn't exist or isn't readable — perfectly fine
     return [];
   }
-
-  const adapterFiles = entries.filter((f) => {
+  return entries.filter((f) => {
     if (f.endsWith(".d.ts")) return false;
     return f.endsWith(".ts") || f.endsWith(".js");
   });
+}
 
+/**
+ * Scan `dir` for adapter files, dynamically import them, and register valid adapters.
+ *
+ * Returns the list of successfully loaded adapters.
+ * Returns an empty array when the directory is missing or empty.
+ */
+export async function loadExtensionAdapters(
+  dir: string,
+  config?: Record<string, unknown>
+): Promise<WebhookAdapter[]> {
+  const adapterFiles = await listExtensionFiles(dir);
   if (adapterFiles.length === 0) return [];
 
   const loaded: WebhookAdapter[] = [];
@@ -97,8 +117,59 @@ export async function loadExtensionAdapters(
       continue;
     }
 
+    // Poller-only files are picked up by loadExtensionPollers
+    if (hasPollerExport(mod)) continue;
+
     logWarn("Observer: extension file has no valid adapter export", { file });
   }
 
   return loaded;
 }
+
+/**
+ * Scan `dir` for polling adapter exports. Pollers whose id is already taken
+ * (built-in pollers or an earlier file) are skipped with a warning.
+ */
+export async function loadExtensionPollers(
+  dir: string,
+  options: { reservedIds?: string[]; config?: Record<string, unknown> } = {}
+): Promise<PollingAdapter[]> {
+  const files = await listExtensionFiles(dir);
+  const taken = new Set(options.reservedIds ?? []);
+  const loaded: PollingAdapter[] = [];
+
+  for (const file of files) {
+    let mod: Record<string, unknown>;
+    try {
+      mod = (await import(path.resolve(dir, file))) as Record<string, unknown>;
+    } catch {
+      // Import failures are already reported by loadExtensionAdapters
+      continue;
+    }
+    if (!hasPollerExport(mod)) continue;
+
+    let poller: unknown = mod.poller;
+    if (poller === undefined) {
+      try {
+        poller = (mod.createPoller as (cfg?: Record<string, unknown>) => unknown)(options.config);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        logWarn("Observer: createPoller factory threw", { file, error: msg });
+        continue;
+      }
+    }
+    if (!isPollingAdapter(poller)) {
+      logWarn("Observer: extension file has invalid poller export", { file });
+      continue;
+    }
+    if (taken.has(poller.id)) {
+      logWarn("Observer: extension poller id already in use", { file, id: poller.id });
+      continue;
+    }
+    taken.add(poller.id);
+    loaded.push(poller);
+    logInfo("Observer: loaded extension poller", { file, id: poller.id });
+  }
+
+  return loaded;
+}
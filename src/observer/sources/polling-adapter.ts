@@ -0,0 +1,164 @@
+/**
+ * Polling adapters — sources without webhooks, polled on a jittered schedule.
+ *
+ * An adapter implements `fetchSince(cursor)`: return the events newer than
+ * the cursor and the cursor to resume from. The framework persists cursors in
+ * `observer_poll_cursors` (one per adapter id and key), backs off on errors
+ * and spreads polls with jitter so pollers don't fire in lockstep.
+ */
+
+import { logError, logInfo, logWarn } from "../../logger.js";
+import type { TriggerEvent } from "../types.js";
+
+/** Key for adapters that keep a single cursor. */
+export const DEFAULT_POLL_KEY = "default";
+
+const JITTER_RATIO = 0.1;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export interface PollResult {
+  events: TriggerEvent[];
+  /** Cursor to resume from; omit to keep the current one */
+  cursor?: string;
+}
+
+export interface PollingAdapter {
+  /** Cursor namespace (`observer_poll_cursors.source_type`) and log label */
+  id: string;
+  intervalSeconds: number;
+  /** Independently cursored keys, e.g. one per project (default: a single key) */
+  keys?(): string[];
+  /** Events newer than `cursor` (undefined on the first poll) for `key`. */
+  fetchSince(cursor: string | undefined, key: string): Promise<PollResult>;
+}
+
+export interface PollCursorStore {
+  getPollCursor(sourceType: string, sourceKey: string): Promise<string | undefined>;
+  setPollCursor(sourceType: string, sourceKey: string, cursorValue: string): Promise<void>;
+}
+
+export interface PollCycleResult {
+  events: TriggerEvent[];
+  failedKeys: string[];
+}
+
+export interface PollerHandle {
+  stop(): void;
+}
+
+/**
+ * Poll every key once. A failing key is logged and keeps its cursor; the
+ * other keys still advance.
+ */
+export async function runPollCycle(adapter: PollingAdapter, cursors: PollCursorStore): Promise<PollCycleResult> {
+  const events: TriggerEvent[] = [];
+  const failedKeys: string[] = [];
+  for (const key of adapter.keys?.() ?? [DEFAULT_POLL_KEY]) {
+    try {
+      const cursor = await cursors.getPollCursor(adapter.id, key);
+      const result = await adapter.fetchSince(cursor, key);
+      if (result.cursor !== undefined && result.cursor !== cursor) {
+        await cursors.setPollCursor(adapter.id, key, result.cursor);
+      }
+      events.push(...result.events);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      logError("Observer: poll failed", { poller: adapter.id, key, error: msg });
+      failedKeys.push(key);
+    }
+  }
+  return { events, failedKeys };
+}
+
+/**
+ * Delay before the next poll: the interval, doubled per consecutive failed
+ * cycle up to an hour, with ±10% jitter.
+ */
+export function nextPollDelayMs(intervalMs: number, consecutiveFailures: number, random: () => number = Math.random): number {
+  const base = consecutiveFailures > 0
+    ? Math.max(intervalMs, Math.min(intervalMs * 2 ** consecutiveFailures, MAX_BACKOFF_MS))
+    : intervalMs;
+  return Math.round(base * (1 + (random() * 2 - 1) * JITTER_RATIO));
+}
+
+/**
+ * Poll once now, then keep polling on the jittered schedule. `onEvents`
+ * receives each cycle's events.
+ */
+export async function startPollingAdapter(
+  adapter: PollingAdapter,
+  options: { cursors: PollCursorStore; onEvents: (events: TriggerEvent[]) => Promise<void> | void; random?: () => number }
+): Promise<PollerHandle> {
+  const intervalMs = adapter.intervalSeconds * 1000;
+  let failures = 0;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const cycle = async (): Promise<void> => {
+    const { events, failedKeys } = await runPollCycle(adapter, options.cursors);
+    failures = failedKeys.length > 0 ? failures + 1 : 0;
+    if (events.length > 0) {
+      logInfo("Observer: poll produced events", { poller: adapter.id, count: events.length });
+      await options.onEvents(events);
+    }
+    if (failures > 1) {
+      logWarn("Observer: poller backing off", { poller: adapter.id, consecutiveFailures: failures });
+    }
+  };
+
+  const schedule = (): void => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      cycle()
+        .catch((err: unknown) => {
+          const msg = err instanceof Error ? err.message : "unknown";
+          logError("Observer: poll cycle error", { poller: adapter.id, error: msg });
+        })
+        .finally(schedule);
+    }, nextPollDelayMs(intervalMs, failures, options.random));
+    timer.unref?.();
+  };
+
+  await cycle();
+  schedule();
+  logInfo("Observer: poller started", { poller: adapter.id, intervalSeconds: adapter.intervalSeconds });
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    }
+  };
+}
+
+// ── Pagination helpers ──
+
+/**
+ * Collect items across pages. `fetchPage` gets the previous page's `next`
+ * token (undefined for the first page); stops when `next` is absent or after
+ * `maxPages`.
+ */
+export async function collectPages<T>(
+  fetchPage: (next: string | undefined) => Promise<{ items: T[]; next?: string }>,
+  maxPages = 10
+): Promise<T[]> {
+  const items: T[] = [];
+  let next: string | undefined;
+  for (let page = 0; page < maxPages; page++) {
+    const result = await fetchPage(next);
+    items.push(...result.items);
+    if (!result.next) break;
+    next = result.next;
+  }
+  return items;
+}
+
+/** URL of the `rel="next"` entry in an RFC 8288 Link header (GitHub style). */
+export function parseNextLink(header: string | null | undefined): string | undefined {
+  if (!header) return undefined;
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
@@ -2,12 +2,13 @@
  * Sentry Poller — polls Sentry REST API for new unresolved issues.
  *
  * Converts Sentry issues into TriggerEvents for the observer safety pipeline.
+ * One cursor (latest `lastSeen`) per Sentry project.
  */
 
 import { randomUUID } from "node:crypto";
-import { logError, logInfo } from "../../logger.js";
+import { logInfo } from "../../logger.js";
 import type { TriggerEvent, TriggerPriority } from "../types.js";
-import type { ObserverStateStore } from "../state-store.js";
+import type { PollingAdapter, PollResult } from "./polling-adapter.js";
 
 export interface SentryPollerConfig {
   authToken: string;
@@ -58,48 +59,35 @@ const SENTRY_API_BASE = "https://sentry.io/api/0";
 
 /**
  * Poll Sentry for new unresolved issues across configured projects.
- *
- * Returns TriggerEvents for issues not yet seen (based on state store cursor).
+ * Keys are Sentry project slugs.
  */
-export async function pollSentry(
-  config: SentryPollerConfig,
-  stateStore: ObserverStateStore
-): Promise<TriggerEvent[]> {
-  const events: TriggerEvent[] = [];
-
-  for (const [projectSlug, repoSlug] of config.repoMap) {
-    try {
-      const newEvents = await pollProject(config, projectSlug, repoSlug, stateStore);
-      events.push(...newEvents);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : "unknown";
-      logError("Sentry poll failed for project", { project: projectSlug, error: msg });
-    }
-  }
-
-  return events;
+export function createSentryPoller(config: SentryPollerConfig): PollingAdapter {
+  return {
+    id: "sentry",
+    intervalSeconds: config.pollIntervalSeconds,
+    keys: () => Array.from(config.repoMap.keys()),
+    fetchSince: (cursor, projectSlug) => pollProject(config, projectSlug, config.repoMap.get(projectSlug) ?? "", cursor)
+  };
 }
 
 async function pollProject(
   config: SentryPollerConfig,
   projectSlug: string,
   repoSlug: string,
-  stateStore: ObserverStateStore
-): Promise<TriggerEvent[]> {
-  const lastPoll = await stateStore.getSentryLastPoll(projectSlug);
+  lastPoll: string | undefined
+): Promise<PollResult> {
   const since = lastPoll ?? new Date(Date.now() - 5 * 60 * 1000).toISOString();
 
   const issues = await fetchNewIssues(config, projectSlug, since);
-  if (issues.length === 0) return [];
+  if (issues.length === 0) return { events: [] };
 
   logInfo("Sentry: new issues found", { project: projectSlug, count: issues.length });
 
-  // Update cursor to latest issue timestamp
+  // Resume from the latest issue timestamp
   const latestTimestamp = issues.reduce(
     (max, issue) => (issue.lastSeen > max ? issue.lastSeen : max),
     since
   );
-  await stateStore.setSentryLastPoll(projectSlug, latestTimestamp);
 
   const events: TriggerEvent[] = [];
 
@@ -131,7 +119,7 @@ async function pollProject(
     });
   }
 
-  return events;
+  return { events, cursor: latestTimestamp };
 }
 
 async function fetchNewIssues(
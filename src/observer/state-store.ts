@@ -281,26 +281,9 @@ export class ObserverStateStore {
     };
   }
 
-  // ── Poll cursors (Sentry + GitHub) ──
+  // ── Poll cursors (see sources/polling-adapter.ts) ──
 
-  async getSentryLastPoll(project: string): Promise<string | undefined> {
-    return this.getCursor("sentry", project);
-  }
-
-  async setSentryLastPoll(project: string, timestamp: string): Promise<void> {
-    await this.setCursor("sentry", project, timestamp);
-  }
-
-  async getGithubLastRunId(repoSlug: string): Promise<number | undefined> {
-    const value = await this.getCursor("github", repoSlug);
-    return value ? Number(value) : undefined;
-  }
-
-  async setGithubLastRunId(repoSlug: string, runId: number): Promise<void> {
-    await this.setCursor("github", repoSlug, String(runId));
-  }
-
-  private async getCursor(sourceType: string, sourceKey: string): Promise<string | undefined> {
+  async getPollCursor(sourceType: string, sourceKey: string): Promise<string | undefined> {
     const rows = await this.db
       .select()
       .from(observerPollCursors)
@@ -313,7 +296,7 @@ export class ObserverStateStore {
     return rows[0]?.cursorValue;
   }
 
-  private async setCursor(sourceType: string, sourceKey: string, cursorValue: string): Promise<void> {
+  async setPollCursor(sourceType: string, sourceKey: string, cursorValue: string): Promise<void> {
     await this.db.execute(sql`
       INSERT INTO observer_poll_cursors (source_type, source_key, cursor_value)
       VALUES (${sourceType}, ${sourceKey}, ${cursorValue})
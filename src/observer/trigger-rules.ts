@@ -1,16 +1,29 @@
 /**
  * Trigger rules: load YAML rules, match events against rules.
  *
+ * Conditions are leaves (`{field, operator, value}`) or nested `all` / `any` /
+ * `not` groups; the top-level list is ANDed.
+ *
  * Follows the same pattern as pipeline-loader.ts.
  */
 
 import { readFile } from "node:fs/promises";
 import { parse as parseYaml } from "yaml";
 import { logWarn } from "../logger.js";
-import type { TriggerEvent, TriggerRule, TriggerSource, RuleCondition, ConditionOperator } from "./types.js";
+import type {
+  TriggerEvent,
+  TriggerRule,
+  TriggerSource,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  ConditionOperator
+} from "./types.js";
 
-const KNOWN_SOURCES = new Set<string>(["sentry_alert", "github_webhook", "slack_observer", "cron"]);
-const VALID_OPERATORS = new Set<string>(["equals", "contains", "matches", "exists"]);
+const KNOWN_SOURCES = new Set<string>(["sentry_alert", "github_webhook", "slack_observer", "cron", "incident", "jira"]);
+const VALID_OPERATORS = new Set<string>(["equals", "contains", "matches", "exists", "gt", "gte", "lt", "lte", "in"]);
+const NUMERIC_OPERATORS = new Set<string>(["gt", "gte", "lt", "lte"]);
+const GROUP_KEYS = ["all", "any", "not"] as const;
 
 export class TriggerRulesLoadError extends Error {
   constructor(message: string) {
@@ -30,7 +43,13 @@ export async function loadTriggerRules(yamlPath: string): Promise<TriggerRule[]>
     // No rules file — return empty (observer runs with no rules = no auto triggers)
     return [];
   }
+  return parseTriggerRulesYaml(raw);
+}
 
+/**
+ * Parse and validate the contents of a trigger rules file.
+ */
+export function parseTriggerRulesYaml(raw: string): TriggerRule[] {
   let parsed: unknown;
   try {
     parsed = parseYaml(raw);
@@ -54,68 +73,126 @@ export async function loadTriggerRules(yamlPath: string): Promise<TriggerRule[]>
   const seenIds = new Set<string>();
 
   for (let i = 0; i < rawRules.length; i++) {
-    const raw = rawRules[i] as Record<string, unknown>;
-    const label = `rule[${String(i)}]`;
+    const rule = parseTriggerRule(rawRules[i], `rule[${String(i)}]`);
+    if (seenIds.has(rule.id)) {
+      throw new TriggerRulesLoadError(`rule[${String(i)}]: duplicate rule id '${rule.id}'`);
+    }
+    seenIds.add(rule.id);
+    rules.push(rule);
+  }
+
+  return rules;
+}
+
+/**
+ * Validate a single rule object (one entry of `trigger_rules`).
+ */
+export function parseTriggerRule(input: unknown, label = "rule"): TriggerRule {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new TriggerRulesLoadError(`${label}: must be an object`);
+  }
+  const raw = input as Record<string, unknown>;
+
+  // Validate id
+  if (typeof raw["id"] !== "string" || !raw["id"].trim()) {
+    throw new TriggerRulesLoadError(`${label}: must have a string 'id'`);
+  }
 
-    // Validate id
-    if (typeof raw["id"] !== "string" || !raw["id"].trim()) {
-      throw new TriggerRulesLoadError(`${label}: must have a string 'id'`);
+  // Validate source
+  if (typeof raw["source"] !== "string" || !raw["source"].trim()) {
+    throw new TriggerRulesLoadError(`${label} (${raw["id"]}): source must be a non-empty string`);
+  }
+  if (!KNOWN_SOURCES.has(raw["source"])) {
+    // Warn but don't reject — extensible sources are allowed
+    logWarn("Trigger rule uses unknown source", { ruleId: raw["id"], source: raw["source"] });
+  }
+
+  // Validate conditions
+  const conditions: RuleConditionNode[] = [];
+  if (raw["conditions"]) {
+    if (!Array.isArray(raw["conditions"])) {
+      throw new TriggerRulesLoadError(`${label} (${raw["id"]}): conditions must be an array`);
     }
-    if (seenIds.has(raw["id"])) {
-      throw new TriggerRulesLoadError(`${label}: duplicate rule id '${raw["id"]}'`);
+    for (const cond of raw["conditions"] as unknown[]) {
+      conditions.push(parseConditionNode(cond, `${label} (${raw["id"]})`));
     }
-    seenIds.add(raw["id"]);
+  }
 
-    // Validate source
-    if (typeof raw["source"] !== "string" || !raw["source"].trim()) {
-      throw new TriggerRulesLoadError(`${label} (${raw["id"]}): source must be a non-empty string`);
+  return {
+    id: raw["id"],
+    source: raw["source"] as TriggerSource,
+    conditions,
+    pipeline: typeof raw["pipeline"] === "string" ? raw["pipeline"] : undefined,
+    requiresApproval: raw["requiresApproval"] === true,
+    notificationChannel: typeof raw["notificationChannel"] === "string" ? raw["notificationChannel"] : undefined,
+    cooldownMinutes: typeof raw["cooldownMinutes"] === "number" ? raw["cooldownMinutes"] : 60,
+    maxRunsPerHour: typeof raw["maxRunsPerHour"] === "number" ? raw["maxRunsPerHour"] : 5,
+    repoSlug: typeof raw["repoSlug"] === "string" ? raw["repoSlug"] : undefined,
+    task: typeof raw["task"] === "string" ? raw["task"] : undefined,
+    baseBranch: typeof raw["baseBranch"] === "string" ? raw["baseBranch"] : undefined,
+    skipTriage: raw["skipTriage"] === true,
+    minOccurrences: typeof raw["minOccurrences"] === "number" ? raw["minOccurrences"] : undefined,
+    minAgeMinutes: typeof raw["minAgeMinutes"] === "number" ? raw["minAgeMinutes"] : undefined,
+    minUserCount: typeof raw["minUserCount"] === "number" ? raw["minUserCount"] : undefined
+  };
+}
+
+/**
+ * Validate a condition: a `{field, operator, value}` leaf or an
+ * `all` / `any` / `not` group of further conditions.
+ */
+export function parseConditionNode(input: unknown, where: string): RuleConditionNode {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new TriggerRulesLoadError(`${where}: each condition must be an object`);
+  }
+  const cond = input as Record<string, unknown>;
+
+  const groupKeys = GROUP_KEYS.filter(key => key in cond);
+  if (groupKeys.length > 0) {
+    if (groupKeys.length > 1 || Object.keys(cond).length > 1) {
+      throw new TriggerRulesLoadError(`${where}: a condition group must have exactly one of: ${GROUP_KEYS.join(", ")}`);
     }
-    if (!KNOWN_SOURCES.has(raw["source"])) {
-      // Warn but don't reject — extensible sources are allowed
-      logWarn("Trigger rule uses unknown source", { ruleId: raw["id"], source: raw["source"] });
+    const key = groupKeys[0]!;
+    if (key === "not") {
+      return { not: parseConditionNode(cond["not"], where) };
     }
+    const children = cond[key];
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new TriggerRulesLoadError(`${where}: '${key}' must be a non-empty array of conditions`);
+    }
+    const nodes = children.map(child => parseConditionNode(child, where));
+    return key === "all" ? { all: nodes } : { any: nodes };
+  }
 
-    // Validate conditions
-    const conditions: RuleCondition[] = [];
-    if (raw["conditions"]) {
-      if (!Array.isArray(raw["conditions"])) {
-        throw new TriggerRulesLoadError(`${label} (${raw["id"]}): conditions must be an array`);
-      }
-      for (const cond of raw["conditions"] as Record<string, unknown>[]) {
-        if (typeof cond["field"] !== "string") {
-          throw new TriggerRulesLoadError(`${label} (${raw["id"]}): condition.field must be a string`);
-        }
-        if (typeof cond["operator"] !== "string" || !VALID_OPERATORS.has(cond["operator"])) {
-          throw new TriggerRulesLoadError(`${label} (${raw["id"]}): condition.operator must be one of: ${Array.from(VALID_OPERATORS).join(", ")}`);
-        }
-        conditions.push({
-          field: cond["field"],
-          operator: cond["operator"] as ConditionOperator,
-          value: cond["value"] !== undefined ? String(cond["value"]) : undefined
-        });
-      }
+  if (typeof cond["field"] !== "string") {
+    throw new TriggerRulesLoadError(`${where}: condition.field must be a string`);
+  }
+  if (typeof cond["operator"] !== "string" || !VALID_OPERATORS.has(cond["operator"])) {
+    throw new TriggerRulesLoadError(`${where}: condition.operator must be one of: ${Array.from(VALID_OPERATORS).join(", ")}`);
+  }
+  const operator = cond["operator"] as ConditionOperator;
+  const value = cond["value"];
+
+  if (operator === "in") {
+    if (!Array.isArray(value) || value.length === 0 || value.some(entry => entry === null || typeof entry === "object")) {
+      throw new TriggerRulesLoadError(`${where}: '${cond["field"]}' in — value must be a non-empty list of scalars`);
     }
+    return { field: cond["field"], operator, values: value.map(entry => String(entry)) };
+  }
 
-    rules.push({
-      id: raw["id"],
-      source: raw["source"] as TriggerSource,
-      conditions,
-      pipeline: typeof raw["pipeline"] === "string" ? raw["pipeline"] : undefined,
-      requiresApproval: raw["requiresApproval"] === true,
-      notificationChannel: typeof raw["notificationChannel"] === "string" ? raw["notificationChannel"] : undefined,
-      cooldownMinutes: typeof raw["cooldownMinutes"] === "number" ? raw["cooldownMinutes"] : 60,
-      maxRunsPerHour: typeof raw["maxRunsPerHour"] === "number" ? raw["maxRunsPerHour"] : 5,
-      repoSlug: typeof raw["repoSlug"] === "string" ? raw["repoSlug"] : undefined,
-      task: typeof raw["task"] === "string" ? raw["task"] : undefined,
-      baseBranch: typeof raw["baseBranch"] === "string" ? raw["baseBranch"] : undefined,
-      skipTriage: raw["skipTriage"] === true,
-      minOccurrences: typeof raw["minOccurrences"] === "number" ? raw["minOccurrences"] : undefined,
-      minAgeMinutes: typeof raw["minAgeMinutes"] === "number" ? raw["minAgeMinutes"] : undefined,
-      minUserCount: typeof raw["minUserCount"] === "number" ? raw["minUserCount"] : undefined
-    });
+  if (NUMERIC_OPERATORS.has(operator) && toNumber(value) === undefined) {
+    throw new TriggerRulesLoadError(`${where}: '${cond["field"]}' ${operator} — value must be a number`);
   }
 
-  return rules;
+  return {
+    field: cond["field"],
+    operator,
+    value: value !== undefined ? String(value) : undefined
+  };
+}
+
+export function isConditionGroup(node: RuleConditionNode): node is RuleConditionGroup {
+  return "all" in node || "any" in node || "not" in node;
 }
 
 /**
@@ -127,13 +204,23 @@ export function matchTriggerRule(event: TriggerEvent, rules: TriggerRule[]): Tri
   for (const rule of rules) {
     if (rule.source !== event.source) continue;
 
-    // Check all conditions
-    const allMatch = rule.conditions.every(cond => evaluateCondition(event, cond));
+    // Top-level conditions are ANDed
+    const allMatch = rule.conditions.every(node => evaluateConditionNode(event, node));
     if (allMatch) return rule;
   }
   return null;
 }
 
+/**
+ * Evaluate a condition or condition group against a TriggerEvent.
+ */
+export function evaluateConditionNode(event: TriggerEvent, node: RuleConditionNode): boolean {
+  if ("all" in node) return node.all.every(child => evaluateConditionNode(event, child));
+  if ("any" in node) return node.any.some(child => evaluateConditionNode(event, child));
+  if ("not" in node) return !evaluateConditionNode(event, node.not);
+  return evaluateCondition(event, node);
+}
+
 /**
  * Evaluate a single condition against a TriggerEvent.
  *
@@ -162,11 +249,88 @@ export function evaluateCondition(event: TriggerEvent, condition: RuleCondition)
       }
     }
 
+    case "in":
+      return fieldValue !== undefined && fieldValue !== null
+        && (condition.values ?? []).includes(String(fieldValue));
+
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      const actual = toNumber(fieldValue);
+      const expected = toNumber(condition.value);
+      if (actual === undefined || expected === undefined) return false;
+      if (condition.operator === "gt") return actual > expected;
+      if (condition.operator === "gte") return actual >= expected;
+      if (condition.operator === "lt") return actual < expected;
+      return actual <= expected;
+    }
+
     default:
       return false;
   }
 }
 
+// ── Rule testing ──
+
+/** Per-condition result tree, mirroring the rule's condition structure. */
+export type ConditionTrace =
+  | { type: "condition"; condition: RuleCondition; matched: boolean; actual: unknown }
+  | { type: "all" | "any" | "not"; matched: boolean; children: ConditionTrace[] };
+
+export interface RuleMatchExplanation {
+  ruleId: string;
+  matched: boolean;
+  sourceMatched: boolean;
+  /** One entry per top-level condition (ANDed) */
+  conditions: ConditionTrace[];
+}
+
+/**
+ * Evaluate every condition of a rule (no short-circuiting) so the caller can
+ * see which parts matched. Backs `POST /api/observer/rules/test`.
+ */
+export function explainRuleMatch(event: TriggerEvent, rule: TriggerRule): RuleMatchExplanation {
+  const conditions = rule.conditions.map(node => traceConditionNode(event, node));
+  const sourceMatched = rule.source === event.source;
+  return {
+    ruleId: rule.id,
+    matched: sourceMatched && conditions.every(trace => trace.matched),
+    sourceMatched,
+    conditions
+  };
+}
+
+function traceConditionNode(event: TriggerEvent, node: RuleConditionNode): ConditionTrace {
+  if ("all" in node) {
+    const children = node.all.map(child => traceConditionNode(event, child));
+    return { type: "all", matched: children.every(child => child.matched), children };
+  }
+  if ("any" in node) {
+    const children = node.any.map(child => traceConditionNode(event, child));
+    return { type: "any", matched: children.some(child => child.matched), children };
+  }
+  if ("not" in node) {
+    const child = traceConditionNode(event, node.not);
+    return { type: "not", matched: !child.matched, children: [child] };
+  }
+  return {
+    type: "condition",
+    condition: node,
+    matched: evaluateCondition(event, node),
+    actual: resolveFieldPath(event, node.field)
+  };
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
 /**
  * Resolve a dot-separated field path against an object.
  * e.g., "rawPayload.data.level" → event.rawPayload.data.level
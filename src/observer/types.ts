@@ -30,6 +30,8 @@ export interface TriggerEvent {
   rawPayload: unknown;
   /** Pipeline hint: "bugfix" | "chore" | "follow-up" */
   pipelineHint?: string;
+  /** Source-provided dedup identity (declarative adapters); see buildDedupKey */
+  dedupKey?: string;
   /** Where to send notifications about this trigger */
   notificationTarget: {
     type: "slack" | "dashboard_only";
@@ -39,18 +41,31 @@ export interface TriggerEvent {
 
 // ── Trigger rules ──
 
-export type ConditionOperator = "equals" | "contains" | "matches" | "exists";
+export type ConditionOperator =
+  | "equals" | "contains" | "matches" | "exists"
+  | "gt" | "gte" | "lt" | "lte" | "in";
 
 export interface RuleCondition {
   field: string;
   operator: ConditionOperator;
   value?: string;
+  /** Candidate values for the `in` operator */
+  values?: string[];
 }
 
+/** Boolean group of conditions; groups nest arbitrarily. */
+export type RuleConditionGroup =
+  | { all: RuleConditionNode[] }
+  | { any: RuleConditionNode[] }
+  | { not: RuleConditionNode };
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
 export interface TriggerRule {
   id: string;
   source: TriggerSource;
-  conditions: RuleCondition[];
+  /** Top-level entries are ANDed */
+  conditions: RuleConditionNode[];
   pipeline?: string;
   requiresApproval: boolean;
   notificationChannel?: string;
@@ -74,9 +89,15 @@ export interface TriggerRule {
 
 // ── Safety pipeline ──
 
+export type SafetyCheck =
+  | "dedup" | "thresholds" | "allowlist" | "rate_limit"
+  | "budget" | "repo_budget" | "cooldown" | "spend_budget";
+
 export interface SafetyDecision {
   action: "allow" | "deny";
   reason: string;
+  /** Which check denied the event (set by runSafetyChecks) */
+  check?: SafetyCheck;
 }
 
 export interface RateLimitCounters {
@@ -141,9 +162,11 @@ export interface ObserverEventRecord {
   timestamp: string;
   repoSlug?: string;
   matchedRuleId?: string;
-  outcome: "triggered" | "denied" | "no_match" | "approval_required";
+  outcome: "triggered" | "denied" | "no_match" | "approval_required" | "escalated" | "discarded" | "deferred" | "clustered";
   reason: string;
   runId?: string;
+  /** Alert cluster the event was held in (see alert-clustering.ts) */
+  clusterId?: string;
   processedAt: string;
 }
 
@@ -162,3 +185,36 @@ export interface ObserverState {
   /** Per-rule outcome tracking for the learning loop */
   ruleOutcomes: Record<string, RuleOutcomeStats>;
 }
+
+// ── Escalations (smart-triage "escalate" decisions) ──
+
+export type EscalationStatus = "open" | "acknowledged" | "converted" | "dismissed";
+
+export interface EscalationAuditEntry {
+  action: "escalated" | "acknowledged" | "converted" | "dismissed" | "reopened";
+  /** "observer" for the initial escalation, otherwise "slack:<user>" or a dashboard principal */
+  actor: string;
+  at: string;
+  note?: string;
+  runId?: string;
+}
+
+export interface EscalationRecord {
+  id: string;
+  eventId: string;
+  source: TriggerSource;
+  ruleId: string;
+  repoSlug?: string;
+  priority: TriggerPriority;
+  reason: string;
+  confidence: number;
+  status: EscalationStatus;
+  event: TriggerEvent;
+  rule: TriggerRule;
+  slackChannelId?: string;
+  slackMessageTs?: string;
+  runId?: string;
+  audit: EscalationAuditEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
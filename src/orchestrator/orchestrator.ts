@@ -200,6 +200,47 @@ function buildTools(deps: HandleMessageDeps): ToolDefinition[] {
     });
   }
 
+  if (deps.startFanOut) {
+    tools.push({
+      type: "function",
+      function: {
+        name: "execute_multi_repo_task",
+        description: "Queue the same code change in several repositories at once (e.g. bump a shared config, rename a deprecated API). Give either an explicit repo list or a GitHub org and/or topic to select repos. One PR is opened per repo and progress is tracked on a single status card.",
+        parameters: {
+          type: "object",
+          properties: {
+            repos: {
+              type: "array",
+              items: { type: "string" },
+              description: "Repository slugs in owner/repo format"
+            },
+            org: {
+              type: "string",
+              description: "GitHub org whose repos to target (combine with topic to narrow)"
+            },
+            topic: {
+              type: "string",
+              description: "GitHub repository topic to select repos by"
+            },
+            task: {
+              type: "string",
+              description: "Clear description of the change to make in every repo"
+            },
+            baseBranch: {
+              type: "string",
+              description: "Optional base branch for all repos. Omit to use the default."
+            },
+            concurrency: {
+              type: "number",
+              description: "Optional number of repos to run at once (default 3, max 10)"
+            }
+          },
+          required: ["task"]
+        }
+      }
+    });
+  }
+
   return tools;
 }
 
@@ -280,6 +321,9 @@ export async function handleMessage(
             args["path"] as string
           );
         }
+        if (name === "execute_multi_repo_task" && deps.startFanOut) {
+          return executeMultiRepoTask(args, deps);
+        }
         return "Unknown tool";
       },
       model,
@@ -379,3 +423,31 @@ async function executeTask(
     return `Error queueing run: ${msg}`;
   }
 }
+
+async function executeMultiRepoTask(
+  args: Record<string, unknown>,
+  deps: HandleMessageDeps
+): Promise<string> {
+  const task = typeof args["task"] === "string" ? args["task"] : undefined;
+  if (!task) {
+    return "Error: 'task' is required.";
+  }
+  const repos = Array.isArray(args["repos"])
+    ? (args["repos"] as unknown[]).filter(s => typeof s === "string") as string[]
+    : undefined;
+  const org = typeof args["org"] === "string" && args["org"] ? args["org"] : undefined;
+  const topic = typeof args["topic"] === "string" && args["topic"] ? args["topic"] : undefined;
+  if (!repos?.length && !org && !topic) {
+    return "Error: give 'repos', 'org' or 'topic' to select repositories.";
+  }
+
+  try {
+    return await deps.startFanOut!({ repos, org, topic }, task, {
+      baseBranch: typeof args["baseBranch"] === "string" ? args["baseBranch"] : undefined,
+      concurrency: typeof args["concurrency"] === "number" ? args["concurrency"] : undefined
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "unknown";
+    return `Error starting multi-repo run: ${msg}`;
+  }
+}
@@ -33,6 +33,12 @@ export interface HandleMessageDeps {
   describeRepo?: (repoSlug: string) => Promise<string>;
   readFile?: (repoSlug: string, path: string) => Promise<string>;
   listFiles?: (repoSlug: string, path: string) => Promise<string>;
+  /** Fan one task out to several repos; returns a short summary for the LLM. */
+  startFanOut?: (
+    targets: { repos?: string[]; org?: string; topic?: string },
+    task: string,
+    opts: { baseBranch?: string; concurrency?: number }
+  ) => Promise<string>;
 }
 
 export interface HandleMessageOptions {
@@ -5,7 +5,7 @@ import type { ContextBag } from "../context-bag.js";
 import { runShell, runShellCapture, appendLog, shellEscape } from "../shell.js";
 import { buildAgentCommandWithSelection } from "../agent-command.js";
 import { describeAgentProfileSelection } from "../../agent-profile-resolver.js";
-import { commitCaptureAndPush } from "../git-ops.js";
+import { commitCaptureAndPush, recordPushedCommit } from "../git-ops.js";
 import { buildCIFixPrompt, type CIAnnotation } from "./ci-monitor.js";
 import { buildGitAddPathspecs, filterInternalGeneratedFiles, mergeInternalArtifacts } from "../internal-generated-files.js";
 import { parseErrors } from "../error-parser.js";
@@ -68,7 +68,7 @@ const AGENT_BAIL_MIN_ROUND = 2;
  * Called by the pipeline engine's on_failure loop handler when wait_ci fails.
  */
 export async function fixCiNode(
-  _nodeConfig: NodeConfig,
+  nodeConfig: NodeConfig,
   ctx: ContextBag,
   deps: NodeDeps
 ): Promise<NodeResult> {
@@ -298,6 +298,7 @@ export async function fixCiNode(
           `git push --force-with-lease origin HEAD:${shellEscape(run.branchName)}`,
           { cwd: repoDir, logFile },
         );
+        await recordPushedCommit(deps, nodeConfig.id, finalHead);
       }
       const changedFiles = await changedFilesBetween(repoDir, logFile, beforeHead, finalHead);
       return {
@@ -317,6 +318,7 @@ export async function fixCiNode(
   const { commitSha: newSha, changedFiles: newChangedFiles, internalArtifacts } = await commitCaptureAndPush(
     repoDir, commitMsg, logFile, run.branchName,
   );
+  await recordPushedCommit(deps, nodeConfig.id, newSha);
 
   await appendLog(logFile, `\n[ci:fix] pushed fix commit ${newSha.slice(0, 8)}\n`);
 
@@ -1,6 +1,6 @@
 import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
-import { mergeIgnoreChecks, parseRepoSlug, type CICheckRun } from "../../github.js";
+import { mergeIgnoreChecks, parseRepoSlug, type CICheckRun, type GitHubService } from "../../github.js";
 import { appendLog, sleep } from "../shell.js";
 import { appendGateReport } from "../quality-gates/gate-report.js";
 import {
@@ -20,6 +20,8 @@ import {
  *
  * Returns success if CI passes or no CI configured.
  * Returns failure with structured annotations if CI fails.
+ * The overall wait is bounded by the node timeout (by default the patience
+ * window plus CI_MAX_WAIT_SECONDS), enforced by the pipeline engine.
  */
 export async function waitCiNode(
   _nodeConfig: NodeConfig,
@@ -63,12 +65,42 @@ export async function waitCiNode(
   });
   await appendLog(logFile, `\n[ci:wait] polling checks for ${commitSha.slice(0, 8)}...\n`);
 
+  try {
+    return await pollChecks(deps.githubService, commitSha, owner, repo, checkFilter, ignoreChecks, ctx, deps);
+  } catch (error) {
+    if (!deps.abortSignal?.aborted) throw error;
+    // Timed out (or cancelled): report it like any failed CI wait
+    const reason = error instanceof Error ? error.message : "aborted";
+    await appendLog(logFile, `\n[ci:wait] stopped waiting for CI: ${reason}\n`);
+    appendGateReport(ctx, "ci_wait", "hard_fail", ["CI polling timed out"]);
+    ctx.set("ciConclusion", "failure");
+    return {
+      outcome: "failure",
+      error: `CI polling stopped: ${reason}`,
+      rawOutput: "CI did not complete within the configured timeout."
+    };
+  }
+}
+
+async function pollChecks(
+  githubService: GitHubService,
+  commitSha: string,
+  owner: string,
+  repo: string,
+  checkFilter: string[],
+  ignoreChecks: string[],
+  ctx: ContextBag,
+  deps: NodeDeps
+): Promise<NodeResult> {
+  const config = deps.config;
+  const logFile = deps.logFile;
+
   // Phase 1: Patience window — wait for check suites to appear
   const patienceEnd = Date.now() + config.ciPatienceTimeoutSeconds * 1000;
   const patienceInterval = 15_000; // 15 seconds
 
   while (Date.now() < patienceEnd) {
-    const checkRuns = await deps.githubService.listCheckRuns(owner, repo, commitSha);
+    const checkRuns = await githubService.listCheckRuns(owner, repo, commitSha);
     const filtered = excludeCheckRuns(filterCheckRuns(checkRuns, checkFilter), ignoreChecks);
 
     if (filtered.length > 0) {
@@ -81,12 +113,11 @@ export async function waitCiNode(
   }
 
   // Phase 2: Completion wait — poll until all checks complete
-  const maxWaitEnd = Date.now() + config.ciMaxWaitSeconds * 1000;
   const pollInterval = config.ciPollIntervalSeconds * 1000;
   let lastLogTime = 0;
 
-  while (Date.now() < maxWaitEnd) {
-    const checkRuns = await deps.githubService.listCheckRuns(owner, repo, commitSha);
+  for (;;) {
+    const checkRuns = await githubService.listCheckRuns(owner, repo, commitSha);
     const filtered = excludeCheckRuns(filterCheckRuns(checkRuns, checkFilter), ignoreChecks);
 
     if (filtered.length === 0) {
@@ -114,17 +145,6 @@ export async function waitCiNode(
 
     await sleep(pollInterval);
   }
-
-  // Timeout — treat as failure
-  await appendLog(logFile, "\n[ci:wait] timeout waiting for CI to complete\n");
-  appendGateReport(ctx, "ci_wait", "hard_fail", ["CI polling timed out"]);
-  ctx.set("ciConclusion", "failure");
-
-  return {
-    outcome: "failure",
-    error: "CI polling timed out after " + String(config.ciMaxWaitSeconds) + " seconds",
-    rawOutput: "CI did not complete within the configured timeout."
-  };
 }
 
 async function evaluateConclusion(
@@ -3,6 +3,7 @@
  */
 export class ContextBag {
   private data: Map<string, unknown> = new Map();
+  private nodeResults: Map<string, Record<string, unknown>> = new Map();
 
   constructor(initial?: Record<string, unknown>) {
     if (initial) {
@@ -42,6 +43,30 @@ export class ContextBag {
     }
   }
 
+  /**
+   * Record the latest result of a node so conditions can reference
+   * `<nodeId>.outcome`, `<nodeId>.error` or `<nodeId>.<outputKey>`.
+   */
+  setNodeResult(nodeId: string, result: { outcome: string; outputs?: Record<string, unknown>; error?: string }): void {
+    this.nodeResults.set(nodeId, {
+      ...(result.outputs ?? {}),
+      outcome: result.outcome,
+      ...(result.error !== undefined ? { error: result.error } : {})
+    });
+  }
+
+  /** Restore node results captured by nodeResultsObject() (used when resuming a run). */
+  loadNodeResults(results: Record<string, Record<string, unknown>>): void {
+    for (const [nodeId, result] of Object.entries(results)) {
+      this.nodeResults.set(nodeId, { ...result });
+    }
+  }
+
+  /** All recorded node results keyed by node id. */
+  nodeResultsObject(): Record<string, Record<string, unknown>> {
+    return Object.fromEntries(this.nodeResults.entries());
+  }
+
   /** Return all keys in the context bag */
   keys(): IterableIterator<string> {
     return this.data.keys();
@@ -0,0 +1,557 @@
+/**
+ * Small, sandboxed expression language for pipeline `if` and loop `until` conditions.
+ *
+ * Grammar (lowest to highest precedence):
+ *   or        := and ("||" and)*
+ *   and       := not ("&&" not)*
+ *   not       := "!" not | compare
+ *   compare   := operand (("==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "not in") operand)?
+ *   operand   := literal | path | "[" (operand ("," operand)*)? "]" | "(" or ")"
+ *   path      := ident ("." ident)*
+ *
+ * Paths are rooted at `ctx.<key>`, `config.<key>` or `<nodeId>.<output>`.
+ * Steps inlined from a called sub-pipeline have dotted ids
+ * (`<callId>.<stepId>`); the longest matching node id wins.
+ * `.length` on a string or array yields its length. There are no function
+ * calls and no prototype access, so an expression can only read data.
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+export type CompareOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "not in";
+
+export type Expression =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "path"; segments: string[] }
+  | { kind: "list"; items: Expression[] }
+  | { kind: "not"; operand: Expression }
+  | { kind: "logical"; operator: "&&" | "||"; left: Expression; right: Expression }
+  | { kind: "compare"; operator: CompareOperator; left: Expression; right: Expression };
+
+export interface ExpressionScope {
+  ctx: Record<string, unknown>;
+  config: Record<string, unknown>;
+  /** Per-node results keyed by node id: outputs plus `outcome` and `error`. */
+  nodes: Record<string, Record<string, unknown>>;
+}
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const FORBIDDEN_SEGMENTS = new Set(["__proto__", "prototype", "constructor"]);
+const RESERVED_WORDS = new Set(["ctx", "config", "true", "false", "null", "in", "not"]);
+const RELATIONAL_OPERATORS = new Set<CompareOperator>(["<", "<=", ">", ">="]);
+
+// ── Tokenizer ──
+
+type Token =
+  | { type: "op"; value: string; pos: number }
+  | { type: "ident"; value: string; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "number"; value: number; pos: number };
+
+const OPERATOR_TOKENS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")", "[", "]", ",", "."];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i]!;
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "'" || ch === "\"") {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === "\\" && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new ExpressionError(`Unterminated string starting at position ${String(i)}`);
+      }
+      tokens.push({ type: "string", value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    if (numberMatch && (ch !== "-" || !isOperandEnd(tokens[tokens.length - 1]))) {
+      tokens.push({ type: "number", value: Number(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_$][\w$]*/.exec(source.slice(i));
+    if (identMatch) {
+      tokens.push({ type: "ident", value: identMatch[0], pos: i });
+      i += identMatch[0].length;
+      continue;
+    }
+
+    const op = OPERATOR_TOKENS.find(candidate => source.startsWith(candidate, i));
+    if (op) {
+      tokens.push({ type: "op", value: op, pos: i });
+      i += op.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${ch}' at position ${String(i)}`);
+  }
+
+  return tokens;
+}
+
+function isOperandEnd(token: Token | undefined): boolean {
+  if (!token) return false;
+  if (token.type === "op") return token.value === ")" || token.value === "]";
+  return true;
+}
+
+// ── Parser ──
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): Expression {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError("Expression is empty");
+    }
+    const expr = this.parseOr();
+    const trailing = this.peek();
+    if (trailing) {
+      throw new ExpressionError(`Unexpected '${String(trailing.value)}' at position ${String(trailing.pos)} in '${this.source}'`);
+    }
+    return expr;
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.matchOp("||")) {
+      left = { kind: "logical", operator: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.matchOp("&&")) {
+      left = { kind: "logical", operator: "&&", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.matchOp("!")) {
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parseCompare();
+  }
+
+  private parseCompare(): Expression {
+    const left = this.parseOperand();
+    const token = this.peek();
+    if (!token) return left;
+
+    let operator: CompareOperator | undefined;
+    if (token.type === "op" && ["==", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+      operator = token.value as CompareOperator;
+      this.index++;
+    } else if (token.type === "ident" && token.value === "in") {
+      operator = "in";
+      this.index++;
+    } else if (token.type === "ident" && token.value === "not") {
+      const next = this.tokens[this.index + 1];
+      if (next?.type === "ident" && next.value === "in") {
+        operator = "not in";
+        this.index += 2;
+      }
+    }
+
+    if (!operator) return left;
+    return { kind: "compare", operator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): Expression {
+    const token = this.next();
+
+    if (token.type === "string" || token.type === "number") {
+      return { kind: "literal", value: token.value };
+    }
+
+    if (token.type === "op" && token.value === "(") {
+      const inner = this.parseOr();
+      this.expectOp(")");
+      return inner;
+    }
+
+    if (token.type === "op" && token.value === "[") {
+      const items: Expression[] = [];
+      if (!this.matchOp("]")) {
+        do {
+          items.push(this.parseOperand());
+        } while (this.matchOp(","));
+        this.expectOp("]");
+      }
+      return { kind: "list", items };
+    }
+
+    if (token.type === "ident") {
+      if (token.value === "true" || token.value === "false") {
+        return { kind: "literal", value: token.value === "true" };
+      }
+      if (token.value === "null") {
+        return { kind: "literal", value: null };
+      }
+      const segments = [token.value];
+      while (this.matchOp(".")) {
+        const part = this.next();
+        if (part.type !== "ident" && part.type !== "number") {
+          throw new ExpressionError(`Expected a property name after '.' at position ${String(part.pos)}`);
+        }
+        segments.push(String(part.value));
+      }
+      for (const segment of segments) {
+        if (FORBIDDEN_SEGMENTS.has(segment)) {
+          throw new ExpressionError(`Access to '${segment}' is not allowed`);
+        }
+      }
+      return { kind: "path", segments };
+    }
+
+    throw new ExpressionError(`Unexpected '${String(token.value)}' at position ${String(token.pos)} in '${this.source}'`);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new ExpressionError(`Unexpected end of expression '${this.source}'`);
+    }
+    this.index++;
+    return token;
+  }
+
+  private matchOp(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === "op" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.matchOp(value)) {
+      const token = this.peek();
+      throw new ExpressionError(token
+        ? `Expected '${value}' at position ${String(token.pos)} in '${this.source}'`
+        : `Expected '${value}' before end of expression '${this.source}'`);
+    }
+  }
+}
+
+const parseCache = new Map<string, Expression>();
+
+/** Parse an expression string into an AST. Results are cached by source. */
+export function parseExpression(source: string): Expression {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${String(MAX_EXPRESSION_LENGTH)} characters`);
+  }
+  const expr = new Parser(tokenize(source), source).parse();
+  parseCache.set(source, expr);
+  return expr;
+}
+
+// ── Static checks ──
+
+/**
+ * Parse and type-check an expression for use in a pipeline. Rejects unknown
+ * path roots (anything but `ctx`, `config` or a node id of the pipeline) and
+ * operators applied to literals of the wrong type.
+ */
+export function checkExpression(source: string, nodeIds: ReadonlySet<string>): Expression {
+  const expr = parseExpression(source);
+  checkNode(expr, nodeIds);
+  return expr;
+}
+
+function checkNode(expr: Expression, nodeIds: ReadonlySet<string>): void {
+  switch (expr.kind) {
+    case "literal":
+      return;
+    case "path": {
+      const [root, ...rest] = expr.segments;
+      if (root === "ctx" || root === "config") {
+        if (rest.length === 0) {
+          throw new ExpressionError(`'${root}' must be followed by a key, e.g. '${root}.someKey'`);
+        }
+        return;
+      }
+      if (matchNodeRoot(expr.segments, id => nodeIds.has(id)) === 0) {
+        throw new ExpressionError(`Unknown reference '${expr.segments.join(".")}': paths must start with 'ctx.', 'config.' or a node id`);
+      }
+      return;
+    }
+    case "list":
+      for (const item of expr.items) checkNode(item, nodeIds);
+      return;
+    case "not":
+      checkNode(expr.operand, nodeIds);
+      return;
+    case "logical":
+      checkNode(expr.left, nodeIds);
+      checkNode(expr.right, nodeIds);
+      return;
+    case "compare": {
+      checkNode(expr.left, nodeIds);
+      checkNode(expr.right, nodeIds);
+      if (RELATIONAL_OPERATORS.has(expr.operator)) {
+        for (const side of [expr.left, expr.right]) {
+          if (side.kind === "list" || side.kind === "not" || side.kind === "logical" || side.kind === "compare") {
+            throw new ExpressionError(`Operator '${expr.operator}' needs a number or string operand`);
+          }
+          if (side.kind === "literal" && typeof side.value !== "number" && typeof side.value !== "string") {
+            throw new ExpressionError(`Operator '${expr.operator}' cannot compare ${JSON.stringify(side.value)}`);
+          }
+        }
+      }
+      if ((expr.operator === "in" || expr.operator === "not in") && expr.right.kind === "literal" && typeof expr.right.value !== "string") {
+        throw new ExpressionError(`Right side of '${expr.operator}' must be a list, a string or a path`);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Number of leading path segments that form a node id, preferring the
+ * longest match so `gates.diff_gate.outcome` finds the `gates.diff_gate`
+ * step. Returns 0 when no prefix is a node id.
+ */
+function matchNodeRoot(segments: string[], isNodeId: (id: string) => boolean): number {
+  for (let length = segments.length; length > 0; length--) {
+    if (isNodeId(segments.slice(0, length).join("."))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Rewrite the node ids an expression refers to, leaving `ctx.`/`config.`
+ * paths, keywords and string literals alone. Used to namespace the
+ * conditions of an inlined sub-pipeline.
+ */
+export function renameNodeReferences(source: string, rename: (root: string) => string | undefined): string {
+  const tokens = tokenize(source);
+  let result = "";
+  let cursor = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const previous = tokens[i - 1];
+    const isPathRoot = token.type === "ident" && !(previous?.type === "op" && previous.value === ".");
+    if (!isPathRoot || RESERVED_WORDS.has(token.value as string)) continue;
+    const renamed = rename(token.value as string);
+    if (renamed === undefined) continue;
+    result += source.slice(cursor, token.pos) + renamed;
+    cursor = token.pos + (token.value as string).length;
+  }
+  return result + source.slice(cursor);
+}
+
+const LEGACY_CONTEXT_CONDITION = /^\s*([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(!=\s*''\s*)?$/;
+const LEGACY_EXIT_CODE_CONDITION = /^\s*([A-Za-z_$][\w$.]*)\.exit_code\s*==\s*0\s*$/;
+
+/**
+ * Rewrite a condition written for the pre-expression engine into the current
+ * grammar, or return undefined when it needs no rewrite:
+ *   - `someKey` / `someKey != ''` read the context bag without a `ctx.` prefix
+ *   - `<nodeId>.exit_code == 0` was the documented loop `until`, which the old
+ *     engine ignored in favour of "the retry succeeded"
+ * `knownRoots` are the ids a new-style path may start with.
+ */
+export function migrateLegacyCondition(source: string, knownRoots: ReadonlySet<string>): string | undefined {
+  const exitCode = LEGACY_EXIT_CODE_CONDITION.exec(source);
+  if (exitCode && knownRoots.has(exitCode[1]!)) {
+    return `${exitCode[1]!}.outcome == 'success'`;
+  }
+  const context = LEGACY_CONTEXT_CONDITION.exec(source);
+  if (!context) return undefined;
+  const root = context[1]!.split(".")[0]!;
+  if (RESERVED_WORDS.has(root) || knownRoots.has(root)) return undefined;
+  return context[2] ? `ctx.${context[1]!} != ''` : `ctx.${context[1]!}`;
+}
+
+// ── Evaluation ──
+
+/** Evaluate a parsed expression (or source string) against a scope. */
+export function evaluateExpression(expr: Expression | string, scope: ExpressionScope): unknown {
+  const node = typeof expr === "string" ? parseExpression(expr) : expr;
+
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "path":
+      return resolvePath(node.segments, scope);
+    case "list":
+      return node.items.map(item => evaluateExpression(item, scope));
+    case "not":
+      return !isTruthy(evaluateExpression(node.operand, scope));
+    case "logical": {
+      const left = isTruthy(evaluateExpression(node.left, scope));
+      if (node.operator === "&&") return left && isTruthy(evaluateExpression(node.right, scope));
+      return left || isTruthy(evaluateExpression(node.right, scope));
+    }
+    case "compare":
+      return compare(node.operator, evaluateExpression(node.left, scope), evaluateExpression(node.right, scope));
+  }
+}
+
+/** Evaluate an expression and coerce the result to a boolean. */
+export function evaluateCondition(expr: Expression | string, scope: ExpressionScope): boolean {
+  return isTruthy(evaluateExpression(expr, scope));
+}
+
+/**
+ * Three-valued evaluation for plan previews. Paths rejected by `isKnown` are
+ * unknown; `&&`, `||` and `!` still decide when their known operands settle
+ * the result. Returns undefined when the outcome depends on unknown values.
+ */
+export function evaluateConditionPartial(
+  expr: Expression | string,
+  scope: ExpressionScope,
+  isKnown: (segments: string[]) => boolean
+): boolean | undefined {
+  const node = typeof expr === "string" ? parseExpression(expr) : expr;
+
+  switch (node.kind) {
+    case "not": {
+      const operand = evaluateConditionPartial(node.operand, scope, isKnown);
+      return operand === undefined ? undefined : !operand;
+    }
+    case "logical": {
+      const decisive = node.operator === "||";
+      const left = evaluateConditionPartial(node.left, scope, isKnown);
+      if (left === decisive) return decisive;
+      const right = evaluateConditionPartial(node.right, scope, isKnown);
+      if (right === decisive) return decisive;
+      return left === undefined || right === undefined ? undefined : !decisive;
+    }
+    default:
+      return expressionPaths(node).every(isKnown) ? evaluateCondition(node, scope) : undefined;
+  }
+}
+
+/** Every path an expression reads, as segment lists. */
+export function expressionPaths(expr: Expression | string): string[][] {
+  const node = typeof expr === "string" ? parseExpression(expr) : expr;
+
+  switch (node.kind) {
+    case "literal":
+      return [];
+    case "path":
+      return [node.segments];
+    case "list":
+      return node.items.flatMap(item => expressionPaths(item));
+    case "not":
+      return expressionPaths(node.operand);
+    case "logical":
+    case "compare":
+      return [...expressionPaths(node.left), ...expressionPaths(node.right)];
+  }
+}
+
+/**
+ * Truthiness follows JavaScript, except empty arrays are falsy so that
+ * `if: "ctx.changedFiles"` means "there are changed files".
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function resolvePath(segments: string[], scope: ExpressionScope): unknown {
+  const [root, ...rest] = segments;
+  let current: unknown;
+  if (root === "ctx") {
+    current = scope.ctx;
+  } else if (root === "config") {
+    current = scope.config;
+  } else {
+    const rootLength = matchNodeRoot(segments, id => Object.hasOwn(scope.nodes, id));
+    if (rootLength === 0) return undefined;
+    current = scope.nodes[segments.slice(0, rootLength).join(".")];
+    rest.splice(0, rootLength - 1);
+  }
+
+  for (const part of rest) {
+    if (current === null || current === undefined) return undefined;
+    if (part === "length" && (typeof current === "string" || Array.isArray(current))) {
+      current = current.length;
+      continue;
+    }
+    if (typeof current !== "object" || !Object.hasOwn(current, part)) return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+
+  return current;
+}
+
+function compare(operator: CompareOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case "==":
+      return looseEquals(left, right);
+    case "!=":
+      return !looseEquals(left, right);
+    case "in":
+      return contains(right, left);
+    case "not in":
+      return !contains(right, left);
+    default: {
+      const comparable = (typeof left === "number" && typeof right === "number")
+        || (typeof left === "string" && typeof right === "string");
+      if (!comparable) return false;
+      const l = left as number | string;
+      const r = right as number | string;
+      if (operator === "<") return l < r;
+      if (operator === "<=") return l <= r;
+      if (operator === ">") return l > r;
+      return l >= r;
+    }
+  }
+}
+
+/**
+ * Equality without type coercion, except that a missing value equals both
+ * `null` and `''` — so `config.lintFixCommand != ''` is false when unset.
+ */
+function looseEquals(left: unknown, right: unknown): boolean {
+  const l = left === undefined ? null : left;
+  const r = right === undefined ? null : right;
+  if (l === null && (r === null || r === "")) return true;
+  if (r === null && l === "") return true;
+  return l === r;
+}
+
+function contains(container: unknown, value: unknown): boolean {
+  if (Array.isArray(container)) return container.some(item => looseEquals(item, value));
+  if (typeof container === "string") return typeof value === "string" && container.includes(value);
+  if (container && typeof container === "object") return typeof value === "string" && Object.hasOwn(container, value);
+  return false;
+}
@@ -1,4 +1,6 @@
 import { runShell, runShellCapture, shellEscape } from "./shell.js";
+import type { NodeDeps } from "./types.js";
+import type { CommitPushedPayload } from "../runs/run-checkpoints.js";
 import {
   filterInternalGeneratedFiles,
   listInternalGeneratedFiles,
@@ -16,7 +18,8 @@ export interface CommitResult {
  * Stage all changes, commit, capture SHA + changed files, optionally push.
  *
  * Shared by commit, fix_ci, and fix_browser nodes.
- * Caller is responsible for checking whether changes exist before calling.
+ * Caller is responsible for checking whether changes exist before calling,
+ * and for calling recordPushedCommit after a push.
  */
 export async function commitCaptureAndPush(
   repoDir: string,
@@ -77,3 +80,21 @@ export async function commitCaptureAndPush(
     await restoreInternalGeneratedFiles(repoDir, internalSnapshot);
   }
 }
+
+/**
+ * Record a commit the run pushed. Delivery analytics matches PR pushes
+ * against these, since `runs.commitSha` only keeps the last one.
+ */
+export async function recordPushedCommit(
+  deps: Pick<NodeDeps, "emitRunCheckpoint">,
+  nodeId: string,
+  commitSha: string
+): Promise<void> {
+  if (!commitSha) return;
+  const payload: CommitPushedPayload = { nodeId, commitSha };
+  await deps.emitRunCheckpoint?.({
+    checkpointKey: `commit_pushed:${commitSha}`,
+    checkpointType: "run.commit_pushed",
+    payload: { ...payload },
+  });
+}
@@ -0,0 +1,33 @@
+import type { ContextValueType } from "./types.js";
+
+/**
+ * Shared pieces of node contracts. Each handler declares its own contract
+ * (`handler.contract`): the keys it reads and writes. The loader uses
+ * `reads` to reject v2 pipelines where a node needs a key that no earlier
+ * node writes; the pipeline JSON Schema documents all three. Update the
+ * contract when a handler starts reading or writing a new key.
+ */
+
+/** Keys the engine puts in the context bag before the first node runs. */
+export const RUN_CONTEXT_KEYS: Record<string, ContextValueType> = {
+  runId: "string",
+  repoSlug: "string",
+  baseBranch: "string",
+  branchName: "string",
+  task: "string",
+  requestedBy: "string",
+  prefetchContext: "object"
+};
+
+export const GATE_REPORT: Record<string, ContextValueType> = { gateReport: "array" };
+
+export const COMMIT_OUTPUTS: Record<string, ContextValueType> = {
+  commitSha: "string",
+  changedFiles: "string[]",
+  internalArtifacts: "string[]"
+};
+
+export const LOOP_INPUTS: Record<string, ContextValueType> = {
+  loopAttempt: "number",
+  isFollowUp: "boolean"
+};
@@ -1,4 +1,6 @@
-import type { NodeHandler } from "./types.js";
+import type { AppConfig } from "../config.js";
+import type { ContextValueType, NodeConfig, NodeContract, NodeHandler } from "./types.js";
+import { COMMIT_OUTPUTS, GATE_REPORT, LOOP_INPUTS } from "./node-contracts.js";
 
 // Node handler imports
 import { cloneNode } from "./nodes/clone.js";
@@ -11,6 +13,7 @@ import { commitNode } from "./nodes/commit.js";
 import { pushNode } from "./nodes/push.js";
 import { createPrNode } from "./nodes/create-pr.js";
 import { notifyNode } from "./nodes/notify.js";
+import { approvalGateNode } from "./nodes/approval-gate.js";
 import { planTaskNode } from "./nodes/plan-task.js";
 import { localTestNode } from "./nodes/local-test.js";
 import { lightweightChecksNode } from "./nodes/lightweight-checks.js";
@@ -38,15 +41,18 @@ import { scopeJudgeNode } from "./quality-gates/scope-judge-node.js";
  *
  * Both the pipeline engine (to dispatch nodes) and the pipeline loader
  * (to validate YAML) derive their action lists from this registry.
+ * Lazily loaded handlers declare their contract here, since the loader
+ * must not import their module.
  */
 function lazyNodeHandler(
   modulePath: string,
   exportName: string,
+  contract: NodeContract,
   options?: { loadErrorHint?: string },
 ): NodeHandler {
   let cachedHandler: NodeHandler | undefined;
 
-  return async (nodeConfig, ctx, deps) => {
+  const handler: NodeHandler = async (nodeConfig, ctx, deps) => {
     if (!cachedHandler) {
       let mod: Record<string, unknown>;
       try {
@@ -67,8 +73,13 @@ function lazyNodeHandler(
 
     return cachedHandler(nodeConfig, ctx, deps);
   };
+  handler.contract = contract;
+  return handler;
 }
 
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+
 export const NODE_HANDLERS: Record<string, NodeHandler> = {
   clone: cloneNode,
   hydrate_context: hydrateContextNode,
@@ -80,27 +91,117 @@ export const NODE_HANDLERS: Record<string, NodeHandler> = {
   push: pushNode,
   create_pr: createPrNode,
   notify: notifyNode,
+  approval_gate: approvalGateNode,
   classify_task: classifyTaskNode,
   diff_gate: diffGateNode,
   forbidden_files: forbiddenFilesNode,
   security_scan: securityScanNode,
-  wait_ci: lazyNodeHandler("./ci/wait-ci-node.js", "waitCiNode"),
-  fix_ci: lazyNodeHandler("./ci/fix-ci-node.js", "fixCiNode"),
-  triage_ci: lazyNodeHandler("./ci/triage-ci-node.js", "triageCiNode"),
-  fix_browser: lazyNodeHandler("./nodes/fix-browser.js", "fixBrowserNode"),
+  wait_ci: lazyNodeHandler("./ci/wait-ci-node.js", "waitCiNode", {
+    optionalReads: { commitSha: "string", prNumber: "number", repoCiIgnoreChecks: "string[]" },
+    writes: {
+      ciConclusion: "string",
+      ciFailedCheckCount: "number",
+      ciAnnotations: "array",
+      ciFailedRunNames: "string[]",
+      ciLogTail: "string",
+      ...GATE_REPORT
+    }
+  }),
+  fix_ci: lazyNodeHandler("./ci/fix-ci-node.js", "fixCiNode", {
+    reads: { repoDir: "string", runDir: "string" },
+    optionalReads: {
+      ...LOOP_INPUTS,
+      changedFiles: "string[]",
+      ciAnnotations: "array",
+      ciFailedRunNames: "string[]",
+      ciLogTail: "string",
+      internalArtifacts: "string[]"
+    },
+    writes: COMMIT_OUTPUTS
+  }),
+  triage_ci: lazyNodeHandler("./ci/triage-ci-node.js", "triageCiNode", {
+    reads: { repoDir: "string", runDir: "string" },
+    optionalReads: { ciFailedJobIds: "array", commitSha: "string", isFollowUp: "boolean" },
+    writes: { ciTriageVerdict: "string", ciTriageReason: "string", ciTriageEvidence: "array" }
+  }),
+  fix_browser: lazyNodeHandler("./nodes/fix-browser.js", "fixBrowserNode", {
+    reads: { repoDir: "string", runDir: "string" },
+    optionalReads: {
+      ...LOOP_INPUTS,
+      actionsPath: "string",
+      browserVerifyDomFindings: "array",
+      browserVerifyFailureCode: "string",
+      browserVerifyVerdictReason: "string",
+      changedFiles: "string[]",
+      consolePath: "string",
+      internalArtifacts: "string[]",
+      reviewAppUrl: "string"
+    },
+    writes: COMMIT_OUTPUTS
+  }),
   scope_judge: scopeJudgeNode,
-  deploy_preview: lazyNodeHandler("./nodes/deploy-preview.js", "deployPreviewNode"),
+  deploy_preview: lazyNodeHandler("./nodes/deploy-preview.js", "deployPreviewNode", {
+    optionalReads: { prNumber: "number", repoDir: "string" },
+    writes: { previewUrl: "string", reviewAppUrl: "string" }
+  }),
   browser_verify: lazyNodeHandler("./quality-gates/browser-verify-node.js", "browserVerifyNode", {
+    optionalReads: {
+      browserVerifyCredentials: "object",
+      changeSummary: "string",
+      changedFiles: "string[]",
+      prNumber: "number",
+      repoBrowserVerifyEnabled: "boolean",
+      reviewAppUrl: "string"
+    },
+    writes: {
+      browserVerifyResult: "object",
+      browserVerifyFailureCode: "string",
+      browserVerifyVerdictReason: "string",
+      browserVerifyDomFindings: "array",
+      browserVerifyAuthSignals: "object",
+      browserVerifyAuthConfig: "object",
+      browserVerifyCredentials: "object",
+      browserVerifyProviderResolution: "object",
+      browserVerifyProviderRoute: "object",
+      browserVerifySignupProfile: "object",
+      browserVerifyStagehandError: "string",
+      // Appended by the engine on each failed on_failure round
+      browserVerifyFailureHistory: "array",
+      accessibilityChecked: "boolean",
+      screenshotPath: "string",
+      videoPath: "string",
+      actionsPath: "string",
+      consolePath: "string",
+      networkPath: "string",
+      ...GATE_REPORT
+    }
+  }, {
     loadErrorHint: "Rebuild the runtime image with INSTALL_BROWSER_VERIFY=true to enable browser verification.",
   }),
   plan_task: planTaskNode,
   local_test: localTestNode,
   lightweight_checks: lightweightChecksNode,
   ruby_syntax_gate: rubySyntaxGateNode,
-  upload_screenshot: lazyNodeHandler("./nodes/upload-screenshot.js", "uploadScreenshotNode"),
+  upload_screenshot: lazyNodeHandler("./nodes/upload-screenshot.js", "uploadScreenshotNode", {
+    optionalReads: {
+      agentAnalysis: "object",
+      changeSummary: "string",
+      changedFiles: "string[]",
+      commitSha: "string",
+      isFollowUp: "boolean",
+      prNumber: "number",
+      resolvedBaseBranch: "string",
+      screenshotPath: "string",
+      videoPath: "string"
+    },
+    writes: { commitSha: "string", screenshotUrl: "string", videoUrl: "string", videoEmbedUrl: "string" }
+  }),
   generate_title: generateTitleNode,
   summarize_changes: summarizeChangesNode,
-  decide_next_step: lazyNodeHandler("./nodes/decide-next-step.js", "decideNextStepNode"),
+  decide_next_step: lazyNodeHandler("./nodes/decide-next-step.js", "decideNextStepNode", {
+    writes: { decisionReason: "string" },
+    configReads: (config) => stringList(config?.["context_keys"])
+  }),
   run: runNode,
   setup_sandbox: setupSandboxNode,
   sync_base_branch: syncBaseBranchNode,
@@ -111,5 +212,32 @@ export const NODE_HANDLERS: Record<string, NodeHandler> = {
   investigate: investigateNode,
 };
 
+/**
+ * Timeouts for actions that wait on something external, used when the node
+ * sets no `timeout_seconds`. The engine enforces them like any other timeout.
+ */
+const DEFAULT_NODE_TIMEOUTS: Record<string, (node: NodeConfig, config: AppConfig) => number> = {
+  wait_ci: (_node, config) => config.ciPatienceTimeoutSeconds + config.ciMaxWaitSeconds,
+  deploy_preview: (node) => {
+    const max = node.config?.["max_timeout_seconds"];
+    return typeof max === "number" && max > 0 ? max : 1800;
+  },
+};
+
+export function defaultNodeTimeoutSeconds(node: NodeConfig, config: AppConfig): number | undefined {
+  return DEFAULT_NODE_TIMEOUTS[node.action]?.(node, config);
+}
+
 /** Set of valid action names, derived from the handler registry. */
 export const VALID_ACTIONS = new Set(Object.keys(NODE_HANDLERS));
+
+/** The context contract declared on an action's handler. */
+export function nodeContract(action: string): NodeContract | undefined {
+  return NODE_HANDLERS[action]?.contract;
+}
+
+/** Keys a node writes: its action's declared writes plus config-named ones. */
+export function nodeWrites(action: string, config?: Record<string, unknown>): Record<string, ContextValueType> {
+  const contract = nodeContract(action);
+  return { ...contract?.writes, ...contract?.configWrites?.(config) };
+}
@@ -0,0 +1,109 @@
+/**
+ * Approval gate node — park the run until a human approves it.
+ *
+ * On first reach the node summarises the diff and gate results and returns
+ * `_awaitApproval`; the engine stops there and RunManager parks the run as
+ * `awaiting_approval` without holding a runner slot. The reviewer's answer
+ * comes back through a resume from this node with `approvalDecision` and
+ * `approvalNote` in context:
+ *   - approved: the node succeeds and the pipeline continues
+ *   - changes_requested: the note is appended to the agent prompt and the
+ *     pipeline jumps back to `loop_back_to`
+ * Rejections never resume — RunManager fails the run directly.
+ *
+ * Configure via pipeline YAML:
+ *   - id: human_review
+ *     type: deterministic
+ *     action: approval_gate
+ *     config:
+ *       loop_back_to: implement
+ */
+
+import { appendFile } from "node:fs/promises";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
+import type { ContextBag } from "../context-bag.js";
+import { appendLog, runShellCapture } from "../shell.js";
+import { filterInternalGeneratedFiles } from "../internal-generated-files.js";
+import { parseDiffNumstat } from "../quality-gates/diff-gate.js";
+import type { GateReportEntry } from "../quality-gates/gate-report.js";
+import type { ApprovalRequestPayload } from "../../runs/run-checkpoints.js";
+
+const DEFAULT_LOOP_BACK_TO = "implement";
+
+export async function approvalGateNode(
+  nodeConfig: NodeConfig,
+  ctx: ContextBag,
+  deps: NodeDeps
+): Promise<NodeResult> {
+  const logFile = deps.logFile;
+  const loopBackTo = typeof nodeConfig.config?.["loop_back_to"] === "string"
+    ? nodeConfig.config["loop_back_to"] as string
+    : DEFAULT_LOOP_BACK_TO;
+
+  if (deps.run.runtime === "kubernetes") {
+    return {
+      outcome: "failure",
+      error: "approval_gate is not supported on the kubernetes runtime: the workspace is gone once the runner pod exits"
+    };
+  }
+
+  const decision = ctx.get<string>("approvalDecision");
+  const note = ctx.get<string>("approvalNote");
+  const decidedBy = ctx.get<string>("approvalDecidedBy");
+  // Consume the decision so a later pass through this gate asks again
+  ctx.set("approvalDecision", undefined);
+  ctx.set("approvalNote", undefined);
+
+  if (decision === "approved") {
+    await appendLog(logFile, `\n[gate:approval] approved by ${decidedBy ?? "unknown"}\n`);
+    return { outcome: "success", outputs: { approvalStatus: "approved" } };
+  }
+
+  if (decision === "changes_requested") {
+    const promptFile = ctx.get<string>("promptFile");
+    if (promptFile && note) {
+      await appendFile(promptFile, `\n\n## Reviewer requested changes\n\n${note}\n`, "utf8");
+    }
+    await appendLog(logFile, `\n[gate:approval] changes requested by ${decidedBy ?? "unknown"} — looping back to ${loopBackTo}\n`);
+    return {
+      outcome: "success",
+      outputs: {
+        approvalStatus: "changes_requested",
+        ...(note ? { reviewerNote: note } : {}),
+        _goto: loopBackTo
+      }
+    };
+  }
+
+  const request: ApprovalRequestPayload = {
+    nodeId: nodeConfig.id,
+    changedFiles: filterInternalGeneratedFiles(ctx.get<string[]>("changedFiles") ?? []),
+    gateReport: ctx.get<GateReportEntry[]>("gateReport") ?? [],
+    loopBackTo
+  };
+
+  const repoDir = ctx.get<string>("repoDir");
+  if (repoDir) {
+    const diff = await runShellCapture("git diff --numstat --find-renames HEAD", { cwd: repoDir, logFile });
+    if (diff.code === 0) {
+      const stats = parseDiffNumstat(diff.stdout);
+      request.diffStats = { linesAdded: stats.linesAdded, linesRemoved: stats.linesRemoved, filesChanged: stats.filesChanged };
+    }
+  }
+
+  await appendLog(logFile, `\n[gate:approval] waiting for a human decision (${String(request.changedFiles.length)} changed file(s))\n`);
+  return { outcome: "success", outputs: { _awaitApproval: request } };
+}
+
+approvalGateNode.contract = {
+  optionalReads: {
+    approvalDecision: "string",
+    approvalNote: "string",
+    approvalDecidedBy: "string",
+    changedFiles: "string[]",
+    gateReport: "array",
+    promptFile: "string",
+    repoDir: "string"
+  },
+  writes: { approvalStatus: "string", reviewerNote: "string" }
+} satisfies NodeContract;
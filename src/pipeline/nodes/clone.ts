@@ -1,6 +1,6 @@
 import { mkdir, readdir, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { runShell, runShellCapture, runShellWithProgress, shellEscape, appendLog, mapToContainerPath } from "../shell.js";
 import { loadRepoConfig, applyRepoConfig } from "../repo-config.js";
@@ -153,3 +153,22 @@ export async function cloneNode(
     outputs: { repoDir, runDir, promptFile, resolvedBaseBranch, isFollowUp, reusesExistingBranch }
   };
 }
+
+cloneNode.contract = {
+  writes: {
+    repoDir: "string",
+    runDir: "string",
+    promptFile: "string",
+    resolvedBaseBranch: "string",
+    isFollowUp: "boolean",
+    reusesExistingBranch: "boolean",
+    repoProfile: "string",
+    // From .gooseherd.yml
+    repoConfigDiffProfile: "string",
+    repoCiIgnoreChecks: "string[]",
+    repoGuardedFiles: "string[]",
+    repoScopeJudgeEnabled: "boolean",
+    repoBrowserVerifyEnabled: "boolean",
+    reviewAppUrl: "string"
+  }
+} satisfies NodeContract;
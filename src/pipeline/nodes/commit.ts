@@ -1,4 +1,5 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import { COMMIT_OUTPUTS } from "../node-contracts.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog, runShellCapture } from "../shell.js";
 import { commitCaptureAndPush } from "../git-ops.js";
@@ -52,3 +53,9 @@ export async function commitNode(
     }
   };
 }
+
+commitNode.contract = {
+  reads: { repoDir: "string" },
+  optionalReads: { autoReviewNoop: "boolean", internalArtifacts: "string[]", isFollowUp: "boolean" },
+  writes: { ...COMMIT_OUTPUTS, skippedCommit: "boolean" }
+} satisfies NodeContract;
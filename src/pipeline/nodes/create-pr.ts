@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import type { AgentAnalysis, AutoReviewGroundingMetrics } from "./implement.js";
 import { hasReusableBranch } from "../branch-reuse.js";
@@ -70,6 +70,21 @@ export async function createPrNode(
   };
 }
 
+createPrNode.contract = {
+  optionalReads: {
+    agentAnalysis: "object",
+    autoReviewGroundingMetrics: "object",
+    changeSummary: "string",
+    changedFiles: "string[]",
+    commitSha: "string",
+    generatedTitle: "string",
+    isFollowUp: "boolean",
+    resolvedBaseBranch: "string",
+    reusesExistingBranch: "boolean"
+  },
+  writes: { prUrl: "string", prNumber: "number" }
+} satisfies NodeContract;
+
 export function buildPrBody(
   run: { id: string; task: string; requestedBy: string; parentRunId?: string; feedbackNote?: string; chainIndex?: number },
   resolvedBaseBranch: string,
@@ -37,7 +37,10 @@ interface DeployPreviewConfig {
   // shared — timeout config
   /** Expected build time in seconds (default 300). Polling continues beyond this if the server signals activity (503). */
   readiness_timeout_seconds?: number;
-  /** Absolute maximum wait in seconds (default 1800 = 30 min). Hard cutoff regardless of signals. */
+  /**
+   * Absolute maximum wait in seconds (default 1800 = 30 min), regardless of signals.
+   * Used as the node timeout when the node sets no `timeout_seconds`.
+   */
   max_timeout_seconds?: number;
   /** Initial poll interval in seconds (default 5). Increases via exponential backoff up to 30s. */
   readiness_poll_interval_seconds?: number;
@@ -58,8 +61,24 @@ export async function deployPreviewNode(
     };
   }
 
+  try {
+    return await deployPreview(nc, ctx, deps);
+  } catch (error) {
+    if (!deps.abortSignal?.aborted) throw error;
+    // The engine's node timeout is the hard cutoff; a preview that never came up is still a soft fail
+    const reason = error instanceof Error ? error.message : "aborted";
+    await appendLog(logFile, `[deploy_preview] stopped waiting: ${reason}\n`);
+    return { outcome: "soft_fail", error: `Preview not ready: ${reason}` };
+  }
+}
+
+async function deployPreview(
+  nc: DeployPreviewConfig,
+  ctx: ContextBag,
+  deps: NodeDeps
+): Promise<NodeResult> {
+  const logFile = deps.logFile;
   const expectedTimeoutMs = (nc.readiness_timeout_seconds ?? 300) * 1000;
-  const maxTimeoutMs = (nc.max_timeout_seconds ?? 1800) * 1000;
   const initialIntervalMs = Math.max((nc.readiness_poll_interval_seconds ?? 5), 1) * 1000;
 
   let previewUrl: string | undefined;
@@ -70,7 +89,7 @@ export async function deployPreviewNode(
       break;
 
     case "github_deployment_api":
-      previewUrl = await resolveGithubDeployment(nc, ctx, deps, maxTimeoutMs, logFile);
+      previewUrl = await resolveGithubDeployment(nc, ctx, deps, logFile);
       break;
 
     case "command":
@@ -98,8 +117,8 @@ export async function deployPreviewNode(
 
   // Wait for URL to be reachable (skip when timeout is 0)
   if (expectedTimeoutMs > 0) {
-    await appendLog(logFile, `[deploy_preview] waiting for ${previewUrl} (expected: ${String(Math.floor(expectedTimeoutMs / 1000))}s, max: ${String(Math.floor(maxTimeoutMs / 1000))}s)\n`);
-    const result = await waitForUrlReady(previewUrl, expectedTimeoutMs, maxTimeoutMs, initialIntervalMs, logFile);
+    await appendLog(logFile, `[deploy_preview] waiting for ${previewUrl} (expected: ${String(Math.floor(expectedTimeoutMs / 1000))}s)\n`);
+    const result = await waitForUrlReady(previewUrl, expectedTimeoutMs, initialIntervalMs, logFile);
 
     if (!result.ready) {
       return {
@@ -167,7 +186,6 @@ async function resolveGithubDeployment(
   nc: DeployPreviewConfig,
   ctx: ContextBag,
   deps: NodeDeps,
-  maxWaitMs: number,
   logFile: string
 ): Promise<string | undefined> {
   if (!nc.github_environment_pattern) {
@@ -192,11 +210,10 @@ async function resolveGithubDeployment(
   }
 
   const pollInterval = 15_000;
-  const deadline = Date.now() + maxWaitMs;
 
   await appendLog(logFile, `[deploy_preview] polling GitHub deployments for environment matching '${nc.github_environment_pattern}'...\n`);
 
-  while (Date.now() < deadline) {
+  for (;;) {
     const deployments = await deps.githubService.listDeployments(owner, repo);
     const matching = deployments
       .filter((d: DeploymentInfo) => envRegex.test(d.environment))
@@ -221,8 +238,6 @@ async function resolveGithubDeployment(
     await appendLog(logFile, "[deploy_preview] no ready deployment yet, waiting...\n");
     await sleep(pollInterval);
   }
-
-  return undefined;
 }
 
 function urlMatchesPrNumber(url: string, prNumber: string): boolean {
@@ -312,19 +327,17 @@ interface ReadinessResult {
  * - Exponential backoff: starts at initialIntervalMs, doubles up to 30s
  * - 503 awareness: if the proxy returns 503 (e.g. Traefik waiting for backend),
  *   the system knows the domain is configured — keeps waiting beyond expectedTimeoutMs
- * - Dual timeout: expectedTimeoutMs is the normal cutoff; maxTimeoutMs is the hard limit.
- *   Polling continues past expectedTimeoutMs only if we've seen signs of activity (503, DNS resolves).
+ * - expectedTimeoutMs is the normal cutoff. Polling continues past it only if we've
+ *   seen signs of activity (503, DNS resolves); the node timeout is the hard limit.
  */
 async function waitForUrlReady(
   url: string,
   expectedTimeoutMs: number,
-  maxTimeoutMs: number,
   initialIntervalMs: number,
   logFile: string
 ): Promise<ReadinessResult> {
   const startTime = Date.now();
   const expectedDeadline = startTime + expectedTimeoutMs;
-  const hardDeadline = startTime + maxTimeoutMs;
   let intervalMs = initialIntervalMs;
   const maxIntervalMs = 30_000;
 
@@ -332,7 +345,7 @@ async function waitForUrlReady(
   let lastStatus = "no response";
   let pollCount = 0;
 
-  while (Date.now() < hardDeadline) {
+  for (;;) {
     pollCount++;
     const elapsed = Date.now() - startTime;
 
@@ -382,6 +395,4 @@ async function waitForUrlReady(
     // Exponential backoff: double interval, cap at maxIntervalMs
     intervalMs = Math.min(intervalMs * 2, maxIntervalMs);
   }
-
-  return { ready: false, elapsedMs: Date.now() - startTime, lastStatus };
 }
@@ -5,7 +5,7 @@ import type { ContextBag } from "../context-bag.js";
 import { runShell, runShellCapture, appendLog, sleep } from "../shell.js";
 import { buildAgentCommandWithSelection } from "../agent-command.js";
 import { describeAgentProfileSelection } from "../../agent-profile-resolver.js";
-import { commitCaptureAndPush } from "../git-ops.js";
+import { commitCaptureAndPush, recordPushedCommit } from "../git-ops.js";
 import { isNonCodeFixFailure, type BrowserVerifyFailureCode } from "../quality-gates/browser-verify-routing.js";
 import { filterInternalGeneratedFiles, mergeInternalArtifacts } from "../internal-generated-files.js";
 
@@ -18,7 +18,7 @@ import { filterInternalGeneratedFiles, mergeInternalArtifacts } from "../interna
  * Called by the pipeline engine's on_failure loop when browser_verify fails.
  */
 export async function fixBrowserNode(
-  _nodeConfig: NodeConfig,
+  nodeConfig: NodeConfig,
   ctx: ContextBag,
   deps: NodeDeps
 ): Promise<NodeResult> {
@@ -117,6 +117,7 @@ export async function fixBrowserNode(
   const { commitSha: newSha, changedFiles: newChangedFiles, internalArtifacts } = await commitCaptureAndPush(
     repoDir, commitMsg, logFile, run.branchName
   );
+  await recordPushedCommit(deps, nodeConfig.id, newSha);
 
   await appendLog(logFile, `\n[browser:fix] pushed fix commit ${newSha.slice(0, 8)}\n`);
 
@@ -1,6 +1,7 @@
 import { writeFile } from "node:fs/promises";
 import path from "node:path";
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import { LOOP_INPUTS } from "../node-contracts.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { runShell, appendLog } from "../shell.js";
 import { buildAgentCommandWithSelection } from "../agent-command.js";
@@ -62,3 +63,8 @@ export async function fixValidationNode(
 
   return { outcome: "success" };
 }
+
+fixValidationNode.contract = {
+  reads: { repoDir: "string", runDir: "string" },
+  optionalReads: { ...LOOP_INPUTS, lastFailureRawOutput: "string" }
+} satisfies NodeContract;
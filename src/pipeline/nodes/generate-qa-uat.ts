@@ -1,5 +1,5 @@
 import { readFile } from "node:fs/promises";
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { callLLM, type LLMCallerConfig } from "../../llm/caller.js";
 import { appendLog } from "../shell.js";
@@ -102,6 +102,11 @@ export async function generateQaUatNode(
   }
 }
 
+generateQaUatNode.contract = {
+  reads: { promptFile: "string" },
+  writes: { qaUatComment: "string" }
+} satisfies NodeContract;
+
 export function normalizeQaUatComment(content: string): string {
   const trimmed = content.trim();
   if (!trimmed) {
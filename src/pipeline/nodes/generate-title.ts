@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { summarizeTitle } from "../../llm/caller.js";
 import { describeAgentProfileSelection, resolveLLMProfileSelection } from "../../agent-profile-resolver.js";
@@ -66,3 +66,7 @@ export async function generateTitleNode(
     return { outcome: "soft_fail", error: message };
   }
 }
+
+generateTitleNode.contract = {
+  writes: { generatedTitle: "string" }
+} satisfies NodeContract;
@@ -1,6 +1,6 @@
 import { access, readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import type { RunRecord } from "../../types.js";
 import type { RunPrefetchContext } from "../../runtime/run-context-types.js";
@@ -141,6 +141,21 @@ export async function hydrateContextNode(
   return { outcome: "success" };
 }
 
+hydrateContextNode.contract = {
+  reads: { repoDir: "string", promptFile: "string" },
+  optionalReads: {
+    browserVerifyFailureCode: "string",
+    browserVerifyVerdictReason: "string",
+    executionMode: "string",
+    implementationPlan: "string",
+    isFollowUp: "boolean",
+    prefetchContext: "object",
+    repoProfile: "string",
+    resolvedBaseBranch: "string",
+    taskType: "string"
+  }
+} satisfies NodeContract;
+
 // ── Repo summary builder ──
 
 const EXCLUDED_DIRS = ["node_modules", ".git", "vendor", "dist", "build", "__pycache__", ".venv", ".next", ".turbo", "coverage"];
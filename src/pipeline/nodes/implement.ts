@@ -1,6 +1,6 @@
 import { writeFile } from "node:fs/promises";
 import path from "node:path";
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog, runShellCapture } from "../shell.js";
 import { buildAgentCommandWithSelection } from "../agent-command.js";
@@ -322,6 +322,20 @@ export async function implementNode(
   };
 }
 
+implementNode.contract = {
+  reads: { repoDir: "string", promptFile: "string" },
+  optionalReads: { isFollowUp: "boolean", runDir: "string" },
+  writes: {
+    agentAnalysis: "object",
+    agentCost: "object",
+    internalArtifacts: "string[]",
+    autoReviewNoop: "boolean",
+    autoReviewSummary: "object",
+    autoReviewSummaryPath: "string",
+    autoReviewGroundingMetrics: "object"
+  }
+} satisfies NodeContract;
+
 // ── Agent output analysis ──
 
 const ERROR_PATTERNS = [
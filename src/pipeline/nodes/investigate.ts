@@ -1,6 +1,6 @@
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
-import type { NodeConfig, NodeDeps, NodeResult } from "../types.js";
+import type { NodeConfig, NodeDeps, NodeResult, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog, runShellCapture } from "../shell.js";
 import { buildAgentCommand } from "../agent-command.js";
@@ -80,3 +80,8 @@ export async function investigateNode(
   });
   return { outcome: "success" };
 }
+
+investigateNode.contract = {
+  optionalReads: { repoDir: "string" },
+  writes: { answer: "string" }
+} satisfies NodeContract;
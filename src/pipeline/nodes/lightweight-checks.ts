@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog, runShellCapture, shellEscape } from "../shell.js";
 
@@ -76,6 +76,10 @@ export async function lightweightChecksNode(
   return { outcome: "success" };
 }
 
+lightweightChecksNode.contract = {
+  reads: { repoDir: "string" }
+} satisfies NodeContract;
+
 async function detectChangedFiles(repoDir: string, logFile: string): Promise<string[]> {
   await runShellCapture("git add -A", { cwd: repoDir, logFile });
   try {
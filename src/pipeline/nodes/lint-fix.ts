@@ -1,5 +1,5 @@
 import path from "node:path";
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { runShellCapture, renderTemplate, appendLog, mapToContainerPath } from "../shell.js";
 
@@ -42,3 +42,7 @@ export async function lintFixNode(
   // Lint fix never fails the pipeline — it's best-effort
   return { outcome: "success" };
 }
+
+lintFixNode.contract = {
+  reads: { repoDir: "string", promptFile: "string" }
+} satisfies NodeContract;
@@ -6,7 +6,7 @@
  * Returns failure with structured output for fix_validation loops.
  */
 
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { runShellCapture, appendLog } from "../shell.js";
 
@@ -45,3 +45,7 @@ export async function localTestNode(
     rawOutput
   };
 }
+
+localTestNode.contract = {
+  reads: { repoDir: "string" }
+} satisfies NodeContract;
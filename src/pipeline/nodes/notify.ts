@@ -14,7 +14,7 @@
  *         Authorization: "Bearer token"
  */
 
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog } from "../shell.js";
 import { logInfo } from "../../logger.js";
@@ -96,3 +96,7 @@ export async function notifyNode(
     };
   }
 }
+
+notifyNode.contract = {
+  optionalReads: { changedFiles: "string[]", commitSha: "string", gateReport: "array", prUrl: "string" }
+} satisfies NodeContract;
@@ -8,7 +8,7 @@
  * Skips gracefully if no OPENROUTER_API_KEY is configured.
  */
 
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { callLLM } from "../../llm/caller.js";
 import { describeAgentProfileSelection, resolveLLMProfileSelection } from "../../agent-profile-resolver.js";
@@ -107,3 +107,8 @@ export async function planTaskNode(
     return { outcome: "skipped" };
   }
 }
+
+planTaskNode.contract = {
+  optionalReads: { repoSummary: "string", taskType: "string" },
+  writes: { implementationPlan: "string" }
+} satisfies NodeContract;
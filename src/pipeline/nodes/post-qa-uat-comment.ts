@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog } from "../shell.js";
 import {
@@ -78,3 +78,8 @@ export async function postQaUatCommentNode(
 
   return { outcome: "success", outputs: { qaUatCommentPosted: true } };
 }
+
+postQaUatCommentNode.contract = {
+  reads: { qaUatComment: "string" },
+  writes: { qaUatCommentPosted: "boolean", qaUatCommentId: "number" }
+} satisfies NodeContract;
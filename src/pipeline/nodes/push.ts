@@ -1,6 +1,7 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
-import { runShell, shellEscape } from "../shell.js";
+import { runShell, runShellCapture, shellEscape } from "../shell.js";
+import { recordPushedCommit } from "../git-ops.js";
 import { buildAuthenticatedGitUrl } from "../../github.js";
 
 export function buildPushCommand(branchName: string, forcePushWithLease: boolean): string {
@@ -14,7 +15,7 @@ export function buildPushCommand(branchName: string, forcePushWithLease: boolean
  * installation token expiry (GitHub App tokens expire after 1 hour).
  */
 export async function pushNode(
-  _nodeConfig: NodeConfig,
+  nodeConfig: NodeConfig,
   ctx: ContextBag,
   deps: NodeDeps
 ): Promise<NodeResult> {
@@ -53,6 +54,14 @@ export async function pushNode(
     cwd: repoDir,
     logFile
   });
+  const head = await runShellCapture("git rev-parse HEAD", { cwd: repoDir, logFile });
+  await recordPushedCommit(deps, nodeConfig.id, head.stdout.trim());
 
   return { outcome: "success" };
 }
+
+pushNode.contract = {
+  reads: { repoDir: "string" },
+  optionalReads: { forcePushWithLease: "boolean", isFollowUp: "boolean" },
+  writes: { dryRun: "boolean" }
+} satisfies NodeContract;
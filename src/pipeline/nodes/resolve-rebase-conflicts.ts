@@ -1,10 +1,12 @@
 import { readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
-import type { NodeConfig, NodeDeps, NodeResult } from "../types.js";
+import { LOOP_INPUTS } from "../node-contracts.js";
+import type { NodeConfig, NodeDeps, NodeResult, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog, runShell, runShellCapture, shellEscape } from "../shell.js";
 import { buildAgentCommandWithSelection } from "../agent-command.js";
 import { describeAgentProfileSelection } from "../../agent-profile-resolver.js";
+import { recordPushedCommit } from "../git-ops.js";
 
 const DEFAULT_MAX_REBASE_STEPS = 10;
 
@@ -264,6 +266,7 @@ export async function resolveRebaseConflictsNode(
       };
     }
     await appendLog(logFile, `[resolve_rebase_conflicts] pushed ${afterHead.slice(0, 8)} to origin/${branchName}\n`);
+    await recordPushedCommit(deps, nodeConfig.id, afterHead);
   } else {
     await appendLog(logFile, `[resolve_rebase_conflicts] no branchName on run; skipping push\n`);
   }
@@ -285,6 +288,18 @@ export async function resolveRebaseConflictsNode(
   };
 }
 
+resolveRebaseConflictsNode.contract = {
+  reads: { repoDir: "string", runDir: "string" },
+  optionalReads: { ...LOOP_INPUTS, rebaseConflictBaseBranch: "string", resolvedBaseBranch: "string" },
+  writes: {
+    commitSha: "string",
+    changedFiles: "string[]",
+    forcePushWithLease: "boolean",
+    rebasePerformed: "boolean",
+    requiresForcePush: "boolean"
+  }
+} satisfies NodeContract;
+
 interface RunConflictAgentInput {
   attempt: number;
   agentRound: number;
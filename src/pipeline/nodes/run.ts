@@ -6,7 +6,7 @@
  */
 
 import path from "node:path";
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { runShellCapture, renderTemplate, appendLog, mapToContainerPath } from "../shell.js";
 
@@ -79,3 +79,11 @@ export async function runNode(
     rawOutput
   };
 }
+
+runNode.contract = {
+  optionalReads: { promptFile: "string", repoDir: "string" },
+  configWrites: (config) => {
+    const outputKey = config?.["output_key"];
+    return typeof outputKey === "string" && outputKey ? { [outputKey]: "string" } : {};
+  }
+} satisfies NodeContract;
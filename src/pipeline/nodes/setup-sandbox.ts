@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog } from "../shell.js";
 import { resolveRepoSandboxImage } from "../../sandbox/image-resolver.js";
@@ -68,3 +68,8 @@ export async function setupSandboxNode(
     }
   };
 }
+
+setupSandboxNode.contract = {
+  optionalReads: { repoDir: "string" },
+  writes: { sandboxImage: "string", sandboxSource: "string", sandboxBuiltLocally: "boolean" }
+} satisfies NodeContract;
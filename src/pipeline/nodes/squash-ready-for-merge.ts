@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeDeps, NodeResult } from "../types.js";
+import type { NodeConfig, NodeDeps, NodeResult, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog, runShellCapture, shellEscape } from "../shell.js";
 
@@ -210,3 +210,18 @@ export async function squashReadyForMergeNode(
     },
   };
 }
+
+squashReadyForMergeNode.contract = {
+  reads: { repoDir: "string" },
+  optionalReads: { resolvedBaseBranch: "string" },
+  writes: {
+    commitSha: "string",
+    previousCommitSha: "string",
+    changedFiles: "string[]",
+    commitCountAhead: "number",
+    forcePushWithLease: "boolean",
+    requiresForcePush: "boolean",
+    resolvedBaseBranch: "string",
+    squashPerformed: "boolean"
+  }
+} satisfies NodeContract;
@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { callLLM } from "../../llm/caller.js";
 import { describeAgentProfileSelection, resolveLLMProfileSelection } from "../../agent-profile-resolver.js";
@@ -105,3 +105,8 @@ export async function summarizeChangesNode(
     return { outcome: "soft_fail", error: message };
   }
 }
+
+summarizeChangesNode.contract = {
+  optionalReads: { changedFiles: "string[]", repoDir: "string" },
+  writes: { changeSummary: "string" }
+} satisfies NodeContract;
@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeDeps, NodeResult } from "../types.js";
+import type { NodeConfig, NodeDeps, NodeResult, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { appendLog, runShellCapture, shellEscape } from "../shell.js";
 import { canAutoRebaseFeatureDeliveryBranch } from "../../work-items/feature-delivery-policy.js";
@@ -214,3 +214,19 @@ export async function syncBaseBranchNode(
     },
   };
 }
+
+syncBaseBranchNode.contract = {
+  reads: { repoDir: "string" },
+  optionalReads: { rebaseConflictBaseBranch: "string", rebasePerformed: "boolean", resolvedBaseBranch: "string" },
+  writes: {
+    commitSha: "string",
+    changedFiles: "string[]",
+    behindCount: "number",
+    forcePushWithLease: "boolean",
+    rebaseConflictBaseBranch: "string",
+    rebaseConflictFiles: "string[]",
+    rebasePerformed: "boolean",
+    requiresForcePush: "boolean",
+    resolvedBaseBranch: "string"
+  }
+} satisfies NodeContract;
@@ -5,6 +5,7 @@ import type { ContextBag } from "../context-bag.js";
 import type { AgentAnalysis } from "./implement.js";
 import { buildPrBody } from "./create-pr.js";
 import { appendLog } from "../shell.js";
+import { recordPushedCommit } from "../git-ops.js";
 import { logInfo, logError } from "../../logger.js";
 
 /**
@@ -18,7 +19,7 @@ import { logInfo, logError } from "../../logger.js";
  * Skips gracefully if no screenshot or no PR exists.
  */
 export async function uploadScreenshotNode(
-  _nodeConfig: NodeConfig,
+  nodeConfig: NodeConfig,
   ctx: ContextBag,
   deps: NodeDeps
 ): Promise<NodeResult> {
@@ -53,6 +54,7 @@ export async function uploadScreenshotNode(
       commitMessage: `chore: add verification media for ${run.id.slice(0, 8)}`
     });
     const screenshotUrl = uploadResult.url;
+    await recordPushedCommit(deps, nodeConfig.id, uploadResult.commitSha);
 
     await appendLog(logFile, `[upload_screenshot] screenshot uploaded: ${screenshotUrl}\n`);
     logInfo("upload_screenshot: uploaded", { url: screenshotUrl });
@@ -79,6 +81,7 @@ export async function uploadScreenshotNode(
           });
           videoEmbedUrl = videoResult.url;
           videoCommitSha = videoResult.commitSha;
+          await recordPushedCommit(deps, nodeConfig.id, videoCommitSha);
           videoUrl = buildGitHubBlobUrl(run.repoSlug, videoRepoPath, videoCommitSha) ?? videoEmbedUrl;
           await appendLog(logFile, `[upload_screenshot] video uploaded: ${videoUrl} (${Math.round(videoStat.size / 1024)}KB)\n`);
           logInfo("upload_screenshot: video uploaded", { url: videoUrl, sizeKB: Math.round(videoStat.size / 1024) });
@@ -1,5 +1,5 @@
 import path from "node:path";
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { runShellCapture, renderTemplate, appendLog, mapToContainerPath } from "../shell.js";
 
@@ -55,3 +55,7 @@ export async function validateNode(
     rawOutput
   };
 }
+
+validateNode.contract = {
+  reads: { repoDir: "string", promptFile: "string" }
+} satisfies NodeContract;
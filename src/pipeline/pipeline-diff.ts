@@ -0,0 +1,87 @@
+import { parse as parseYaml } from "yaml";
+
+/**
+ * Diff two pipeline YAML revisions: a line diff for display plus the node
+ * ids added, removed or changed, so a history entry can be summarized as
+ * "changed: implement, validate" without reading the whole diff.
+ */
+
+export interface PipelineDiffLine {
+  op: "same" | "add" | "remove";
+  text: string;
+}
+
+export interface PipelineDiff {
+  lines: PipelineDiffLine[];
+  added: number;
+  removed: number;
+  nodes: { added: string[]; removed: string[]; changed: string[] };
+}
+
+export function diffPipelineYaml(before: string, after: string): PipelineDiff {
+  const lines = diffLines(before.split("\n"), after.split("\n"));
+  return {
+    lines,
+    added: lines.filter(line => line.op === "add").length,
+    removed: lines.filter(line => line.op === "remove").length,
+    nodes: diffNodes(before, after)
+  };
+}
+
+/** LCS line diff. Pipelines are a few hundred lines, so O(n·m) is fine. */
+function diffLines(a: string[], b: string[]): PipelineDiffLine[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: PipelineDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: "same", text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      lines.push({ op: "remove", text: a[i]! });
+      i++;
+    } else {
+      lines.push({ op: "add", text: b[j]! });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) lines.push({ op: "remove", text: a[i]! });
+  for (; j < b.length; j++) lines.push({ op: "add", text: b[j]! });
+  return lines;
+}
+
+function diffNodes(before: string, after: string): PipelineDiff["nodes"] {
+  const beforeNodes = nodesById(before);
+  const afterNodes = nodesById(after);
+  return {
+    added: [...afterNodes.keys()].filter(id => !beforeNodes.has(id)),
+    removed: [...beforeNodes.keys()].filter(id => !afterNodes.has(id)),
+    changed: [...afterNodes.keys()].filter(id => beforeNodes.has(id) && beforeNodes.get(id) !== afterNodes.get(id))
+  };
+}
+
+/** Top-level node definitions keyed by id, serialized for comparison. */
+function nodesById(yaml: string): Map<string, string> {
+  const byId = new Map<string, string>();
+  let doc: unknown;
+  try {
+    doc = parseYaml(yaml);
+  } catch {
+    return byId;
+  }
+  const nodes = (doc as { nodes?: unknown } | null)?.nodes;
+  if (!Array.isArray(nodes)) return byId;
+  for (const node of nodes) {
+    const id = (node as { id?: unknown } | null)?.id;
+    if (typeof id === "string") byId.set(id, JSON.stringify(node));
+  }
+  return byId;
+}
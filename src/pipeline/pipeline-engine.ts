@@ -10,7 +10,9 @@ import type {
   PipelineStepResult,
   LoopConfig,
   NodeEvent,
-  NodeEventListener
+  NodeEventListener,
+  PipelineResumeState,
+  RetryConfig
 } from "./types.js";
 import { EventLogger } from "./event-logger.js";
 import { computeCostUsd } from "../llm/model-prices.js";
@@ -19,15 +21,17 @@ import type { AppConfig } from "../config.js";
 import type { GitHubService } from "../github.js";
 import type { RunLifecycleHooks } from "../hooks/run-lifecycle.js";
 import { ContextBag } from "./context-bag.js";
-import { loadPipeline } from "./pipeline-loader.js";
-import { appendLog, flushRunLogMirror, runInSandboxContext } from "./shell.js";
+import { loadPipeline, localNodeId } from "./pipeline-loader.js";
+import { evaluateCondition } from "./expression.js";
+import { appendLog, flushRunLogMirror, runInSandboxContext, runWithAbortSignal, sleep } from "./shell.js";
 import { filterInternalGeneratedFiles } from "./internal-generated-files.js";
 import { logInfo } from "../logger.js";
 import type { ContainerManager } from "../sandbox/container-manager.js";
 import type { SandboxHandle } from "../sandbox/types.js";
 
-import { NODE_HANDLERS } from "./node-registry.js";
+import { defaultNodeTimeoutSeconds, NODE_HANDLERS } from "./node-registry.js";
 import { isNonCodeFixFailure, type BrowserVerifyFailureCode } from "./quality-gates/browser-verify-routing.js";
+import type { ApprovalRequestPayload, PipelineSnapshotPayload } from "../runs/run-checkpoints.js";
 import { escalateMode, type ExecutionMode } from "./quality-gates/task-classifier.js";
 
 export type PipelinePhase = "cloning" | "rebasing" | "agent" | "validating" | "pushing" | "awaiting_ci" | "ci_fixing";
@@ -63,17 +67,68 @@ function isAgentCostOutput(value: unknown): value is AgentCostOutput {
 }
 
 /**
- * Evaluate a pipeline node `if` condition.
- * Only 5 patterns exist across all YAMLs — all resolve to truthiness or `!= ''`.
+ * Evaluate a pipeline `if` / `until` expression against the context bag,
+ * app config and recorded node results. See expression.ts for the grammar.
  */
-function shouldRunNode(condition: string, ctx: ContextBag, config: Record<string, unknown>): boolean {
-  const neqMatch = condition.match(/^(.+?)\s*!=\s*''\s*$/);
-  if (neqMatch) {
-    const value = ctx.resolve(neqMatch[1]!.trim(), config);
-    return value !== undefined && value !== null && value !== "";
+function evaluatePipelineCondition(condition: string, ctx: ContextBag, config: Record<string, unknown>): boolean {
+  return evaluateCondition(condition, {
+    ctx: ctx.toObject(),
+    config,
+    nodes: ctx.nodeResultsObject()
+  });
+}
+
+/**
+ * skipNodes / enableNodes entries match a node by its full id or, for steps
+ * inlined from a called pipeline, by the step's own id.
+ */
+export function matchesNodeIdSet(nodeId: string, ids: ReadonlySet<string> | undefined): boolean {
+  return !!ids && (ids.has(nodeId) || ids.has(localNodeId(nodeId)));
+}
+
+/**
+ * Resolve a `_goto` target. Inside a called pipeline a bare step id refers
+ * to a sibling step in the same call before a top-level node.
+ */
+function findGotoTarget(nodes: NodeConfig[], fromNodeId: string, target: string): number {
+  const namespaceEnd = fromNodeId.lastIndexOf(".");
+  if (namespaceEnd >= 0) {
+    const sibling = nodes.findIndex(n => n.id === `${fromNodeId.slice(0, namespaceEnd)}.${target}`);
+    if (sibling >= 0) return sibling;
+  }
+  return nodes.findIndex(n => n.id === target);
+}
+
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+
+/** How long a timed-out handler gets to unwind after its abort before it is fenced off. */
+const TIMED_OUT_NODE_GRACE_MS = 30_000;
+
+/** Delay before attempt `failedAttempt + 1`. */
+function retryDelayMs(retry: RetryConfig, failedAttempt: number): number {
+  const baseMs = (retry.delay_seconds ?? 5) * 1000;
+  const delayMs = retry.backoff === "fixed" ? baseMs : baseMs * 2 ** (failedAttempt - 1);
+  return Math.min(delayMs, MAX_RETRY_DELAY_MS);
+}
+
+/** Every Nth snapshot of a run is stored in full so delta chains stay short. */
+const FULL_SNAPSHOT_INTERVAL = 10;
+
+/** The last persisted snapshot of a run, as serialized values per key. */
+interface SnapshotChain {
+  lastKey?: string;
+  deltas: number;
+  context: Map<string, string>;
+  nodeResults: Map<string, string>;
+}
+
+function serializedEntries(record: Record<string, unknown>): Map<string, string> {
+  const entries = new Map<string, string>();
+  for (const [key, value] of Object.entries(record)) {
+    const json = JSON.stringify(value) as string | undefined;
+    if (json !== undefined) entries.set(key, json);
   }
-  const value = ctx.resolve(condition.trim(), config);
-  return !!value;
+  return entries;
 }
 
 function derivePipelineRoutingId(pipelineFilePath: string, pipeline: PipelineConfig): string {
@@ -82,11 +137,13 @@ function derivePipelineRoutingId(pipelineFilePath: string, pipeline: PipelineCon
 }
 
 /**
- * Pipeline engine: loads YAML pipeline, executes nodes in order,
- * handles loop constructs for failure recovery.
+ * Pipeline engine: loads YAML pipeline, executes nodes in order
+ * (or concurrently inside `parallel` blocks), handles loop constructs
+ * for failure recovery.
  */
 export class PipelineEngine {
   private readonly nodeEventListeners: NodeEventListener[] = [];
+  private readonly snapshotChains = new Map<string, SnapshotChain>();
 
   constructor(
     private readonly config: AppConfig,
@@ -110,6 +167,7 @@ export class PipelineEngine {
    * Execute a pipeline for a run.
    * @param skipNodes — optional list of node IDs to skip entirely (from orchestrator classification)
    * @param enableNodes — optional list of node IDs to force-enable (overrides enabled: false in YAML)
+   * @param resume — optional snapshot to restart from; the run's existing workspace is reused
    */
   async execute(
     run: RunRecord,
@@ -127,6 +185,7 @@ export class PipelineEngine {
       payload?: Record<string, unknown>;
       emittedAt?: string;
     }) => Promise<void>,
+    resume?: PipelineResumeState,
   ): Promise<ExecutionResult> {
     const yamlPath = pipelineFile ?? path.resolve("pipelines/pipeline.yml");
     const pipeline = await loadPipeline(yamlPath);
@@ -139,7 +198,9 @@ export class PipelineEngine {
     // Ensure run directory + log file exist before pipeline starts
     // (the clone node will rm + recreate, but we need the dir for pre-node logging)
     await mkdir(runDir, { recursive: true });
-    await appendLog(logFile, `${this.config.appName} pipeline started for ${run.id}\n`);
+    await appendLog(logFile, resume
+      ? `\n${this.config.appName} pipeline resumed for ${run.id} from ${resume.fromNodeId}\n`
+      : `${this.config.appName} pipeline started for ${run.id}\n`);
 
     try {
       // Event logger — local to this execution to avoid race conditions
@@ -182,9 +243,28 @@ export class PipelineEngine {
         },
         onDetail,
         recordTokenUsage,
+        abortSignal,
       };
 
       let startIndex = 0;
+      if (resume) {
+        ctx.mergeOutputs(resume.context);
+        ctx.loadNodeResults(resume.nodeResults);
+        startIndex = pipeline.nodes.findIndex(n =>
+          n.id === resume.fromNodeId || (n.parallel?.some(child => child.id === resume.fromNodeId) ?? false)
+        );
+        if (startIndex < 0) {
+          throw new Error(`Cannot resume: node '${resume.fromNodeId}' is not in pipeline '${pipelineRoutingId}'`);
+        }
+      }
+      this.snapshotChains.set(run.id, resume?.snapshotCheckpointKey
+        ? {
+            lastKey: resume.snapshotCheckpointKey,
+            deltas: 0,
+            context: serializedEntries(resume.context),
+            nodeResults: serializedEntries(resume.nodeResults)
+          }
+        : { deltas: 0, context: new Map(), nodeResults: new Map() });
 
       // Determine sandbox strategy: deferred (setup_sandbox node) or upfront (legacy)
       const hasSetupSandbox = pipeline.nodes.some(n => n.action === "setup_sandbox");
@@ -199,6 +279,15 @@ export class PipelineEngine {
         sandbox = await this.buildAndCreateSandbox(run.id, this.config.sandboxImage, logFile);
       }
 
+      // Resuming past setup_sandbox: recreate the container with the image it resolved last time
+      const setupSandboxIndex = pipeline.nodes.findIndex(n => n.action === "setup_sandbox");
+      const resumesPastSetupSandbox = hasSetupSandbox && startIndex > setupSandboxIndex;
+      if (resumesPastSetupSandbox && this.config.sandboxEnabled && this.containerManager) {
+        const resolvedImage = ctx.get<string>("sandboxImage");
+        const image = resolvedImage && resolvedImage !== "none" ? resolvedImage : this.config.sandboxImage;
+        sandbox = await this.buildAndCreateSandbox(run.id, image, logFile);
+      }
+
       // For deferred sandbox, provide requestSandbox callback
       if (hasSetupSandbox && this.config.sandboxEnabled && this.containerManager) {
         deps.requestSandbox = async (image: string) => {
@@ -207,7 +296,8 @@ export class PipelineEngine {
         deps.containerManager = this.containerManager;
       }
 
-      const skipNodeIdSet = skipNodes && skipNodes.length > 0 ? new Set(skipNodes) : undefined;
+      const skipNodeIds = [...(skipNodes ?? []), ...(resume?.skipNodeIds ?? [])];
+      const skipNodeIdSet = skipNodeIds.length > 0 ? new Set(skipNodeIds) : undefined;
       let enableNodeIdSet = enableNodes && enableNodes.length > 0 ? new Set(enableNodes) : undefined;
       if (enableNodeIdSet?.has("browser_verify")) {
         // Recovery decision should follow browser_verify by default when browser verify is explicitly enabled.
@@ -223,7 +313,7 @@ export class PipelineEngine {
           result = await runInSandboxContext(sandbox.containerId, run.id, () =>
             this.executePipeline(pipeline, pipelineRoutingId, ctx, deps, startIndex, eventLogger, skipNodeIdSet, enableNodeIdSet, abortSignal)
           );
-        } else if (hasSetupSandbox) {
+        } else if (hasSetupSandbox && !resumesPastSetupSandbox) {
           // Deferred path: run pre-sandbox nodes on host, then enter sandbox context
           // after setup_sandbox completes. executePipeline handles the context switch.
           result = await this.executePipeline(pipeline, pipelineRoutingId, ctx, deps, startIndex, eventLogger, skipNodeIdSet, enableNodeIdSet, abortSignal, sandboxRef);
@@ -268,9 +358,11 @@ export class PipelineEngine {
         prNumber,
         tokenUsage: tokenUsage ?? undefined,
         title: ctx.get<string>("generatedTitle"),
-        answer: ctx.get<string>("answer")
+        answer: ctx.get<string>("answer"),
+        ...(result.approvalRequest ? { approvalRequest: result.approvalRequest } : {})
       };
     } finally {
+      this.snapshotChains.delete(run.id);
       flushRunLogMirror(run.id);
     }
   }
@@ -301,41 +393,50 @@ export class PipelineEngine {
 
       const node = pipeline.nodes[i] as NodeConfig;
 
-      // Check skipNodeIds first (explicit skip always wins)
-      if (skipNodeIds?.has(node.id)) {
-        steps.push({ nodeId: node.id, outcome: "skipped", durationMs: 0 });
-        await eventLogger?.emit("node_end", { nodeId: node.id, outcome: "skipped", durationMs: 0 });
-        await appendLog(deps.logFile, `\n[pipeline] ${node.id}: skipped (in skipNodes list)\n`);
+      if (await this.skipIfNotRunnable(node, ctx, deps, steps, eventLogger, skipNodeIds, enableNodeIds)) {
         continue;
       }
 
-      // Check enabled flag — enableNodes overrides enabled: false
-      if (node.enabled === false && !enableNodeIds?.has(node.id)) {
-        steps.push({ nodeId: node.id, outcome: "skipped", durationMs: 0 });
-        await eventLogger?.emit("node_end", { nodeId: node.id, outcome: "skipped", durationMs: 0 });
-        continue;
-      }
+      await this.emitPipelineSnapshot(pipelineId, node, ctx, deps, skipNodeIds);
 
-      // Evaluate `if` condition (simple truthiness / != '' patterns only)
-      if (node.if) {
-        const configObj = this.config as unknown as Record<string, unknown>;
-        const shouldRun = shouldRunNode(node.if, ctx, configObj);
-        if (!shouldRun) {
-          steps.push({ nodeId: node.id, outcome: "skipped", durationMs: 0 });
-          await eventLogger?.emit("node_end", { nodeId: node.id, outcome: "skipped", durationMs: 0 });
-          await appendLog(deps.logFile, `\n[pipeline] ${node.id}: skipped (condition: ${node.if})\n`);
-          continue;
+      if (node.parallel) {
+        const blockResult = await this.executeParallelBlock(
+          pipelineId, node, ctx, deps, eventLogger, skipNodeIds, enableNodeIds
+        );
+        steps.push(...blockResult.steps);
+        warnings.push(...blockResult.warnings);
+        if (blockResult.dynamicSkips.length > 0) {
+          skipNodeIds ??= new Set<string>();
+          for (const id of blockResult.dynamicSkips) skipNodeIds.add(id);
+        }
+        if (blockResult.outcome === "failure") {
+          return { outcome: "failure", steps, warnings };
         }
+        continue;
       }
 
       await appendLog(deps.logFile, `\n[pipeline] ${node.id}: starting\n`);
       const startTime = Date.now();
       const handler = this.getHandler(node.action);
-      const { result, durationMs } = await this.runTrackedNode(
-        pipelineId, node.id, node.action, handler, node, ctx, deps, eventLogger
+      const { result, durationMs, fenced } = await this.runNodeWithRetry(
+        pipelineId, handler, node, ctx, deps, eventLogger
       );
       await appendLog(deps.logFile, `\n[pipeline] ${node.id}: ${result.outcome} (${String(durationMs)}ms)\n`);
 
+      // A cancel mid-node kills its commands; don't start fix loops for that
+      if (abortSignal?.aborted && result.outcome === "failure") {
+        await appendLog(deps.logFile, "\n[pipeline] run cancelled by user\n");
+        return { outcome: "failure", steps: [...steps, { nodeId: node.id, outcome: "failure", durationMs, error: "Run cancelled" }], warnings };
+      }
+
+      // An approval_gate asked for a human decision: stop here and let
+      // RunManager park the run until someone answers
+      const approvalRequest = result.outputs?.["_awaitApproval"];
+      if (approvalRequest && result.outcome === "success") {
+        steps.push({ nodeId: node.id, outcome: "skipped", durationMs });
+        return { outcome: "awaiting_approval", steps, warnings, approvalRequest: approvalRequest as ApprovalRequestPayload };
+      }
+
       // Write outputs to context bag
       if (result.outputs) {
         ctx.mergeOutputs(result.outputs);
@@ -379,7 +480,7 @@ export class PipelineEngine {
         // Only process goto on success/soft_fail — never let a failed node bypass failure handling
         const gotoTarget = result.outputs["_goto"];
         if (typeof gotoTarget === "string" && result.outcome !== "failure") {
-          const targetIdx = pipeline.nodes.findIndex(n => n.id === gotoTarget);
+          const targetIdx = findGotoTarget(pipeline.nodes, node.id, gotoTarget);
           if (targetIdx < 0) {
             await appendLog(deps.logFile, `[pipeline] _goto target '${gotoTarget}' not found, ignoring\n`);
           } else {
@@ -402,8 +503,9 @@ export class PipelineEngine {
 
       }
 
-      // Handle failure with loop construct
-      if (result.outcome === "failure" && node.on_failure) {
+      // Handle failure with loop construct. A fenced node may still be
+      // touching the workspace, so no fix agent runs alongside it.
+      if (result.outcome === "failure" && node.on_failure && !fenced) {
         const loopResult = await this.handleLoopFailure(
           pipelineId, node, result, ctx, deps, eventLogger
         );
@@ -461,7 +563,7 @@ export class PipelineEngine {
         );
         steps.push(...remainingResult.steps);
         warnings.push(...remainingResult.warnings);
-        return { outcome: remainingResult.outcome, steps, warnings };
+        return { ...remainingResult, steps, warnings };
       }
     }
 
@@ -469,6 +571,194 @@ export class PipelineEngine {
     return { outcome: finalOutcome, steps, warnings };
   }
 
+  /**
+   * Persist a resumable snapshot just before a node runs, so a failed run
+   * can restart at this node without re-cloning or re-running the agent.
+   * Only keys that changed since the run's previous snapshot are written.
+   * Skipped for Kubernetes runs: their workspace lives in the runner pod and
+   * is gone once the run ends. Failures only log — snapshots are best-effort.
+   */
+  private async emitPipelineSnapshot(
+    pipelineId: string,
+    node: NodeConfig,
+    ctx: ContextBag,
+    deps: NodeDeps,
+    skipNodeIds?: Set<string>
+  ): Promise<void> {
+    const chain = this.snapshotChains.get(deps.run.id);
+    if (!deps.emitRunCheckpoint || !chain || deps.run.runtime === "kubernetes") return;
+
+    try {
+      // prefetchContext is re-seeded from the run record on resume; an
+      // approval decision only answers the gate pass it was given for
+      const {
+        prefetchContext: _prefetchContext,
+        approvalDecision: _approvalDecision,
+        approvalNote: _approvalNote,
+        approvalDecidedBy: _approvalDecidedBy,
+        ...context
+      } = ctx.toObject();
+      const nodeResults = ctx.nodeResultsObject();
+      const contextJson = serializedEntries(context);
+      const nodeResultsJson = serializedEntries(nodeResults);
+      const base = chain.lastKey !== undefined && chain.deltas < FULL_SNAPSHOT_INTERVAL ? chain.lastKey : undefined;
+      const changed = (current: Map<string, string>, previous: Map<string, string>): Record<string, unknown> =>
+        Object.fromEntries([...current]
+          .filter(([key, json]) => base === undefined || previous.get(key) !== json)
+          .map(([key, json]) => [key, JSON.parse(json) as unknown]));
+
+      const payload: PipelineSnapshotPayload = {
+        pipelineId,
+        nextNodeId: node.id,
+        completedSteps: Object.entries(nodeResults).map(([nodeId, result]) => ({ nodeId, outcome: String(result["outcome"]) })),
+        context: changed(contextJson, chain.context),
+        nodeResults: changed(nodeResultsJson, chain.nodeResults) as PipelineSnapshotPayload["nodeResults"],
+        ...(skipNodeIds && skipNodeIds.size > 0 ? { skipNodeIds: [...skipNodeIds] } : {})
+      };
+      if (base !== undefined) {
+        payload.baseCheckpointKey = base;
+        const removed = [...chain.context.keys()].filter((key) => !contextJson.has(key));
+        if (removed.length > 0) payload.removedContextKeys = removed;
+      }
+      const checkpointKey = `pipeline_snapshot:${node.id}:${new Date().toISOString()}`;
+      await deps.emitRunCheckpoint({
+        checkpointKey,
+        checkpointType: "run.pipeline_snapshot",
+        payload: payload as unknown as Record<string, unknown>
+      });
+      chain.lastKey = checkpointKey;
+      chain.deltas = base === undefined ? 0 : chain.deltas + 1;
+      chain.context = contextJson;
+      chain.nodeResults = nodeResultsJson;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown";
+      await appendLog(deps.logFile, `[pipeline] warning: failed to persist resume snapshot before ${node.id}: ${message}\n`);
+    }
+  }
+
+  /**
+   * Apply skipNodes, enabled/enableNodes and `if` checks to a node.
+   * Records a skipped step and returns true when the node should not run.
+   */
+  private async skipIfNotRunnable(
+    node: NodeConfig,
+    ctx: ContextBag,
+    deps: NodeDeps,
+    steps: PipelineStepResult[],
+    eventLogger?: EventLogger,
+    skipNodeIds?: Set<string>,
+    enableNodeIds?: Set<string>
+  ): Promise<boolean> {
+    let logLine: string | undefined;
+
+    if (matchesNodeIdSet(node.id, skipNodeIds)) {
+      // Explicit skip always wins
+      logLine = `\n[pipeline] ${node.id}: skipped (in skipNodes list)\n`;
+    } else if (node.enabled === false && !matchesNodeIdSet(node.id, enableNodeIds)) {
+      // enableNodes overrides enabled: false
+      logLine = "";
+    } else if (node.if) {
+      const configObj = this.config as unknown as Record<string, unknown>;
+      if (evaluatePipelineCondition(node.if, ctx, configObj)) return false;
+      logLine = `\n[pipeline] ${node.id}: skipped (condition: ${node.if})\n`;
+    } else {
+      return false;
+    }
+
+    steps.push({ nodeId: node.id, outcome: "skipped", durationMs: 0 });
+    await eventLogger?.emit("node_end", { nodeId: node.id, outcome: "skipped", durationMs: 0 });
+    if (logLine) await appendLog(deps.logFile, logLine);
+    return true;
+  }
+
+  /**
+   * Run the children of a `parallel` block concurrently.
+   *
+   * Children share the live ContextBag and the one workspace: a handler that
+   * calls `ctx.set` while running is visible to its siblings at once, and
+   * concurrent git changes would race, so the loader rejects workspace-mutating
+   * actions inside a block. Returned outputs are merged afterwards in
+   * declaration order, so they do not depend on which child finished first.
+   * All children run to completion even when one fails, then failures and soft
+   * fails are resolved per child exactly as for sequential nodes. `_goto` is
+   * not honoured inside a block.
+   */
+  private async executeParallelBlock(
+    pipelineId: string,
+    block: NodeConfig,
+    ctx: ContextBag,
+    deps: NodeDeps,
+    eventLogger?: EventLogger,
+    skipNodeIds?: Set<string>,
+    enableNodeIds?: Set<string>
+  ): Promise<{ outcome: "success" | "failure"; steps: PipelineStepResult[]; warnings: string[]; dynamicSkips: string[] }> {
+    const steps: PipelineStepResult[] = [];
+    const warnings: string[] = [];
+    const dynamicSkips: string[] = [];
+
+    const runnable: NodeConfig[] = [];
+    for (const child of block.parallel ?? []) {
+      if (!(await this.skipIfNotRunnable(child, ctx, deps, steps, eventLogger, skipNodeIds, enableNodeIds))) {
+        runnable.push(child);
+      }
+    }
+
+    await appendLog(deps.logFile, `\n[pipeline] ${block.id}: starting parallel block (${runnable.map(n => n.id).join(", ") || "no runnable nodes"})\n`);
+    const blockStart = Date.now();
+
+    // Each child gets its own deps object: runTrackedNode swaps
+    // agentProfileTarget in and out, which would race on a shared one.
+    const results = await Promise.all(runnable.map(child =>
+      this.runNodeWithRetry(pipelineId, this.getHandler(child.action), child, ctx, { ...deps }, eventLogger)
+    ));
+
+    let failed = false;
+    for (let j = 0; j < runnable.length; j++) {
+      const child = runnable[j] as NodeConfig;
+      const { result, durationMs } = results[j]!;
+      await appendLog(deps.logFile, `\n[pipeline] ${child.id}: ${result.outcome} (${String(durationMs)}ms)\n`);
+
+      if (result.outputs) {
+        ctx.mergeOutputs(result.outputs);
+        await this.recordTokenUsageFromOutputs(result.outputs, deps);
+
+        const childSkips = result.outputs["_skipNodes"];
+        if (Array.isArray(childSkips)) {
+          dynamicSkips.push(...childSkips.filter((id): id is string => typeof id === "string"));
+        }
+        if (typeof result.outputs["_goto"] === "string") {
+          await appendLog(deps.logFile, `[pipeline] _goto from ${child.id} ignored inside parallel block '${block.id}'\n`);
+        }
+      }
+
+      if (result.outcome === "soft_fail") {
+        if (child.on_soft_fail === "fail_run") {
+          steps.push({ nodeId: child.id, outcome: "failure", durationMs, error: result.error });
+          failed = true;
+          continue;
+        }
+        warnings.push(`${child.id}: ${result.error ?? "soft fail"}`);
+        steps.push({ nodeId: child.id, outcome: "success", durationMs });
+        continue;
+      }
+
+      if (result.outcome === "failure") {
+        steps.push({ nodeId: child.id, outcome: "failure", durationMs, error: result.error });
+        failed = true;
+        continue;
+      }
+
+      steps.push({ nodeId: child.id, outcome: result.outcome, durationMs });
+    }
+
+    if (dynamicSkips.length > 0) {
+      await appendLog(deps.logFile, `[pipeline] dynamic skip from ${block.id}: ${dynamicSkips.join(", ")}\n`);
+    }
+    await appendLog(deps.logFile, `\n[pipeline] ${block.id}: parallel block ${failed ? "failure" : "success"} (${String(Date.now() - blockStart)}ms)\n`);
+
+    return { outcome: failed ? "failure" : "success", steps, warnings, dynamicSkips };
+  }
+
   /**
    * Handle a loop-based failure recovery (validation retry, CI fix, etc.)
    */
@@ -576,15 +866,20 @@ export class PipelineEngine {
         pipelineName, retryNodeId, failedNode.action, retryHandler, failedNode, ctx, deps, eventLogger
       );
 
-      if (retryResult.outcome === "success") {
-        await appendLog(deps.logFile, `\n[pipeline] fix loop succeeded on attempt ${String(attempt)}\n`);
+      // Merge retry outputs so `until` and the next fix attempt see updated context
+      if (retryResult.outputs) ctx.mergeOutputs(retryResult.outputs);
+
+      // `until` overrides the default "retry succeeded" exit condition
+      const fixed = loopConfig.until
+        ? evaluatePipelineCondition(loopConfig.until, ctx, this.config as unknown as Record<string, unknown>)
+        : retryResult.outcome === "success";
+
+      if (fixed) {
+        await appendLog(deps.logFile, `\n[pipeline] fix loop succeeded on attempt ${String(attempt)}${loopConfig.until ? ` (until: ${loopConfig.until})` : ""}\n`);
         await eventLogger?.emit("artifact", { nodeId: failedNode.id, artifact: `loop_success:${failedNode.id}:${String(attempt)}` });
-        if (retryResult.outputs) ctx.mergeOutputs(retryResult.outputs);
         return { outcome: "success", steps: [], warnings };
       }
 
-      // Merge retry outputs so next fix attempt sees updated failure context
-      if (retryResult.outputs) ctx.mergeOutputs(retryResult.outputs);
       if (retryResult.rawOutput) {
         ctx.set("lastFailureRawOutput", retryResult.rawOutput);
         lastRawOutput = retryResult.rawOutput;
@@ -633,9 +928,52 @@ export class PipelineEngine {
     };
   }
 
+  /**
+   * Run a node, re-running it on failure per its `retry` policy. Soft fails
+   * are not retried, and retries stop as soon as the run is cancelled or an
+   * attempt is fenced.
+   */
+  private async runNodeWithRetry(
+    pipelineName: string,
+    handler: NodeHandler,
+    node: NodeConfig,
+    ctx: ContextBag,
+    deps: NodeDeps,
+    eventLogger?: EventLogger
+  ): Promise<{ result: NodeResult; durationMs: number; fenced?: boolean }> {
+    const maxAttempts = node.retry?.max_attempts ?? 1;
+    const start = Date.now();
+    for (let attempt = 1; ; attempt++) {
+      const { result, fenced } = await this.runTrackedNode(pipelineName, node.id, node.action, handler, node, ctx, deps, eventLogger);
+      if (fenced) {
+        await appendLog(deps.logFile, `[pipeline] ${node.id}: still running after its timeout, not retrying\n`);
+        return { result, durationMs: Date.now() - start, fenced };
+      }
+      if (result.outcome !== "failure" || attempt >= maxAttempts || deps.abortSignal?.aborted) {
+        return { result, durationMs: Date.now() - start };
+      }
+
+      const delayMs = retryDelayMs(node.retry!, attempt);
+      await appendLog(
+        deps.logFile,
+        `[pipeline] ${node.id}: attempt ${String(attempt)}/${String(maxAttempts)} failed (${result.error ?? "failure"}), retrying in ${String(delayMs / 1000)}s\n`
+      );
+      await eventLogger?.emit("artifact", {
+        nodeId: node.id,
+        artifact: `retry:${node.id}:${String(attempt + 1)}:${String(delayMs)}`
+      });
+      try {
+        await sleep(delayMs, deps.abortSignal);
+      } catch {
+        return { result, durationMs: Date.now() - start };
+      }
+    }
+  }
+
   /**
    * Run a node handler wrapped with event tracking (emit + fire for start/end).
    * Returns the result and duration. Catches handler errors into failure results.
+   * `fenced` means the handler timed out and had not stopped when this returned.
    */
   private async runTrackedNode(
     pipelineName: string,
@@ -646,7 +984,7 @@ export class PipelineEngine {
     ctx: ContextBag,
     deps: NodeDeps,
     eventLogger?: EventLogger
-  ): Promise<{ result: NodeResult; durationMs: number }> {
+  ): Promise<{ result: NodeResult; durationMs: number; fenced?: boolean }> {
     await eventLogger?.emit("node_start", { nodeId });
     this.fireNodeEvent({ runId: deps.run.id, nodeId, action, type: "start" });
     const start = Date.now();
@@ -660,23 +998,90 @@ export class PipelineEngine {
       nodeId,
       nodeAction: action,
     };
+
+    // Node-scoped abort: fires on run cancellation or this node's timeout
+    const runSignal = deps.abortSignal;
+    const controller = new AbortController();
+    const abortFromRun = () => controller.abort(runSignal?.reason ?? new Error("Run cancelled"));
+    if (runSignal?.aborted) abortFromRun();
+    else runSignal?.addEventListener("abort", abortFromRun, { once: true });
+    deps.abortSignal = controller.signal;
+
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    let fenced = false;
     try {
-      result = await handler(node, ctx, deps);
+      const attempt = runWithAbortSignal(controller.signal, () => handler(node, ctx, deps));
+      const timeoutSeconds = node.timeout_seconds ?? defaultNodeTimeoutSeconds(node, deps.config);
+      if (timeoutSeconds) {
+        const timedOut = new Promise<Error>((resolve) => {
+          timeoutHandle = setTimeout(
+            () => resolve(new Error(`${nodeId} timed out after ${String(timeoutSeconds)}s`)),
+            timeoutSeconds * 1000
+          );
+        });
+        const first = await Promise.race([
+          attempt.then((value) => ({ value })),
+          timedOut.then((timeout) => ({ timeout }))
+        ]);
+        if ("value" in first) {
+          result = first.value;
+        } else {
+          controller.abort(first.timeout);
+          ({ result, fenced } = await this.settleTimedOutAttempt(attempt, first.timeout));
+        }
+      } else {
+        result = await attempt;
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       result = { outcome: "failure", error: message };
     } finally {
+      if (timeoutHandle) clearTimeout(timeoutHandle);
+      runSignal?.removeEventListener("abort", abortFromRun);
+      deps.abortSignal = runSignal;
       deps.agentProfileTarget = previousAgentProfileTarget;
     }
 
     const durationMs = Date.now() - start;
+    ctx.setNodeResult(node.id, result);
     await eventLogger?.emit("node_end", { nodeId, outcome: result.outcome, durationMs, error: result.error });
     this.fireNodeEvent({
       runId: deps.run.id, nodeId, action,
       type: "end", outcome: result.outcome, durationMs, error: result.error
     });
 
-    return { result, durationMs };
+    return { result, durationMs, ...(fenced ? { fenced } : {}) };
+  }
+
+  /**
+   * Wait for an aborted handler to unwind so a retry or the next node never
+   * overlaps it. A non-success result it returns while unwinding is kept (a
+   * handler may report its timeout as a soft fail); anything else fails with
+   * the timeout. A handler still running after the grace period is fenced.
+   */
+  private async settleTimedOutAttempt(
+    attempt: Promise<NodeResult>,
+    timeout: Error
+  ): Promise<{ result: NodeResult; fenced: boolean }> {
+    let graceHandle: NodeJS.Timeout | undefined;
+    const settled = await Promise.race([
+      attempt.then((value) => ({ value }), () => ({ value: undefined })),
+      new Promise<undefined>((resolve) => {
+        graceHandle = setTimeout(() => resolve(undefined), TIMED_OUT_NODE_GRACE_MS);
+      })
+    ]);
+    clearTimeout(graceHandle);
+
+    if (!settled) {
+      // Don't let a late rejection go unhandled
+      attempt.catch(() => {});
+      const graceSeconds = String(TIMED_OUT_NODE_GRACE_MS / 1000);
+      return { result: { outcome: "failure", error: `${timeout.message}; still running ${graceSeconds}s after the abort` }, fenced: true };
+    }
+    if (settled.value && settled.value.outcome !== "success") {
+      return { result: settled.value, fenced: false };
+    }
+    return { result: { outcome: "failure", error: timeout.message }, fenced: false };
   }
 
   private async recordTokenUsageFromOutputs(outputs: Record<string, unknown>, deps: NodeDeps): Promise<void> {
@@ -1,9 +1,18 @@
 import { readFile } from "node:fs/promises";
+import path from "node:path";
 import { parse as parseYaml } from "yaml";
-import type { PipelineConfig, NodeConfig } from "./types.js";
-import { VALID_ACTIONS } from "./node-registry.js";
+import type { ContextValueType, PipelineConfig, NodeConfig } from "./types.js";
+import { nodeContract, nodeWrites, VALID_ACTIONS } from "./node-registry.js";
+import { RUN_CONTEXT_KEYS } from "./node-contracts.js";
+import { checkExpression, ExpressionError, expressionPaths, migrateLegacyCondition, renameNodeReferences } from "./expression.js";
+import { logWarn } from "../logger.js";
 
 const VALID_TYPES = new Set(["deterministic", "agentic", "conditional", "async"]);
+const MAX_RETRY_ATTEMPTS = 10;
+const PIPELINE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const CALL_NODE_KEYS = new Set(["id", "call", "include", "if", "description"]);
+const SUPPORTED_VERSIONS = [1, 2];
+export const CONTEXT_VALUE_TYPES: ContextValueType[] = ["string", "number", "boolean", "string[]", "array", "object"];
 
 export class PipelineLoadError extends Error {
   constructor(message: string) {
@@ -12,11 +21,31 @@ export class PipelineLoadError extends Error {
   }
 }
 
+export interface PipelineLoadOptions {
+  /** Id of the pipeline being loaded, so a pipeline that calls itself is reported as a cycle. */
+  pipelineId?: string;
+  /** Look up another pipeline's YAML by id, for `call` / `include` nodes. */
+  resolvePipeline?: (pipelineId: string) => string | undefined;
+}
+
 /**
  * Parse and validate a pipeline from a YAML string.
  * Used by both file loading and the pipeline store API.
  */
-export function loadPipelineFromString(yaml: string): PipelineConfig {
+export function loadPipelineFromString(yaml: string, options: PipelineLoadOptions = {}): PipelineConfig {
+  return loadPipelineWithCallStack(yaml, options, options.pipelineId ? [options.pipelineId] : [], true);
+}
+
+/**
+ * `checkDataFlow` is set for the pipeline being loaded and cleared for the
+ * pipelines it calls: their steps are checked once inlined into the caller.
+ */
+function loadPipelineWithCallStack(
+  yaml: string,
+  options: PipelineLoadOptions,
+  callStack: string[],
+  checkDataFlow: boolean
+): PipelineConfig {
   let parsed: unknown;
   try {
     parsed = parseYaml(yaml);
@@ -32,8 +61,9 @@ export function loadPipelineFromString(yaml: string): PipelineConfig {
   const config = parsed as Record<string, unknown>;
 
   // Validate version
-  if (config["version"] !== 1) {
-    throw new PipelineLoadError(`Unsupported pipeline version: ${String(config["version"])}. Only version 1 is supported.`);
+  const version = config["version"];
+  if (typeof version !== "number" || !SUPPORTED_VERSIONS.includes(version)) {
+    throw new PipelineLoadError(`Unsupported pipeline version: ${String(version)}. Supported versions: ${SUPPORTED_VERSIONS.join(", ")}.`);
   }
 
   // Validate name
@@ -46,76 +76,524 @@ export function loadPipelineFromString(yaml: string): PipelineConfig {
     throw new PipelineLoadError("Pipeline must have at least one node");
   }
 
+  const inputs = validateInputs(config["inputs"], version);
+  const includeOnly = config["include_only"];
+  if (includeOnly !== undefined && typeof includeOnly !== "boolean") {
+    throw new PipelineLoadError("include_only must be true or false");
+  }
+
   const nodes = config["nodes"] as Record<string, unknown>[];
   const seenIds = new Set<string>();
+  const normalizedNodes: NodeConfig[] = [];
+  const included = new Set<string>();
+  const callConditions: Array<{ id: string; if: unknown }> = [];
+  const calledInputs: CalledInputs[] = [];
+  let context = config["context"] as Record<string, unknown> | undefined;
+  const declaredIds = declaredNodeIds(nodes);
 
   for (let i = 0; i < nodes.length; i++) {
     const node = nodes[i] as Record<string, unknown>;
     const label = `node[${String(i)}]`;
+    migrateLegacyConditions(node, declaredIds);
 
-    if (typeof node["id"] !== "string" || !node["id"].trim()) {
-      throw new PipelineLoadError(`${label}: must have a string 'id' field`);
-    }
-    if (seenIds.has(node["id"])) {
-      throw new PipelineLoadError(`${label}: duplicate node id '${node["id"]}'`);
-    }
-    seenIds.add(node["id"]);
-
-    if (typeof node["type"] !== "string" || !VALID_TYPES.has(node["type"])) {
-      throw new PipelineLoadError(`${label} (${node["id"]}): type must be one of: ${Array.from(VALID_TYPES).join(", ")}`);
-    }
-
-    if (typeof node["action"] !== "string" || !VALID_ACTIONS.has(node["action"])) {
-      throw new PipelineLoadError(`${label} (${node["id"]}): unknown action '${String(node["action"])}'. Valid: ${Array.from(VALID_ACTIONS).join(", ")}`);
-    }
-
-    // Validate on_soft_fail if present
-    if (node["on_soft_fail"] !== undefined) {
-      const validSoftFail = ["warn", "fail_run"];
-      if (!validSoftFail.includes(node["on_soft_fail"] as string)) {
-        throw new PipelineLoadError(`${label} (${node["id"]}): on_soft_fail must be one of: ${validSoftFail.join(", ")}`);
+    if (node["call"] !== undefined || node["include"] !== undefined) {
+      const sub = expandCallNode(node, label, seenIds, options, callStack);
+      callConditions.push({ id: node["id"] as string, if: node["if"] });
+      if (sub.inputs) {
+        calledInputs.push({ callId: node["id"] as string, pipelineId: sub.pipelineId, atIndex: normalizedNodes.length, inputs: sub.inputs });
       }
+      normalizedNodes.push(...sub.nodes);
+      for (const id of [sub.pipelineId, ...(sub.includes ?? [])]) included.add(id);
+      // The caller's own context wins over defaults from the sub-pipeline
+      if (sub.context) context = { ...sub.context, ...context };
+      continue;
     }
 
-    // Validate on_failure if present
-    if (node["on_failure"]) {
-      const onFailure = node["on_failure"] as Record<string, unknown>;
-      if (onFailure["action"] !== "loop") {
-        throw new PipelineLoadError(`${label} (${node["id"]}): on_failure.action must be 'loop'`);
-      }
-      if (typeof onFailure["agent_node"] !== "string") {
-        throw new PipelineLoadError(`${label} (${node["id"]}): on_failure.agent_node must be a string`);
-      }
-      if (!onFailure["max_rounds"]) {
-        throw new PipelineLoadError(`${label} (${node["id"]}): on_failure.max_rounds is required`);
-      }
+    if (node["parallel"] !== undefined) {
+      normalizedNodes.push(validateParallelBlock(node, label, seenIds));
+      continue;
     }
+
+    validateNode(node, label, seenIds);
+    normalizedNodes.push(node as unknown as NodeConfig);
   }
 
   // Validate on_failure agent_node references are registered action names.
   // The engine resolves agent_node via the handler registry (by action name),
   // so only action names are valid here — not node IDs.
-  for (const node of nodes) {
-    const onFailure = (node as Record<string, unknown>)["on_failure"] as Record<string, unknown> | undefined;
+  for (const node of flattenPipelineNodes(normalizedNodes)) {
+    const onFailure = node.on_failure;
     if (onFailure) {
-      const agentAction = onFailure["agent_node"] as string;
+      const agentAction = onFailure.agent_node;
       if (!VALID_ACTIONS.has(agentAction)) {
-        throw new PipelineLoadError(`Node '${(node as Record<string, unknown>)["id"]}': on_failure.agent_node '${agentAction}' must be a registered action name. Valid: ${Array.from(VALID_ACTIONS).join(", ")}`);
+        throw new PipelineLoadError(`Node '${node.id}': on_failure.agent_node '${agentAction}' must be a registered action name. Valid: ${Array.from(VALID_ACTIONS).join(", ")}`);
       }
     }
   }
 
+  // Parse and type-check `if` / `until` expressions so a typo fails here
+  // instead of silently evaluating to false at runtime.
+  const nodeIds = new Set(flattenPipelineNodes(normalizedNodes).map(node => node.id));
+  for (const call of callConditions) {
+    validateCondition(call.id, "if", call.if, nodeIds);
+  }
+  for (const node of normalizedNodes.flatMap(node => node.parallel ? [node, ...node.parallel] : [node])) {
+    validateCondition(node.id, "if", node.if, nodeIds);
+    validateCondition(node.id, "on_failure.until", node.on_failure?.until, nodeIds);
+  }
+
+  validateApprovalGates(normalizedNodes);
+
+  if (checkDataFlow && version >= 2) {
+    validateDataFlow(normalizedNodes, { context, inputs, calledInputs });
+  }
+
   return {
-    version: config["version"] as number,
+    version,
     name: config["name"] as string,
     description: config["description"] as string | undefined,
-    context: config["context"] as Record<string, unknown> | undefined,
-    nodes: nodes as unknown as NodeConfig[]
+    context,
+    ...(inputs ? { inputs } : {}),
+    ...(includeOnly ? { includeOnly } : {}),
+    nodes: normalizedNodes,
+    ...(included.size > 0 ? { includes: [...included] } : {})
+  };
+}
+
+/**
+ * "Request changes" on an approval_gate jumps back to `loop_back_to`. A
+ * missing or later target would silently carry on past the reviewer, so
+ * reject it at load time.
+ */
+function validateApprovalGates(nodes: NodeConfig[]): void {
+  for (const [index, node] of nodes.entries()) {
+    if (node.action !== "approval_gate") continue;
+    const loopBackTo = node.config?.["loop_back_to"] ?? "implement";
+    if (typeof loopBackTo !== "string" || loopBackTo.trim() === "") {
+      throw new PipelineLoadError(`Node '${node.id}': config.loop_back_to must be a node id`);
+    }
+    const namespaceEnd = node.id.lastIndexOf(".");
+    const sibling = namespaceEnd >= 0 ? `${node.id.slice(0, namespaceEnd)}.${loopBackTo}` : loopBackTo;
+    const targetIndex = nodes.findIndex(candidate => candidate.id === sibling || candidate.id === loopBackTo);
+    if (targetIndex < 0 || targetIndex >= index) {
+      throw new PipelineLoadError(`Node '${node.id}': loop_back_to '${loopBackTo}' must name an earlier top-level node`);
+    }
+  }
+}
+
+function validateInputs(raw: unknown, version: number): Record<string, ContextValueType> | undefined {
+  if (raw === undefined) return undefined;
+  if (version < 2) {
+    throw new PipelineLoadError("'inputs' requires pipeline version 2");
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new PipelineLoadError("inputs must map context keys to types");
+  }
+  for (const [key, type] of Object.entries(raw as Record<string, unknown>)) {
+    if (!CONTEXT_VALUE_TYPES.includes(type as ContextValueType)) {
+      throw new PipelineLoadError(`inputs.${key}: type must be one of: ${CONTEXT_VALUE_TYPES.join(", ")}`);
+    }
+  }
+  return raw as Record<string, ContextValueType>;
+}
+
+interface CalledInputs {
+  callId: string;
+  pipelineId: string;
+  /** Index in the caller's nodes of the first inlined step. */
+  atIndex: number;
+  inputs: Record<string, ContextValueType>;
+}
+
+/** Where a context key first becomes available, and with which type. */
+interface AvailableKey {
+  type?: ContextValueType;
+  source: string;
+}
+
+/**
+ * v2 data-flow check: walk the nodes in order and reject any node that
+ * needs a context key (declared `reads`, keys named in its config, `ctx.`
+ * paths in its conditions) that nothing before it writes. Keys come from
+ * the run itself, `context`, `inputs` and the contracts declared on the handlers.
+ * Parallel children only see keys written before their block.
+ */
+function validateDataFlow(
+  nodes: NodeConfig[],
+  start: { context?: Record<string, unknown>; inputs?: Record<string, ContextValueType>; calledInputs: CalledInputs[] }
+): void {
+  const available = new Map<string, AvailableKey>();
+  for (const [key, type] of Object.entries(RUN_CONTEXT_KEYS)) available.set(key, { type, source: "the run" });
+  for (const [key, value] of Object.entries(start.context ?? {})) available.set(key, { type: contextValueType(value), source: "context" });
+  for (const [key, type] of Object.entries(start.inputs ?? {})) available.set(key, { type, source: "inputs" });
+
+  const requireKey = (consumer: string, key: string, type?: ContextValueType): void => {
+    const found = available.get(key);
+    if (!found) {
+      throw new PipelineLoadError(`${consumer} reads ctx.${key}, but no earlier node writes it`);
+    }
+    if (type && found.type && found.type !== type) {
+      throw new PipelineLoadError(`${consumer} reads ctx.${key} as ${type}, but ${found.source} writes it as ${found.type}`);
+    }
+  };
+  const requireConditionKeys = (consumer: string, expression: string | undefined): void => {
+    if (expression === undefined) return;
+    for (const segments of expressionPaths(expression)) {
+      if (segments[0] === "ctx" && segments[1] !== undefined) requireKey(consumer, segments[1]);
+    }
+  };
+  const addWrites = (node: NodeConfig, action: string): void => {
+    for (const [key, type] of Object.entries(nodeWrites(action, node.config))) {
+      available.set(key, { type, source: `node '${node.id}'` });
+    }
+  };
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (const call of start.calledInputs.filter(entry => entry.atIndex === i)) {
+      for (const [key, type] of Object.entries(call.inputs)) {
+        requireKey(`Call node '${call.callId}' (pipeline '${call.pipelineId}' input)`, key, type);
+      }
+    }
+
+    const members = nodes[i]!.parallel ?? [nodes[i]!];
+    for (const node of members) {
+      const consumer = `Node '${node.id}'`;
+      requireConditionKeys(consumer, node.if);
+      const contract = nodeContract(node.action);
+      for (const [key, type] of Object.entries(contract?.reads ?? {})) requireKey(consumer, key, type);
+      for (const key of contract?.configReads?.(node.config) ?? []) requireKey(`${consumer} config`, key);
+    }
+    for (const node of members) addWrites(node, node.action);
+
+    for (const node of members) {
+      const loop = node.on_failure;
+      if (!loop) continue;
+      const consumer = `Node '${node.id}' on_failure.agent_node '${loop.agent_node}'`;
+      for (const [key, type] of Object.entries(nodeContract(loop.agent_node)?.reads ?? {})) requireKey(consumer, key, type);
+      addWrites(node, loop.agent_node);
+      requireConditionKeys(`Node '${node.id}' on_failure.until`, loop.until);
+    }
+  }
+}
+
+function contextValueType(value: unknown): ContextValueType | undefined {
+  if (Array.isArray(value)) return value.every(entry => typeof entry === "string") ? "string[]" : "array";
+  if (value === null) return undefined;
+  const type = typeof value;
+  if (type === "string" || type === "number" || type === "boolean" || type === "object") return type;
+  return undefined;
+}
+
+/**
+ * Inline the pipeline named by a `call:` (or `include:`) node. The called
+ * pipeline's steps run in the caller's ContextBag with ids namespaced as
+ * `<callId>.<stepId>`; their conditions are rewritten to match. An `if`
+ * on the call node guards every inlined step.
+ */
+function expandCallNode(
+  node: Record<string, unknown>,
+  label: string,
+  seenIds: Set<string>,
+  options: PipelineLoadOptions,
+  callStack: string[]
+): {
+  pipelineId: string;
+  nodes: NodeConfig[];
+  context?: Record<string, unknown>;
+  inputs?: Record<string, ContextValueType>;
+  includes?: string[];
+} {
+  validateNodeId(node, label, seenIds);
+  const callId = node["id"] as string;
+
+  if (node["call"] !== undefined && node["include"] !== undefined) {
+    throw new PipelineLoadError(`${label} (${callId}): use either 'call' or 'include', not both`);
+  }
+  const target = node["call"] ?? node["include"];
+  if (typeof target !== "string" || !PIPELINE_ID_PATTERN.test(target)) {
+    throw new PipelineLoadError(`${label} (${callId}): call must be a pipeline id (letters, digits, '-' and '_')`);
+  }
+  for (const key of Object.keys(node)) {
+    if (!CALL_NODE_KEYS.has(key)) {
+      throw new PipelineLoadError(`${label} (${callId}): '${key}' is not supported on a call node; set it in pipeline '${target}'`);
+    }
+  }
+  if (callStack.includes(target)) {
+    throw new PipelineLoadError(`${label} (${callId}): include cycle ${[...callStack, target].join(" -> ")}`);
+  }
+
+  const yaml = options.resolvePipeline?.(target);
+  if (yaml === undefined) {
+    throw new PipelineLoadError(`${label} (${callId}): called pipeline '${target}' not found`);
+  }
+
+  let sub: PipelineConfig;
+  try {
+    sub = loadPipelineWithCallStack(yaml, options, [...callStack, target], false);
+  } catch (err) {
+    if (err instanceof PipelineLoadError && !err.message.startsWith(`In pipeline '`)) {
+      throw new PipelineLoadError(`In pipeline '${target}' (called by '${callId}'): ${err.message}`);
+    }
+    throw err;
+  }
+
+  const subRoots = new Set([...sub.nodes, ...flattenPipelineNodes(sub.nodes)].map(child => child.id.split(".")[0]!));
+  const rename = (root: string): string | undefined => subRoots.has(root) ? `${callId}.${root}` : undefined;
+  const guard = typeof node["if"] === "string" ? node["if"] : undefined;
+
+  const namespace = (child: NodeConfig, guarded: boolean): NodeConfig => {
+    const namespaced: NodeConfig = { ...child, id: `${callId}.${child.id}` };
+    const condition = child.if !== undefined ? renameNodeReferences(child.if, rename) : undefined;
+    if (guarded && guard !== undefined) {
+      namespaced.if = condition !== undefined ? `(${guard}) && (${condition})` : guard;
+    } else if (condition !== undefined) {
+      namespaced.if = condition;
+    }
+    if (child.on_failure?.until !== undefined) {
+      namespaced.on_failure = { ...child.on_failure, until: renameNodeReferences(child.on_failure.until, rename) };
+    }
+    if (child.parallel) {
+      namespaced.parallel = child.parallel.map(grandchild => namespace(grandchild, false));
+    }
+    return namespaced;
+  };
+
+  return {
+    pipelineId: target,
+    nodes: sub.nodes.map(child => namespace(child, true)),
+    context: sub.context,
+    inputs: sub.inputs,
+    includes: sub.includes
+  };
+}
+
+/**
+ * Validate a single action node in place. Registers its id in `seenIds`
+ * so ids stay unique across top-level nodes and parallel children.
+ */
+function validateNode(node: Record<string, unknown>, label: string, seenIds: Set<string>): void {
+  validateNodeId(node, label, seenIds);
+
+  if (typeof node["type"] !== "string" || !VALID_TYPES.has(node["type"])) {
+    throw new PipelineLoadError(`${label} (${node["id"]}): type must be one of: ${Array.from(VALID_TYPES).join(", ")}`);
+  }
+
+  if (typeof node["action"] !== "string" || !VALID_ACTIONS.has(node["action"])) {
+    throw new PipelineLoadError(`${label} (${node["id"]}): unknown action '${String(node["action"])}'. Valid: ${Array.from(VALID_ACTIONS).join(", ")}`);
+  }
+
+  // Validate on_soft_fail if present
+  if (node["on_soft_fail"] !== undefined) {
+    const validSoftFail = ["warn", "fail_run"];
+    if (!validSoftFail.includes(node["on_soft_fail"] as string)) {
+      throw new PipelineLoadError(`${label} (${node["id"]}): on_soft_fail must be one of: ${validSoftFail.join(", ")}`);
+    }
+  }
+
+  // Validate on_failure if present
+  if (node["on_failure"]) {
+    const onFailure = node["on_failure"] as Record<string, unknown>;
+    if (onFailure["action"] !== "loop") {
+      throw new PipelineLoadError(`${label} (${node["id"]}): on_failure.action must be 'loop'`);
+    }
+    if (typeof onFailure["agent_node"] !== "string") {
+      throw new PipelineLoadError(`${label} (${node["id"]}): on_failure.agent_node must be a string`);
+    }
+    if (!onFailure["max_rounds"]) {
+      throw new PipelineLoadError(`${label} (${node["id"]}): on_failure.max_rounds is required`);
+    }
+  }
+
+  if (node["timeout_seconds"] !== undefined && !isPositiveNumber(node["timeout_seconds"])) {
+    throw new PipelineLoadError(`${label} (${node["id"]}): timeout_seconds must be a positive number`);
+  }
+
+  if (node["retry"] !== undefined) {
+    const retry = node["retry"] as Record<string, unknown> | null;
+    if (!retry || typeof retry !== "object") {
+      throw new PipelineLoadError(`${label} (${node["id"]}): retry must be an object with max_attempts`);
+    }
+    const maxAttempts = retry["max_attempts"];
+    if (typeof maxAttempts !== "number" || !Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_RETRY_ATTEMPTS) {
+      throw new PipelineLoadError(`${label} (${node["id"]}): retry.max_attempts must be an integer from 1 to ${String(MAX_RETRY_ATTEMPTS)}`);
+    }
+    if (retry["backoff"] !== undefined && retry["backoff"] !== "fixed" && retry["backoff"] !== "exponential") {
+      throw new PipelineLoadError(`${label} (${node["id"]}): retry.backoff must be 'fixed' or 'exponential'`);
+    }
+    if (retry["delay_seconds"] !== undefined && !(typeof retry["delay_seconds"] === "number" && retry["delay_seconds"] >= 0)) {
+      throw new PipelineLoadError(`${label} (${node["id"]}): retry.delay_seconds must be a number >= 0`);
+    }
+  }
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/** Ids of the nodes, call nodes and parallel children declared in this pipeline. */
+function declaredNodeIds(nodes: unknown[]): Set<string> {
+  const ids = new Set<string>();
+  for (const node of nodes) {
+    const record = node as Record<string, unknown> | null;
+    if (typeof record?.["id"] === "string") ids.add(record["id"]);
+    if (Array.isArray(record?.["parallel"])) {
+      for (const child of declaredNodeIds(record["parallel"])) ids.add(child);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Rewrite `if` / `until` conditions in the pre-expression forms (bare
+ * context keys, `<nodeId>.exit_code == 0`) so stored pipelines keep working.
+ * Each rewrite is logged so authors can update the YAML.
+ */
+function migrateLegacyConditions(node: Record<string, unknown>, declaredIds: ReadonlySet<string>): void {
+  const migrate = (field: string, target: Record<string, unknown>, key: string): void => {
+    const source = target[key];
+    if (typeof source !== "string") return;
+    const migrated = migrateLegacyCondition(source, declaredIds);
+    if (migrated === undefined) return;
+    logWarn("Deprecated pipeline condition rewritten", { node: node["id"], field, condition: source, rewrittenTo: migrated });
+    target[key] = migrated;
+  };
+
+  migrate("if", node, "if");
+  const onFailure = node["on_failure"];
+  if (onFailure && typeof onFailure === "object") {
+    migrate("on_failure.until", onFailure as Record<string, unknown>, "until");
+  }
+  if (Array.isArray(node["parallel"])) {
+    for (const child of node["parallel"]) {
+      if (child && typeof child === "object") migrateLegacyConditions(child as Record<string, unknown>, declaredIds);
+    }
+  }
+}
+
+function validateCondition(nodeId: string, field: string, expression: unknown, nodeIds: ReadonlySet<string>): void {
+  if (expression === undefined) return;
+  if (typeof expression !== "string" || !expression.trim()) {
+    throw new PipelineLoadError(`Node '${nodeId}': ${field} must be a non-empty expression string`);
+  }
+  try {
+    checkExpression(expression, nodeIds);
+  } catch (err) {
+    if (err instanceof ExpressionError) {
+      throw new PipelineLoadError(`Node '${nodeId}': invalid ${field} expression '${expression}': ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+function validateNodeId(node: Record<string, unknown>, label: string, seenIds: Set<string>): void {
+  if (typeof node["id"] !== "string" || !node["id"].trim()) {
+    throw new PipelineLoadError(`${label}: must have a string 'id' field`);
+  }
+  if (node["id"].includes(".")) {
+    throw new PipelineLoadError(`${label}: node id '${node["id"]}' cannot contain '.' (reserved for called pipeline steps)`);
+  }
+  if (seenIds.has(node["id"])) {
+    throw new PipelineLoadError(`${label}: duplicate node id '${node["id"]}'`);
+  }
+  seenIds.add(node["id"]);
+}
+
+/** Actions that change the working tree, index or branch; parallel children share one workspace. */
+const WORKSPACE_MUTATING_ACTIONS = new Set([
+  "clone",
+  "implement",
+  "lint_fix",
+  "fix_validation",
+  "lightweight_checks",
+  "commit",
+  "push",
+  "upload_screenshot",
+  "fix_ci",
+  "fix_browser",
+  "sync_base_branch",
+  "resolve_rebase_conflicts",
+  "squash_ready_for_merge",
+]);
+
+/**
+ * Validate a `parallel:` block and normalize it to a NodeConfig with
+ * type/action "parallel". Children run concurrently against the same
+ * workspace, so anything that mutates shared state in a sequenced way
+ * (git and working-tree changes, fix loops, sandbox setup, nested blocks) is
+ * rejected.
+ */
+function validateParallelBlock(node: Record<string, unknown>, label: string, seenIds: Set<string>): NodeConfig {
+  validateNodeId(node, label, seenIds);
+  const blockId = node["id"] as string;
+
+  if (node["type"] !== undefined && node["type"] !== "parallel") {
+    throw new PipelineLoadError(`${label} (${blockId}): parallel block type must be 'parallel' when set`);
+  }
+  if (node["action"] !== undefined && node["action"] !== "parallel") {
+    throw new PipelineLoadError(`${label} (${blockId}): parallel block cannot declare an action`);
+  }
+  for (const key of ["on_failure", "on_soft_fail", "on_hard_fail", "config", "timeout_seconds", "retry"]) {
+    if (node[key] !== undefined) {
+      throw new PipelineLoadError(`${label} (${blockId}): '${key}' is not supported on a parallel block; set it on the child nodes`);
+    }
+  }
+
+  const children = node["parallel"];
+  if (!Array.isArray(children) || children.length === 0) {
+    throw new PipelineLoadError(`${label} (${blockId}): parallel must be a non-empty list of nodes`);
+  }
+
+  for (let j = 0; j < children.length; j++) {
+    const child = children[j] as Record<string, unknown>;
+    const childLabel = `${label}.parallel[${String(j)}]`;
+    if (!child || typeof child !== "object") {
+      throw new PipelineLoadError(`${childLabel}: must be a node object`);
+    }
+    if (child["parallel"] !== undefined) {
+      throw new PipelineLoadError(`${childLabel}: nested parallel blocks are not supported`);
+    }
+    if (child["call"] !== undefined || child["include"] !== undefined) {
+      throw new PipelineLoadError(`${childLabel}: call nodes are not supported inside a parallel block`);
+    }
+    validateNode(child, childLabel, seenIds);
+    if (child["on_failure"] !== undefined) {
+      throw new PipelineLoadError(`${childLabel} (${child["id"]}): on_failure loops are not supported inside a parallel block`);
+    }
+    if (child["action"] === "setup_sandbox") {
+      throw new PipelineLoadError(`${childLabel} (${child["id"]}): setup_sandbox cannot run inside a parallel block`);
+    }
+    if (typeof child["action"] === "string" && WORKSPACE_MUTATING_ACTIONS.has(child["action"])) {
+      throw new PipelineLoadError(`${childLabel} (${child["id"]}): ${child["action"]} changes the shared workspace and cannot run inside a parallel block`);
+    }
+    if (child["action"] === "approval_gate") {
+      throw new PipelineLoadError(`${childLabel} (${child["id"]}): approval_gate cannot run inside a parallel block`);
+    }
+  }
+
+  return {
+    ...(node as unknown as NodeConfig),
+    type: "parallel",
+    action: "parallel",
+    parallel: children as NodeConfig[]
   };
 }
 
 /**
- * Load and validate a pipeline YAML file.
+ * Expand parallel blocks into their children, preserving declaration order.
+ * Use this wherever every executable node matters (routing, validation).
+ */
+export function flattenPipelineNodes(nodes: NodeConfig[]): NodeConfig[] {
+  return nodes.flatMap(node => node.parallel ?? [node]);
+}
+
+/** Id of a step inside its own pipeline: `gates.diff_gate` → `diff_gate`. */
+export function localNodeId(nodeId: string): string {
+  return nodeId.slice(nodeId.lastIndexOf(".") + 1);
+}
+
+/**
+ * Load and validate a pipeline YAML file. Called pipelines are read from
+ * `<id>.yml` next to the file, then from the built-in `pipelines/` directory.
  */
 export async function loadPipeline(yamlPath: string): Promise<PipelineConfig> {
   let raw: string;
@@ -124,5 +602,46 @@ export async function loadPipeline(yamlPath: string): Promise<PipelineConfig> {
   } catch {
     throw new PipelineLoadError(`Pipeline file not found: ${yamlPath}`);
   }
-  return loadPipelineFromString(raw);
+
+  const searchDirs = [...new Set([path.dirname(path.resolve(yamlPath)), path.resolve("pipelines")])];
+  const sources = new Map<string, string | undefined>();
+  await readCalledPipelines(raw, searchDirs, sources);
+  return loadPipelineFromString(raw, {
+    pipelineId: path.basename(yamlPath, path.extname(yamlPath)),
+    resolvePipeline: (pipelineId) => sources.get(pipelineId)
+  });
+}
+
+/** Read every pipeline reachable through call nodes, so resolution can stay synchronous. */
+async function readCalledPipelines(yaml: string, searchDirs: string[], sources: Map<string, string | undefined>): Promise<void> {
+  for (const pipelineId of listCalledPipelineIds(yaml)) {
+    if (sources.has(pipelineId)) continue;
+    let found: string | undefined;
+    for (const dir of searchDirs) {
+      try {
+        found = await readFile(path.join(dir, `${pipelineId}.yml`), "utf8");
+        break;
+      } catch {
+        // try the next directory
+      }
+    }
+    sources.set(pipelineId, found);
+    if (found !== undefined) {
+      await readCalledPipelines(found, searchDirs, sources);
+    }
+  }
+}
+
+function listCalledPipelineIds(yaml: string): string[] {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(yaml);
+  } catch {
+    return []; // the real load reports the YAML error
+  }
+  const nodes = (parsed as { nodes?: unknown } | null)?.nodes;
+  if (!Array.isArray(nodes)) return [];
+  return nodes
+    .map(node => (node as Record<string, unknown> | null)?.["call"] ?? (node as Record<string, unknown> | null)?.["include"])
+    .filter((target): target is string => typeof target === "string" && PIPELINE_ID_PATTERN.test(target));
 }
@@ -0,0 +1,186 @@
+/**
+ * Plan preview: resolve which nodes of a pipeline would run for a given set
+ * of run options without executing anything.
+ *
+ * Applies the same checks as PipelineEngine (skipNodes, enabled/enableNodes,
+ * `if` conditions), the `.gooseherd.yml` overrides that clone would load,
+ * the self-skips of the opt-in quality gates, and agent-profile routing.
+ * Conditions that read node results or context set by earlier nodes cannot
+ * be decided up front and are reported as `conditional`.
+ */
+
+import type { AppConfig } from "../config.js";
+import {
+  resolveAgentProfileSelection,
+  type AgentProfileSelection
+} from "../agent-profile-resolver.js";
+import {
+  actionCatalogEntry,
+  runtimeTargetRequiresCapabilities,
+  type RuntimeAgentProfileTarget
+} from "../agent-profile-targets.js";
+import { ContextBag } from "./context-bag.js";
+import { evaluateConditionPartial, expressionPaths } from "./expression.js";
+import { matchesNodeIdSet } from "./pipeline-engine.js";
+import { applyRepoConfig, type RepoConfig } from "./repo-config.js";
+import type { LoopConfig, NodeCategory, NodeConfig, PipelineConfig, RetryConfig } from "./types.js";
+
+export type PlannedNodeStatus = "run" | "skipped" | "conditional";
+
+export interface PlannedNodeRouting {
+  /** Policy target key that matched, if a routing policy applied. */
+  targetKey?: string;
+  source: AgentProfileSelection["source"];
+  profileId?: string;
+  profileName?: string;
+  model?: string;
+}
+
+export interface PlannedNode {
+  id: string;
+  type: NodeCategory;
+  action: string;
+  /** Call node the step was inlined from (`gates` for `gates.diff_gate`). */
+  calledFrom?: string;
+  status: PlannedNodeStatus;
+  /** Why the node is skipped or conditional. */
+  reason?: string;
+  condition?: string;
+  timeoutSeconds?: number;
+  retry?: RetryConfig;
+  /** Fix loop entered when the node fails. */
+  loop?: LoopConfig;
+  /** Nodes a decision node may `_goto`. */
+  gotoTargets?: string[];
+  routing?: PlannedNodeRouting;
+  /** Children of a `parallel` block. */
+  children?: PlannedNode[];
+}
+
+export interface PipelinePlan {
+  pipelineId: string;
+  name: string;
+  /** Context known before the first node runs, after `.gooseherd.yml` overrides. */
+  context: Record<string, unknown>;
+  nodes: PlannedNode[];
+}
+
+export interface PipelinePlanOptions {
+  pipelineId: string;
+  config: AppConfig;
+  skipNodes?: string[];
+  enableNodes?: string[];
+  /** Context keys to treat as set when the run starts (e.g. repoSlug, task). */
+  context?: Record<string, unknown>;
+  /** Parsed `.gooseherd.yml` of the target repo. */
+  repoConfig?: RepoConfig | null;
+  intentKind?: string;
+}
+
+const DECISION_ACTIONS = new Set(["decide_next_step"]);
+
+/**
+ * Actions that skip themselves unless enabled in app config, on the node
+ * (`enabled: true`) or through `.gooseherd.yml`.
+ */
+const SELF_SKIPPING_GATES: Record<string, { configKey: keyof AppConfig; repoContextKey: string }> = {
+  scope_judge: { configKey: "scopeJudgeEnabled", repoContextKey: "repoScopeJudgeEnabled" },
+  browser_verify: { configKey: "browserVerifyEnabled", repoContextKey: "repoBrowserVerifyEnabled" }
+};
+
+export function planPipeline(pipeline: PipelineConfig, options: PipelinePlanOptions): PipelinePlan {
+  const ctx = new ContextBag({ ...pipeline.context, ...options.context });
+  if (options.repoConfig) {
+    applyRepoConfig(options.repoConfig, ctx);
+  }
+
+  const skipNodeIds = options.skipNodes && options.skipNodes.length > 0 ? new Set(options.skipNodes) : undefined;
+  const enableNodeIds = options.enableNodes && options.enableNodes.length > 0 ? new Set(options.enableNodes) : undefined;
+  if (enableNodeIds?.has("browser_verify")) {
+    // Same auto-enable as PipelineEngine.execute
+    enableNodeIds.add("decide_recovery");
+  }
+
+  const configObj = options.config as unknown as Record<string, unknown>;
+  const scope = { ctx: ctx.toObject(), config: configObj, nodes: {} };
+  const isKnown = (segments: string[]): boolean =>
+    segments[0] === "config" || (segments[0] === "ctx" && segments.length > 1 && ctx.has(segments[1]!));
+
+  const topLevelIds = pipeline.nodes.map(node => node.id);
+
+  const planNode = (node: NodeConfig, inParallelBlock: boolean): PlannedNode => {
+    const planned: PlannedNode = { id: node.id, type: node.type, action: node.action, status: "run" };
+    const namespaceEnd = node.id.lastIndexOf(".");
+    if (namespaceEnd >= 0) planned.calledFrom = node.id.slice(0, namespaceEnd);
+    if (node.if) planned.condition = node.if;
+    if (node.timeout_seconds !== undefined) planned.timeoutSeconds = node.timeout_seconds;
+    if (node.retry) planned.retry = node.retry;
+    if (node.on_failure) planned.loop = node.on_failure;
+    if (DECISION_ACTIONS.has(node.action) && !inParallelBlock) {
+      // `_goto` is ignored inside parallel blocks
+      planned.gotoTargets = topLevelIds.filter(id => id !== node.id);
+    }
+
+    if (matchesNodeIdSet(node.id, skipNodeIds)) {
+      planned.status = "skipped";
+      planned.reason = "in skipNodes list";
+    } else if (node.enabled === false && !matchesNodeIdSet(node.id, enableNodeIds)) {
+      planned.status = "skipped";
+      planned.reason = "enabled: false (not in enableNodes)";
+    } else if (node.if) {
+      const result = evaluateConditionPartial(node.if, scope, isKnown);
+      if (result === false) {
+        planned.status = "skipped";
+        planned.reason = `condition is false: ${node.if}`;
+      } else if (result === undefined) {
+        const runtimePaths = expressionPaths(node.if).filter(path => !isKnown(path)).map(path => path.join("."));
+        planned.status = "conditional";
+        planned.reason = `depends on runtime values: ${[...new Set(runtimePaths)].join(", ")}`;
+      }
+    }
+
+    const gate = SELF_SKIPPING_GATES[node.action];
+    if (planned.status !== "skipped" && gate
+      && !options.config[gate.configKey] && node.enabled !== true && ctx.get<boolean>(gate.repoContextKey) !== true) {
+      planned.status = "skipped";
+      planned.reason = `${node.action} is disabled in app config and .gooseherd.yml`;
+    }
+
+    if (node.parallel) {
+      planned.children = node.parallel.map(child => planNode(child, true));
+    } else {
+      const routing = planRouting(node, options);
+      if (routing) planned.routing = routing;
+    }
+    return planned;
+  };
+
+  return {
+    pipelineId: options.pipelineId,
+    name: pipeline.name,
+    context: ctx.toObject(),
+    nodes: pipeline.nodes.map(node => planNode(node, false))
+  };
+}
+
+/** Agent profile a node would be routed to, for routable actions only. */
+function planRouting(node: NodeConfig, options: PipelinePlanOptions): PlannedNodeRouting | undefined {
+  if (!actionCatalogEntry(node.action).routable) return undefined;
+
+  const target: RuntimeAgentProfileTarget = {
+    pipelineName: options.pipelineId,
+    pipelineId: options.pipelineId,
+    intentKind: options.intentKind,
+    nodeId: node.id,
+    nodeAction: node.action
+  };
+  const [capability] = runtimeTargetRequiresCapabilities(target);
+  const selection = resolveAgentProfileSelection(options.config, target, capability);
+  return {
+    targetKey: selection.targetKey,
+    source: selection.source,
+    profileId: selection.profile?.id,
+    profileName: selection.profile?.name,
+    model: selection.profile?.model
+  };
+}
@@ -0,0 +1,130 @@
+import { nodeContract, VALID_ACTIONS } from "./node-registry.js";
+import { CONTEXT_VALUE_TYPES } from "./pipeline-loader.js";
+import type { ContextValueType, NodeContract } from "./types.js";
+
+/**
+ * JSON Schema for `pipelines/*.yml`, built from the node registry and the
+ * node contracts. `npm run pipeline:schema` writes it to
+ * schemas/pipeline.schema.json for editors (yaml-language-server).
+ */
+export function buildPipelineJsonSchema(): Record<string, unknown> {
+  const actions = [...VALID_ACTIONS].sort();
+  const actionValues = actions.map(action => ({ const: action, description: describeContract(nodeContract(action)) }));
+  const nodeId = { type: "string", pattern: "^[^.]+$", description: "Unique node id. '.' is reserved for called pipeline steps." };
+  const condition = { type: "string", description: "Expression over ctx.<key>, config.<key> and <nodeId>.<output>." };
+
+  const actionNode = {
+    type: "object",
+    required: ["id", "type", "action"],
+    additionalProperties: false,
+    properties: {
+      id: nodeId,
+      type: { enum: ["deterministic", "agentic", "conditional", "async"] },
+      action: { anyOf: actionValues },
+      description: { type: "string" },
+      config: { type: "object" },
+      if: condition,
+      enabled: { type: "boolean" },
+      on_failure: {
+        type: "object",
+        required: ["action", "agent_node", "max_rounds"],
+        additionalProperties: false,
+        properties: {
+          action: { const: "loop" },
+          agent_node: { enum: actions },
+          max_rounds: { type: ["integer", "string"] },
+          until: condition,
+          on_exhausted: { enum: ["fail_run", "complete_with_warning"] }
+        }
+      },
+      on_soft_fail: { enum: ["warn", "fail_run"] },
+      on_hard_fail: { const: "fail_run" },
+      timeout_seconds: { type: "number", exclusiveMinimum: 0 },
+      retry: {
+        type: "object",
+        required: ["max_attempts"],
+        additionalProperties: false,
+        properties: {
+          max_attempts: { type: "integer", minimum: 1, maximum: 10 },
+          backoff: { enum: ["fixed", "exponential"] },
+          delay_seconds: { type: "number", minimum: 0 }
+        }
+      }
+    }
+  };
+
+  const callNode = {
+    type: "object",
+    required: ["id"],
+    oneOf: [{ required: ["call"] }, { required: ["include"] }],
+    additionalProperties: false,
+    properties: {
+      id: nodeId,
+      call: { type: "string", description: "Id of the pipeline whose steps run here." },
+      include: { type: "string", description: "Alias of call." },
+      if: condition,
+      description: { type: "string" }
+    }
+  };
+
+  const parallelBlock = {
+    type: "object",
+    required: ["id", "parallel"],
+    additionalProperties: false,
+    properties: {
+      id: nodeId,
+      type: { const: "parallel" },
+      description: { type: "string" },
+      if: condition,
+      enabled: { type: "boolean" },
+      parallel: { type: "array", minItems: 1, items: { $ref: "#/definitions/actionNode" } }
+    }
+  };
+
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "Gooseherd pipeline",
+    type: "object",
+    required: ["version", "name", "nodes"],
+    properties: {
+      version: { enum: [1, 2], description: "Version 2 checks that every context key a node reads is written by an earlier node." },
+      name: { type: "string", minLength: 1 },
+      description: { type: "string" },
+      context: { type: "object", description: "Initial context bag values." },
+      include_only: {
+        type: "boolean",
+        description: "Only called or included by other pipelines; hidden from pipeline selection and never run on its own."
+      },
+      inputs: {
+        type: "object",
+        description: "Version 2: context keys the caller sets before the first node.",
+        additionalProperties: { enum: CONTEXT_VALUE_TYPES }
+      },
+      nodes: {
+        type: "array",
+        minItems: 1,
+        items: {
+          anyOf: [
+            { $ref: "#/definitions/actionNode" },
+            { $ref: "#/definitions/callNode" },
+            { $ref: "#/definitions/parallelBlock" }
+          ]
+        }
+      }
+    },
+    definitions: { actionNode, callNode, parallelBlock }
+  };
+}
+
+function describeContract(contract: NodeContract | undefined): string {
+  if (!contract) return "";
+  const list = (keys: Record<string, ContextValueType> | undefined): string =>
+    Object.entries(keys ?? {}).map(([key, type]) => `${key}: ${type}`).join(", ");
+  return [
+    contract.reads ? `Reads ${list(contract.reads)}.` : "",
+    contract.optionalReads ? `Optionally reads ${list(contract.optionalReads)}.` : "",
+    contract.writes ? `Writes ${list(contract.writes)}.` : "",
+    contract.configReads ? "Reads the context keys listed in its config." : "",
+    contract.configWrites ? "Writes the context key named in its config." : ""
+  ].filter(Boolean).join(" ");
+}
@@ -1,11 +1,13 @@
+import { randomUUID } from "node:crypto";
 import { readdir, readFile } from "node:fs/promises";
 import path from "node:path";
-import { eq, and } from "drizzle-orm";
+import { eq, and, desc, inArray, sql } from "drizzle-orm";
 import { logInfo, logWarn } from "../logger.js";
-import { loadPipelineFromString, PipelineLoadError } from "./pipeline-loader.js";
+import { loadPipeline, loadPipelineFromString, PipelineLoadError } from "./pipeline-loader.js";
+import { diffPipelineYaml, type PipelineDiff } from "./pipeline-diff.js";
 import type { PipelineConfig } from "./types.js";
 import type { Database } from "../db/index.js";
-import { pipelines } from "../db/schema.js";
+import { pipelineRevisions, pipelines, runs } from "../db/schema.js";
 
 export interface StoredPipeline {
   id: string;
@@ -14,10 +16,51 @@ export interface StoredPipeline {
   yaml: string;
   isBuiltIn: boolean;
   nodeCount: number;
+  /** Set by `include_only: true`: callable from other pipelines, not selectable for runs. */
+  includeOnly: boolean;
+  /** Revision the YAML above belongs to; stamped on runs that use it. */
+  revisionId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/** `call`: a pipeline this one calls got a new revision; the YAML is unchanged. */
+export type PipelineRevisionSource = "seed" | "save" | "rollback" | "call";
+
+export interface PipelineRevision {
+  id: string;
+  pipelineId: string;
+  /** 1-based, increasing per pipeline id. */
+  revision: number;
+  name: string;
+  description?: string;
+  yaml: string;
+  nodeCount: number;
+  source: PipelineRevisionSource;
+  /** Revision whose YAML a rollback restored. */
+  rolledBackFrom?: string;
+  /**
+   * Revision of each pipeline this one calls, transitively, at the time.
+   * Null when the called pipeline had no revision yet.
+   */
+  calledRevisions: Record<string, string | null>;
+  createdAt: string;
+}
+
+export interface PipelineRevisionSummary extends Omit<PipelineRevision, "yaml"> {
+  current: boolean;
+  /** Runs stamped with this revision, by terminal status. */
+  runs: { total: number; completed: number; failed: number; cancelled: number };
+}
+
+/** A called pipeline whose revision differs between two caller revisions. */
+export interface PipelineCallDiff {
+  pipelineId: string;
+  from?: { id: string; revision: number };
+  to?: { id: string; revision: number };
+  diff: PipelineDiff;
+}
+
 function rowToStored(row: typeof pipelines.$inferSelect): StoredPipeline {
   return {
     id: row.id,
@@ -26,11 +69,29 @@ function rowToStored(row: typeof pipelines.$inferSelect): StoredPipeline {
     yaml: row.yaml,
     isBuiltIn: row.isBuiltIn,
     nodeCount: row.nodeCount,
+    includeOnly: row.includeOnly,
+    revisionId: row.currentRevisionId ?? undefined,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
 }
 
+function rowToRevision(row: typeof pipelineRevisions.$inferSelect): PipelineRevision {
+  return {
+    id: row.id,
+    pipelineId: row.pipelineId,
+    revision: row.revision,
+    name: row.name,
+    description: row.description ?? undefined,
+    yaml: row.yaml,
+    nodeCount: row.nodeCount,
+    source: row.source as PipelineRevisionSource,
+    rolledBackFrom: row.rolledBackFrom ?? undefined,
+    calledRevisions: row.calledRevisions,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
 export class PipelineStore {
   private readonly db: Database;
 
@@ -68,45 +129,134 @@ export class PipelineStore {
     return rows[0] ? rowToStored(rows[0]) : undefined;
   }
 
-  /** Save a new or updated pipeline. Validates YAML first. */
+  /**
+   * Save a new or updated pipeline. Validates YAML first. Each change is
+   * recorded as a new revision; saving unchanged YAML is a no-op.
+   */
   async save(id: string, yaml: string): Promise<StoredPipeline> {
     const existing = await this.getAsync(id);
     if (existing?.isBuiltIn) {
       throw new PipelineLoadError(`Cannot overwrite built-in pipeline '${id}'`);
     }
+    if (existing && existing.yaml === yaml && existing.revisionId) {
+      return existing;
+    }
 
-    const config = loadPipelineFromString(yaml);
-    const now = new Date();
+    const config = this.validate(yaml, id);
+    await this.writeRevision(id, yaml, config, { isBuiltIn: false, source: "save" });
+    await this.refreshCache();
+    return this._cachedList.find((p) => p.id === id)!;
+  }
 
-    if (existing) {
-      await this.db
-        .update(pipelines)
-        .set({
-          name: config.name,
-          description: config.description,
-          yaml,
-          nodeCount: config.nodes.length,
-          updatedAt: now,
-        })
-        .where(eq(pipelines.id, id));
-    } else {
-      await this.db.insert(pipelines).values({
-        id,
-        name: config.name,
-        description: config.description,
-        yaml,
+  /** Revisions of a pipeline, newest first, with run counts per revision. */
+  async listRevisions(id: string): Promise<PipelineRevisionSummary[]> {
+    const rows = await this.db
+      .select()
+      .from(pipelineRevisions)
+      .where(eq(pipelineRevisions.pipelineId, id))
+      .orderBy(desc(pipelineRevisions.revision));
+    if (rows.length === 0) return [];
+
+    const counts = await this.db
+      .select({
+        revisionId: runs.pipelineRevisionId,
+        status: runs.status,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(runs)
+      .where(inArray(runs.pipelineRevisionId, rows.map((row) => row.id)))
+      .groupBy(runs.pipelineRevisionId, runs.status);
+
+    const currentId = (await this.getAsync(id))?.revisionId;
+    return rows.map((row) => {
+      const { yaml: _yaml, ...revision } = rowToRevision(row);
+      const runCounts = { total: 0, completed: 0, failed: 0, cancelled: 0 };
+      for (const entry of counts) {
+        if (entry.revisionId !== row.id) continue;
+        runCounts.total += entry.count;
+        if (entry.status === "completed" || entry.status === "failed" || entry.status === "cancelled") {
+          runCounts[entry.status] += entry.count;
+        }
+      }
+      return { ...revision, current: row.id === currentId, runs: runCounts };
+    });
+  }
+
+  /** A single revision, including its YAML. */
+  async getRevision(id: string, revisionId: string): Promise<PipelineRevision | undefined> {
+    const rows = await this.db
+      .select()
+      .from(pipelineRevisions)
+      .where(and(eq(pipelineRevisions.pipelineId, id), eq(pipelineRevisions.id, revisionId)));
+    return rows[0] ? rowToRevision(rows[0]) : undefined;
+  }
+
+  /** Line diffs of the called pipelines whose revision changed between two revisions. */
+  async diffCalls(from: PipelineRevision, to: PipelineRevision): Promise<PipelineCallDiff[]> {
+    const calledIds = [...new Set([...Object.keys(from.calledRevisions), ...Object.keys(to.calledRevisions)])];
+    const diffs: PipelineCallDiff[] = [];
+    for (const calledId of calledIds.sort()) {
+      const fromId = from.calledRevisions[calledId];
+      const toId = to.calledRevisions[calledId];
+      if (fromId === toId) continue;
+      const before = fromId ? await this.getRevision(calledId, fromId) : undefined;
+      const after = toId ? await this.getRevision(calledId, toId) : undefined;
+      diffs.push({
+        pipelineId: calledId,
+        from: before ? { id: before.id, revision: before.revision } : undefined,
+        to: after ? { id: after.id, revision: after.revision } : undefined,
+        diff: diffPipelineYaml(before?.yaml ?? "", after?.yaml ?? ""),
+      });
+    }
+    return diffs;
+  }
+
+  /**
+   * Make an earlier revision current again by appending a copy of it, so the
+   * history stays linear. Custom pipelines it calls are rolled back to the
+   * revisions recorded with it; built-in ones stay as they are on disk.
+   * Returns undefined when the pipeline or revision does not exist.
+   */
+  async rollback(id: string, revisionId: string): Promise<StoredPipeline | undefined> {
+    const existing = await this.getAsync(id);
+    if (!existing) return undefined;
+    if (existing.isBuiltIn) {
+      throw new PipelineLoadError(`Cannot roll back built-in pipeline '${id}'; edit pipelines/${id}.yml instead`);
+    }
+    const target = await this.getRevision(id, revisionId);
+    if (!target) return undefined;
+    if (target.id === existing.revisionId) return existing;
+
+    for (const [calledId, calledRevisionId] of Object.entries(target.calledRevisions)) {
+      if (!calledRevisionId) continue;
+      const called = await this.getAsync(calledId);
+      if (!called || called.isBuiltIn || called.revisionId === calledRevisionId) continue;
+      const calledTarget = await this.getRevision(calledId, calledRevisionId);
+      if (!calledTarget) continue;
+      await this.writeRevision(calledId, calledTarget.yaml, this.validate(calledTarget.yaml, calledId), {
         isBuiltIn: false,
-        nodeCount: config.nodes.length,
-        createdAt: now,
-        updatedAt: now,
+        source: "rollback",
+        rolledBackFrom: calledTarget.id,
       });
+      await this.refreshCache();
+      logInfo("Rolled back called pipeline", { pipelineId: id, calledId, revisionId: calledTarget.id });
     }
 
+    // Restoring the called pipelines already appended `call` revisions
+    const current = await this.getAsync(id);
+    if (current?.yaml === target.yaml) return current;
+
+    // Called pipelines may have changed since, so validate again
+    const config = this.validate(target.yaml, id);
+    await this.writeRevision(id, target.yaml, config, { isBuiltIn: false, source: "rollback", rolledBackFrom: target.id });
     await this.refreshCache();
     return this._cachedList.find((p) => p.id === id)!;
   }
 
-  /** Delete a pipeline (only non-built-in). Returns true if deleted. */
+  /**
+   * Delete a pipeline (only non-built-in). Returns true if deleted. Its
+   * revisions are kept for the runs that used them.
+   */
   async delete(id: string): Promise<boolean> {
     const existing = await this.getAsync(id);
     if (!existing || existing.isBuiltIn) return false;
@@ -119,8 +269,8 @@ export class PipelineStore {
   }
 
   /** Validate YAML without saving. Returns the parsed config or throws. */
-  validate(yaml: string): PipelineConfig {
-    return loadPipelineFromString(yaml);
+  validate(yaml: string, id?: string): PipelineConfig {
+    return loadPipelineFromString(yaml, { pipelineId: id, resolvePipeline: (calledId) => this.get(calledId)?.yaml });
   }
 
   // ── Private helpers ──
@@ -133,6 +283,117 @@ export class PipelineStore {
     this._cachedList = rows.map(rowToStored);
   }
 
+  /**
+   * Append a revision and point the pipeline row at it (insert or update),
+   * then append a `call` revision to every pipeline that calls this one.
+   */
+  private async writeRevision(
+    id: string,
+    yaml: string,
+    config: PipelineConfig,
+    options: { isBuiltIn: boolean; source: PipelineRevisionSource; rolledBackFrom?: string },
+  ): Promise<void> {
+    const calledRevisions = await this.currentRevisionIds(config.includes ?? []);
+    const fields = {
+      name: config.name,
+      description: config.description,
+      nodeCount: config.nodes.length,
+      includeOnly: config.includeOnly ?? false,
+    };
+    await this.appendRevision(id, yaml, fields, calledRevisions, options);
+    await this.recordCallerRevisions(id);
+  }
+
+  /** Current revision id of each pipeline, null for ones without a revision. */
+  private async currentRevisionIds(ids: string[]): Promise<Record<string, string | null>> {
+    if (ids.length === 0) return {};
+    const rows = await this.db
+      .select({ id: pipelines.id, revisionId: pipelines.currentRevisionId })
+      .from(pipelines)
+      .where(inArray(pipelines.id, ids));
+    const current = new Map(rows.map((row) => [row.id, row.revisionId]));
+    return Object.fromEntries(ids.map((calledId) => [calledId, current.get(calledId) ?? null]));
+  }
+
+  /**
+   * Give every pipeline whose current revision calls `id` a new revision
+   * with refreshed called revisions, so its history, run counts and
+   * rollback cover the called pipeline. Callers with fewer called pipelines
+   * go first: a pipeline's includes contain those of each pipeline it calls,
+   * so one pass leaves every caller current.
+   */
+  private async recordCallerRevisions(id: string): Promise<void> {
+    const callers = await this.db
+      .select({ pipeline: pipelines, revision: pipelineRevisions })
+      .from(pipelines)
+      .innerJoin(pipelineRevisions, eq(pipelineRevisions.id, pipelines.currentRevisionId))
+      .where(sql`${pipelineRevisions.calledRevisions} ? ${id}`);
+    callers.sort((a, b) => Object.keys(a.revision.calledRevisions).length - Object.keys(b.revision.calledRevisions).length);
+
+    for (const { pipeline, revision } of callers) {
+      const calledRevisions = await this.currentRevisionIds(Object.keys(revision.calledRevisions));
+      if (Object.entries(calledRevisions).every(([calledId, calledRevisionId]) => revision.calledRevisions[calledId] === calledRevisionId)) {
+        continue;
+      }
+      await this.appendRevision(
+        pipeline.id,
+        pipeline.yaml,
+        {
+          name: pipeline.name,
+          description: pipeline.description ?? undefined,
+          nodeCount: pipeline.nodeCount,
+          includeOnly: pipeline.includeOnly,
+        },
+        calledRevisions,
+        { isBuiltIn: pipeline.isBuiltIn, source: "call" },
+      );
+    }
+  }
+
+  private async appendRevision(
+    id: string,
+    yaml: string,
+    fields: { name: string; description?: string; nodeCount: number; includeOnly: boolean },
+    calledRevisions: Record<string, string | null>,
+    options: { isBuiltIn: boolean; source: PipelineRevisionSource; rolledBackFrom?: string },
+  ): Promise<void> {
+    const now = new Date();
+    const revisionId = randomUUID();
+    await this.db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ revision: sql<number>`coalesce(max(${pipelineRevisions.revision}), 0)::int` })
+        .from(pipelineRevisions)
+        .where(eq(pipelineRevisions.pipelineId, id));
+      await tx.insert(pipelineRevisions).values({
+        id: revisionId,
+        pipelineId: id,
+        revision: (latest?.revision ?? 0) + 1,
+        name: fields.name,
+        description: fields.description,
+        yaml,
+        nodeCount: fields.nodeCount,
+        source: options.source,
+        rolledBackFrom: options.rolledBackFrom,
+        calledRevisions,
+        createdAt: now,
+      });
+      const row = {
+        name: fields.name,
+        description: fields.description ?? null,
+        yaml,
+        isBuiltIn: options.isBuiltIn,
+        nodeCount: fields.nodeCount,
+        includeOnly: fields.includeOnly,
+        currentRevisionId: revisionId,
+        updatedAt: now,
+      };
+      await tx
+        .insert(pipelines)
+        .values({ id, ...row, createdAt: now })
+        .onConflictDoUpdate({ target: pipelines.id, set: row });
+    });
+  }
+
   private async seedFromDisk(pipelinesDir: string): Promise<void> {
     let files: string[];
     try {
@@ -156,40 +417,17 @@ export class PipelineStore {
 
       let config: PipelineConfig;
       try {
-        config = loadPipelineFromString(yaml);
+        // Load from disk so calls to built-ins not yet seeded still resolve
+        config = await loadPipeline(filePath);
       } catch (err) {
         const msg = err instanceof Error ? err.message : "unknown";
         logWarn("Invalid built-in pipeline, skipping", { file, error: msg });
         continue;
       }
 
-      const now = new Date();
-      // Upsert: update existing built-in, insert new ones
       const existing = await this.getAsync(id);
-      if (existing) {
-        await this.db
-          .update(pipelines)
-          .set({
-            name: config.name,
-            description: config.description,
-            yaml,
-            isBuiltIn: true,
-            nodeCount: config.nodes.length,
-            updatedAt: now,
-          })
-          .where(eq(pipelines.id, id));
-      } else {
-        await this.db.insert(pipelines).values({
-          id,
-          name: config.name,
-          description: config.description,
-          yaml,
-          isBuiltIn: true,
-          nodeCount: config.nodes.length,
-          createdAt: now,
-          updatedAt: now,
-        });
-      }
+      if (existing?.isBuiltIn && existing.yaml === yaml && existing.revisionId) continue;
+      await this.writeRevision(id, yaml, config, { isBuiltIn: true, source: "seed" });
     }
 
     await this.refreshCache();
@@ -1,4 +1,4 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { classifyTask, classifyExecutionMode } from "./task-classifier.js";
 
@@ -23,3 +23,7 @@ export async function classifyTaskNode(
     outputs: { taskType, executionMode }
   };
 }
+
+classifyTaskNode.contract = {
+  writes: { taskType: "string", executionMode: "string" }
+} satisfies NodeContract;
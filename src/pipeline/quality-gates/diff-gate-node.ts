@@ -1,4 +1,5 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import { GATE_REPORT } from "../node-contracts.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import type { TaskType } from "./task-classifier.js";
 import { parseDiffNumstat, evaluateDiffGate, DEFAULT_PROFILES } from "./diff-gate.js";
@@ -65,3 +66,9 @@ export async function diffGateNode(
     outputs: { diffStats: stats, diffVerdict: gateResult.verdict }
   };
 }
+
+diffGateNode.contract = {
+  reads: { repoDir: "string" },
+  optionalReads: { taskType: "string" },
+  writes: { diffStats: "object", diffVerdict: "string", ...GATE_REPORT }
+} satisfies NodeContract;
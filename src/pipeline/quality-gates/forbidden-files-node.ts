@@ -1,4 +1,5 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import { GATE_REPORT } from "../node-contracts.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { checkForbiddenFiles } from "./forbidden-files.js";
 import { runShellCapture, appendLog } from "../shell.js";
@@ -71,3 +72,8 @@ export async function forbiddenFilesNode(
 
   return { outcome: "success" };
 }
+
+forbiddenFilesNode.contract = {
+  reads: { repoDir: "string" },
+  writes: { deniedFiles: "string[]", guardedFiles: "string[]", lockfileViolations: "string[]", ...GATE_REPORT }
+} satisfies NodeContract;
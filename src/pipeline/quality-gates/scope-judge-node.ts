@@ -8,7 +8,8 @@
  * Escalation: if confidence < threshold, re-runs with a more capable model.
  */
 
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import { GATE_REPORT } from "../node-contracts.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { runShellCapture, appendLog } from "../shell.js";
 import { appendGateReport } from "./gate-report.js";
@@ -176,3 +177,9 @@ export async function scopeJudgeNode(
     outputs: { scopeJudgeResult: result }
   };
 }
+
+scopeJudgeNode.contract = {
+  reads: { repoDir: "string", task: "string" },
+  optionalReads: { repoScopeJudgeEnabled: "boolean" },
+  writes: { scopeJudgeResult: "object", scopeJudgeError: "string", ...GATE_REPORT }
+} satisfies NodeContract;
@@ -1,4 +1,5 @@
-import type { NodeConfig, NodeResult, NodeDeps } from "../types.js";
+import { GATE_REPORT } from "../node-contracts.js";
+import type { NodeConfig, NodeResult, NodeDeps, NodeContract } from "../types.js";
 import type { ContextBag } from "../context-bag.js";
 import { scanDiffForSecrets, parseGitleaksReport } from "./security-scan.js";
 import { runShellCapture, appendLog } from "../shell.js";
@@ -98,6 +99,11 @@ export async function securityScanNode(
   };
 }
 
+securityScanNode.contract = {
+  reads: { repoDir: "string" },
+  writes: { secretsFound: "array", securityMethod: "string", ...GATE_REPORT }
+} satisfies NodeContract;
+
 async function checkGitleaksAvailable(cwd: string, logFile: string): Promise<boolean> {
   const result = await runShellCapture("which gitleaks", { cwd, logFile });
   return result.code === 0;
@@ -71,6 +71,41 @@ export async function loadRepoConfig(
   }
 }
 
+/** The part of GitHubService that loadRepoConfigFromGitHub reads through. */
+export interface RepoConfigFileReader {
+  readFile(repoSlug: string, path: string, ref?: string): Promise<string>;
+}
+
+/**
+ * Load .gooseherd.yml from the base branch through the GitHub Contents API,
+ * for callers without a clone (the dashboard plan preview).
+ *
+ * @returns RepoConfig or null if not found/invalid. Other GitHub errors throw.
+ */
+export async function loadRepoConfigFromGitHub(
+  github: RepoConfigFileReader,
+  repoSlug: string,
+  baseBranch: string
+): Promise<RepoConfig | null> {
+  let content: string;
+  try {
+    content = await github.readFile(repoSlug, ".gooseherd.yml", baseBranch);
+  } catch (err) {
+    if ((err as { status?: number }).status === 404) {
+      return null;
+    }
+    throw err;
+  }
+
+  try {
+    return parseRepoConfigYaml(content);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "unknown";
+    logError("Failed to parse .gooseherd.yml", { error: msg, repoSlug });
+    return null;
+  }
+}
+
 export function parseRepoConfigYaml(content: string): RepoConfig | null {
   const parsed = parseYaml(content);
   if (!parsed || typeof parsed !== "object") {
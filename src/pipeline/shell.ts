@@ -41,6 +41,22 @@ function resolveSandbox(optionSandboxId?: string): string | undefined {
   return optionSandboxId ?? sandboxStorage.getStore()?.containerId;
 }
 
+/**
+ * AsyncLocalStorage for the abort signal of the node currently running.
+ * Shell commands and sleep() started inside it stop when the signal aborts
+ * (node timeout or run cancellation), so handlers need no extra plumbing.
+ */
+const abortStorage = new AsyncLocalStorage<AbortSignal>();
+
+/** Run `fn` so shell commands and sleep() it starts are stopped when `signal` aborts. */
+export function runWithAbortSignal<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+  return abortStorage.run(signal, fn);
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error("Aborted");
+}
+
 /** Returns true when running inside a sandbox context (commands route through Docker). */
 export function isInSandbox(): boolean {
   return resolveSandbox() !== undefined;
@@ -188,9 +204,27 @@ export function sanitizeForLogs(input: string): string {
   return output;
 }
 
-/** Shared sleep utility for polling loops. */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Shared sleep utility for polling loops. Rejects early when `signal`
+ * (by default the current node's abort signal) aborts.
+ */
+export function sleep(ms: number, signal: AbortSignal | undefined = abortStorage.getStore()): Promise<void> {
+  if (!signal) return new Promise(resolve => setTimeout(resolve, ms));
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 // ── Shell execution functions ──
@@ -251,6 +285,7 @@ export async function runShell(
       cwd: containerCwd,
       login: true,
       timeoutMs: options.timeoutMs,
+      signal: abortStorage.getStore(),
       onStdout: (chunk) => { appendLog(logFile, chunk).catch(() => {}); },
       onStderr: (chunk) => { appendLog(logFile, chunk).catch(() => {}); }
     });
@@ -264,6 +299,8 @@ export async function runShell(
   }
 
   // Local spawn path (existing behavior)
+  const signal = abortStorage.getStore();
+  if (signal?.aborted) throw abortError(signal);
   await new Promise<void>((resolve, reject) => {
     let settled = false;
     let stderrTail: Buffer<ArrayBufferLike> = Buffer.alloc(0);
@@ -275,6 +312,7 @@ export async function runShell(
       },
       stdio: ["ignore", "pipe", "pipe"]
     });
+    const stopOnAbort = watchAbort(signal, child, options.logFile, () => settled);
 
     let timeoutHandle: NodeJS.Timeout | undefined;
     if (options.timeoutMs && options.timeoutMs > 0) {
@@ -311,6 +349,7 @@ export async function runShell(
       if (timeoutHandle) {
         clearTimeout(timeoutHandle);
       }
+      stopOnAbort();
       if (settled) {
         return;
       }
@@ -328,6 +367,7 @@ export async function runShell(
       if (timeoutHandle) {
         clearTimeout(timeoutHandle);
       }
+      stopOnAbort();
       if (settled) {
         return;
       }
@@ -357,6 +397,7 @@ export async function runShellWithProgress(
     const result = await _containerManager.exec(effectiveSandbox, command, {
       cwd: containerCwd,
       login: true,
+      signal: abortStorage.getStore(),
       onStdout: (chunk) => { appendLog(logFile, chunk).catch(() => {}); },
       onStderr: (chunk) => {
         appendLog(logFile, chunk).catch(() => {});
@@ -371,6 +412,8 @@ export async function runShellWithProgress(
   }
 
   // Local spawn path (existing behavior)
+  const signal = abortStorage.getStore();
+  if (signal?.aborted) throw abortError(signal);
   await new Promise<void>((resolve, reject) => {
     let settled = false;
     let stderrTail: Buffer<ArrayBufferLike> = Buffer.alloc(0);
@@ -379,6 +422,7 @@ export async function runShellWithProgress(
       env: process.env,
       stdio: ["ignore", "pipe", "pipe"]
     });
+    const stopOnAbort = watchAbort(signal, child, options.logFile, () => settled);
 
     child.stdout.on("data", async (chunk) => {
       await appendLog(options.logFile, chunk.toString());
@@ -393,6 +437,7 @@ export async function runShellWithProgress(
     });
 
     child.on("exit", (code) => {
+      stopOnAbort();
       if (settled) return;
       settled = true;
       if (code === 0) {
@@ -403,6 +448,7 @@ export async function runShellWithProgress(
     });
 
     child.on("error", (error) => {
+      stopOnAbort();
       if (settled) return;
       settled = true;
       reject(error);
@@ -410,6 +456,27 @@ export async function runShellWithProgress(
   });
 }
 
+/**
+ * Kill `child` (SIGTERM, then SIGKILL after 5s) when `signal` aborts.
+ * Returns a cleanup function to call once the child has exited.
+ */
+function watchAbort(
+  signal: AbortSignal | undefined,
+  child: ReturnType<typeof spawn>,
+  logFile: string,
+  isSettled: () => boolean
+): () => void {
+  if (!signal) return () => {};
+  const onAbort = () => {
+    if (isSettled()) return;
+    appendLog(logFile, `\n[aborted] ${abortError(signal).message}, terminating\n`).catch(() => {});
+    child.kill("SIGTERM");
+    setTimeout(() => { if (!isSettled()) child.kill("SIGKILL"); }, 5000).unref();
+  };
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
+
 export interface ShellCaptureOptions {
   cwd?: string;
   env?: NodeJS.ProcessEnv;
@@ -451,6 +518,7 @@ export async function runShellCapture(
       cwd: containerCwd,
       login: options.login,
       timeoutMs: options.timeoutMs,
+      signal: abortStorage.getStore(),
       onStdout: (chunk) => { appendLog(logFile, chunk).catch(() => {}); },
       onStderr: (chunk) => { appendLog(logFile, chunk).catch(() => {}); }
     });
@@ -459,6 +527,8 @@ export async function runShellCapture(
   }
 
   // Local spawn path
+  const abortSignal = abortStorage.getStore();
+  if (abortSignal?.aborted) throw abortError(abortSignal);
   return new Promise<{ code: number; stdout: string; stderr: string; signal: NodeJS.Signals | null }>((resolve, reject) => {
     let settled = false;
     const bashFlags = options.login ? "-lc" : "-c";
@@ -488,6 +558,8 @@ export async function runShellCapture(
         killChild(`timeout: command exceeded ${String(Math.floor(timeoutMs / 1000))}s, terminating`);
       }, timeoutMs);
     }
+    const onAbort = () => killChild(`aborted: ${abortError(abortSignal!).message}, terminating`);
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
 
     child.stdout.on("data", async (chunk) => {
       const text = chunk.toString();
@@ -503,6 +575,7 @@ export async function runShellCapture(
 
     child.on("exit", (code, signal) => {
       if (timeoutHandle) clearTimeout(timeoutHandle);
+      abortSignal?.removeEventListener("abort", onAbort);
       if (settled) return;
       settled = true;
       // When the child is killed by a signal (incl. our own timeout SIGTERM),
@@ -515,6 +588,7 @@ export async function runShellCapture(
 
     child.on("error", (error) => {
       if (timeoutHandle) clearTimeout(timeoutHandle);
+      abortSignal?.removeEventListener("abort", onAbort);
       if (settled) return;
       settled = true;
       reject(error);
@@ -4,12 +4,12 @@ import type { TokenUsageIncrement } from "../types.js";
 import type { GitHubService } from "../github.js";
 import type { RunLifecycleHooks } from "../hooks/run-lifecycle.js";
 import type { ContextBag } from "./context-bag.js";
-import type { RunCheckpointType } from "../runs/run-checkpoints.js";
+import type { ApprovalRequestPayload, RunCheckpointType } from "../runs/run-checkpoints.js";
 import type { RuntimeAgentProfileTarget } from "../agent-profile-targets.js";
 
 // ── Node categories ──
 
-export type NodeCategory = "deterministic" | "agentic" | "conditional" | "async";
+export type NodeCategory = "deterministic" | "agentic" | "conditional" | "async" | "parallel";
 
 // ── Pipeline YAML config types ──
 
@@ -21,6 +21,16 @@ export interface LoopConfig {
   on_exhausted?: "fail_run" | "complete_with_warning";
 }
 
+/** Re-run a failed node before any on_failure loop kicks in. */
+export interface RetryConfig {
+  /** Total attempts, including the first run. */
+  max_attempts: number;
+  /** Delay growth between attempts. Default: exponential. */
+  backoff?: "fixed" | "exponential";
+  /** Delay before the second attempt. Default: 5. */
+  delay_seconds?: number;
+}
+
 export interface NodeConfig {
   id: string;
   type: NodeCategory;
@@ -31,6 +41,11 @@ export interface NodeConfig {
   on_failure?: LoopConfig;
   on_soft_fail?: "warn" | "fail_run";
   on_hard_fail?: "fail_run";
+  /** Fail the node (and abort its shell commands) after this many seconds. */
+  timeout_seconds?: number;
+  retry?: RetryConfig;
+  /** Child nodes of a `parallel` block. Set only when type/action are "parallel". */
+  parallel?: NodeConfig[];
 }
 
 export interface PipelineConfig {
@@ -38,7 +53,44 @@ export interface PipelineConfig {
   name: string;
   description?: string;
   context?: Record<string, unknown>;
+  /** v2: context keys the pipeline expects to be set before its first node. */
+  inputs?: Record<string, ContextValueType>;
   nodes: NodeConfig[];
+  /** Only meant to be called or included by other pipelines; never run on its own. */
+  includeOnly?: boolean;
+  /** Ids of every pipeline inlined through `call` / `include` nodes, transitively. */
+  includes?: string[];
+}
+
+// ── Resume ──
+
+/** State needed to restart a pipeline at a node, taken from a pipeline snapshot checkpoint. */
+export interface PipelineResumeState {
+  fromNodeId: string;
+  context: Record<string, unknown>;
+  nodeResults: Record<string, Record<string, unknown>>;
+  /** Dynamic skips recorded up to the snapshot. */
+  skipNodeIds?: string[];
+  /** Snapshot resumed from; later snapshots are stored as deltas against it. */
+  snapshotCheckpointKey?: string;
+}
+
+// ── Node contracts ──
+
+export type ContextValueType = "string" | "number" | "boolean" | "string[]" | "array" | "object";
+
+/** Context keys a node action reads and writes. Checked by the loader for v2 pipelines. */
+export interface NodeContract {
+  /** Keys the handler cannot run without. */
+  reads?: Record<string, ContextValueType>;
+  /** Keys the handler uses when present. */
+  optionalReads?: Record<string, ContextValueType>;
+  /** Keys the handler sets, through outputs or ctx.set. */
+  writes?: Record<string, ContextValueType>;
+  /** Keys named in the node's `config` that the handler reads. */
+  configReads?: (config: Record<string, unknown> | undefined) => string[];
+  /** Keys named in the node's `config` that the handler writes. */
+  configWrites?: (config: Record<string, unknown> | undefined) => Record<string, ContextValueType>;
 }
 
 // ── Node execution ──
@@ -78,13 +130,22 @@ export interface NodeDeps {
   containerManager?: import("../sandbox/container-manager.js").ContainerManager;
   /** Current routing target for per-workflow/per-node agent-profile selection. */
   agentProfileTarget?: RuntimeAgentProfileTarget;
+  /**
+   * Aborted when the run is cancelled or the current node times out. Shell
+   * commands and sleep() from shell.ts already stop on it; handlers with
+   * their own long waits should check it too.
+   */
+  abortSignal?: AbortSignal;
 }
 
-export type NodeHandler = (
+export type NodeHandler = ((
   nodeConfig: NodeConfig,
   ctx: ContextBag,
   deps: NodeDeps
-) => Promise<NodeResult>;
+) => Promise<NodeResult>) & {
+  /** Context keys the handler reads and writes. */
+  contract?: NodeContract;
+};
 
 // ── Pipeline events (JSONL) ──
 
@@ -125,7 +186,9 @@ export interface PipelineStepResult {
 }
 
 export interface PipelineResult {
-  outcome: "success" | "failure" | "completed_with_warnings";
+  outcome: "success" | "failure" | "completed_with_warnings" | "awaiting_approval";
   steps: PipelineStepResult[];
   warnings: string[];
+  /** Set when an approval_gate node stopped the pipeline for a human decision. */
+  approvalRequest?: ApprovalRequestPayload;
 }
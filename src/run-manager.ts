@@ -1,6 +1,6 @@
 import PQueue from "p-queue";
 import type { WebClient } from "@slack/web-api";
-import { readFile } from "node:fs/promises";
+import { access, readFile } from "node:fs/promises";
 import path from "node:path";
 import type { Block, KnownBlock } from "@slack/types";
 import { writeFile, mkdir } from "node:fs/promises";
@@ -9,13 +9,24 @@ import { logError, logInfo } from "./logger.js";
 import type { RunLifecycleHooks } from "./hooks/run-lifecycle.js";
 import { RunStore, mapPhaseToRunStatus } from "./store.js";
 import type { ExecutionResult, NewRunInput, RunRecord, TokenUsage } from "./types.js";
-import type { PipelineStore } from "./pipeline/pipeline-store.js";
+import type { PipelineStore, StoredPipeline } from "./pipeline/pipeline-store.js";
+import { loadPipelineFromString } from "./pipeline/pipeline-loader.js";
 import type { LearningStore } from "./observer/learning-store.js";
 import { getRuntimeBackend, type RuntimeRegistry } from "./runtime/backend.js";
 import type { RunContextPrefetcher } from "./runtime/run-context-prefetcher.js";
 import type { RunPrefetchContext } from "./runtime/run-context-types.js";
 import { isFeatureDeliveryAutoReviewOrRepairCiRun, isInvestigateRun, selectPipelineIdForIntent, type RunIntent } from "./runs/run-intent.js";
 import type { EmitRunCheckpointInput, RunCheckpointStore } from "./runs/run-checkpoint-store.js";
+import {
+  isApprovalRequestPayload,
+  isPipelineSnapshotPayload,
+  isResumeRequestPayload,
+  resolvePipelineSnapshot,
+  type ApprovalDecision,
+  type ApprovalRequestPayload,
+  type ResumeRequestPayload,
+} from "./runs/run-checkpoints.js";
+import type { PipelineResumeState } from "./pipeline/types.js";
 import type { RunCheckpointProcessor } from "./runs/run-checkpoint-processor.js";
 import { resolveRunnerProfile } from "./runtime/runner-profile.js";
 import type { RunnerDbSlotManager } from "./runtime/runner-db-slot-manager.js";
@@ -125,6 +136,9 @@ function formatPhase(phase: string): string {
   if (phase === "cancel_requested") {
     return "cancellation requested";
   }
+  if (phase === "awaiting_approval") {
+    return "awaiting approval";
+  }
   if (phase === "cancelled") {
     return "cancelled";
   }
@@ -150,6 +164,9 @@ function statusEmoji(status: RunRecord["status"]): string {
   if (status === "pushing") {
     return "🚀";
   }
+  if (status === "awaiting_approval") {
+    return "✋";
+  }
   return "🤖";
 }
 
@@ -208,6 +225,45 @@ function isRetryableStatus(status: RunRecord["status"]): boolean {
   return status === "failed" || status === "completed";
 }
 
+function isResumableStatus(status: RunRecord["status"]): boolean {
+  return status === "failed" || status === "cancelled";
+}
+
+export interface RunResumePoint {
+  nodeId: string;
+  emittedAt: string;
+}
+
+export type ResumeRunResult =
+  | { ok: true; run: RunRecord; fromNodeId: string }
+  | { ok: false; error: string };
+
+export type ApprovalDecisionResult =
+  | { ok: true; run: RunRecord }
+  | { ok: false; error: string };
+
+/** Slack text for an approval request: diff size, changed files and gate verdicts. */
+export function formatApprovalRequestText(run: RunRecord, request: ApprovalRequestPayload): string {
+  const lines = [`✋ *Approval needed* for *${run.repoSlug}* at \`${request.nodeId}\``];
+  if (request.diffStats) {
+    lines.push(`*Diff:* +${String(request.diffStats.linesAdded)} / -${String(request.diffStats.linesRemoved)} across ${String(request.diffStats.filesChanged)} file(s)`);
+  }
+  if (request.changedFiles.length > 0) {
+    const fileList = request.changedFiles.slice(0, 10).map((file) => `\`${file}\``).join(", ");
+    const extra = request.changedFiles.length > 10 ? ` (+${String(request.changedFiles.length - 10)} more)` : "";
+    lines.push(`*Files changed:* ${fileList}${extra}`);
+  }
+  if (request.gateReport.length > 0) {
+    lines.push("*Gates:*");
+    for (const entry of request.gateReport) {
+      const icon = entry.verdict === "pass" ? "✅" : entry.verdict === "soft_fail" ? "⚠️" : "❌";
+      lines.push(`${icon} ${entry.gate}: ${entry.verdict}${entry.reasons.length > 0 ? ` — ${entry.reasons.join("; ")}` : ""}`);
+    }
+  }
+  lines.push(`_Request changes sends the run back to \`${request.loopBackTo}\` with your note._`);
+  return lines.join("\n");
+}
+
 function deriveTerminalProgressReason(result: ExecutionResult, run: RunRecord): string {
   if (!result.commitSha) {
     return "completed_without_commit_sha";
@@ -370,13 +426,20 @@ export class RunManager {
    * Checks the PipelineStore first (for custom pipelines), falls back to disk.
    * For store-only pipelines, writes the YAML to a temp file in the run's work dir.
    */
-  private async resolvePipeline(hint: string | undefined, runId: string): Promise<{ file: string; id?: string }> {
-    if (!hint) return { file: this.config.pipelineFile };
+  private async resolvePipeline(
+    hint: string | undefined,
+    runId: string,
+  ): Promise<{ file: string; id?: string; revisionId?: string }> {
+    if (!hint) return { file: this.config.pipelineFile, revisionId: this.builtInRevisionId(this.config.pipelineFile) };
 
     if (!/^[a-zA-Z0-9_-]+$/.test(hint)) {
       logInfo("Invalid pipelineHint, using default", { hint });
       return { file: this.config.pipelineFile };
     }
+    if (this.pipelineStore?.get(hint)?.includeOnly) {
+      logInfo("pipelineHint names an include-only pipeline, using default", { hint });
+      return { file: this.config.pipelineFile, revisionId: this.builtInRevisionId(this.config.pipelineFile) };
+    }
 
     // Check pipeline store for custom (non-built-in) pipelines
     if (this.pipelineStore) {
@@ -386,13 +449,48 @@ export class RunManager {
         await mkdir(runDir, { recursive: true });
         const tmpYaml = path.join(runDir, `pipeline-${hint}.yml`);
         await writeFile(tmpYaml, stored.yaml, "utf8");
+        await this.writeCalledCustomPipelines(stored, runDir);
         logInfo("Using custom pipeline from store", { hint, file: tmpYaml });
-        return { file: tmpYaml, id: stored.id };
+        return { file: tmpYaml, id: stored.id, revisionId: stored.revisionId };
       }
     }
 
     // Built-in: resolve from pipelines/ directory on disk
-    return { file: path.resolve("pipelines", `${hint}.yml`), id: hint };
+    const file = path.resolve("pipelines", `${hint}.yml`);
+    return { file, id: hint, revisionId: this.builtInRevisionId(file) };
+  }
+
+  /** Revision of a built-in pipeline file, as seeded into the store at startup. */
+  private builtInRevisionId(file: string): string | undefined {
+    const id = path.basename(file, ".yml");
+    if (path.resolve(file) !== path.resolve("pipelines", `${id}.yml`)) return undefined;
+    const stored = this.pipelineStore?.get(id);
+    return stored?.isBuiltIn ? stored.revisionId : undefined;
+  }
+
+  /**
+   * The engine resolves `call` nodes from files next to the pipeline, then
+   * from pipelines/. Custom pipelines only live in the store, so write the
+   * ones this pipeline calls into the run dir alongside it.
+   */
+  private async writeCalledCustomPipelines(stored: StoredPipeline, runDir: string): Promise<void> {
+    const store = this.pipelineStore;
+    if (!store) return;
+    let includes: string[];
+    try {
+      includes = loadPipelineFromString(stored.yaml, {
+        pipelineId: stored.id,
+        resolvePipeline: (calledId) => store.get(calledId)?.yaml
+      }).includes ?? [];
+    } catch {
+      return; // the engine reports the load error when the run starts
+    }
+    for (const calledId of includes) {
+      const called = store.get(calledId);
+      if (called && !called.isBuiltIn) {
+        await writeFile(path.join(runDir, `${calledId}.yml`), called.yaml, "utf8");
+      }
+    }
   }
 
   /**
@@ -404,6 +502,17 @@ export class RunManager {
     if (!run) return false;
     const controller = this.runAbortControllers.get(runId);
     if (!controller) {
+      if (run.status === "awaiting_approval") {
+        const cancelled = await this.store.updateRun(runId, {
+          status: "cancelled",
+          phase: "cancelled",
+          finishedAt: new Date().toISOString(),
+          error: "Run cancelled while awaiting approval",
+        });
+        this.fireStatusChangeCallbacks(cancelled.id, "cancelled", cancelled.runtime);
+        this.fireTerminalCallbacks(cancelled.id, "cancelled", cancelled.runtime);
+        return true;
+      }
       if (run.runtime === "kubernetes" && run.status === "queued") {
         const cancelled = await this.store.updateRun(runId, {
           status: "cancelled",
@@ -448,6 +557,12 @@ export class RunManager {
         // Swallow errors from callbacks to avoid disrupting the run manager
       }
     }
+    if (this.hooks?.hasRunFinishedListeners) {
+      // Lifecycle hooks get the final record (fire-and-forget, errors swallowed internally)
+      this.store.getRun(runId)
+        .then((run) => (run ? this.hooks!.onRunFinished(run) : undefined))
+        .catch(() => {});
+    }
   }
 
   private fireStatusChangeCallbacks(runId: string, status: string, runtime: RunRecord["runtime"]): void {
@@ -598,6 +713,231 @@ export class RunManager {
     return newRun;
   }
 
+  /**
+   * List the nodes a run can resume from, oldest first. Each entry is the
+   * latest snapshot taken just before that node ran.
+   */
+  async listResumePoints(runId: string): Promise<RunResumePoint[]> {
+    if (!this.checkpointStore) return [];
+    const snapshots = await this.checkpointStore.listOfType(runId, "run.pipeline_snapshot");
+    const latestByNode = new Map<string, RunResumePoint>();
+    for (const snapshot of snapshots) {
+      if (!isPipelineSnapshotPayload(snapshot.payload)) continue;
+      latestByNode.delete(snapshot.payload.nextNodeId);
+      latestByNode.set(snapshot.payload.nextNodeId, { nodeId: snapshot.payload.nextNodeId, emittedAt: snapshot.emittedAt });
+    }
+    return [...latestByNode.values()];
+  }
+
+  /**
+   * Restart a failed or cancelled run in place from a pipeline snapshot,
+   * reusing its workspace on disk. Defaults to the node that was running
+   * when the run stopped. Only in-process runtimes keep the workspace.
+   */
+  async resumeRun(runIdentifier: string, requestedBy: string, fromNodeId?: string): Promise<ResumeRunResult> {
+    const run = await this.store.findRunByIdentifier(runIdentifier);
+    if (!run) {
+      return { ok: false, error: `Run not found: ${runIdentifier}` };
+    }
+    if (!isResumableStatus(run.status)) {
+      return { ok: false, error: `Can only resume failed or cancelled runs (run is ${run.status})` };
+    }
+    if (run.runtime === "kubernetes") {
+      return { ok: false, error: "Kubernetes runs cannot be resumed: the workspace is not kept after the runner pod exits. Use retry instead." };
+    }
+    if (!this.checkpointStore) {
+      return { ok: false, error: "Resume is unavailable: no checkpoint store configured" };
+    }
+
+    const snapshots = (await this.checkpointStore.listOfType(run.id, "run.pipeline_snapshot"))
+      .filter((snapshot) => isPipelineSnapshotPayload(snapshot.payload));
+    const snapshot = fromNodeId
+      ? snapshots.filter((entry) => isPipelineSnapshotPayload(entry.payload) && entry.payload.nextNodeId === fromNodeId).at(-1)
+      : snapshots.at(-1);
+    const resolved = snapshot && resolvePipelineSnapshot(snapshots, snapshot.checkpointKey);
+    if (!resolved) {
+      return {
+        ok: false,
+        error: fromNodeId
+          ? `No resume snapshot for node '${fromNodeId}' on run ${shortRunId(run.id)}`
+          : `No resume snapshot recorded for run ${shortRunId(run.id)}`
+      };
+    }
+
+    const repoDir = path.resolve(this.config.workRoot, run.id, "repo");
+    try {
+      await access(repoDir);
+    } catch {
+      return { ok: false, error: `Workspace for run ${shortRunId(run.id)} is no longer on disk. Use retry instead.` };
+    }
+
+    // Conditional on the status read above, so two concurrent requests cannot both queue the run
+    const queued = await this.store.updateRunIfStatus(run.id, run.status, {
+      status: "queued",
+      phase: "queued",
+      finishedAt: "",
+      error: undefined,
+    });
+    if (!queued) {
+      return { ok: false, error: `Run ${shortRunId(run.id)} is already being resumed` };
+    }
+    await this.requestResume(run.id, {
+      fromNodeId: resolved.nextNodeId,
+      snapshotCheckpointKey: resolved.checkpointKey,
+      requestedBy,
+    });
+    logInfo("Run resume requested", { runId: run.id, fromNodeId: resolved.nextNodeId, requestedBy });
+    this.scheduleRunProcessing(run.id);
+    return { ok: true, run: queued, fromNodeId: resolved.nextNodeId };
+  }
+
+  /** The open approval request of a run parked at an approval_gate. */
+  async getApprovalRequest(runId: string): Promise<ApprovalRequestPayload | undefined> {
+    if (!this.checkpointStore) return undefined;
+    const requests = await this.checkpointStore.listOfType(runId, "run.approval_requested");
+    const latest = requests.at(-1);
+    return latest && isApprovalRequestPayload(latest.payload) ? latest.payload : undefined;
+  }
+
+  /**
+   * Answer an approval gate. Rejecting fails the run; approving or requesting
+   * changes resumes it from the gate's snapshot with the decision in context.
+   */
+  async decideApproval(
+    runIdentifier: string,
+    decision: ApprovalDecision,
+    decidedBy: string,
+    note?: string
+  ): Promise<ApprovalDecisionResult> {
+    const run = await this.store.findRunByIdentifier(runIdentifier);
+    if (!run) {
+      return { ok: false, error: `Run not found: ${runIdentifier}` };
+    }
+    if (run.status !== "awaiting_approval") {
+      return { ok: false, error: `Run ${shortRunId(run.id)} is not awaiting approval (run is ${run.status})` };
+    }
+    if (decision === "changes_requested" && !note?.trim()) {
+      return { ok: false, error: "A note is required when requesting changes" };
+    }
+    const request = await this.getApprovalRequest(run.id);
+    if (!request || !this.checkpointStore) {
+      return { ok: false, error: `No approval request recorded for run ${shortRunId(run.id)}` };
+    }
+
+    const trimmedNote = note?.trim() || undefined;
+    const notAwaiting: ApprovalDecisionResult = { ok: false, error: `Run ${shortRunId(run.id)} is no longer awaiting approval` };
+    const recordDecision = async (): Promise<void> => {
+      await this.emitAndProcessCheckpoint({
+        runId: run.id,
+        checkpointKey: `approval_decided:${request.nodeId}:${new Date().toISOString()}`,
+        checkpointType: "run.approval_decided",
+        payload: { nodeId: request.nodeId, decision, note: trimmedNote, decidedBy },
+      });
+      logInfo("Run approval decided", { runId: run.id, nodeId: request.nodeId, decision, decidedBy });
+    };
+
+    if (decision === "rejected") {
+      // Conditional on the status, so only one of two concurrent deciders wins
+      const rejected = await this.store.updateRunIfStatus(run.id, "awaiting_approval", {
+        status: "failed",
+        phase: "failed",
+        finishedAt: new Date().toISOString(),
+        error: `Rejected at ${request.nodeId} by ${decidedBy}${trimmedNote ? `: ${trimmedNote}` : ""}`,
+      });
+      if (!rejected) return notAwaiting;
+      await recordDecision();
+      await this.postOrUpdateRunCard(rejected, {
+        phase: "failed",
+        detail: `Rejected by ${decidedBy}.`,
+        heartbeatTick: 0,
+        statusMessageTs: rejected.statusMessageTs,
+      }).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        logError("Failed to update run card", { runId: rejected.id, error: message });
+      });
+      await this.postRunSummary(rejected);
+      this.fireStatusChangeCallbacks(rejected.id, "failed", rejected.runtime);
+      this.fireTerminalCallbacks(rejected.id, "failed", rejected.runtime);
+      return { ok: true, run: rejected };
+    }
+
+    const snapshots = await this.checkpointStore.listOfType(run.id, "run.pipeline_snapshot");
+    const snapshot = snapshots
+      .filter((entry) => isPipelineSnapshotPayload(entry.payload) && entry.payload.nextNodeId === request.nodeId)
+      .at(-1);
+    if (!snapshot || !resolvePipelineSnapshot(snapshots, snapshot.checkpointKey)) {
+      return { ok: false, error: `No resume snapshot for node '${request.nodeId}' on run ${shortRunId(run.id)}` };
+    }
+
+    const queued = await this.store.updateRunIfStatus(run.id, "awaiting_approval", {
+      status: "queued",
+      phase: "queued",
+      error: undefined,
+    });
+    if (!queued) return notAwaiting;
+    await recordDecision();
+    await this.requestResume(run.id, {
+      fromNodeId: request.nodeId,
+      snapshotCheckpointKey: snapshot.checkpointKey,
+      requestedBy: decidedBy,
+      context: {
+        approvalDecision: decision,
+        approvalDecidedBy: decidedBy,
+        ...(trimmedNote ? { approvalNote: trimmedNote } : {}),
+      },
+    });
+    this.scheduleRunProcessing(run.id);
+    return { ok: true, run: queued };
+  }
+
+  /**
+   * Record a resume request. It must be written BEFORE the run is scheduled:
+   * processRun reads it from the checkpoint store, which also lets a queued
+   * resume survive an orchestrator restart.
+   */
+  private async requestResume(runId: string, request: ResumeRequestPayload): Promise<void> {
+    await this.emitAndProcessCheckpoint({
+      runId,
+      checkpointKey: `resume_requested:${request.fromNodeId}:${new Date().toISOString()}`,
+      checkpointType: "run.resume_requested",
+      payload: { ...request },
+    });
+  }
+
+  /**
+   * The latest resume request of a run if no earlier processRun started it,
+   * with its snapshot chain folded into full state. Marks it as started.
+   */
+  private async takePendingResume(runId: string): Promise<PipelineResumeState | undefined> {
+    if (!this.checkpointStore) return undefined;
+    const request = (await this.checkpointStore.listOfType(runId, "run.resume_requested")).at(-1);
+    if (!request || !isResumeRequestPayload(request.payload)) return undefined;
+    const startedKey = `resume_started:${request.checkpointKey}`;
+    if (await this.checkpointStore.hasCheckpoint(runId, startedKey)) return undefined;
+
+    const { fromNodeId, snapshotCheckpointKey, context } = request.payload;
+    const snapshot = resolvePipelineSnapshot(
+      await this.checkpointStore.listOfType(runId, "run.pipeline_snapshot"),
+      snapshotCheckpointKey,
+    );
+    await this.emitAndProcessCheckpoint({
+      runId,
+      checkpointKey: startedKey,
+      checkpointType: "run.resume_started",
+      payload: { requestKey: request.checkpointKey },
+    });
+    if (!snapshot) {
+      throw new Error(`Cannot resume: snapshot ${snapshotCheckpointKey} is incomplete`);
+    }
+    return {
+      fromNodeId,
+      context: { ...snapshot.context, ...context },
+      nodeResults: snapshot.nodeResults,
+      skipNodeIds: snapshot.skipNodeIds,
+      snapshotCheckpointKey,
+    };
+  }
+
   async continueRun(
     parentRunId: string,
     feedbackNote: string,
@@ -878,8 +1218,12 @@ export class RunManager {
       };
 
       const pipeline = await this.resolvePipeline(selectPipelineIdForIntent(run.intent, run.pipelineHint), run.id);
+      if (pipeline.revisionId && pipeline.revisionId !== run.pipelineRevisionId) {
+        run = await this.store.updateRun(stableRunId, { pipelineRevisionId: pipeline.revisionId });
+      }
       run = await this.refreshRunForDispatch(stableRunId, run, abortController.signal);
       const backend = this.getBackend(run.runtime);
+      const resume = await this.takePendingResume(stableRunId);
       // retriedFromRunId is in-memory only; refreshRunForDispatch and the
       // status updates above re-fetch from the DB and drop it. Re-attach
       // here so the runtime backend can gate retry-only behavior on it
@@ -896,12 +1240,36 @@ export class RunManager {
         },
         abortSignal: abortController.signal,
         pipelineFile: pipeline.file,
-        pipelineId: pipeline.id
+        pipelineId: pipeline.id,
+        resume
       });
       stopHeartbeat();
       this.runAbortControllers.delete(stableRunId);
       const persistedRun = await this.store.getRun(stableRunId);
 
+      if (result.approvalRequest) {
+        // Parked: processRun returns, so the runner slot is free until a
+        // reviewer decides and the run is resumed from the gate.
+        run = await this.store.updateRun(stableRunId, {
+          status: "awaiting_approval",
+          phase: "awaiting_approval",
+          changedFiles: result.changedFiles,
+          tokenUsage: chooseTokenUsage(persistedRun?.tokenUsage, result.tokenUsage),
+        });
+        currentPhase = "awaiting_approval";
+        await this.emitAndProcessCheckpoint({
+          runId: stableRunId,
+          checkpointKey: `approval_requested:${result.approvalRequest.nodeId}:${new Date().toISOString()}`,
+          checkpointType: "run.approval_requested",
+          payload: result.approvalRequest as unknown as Record<string, unknown>,
+        });
+        await upsertRunCard(`Waiting for approval at \`${result.approvalRequest.nodeId}\`.`);
+        await this.postApprovalRequest(run, result.approvalRequest);
+        logInfo("Run awaiting approval", { runId: run.id, nodeId: result.approvalRequest.nodeId });
+        this.fireStatusChangeCallbacks(run.id, "awaiting_approval", run.runtime);
+        return;
+      }
+
       await this.maybeEmitTerminalProgressCheckpoint(run, result);
 
       run = await this.store.updateRun(stableRunId, {
@@ -1021,6 +1389,52 @@ export class RunManager {
     });
   }
 
+  private async postApprovalRequest(run: RunRecord, request: ApprovalRequestPayload): Promise<void> {
+    if (!this.shouldPostToSlack(run)) {
+      return;
+    }
+    try {
+      const text = formatApprovalRequestText(run, request);
+      await this.slackClient!.chat.postMessage({
+        channel: run.channelId,
+        thread_ts: run.threadTs,
+        text,
+        blocks: [
+          { type: "section", text: { type: "mrkdwn", text } },
+          {
+            type: "actions",
+            elements: [
+              {
+                type: "button",
+                action_id: "run_approval_approve",
+                text: { type: "plain_text", text: "Approve", emoji: true },
+                style: "primary",
+                value: run.id
+              },
+              {
+                type: "button",
+                action_id: "run_approval_changes",
+                text: { type: "plain_text", text: "Request changes", emoji: true },
+                value: run.id
+              },
+              {
+                type: "button",
+                action_id: "run_approval_reject",
+                text: { type: "plain_text", text: "Reject", emoji: true },
+                style: "danger",
+                value: run.id
+              }
+            ]
+          }
+        ],
+        ...(this.config.slackCommandName ? { username: this.config.slackCommandName } : {})
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      logError("Failed to post approval request", { runId: run.id, error: message });
+    }
+  }
+
   private async postRunSummary(run: RunRecord, result?: ExecutionResult): Promise<void> {
     if (!this.shouldPostToSlack(run)) {
       return;
@@ -1292,6 +1706,15 @@ export class RunManager {
       });
     }
 
+    if (isResumableStatus(run.status) && run.runtime !== "kubernetes") {
+      actionBlock.elements?.push({
+        type: "button",
+        action_id: "run_resume",
+        text: { type: "plain_text", text: "▶️ Resume", emoji: true },
+        value: run.id
+      });
+    }
+
     if (this.config.dashboardEnabled) {
       actionBlock.elements?.push({
         type: "button",
@@ -0,0 +1,96 @@
+import { randomUUID } from "node:crypto";
+import { desc, eq, sql } from "drizzle-orm";
+import type { Database } from "../db/index.js";
+import { runFanOuts } from "../db/schema.js";
+import type { FanOutRecord, FanOutStatus, NewFanOutInput } from "./fan-out.js";
+
+type RunFanOutRow = typeof runFanOuts.$inferSelect;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function rowToRecord(row: RunFanOutRow): FanOutRecord {
+  return {
+    id: row.id,
+    task: row.task,
+    baseBranch: row.baseBranch,
+    targets: row.targets,
+    repoSlugs: row.repoSlugs,
+    concurrency: row.concurrency,
+    pipelineHint: row.pipelineHint ?? undefined,
+    skipNodes: row.skipNodes ?? undefined,
+    enableNodes: row.enableNodes ?? undefined,
+    requestedBy: row.requestedBy,
+    channelId: row.channelId,
+    threadTs: row.threadTs,
+    statusMessageTs: row.statusMessageTs ?? undefined,
+    enqueueErrors: row.enqueueErrors,
+    status: row.status as FanOutStatus,
+    createdAt: row.createdAt.toISOString(),
+    finishedAt: row.finishedAt?.toISOString(),
+  };
+}
+
+export class FanOutStore {
+  constructor(private readonly db: Database) {}
+
+  async create(input: NewFanOutInput): Promise<FanOutRecord> {
+    const rows = await this.db
+      .insert(runFanOuts)
+      .values({
+        id: randomUUID(),
+        task: input.task,
+        baseBranch: input.baseBranch,
+        targets: input.targets,
+        repoSlugs: input.repoSlugs,
+        concurrency: input.concurrency,
+        pipelineHint: input.pipelineHint,
+        skipNodes: input.skipNodes,
+        enableNodes: input.enableNodes,
+        requestedBy: input.requestedBy,
+        channelId: input.channelId,
+        threadTs: input.threadTs,
+        status: "running",
+        createdAt: new Date(),
+      })
+      .returning();
+    return rowToRecord(rows[0]!);
+  }
+
+  async get(id: string): Promise<FanOutRecord | undefined> {
+    if (!UUID_RE.test(id)) return undefined;
+    const rows = await this.db.select().from(runFanOuts).where(eq(runFanOuts.id, id)).limit(1);
+    return rows[0] ? rowToRecord(rows[0]) : undefined;
+  }
+
+  async list(limit = 50): Promise<FanOutRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(runFanOuts)
+      .orderBy(desc(runFanOuts.createdAt))
+      .limit(Math.max(1, Math.min(limit, 200)));
+    return rows.map(rowToRecord);
+  }
+
+  async listRunning(): Promise<FanOutRecord[]> {
+    const rows = await this.db.select().from(runFanOuts).where(eq(runFanOuts.status, "running"));
+    return rows.map(rowToRecord);
+  }
+
+  async setStatusMessageTs(id: string, statusMessageTs: string): Promise<void> {
+    await this.db.update(runFanOuts).set({ statusMessageTs }).where(eq(runFanOuts.id, id));
+  }
+
+  async recordEnqueueError(id: string, repoSlug: string, error: string): Promise<void> {
+    await this.db
+      .update(runFanOuts)
+      .set({ enqueueErrors: sql`${runFanOuts.enqueueErrors} || jsonb_build_object(${repoSlug}::text, ${error}::text)` })
+      .where(eq(runFanOuts.id, id));
+  }
+
+  async finish(id: string, status: Exclude<FanOutStatus, "running">): Promise<void> {
+    await this.db
+      .update(runFanOuts)
+      .set({ status, finishedAt: new Date() })
+      .where(eq(runFanOuts.id, id));
+  }
+}
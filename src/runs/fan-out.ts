@@ -0,0 +1,437 @@
+import type { Block, KnownBlock } from "@slack/types";
+import type { WebClient } from "@slack/web-api";
+import type { AppConfig } from "../config.js";
+import type { GitHubService } from "../github.js";
+import { logError, logInfo } from "../logger.js";
+import type { RunManager } from "../run-manager.js";
+import type { RunStore } from "../store.js";
+import type { RunRecord, RunStatus } from "../types.js";
+import type { FanOutStore } from "./fan-out-store.js";
+
+/**
+ * Multi-repo fan-out: one task applied to a list of repos (explicit, or a
+ * GitHub org/topic search). Each repo gets a child run through RunManager
+ * tagged with runs.fan_out_id; at most `concurrency` children are active at
+ * once. Children use the non-Slack channel "fanout" so they post no cards of
+ * their own; the fan-out keeps a single aggregate card in the requesting
+ * thread instead.
+ */
+
+export interface FanOutTargets {
+  repos?: string[];
+  org?: string;
+  topic?: string;
+}
+
+export type FanOutStatus = "running" | "completed" | "cancelled";
+
+export interface FanOutRecord {
+  id: string;
+  task: string;
+  baseBranch: string;
+  targets: FanOutTargets;
+  repoSlugs: string[];
+  concurrency: number;
+  pipelineHint?: string;
+  skipNodes?: string[];
+  enableNodes?: string[];
+  requestedBy: string;
+  channelId: string;
+  threadTs: string;
+  statusMessageTs?: string;
+  /** Repo slug → error, for repos whose child run could not be enqueued */
+  enqueueErrors?: Record<string, string>;
+  status: FanOutStatus;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export type NewFanOutInput = Omit<FanOutRecord, "id" | "statusMessageTs" | "enqueueErrors" | "status" | "createdAt" | "finishedAt">;
+
+export interface StartFanOutInput {
+  task: string;
+  targets: FanOutTargets;
+  baseBranch?: string;
+  concurrency?: number;
+  pipelineHint?: string;
+  skipNodes?: string[];
+  enableNodes?: string[];
+  requestedBy: string;
+  channelId: string;
+  threadTs: string;
+}
+
+/** A repo's slot in the fan-out: "pending" until its child run is enqueued. */
+export interface FanOutChild {
+  repoSlug: string;
+  status: RunStatus | "pending" | "skipped";
+  runId?: string;
+  prUrl?: string;
+  error?: string;
+}
+
+export interface FanOutView extends FanOutRecord {
+  children: FanOutChild[];
+  counts: Record<"pending" | "active" | "completed" | "failed" | "cancelled", number>;
+}
+
+export class FanOutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FanOutError";
+  }
+}
+
+/** Channel id stamped on child runs; not a Slack channel, so RunManager posts nothing. */
+export const FAN_OUT_CHANNEL_ID = "fanout";
+export const MAX_FAN_OUT_REPOS = 50;
+export const DEFAULT_FAN_OUT_CONCURRENCY = 3;
+export const MAX_FAN_OUT_CONCURRENCY = 10;
+
+const REPO_SLUG_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+const TERMINAL_STATUSES = new Set<string>(["completed", "failed", "cancelled"]);
+
+export type FanOutRunManager = Pick<RunManager, "enqueueRun" | "cancelRun" | "onRunStatusChange" | "onRunTerminal">;
+export type FanOutRunStore = Pick<RunStore, "listRunsForFanOut">;
+export type FanOutRecordStore = Pick<
+  FanOutStore,
+  "create" | "get" | "list" | "listRunning" | "setStatusMessageTs" | "recordEnqueueError" | "finish"
+>;
+export type FanOutRepoSearch = Pick<GitHubService, "searchRepositories">;
+export type FanOutConfig = Pick<
+  AppConfig,
+  "slackCommandName" | "repoAllowlist" | "defaultBaseBranch" | "dashboardEnabled" | "dashboardPublicUrl" | "dashboardHost" | "dashboardPort"
+>;
+
+export class FanOutManager {
+  /** Child run id → fan-out id, for the RunManager callbacks. */
+  private readonly childToFanOut = new Map<string, string>();
+  /** Per fan-out promise chain so slot filling never races itself. */
+  private readonly chains = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly config: FanOutConfig,
+    private readonly store: FanOutRecordStore,
+    private readonly runStore: FanOutRunStore,
+    private readonly runManager: FanOutRunManager,
+    private readonly repoSearch: FanOutRepoSearch | undefined,
+    private readonly slackClient: WebClient | undefined
+  ) {
+    this.runManager.onRunStatusChange((runId) => { this.handleChildChange(runId); });
+    this.runManager.onRunTerminal((runId) => { this.handleChildChange(runId); });
+  }
+
+  async start(input: StartFanOutInput): Promise<FanOutView> {
+    const task = input.task.trim();
+    if (!task) {
+      throw new FanOutError("task is required");
+    }
+    const repoSlugs = await this.resolveRepos(input.targets);
+    const record = await this.store.create({
+      task,
+      baseBranch: input.baseBranch?.trim() || this.config.defaultBaseBranch,
+      targets: input.targets,
+      repoSlugs,
+      concurrency: clampConcurrency(input.concurrency),
+      pipelineHint: input.pipelineHint,
+      skipNodes: input.skipNodes,
+      enableNodes: input.enableNodes,
+      requestedBy: input.requestedBy,
+      channelId: input.channelId,
+      threadTs: input.threadTs,
+    });
+    logInfo("Fan-out started", { fanOutId: record.id, repos: repoSlugs.length, concurrency: record.concurrency });
+    await this.advance(record.id);
+    return (await this.get(record.id))!;
+  }
+
+  async get(id: string): Promise<FanOutView | undefined> {
+    const record = await this.store.get(id);
+    if (!record) return undefined;
+    return buildView(record, await this.runStore.listRunsForFanOut(id));
+  }
+
+  async list(limit?: number): Promise<FanOutView[]> {
+    const records = await this.store.list(limit);
+    return Promise.all(records.map(async (record) => buildView(record, await this.runStore.listRunsForFanOut(record.id))));
+  }
+
+  /** Stop launching children and cancel the ones still active. */
+  async cancel(id: string): Promise<FanOutView | undefined> {
+    const record = await this.store.get(id);
+    if (!record) return undefined;
+    if (record.status === "running") {
+      await this.store.finish(id, "cancelled");
+      const children = await this.runStore.listRunsForFanOut(id);
+      for (const child of children) {
+        if (!TERMINAL_STATUSES.has(child.status)) {
+          await this.runManager.cancelRun(child.id);
+        }
+      }
+      await this.enqueue(id, () => this.refreshCard(id));
+    }
+    return this.get(id);
+  }
+
+  /** Re-attach to fan-outs that were running before a restart. */
+  async recover(): Promise<void> {
+    const running = await this.store.listRunning();
+    for (const record of running) {
+      await this.advance(record.id);
+    }
+    if (running.length > 0) {
+      logInfo("Recovered running fan-outs", { count: running.length });
+    }
+  }
+
+  private handleChildChange(runId: string): void {
+    const fanOutId = this.childToFanOut.get(runId);
+    if (!fanOutId) return;
+    this.advance(fanOutId).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : "unknown";
+      logError("Failed to advance fan-out", { fanOutId, runId, error: message });
+    });
+  }
+
+  private advance(id: string): Promise<void> {
+    return this.enqueue(id, async () => {
+      await this.fillSlots(id);
+      await this.refreshCard(id);
+    });
+  }
+
+  private enqueue(id: string, work: () => Promise<void>): Promise<void> {
+    const next = (this.chains.get(id) ?? Promise.resolve()).then(work);
+    const settled = next.catch(() => undefined);
+    this.chains.set(id, settled);
+    void settled.then(() => {
+      if (this.chains.get(id) === settled) this.chains.delete(id);
+    });
+    return next;
+  }
+
+  private async fillSlots(id: string): Promise<void> {
+    const record = await this.store.get(id);
+    if (!record || record.status !== "running") return;
+
+    const children = await this.runStore.listRunsForFanOut(id);
+    for (const child of children) {
+      if (TERMINAL_STATUSES.has(child.status)) {
+        this.childToFanOut.delete(child.id);
+      } else {
+        this.childToFanOut.set(child.id, id);
+      }
+    }
+
+    const started = new Set(children.map((child) => child.repoSlug));
+    const enqueueErrors = record.enqueueErrors ?? {};
+    const pending = record.repoSlugs.filter((repoSlug) => !started.has(repoSlug) && enqueueErrors[repoSlug] === undefined);
+    let active = children.filter((child) => !TERMINAL_STATUSES.has(child.status)).length;
+
+    for (const repoSlug of pending) {
+      if (active >= record.concurrency) break;
+      let run: RunRecord;
+      try {
+        run = await this.runManager.enqueueRun({
+          repoSlug,
+          task: record.task,
+          baseBranch: record.baseBranch,
+          requestedBy: record.requestedBy,
+          channelId: FAN_OUT_CHANNEL_ID,
+          threadTs: record.id,
+          pipelineHint: record.pipelineHint,
+          skipNodes: record.skipNodes,
+          enableNodes: record.enableNodes,
+          fanOutId: record.id,
+        });
+      } catch (error) {
+        // Record the repo as failed and keep filling: one bad repo must not stall the rest
+        const message = error instanceof Error ? error.message : "unknown";
+        logError("Failed to enqueue fan-out child", { fanOutId: id, repoSlug, error: message });
+        await this.store.recordEnqueueError(id, repoSlug, message);
+        continue;
+      }
+      this.childToFanOut.set(run.id, id);
+      active++;
+    }
+
+    // The loop only stops early while children are active, so none active means every repo was handled
+    if (active === 0) {
+      await this.store.finish(id, "completed");
+      logInfo("Fan-out completed", { fanOutId: id });
+    }
+  }
+
+  private async refreshCard(id: string): Promise<void> {
+    if (!this.slackClient) return;
+    const view = await this.get(id);
+    if (!view || !isSlackChannelId(view.channelId)) return;
+    try {
+      const text = formatFanOutText(view, this.config.slackCommandName);
+      const blocks = formatFanOutBlocks(view, this.config.slackCommandName, this.dashboardUrl());
+      if (view.statusMessageTs) {
+        await this.slackClient.chat.update({ channel: view.channelId, ts: view.statusMessageTs, text, blocks });
+        return;
+      }
+      const response = await this.slackClient.chat.postMessage({
+        channel: view.channelId,
+        thread_ts: view.threadTs,
+        text,
+        blocks,
+        ...(this.config.slackCommandName ? { username: this.config.slackCommandName } : {})
+      });
+      if (response.ts) {
+        await this.store.setStatusMessageTs(id, response.ts);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown";
+      logError("Failed to post fan-out status card", { fanOutId: id, error: message });
+    }
+  }
+
+  private async resolveRepos(targets: FanOutTargets): Promise<string[]> {
+    const allowlist = this.config.repoAllowlist;
+    if (targets.repos && targets.repos.length > 0) {
+      const repoSlugs = [...new Set(targets.repos.map((repo) => repo.trim()).filter(Boolean))];
+      const invalid = repoSlugs.filter((repo) => !REPO_SLUG_PATTERN.test(repo));
+      if (invalid.length > 0) {
+        throw new FanOutError(`Invalid repo slug(s): ${invalid.join(", ")} (expected owner/repo)`);
+      }
+      const disallowed = allowlist.length > 0 ? repoSlugs.filter((repo) => !allowlist.includes(repo)) : [];
+      if (disallowed.length > 0) {
+        throw new FanOutError(`Repo(s) not in the allowlist: ${disallowed.join(", ")}`);
+      }
+      if (repoSlugs.length > MAX_FAN_OUT_REPOS) {
+        throw new FanOutError(`A fan-out is limited to ${String(MAX_FAN_OUT_REPOS)} repos (got ${String(repoSlugs.length)})`);
+      }
+      return repoSlugs;
+    }
+
+    if (!targets.org && !targets.topic) {
+      throw new FanOutError("targets needs repos, an org or a topic");
+    }
+    if (!this.repoSearch) {
+      throw new FanOutError("Org/topic targets need GitHub to be configured");
+    }
+    const found = await this.repoSearch.searchRepositories({ org: targets.org, topic: targets.topic }, MAX_FAN_OUT_REPOS);
+    const repoSlugs = found
+      .map((repo) => repo.fullName)
+      .filter((repo) => allowlist.length === 0 || allowlist.includes(repo));
+    if (repoSlugs.length === 0) {
+      throw new FanOutError(`No allowed repos match ${describeTargets(targets)}`);
+    }
+    return repoSlugs;
+  }
+
+  private dashboardUrl(): string | undefined {
+    if (!this.config.dashboardEnabled) return undefined;
+    return this.config.dashboardPublicUrl ?? `http://${this.config.dashboardHost}:${String(this.config.dashboardPort)}`;
+  }
+}
+
+function isSlackChannelId(channelId: string): boolean {
+  return /^[CGD][A-Z0-9]+$/.test(channelId);
+}
+
+function clampConcurrency(value: number | undefined): number {
+  if (value === undefined || !Number.isFinite(value)) return DEFAULT_FAN_OUT_CONCURRENCY;
+  return Math.min(MAX_FAN_OUT_CONCURRENCY, Math.max(1, Math.floor(value)));
+}
+
+export function describeTargets(targets: FanOutTargets): string {
+  if (targets.repos && targets.repos.length > 0) {
+    return targets.repos.length === 1 ? targets.repos[0]! : `${String(targets.repos.length)} repos`;
+  }
+  return [targets.org ? `org:${targets.org}` : "", targets.topic ? `topic:${targets.topic}` : ""].filter(Boolean).join(" ");
+}
+
+/** Merge the planned repo list with the child runs enqueued so far. */
+export function buildView(record: FanOutRecord, runs: RunRecord[]): FanOutView {
+  const byRepo = new Map<string, RunRecord>();
+  for (const run of runs) {
+    byRepo.set(run.repoSlug, run);
+  }
+  const children: FanOutChild[] = record.repoSlugs.map((repoSlug) => {
+    const run = byRepo.get(repoSlug);
+    const enqueueError = record.enqueueErrors?.[repoSlug];
+    if (!run && enqueueError !== undefined) {
+      return { repoSlug, status: "failed", error: enqueueError };
+    }
+    if (!run) {
+      return { repoSlug, status: record.status === "running" ? "pending" : "skipped" };
+    }
+    return { repoSlug, status: run.status, runId: run.id, prUrl: run.prUrl, error: run.error };
+  });
+  const counts: FanOutView["counts"] = { pending: 0, active: 0, completed: 0, failed: 0, cancelled: 0 };
+  for (const child of children) {
+    if (child.status === "pending") counts.pending++;
+    else if (child.status === "completed") counts.completed++;
+    else if (child.status === "failed") counts.failed++;
+    else if (child.status === "cancelled" || child.status === "skipped") counts.cancelled++;
+    else counts.active++;
+  }
+  return { ...record, children, counts };
+}
+
+function childEmoji(status: FanOutChild["status"]): string {
+  if (status === "pending") return "⏳";
+  if (status === "completed") return "✅";
+  if (status === "failed") return "❌";
+  if (status === "cancelled" || status === "cancel_requested" || status === "skipped") return "🛑";
+  return "🤖";
+}
+
+function childLine(child: FanOutChild): string {
+  const outcome = child.prUrl
+    ? `<${child.prUrl}|PR>`
+    : child.status === "failed" && child.error
+      ? `failed: ${child.error.length > 80 ? child.error.slice(0, 80) + "..." : child.error}`
+      : child.status.replace(/_/g, " ");
+  return `${childEmoji(child.status)} \`${child.repoSlug}\` — ${outcome}`;
+}
+
+function fanOutHeadline(view: FanOutView, commandName: string): string {
+  const done = view.counts.completed + view.counts.failed + view.counts.cancelled;
+  const icon = view.status === "running" ? "🤖" : view.status === "cancelled" ? "🛑" : view.counts.failed > 0 ? "⚠️" : "✅";
+  return `${icon} *${commandName} • fan-out across ${String(view.children.length)} repos* (${String(done)}/${String(view.children.length)} done)`;
+}
+
+export function formatFanOutText(view: FanOutView, commandName: string): string {
+  return [fanOutHeadline(view, commandName), ...view.children.map(childLine)].join("\n");
+}
+
+export function formatFanOutBlocks(view: FanOutView, commandName: string, dashboardUrl?: string): Array<KnownBlock | Block> {
+  const taskPreview = view.task.length > 200 ? view.task.slice(0, 200) + "..." : view.task;
+  const blocks: Array<KnownBlock | Block> = [
+    { type: "section", text: { type: "mrkdwn", text: fanOutHeadline(view, commandName) } },
+    { type: "context", elements: [{ type: "mrkdwn", text: `> ${taskPreview.split("\n").join("\n> ")}` }] },
+  ];
+  // Section text is capped at 3000 chars; 20 repo lines stay well under it.
+  const lines = view.children.map(childLine);
+  for (let i = 0; i < lines.length; i += 20) {
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: lines.slice(i, i + 20).join("\n") } });
+  }
+  const summary = [
+    view.counts.completed ? `${String(view.counts.completed)} completed` : "",
+    view.counts.failed ? `${String(view.counts.failed)} failed` : "",
+    view.counts.active ? `${String(view.counts.active)} running` : "",
+    view.counts.pending ? `${String(view.counts.pending)} pending` : "",
+    view.counts.cancelled ? `${String(view.counts.cancelled)} cancelled` : "",
+  ].filter(Boolean).join(" • ");
+  blocks.push({
+    type: "context",
+    elements: [{ type: "mrkdwn", text: `${summary || "Starting"} • up to ${String(view.concurrency)} at a time • base \`${view.baseBranch}\`` }],
+  });
+  if (dashboardUrl) {
+    blocks.push({
+      type: "actions",
+      elements: [{
+        type: "button",
+        text: { type: "plain_text", text: "Open Dashboard", emoji: true },
+        url: dashboardUrl,
+        value: view.id,
+      }],
+    });
+  }
+  return blocks;
+}
@@ -92,6 +92,15 @@ export class RunCheckpointStore {
     return rows.length > 0;
   }
 
+  async listOfType(runId: string, checkpointType: RunCheckpointType): Promise<RunCheckpointRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(runCheckpoints)
+      .where(and(eq(runCheckpoints.runId, runId), eq(runCheckpoints.checkpointType, checkpointType)))
+      .orderBy(asc(runCheckpoints.emittedAt));
+    return rows.map(rowToRecord);
+  }
+
   async listUnprocessed(limit = 500): Promise<RunCheckpointRecord[]> {
     const rows = await this.db
       .select()
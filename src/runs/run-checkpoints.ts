@@ -4,7 +4,13 @@ export type RunCheckpointType =
   | "run.waiting_external_ci"
   | "run.completed_without_external_wait"
   | "run.ci_concluded"
-  | "run.ci_triage_decided";
+  | "run.ci_triage_decided"
+  | "run.pipeline_snapshot"
+  | "run.approval_requested"
+  | "run.approval_decided"
+  | "run.resume_requested"
+  | "run.resume_started"
+  | "run.commit_pushed";
 
 export type FeatureDeliveryProgressCheckpointType =
   | "run.waiting_external_ci"
@@ -20,6 +26,72 @@ export interface CiTriageCheckpointPayload {
   failedJobIds?: number[];
 }
 
+/**
+ * Resumable pipeline state, emitted just before a node starts. Resuming from
+ * `nextNodeId` restores `context` and `nodeResults` and re-runs that node.
+ * With `baseCheckpointKey` set, `context` and `nodeResults` hold only what
+ * changed since that snapshot; see resolvePipelineSnapshot.
+ */
+export interface PipelineSnapshotPayload {
+  pipelineId: string;
+  nextNodeId: string;
+  completedSteps: Array<{ nodeId: string; outcome: string }>;
+  context: Record<string, unknown>;
+  nodeResults: Record<string, Record<string, unknown>>;
+  baseCheckpointKey?: string;
+  removedContextKeys?: string[];
+  /** Node ids skipped so far, including `_skipNodes` from decision nodes. */
+  skipNodeIds?: string[];
+}
+
+/** A snapshot with its delta chain folded into full state. */
+export interface ResolvedPipelineSnapshot {
+  checkpointKey: string;
+  nextNodeId: string;
+  context: Record<string, unknown>;
+  nodeResults: Record<string, Record<string, unknown>>;
+  skipNodeIds: string[];
+}
+
+/**
+ * Asks processRun to restart the run from a snapshot. Persisted so a queued
+ * resume survives an orchestrator restart; `context` overlays the snapshot.
+ */
+export interface ResumeRequestPayload {
+  fromNodeId: string;
+  snapshotCheckpointKey: string;
+  requestedBy: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * What an `approval_gate` node shows the reviewer. Emitted when the run is
+ * parked as `awaiting_approval`; the latest one is the open request.
+ */
+export interface ApprovalRequestPayload {
+  nodeId: string;
+  changedFiles: string[];
+  diffStats?: { linesAdded: number; linesRemoved: number; filesChanged: number };
+  gateReport: Array<{ gate: string; verdict: string; reasons: string[] }>;
+  /** Node re-run when the reviewer requests changes. */
+  loopBackTo: string;
+}
+
+export type ApprovalDecision = "approved" | "rejected" | "changes_requested";
+
+export interface ApprovalDecisionPayload {
+  nodeId: string;
+  decision: ApprovalDecision;
+  note?: string;
+  decidedBy: string;
+}
+
+/** A commit the run pushed to its branch; one per SHA, so repeat pushes by fix loops are all kept. */
+export interface CommitPushedPayload {
+  nodeId: string;
+  commitSha: string;
+}
+
 export interface RunCheckpointPayload {
   runId: string;
   checkpointKey: string;
@@ -42,7 +114,13 @@ export function isRunCheckpointType(value: string): value is RunCheckpointType {
     value === "run.waiting_external_ci" ||
     value === "run.completed_without_external_wait" ||
     value === "run.ci_concluded" ||
-    value === "run.ci_triage_decided"
+    value === "run.ci_triage_decided" ||
+    value === "run.pipeline_snapshot" ||
+    value === "run.approval_requested" ||
+    value === "run.approval_decided" ||
+    value === "run.resume_requested" ||
+    value === "run.resume_started" ||
+    value === "run.commit_pushed"
   );
 }
 
@@ -56,6 +134,74 @@ export function isCiTriageCheckpointType(type: string): type is "run.ci_triage_d
   return type === "run.ci_triage_decided";
 }
 
+export function isPipelineSnapshotCheckpointType(type: string): type is "run.pipeline_snapshot" {
+  return type === "run.pipeline_snapshot";
+}
+
+export function isPipelineSnapshotPayload(value: unknown): value is PipelineSnapshotPayload {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.pipelineId === "string"
+    && typeof candidate.nextNodeId === "string"
+    && Array.isArray(candidate.completedSteps)
+    && !!candidate.context && typeof candidate.context === "object"
+    && !!candidate.nodeResults && typeof candidate.nodeResults === "object";
+}
+
+/**
+ * Rebuild the full state of snapshot `checkpointKey` by applying its deltas
+ * on top of the nearest full snapshot. Undefined when a link is missing.
+ */
+export function resolvePipelineSnapshot(
+  snapshots: Array<Pick<RunCheckpointRecord, "checkpointKey" | "payload">>,
+  checkpointKey: string,
+): ResolvedPipelineSnapshot | undefined {
+  const byKey = new Map<string, PipelineSnapshotPayload>();
+  for (const snapshot of snapshots) {
+    if (isPipelineSnapshotPayload(snapshot.payload)) byKey.set(snapshot.checkpointKey, snapshot.payload);
+  }
+
+  const chain: PipelineSnapshotPayload[] = [];
+  let key: string | undefined = checkpointKey;
+  while (key !== undefined) {
+    const payload = byKey.get(key);
+    if (!payload || chain.length === byKey.size) return undefined;
+    chain.unshift(payload);
+    key = payload.baseCheckpointKey;
+  }
+
+  const context: Record<string, unknown> = {};
+  const nodeResults: Record<string, Record<string, unknown>> = {};
+  for (const payload of chain) {
+    for (const removed of payload.removedContextKeys ?? []) delete context[removed];
+    Object.assign(context, payload.context);
+    Object.assign(nodeResults, payload.nodeResults);
+  }
+  const latest = chain[chain.length - 1]!;
+  return { checkpointKey, nextNodeId: latest.nextNodeId, context, nodeResults, skipNodeIds: latest.skipNodeIds ?? [] };
+}
+
+export function isResumeRequestPayload(value: unknown): value is ResumeRequestPayload {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.fromNodeId === "string"
+    && typeof candidate.snapshotCheckpointKey === "string"
+    && typeof candidate.requestedBy === "string";
+}
+
+export function isApprovalRequestPayload(value: unknown): value is ApprovalRequestPayload {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.nodeId === "string"
+    && typeof candidate.loopBackTo === "string"
+    && Array.isArray(candidate.changedFiles)
+    && Array.isArray(candidate.gateReport);
+}
+
+export function isApprovalDecision(value: unknown): value is ApprovalDecision {
+  return value === "approved" || value === "rejected" || value === "changes_requested";
+}
+
 export function isCiTriageVerdict(value: unknown): value is CiTriageVerdict {
   return value === "fix_needed" || value === "rerun";
 }
@@ -2,6 +2,7 @@ import type { ExecutionResult, RunRecord } from "../types.js";
 import type { TokenUsageIncrement } from "../types.js";
 import type { PipelinePhase } from "../pipeline/pipeline-engine.js";
 import type { EmitRunCheckpointInput } from "../runs/run-checkpoint-store.js";
+import type { PipelineResumeState } from "../pipeline/types.js";
 
 export interface RunExecutionContext {
   onPhase: (phase: PipelinePhase) => Promise<void>;
@@ -11,6 +12,8 @@ export interface RunExecutionContext {
   abortSignal?: AbortSignal;
   pipelineFile?: string;
   pipelineId?: string;
+  /** Restart from a pipeline snapshot instead of the first node (in-process runtimes only). */
+  resume?: PipelineResumeState;
 }
 
 export interface RunExecutionBackend<Runtime extends RunRecord["runtime"] = RunRecord["runtime"]> {
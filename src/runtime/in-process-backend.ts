@@ -20,6 +20,7 @@ export class InProcessExecutionBackend<Runtime extends "local" | "docker"> imple
       ctx.abortSignal,
       ctx.recordTokenUsage,
       ctx.onCheckpoint,
+      ctx.resume,
     );
   }
 }
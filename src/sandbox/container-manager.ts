@@ -95,6 +95,8 @@ export class ContainerManager {
       cwd?: string;
       login?: boolean;
       timeoutMs?: number;
+      /** Kill the command when this aborts (node timeout or run cancellation). */
+      signal?: AbortSignal;
       onStdout?: (chunk: string) => void;
       onStderr?: (chunk: string) => void;
     } = {}
@@ -184,6 +186,16 @@ export class ContainerManager {
             killAndResolve("timeout: command exceeded limit, killed", rawStream, stdout, stderr);
           }, opts.timeoutMs);
         }
+        if (opts.signal) {
+          const signal = opts.signal;
+          const onAbort = () => { killAndResolve("aborted: command killed", rawStream, stdout, stderr); };
+          if (signal.aborted) {
+            onAbort();
+          } else {
+            signal.addEventListener("abort", onAbort, { once: true });
+            rawStream.on("close", () => signal.removeEventListener("abort", onAbort));
+          }
+        }
       });
     });
   }
@@ -4,6 +4,7 @@ import { resolveTeamFromChannel, type AppConfig } from "./config.js";
 import { logInfo } from "./logger.js";
 import { RunManager } from "./run-manager.js";
 import type { ObserverDaemon } from "./observer/index.js";
+import { slackEscalationActor, type EscalationActionResult } from "./observer/escalation-inbox.js";
 import { parseSlackAlert, type SlackChannelAdapterConfig, type SlackMessageEvent } from "./slack-alert-adapter.js";
 import { handleMessage } from "./orchestrator/orchestrator.js";
 import { buildSystemContext } from "./orchestrator/system-context.js";
@@ -17,6 +18,8 @@ import type { GitHubService } from "./github.js";
 import { parseWorkItemSlackActionValue } from "./slack-review-actions.js";
 import { shouldIgnoreAppMention } from "./slack/app-mention-guard.js";
 import type { ReviewRequestRecord } from "./work-items/types.js";
+import { describeTargets, type FanOutManager } from "./runs/fan-out.js";
+import type { ApprovalDecision } from "./runs/run-checkpoints.js";
 
 function isChannelAllowed(channelId: string, channelAllowlist: string[]): boolean {
   if (channelAllowlist.length === 0) {
@@ -54,14 +57,20 @@ export function isCasualMessage(text: string): boolean {
   if (!cleaned) return true;
   if (CASUAL_PATTERNS.test(cleaned)) return true;
   // Short messages without action verbs are likely casual
-  if (cleaned.length < 15 && !/\b(add|fix|change|update|remove|move|rename|refactor|implement|create|delete|use|try|make|set|wrap|lint|test|run|split|merge|revert|undo|convert|enable|disable|what|how|why|where|when|who|which|help|status|tail|list|show|tell|explain|describe|check|retry|rerun)\b/i.test(cleaned)) {
+  if (cleaned.length < 15 && !/\b(add|fix|change|update|remove|move|rename|refactor|implement|create|delete|use|try|make|set|wrap|lint|test|run|split|merge|revert|undo|convert|enable|disable|what|how|why|where|when|who|which|help|status|tail|list|show|tell|explain|describe|check|retry|rerun|resume)\b/i.test(cleaned)) {
     return true;
   }
   return false;
 }
 
-/** Fast-path checks for help/status/tail. Returns the type or null for non-matches. */
-function detectFastPath(text: string): { type: "help" } | { type: "status"; runId?: string } | { type: "tail"; runId?: string } | null {
+type FastPath =
+  | { type: "help" }
+  | { type: "status"; runId?: string }
+  | { type: "tail"; runId?: string }
+  | { type: "resume"; runId?: string; fromNode?: string };
+
+/** Fast-path checks for help/status/tail/resume. Returns the type or null for non-matches. */
+function detectFastPath(text: string): FastPath | null {
   const normalized = stripMentions(text).trim();
   if (!normalized || normalized.toLowerCase() === "help") {
     return { type: "help" };
@@ -80,6 +89,11 @@ function detectFastPath(text: string): { type: "help" } | { type: "status"; runI
     const runId = normalized.slice("tail ".length).trim();
     return { type: "tail", runId: runId || undefined };
   }
+  // resume | resume <run-id> | resume from <node> | resume <run-id> from <node>
+  const resume = /^resume(?:\s+(?!from\b)(\S+))?(?:\s+from\s+([\w.-]+))?$/i.exec(normalized);
+  if (resume) {
+    return { type: "resume", runId: resume[1], fromNode: resume[2] };
+  }
   return null;
 }
 
@@ -279,6 +293,7 @@ export function buildHelpBlocks(config: AppConfig): Array<Record<string, unknown
           `\`${botCommand(config, "status <run-id>")}\` — specific run status`,
           `\`${botCommand(config, "tail")}\` — latest logs`,
           `\`${botCommand(config, "tail <run-id>")}\` — specific run logs`,
+          `\`${botCommand(config, "resume [<run-id>] [from <node>]")}\` — resume a failed run from its last node`,
           `\`${botCommand(config, "help")}\` — this help text`
         ].join("\n")
       }
@@ -321,7 +336,10 @@ export async function startSlackApp(
       authorUserId?: string;
       comment?: string;
     }): Promise<unknown>;
-  }
+    /** Hand an assigned request to another reviewer; resolves to the new assignees' names */
+    reassignReviewRequest(input: { reviewRequestId: string; slackUserId: string }): Promise<string[]>;
+  },
+  fanOutManager?: Pick<FanOutManager, "start">
 ): Promise<void> {
   const app = new App({
     token: config.slackBotToken,
@@ -488,6 +506,50 @@ export async function startSlackApp(
     logInfo("Observer approval rejected", { rejectedBy: userId });
   });
 
+  async function handleEscalationAction(
+    body: unknown,
+    client: { chat: { postEphemeral(args: { channel: string; user: string; text: string }): Promise<unknown> } },
+    act: (escalationId: string, actor: string) => Promise<EscalationActionResult>,
+    successText: (result: Extract<EscalationActionResult, { ok: true }>) => string
+  ): Promise<void> {
+    const action = (body as { actions?: Array<{ value?: string }> }).actions?.[0];
+    const userId = (body as { user?: { id?: string } }).user?.id;
+    const containerChannelId = (body as { container?: { channel_id?: string } }).container?.channel_id;
+    if (!action?.value || !userId || !containerChannelId) {
+      return;
+    }
+    if (!observer) {
+      await client.chat.postEphemeral({ channel: containerChannelId, user: userId, text: "Observer is not running." });
+      return;
+    }
+    const result = await act(action.value, slackEscalationActor(userId));
+    await client.chat.postEphemeral({
+      channel: containerChannelId,
+      user: userId,
+      text: result.ok ? successText(result) : result.error
+    });
+  }
+
+  app.action("observer_escalation_ack", async ({ ack, body, client }) => {
+    await ack();
+    await handleEscalationAction(body, client, (id, actor) => observer!.acknowledgeEscalation(id, actor),
+      () => "Escalation acknowledged.");
+  });
+
+  app.action("observer_escalation_convert", async ({ ack, body, client }) => {
+    await ack();
+    await handleEscalationAction(body, client, (id, actor) => observer!.convertEscalation(id, actor),
+      (result) => result.run
+        ? `Queued run for *${result.run.repoSlug}* (${shortRunId(result.run.id)}).`
+        : "Escalation converted.");
+  });
+
+  app.action("observer_escalation_dismiss", async ({ ack, body, client }) => {
+    await ack();
+    await handleEscalationAction(body, client, (id, actor) => observer!.dismissEscalation(id, actor),
+      () => "Escalation dismissed.");
+  });
+
   app.action("run_retry", async ({ ack, body, client }) => {
     await ack();
     const action = (body as { actions?: Array<{ value?: string }> }).actions?.[0];
@@ -527,6 +589,133 @@ export async function startSlackApp(
     });
   });
 
+  app.action("run_resume", async ({ ack, body, client }) => {
+    await ack();
+    const action = (body as { actions?: Array<{ value?: string }> }).actions?.[0];
+    const runId = action?.value;
+    const userId = (body as { user?: { id?: string } }).user?.id;
+    const containerChannelId = (body as { container?: { channel_id?: string } }).container?.channel_id;
+
+    if (!runId || !userId || !containerChannelId) {
+      return;
+    }
+
+    const resumed = await runManager.resumeRun(runId, userId);
+    if (!resumed.ok) {
+      await client.chat.postEphemeral({
+        channel: containerChannelId,
+        user: userId,
+        text: `Could not resume this run: ${resumed.error}`
+      });
+      return;
+    }
+
+    await client.chat.postMessage({
+      channel: resumed.run.channelId,
+      thread_ts: resumed.run.threadTs,
+      text: `Resuming run ${shortRunId(resumed.run.id)} from \`${resumed.fromNodeId}\`.`,
+      ...usernameOpt
+    });
+  });
+
+  // ── Approval gate: Approve / Reject / Request changes ──
+  const approvalDecisionText: Record<ApprovalDecision, string> = {
+    approved: "approved",
+    rejected: "rejected",
+    changes_requested: "requested changes on"
+  };
+
+  async function decideRunApproval(
+    client: WebClient,
+    runId: string,
+    userId: string,
+    containerChannelId: string,
+    decision: ApprovalDecision,
+    note?: string
+  ): Promise<void> {
+    const decided = await runManager.decideApproval(runId, decision, userId, note);
+    if (!decided.ok) {
+      await client.chat.postEphemeral({
+        channel: containerChannelId,
+        user: userId,
+        text: `Could not record the decision: ${decided.error}`
+      });
+      return;
+    }
+
+    await client.chat.postMessage({
+      channel: decided.run.channelId,
+      thread_ts: decided.run.threadTs,
+      text: `<@${userId}> ${approvalDecisionText[decision]} run ${shortRunId(decided.run.id)}${note ? `:\n> ${note}` : "."}`,
+      ...usernameOpt
+    });
+  }
+
+  for (const [actionId, decision] of [["run_approval_approve", "approved"], ["run_approval_reject", "rejected"]] as const) {
+    app.action(actionId, async ({ ack, body, client }) => {
+      await ack();
+      const action = (body as { actions?: Array<{ value?: string }> }).actions?.[0];
+      const runId = action?.value;
+      const userId = (body as { user?: { id?: string } }).user?.id;
+      const containerChannelId = (body as { container?: { channel_id?: string } }).container?.channel_id;
+
+      if (!runId || !userId || !containerChannelId) {
+        return;
+      }
+
+      await decideRunApproval(client, runId, userId, containerChannelId, decision);
+    });
+  }
+
+  app.action("run_approval_changes", async ({ ack, body, client }) => {
+    await ack();
+    const action = (body as { actions?: Array<{ value?: string }> }).actions?.[0];
+    const runId = action?.value;
+    const triggerId = (body as { trigger_id?: string }).trigger_id;
+    const containerChannelId = (body as { container?: { channel_id?: string } }).container?.channel_id;
+
+    if (!runId || !triggerId || !containerChannelId) {
+      return;
+    }
+
+    // The reviewer's note goes back to the agent, so collect it in a modal
+    await client.views.open({
+      trigger_id: triggerId,
+      view: {
+        type: "modal",
+        callback_id: "run_approval_changes_modal",
+        private_metadata: JSON.stringify({ runId, channelId: containerChannelId }),
+        title: { type: "plain_text", text: "Request changes" },
+        submit: { type: "plain_text", text: "Send back" },
+        close: { type: "plain_text", text: "Cancel" },
+        blocks: [
+          {
+            type: "input",
+            block_id: "note",
+            label: { type: "plain_text", text: "What should change?" },
+            element: { type: "plain_text_input", action_id: "value", multiline: true }
+          }
+        ]
+      }
+    });
+  });
+
+  app.view("run_approval_changes_modal", async ({ ack, body, view, client }) => {
+    await ack();
+    let metadata: { runId?: string; channelId?: string } = {};
+    try {
+      metadata = JSON.parse(view.private_metadata) as { runId?: string; channelId?: string };
+    } catch {
+      return;
+    }
+    const note = view.state.values["note"]?.["value"]?.value ?? undefined;
+    if (!metadata.runId || !metadata.channelId) {
+      return;
+    }
+
+    await decideRunApproval(client, metadata.runId, body.user.id, metadata.channelId, "changes_requested", note);
+  });
+
   app.action("work_item_review_approve", async ({ ack, body, client }) => {
     await ack();
     const action = (body as { actions?: Array<{ value?: string }> }).actions?.[0];
@@ -607,6 +796,44 @@ export async function startSlackApp(
     }
   });
 
+  app.action("work_item_review_reassign", async ({ ack, body, client }) => {
+    await ack();
+    const action = (body as { actions?: Array<{ value?: string }> }).actions?.[0];
+    const payload = parseWorkItemSlackActionValue(action?.value);
+    const userId = (body as { user?: { id?: string } }).user?.id;
+    const containerChannelId = (body as { container?: { channel_id?: string } }).container?.channel_id;
+
+    if (!payload || !userId || !containerChannelId || !workItems) {
+      return;
+    }
+
+    try {
+      const assignees = await workItems.reassignReviewRequest({
+        reviewRequestId: payload.reviewRequestId,
+        slackUserId: userId,
+      });
+
+      await client.chat.postMessage({
+        channel: payload.homeChannelId,
+        thread_ts: payload.homeThreadTs,
+        text: `<@${userId}> reassigned *${payload.requestTitle}* — now with ${assignees.join(", ")}.`,
+        ...usernameOpt,
+      });
+
+      await client.chat.postEphemeral({
+        channel: containerChannelId,
+        user: userId,
+        text: `Reassigned ${payload.requestTitle}.`,
+      });
+    } catch (error) {
+      await client.chat.postEphemeral({
+        channel: containerChannelId,
+        user: userId,
+        text: error instanceof Error ? error.message : "Failed to reassign review.",
+      });
+    }
+  });
+
   // ── Observer: Slack channel alert watcher ──────────────────────
   if (observer && config.observerSlackWatchedChannels.length > 0) {
     const adapterConfig: SlackChannelAdapterConfig = {
@@ -701,6 +928,22 @@ export async function startSlackApp(
         await sayAs(say, { thread_ts: replyThreadTs, text: tail });
         return;
       }
+      if (fastPath.type === "resume") {
+        const target = fastPath.runId
+          ?? (event.thread_ts ? (await runManager.getLatestRunForThread(event.channel, event.thread_ts))?.id : undefined);
+        if (!target) {
+          await sayAs(say, { thread_ts: replyThreadTs, text: "No run to resume in this thread. Pass a run id: `resume <run-id>`." });
+          return;
+        }
+        const resumed = await runManager.resumeRun(target, event.user ?? "slack", fastPath.fromNode);
+        await sayAs(say, {
+          thread_ts: replyThreadTs,
+          text: resumed.ok
+            ? `Resuming run ${shortRunId(resumed.run.id)} from \`${resumed.fromNodeId}\`.`
+            : `Could not resume: ${resumed.error}`
+        });
+        return;
+      }
     }
 
     // ── Casual pre-filter (no LLM) ──
@@ -848,7 +1091,23 @@ export async function startSlackApp(
           },
         });
         return { id: promoted.id, branchName: promoted.branchName, repoSlug: promoted.repoSlug };
-      }
+      },
+      ...(fanOutManager ? {
+        startFanOut: async (targets, task, opts) => {
+          const fanOut = await fanOutManager.start({
+            task,
+            targets,
+            baseBranch: opts.baseBranch,
+            concurrency: opts.concurrency,
+            requestedBy: event.user!,
+            channelId: event.channel,
+            threadTs: replyThreadTs,
+          });
+          return `Multi-repo run started for ${describeTargets(targets)}. ID: ${fanOut.id.slice(0, 8)}, ` +
+            `${String(fanOut.children.length)} repos (${fanOut.children.map((child) => child.repoSlug).join(", ")}), ` +
+            `up to ${String(fanOut.concurrency)} at a time. Progress is posted on a status card in this thread.`;
+        }
+      } : {})
     };
 
     // Post a "thinking" indicator that we'll update with progress
@@ -859,6 +1118,7 @@ export async function startSlackApp(
       list_files: "Browsing files",
       search_memory: "Searching memory",
       execute_task: "Queuing run",
+      execute_multi_repo_task: "Queuing multi-repo run",
       list_runs: "Checking runs",
       get_config: "Loading config"
     };
@@ -1,8 +1,8 @@
 import { randomUUID } from "node:crypto";
-import { eq, desc, and, sql, inArray, ne, getTableColumns } from "drizzle-orm";
+import { eq, desc, and, sql, inArray, isNotNull, ne, getTableColumns } from "drizzle-orm";
 import type { NewRunInput, RunFeedback, RunRecord, RunStatus, TokenUsage, TokenUsageIncrement } from "./types.js";
 import type { Database } from "./db/index.js";
-import { modelPrices, runs, workItems } from "./db/schema.js";
+import { modelPrices, runCheckpoints, runs, workItems } from "./db/schema.js";
 import { deriveRunIntentFromLegacy, isRunIntent, type RunIntent } from "./runs/run-intent.js";
 import { MODEL_PRICES } from "./llm/model-prices.js";
 
@@ -92,6 +92,8 @@ function rowToRecord(row: RunQueryRow): RunRecord {
     parentBranchName: row.parentBranchName ?? undefined,
     feedbackNote: row.feedbackNote ?? undefined,
     pipelineHint: row.pipelineHint ?? undefined,
+    pipelineRevisionId: row.pipelineRevisionId ?? undefined,
+    fanOutId: row.fanOutId ?? undefined,
     skipNodes: row.skipNodes ?? undefined,
     enableNodes: row.enableNodes ?? undefined,
     ciFixAttempts: row.ciFixAttempts ?? undefined,
@@ -177,6 +179,68 @@ function mergeTokenUsage(current: TokenUsage, entry: TokenUsageIncrement, price:
   return next;
 }
 
+type RunUpdate = Partial<
+  Pick<
+    RunRecord,
+    | "status"
+    | "phase"
+    | "startedAt"
+    | "finishedAt"
+    | "logsPath"
+    | "statusMessageTs"
+    | "commitSha"
+    | "changedFiles"
+    | "internalArtifacts"
+    | "prUrl"
+    | "prNumber"
+    | "feedback"
+    | "error"
+    | "parentRunId"
+    | "rootRunId"
+    | "chainIndex"
+    | "parentBranchName"
+    | "feedbackNote"
+    | "tokenUsage"
+    | "title"
+    | "workItemId"
+    | "prefetchContext"
+    | "autoReviewSourceSubstate"
+    | "pipelineRevisionId"
+  >
+>;
+
+function runUpdateToDb(update: RunUpdate): Record<string, unknown> {
+  const dbUpdate: Record<string, unknown> = {};
+  const has = <K extends keyof RunUpdate>(key: K): boolean =>
+    Object.prototype.hasOwnProperty.call(update, key);
+
+  if (update.status !== undefined) dbUpdate.status = update.status;
+  if (update.phase !== undefined) dbUpdate.phase = update.phase;
+  if (update.startedAt !== undefined) dbUpdate.startedAt = update.startedAt ? new Date(update.startedAt) : null;
+  if (update.finishedAt !== undefined) dbUpdate.finishedAt = update.finishedAt ? new Date(update.finishedAt) : null;
+  if (update.logsPath !== undefined) dbUpdate.logsPath = update.logsPath;
+  if (update.statusMessageTs !== undefined) dbUpdate.statusMessageTs = update.statusMessageTs;
+  if (update.commitSha !== undefined) dbUpdate.commitSha = update.commitSha;
+  if (update.changedFiles !== undefined) dbUpdate.changedFiles = update.changedFiles;
+  if (update.internalArtifacts !== undefined) dbUpdate.internalArtifacts = update.internalArtifacts;
+  if (update.prUrl !== undefined) dbUpdate.prUrl = update.prUrl;
+  if (update.prNumber !== undefined) dbUpdate.prNumber = update.prNumber;
+  if (update.feedback !== undefined) dbUpdate.feedback = update.feedback;
+  if (has("error")) dbUpdate.error = update.error ?? null;
+  if (update.parentRunId !== undefined) dbUpdate.parentRunId = update.parentRunId;
+  if (update.rootRunId !== undefined) dbUpdate.rootRunId = update.rootRunId;
+  if (update.chainIndex !== undefined) dbUpdate.chainIndex = update.chainIndex;
+  if (update.parentBranchName !== undefined) dbUpdate.parentBranchName = update.parentBranchName;
+  if (update.feedbackNote !== undefined) dbUpdate.feedbackNote = update.feedbackNote;
+  if (update.tokenUsage !== undefined) dbUpdate.tokenUsage = update.tokenUsage;
+  if (update.title !== undefined) dbUpdate.title = update.title;
+  if (has("workItemId")) dbUpdate.workItemId = update.workItemId ?? null;
+  if (has("prefetchContext")) dbUpdate.prefetchContext = update.prefetchContext ?? null;
+  if (has("autoReviewSourceSubstate")) dbUpdate.autoReviewSourceSubstate = update.autoReviewSourceSubstate ?? null;
+  if (has("pipelineRevisionId")) dbUpdate.pipelineRevisionId = update.pipelineRevisionId ?? null;
+  return dbUpdate;
+}
+
 export class RunStore {
   private readonly db: Database;
 
@@ -255,6 +319,7 @@ export class RunStore {
       autoReviewSourceSubstate: input.autoReviewSourceSubstate,
       intent,
       intentKind: intent.kind,
+      fanOutId: input.fanOutId,
     });
 
     return (await this.getRun(id))!;
@@ -385,6 +450,13 @@ export class RunStore {
     return rows.map(rowToRecord);
   }
 
+  async listRunsForFanOut(fanOutId: string): Promise<RunRecord[]> {
+    const rows = await this.selectRunRows()
+      .where(eq(runs.fanOutId, fanOutId))
+      .orderBy(runs.createdAt);
+    return rows.map(rowToRecord);
+  }
+
   async listRunsForWorkItem(workItemId: string): Promise<RunRecord[]> {
     const rows = await this.selectRunRows()
       .where(eq(runs.workItemId, workItemId))
@@ -392,6 +464,34 @@ export class RunStore {
     return rows.map(rowToRecord);
   }
 
+  /**
+   * Commits pushed by runs linked to any of the work items: every
+   * `run.commit_pushed` checkpoint, plus each run's final `commitSha` for
+   * runs that predate those checkpoints.
+   */
+  async listCommitShasForWorkItems(workItemIds: string[]): Promise<Array<{ workItemId: string; commitSha: string }>> {
+    if (workItemIds.length === 0) {
+      return [];
+    }
+    const pushed = sql<string>`${runCheckpoints.payload}->>'commitSha'`;
+    const rows = await this.db
+      .select({ workItemId: runs.workItemId, commitSha: runs.commitSha })
+      .from(runs)
+      .where(and(inArray(runs.workItemId, workItemIds), isNotNull(runs.commitSha)))
+      .union(
+        this.db
+          .select({ workItemId: runs.workItemId, commitSha: pushed })
+          .from(runCheckpoints)
+          .innerJoin(runs, eq(runs.id, runCheckpoints.runId))
+          .where(and(
+            inArray(runs.workItemId, workItemIds),
+            eq(runCheckpoints.checkpointType, "run.commit_pushed"),
+            isNotNull(pushed),
+          ))
+      );
+    return rows.map((row) => ({ workItemId: row.workItemId!, commitSha: row.commitSha! }));
+  }
+
   async getRecentRuns(repoSlug?: string, limit = 10): Promise<RunRecord[]> {
     const conditions = repoSlug ? eq(runs.repoSlug, repoSlug) : undefined;
     const rows = await this.selectRunRows()
@@ -434,71 +534,27 @@ export class RunStore {
     return this.updateRun(id, { feedback });
   }
 
-  async updateRun(
-    id: string,
-    update: Partial<
-      Pick<
-        RunRecord,
-        | "status"
-        | "phase"
-        | "startedAt"
-        | "finishedAt"
-        | "logsPath"
-        | "statusMessageTs"
-        | "commitSha"
-        | "changedFiles"
-        | "internalArtifacts"
-        | "prUrl"
-        | "prNumber"
-        | "feedback"
-        | "error"
-        | "parentRunId"
-        | "rootRunId"
-        | "chainIndex"
-        | "parentBranchName"
-        | "feedbackNote"
-        | "tokenUsage"
-        | "title"
-        | "workItemId"
-        | "prefetchContext"
-        | "autoReviewSourceSubstate"
-      >
-    >
-  ): Promise<RunRecord> {
-    const dbUpdate: Record<string, unknown> = {};
-    const has = <K extends keyof typeof update>(key: K): boolean =>
-      Object.prototype.hasOwnProperty.call(update, key);
-
-    if (update.status !== undefined) dbUpdate.status = update.status;
-    if (update.phase !== undefined) dbUpdate.phase = update.phase;
-    if (update.startedAt !== undefined) dbUpdate.startedAt = update.startedAt ? new Date(update.startedAt) : null;
-    if (update.finishedAt !== undefined) dbUpdate.finishedAt = update.finishedAt ? new Date(update.finishedAt) : null;
-    if (update.logsPath !== undefined) dbUpdate.logsPath = update.logsPath;
-    if (update.statusMessageTs !== undefined) dbUpdate.statusMessageTs = update.statusMessageTs;
-    if (update.commitSha !== undefined) dbUpdate.commitSha = update.commitSha;
-    if (update.changedFiles !== undefined) dbUpdate.changedFiles = update.changedFiles;
-    if (update.internalArtifacts !== undefined) dbUpdate.internalArtifacts = update.internalArtifacts;
-    if (update.prUrl !== undefined) dbUpdate.prUrl = update.prUrl;
-    if (update.prNumber !== undefined) dbUpdate.prNumber = update.prNumber;
-    if (update.feedback !== undefined) dbUpdate.feedback = update.feedback;
-    if (update.error !== undefined) dbUpdate.error = update.error;
-    if (update.parentRunId !== undefined) dbUpdate.parentRunId = update.parentRunId;
-    if (update.rootRunId !== undefined) dbUpdate.rootRunId = update.rootRunId;
-    if (update.chainIndex !== undefined) dbUpdate.chainIndex = update.chainIndex;
-    if (update.parentBranchName !== undefined) dbUpdate.parentBranchName = update.parentBranchName;
-    if (update.feedbackNote !== undefined) dbUpdate.feedbackNote = update.feedbackNote;
-    if (update.tokenUsage !== undefined) dbUpdate.tokenUsage = update.tokenUsage;
-    if (update.title !== undefined) dbUpdate.title = update.title;
-    if (has("workItemId")) dbUpdate.workItemId = update.workItemId ?? null;
-    if (has("prefetchContext")) dbUpdate.prefetchContext = update.prefetchContext ?? null;
-    if (has("autoReviewSourceSubstate")) dbUpdate.autoReviewSourceSubstate = update.autoReviewSourceSubstate ?? null;
-
-    await this.db.update(runs).set(dbUpdate).where(eq(runs.id, id));
+  async updateRun(id: string, update: RunUpdate): Promise<RunRecord> {
+    await this.db.update(runs).set(runUpdateToDb(update)).where(eq(runs.id, id));
     const result = await this.getRun(id);
     if (!result) throw new Error(`Run not found: ${id}`);
     return result;
   }
 
+  /**
+   * updateRun, but only while the run is still in `expectedStatus`. Returns
+   * undefined when another caller moved it first.
+   */
+  async updateRunIfStatus(id: string, expectedStatus: RunStatus, update: RunUpdate): Promise<RunRecord | undefined> {
+    const affected = await this.db
+      .update(runs)
+      .set(runUpdateToDb(update))
+      .where(and(eq(runs.id, id), eq(runs.status, expectedStatus)))
+      .returning({ id: runs.id });
+    if (affected.length === 0) return undefined;
+    return this.getRun(id);
+  }
+
   async addTokenUsage(id: string, entry: TokenUsageIncrement): Promise<RunRecord> {
     const run = await this.getRun(id);
     if (!run) throw new Error(`Run not found: ${id}`);
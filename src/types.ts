@@ -1,6 +1,7 @@
 import type { RunPrefetchContext } from "./runtime/run-context-types.js";
 import type { SandboxRuntime } from "./runtime/runtime-mode.js";
 import type { RunIntent, RunIntentKind } from "./runs/run-intent.js";
+import type { ApprovalRequestPayload } from "./runs/run-checkpoints.js";
 
 export type RunStatus =
   | "queued"
@@ -9,6 +10,7 @@ export type RunStatus =
   | "pushing"
   | "awaiting_ci"
   | "ci_fixing"
+  | "awaiting_approval"
   | "cancel_requested"
   | "completed"
   | "failed"
@@ -24,6 +26,7 @@ export type RunPhase =
   | "pushing"
   | "awaiting_ci"
   | "ci_fixing"
+  | "awaiting_approval"
   | "cancel_requested"
   | "completed"
   | "failed"
@@ -97,6 +100,10 @@ export interface RunRecord {
   feedbackNote?: string;
   /** Pipeline override hint from smart triage or trigger rule */
   pipelineHint?: string;
+  /** Pipeline revision the run executed (see PipelineStore.listRevisions) */
+  pipelineRevisionId?: string;
+  /** Multi-repo fan-out this run was enqueued by */
+  fanOutId?: string;
   /** Node IDs to skip (from orchestrator classification) */
   skipNodes?: string[];
   /** Node IDs to force-enable (overrides enabled: false in pipeline YAML) */
@@ -156,6 +163,8 @@ export interface NewRunInput {
   prefetchContext?: RunPrefetchContext;
   autoReviewSourceSubstate?: string;
   intent?: RunIntent;
+  /** Multi-repo fan-out this run belongs to */
+  fanOutId?: string;
 }
 
 export interface ExecutionResult {
@@ -170,4 +179,6 @@ export interface ExecutionResult {
   title?: string;
   /** Markdown answer produced by the investigation pipeline (read-only research). */
   answer?: string;
+  /** Set when the pipeline parked at an approval_gate instead of finishing. */
+  approvalRequest?: ApprovalRequestPayload;
 }
@@ -14,6 +14,8 @@ export interface UserDirectoryMutationInput {
   jiraAccountId?: string | null;
   primaryTeamId?: string | null;
   isActive?: boolean;
+  /** ISO date or timestamp; null clears it, undefined leaves it unchanged */
+  awayUntil?: string | null;
 }
 
 export class UserDirectoryService {
@@ -79,9 +81,21 @@ function normalizeInput(input: UserDirectoryMutationInput): CreateUserDirectoryI
     jiraAccountId: normalizeOptionalIdentity(input.jiraAccountId),
     primaryTeamId: normalizeOptionalIdentity(input.primaryTeamId),
     isActive: input.isActive ?? true,
+    awayUntil: normalizeAwayUntil(input.awayUntil),
   };
 }
 
+function normalizeAwayUntil(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  const trimmed = typeof value === "string" ? value.trim() : "";
+  if (!trimmed) return null;
+  const date = new Date(trimmed);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error("Away until must be a date");
+  }
+  return date;
+}
+
 function normalizeOptionalIdentity(value: string | null | undefined): string | null {
   const trimmed = typeof value === "string" ? value.trim() : "";
   return trimmed ? trimmed : null;
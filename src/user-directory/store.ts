@@ -11,6 +11,8 @@ export interface UserDirectoryRecord {
   jiraAccountId: string | null;
   primaryTeamId: string | null;
   isActive: boolean;
+  /** Out of office until then; ISO timestamp */
+  awayUntil: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -22,6 +24,8 @@ export interface CreateUserDirectoryInput {
   jiraAccountId: string | null;
   primaryTeamId: string | null;
   isActive: boolean;
+  /** Left unchanged when undefined */
+  awayUntil?: Date | null;
 }
 
 export interface UpdateUserDirectoryInput extends CreateUserDirectoryInput {}
@@ -35,6 +39,7 @@ function toRecord(row: typeof users.$inferSelect): UserDirectoryRecord {
     jiraAccountId: row.jiraAccountId ?? null,
     primaryTeamId: row.primaryTeamId ?? null,
     isActive: row.isActive,
+    awayUntil: row.awayUntil?.toISOString() ?? null,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
@@ -64,6 +69,7 @@ export class UserDirectoryStore {
       jiraAccountId: input.jiraAccountId,
       primaryTeamId: input.primaryTeamId,
       isActive: input.isActive,
+      awayUntil: input.awayUntil ?? null,
       createdAt: now,
       updatedAt: now,
     });
@@ -78,6 +84,7 @@ export class UserDirectoryStore {
       jiraAccountId: input.jiraAccountId,
       primaryTeamId: input.primaryTeamId,
       isActive: input.isActive,
+      awayUntil: input.awayUntil,
       updatedAt: new Date(),
     }).where(eq(users.id, id));
 
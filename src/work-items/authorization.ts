@@ -62,42 +62,60 @@ export class WorkItemAuthorization {
     if (!actorUserId) return;
     await this.requireActiveUser(actorUserId);
 
-    if (await this.identity.userIsAdmin(actorUserId)) {
+    if (await this.canRespondToReviewRequest(actorUserId, workItem, reviewRequest)) {
       return;
     }
+    throw new Error("Actor is not authorized to respond to this review request");
+  }
+
+  /** Whether an active user is an admin or a target of the request (or, once escalated, of its escalation). */
+  async canRespondToReviewRequest(
+    actorUserId: string,
+    workItem: WorkItemRecord,
+    reviewRequest: ReviewRequestRecord,
+  ): Promise<boolean> {
+    const actor = await this.identity.getUser(actorUserId);
+    if (!actor?.isActive) {
+      return false;
+    }
+    if (await this.identity.userIsAdmin(actorUserId)) {
+      return true;
+    }
+
+    if (await this.isReviewTarget(actorUserId, workItem, reviewRequest.targetType, reviewRequest.targetRef ?? {})) {
+      return true;
+    }
+    // Once escalated, the escalation target may answer too
+    const escalation = reviewRequest.escalatedAt ? reviewRequest.escalationTarget : undefined;
+    return Boolean(escalation && await this.isReviewTarget(actorUserId, workItem, escalation.targetType, escalation.targetRef));
+  }
 
-    const ref = reviewRequest.targetRef ?? {};
-    if (reviewRequest.targetType === "user") {
-      if (typeof ref.userId === "string" && ref.userId === actorUserId) {
-        return;
-      }
-      throw new Error("Actor is not authorized to respond to this review request");
+  private async isReviewTarget(
+    actorUserId: string,
+    workItem: WorkItemRecord,
+    targetType: ReviewRequestRecord["targetType"],
+    ref: Record<string, unknown>,
+  ): Promise<boolean> {
+    if (targetType === "user") {
+      return typeof ref.userId === "string" && ref.userId === actorUserId;
     }
 
-    if (reviewRequest.targetType === "team") {
+    if (targetType === "team") {
       const teamId = typeof ref.teamId === "string" ? ref.teamId : workItem.ownerTeamId;
-      if (await this.identity.isUserOnTeam(actorUserId, teamId)) {
-        return;
-      }
-      throw new Error("Actor is not authorized to respond to this review request");
+      return this.identity.isUserOnTeam(actorUserId, teamId);
     }
 
-    if (reviewRequest.targetType === "team_role") {
+    if (targetType === "team_role") {
       const teamId = typeof ref.teamId === "string" ? ref.teamId : workItem.ownerTeamId;
       const role = typeof ref.role === "string" ? ref.role : typeof ref.teamRole === "string" ? ref.teamRole : undefined;
-      if (role && await this.identity.userHasTeamFunctionalRole(actorUserId, teamId, role)) {
-        return;
-      }
-      throw new Error("Actor is not authorized to respond to this review request");
+      return Boolean(role && await this.identity.userHasTeamFunctionalRole(actorUserId, teamId, role));
     }
 
-    if (reviewRequest.targetType === "org_role") {
+    if (targetType === "org_role") {
       const role = typeof ref.role === "string" ? ref.role : typeof ref.orgRole === "string" ? ref.orgRole : undefined;
-      if (role && await this.identity.userHasOrgRole(actorUserId, role)) {
-        return;
-      }
-      throw new Error("Actor is not authorized to respond to this review request");
+      return Boolean(role && await this.identity.userHasOrgRole(actorUserId, role));
     }
+    return false;
   }
 
   private async requireActiveUser(userId: string) {
@@ -12,7 +12,7 @@ import {
   type WorkItemRecord,
 } from "./types.js";
 
-const ACTIVE_RUN_STATUSES = new Set(["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing", "cancel_requested"]);
+const ACTIVE_RUN_STATUSES = new Set(["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing", "awaiting_approval", "cancel_requested"]);
 const DEFAULT_ADOPTION_LABELS = ["ai:assist"];
 const CI_INTERVENTION_INTENT_KINDS = new Set([
   "feature_delivery.repair_ci",
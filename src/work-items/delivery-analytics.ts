@@ -0,0 +1,433 @@
+/**
+ * Delivery analytics — feature delivery metrics reconstructed from
+ * `work_item_events`.
+ *
+ * Each work item's state timeline is rebuilt from the events that carry a
+ * state (creation, explicit and reducer-driven state changes, review and CI
+ * transitions, merge and close), so history recorded before
+ * `work_item.state_changed` covered reducer transitions still counts. Items
+ * are filtered by team, repo and creation date, and summarised per team,
+ * repo, week or month.
+ *
+ * Human pushes are told apart from run commits by the head SHA recorded on
+ * each push. History from before pushes carried it leaves the count unknown.
+ */
+
+import type { RunStore } from "../store.js";
+import type { WorkItemEventsStore } from "./events-store.js";
+import type { ReviewRequestStore } from "./review-request-store.js";
+import type { WorkItemStore } from "./store.js";
+import type { FeatureDeliveryState, ReviewRequestRecord, WorkItemEventRecord, WorkItemRecord, WorkItemState } from "./types.js";
+
+const HOUR = 3_600_000;
+const CI_REPAIR_INTENT = "feature_delivery.repair_ci";
+const TERMINAL_STATES = new Set<WorkItemState>(["done", "cancelled"]);
+
+const FEATURE_DELIVERY_STATES: FeatureDeliveryState[] = [
+  "backlog",
+  "in_progress",
+  "auto_review",
+  "engineering_review",
+  "qa_preparation",
+  "product_review",
+  "qa_review",
+  "ready_for_merge",
+  "done",
+  "cancelled",
+];
+
+export type DeliveryAnalyticsGroupBy = "team" | "repo" | "week" | "month";
+
+export interface DeliveryAnalyticsQuery {
+  teamId?: string;
+  repo?: string;
+  /** Inclusive lower bound on the work item's creation time */
+  from?: Date;
+  /** Exclusive upper bound on the work item's creation time */
+  to?: Date;
+  groupBy?: DeliveryAnalyticsGroupBy;
+}
+
+export interface StateTimelineEntry {
+  state: WorkItemState;
+  enteredAt: string;
+}
+
+export interface WorkItemDeliveryMetrics {
+  workItemId: string;
+  title: string;
+  jiraIssueKey?: string;
+  teamId: string;
+  teamName: string;
+  repo?: string;
+  prNumber?: number;
+  state: WorkItemState;
+  createdAt: string;
+  doneAt?: string;
+  /** Creation to first reaching done */
+  leadTimeHours?: number;
+  /** Hours spent in each state; the current state counts up to now */
+  stateHours: Record<string, number>;
+  /** Requested to answered, for each answered review request */
+  reviewWaitHours: number[];
+  /** Times the work item entered auto_review */
+  autoReviewRounds: number;
+  /** CI repair runs whose outcome is known */
+  ciRepairs: number;
+  /** CI repair runs followed by green CI */
+  ciRepairsSucceeded: number;
+  /** Pushes to the PR that no linked run made; unknown without a PR or when its history predates push tracking */
+  humanCodeChanges?: number;
+}
+
+export interface DeliveryMetricsSummary {
+  key: string;
+  label: string;
+  workItems: number;
+  done: number;
+  medianLeadTimeHours?: number;
+  p85LeadTimeHours?: number;
+  /** Median hours per state, over the items that spent time in it */
+  medianStateHours: Record<string, number>;
+  medianReviewWaitHours?: number;
+  averageAutoReviewRounds?: number;
+  ciRepairs: number;
+  ciRepairSuccessRate?: number;
+  /** Share of done items with no human pushes, over those whose pushes are known */
+  doneWithoutHumanChangesRate?: number;
+}
+
+export interface DeliveryAnalyticsReport {
+  generatedAt: string;
+  groupBy: DeliveryAnalyticsGroupBy;
+  overall: DeliveryMetricsSummary;
+  groups: DeliveryMetricsSummary[];
+  workItems: WorkItemDeliveryMetrics[];
+}
+
+/** The state an event moved the work item into, if it records one. */
+function stateEnteredBy(event: WorkItemEventRecord): WorkItemState | undefined {
+  const payload = event.payload;
+  switch (event.eventType) {
+    case "work_item.created":
+    case "work_item.state_changed":
+      return typeof payload["state"] === "string" ? payload["state"] : undefined;
+    case "github.review_transitioned":
+    case "github.pr_synchronized":
+      return typeof payload["nextState"] === "string" ? payload["nextState"] : undefined;
+    case "github.ci_updated":
+      return typeof payload["state"] === "string" ? payload["state"] : undefined;
+    case "github.pr_merged":
+      return "done";
+    case "github.pr_closed":
+      return "cancelled";
+    default:
+      return undefined;
+  }
+}
+
+/** States the work item passed through, oldest first, from events ordered by id. */
+export function buildStateTimeline(workItem: WorkItemRecord, events: WorkItemEventRecord[]): StateTimelineEntry[] {
+  const created = events.find((event) => event.eventType === "work_item.created");
+  const firstPrevious = events.map((event) => event.payload["previousState"]).find((state) => typeof state === "string");
+  const initial = (created ? stateEnteredBy(created) : undefined)
+    ?? (firstPrevious as WorkItemState | undefined)
+    ?? events.map(stateEnteredBy).find((state) => state !== undefined);
+
+  const timeline: StateTimelineEntry[] = [{ state: initial ?? workItem.state, enteredAt: workItem.createdAt }];
+  const push = (state: WorkItemState, at: string) => {
+    const last = timeline[timeline.length - 1]!;
+    if (last.state === state) return;
+    timeline.push({ state, enteredAt: Date.parse(at) < Date.parse(last.enteredAt) ? last.enteredAt : at });
+  };
+
+  for (const event of events) {
+    const state = stateEnteredBy(event);
+    if (state) push(state, event.createdAt);
+  }
+  push(workItem.state, workItem.updatedAt);
+  return timeline;
+}
+
+/** Outcome of each CI repair run: the first resolved CI result after its launch. */
+function ciRepairOutcomes(events: WorkItemEventRecord[]): boolean[] {
+  const outcomes: boolean[] = [];
+  let pending = 0;
+  for (const event of events) {
+    if (event.eventType === "run.auto_launched" && event.payload["intentKind"] === CI_REPAIR_INTENT) {
+      pending += 1;
+      continue;
+    }
+    // Only the resolved CI update (the one carrying the resulting state) reflects the whole PR
+    if (event.eventType !== "github.ci_updated" || event.payload["state"] === undefined || pending === 0) continue;
+    const conclusion = event.payload["conclusion"];
+    if (conclusion !== "success" && conclusion !== "failure") continue;
+    for (; pending > 0; pending -= 1) outcomes.push(conclusion === "success");
+  }
+  return outcomes;
+}
+
+/**
+ * Pushes no linked run made. Items without a PR have no count, so they stay
+ * out of the done-without-human-changes share. Every pull_request webhook
+ * records a `github.label_observed` event, and pushes are only tracked once
+ * those carry the head SHA, so a PR first seen without it (or never seen) has
+ * an unknown count.
+ */
+function countHumanCodeChanges(workItem: WorkItemRecord, events: WorkItemEventRecord[], runCommitShas: Set<string>): number | undefined {
+  if (workItem.githubPrNumber === undefined) return undefined;
+  const firstObserved = events.find((event) => event.eventType === "github.label_observed");
+  if (typeof firstObserved?.payload["headSha"] !== "string") return undefined;
+
+  let pushes = 0;
+  for (const event of events) {
+    if (event.eventType !== "github.pr_synchronized") continue;
+    const headSha = event.payload["headSha"];
+    if (typeof headSha !== "string") return undefined;
+    if (!runCommitShas.has(headSha)) pushes += 1;
+  }
+  return pushes;
+}
+
+function roundHours(ms: number): number {
+  return Math.round((ms / HOUR) * 10) / 10;
+}
+
+export interface WorkItemMetricsInput {
+  workItem: WorkItemRecord;
+  teamName: string;
+  events: WorkItemEventRecord[];
+  reviewRequests: ReviewRequestRecord[];
+  /** Every commit pushed by runs linked to the work item, not just each run's last */
+  runCommitShas: Set<string>;
+  now: Date;
+}
+
+export function workItemDeliveryMetrics(input: WorkItemMetricsInput): WorkItemDeliveryMetrics {
+  const { workItem, events, now } = input;
+  const timeline = buildStateTimeline(workItem, events);
+
+  const stateHours: Record<string, number> = {};
+  timeline.forEach((entry, index) => {
+    if (TERMINAL_STATES.has(entry.state)) return;
+    const end = timeline[index + 1]?.enteredAt ?? now.toISOString();
+    const spent = Math.max(0, Date.parse(end) - Date.parse(entry.enteredAt));
+    stateHours[entry.state] = roundHours((stateHours[entry.state] ?? 0) * HOUR + spent);
+  });
+
+  const doneAt = timeline.find((entry) => entry.state === "done")?.enteredAt;
+  const reviewWaitHours = input.reviewRequests
+    .filter((request) => request.resolvedAt && request.outcome !== "no_response")
+    .map((request) => roundHours(Date.parse(request.resolvedAt!) - Date.parse(request.requestedAt)));
+  const ciRepairs = ciRepairOutcomes(events);
+
+  return {
+    workItemId: workItem.id,
+    title: workItem.title,
+    jiraIssueKey: workItem.jiraIssueKey,
+    teamId: workItem.ownerTeamId,
+    teamName: input.teamName,
+    repo: workItem.repo,
+    prNumber: workItem.githubPrNumber,
+    state: workItem.state,
+    createdAt: workItem.createdAt,
+    doneAt,
+    leadTimeHours: doneAt ? roundHours(Date.parse(doneAt) - Date.parse(workItem.createdAt)) : undefined,
+    stateHours,
+    reviewWaitHours,
+    autoReviewRounds: timeline.filter((entry) => entry.state === "auto_review").length,
+    ciRepairs: ciRepairs.length,
+    ciRepairsSucceeded: ciRepairs.filter(Boolean).length,
+    humanCodeChanges: countHumanCodeChanges(workItem, events, input.runCommitShas),
+  };
+}
+
+// ── Summaries ──
+
+function percentile(values: number[], fraction: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (sorted.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return Math.round((sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower)) * 10) / 10;
+}
+
+function ratio(numerator: number, denominator: number): number | undefined {
+  return denominator === 0 ? undefined : Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+export function summarizeDeliveryMetrics(key: string, label: string, items: WorkItemDeliveryMetrics[]): DeliveryMetricsSummary {
+  const done = items.filter((item) => item.doneAt);
+  const leadTimes = done.map((item) => item.leadTimeHours!);
+  const states = new Set(items.flatMap((item) => Object.keys(item.stateHours)));
+  const medianStateHours: Record<string, number> = {};
+  for (const state of states) {
+    medianStateHours[state] = percentile(items.flatMap((item) => item.stateHours[state] ?? []), 0.5)!;
+  }
+  const withPullRequest = items.filter((item) => item.prNumber !== undefined);
+  const ciRepairs = items.reduce((sum, item) => sum + item.ciRepairs, 0);
+  const doneWithKnownChanges = done.filter((item) => item.humanCodeChanges !== undefined);
+
+  return {
+    key,
+    label,
+    workItems: items.length,
+    done: done.length,
+    medianLeadTimeHours: percentile(leadTimes, 0.5),
+    p85LeadTimeHours: percentile(leadTimes, 0.85),
+    medianStateHours,
+    medianReviewWaitHours: percentile(items.flatMap((item) => item.reviewWaitHours), 0.5),
+    averageAutoReviewRounds: withPullRequest.length === 0
+      ? undefined
+      : Math.round((withPullRequest.reduce((sum, item) => sum + item.autoReviewRounds, 0) / withPullRequest.length) * 10) / 10,
+    ciRepairs,
+    ciRepairSuccessRate: ratio(items.reduce((sum, item) => sum + item.ciRepairsSucceeded, 0), ciRepairs),
+    doneWithoutHumanChangesRate: ratio(doneWithKnownChanges.filter((item) => item.humanCodeChanges === 0).length, doneWithKnownChanges.length),
+  };
+}
+
+/** Monday (UTC) of the week containing the timestamp, as YYYY-MM-DD. */
+function weekStart(timestamp: string): string {
+  const date = new Date(timestamp);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function groupKey(item: WorkItemDeliveryMetrics, groupBy: DeliveryAnalyticsGroupBy): { key: string; label: string } {
+  switch (groupBy) {
+    case "team":
+      return { key: item.teamId, label: item.teamName };
+    case "repo":
+      return { key: item.repo ?? "", label: item.repo ?? "(no repo)" };
+    case "week": {
+      const start = weekStart(item.createdAt);
+      return { key: start, label: `Week of ${start}` };
+    }
+    case "month": {
+      const month = item.createdAt.slice(0, 7);
+      return { key: month, label: month };
+    }
+  }
+}
+
+export function buildDeliveryAnalyticsReport(
+  items: WorkItemDeliveryMetrics[],
+  groupBy: DeliveryAnalyticsGroupBy,
+  now = new Date(),
+): DeliveryAnalyticsReport {
+  const groups = new Map<string, { label: string; items: WorkItemDeliveryMetrics[] }>();
+  for (const item of items) {
+    const { key, label } = groupKey(item, groupBy);
+    const group = groups.get(key) ?? { label, items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  }
+
+  const periodic = groupBy === "week" || groupBy === "month";
+  return {
+    generatedAt: now.toISOString(),
+    groupBy,
+    overall: summarizeDeliveryMetrics("all", "All work items", items),
+    groups: Array.from(groups.entries())
+      .map(([key, group]) => summarizeDeliveryMetrics(key, group.label, group.items))
+      .sort((a, b) => (periodic ? a.key.localeCompare(b.key) : b.workItems - a.workItems || a.label.localeCompare(b.label))),
+    workItems: items,
+  };
+}
+
+// ── CSV ──
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  let text = String(value);
+  // Keep spreadsheets from evaluating titles as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll("\"", "\"\"")}"` : text;
+}
+
+/** One row per work item, with an hours column per state seen. */
+export function deliveryAnalyticsCsv(report: DeliveryAnalyticsReport): string {
+  const extraStates = new Set<string>();
+  for (const item of report.workItems) {
+    for (const state of Object.keys(item.stateHours)) {
+      if (!(FEATURE_DELIVERY_STATES as string[]).includes(state)) extraStates.add(state);
+    }
+  }
+  const states = [...FEATURE_DELIVERY_STATES.filter((state) => !TERMINAL_STATES.has(state)), ...[...extraStates].sort()];
+
+  const header = [
+    "work_item_id", "jira_issue_key", "title", "team", "repo", "pr_number", "state", "created_at", "done_at",
+    "lead_time_hours", "median_review_wait_hours", "auto_review_rounds", "ci_repairs", "ci_repairs_succeeded",
+    "human_code_changes", ...states.map((state) => `hours_${state}`),
+  ];
+  const rows = report.workItems.map((item) => [
+    item.workItemId, item.jiraIssueKey, item.title, item.teamName, item.repo, item.prNumber, item.state, item.createdAt,
+    item.doneAt, item.leadTimeHours, percentile(item.reviewWaitHours, 0.5), item.autoReviewRounds, item.ciRepairs,
+    item.ciRepairsSucceeded, item.humanCodeChanges, ...states.map((state) => item.stateHours[state]),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// ── Loading ──
+
+export interface DeliveryAnalyticsDeps {
+  workItems: Pick<WorkItemStore, "listFeatureDeliveryWorkItems">;
+  events: Pick<WorkItemEventsStore, "listForWorkItems">;
+  reviewRequests: Pick<ReviewRequestStore, "listReviewRequestsForWorkItems">;
+  runs: Pick<RunStore, "listCommitShasForWorkItems">;
+  getTeamName: (teamId: string) => Promise<string | undefined>;
+  now?: () => Date;
+}
+
+/** Metrics for the feature delivery work items matching the query. */
+export async function loadDeliveryAnalytics(
+  deps: DeliveryAnalyticsDeps,
+  query: DeliveryAnalyticsQuery = {},
+): Promise<DeliveryAnalyticsReport> {
+  const now = deps.now?.() ?? new Date();
+  const workItems = await deps.workItems.listFeatureDeliveryWorkItems({
+    ownerTeamId: query.teamId,
+    repo: query.repo,
+    createdFrom: query.from,
+    createdBefore: query.to,
+  });
+
+  const ids = workItems.map((workItem) => workItem.id);
+  const eventsByItem = new Map<string, WorkItemEventRecord[]>();
+  for (const event of await deps.events.listForWorkItems(ids)) {
+    const list = eventsByItem.get(event.workItemId) ?? [];
+    list.push(event);
+    eventsByItem.set(event.workItemId, list);
+  }
+  const requestsByItem = new Map<string, ReviewRequestRecord[]>();
+  for (const request of await deps.reviewRequests.listReviewRequestsForWorkItems(ids)) {
+    const list = requestsByItem.get(request.workItemId) ?? [];
+    list.push(request);
+    requestsByItem.set(request.workItemId, list);
+  }
+  const commitShasByItem = new Map<string, Set<string>>();
+  for (const { workItemId, commitSha } of await deps.runs.listCommitShasForWorkItems(ids)) {
+    const shas = commitShasByItem.get(workItemId) ?? new Set<string>();
+    shas.add(commitSha);
+    commitShasByItem.set(workItemId, shas);
+  }
+
+  const teamNames = new Map<string, string>();
+  const items: WorkItemDeliveryMetrics[] = [];
+  for (const workItem of workItems) {
+    if (!teamNames.has(workItem.ownerTeamId)) {
+      teamNames.set(workItem.ownerTeamId, (await deps.getTeamName(workItem.ownerTeamId)) ?? workItem.ownerTeamId);
+    }
+    items.push(workItemDeliveryMetrics({
+      workItem,
+      teamName: teamNames.get(workItem.ownerTeamId)!,
+      events: eventsByItem.get(workItem.id) ?? [],
+      reviewRequests: requestsByItem.get(workItem.id) ?? [],
+      runCommitShas: commitShasByItem.get(workItem.id) ?? new Set(),
+      now,
+    }));
+  }
+
+  return buildDeliveryAnalyticsReport(items, query.groupBy ?? "team", now);
+}
@@ -1,5 +1,5 @@
 import type { Database } from "../db/index.js";
-import { and, desc, eq, sql } from "drizzle-orm";
+import { and, asc, desc, eq, gt, inArray, sql } from "drizzle-orm";
 import { workItemEvents } from "../db/schema.js";
 import type { AppendWorkItemEventInput, WorkItemEventRecord } from "./types.js";
 
@@ -27,6 +27,34 @@ export class WorkItemEventsStore {
     });
   }
 
+  /** Events after `afterId` in insertion order, across all work items. */
+  async listAfter(afterId: number, limit: number): Promise<WorkItemEventRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(workItemEvents)
+      .where(gt(workItemEvents.id, afterId))
+      .orderBy(asc(workItemEvents.id))
+      .limit(limit);
+    return rows.map(rowToRecord);
+  }
+
+  async findLatestId(): Promise<number> {
+    const rows = await this.db
+      .select({ id: sql<number | null>`max(${workItemEvents.id})` })
+      .from(workItemEvents);
+    return Number(rows[0]?.id ?? 0);
+  }
+
+  async findLatestByEventType(eventType: string): Promise<WorkItemEventRecord | undefined> {
+    const rows = await this.db
+      .select()
+      .from(workItemEvents)
+      .where(eq(workItemEvents.eventType, eventType))
+      .orderBy(desc(workItemEvents.id))
+      .limit(1);
+    return rows[0] ? rowToRecord(rows[0]) : undefined;
+  }
+
   async listForWorkItem(workItemId: string): Promise<WorkItemEventRecord[]> {
     const rows = await this.db
       .select()
@@ -36,6 +64,19 @@ export class WorkItemEventsStore {
     return rows.map(rowToRecord);
   }
 
+  /** Events of several work items, oldest first. */
+  async listForWorkItems(workItemIds: string[]): Promise<WorkItemEventRecord[]> {
+    if (workItemIds.length === 0) {
+      return [];
+    }
+    const rows = await this.db
+      .select()
+      .from(workItemEvents)
+      .where(inArray(workItemEvents.workItemId, workItemIds))
+      .orderBy(asc(workItemEvents.id));
+    return rows.map(rowToRecord);
+  }
+
   async listForWorkItemByEventType(
     workItemId: string,
     eventType: string,
@@ -1,16 +1,27 @@
+import type { WorkItemEventsStore } from "./events-store.js";
 import type { FeatureDeliveryDecision } from "./feature-delivery-reducer.js";
 import type { WorkItemRecord } from "./types.js";
 import { WorkItemStore } from "./store.js";
 
+/** Apply the decision's patches; with `events`, each state change is recorded as `work_item.state_changed`. */
 export async function applyWorkItemDecision(
   workItems: WorkItemStore,
   workItem: WorkItemRecord,
   decision: FeatureDeliveryDecision,
+  events?: Pick<WorkItemEventsStore, "append">,
 ): Promise<WorkItemRecord> {
   let current = workItem;
 
   for (const patch of decision.patches) {
+    const previousState = current.state;
     current = await workItems.updateState(current.id, patch);
+    if (events && current.state !== previousState) {
+      await events.append({
+        workItemId: current.id,
+        eventType: "work_item.state_changed",
+        payload: { state: current.state, substate: current.substate, previousState, reason: "feature_delivery" },
+      });
+    }
   }
 
   return current;
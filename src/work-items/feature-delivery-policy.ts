@@ -4,15 +4,15 @@ import {
   GITHUB_PR_ADOPTED_FLAG,
   type WorkItemRecord,
 } from "./types.js";
+import {
+  FEATURE_DELIVERY_WORKFLOW,
+  nextStageAfter,
+  settleStage,
+  stageTargetAfterAutoReview,
+  type StageWalkOptions,
+} from "./workflow-definition.js";
 
-type FeatureDeliveryState = Extract<WorkItemRecord["state"],
-  | "auto_review"
-  | "engineering_review"
-  | "qa_preparation"
-  | "product_review"
-  | "qa_review"
-  | "ready_for_merge"
->;
+type FeatureDeliveryState = WorkItemRecord["state"];
 
 const AUTO_REBASE_REQUIRED_FLAGS = ["engineering_review_done", "qa_review_done"] as const;
 
@@ -31,13 +31,16 @@ export function isAiAssistAutomationEnabled(workItem: Pick<WorkItemRecord, "flag
   return workItem.flags.includes(AI_ASSIST_ENABLED_FLAG) || workItem.flags.includes(GITHUB_PR_ADOPTED_FLAG);
 }
 
+// The helpers below answer for the built-in feature delivery workflow; the
+// reducer interprets whichever definition a work item is pinned to.
+
 export function nextFeatureDeliveryStateAfterAutoReview(input: {
   ciGreen: boolean;
   selfReviewDone: boolean;
   hasActiveAutoFixes: boolean;
 }): FeatureDeliveryState {
   if (input.ciGreen && input.selfReviewDone && !input.hasActiveAutoFixes) {
-    return "engineering_review";
+    return stageTargetAfterAutoReview(FEATURE_DELIVERY_WORKFLOW, []) ?? "auto_review";
   }
   return "auto_review";
 }
@@ -52,38 +55,22 @@ export function advanceFeatureDeliveryStateAfterAutoReview(input: {
   productReviewRequired: boolean;
   skipProductReview?: boolean;
 }): FeatureDeliveryState {
-  const nextState = nextFeatureDeliveryStateAfterAutoReview({
-    ciGreen: input.ciGreen,
-    selfReviewDone: input.selfReviewDone,
-    hasActiveAutoFixes: input.hasActiveAutoFixes,
-  });
-
-  if (nextState !== "engineering_review") {
-    return nextState;
-  }
-
-  if (input.qaReviewDone) {
-    return "ready_for_merge";
-  }
-
-  if (input.productReviewDone) {
-    return "qa_review";
-  }
-
-  if (!input.engineeringReviewDone) {
-    return "engineering_review";
+  if (nextFeatureDeliveryStateAfterAutoReview(input) === "auto_review") {
+    return "auto_review";
   }
 
-  return nextFeatureDeliveryStateAfterEngineeringReview("approved");
+  const flags = [
+    ...(input.engineeringReviewDone ? ["engineering_review_done"] : []),
+    ...(input.productReviewDone ? ["product_review_done"] : []),
+    ...(input.qaReviewDone ? ["qa_review_done"] : []),
+  ];
+  return stageTargetAfterAutoReview(FEATURE_DELIVERY_WORKFLOW, flags) ?? "auto_review";
 }
 
 export function nextFeatureDeliveryStateAfterEngineeringReview(
   outcome: "approved" | "changes_requested"
 ): FeatureDeliveryState {
-  if (outcome !== "approved") {
-    return "auto_review";
-  }
-  return "qa_preparation";
+  return outcome === "approved" ? nextBuiltInStage("engineering_review") : "auto_review";
 }
 
 export function nextFeatureDeliveryStateAfterQaPreparation(input: {
@@ -94,30 +81,38 @@ export function nextFeatureDeliveryStateAfterQaPreparation(input: {
   if (input.qaPrepFoundIssue) {
     return "auto_review";
   }
-  return input.productReviewRequired && !input.skipProductReview ? "product_review" : "qa_review";
+  return nextBuiltInStage("qa_preparation", {
+    flags: input.productReviewRequired ? ["product_review_required"] : [],
+    skipProductReview: input.skipProductReview,
+  });
 }
 
 export function nextFeatureDeliveryStateAfterProductReview(
   outcome: "approved" | "changes_requested"
 ): FeatureDeliveryState {
-  return outcome === "approved" ? "qa_review" : "auto_review";
+  return outcome === "approved" ? nextBuiltInStage("product_review") : "auto_review";
 }
 
 export function nextFeatureDeliveryStateAfterQaReview(
   outcome: "approved" | "changes_requested"
-): FeatureDeliveryState | "ready_for_merge" {
-  return outcome === "approved" ? "ready_for_merge" : "auto_review";
+): FeatureDeliveryState {
+  return outcome === "approved" ? nextBuiltInStage("qa_review") : "auto_review";
 }
 
 export function advanceFeatureDeliveryStateAfterQaEntry(
-  state: FeatureDeliveryState | "ready_for_merge",
+  state: FeatureDeliveryState,
   input: { qaReviewDone: boolean },
-): FeatureDeliveryState | "ready_for_merge" {
-  if (state === "qa_review" && input.qaReviewDone) {
-    return "ready_for_merge";
-  }
+): FeatureDeliveryState {
+  return settleStage(
+    FEATURE_DELIVERY_WORKFLOW,
+    state,
+    (flag) => flag === "qa_review_done" && input.qaReviewDone,
+    { flags: [] },
+  );
+}
 
-  return state;
+function nextBuiltInStage(state: FeatureDeliveryState, options: StageWalkOptions = { flags: [] }): FeatureDeliveryState {
+  return nextStageAfter(FEATURE_DELIVERY_WORKFLOW, state, options)?.name ?? state;
 }
 
 export function shouldResetEngineeringReviewOnNewCommits(
@@ -1,29 +1,24 @@
-import {
-  advanceFeatureDeliveryStateAfterAutoReview,
-  advanceFeatureDeliveryStateAfterQaEntry,
-  nextFeatureDeliveryStateAfterEngineeringReview,
-  nextFeatureDeliveryStateAfterProductReview,
-  nextFeatureDeliveryStateAfterQaPreparation,
-  nextFeatureDeliveryStateAfterQaReview,
-} from "./feature-delivery-policy.js";
 import type { UpdateWorkItemStateInput, WorkItemRecord } from "./types.js";
+import {
+  isStageState,
+  nextStageAfter,
+  settleStage,
+  stageDefinition,
+  stagePathAfterAutoReview,
+  stateDefinition,
+  workflowDefinitionFor,
+  type StageWalkOptions,
+  type WorkflowDefinition,
+} from "./workflow-definition.js";
 import type { FeatureDeliveryProgressCheckpointType } from "../runs/run-checkpoints.js";
 import type { RunIntentKind } from "../runs/run-intent.js";
 
-type FeatureDeliveryProgressState = Extract<
-  WorkItemRecord["state"],
-  "engineering_review" | "qa_preparation" | "product_review" | "qa_review" | "ready_for_merge"
->;
-
-type ManagedFeatureDeliveryState = Extract<
-  WorkItemRecord["state"],
-  "auto_review" | FeatureDeliveryProgressState
->;
-
 export type FeatureDeliveryReducerEvent =
   | FeatureDeliveryProgressReadyEvent
   | FeatureDeliveryCiCompletedEvent
   | FeatureDeliveryReviewSubmittedEvent
+  | FeatureDeliveryStageReviewRespondedEvent
+  | FeatureDeliveryStageReviewExpiredEvent
   | FeatureDeliveryReviewLabelsSyncedEvent
   | FeatureDeliveryPrSynchronizedEvent;
 
@@ -49,6 +44,24 @@ type FeatureDeliveryReviewSubmittedEvent = {
   type: "github.review_submitted";
   reviewState: "approved" | "changes_requested";
   automationEnabled: boolean;
+  /** The reviewer may answer the current stage's review request; approvals of stages that declare one need it */
+  fromRequestedReviewer?: boolean;
+};
+
+/** A stage's review request answered outside GitHub, e.g. from Slack. */
+type FeatureDeliveryStageReviewRespondedEvent = {
+  type: "review_request.responded";
+  /** The stage the request was made for */
+  state: WorkItemRecord["state"];
+  outcome: "approved" | "changes_requested";
+};
+
+/** A stage's review request expired unanswered and its SLA names a state to move to. */
+type FeatureDeliveryStageReviewExpiredEvent = {
+  type: "review_request.expired";
+  /** The stage the request was made for */
+  state: WorkItemRecord["state"];
+  onNoResponse: WorkItemRecord["state"];
 };
 
 type FeatureDeliveryReviewLabelsSyncedEvent = {
@@ -62,6 +75,8 @@ type FeatureDeliveryPrSynchronizedEvent = {
 };
 
 export interface FeatureDeliveryReducerPolicy {
+  /** Defaults to the definition the work item is pinned to */
+  definition?: WorkflowDefinition;
   skipProductReview?: boolean;
   resetEngineeringReviewOnNewCommits?: boolean;
   resetQaReviewOnNewCommits?: boolean;
@@ -69,6 +84,8 @@ export interface FeatureDeliveryReducerPolicy {
   applyReviewFeedbackEnabled?: boolean;
 }
 
+type ResolvedReducerPolicy = FeatureDeliveryReducerPolicy & { definition: WorkflowDefinition };
+
 export type FeatureDeliveryCommand =
   | {
       type: "reconcile_work_item";
@@ -79,6 +96,10 @@ export type FeatureDeliveryCommand =
     }
   | {
       type: "ready_for_merge_entered";
+    }
+  | {
+      type: "stage_review_requested";
+      state: WorkItemRecord["state"];
     };
 
 export interface FeatureDeliveryDecision {
@@ -95,26 +116,36 @@ export function reduceFeatureDelivery(
     return emptyDecision();
   }
 
+  const resolved = { ...policy, definition: policy.definition ?? workflowDefinitionFor(workItem) };
+
   if (event.type === "run.feature_delivery_progress_ready") {
-    return reduceFeatureDeliveryProgressReady(workItem, policy);
+    return reduceFeatureDeliveryProgressReady(workItem, resolved);
   }
 
   if (event.type === "github.ci_completed") {
     return event.conclusion === "success"
-      ? reduceSuccessfulCi(workItem, event, policy)
-      : reduceFailedCi(workItem, event);
+      ? reduceSuccessfulCi(workItem, event, resolved)
+      : reduceFailedCi(workItem, event, resolved);
   }
 
   if (event.type === "github.review_submitted") {
-    return reduceReviewSubmitted(workItem, event, policy);
+    return reduceReviewSubmitted(workItem, event, resolved);
+  }
+
+  if (event.type === "review_request.responded") {
+    return reduceStageReviewResponded(workItem, event, resolved);
+  }
+
+  if (event.type === "review_request.expired") {
+    return reduceStageReviewExpired(workItem, event, resolved);
   }
 
   if (event.type === "github.review_labels_synced") {
-    return reduceReviewLabelsSynced(workItem, event, policy);
+    return reduceReviewLabelsSynced(workItem, event, resolved);
   }
 
   if (event.type === "github.pr_synchronized") {
-    return reducePullRequestSynchronized(workItem, policy);
+    return reducePullRequestSynchronized(workItem, resolved);
   }
 
   return emptyDecision();
@@ -123,38 +154,26 @@ export function reduceFeatureDelivery(
 export function featureDeliverySubstateForState(
   state: WorkItemRecord["state"],
   input: { fallback?: string; defaultValue?: string } = {},
+  definition: WorkflowDefinition = workflowDefinitionFor({ workflow: "feature_delivery" }),
 ): string | undefined {
-  switch (state) {
-    case "engineering_review":
-      return "waiting_engineering_review";
-    case "qa_preparation":
-      return "preparing_review_app";
-    case "product_review":
-      return "waiting_product_review";
-    case "qa_review":
-      return "waiting_qa_review";
-    case "ready_for_merge":
-      return "waiting_merge";
-    case "auto_review":
-      return input.defaultValue ?? "waiting_ci";
-    default:
-      return input.fallback;
+  const substate = stateDefinition(definition, state)?.substate;
+  if (state === "auto_review") {
+    return input.defaultValue ?? substate ?? "waiting_ci";
   }
+  return substate ?? input.fallback;
 }
 
 function reduceFeatureDeliveryProgressReady(
   workItem: WorkItemRecord,
-  policy: FeatureDeliveryReducerPolicy,
+  policy: ResolvedReducerPolicy,
 ): FeatureDeliveryDecision {
   if (workItem.state !== "auto_review") {
     return emptyDecision();
   }
 
-  const path = featureDeliveryStatePathAfterAutoReview(workItem, {
-    ciGreen: hasFlag(workItem, "ci_green"),
-    selfReviewDone: true,
-    policy,
-  });
+  const path = hasFlag(workItem, "ci_green")
+    ? stagePathAfterAutoReview(policy.definition, walkOptions(workItem, policy))
+    : [];
 
   if (path.length === 0) {
     return {
@@ -163,14 +182,14 @@ function reduceFeatureDeliveryProgressReady(
         substate: featureDeliverySubstateForState("auto_review", {
           fallback: workItem.substate,
           defaultValue: "waiting_ci",
-        }),
+        }, policy.definition),
         flagsToAdd: ["self_review_done"],
       }],
       commands: [],
     };
   }
 
-  return decisionForStatePath(workItem.state, path, {
+  return decisionForStatePath(policy.definition, workItem.state, path, {
     firstPatchFlagsToAdd: ["self_review_done"],
     fallbackSubstate: workItem.substate,
   });
@@ -179,7 +198,7 @@ function reduceFeatureDeliveryProgressReady(
 function reduceSuccessfulCi(
   workItem: WorkItemRecord,
   event: FeatureDeliveryCiCompletedEvent,
-  policy: FeatureDeliveryReducerPolicy,
+  policy: ResolvedReducerPolicy,
 ): FeatureDeliveryDecision {
   const selfReviewEnabled = policy.selfReviewEnabled ?? false;
 
@@ -201,12 +220,10 @@ function reduceSuccessfulCi(
     };
   }
 
+  const definition = policy.definition;
+
   if (workItem.state === "auto_review") {
-    const path = featureDeliveryStatePathAfterAutoReview(workItem, {
-      ciGreen: true,
-      selfReviewDone: true,
-      policy,
-    });
+    const path = stagePathAfterAutoReview(definition, walkOptions(workItem, policy));
     const firstPatchFlagsToAdd = !selfReviewEnabled && !hasFlag(workItem, "self_review_done")
       ? ["ci_green", "self_review_done"]
       : ["ci_green"];
@@ -218,20 +235,20 @@ function reduceSuccessfulCi(
           substate: featureDeliverySubstateForState("auto_review", {
             fallback: workItem.substate,
             defaultValue: "waiting_ci",
-          }),
+          }, definition),
           flagsToAdd: firstPatchFlagsToAdd,
         }],
         commands: [],
       };
     }
 
-    return decisionForStatePath(workItem.state, path, {
+    return decisionForStatePath(definition, workItem.state, path, {
       firstPatchFlagsToAdd,
       fallbackSubstate: workItem.substate,
     });
   }
 
-  if (!isManagedFeatureDeliveryState(workItem.state)) {
+  if (!isManagedFeatureDeliveryState(definition, workItem.state)) {
     if (workItem.state === "backlog" || workItem.state === "in_progress") {
       return {
         patches: [{
@@ -246,23 +263,18 @@ function reduceSuccessfulCi(
     return emptyDecision();
   }
 
-  const nextState = workItem.state === "qa_preparation"
-    ? nextFeatureDeliveryStateAfterQaPreparation({
-        productReviewRequired: hasFlag(workItem, "product_review_required"),
-        qaPrepFoundIssue: false,
-        skipProductReview: policy.skipProductReview,
-      })
+  const options = walkOptions(workItem, policy);
+  const nextState = stageDefinition(definition, workItem.state)?.advanceOn === "ci_green"
+    ? nextStageAfter(definition, workItem.state, options)?.name ?? workItem.state
     : workItem.state;
-  const finalState = advanceFeatureDeliveryStateAfterQaEntry(nextState, {
-    qaReviewDone: hasFlag(workItem, "qa_review_done"),
-  });
+  const finalState = settleStage(definition, nextState, (flag) => hasFlag(workItem, flag), options);
 
   const patches: UpdateWorkItemStateInput[] = [{
     state: nextState,
     substate: featureDeliverySubstateForState(nextState, {
       fallback: workItem.substate,
       defaultValue: "waiting_ci",
-    }),
+    }, definition),
     flagsToAdd: ["ci_green"],
   }];
 
@@ -272,19 +284,20 @@ function reduceSuccessfulCi(
       substate: featureDeliverySubstateForState(finalState, {
         fallback: patches[0].substate,
         defaultValue: "waiting_ci",
-      }),
+      }, definition),
     });
   }
 
   return {
     patches,
-    commands: commandsForEnteredStates(workItem.state, patches),
+    commands: commandsForEnteredStates(definition, workItem.state, patches),
   };
 }
 
 function reduceFailedCi(
   workItem: WorkItemRecord,
   event: FeatureDeliveryCiCompletedEvent,
+  policy: ResolvedReducerPolicy,
 ): FeatureDeliveryDecision {
   if (workItem.state === "backlog" || workItem.state === "in_progress") {
     return {
@@ -297,7 +310,7 @@ function reduceFailedCi(
     };
   }
 
-  if (!isManagedFeatureDeliveryState(workItem.state)) {
+  if (!isManagedFeatureDeliveryState(policy.definition, workItem.state)) {
     return emptyDecision();
   }
 
@@ -318,11 +331,19 @@ function reduceFailedCi(
 function reduceReviewSubmitted(
   workItem: WorkItemRecord,
   event: FeatureDeliveryReviewSubmittedEvent,
-  policy: FeatureDeliveryReducerPolicy,
+  policy: ResolvedReducerPolicy,
 ): FeatureDeliveryDecision {
   const applyReviewFeedbackEnabled = policy.applyReviewFeedbackEnabled ?? false;
+  const definition = policy.definition;
+  const stage = stageDefinition(definition, workItem.state);
+  if (!stage?.review) {
+    return emptyDecision();
+  }
 
-  if (workItem.state === "qa_review") {
+  // Label-approved stages (qa_review) only advance via their label — not via a
+  // PR review approval — until reviewer roles are tracked. See
+  // reduceReviewLabelsSynced. Requested changes still send the PR back.
+  if (!stage.review.approvedBy.includes("github_review")) {
     if (event.reviewState !== "changes_requested" || applyReviewFeedbackEnabled) {
       return emptyDecision();
     }
@@ -336,45 +357,81 @@ function reduceReviewSubmitted(
     };
   }
 
-  // qa_review approvals can only advance via the "qa passed" label — not via a PR review
-  // approval — until reviewer roles are tracked. See reduceReviewLabelsSynced.
-  if (
-    workItem.state !== "engineering_review"
-    && workItem.state !== "product_review"
-  ) {
+  // A stage that requests a review only clears when someone it asked approves
+  if (stage.review.request && event.reviewState === "approved" && !event.fromRequestedReviewer) {
     return emptyDecision();
   }
 
-  let nextState: WorkItemRecord["state"];
-  let flagsToAdd: string[] = [];
+  const changesRequestedSubstate = applyReviewFeedbackEnabled ? "applying_review_feedback" : "waiting_ci";
+  const decision = decisionForStageReview(workItem, stage.review.doneFlag, event.reviewState === "approved", changesRequestedSubstate, policy);
+  return {
+    patches: decision.patches,
+    commands: [
+      ...(event.reviewState === "changes_requested" && event.automationEnabled && applyReviewFeedbackEnabled
+        ? [{ type: "reconcile_work_item", reason: "github.review_changes_requested" } as const]
+        : []),
+      ...decision.commands,
+    ],
+  };
+}
+
+/**
+ * An answer to the current stage's review request. An approval sets the
+ * stage's done flag and moves on like a GitHub approval; requested changes
+ * send the work item back to auto review to wait for new commits.
+ */
+function reduceStageReviewResponded(
+  workItem: WorkItemRecord,
+  event: FeatureDeliveryStageReviewRespondedEvent,
+  policy: ResolvedReducerPolicy,
+): FeatureDeliveryDecision {
+  const stage = stageDefinition(policy.definition, workItem.state);
+  if (workItem.state !== event.state || !stage?.review?.request) {
+    return emptyDecision();
+  }
+  return decisionForStageReview(workItem, stage.review.doneFlag, event.outcome === "approved", "waiting_ci", policy);
+}
 
-  if (workItem.state === "engineering_review") {
-    nextState = nextFeatureDeliveryStateAfterEngineeringReview(event.reviewState);
-    if (event.reviewState === "approved") {
-      flagsToAdd = ["engineering_review_done"];
-    }
-  } else {
-    nextState = nextFeatureDeliveryStateAfterProductReview(event.reviewState);
-    if (event.reviewState === "approved") {
-      flagsToAdd = ["product_review_done"];
-    }
+function reduceStageReviewExpired(
+  workItem: WorkItemRecord,
+  event: FeatureDeliveryStageReviewExpiredEvent,
+  policy: ResolvedReducerPolicy,
+): FeatureDeliveryDecision {
+  if (workItem.state !== event.state || event.onNoResponse === workItem.state) {
+    return emptyDecision();
   }
+  const patches = [patchForState(policy.definition, event.onNoResponse, { defaultSubstate: "waiting_ci" })];
+  return {
+    patches,
+    commands: commandsForEnteredStates(policy.definition, workItem.state, patches),
+  };
+}
 
-  const finalState = isManagedFeatureDeliveryState(nextState)
-    ? advanceFeatureDeliveryStateAfterQaEntry(nextState, {
-        qaReviewDone: hasFlag(workItem, "qa_review_done"),
-      })
+function decisionForStageReview(
+  workItem: WorkItemRecord,
+  doneFlag: string,
+  approved: boolean,
+  changesRequestedSubstate: string,
+  policy: ResolvedReducerPolicy,
+): FeatureDeliveryDecision {
+  const definition = policy.definition;
+  const options = walkOptions(workItem, policy);
+  const nextState = approved
+    ? nextStageAfter(definition, workItem.state, options)?.name ?? workItem.state
+    : "auto_review";
+
+  const finalState = isManagedFeatureDeliveryState(definition, nextState)
+    ? settleStage(definition, nextState, (flag) => hasFlag(workItem, flag), options)
     : nextState;
-  const changesRequestedSubstate = applyReviewFeedbackEnabled ? "applying_review_feedback" : "waiting_ci";
-  const patches = [patchForState(nextState, {
+  const patches = [patchForState(definition, nextState, {
     fallbackSubstate: workItem.substate,
-    defaultSubstate: event.reviewState === "approved" ? "waiting_ci" : undefined,
-    explicitSubstate: event.reviewState === "approved" ? undefined : changesRequestedSubstate,
-    flagsToAdd,
+    defaultSubstate: approved ? "waiting_ci" : undefined,
+    explicitSubstate: approved ? undefined : changesRequestedSubstate,
+    flagsToAdd: approved ? [doneFlag] : [],
   })];
 
   if (finalState !== nextState) {
-    patches.push(patchForState(finalState, {
+    patches.push(patchForState(definition, finalState, {
       fallbackSubstate: patches[0]!.substate,
       defaultSubstate: "waiting_ci",
     }));
@@ -382,37 +439,33 @@ function reduceReviewSubmitted(
 
   return {
     patches,
-    commands: [
-      ...(event.reviewState === "changes_requested" && event.automationEnabled && applyReviewFeedbackEnabled
-        ? [{ type: "reconcile_work_item", reason: "github.review_changes_requested" } as const]
-        : []),
-      ...commandsForEnteredStates(workItem.state, patches),
-    ],
+    commands: commandsForEnteredStates(definition, workItem.state, patches),
   };
 }
 
 function reduceReviewLabelsSynced(
   workItem: WorkItemRecord,
   event: FeatureDeliveryReviewLabelsSyncedEvent,
-  policy: FeatureDeliveryReducerPolicy,
+  policy: ResolvedReducerPolicy,
 ): FeatureDeliveryDecision {
-  if (!isManagedFeatureDeliveryState(workItem.state)) {
+  const definition = policy.definition;
+  if (!isManagedFeatureDeliveryState(definition, workItem.state)) {
     return emptyDecision();
   }
 
   const flagsToAdd = reviewResultFlagsFromLabelSync(event);
-  const normalizedFlagsToAdd = new Set(flagsToAdd);
+  const normalizedFlagsToAdd = new Set<string>(flagsToAdd);
   const flagsToRemove = REVIEW_RESULT_FLAGS.filter((flag) => !normalizedFlagsToAdd.has(flag));
   const flagsActuallyAdded = flagsToAdd.filter((flag) => !hasFlag(workItem, flag));
   const flagsActuallyRemoved = flagsToRemove.filter((flag) => hasFlag(workItem, flag));
 
-  const nextState = workItem.state === "engineering_review" && event.engineeringReviewDone
-    ? nextFeatureDeliveryStateAfterEngineeringReview("approved")
-    : workItem.state === "qa_review" && event.qaReviewDone
-      ? nextFeatureDeliveryStateAfterQaReview("approved")
-      : workItem.state;
-  const finalState = isManagedFeatureDeliveryState(nextState)
-    ? advanceFeatureDeliveryStateAfterQaEntry(nextState, { qaReviewDone: event.qaReviewDone })
+  const options = walkOptions(workItem, policy);
+  const review = stageDefinition(definition, workItem.state)?.review;
+  const nextState = review?.approvedBy.includes("label") && normalizedFlagsToAdd.has(review.doneFlag)
+    ? nextStageAfter(definition, workItem.state, options)?.name ?? workItem.state
+    : workItem.state;
+  const finalState = isManagedFeatureDeliveryState(definition, nextState)
+    ? settleStage(definition, nextState, (flag) => normalizedFlagsToAdd.has(flag), options)
     : nextState;
 
   if (
@@ -424,7 +477,7 @@ function reduceReviewLabelsSynced(
     return emptyDecision();
   }
 
-  const patches = [patchForState(nextState, {
+  const patches = [patchForState(definition, nextState, {
     explicitSubstate: nextState === workItem.state
       ? workItem.substate
       : undefined,
@@ -434,22 +487,23 @@ function reduceReviewLabelsSynced(
   })];
 
   if (finalState !== nextState) {
-    patches.push(patchForState(finalState, {
+    patches.push(patchForState(definition, finalState, {
       fallbackSubstate: patches[0]!.substate,
     }));
   }
 
   return {
     patches,
-    commands: commandsForEnteredStates(workItem.state, patches),
+    commands: commandsForEnteredStates(definition, workItem.state, patches),
   };
 }
 
 function reducePullRequestSynchronized(
   workItem: WorkItemRecord,
-  policy: FeatureDeliveryReducerPolicy,
+  policy: ResolvedReducerPolicy,
 ): FeatureDeliveryDecision {
-  if (!isManagedFeatureDeliveryState(workItem.state)) {
+  const definition = policy.definition;
+  if (!isManagedFeatureDeliveryState(definition, workItem.state)) {
     return emptyDecision();
   }
 
@@ -468,7 +522,7 @@ function reducePullRequestSynchronized(
   }
 
   return {
-    patches: [patchForState("auto_review", {
+    patches: [patchForState(definition, "auto_review", {
       explicitSubstate: "waiting_ci",
       flagsToRemove: Array.from(flagsToRemove),
     })],
@@ -476,83 +530,14 @@ function reducePullRequestSynchronized(
   };
 }
 
-function featureDeliveryStatePathAfterAutoReview(
-  workItem: WorkItemRecord,
-  input: {
-    ciGreen: boolean;
-    selfReviewDone: boolean;
-    policy: FeatureDeliveryReducerPolicy;
-  },
-): FeatureDeliveryProgressState[] {
-  const finalState = advanceFeatureDeliveryStateAfterAutoReview({
-    ciGreen: input.ciGreen,
-    selfReviewDone: input.selfReviewDone,
-    hasActiveAutoFixes: false,
-    engineeringReviewDone: hasFlag(workItem, "engineering_review_done"),
-    productReviewDone: hasFlag(workItem, "product_review_done"),
-    qaReviewDone: hasFlag(workItem, "qa_review_done"),
-    productReviewRequired: hasFlag(workItem, "product_review_required"),
-    skipProductReview: input.policy.skipProductReview,
-  });
-  const path: FeatureDeliveryProgressState[] = [];
-
-  if (finalState === "auto_review") {
-    return path;
-  }
-
-  path.push("engineering_review");
-  if (finalState === "engineering_review" || !hasFlag(workItem, "engineering_review_done")) {
-    return path;
-  }
-
-  const afterEngineeringReview = nextFeatureDeliveryStateAfterEngineeringReview("approved");
-  if (isFeatureDeliveryProgressState(afterEngineeringReview)) {
-    pushUniqueState(path, afterEngineeringReview);
-  }
-  if (finalState === afterEngineeringReview) {
-    return path;
-  }
-
-  let currentState = afterEngineeringReview;
-  if (currentState === "qa_preparation") {
-    const afterQaPreparation = nextFeatureDeliveryStateAfterQaPreparation({
-      productReviewRequired: hasFlag(workItem, "product_review_required"),
-      qaPrepFoundIssue: false,
-      skipProductReview: input.policy.skipProductReview,
-    });
-    if (isFeatureDeliveryProgressState(afterQaPreparation)) {
-      currentState = afterQaPreparation;
-      pushUniqueState(path, currentState);
-    }
-    if (finalState === afterQaPreparation) {
-      return path;
-    }
-  }
-
-  if (currentState === "product_review") {
-    const afterProductReview = nextFeatureDeliveryStateAfterProductReview("approved");
-    if (isFeatureDeliveryProgressState(afterProductReview)) {
-      currentState = afterProductReview;
-      pushUniqueState(path, currentState);
-    }
-    if (finalState === afterProductReview) {
-      return path;
-    }
-  }
-
-  if (currentState === "qa_review" && finalState === "ready_for_merge") {
-    const afterQaReview = nextFeatureDeliveryStateAfterQaReview("approved");
-    if (isFeatureDeliveryProgressState(afterQaReview)) {
-      pushUniqueState(path, afterQaReview);
-    }
-  }
-
-  return path;
+function walkOptions(workItem: WorkItemRecord, policy: ResolvedReducerPolicy): StageWalkOptions {
+  return { flags: workItem.flags, skipProductReview: policy.skipProductReview };
 }
 
 function decisionForStatePath(
+  definition: WorkflowDefinition,
   initialState: WorkItemRecord["state"],
-  path: FeatureDeliveryProgressState[],
+  path: WorkItemRecord["state"][],
   input: {
     firstPatchFlagsToAdd: string[];
     fallbackSubstate?: string;
@@ -564,9 +549,9 @@ function decisionForStatePath(
       substate: featureDeliverySubstateForState(state, {
         fallback: index === 0
           ? input.fallbackSubstate
-          : featureDeliverySubstateForState(path[index - 1]!, { fallback: input.fallbackSubstate }),
+          : featureDeliverySubstateForState(path[index - 1]!, { fallback: input.fallbackSubstate }, definition),
         defaultValue: "waiting_ci",
-      }),
+      }, definition),
     };
 
     if (index === 0) {
@@ -578,44 +563,37 @@ function decisionForStatePath(
 
   return {
     patches,
-    commands: commandsForEnteredStates(initialState, patches),
+    commands: commandsForEnteredStates(definition, initialState, patches),
   };
 }
 
+/** Entry commands for each stage the patches enter, in the order entered. */
 function commandsForEnteredStates(
+  definition: WorkflowDefinition,
   initialState: WorkItemRecord["state"],
   patches: UpdateWorkItemStateInput[],
 ): FeatureDeliveryCommand[] {
   const commands: FeatureDeliveryCommand[] = [];
-  if (enteredQaPreparation(initialState, patches)) {
-    commands.push({ type: "qa_preparation_entered" });
-  }
-  if (enteredReadyForMerge(initialState, patches)) {
-    commands.push({ type: "ready_for_merge_entered" });
+  const entered = new Set<string>([initialState]);
+  for (const patch of patches) {
+    if (entered.has(patch.state)) {
+      continue;
+    }
+    entered.add(patch.state);
+    const stage = stageDefinition(definition, patch.state);
+    if (stage?.runIntent === "feature_delivery.qa_preparation") {
+      commands.push({ type: "qa_preparation_entered" });
+    }
+    if (stage?.runIntent === "feature_delivery.finalize_pr") {
+      commands.push({ type: "ready_for_merge_entered" });
+    }
+    if (stage?.review?.request) {
+      commands.push({ type: "stage_review_requested", state: stage.name });
+    }
   }
   return commands;
 }
 
-function enteredQaPreparation(
-  initialState: WorkItemRecord["state"],
-  patches: UpdateWorkItemStateInput[],
-): boolean {
-  return initialState !== "qa_preparation" && patches.some((patch) => patch.state === "qa_preparation");
-}
-
-function enteredReadyForMerge(
-  initialState: WorkItemRecord["state"],
-  patches: UpdateWorkItemStateInput[],
-): boolean {
-  return initialState !== "ready_for_merge" && patches.some((patch) => patch.state === "ready_for_merge");
-}
-
-function pushUniqueState(path: FeatureDeliveryProgressState[], state: FeatureDeliveryProgressState): void {
-  if (path[path.length - 1] !== state) {
-    path.push(state);
-  }
-}
-
 function hasFlag(workItem: WorkItemRecord, flag: string): boolean {
   return workItem.flags.includes(flag);
 }
@@ -636,6 +614,7 @@ function reviewResultFlagsFromLabelSync(
 }
 
 function patchForState(
+  definition: WorkflowDefinition,
   state: WorkItemRecord["state"],
   input: {
     explicitSubstate?: string;
@@ -650,7 +629,7 @@ function patchForState(
     substate: input.explicitSubstate ?? featureDeliverySubstateForState(state, {
       fallback: input.fallbackSubstate,
       defaultValue: input.defaultSubstate,
-    }),
+    }, definition),
   };
 
   if (input.flagsToAdd && input.flagsToAdd.length > 0) {
@@ -663,15 +642,8 @@ function patchForState(
   return patch;
 }
 
-function isManagedFeatureDeliveryState(state: WorkItemRecord["state"]): state is ManagedFeatureDeliveryState {
-  return [
-    "auto_review",
-    "engineering_review",
-    "qa_preparation",
-    "product_review",
-    "qa_review",
-    "ready_for_merge",
-  ].includes(state);
+function isManagedFeatureDeliveryState(definition: WorkflowDefinition, state: WorkItemRecord["state"]): boolean {
+  return state === "auto_review" || isStageState(definition, state);
 }
 
 function emptyDecision(): FeatureDeliveryDecision {
@@ -679,13 +651,3 @@ function emptyDecision(): FeatureDeliveryDecision {
 }
 
 const REVIEW_RESULT_FLAGS = ["engineering_review_done", "qa_review_done"] as const;
-
-function isFeatureDeliveryProgressState(state: WorkItemRecord["state"]): state is FeatureDeliveryProgressState {
-  return [
-    "engineering_review",
-    "qa_preparation",
-    "product_review",
-    "qa_review",
-    "ready_for_merge",
-  ].includes(state);
-}
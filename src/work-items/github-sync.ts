@@ -14,7 +14,7 @@ import {
 import { WorkItemEventsStore } from "./events-store.js";
 import { logError, logWarn } from "../logger.js";
 import { RunStore } from "../store.js";
-import { WorkItemService } from "./service.js";
+import { WorkItemService, type WorkItemServiceOptions } from "./service.js";
 import { WorkItemStore } from "./store.js";
 import { isFeatureDeliveryAutoReviewOrRepairCiRun } from "../runs/run-intent.js";
 import {
@@ -26,7 +26,7 @@ import {
 
 const ENGINEERING_REVIEW_PASSED_LABEL = "code review passed";
 const QA_PASSED_LABEL = "qa passed";
-const ACTIVE_WORK_ITEM_SYSTEM_RUN_STATUSES = new Set(["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing"]);
+const ACTIVE_WORK_ITEM_SYSTEM_RUN_STATUSES = new Set(["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing", "awaiting_approval"]);
 const WORK_ITEM_PR_BODY_MARKER = "<!-- gooseherd-work-item-link -->";
 const WORK_ITEM_PR_BODY_BLOCK_PATTERN = /\n*<!-- gooseherd-work-item-link -->\n## Work item\n\n\[Open work item\]\([^)]+\)/;
 
@@ -71,6 +71,8 @@ export interface GitHubWorkItemSyncOptions {
   githubService?: Pick<GitHubService, "getPullRequestCiSnapshot" | "updatePullRequestBody">;
   qaPreparationHandler?: (workItem: WorkItemRecord) => Promise<void> | void;
   readyForMergeHandler?: (workItem: WorkItemRecord) => Promise<void> | void;
+  /** Reviewer assignment and notification for stage review requests */
+  stageReviews?: Pick<WorkItemServiceOptions, "githubService" | "notifyReviewRequests">;
   resetEngineeringReviewOnNewCommits?: boolean;
   resetQaReviewOnNewCommits?: boolean;
   skipProductReview?: boolean;
@@ -194,6 +196,7 @@ export class GitHubWorkItemSync {
     this.workItems = new WorkItemStore(db);
     this.workItemService = new WorkItemService(db, {
       readyForMergeHandler: options.readyForMergeHandler,
+      ...options.stageReviews,
     });
     this.events = new WorkItemEventsStore(db);
     this.runs = new RunStore(db);
@@ -271,6 +274,8 @@ export class GitHubWorkItemSync {
           prNumber,
           labels: payload.labels ?? [],
           merged: payload.merged ?? false,
+          // Delivery analytics only trusts push counts for PRs first observed with a head SHA
+          headSha: payload.headSha,
         },
       });
       current = await this.syncAiAssistLifecycleFromPullRequestLabels(current, payload);
@@ -325,6 +330,7 @@ export class GitHubWorkItemSync {
             action: payload.action,
             prNumber,
             labels: payload.labels ?? [],
+            headSha: payload.headSha,
           },
         });
         await this.workItems.linkPullRequest(existingByJira.id, {
@@ -458,6 +464,7 @@ export class GitHubWorkItemSync {
         action: payload.action,
         prNumber,
         labels: payload.labels ?? [],
+        headSha: payload.headSha,
       },
     });
 
@@ -500,7 +507,7 @@ export class GitHubWorkItemSync {
     if (decision.patches.length === 0 && decision.commands.length === 0) {
       return workItem;
     }
-    const advanced = await applyWorkItemDecision(this.workItems, workItem, decision);
+    const advanced = await applyWorkItemDecision(this.workItems, workItem, decision, this.events);
     await this.executeFeatureDeliveryCommands(advanced, decision);
     return advanced;
   }
@@ -548,7 +555,7 @@ export class GitHubWorkItemSync {
         },
         this.reducerPolicy(),
       );
-      const updated = await applyWorkItemDecision(this.workItems, workItem, decision);
+      const updated = await applyWorkItemDecision(this.workItems, workItem, decision, this.events);
 
       await this.events.append({
         workItemId: updated.id,
@@ -638,12 +645,16 @@ export class GitHubWorkItemSync {
     if (reviewState !== "approved" && reviewState !== "changes_requested") {
       return undefined;
     }
+    const stageRequest = reviewState === "approved"
+      ? await this.workItemService.findStageReviewRequestForGitHubReviewer(workItem, payload.reviewer)
+      : undefined;
     const decision = reduceFeatureDelivery(
       workItem,
       {
         type: "github.review_submitted",
         reviewState,
         automationEnabled: isAiAssistAutomationEnabled(workItem),
+        fromRequestedReviewer: stageRequest !== undefined,
       },
       this.reducerPolicy(),
     );
@@ -651,7 +662,10 @@ export class GitHubWorkItemSync {
       return undefined;
     }
 
-    const updated = await applyWorkItemDecision(this.workItems, workItem, decision);
+    if (stageRequest && payload.reviewer) {
+      await this.workItemService.completeStageReviewFromGitHub(stageRequest, payload.reviewer);
+    }
+    const updated = await applyWorkItemDecision(this.workItems, workItem, decision, this.events);
 
     await this.events.append({
       workItemId: updated.id,
@@ -728,17 +742,18 @@ export class GitHubWorkItemSync {
       { type: "github.pr_synchronized" },
       this.reducerPolicy(),
     );
-    if (decision.patches.length === 0 && decision.commands.length === 0) {
-      return workItem;
-    }
-    const updated = await applyWorkItemDecision(this.workItems, workItem, decision);
+    const updated = decision.patches.length === 0
+      ? workItem
+      : await applyWorkItemDecision(this.workItems, workItem, decision, this.events);
 
+    // Recorded for every push: delivery analytics tells human pushes from run commits by headSha
     await this.events.append({
       workItemId: updated.id,
       eventType: "github.pr_synchronized",
       payload: {
         repo: payload.repo,
         prNumber: payload.prNumber,
+        headSha: payload.headSha,
         previousState: workItem.state,
         nextState: updated.state,
       },
@@ -920,7 +935,7 @@ export class GitHubWorkItemSync {
     if (decision.patches.length === 0 && decision.commands.length === 0) {
       return { workItem, handledReadyForMerge: false };
     }
-    const updated = await applyWorkItemDecision(this.workItems, workItem, decision);
+    const updated = await applyWorkItemDecision(this.workItems, workItem, decision, this.events);
     const handledReadyForMerge = await this.executeFeatureDeliveryCommands(updated, decision);
     if (!handledReadyForMerge) {
       const settled = await this.handleReadyForMergeIfNeeded(updated);
@@ -1060,6 +1075,11 @@ export class GitHubWorkItemSync {
         continue;
       }
 
+      if (command.type === "stage_review_requested") {
+        await this.workItemService.requestStageReview(workItem, command.state);
+        continue;
+      }
+
       if (command.type === "ready_for_merge_entered") {
         await this.handleReadyForMergeIfNeeded(workItem);
         handledReadyForMerge = true;
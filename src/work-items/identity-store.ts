@@ -10,6 +10,8 @@ export interface IdentityUserRecord {
   primaryTeamId?: string;
   displayName: string;
   isActive: boolean;
+  /** Out of office until then; ISO timestamp */
+  awayUntil?: string;
 }
 
 export interface IdentityTeamRecord {
@@ -34,6 +36,7 @@ export class WorkItemIdentityStore {
       primaryTeamId: row.primaryTeamId ?? undefined,
       displayName: row.displayName,
       isActive: row.isActive,
+      awayUntil: row.awayUntil?.toISOString(),
     };
   }
 
@@ -49,6 +52,7 @@ export class WorkItemIdentityStore {
       primaryTeamId: row.primaryTeamId ?? undefined,
       displayName: row.displayName,
       isActive: row.isActive,
+      awayUntil: row.awayUntil?.toISOString(),
     };
   }
 
@@ -64,6 +68,7 @@ export class WorkItemIdentityStore {
       primaryTeamId: row.primaryTeamId ?? undefined,
       displayName: row.displayName,
       isActive: row.isActive,
+      awayUntil: row.awayUntil?.toISOString(),
     };
   }
 
@@ -79,6 +84,7 @@ export class WorkItemIdentityStore {
       primaryTeamId: row.primaryTeamId ?? undefined,
       displayName: row.displayName,
       isActive: row.isActive,
+      awayUntil: row.awayUntil?.toISOString(),
     };
   }
 
@@ -187,6 +193,11 @@ export class WorkItemIdentityStore {
     return rows.length > 0;
   }
 
+  async listUsersForTeam(teamId: string): Promise<IdentityUserRecord[]> {
+    const memberships = await this.db.select().from(teamMembers).where(eq(teamMembers.teamId, teamId));
+    return this.listUsersByIds(memberships.map((membership) => membership.userId));
+  }
+
   async listUsersForTeamRole(teamId: string, role: string): Promise<IdentityUserRecord[]> {
     const memberships = await this.db.select().from(teamMembers).where(eq(teamMembers.teamId, teamId));
     const userIds = memberships
@@ -219,6 +230,7 @@ export class WorkItemIdentityStore {
       primaryTeamId: row.primaryTeamId ?? undefined,
       displayName: row.displayName,
       isActive: row.isActive,
+      awayUntil: row.awayUntil?.toISOString(),
     }));
   }
 }
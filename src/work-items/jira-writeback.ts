@@ -0,0 +1,297 @@
+/**
+ * Jira write-back — mirrors work item progress onto the linked Jira issue.
+ *
+ * Replays `work_item_events` in id order. For each work item with a
+ * `jiraIssueKey` it transitions the issue to match the work item state,
+ * links and comments the PR, and comments review outcomes and merges. Every
+ * applied action is recorded as a `jira.writeback_applied` event, so replaying
+ * the same events never repeats an action.
+ */
+
+import { logError, logInfo, logWarn } from "../logger.js";
+import { JiraRequestError, type JiraClient } from "../jira.js";
+import type { WorkItemEventsStore } from "./events-store.js";
+import type { WorkItemStore } from "./store.js";
+import type { WorkItemEventRecord, WorkItemRecord } from "./types.js";
+
+export const JIRA_WRITEBACK_APPLIED_EVENT = "jira.writeback_applied";
+
+const DEFAULT_BATCH_SIZE = 200;
+/** Failed cycles before a work item's pending write-back is dropped */
+const MAX_ATTEMPTS = 5;
+
+export interface JiraWriteBackCycleDeps {
+  events: Pick<WorkItemEventsStore, "listAfter" | "listForWorkItemByEventType" | "append">;
+  workItems: Pick<WorkItemStore, "getWorkItem">;
+  jira: Pick<JiraClient, "getTransitions" | "transitionIssue" | "addComment" | "addRemoteLink">;
+  /** Work item state (or `workflow.state`) → Jira transition or status name */
+  transitions: Map<string, string>;
+  batchSize?: number;
+}
+
+/** A work item whose write-back failed transiently, retried next cycle. */
+export interface PendingJiraWriteBack {
+  /** Its events from earlier batches, oldest first */
+  events: WorkItemEventRecord[];
+  /** Failed cycles so far */
+  attempts: number;
+}
+
+export interface JiraWriteBackCycleResult {
+  /** Resume after this event id next cycle */
+  cursor: number;
+  /** Work items to retry next cycle */
+  pending: Map<string, PendingJiraWriteBack>;
+  applied: number;
+  failed: number;
+}
+
+interface WriteBackAction {
+  /** Idempotency key, recorded once applied */
+  key: string;
+  kind: "transition" | "remote_link" | "comment";
+  sourceEventId: number;
+  state?: string;
+  apply: () => Promise<{ skipped?: string } | void>;
+}
+
+/**
+ * Process the events after `cursor`, plus the work items still `pending` from
+ * earlier cycles. The cursor always moves past the batch; a work item whose
+ * write-back failed transiently is carried in `pending` and retried, up to
+ * MAX_ATTEMPTS cycles. Jira 4xx errors are recorded and skipped.
+ */
+export async function runJiraWriteBackCycle(
+  deps: JiraWriteBackCycleDeps,
+  cursor: number,
+  pending: ReadonlyMap<string, PendingJiraWriteBack> = new Map()
+): Promise<JiraWriteBackCycleResult> {
+  const batch = await deps.events.listAfter(cursor, deps.batchSize ?? DEFAULT_BATCH_SIZE);
+  const byWorkItem = new Map<string, WorkItemEventRecord[]>();
+  for (const [workItemId, retry] of pending) {
+    byWorkItem.set(workItemId, [...retry.events]);
+  }
+  for (const event of batch) {
+    if (event.eventType.startsWith("jira.")) continue;
+    const list = byWorkItem.get(event.workItemId) ?? [];
+    list.push(event);
+    byWorkItem.set(event.workItemId, list);
+  }
+
+  let applied = 0;
+  let failed = 0;
+  const stillPending = new Map<string, PendingJiraWriteBack>();
+  for (const [workItemId, events] of byWorkItem) {
+    const workItem = await deps.workItems.getWorkItem(workItemId);
+    if (!workItem?.jiraIssueKey) continue;
+    try {
+      applied += await syncWorkItem(deps, workItem as WorkItemRecord & { jiraIssueKey: string }, events);
+    } catch (error) {
+      failed++;
+      const message = error instanceof Error ? error.message : "unknown";
+      const attempts = (pending.get(workItemId)?.attempts ?? 0) + 1;
+      if (attempts >= MAX_ATTEMPTS) {
+        logError("Jira write-back gave up", { workItemId, issueKey: workItem.jiraIssueKey, attempts, error: message });
+      } else {
+        logWarn("Jira write-back failed; will retry", { workItemId, issueKey: workItem.jiraIssueKey, attempts, error: message });
+        stillPending.set(workItemId, { events, attempts });
+      }
+    }
+  }
+
+  const last = batch.length > 0 ? batch[batch.length - 1]!.id : cursor;
+  return { cursor: last, pending: stillPending, applied, failed };
+}
+
+async function syncWorkItem(
+  deps: JiraWriteBackCycleDeps,
+  workItem: WorkItemRecord & { jiraIssueKey: string },
+  events: WorkItemEventRecord[]
+): Promise<number> {
+  const history = await deps.events.listForWorkItemByEventType(workItem.id, JIRA_WRITEBACK_APPLIED_EVENT);
+  const done = new Set(history.map((record) => String(record.payload["key"])));
+  // History is newest first
+  const lastState = history.find((record) => record.payload["kind"] === "transition")?.payload["state"];
+
+  let applied = 0;
+  for (const action of planActions(deps, workItem, events, lastState)) {
+    if (done.has(action.key)) continue;
+    let outcome: { skipped?: string } | void;
+    try {
+      outcome = await action.apply();
+    } catch (error) {
+      if (!(error instanceof JiraRequestError) || error.status < 400 || error.status >= 500 || error.status === 429) {
+        throw error;
+      }
+      outcome = { skipped: error.message };
+      logWarn("Jira write-back action rejected", { issueKey: workItem.jiraIssueKey, action: action.key, error: error.message });
+    }
+    await deps.events.append({
+      workItemId: workItem.id,
+      eventType: JIRA_WRITEBACK_APPLIED_EVENT,
+      payload: {
+        issueKey: workItem.jiraIssueKey,
+        key: action.key,
+        kind: action.kind,
+        sourceEventId: action.sourceEventId,
+        ...(action.state ? { state: action.state } : {}),
+        ...(outcome?.skipped ? { skipped: outcome.skipped } : {}),
+      },
+    });
+    done.add(action.key);
+    if (!outcome?.skipped) applied++;
+  }
+  if (applied > 0) {
+    logInfo("Jira write-back applied", { workItemId: workItem.id, issueKey: workItem.jiraIssueKey, actions: applied });
+  }
+  return applied;
+}
+
+function planActions(
+  deps: JiraWriteBackCycleDeps,
+  workItem: WorkItemRecord & { jiraIssueKey: string },
+  events: WorkItemEventRecord[],
+  lastState: unknown
+): WriteBackAction[] {
+  const issueKey = workItem.jiraIssueKey;
+  const latestEventId = events[events.length - 1]!.id;
+  const actions: WriteBackAction[] = [];
+
+  // State: follow the work item's current state, not each intermediate one
+  const transitionName = transitionFor(deps.transitions, workItem);
+  if (transitionName && workItem.state !== lastState) {
+    actions.push({
+      key: `transition:${workItem.state}:${String(latestEventId)}`,
+      kind: "transition",
+      sourceEventId: latestEventId,
+      state: workItem.state,
+      apply: () => transition(deps, issueKey, transitionName),
+    });
+  }
+
+  if (workItem.githubPrUrl) {
+    const prUrl = workItem.githubPrUrl;
+    const label = workItem.githubPrNumber ? `PR #${String(workItem.githubPrNumber)}` : "Pull request";
+    actions.push({
+      key: `pr_link:${prUrl}`,
+      kind: "remote_link",
+      sourceEventId: latestEventId,
+      apply: async () => {
+        await deps.jira.addRemoteLink(issueKey, {
+          globalId: `gooseherd-pr:${prUrl}`,
+          url: prUrl,
+          title: workItem.repo ? `${workItem.repo} ${label}` : label,
+        });
+        await deps.jira.addComment(issueKey, `Pull request opened: ${prUrl}`);
+      },
+    });
+  }
+
+  for (const event of events) {
+    const text = commentFor(event, workItem);
+    if (!text) continue;
+    actions.push({
+      key: `comment:${String(event.id)}`,
+      kind: "comment",
+      sourceEventId: event.id,
+      apply: () => deps.jira.addComment(issueKey, text),
+    });
+  }
+  return actions;
+}
+
+function transitionFor(transitions: Map<string, string>, workItem: WorkItemRecord): string | undefined {
+  return transitions.get(`${workItem.workflow}.${workItem.state}`) ?? transitions.get(workItem.state);
+}
+
+/** Run the transition named `name`, or the one leading to a status named `name`. */
+async function transition(deps: JiraWriteBackCycleDeps, issueKey: string, name: string): Promise<{ skipped?: string } | void> {
+  const wanted = name.toLowerCase();
+  const available = await deps.jira.getTransitions(issueKey);
+  const match = available.find((candidate) => candidate.name.toLowerCase() === wanted)
+    ?? available.find((candidate) => candidate.toStatus?.toLowerCase() === wanted);
+  if (!match) {
+    logWarn("Jira write-back: transition not available", { issueKey, transition: name, available: available.map((t) => t.name) });
+    return { skipped: `transition "${name}" not available` };
+  }
+  await deps.jira.transitionIssue(issueKey, match.id);
+}
+
+/** Comment text for PR and review events; undefined for everything else. */
+export function commentFor(event: WorkItemEventRecord, workItem: WorkItemRecord): string | undefined {
+  const payload = event.payload;
+  switch (event.eventType) {
+    case "review_request.completed": {
+      const outcome = typeof payload["outcome"] === "string" ? payload["outcome"].replace(/_/g, " ") : "recorded";
+      return `Gooseherd review outcome: ${outcome}.`;
+    }
+    case "github.review_submitted": {
+      const state = payload["reviewState"];
+      if (state !== "approved" && state !== "changes_requested") return undefined;
+      const reviewer = typeof payload["reviewer"] === "string" ? payload["reviewer"] : "A reviewer";
+      const verdict = state === "approved" ? "approved" : "requested changes on";
+      return `${reviewer} ${verdict} ${workItem.githubPrUrl ?? "the pull request"}.`;
+    }
+    case "github.pr_merged": {
+      const url = typeof payload["prUrl"] === "string" ? payload["prUrl"] : workItem.githubPrUrl;
+      return `Pull request merged${url ? `: ${url}` : "."}`;
+    }
+    case "github.pr_closed":
+      return `Pull request closed without merging${workItem.githubPrUrl ? `: ${workItem.githubPrUrl}` : "."}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Run write-back cycles on an interval. Resumes after the event behind the
+ * last applied action; on first enable it starts at the newest event, so
+ * history is not replayed into Jira. Pending retries live in memory only.
+ */
+export async function startJiraWriteBack(
+  input: JiraWriteBackCycleDeps & {
+    events: JiraWriteBackCycleDeps["events"] & Pick<WorkItemEventsStore, "findLatestByEventType" | "findLatestId">;
+    intervalMs: number;
+  }
+): Promise<{ stop(): void }> {
+  const lastApplied = await input.events.findLatestByEventType(JIRA_WRITEBACK_APPLIED_EVENT);
+  const sourceEventId = Number(lastApplied?.payload["sourceEventId"]);
+  let cursor = lastApplied && Number.isFinite(sourceEventId)
+    ? sourceEventId - 1
+    : await input.events.findLatestId();
+  let pending = new Map<string, PendingJiraWriteBack>();
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await runJiraWriteBackCycle(input, cursor, pending);
+      cursor = result.cursor;
+      pending = result.pending;
+    } finally {
+      running = false;
+    }
+  };
+
+  const interval = setInterval(() => {
+    tick().catch((error) => {
+      const message = error instanceof Error ? error.message : "unknown";
+      logError("Jira write-back tick failed", { error: message });
+    });
+  }, input.intervalMs);
+  interval.unref?.();
+  tick().catch((error) => {
+    const message = error instanceof Error ? error.message : "unknown";
+    logError("Jira write-back initial tick failed", { error: message });
+  });
+  logInfo("Jira write-back started", { cursor, intervalMs: input.intervalMs });
+
+  return {
+    stop() {
+      clearInterval(interval);
+    },
+  };
+}
@@ -34,6 +34,7 @@ import {
   buildReadyForMergeTask,
 } from "./auto-review-task.js";
 import { WorkItemEventsStore } from "./events-store.js";
+import { WorkItemService, type WorkItemServiceOptions } from "./service.js";
 import { WorkItemStore } from "./store.js";
 import {
   buildFeatureDeliveryApplyReviewFeedbackIntent,
@@ -76,6 +77,7 @@ const ACTIVE_AUTO_REVIEW_RUN_STATUSES = new Set([
   "pushing",
   "awaiting_ci",
   "ci_fixing",
+  "awaiting_approval",
   "cancel_requested",
 ]);
 const PREFETCH_FAILURE_PATTERN = /prefetch/i;
@@ -95,6 +97,8 @@ export interface WorkItemOrchestratorDeps {
     requeueExistingRun(runId: string): void;
   };
   githubService?: Pick<GitHubService, "rerunFailedJobsForCheckRuns" | "getPullRequestCiSnapshot">;
+  /** Reviewer assignment and notification for stage review requests */
+  stageReviews?: Pick<WorkItemServiceOptions, "githubService" | "notifyReviewRequests">;
   checkpointStore?: Pick<RunCheckpointStore, "hasCheckpointOfType">;
 }
 
@@ -537,7 +541,7 @@ export class WorkItemOrchestrator {
         applyReviewFeedbackEnabled: this.deps.config?.featureDeliveryApplyReviewFeedbackEnabled ?? false,
       },
     );
-    const updated = await applyWorkItemDecision(this.workItems, workItem, decision);
+    const updated = await applyWorkItemDecision(this.workItems, workItem, decision, this.events);
 
     await this.handleFeatureDeliveryCommands(workItem.state, updated, decision);
 
@@ -814,6 +818,10 @@ export class WorkItemOrchestrator {
       if (command.type === "ready_for_merge_entered") {
         await this.handleReadyForMergeEntry(previousState, workItem);
       }
+
+      if (command.type === "stage_review_requested") {
+        await new WorkItemService(this.db, this.deps.stageReviews).requestStageReview(workItem, command.state);
+      }
     }
   }
 }
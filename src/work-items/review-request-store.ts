@@ -1,12 +1,14 @@
 import { randomUUID } from "node:crypto";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, arrayOverlaps, asc, desc, inArray } from "drizzle-orm";
 import type { Database } from "../db/index.js";
 import { reviewRequests, reviewRequestComments } from "../db/schema.js";
 import type {
   CompleteReviewRequestInput,
   CreateReviewRequestCommentInput,
   CreateReviewRequestInput,
+  ReviewAssignment,
   ReviewRequestCommentRecord,
+  ReviewRequestEscalationTarget,
   ReviewRequestRecord,
 } from "./types.js";
 
@@ -28,6 +30,11 @@ function rowToRecord(row: ReviewRequestRow): ReviewRequestRecord {
     requestedByUserId: row.requestedByUserId,
     requestedAt: row.requestedAt.toISOString(),
     resolvedAt: row.resolvedAt?.toISOString(),
+    workflowStage: row.workflowStage ?? undefined,
+    remindedAt: row.remindedAt?.toISOString(),
+    escalatedAt: row.escalatedAt?.toISOString(),
+    escalationTarget: (row.escalationTarget ?? undefined) as ReviewRequestEscalationTarget | undefined,
+    assignment: (row.assignment ?? undefined) as ReviewAssignment | undefined,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
@@ -64,6 +71,7 @@ export class ReviewRequestStore {
       focusPoints: input.focusPoints ?? [],
       requestedByUserId: input.requestedByUserId,
       requestedAt: now,
+      workflowStage: input.workflowStage,
       createdAt: now,
       updatedAt: now,
     });
@@ -89,15 +97,60 @@ export class ReviewRequestStore {
     return rows.map(rowToRecord);
   }
 
-  async completeReviewRequest(id: string, input: CompleteReviewRequestInput): Promise<ReviewRequestRecord> {
-    const resolvedAt = input.resolvedAt ? new Date(input.resolvedAt) : new Date();
+  async listReviewRequestsForWorkItems(workItemIds: string[]): Promise<ReviewRequestRecord[]> {
+    if (workItemIds.length === 0) {
+      return [];
+    }
+    const rows = await this.db
+      .select()
+      .from(reviewRequests)
+      .where(inArray(reviewRequests.workItemId, workItemIds))
+      .orderBy(asc(reviewRequests.requestedAt));
+    return rows.map(rowToRecord);
+  }
+
+  /** Pending requests across all work items, oldest first. */
+  async listPendingReviewRequests(): Promise<ReviewRequestRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(reviewRequests)
+      .where(eq(reviewRequests.status, "pending"))
+      .orderBy(asc(reviewRequests.requestedAt));
+    return rows.map(rowToRecord);
+  }
+
+  async markReminded(id: string, remindedAt: Date): Promise<void> {
+    await this.db
+      .update(reviewRequests)
+      .set({ remindedAt, updatedAt: new Date() })
+      .where(eq(reviewRequests.id, id));
+  }
+
+  async markEscalated(id: string, escalatedAt: Date, target: ReviewRequestEscalationTarget): Promise<void> {
+    await this.db
+      .update(reviewRequests)
+      .set({ escalatedAt, escalationTarget: target, updatedAt: new Date() })
+      .where(eq(reviewRequests.id, id));
+  }
 
+  /** Requests ever assigned to any of these users — the history reviewer assignment balances over. */
+  async listReviewRequestsAssignedTo(userIds: string[]): Promise<ReviewRequestRecord[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const rows = await this.db
+      .select()
+      .from(reviewRequests)
+      .where(arrayOverlaps(reviewRequests.assignedUserIds, userIds));
+    return rows.map(rowToRecord);
+  }
+
+  async setAssignment(id: string, assignment: ReviewAssignment): Promise<ReviewRequestRecord> {
     await this.db
       .update(reviewRequests)
       .set({
-        status: "completed",
-        outcome: input.outcome,
-        resolvedAt,
+        assignedUserIds: assignment.reviewers.map((reviewer) => reviewer.userId),
+        assignment: assignment as unknown as Record<string, unknown>,
         updatedAt: new Date(),
       })
       .where(eq(reviewRequests.id, id));
@@ -107,6 +160,26 @@ export class ReviewRequestStore {
     return updated;
   }
 
+  /**
+   * Complete a pending request. Conditional on the status, so of two
+   * concurrent answers only one wins; the loser gets undefined.
+   */
+  async completeReviewRequest(id: string, input: CompleteReviewRequestInput): Promise<ReviewRequestRecord | undefined> {
+    const resolvedAt = input.resolvedAt ? new Date(input.resolvedAt) : new Date();
+
+    const rows = await this.db
+      .update(reviewRequests)
+      .set({
+        status: "completed",
+        outcome: input.outcome,
+        resolvedAt,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(reviewRequests.id, id), eq(reviewRequests.status, "pending")))
+      .returning();
+    return rows[0] ? rowToRecord(rows[0]) : undefined;
+  }
+
   async setStatus(id: string, status: ReviewRequestRecord["status"]): Promise<ReviewRequestRecord> {
     await this.db
       .update(reviewRequests)
@@ -0,0 +1,246 @@
+/**
+ * Review SLA monitor — chases review requests nobody answers.
+ *
+ * The SLA comes from the `reviewSla` of the workflow state a request was made
+ * for, and only applies while the work item is still in that state. Once a
+ * request is overdue the reviewers get a Slack reminder (repeated every
+ * `remindEveryHours`); after `escalateAfterHours` the escalation target is
+ * notified and may answer too; after `expireAfterHours` the request is
+ * completed as `no_response` and the state consequence applied.
+ */
+
+import { logError, logInfo } from "../logger.js";
+import type { WorkItemEventsStore } from "./events-store.js";
+import type { ReviewRequestStore } from "./review-request-store.js";
+import type { ReviewSlaNotice } from "./slack-actions.js";
+import type { WorkItemStore } from "./store.js";
+import type { ReviewRequestRecord, WorkItemRecord, WorkItemState } from "./types.js";
+import { stateDefinition, workflowDefinitionFor, type WorkflowReviewSla } from "./workflow-definition.js";
+
+const HOUR_MS = 3_600_000;
+
+export interface ReviewSlaCycleDeps {
+  reviewRequests: Pick<ReviewRequestStore, "listPendingReviewRequests" | "markReminded" | "markEscalated">;
+  workItems: Pick<WorkItemStore, "getWorkItem">;
+  events: Pick<WorkItemEventsStore, "append">;
+  notify: (workItem: WorkItemRecord, reviewRequest: ReviewRequestRecord, notice: ReviewSlaNotice) => Promise<void>;
+  /** Complete the request as no_response; see WorkItemService.expireReviewRequest */
+  expire: (reviewRequestId: string, onNoResponse?: WorkItemState) => Promise<unknown>;
+  now?: () => Date;
+}
+
+export interface ReviewSlaCycleResult {
+  reminded: number;
+  escalated: number;
+  expired: number;
+  failed: number;
+}
+
+export interface ReviewSlaDeadlines {
+  dueAt: Date;
+  escalateAt?: Date;
+  expireAt?: Date;
+}
+
+/**
+ * The SLA a pending request is held to, or undefined once the work item left
+ * its stage. Requests made before stages were recorded have none, so old
+ * requests are never reminded or expired in bulk.
+ */
+export function reviewSlaFor(workItem: WorkItemRecord, reviewRequest: ReviewRequestRecord): WorkflowReviewSla | undefined {
+  const stage = reviewRequest.workflowStage;
+  if (!stage || workItem.state !== stage) {
+    return undefined;
+  }
+  return stateDefinition(workflowDefinitionFor(workItem), stage)?.reviewSla;
+}
+
+export function reviewSlaDeadlines(reviewRequest: ReviewRequestRecord, sla: WorkflowReviewSla): ReviewSlaDeadlines {
+  const requestedAt = Date.parse(reviewRequest.requestedAt);
+  const after = (hours: number | undefined) => (hours === undefined ? undefined : new Date(requestedAt + hours * HOUR_MS));
+  return {
+    dueAt: after(sla.respondWithinHours)!,
+    escalateAt: sla.escalateTo ? after(sla.escalateAfterHours) : undefined,
+    expireAt: after(sla.expireAfterHours),
+  };
+}
+
+/** Apply whichever SLA step is due for each pending request — at most one per request per cycle. */
+export async function runReviewSlaCycle(deps: ReviewSlaCycleDeps): Promise<ReviewSlaCycleResult> {
+  const now = deps.now?.() ?? new Date();
+  const result: ReviewSlaCycleResult = { reminded: 0, escalated: 0, expired: 0, failed: 0 };
+  const workItems = new Map<string, WorkItemRecord | undefined>();
+
+  for (const request of await deps.reviewRequests.listPendingReviewRequests()) {
+    if (!workItems.has(request.workItemId)) {
+      workItems.set(request.workItemId, await deps.workItems.getWorkItem(request.workItemId));
+    }
+    const workItem = workItems.get(request.workItemId);
+    const sla = workItem ? reviewSlaFor(workItem, request) : undefined;
+    if (!workItem || !sla) continue;
+
+    try {
+      const step = await applySlaStep(deps, workItem, request, sla, now);
+      if (step) result[step]++;
+    } catch (error) {
+      result.failed++;
+      const message = error instanceof Error ? error.message : "unknown";
+      logError("Review SLA step failed", { reviewRequestId: request.id, workItemId: workItem.id, error: message });
+    }
+  }
+  return result;
+}
+
+async function applySlaStep(
+  deps: ReviewSlaCycleDeps,
+  workItem: WorkItemRecord,
+  request: ReviewRequestRecord,
+  sla: WorkflowReviewSla,
+  now: Date,
+): Promise<keyof Omit<ReviewSlaCycleResult, "failed"> | undefined> {
+  const deadlines = reviewSlaDeadlines(request, sla);
+
+  if (deadlines.expireAt && now >= deadlines.expireAt) {
+    await deps.expire(request.id, sla.onNoResponse);
+    logInfo("Review request expired without response", { reviewRequestId: request.id, workItemId: workItem.id });
+    return "expired";
+  }
+
+  if (deadlines.escalateAt && now >= deadlines.escalateAt && !request.escalatedAt && sla.escalateTo) {
+    const escalated = { ...request, escalatedAt: now.toISOString(), escalationTarget: sla.escalateTo };
+    await deps.notify(workItem, escalated, "escalation");
+    await deps.reviewRequests.markEscalated(request.id, now, sla.escalateTo);
+    await deps.events.append({
+      workItemId: workItem.id,
+      eventType: "review_request.escalated",
+      payload: { reviewRequestId: request.id, targetType: sla.escalateTo.targetType, targetRef: sla.escalateTo.targetRef },
+    });
+    return "escalated";
+  }
+
+  const lastReminder = request.remindedAt ? Date.parse(request.remindedAt) : undefined;
+  const reminderDue = lastReminder === undefined
+    ? now >= deadlines.dueAt
+    : sla.remindEveryHours !== undefined && now.getTime() >= lastReminder + sla.remindEveryHours * HOUR_MS;
+  if (!reminderDue) {
+    return undefined;
+  }
+  await deps.notify(workItem, request, "reminder");
+  await deps.reviewRequests.markReminded(request.id, now);
+  await deps.events.append({
+    workItemId: workItem.id,
+    eventType: "review_request.reminded",
+    payload: { reviewRequestId: request.id, dueAt: deadlines.dueAt.toISOString() },
+  });
+  return "reminded";
+}
+
+// ── Dashboard ──
+
+export interface OverdueReview {
+  reviewRequestId: string;
+  workItemId: string;
+  workItemTitle: string;
+  jiraIssueKey?: string;
+  stage: WorkItemState;
+  title: string;
+  targetType: ReviewRequestRecord["targetType"];
+  requestedAt: string;
+  dueAt: string;
+  escalated: boolean;
+  expiresAt?: string;
+}
+
+export interface OverdueReviewTeam {
+  teamId: string;
+  teamName: string;
+  reviews: OverdueReview[];
+}
+
+/** Pending requests past their response deadline, grouped by the work item's owner team. */
+export async function listOverdueReviews(
+  deps: {
+    reviewRequests: Pick<ReviewRequestStore, "listPendingReviewRequests">;
+    workItems: Pick<WorkItemStore, "getWorkItem">;
+    getTeamName: (teamId: string) => Promise<string | undefined>;
+  },
+  now = new Date(),
+): Promise<OverdueReviewTeam[]> {
+  const teams = new Map<string, OverdueReviewTeam>();
+  const workItems = new Map<string, WorkItemRecord | undefined>();
+
+  for (const request of await deps.reviewRequests.listPendingReviewRequests()) {
+    if (!workItems.has(request.workItemId)) {
+      workItems.set(request.workItemId, await deps.workItems.getWorkItem(request.workItemId));
+    }
+    const workItem = workItems.get(request.workItemId);
+    const sla = workItem ? reviewSlaFor(workItem, request) : undefined;
+    if (!workItem || !sla) continue;
+    const deadlines = reviewSlaDeadlines(request, sla);
+    if (now < deadlines.dueAt) continue;
+
+    let team = teams.get(workItem.ownerTeamId);
+    if (!team) {
+      team = {
+        teamId: workItem.ownerTeamId,
+        teamName: (await deps.getTeamName(workItem.ownerTeamId)) ?? workItem.ownerTeamId,
+        reviews: [],
+      };
+      teams.set(workItem.ownerTeamId, team);
+    }
+    team.reviews.push({
+      reviewRequestId: request.id,
+      workItemId: workItem.id,
+      workItemTitle: workItem.title,
+      jiraIssueKey: workItem.jiraIssueKey,
+      stage: workItem.state,
+      title: request.title,
+      targetType: request.targetType,
+      requestedAt: request.requestedAt,
+      dueAt: deadlines.dueAt.toISOString(),
+      escalated: Boolean(request.escalatedAt),
+      expiresAt: deadlines.expireAt?.toISOString(),
+    });
+  }
+
+  return Array.from(teams.values()).sort((a, b) => b.reviews.length - a.reviews.length || a.teamName.localeCompare(b.teamName));
+}
+
+/** Run SLA cycles on an interval. */
+export function startReviewSlaMonitor(input: ReviewSlaCycleDeps & { intervalMs: number }): { stop(): void } {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await runReviewSlaCycle(input);
+      if (result.reminded + result.escalated + result.expired > 0) {
+        logInfo("Review SLA cycle", { ...result });
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const interval = setInterval(() => {
+    tick().catch((error) => {
+      const message = error instanceof Error ? error.message : "unknown";
+      logError("Review SLA monitor tick failed", { error: message });
+    });
+  }, input.intervalMs);
+  interval.unref?.();
+  tick().catch((error) => {
+    const message = error instanceof Error ? error.message : "unknown";
+    logError("Review SLA monitor initial tick failed", { error: message });
+  });
+  logInfo("Review SLA monitor started", { intervalMs: input.intervalMs });
+
+  return {
+    stop() {
+      clearInterval(interval);
+    },
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * Reviewer assignment — picks concrete reviewers for a team or team_role
+ * review request instead of leaving it to whoever notices first.
+ *
+ * Candidates are the target team's members (or those holding the role).
+ * Anyone out of office and the pull request author are skipped. When the
+ * stage's `assign.codeowners` is on, owners of the changed files (by the
+ * repository's CODEOWNERS at the PR base) are preferred; the rest are ordered
+ * by the stage's strategy — `least_loaded` (fewest pending assigned reviews)
+ * or `round_robin` (least recently assigned). Who was picked and why is
+ * stored on the request.
+ */
+
+import type { GitHubService } from "../github.js";
+import { logError, logInfo } from "../logger.js";
+import type { WorkItemEventsStore } from "./events-store.js";
+import type { IdentityUserRecord, WorkItemIdentityStore } from "./identity-store.js";
+import type { ReviewRequestStore } from "./review-request-store.js";
+import type { ReviewAssignment, ReviewRequestRecord, WorkItemRecord } from "./types.js";
+import type { WorkflowReviewAssignPolicy } from "./workflow-definition.js";
+
+const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+// ── CODEOWNERS ──
+
+export interface CodeownersRule {
+  pattern: string;
+  matcher: RegExp;
+  /** GitHub logins, lowercased; team owners (@org/team) and emails are ignored */
+  owners: string[];
+}
+
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) continue;
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({
+      pattern: pattern!,
+      matcher: codeownersPatternToRegExp(pattern!),
+      owners: owners
+        .filter((owner) => owner.startsWith("@") && !owner.includes("/"))
+        .map((owner) => owner.slice(1).toLowerCase()),
+    });
+  }
+  return rules;
+}
+
+function codeownersPatternToRegExp(pattern: string): RegExp {
+  // gitignore semantics: a slash anywhere but the end anchors the pattern at the root
+  const anchored = pattern.startsWith("/") || pattern.slice(0, -1).includes("/");
+  const directoryOnly = pattern.endsWith("/");
+  const body = pattern.replace(/^\//, "").replace(/\/$/, "");
+
+  let source = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]!;
+    if (char === "*" && body[i + 1] === "*") {
+      if (body[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`${anchored ? "^" : "^(?:.*/)?"}${source}${directoryOnly ? "/.*$" : "(?:/.*)?$"}`);
+}
+
+/** Owners of a path — the last matching rule wins, as on GitHub. */
+export function codeownersFor(rules: CodeownersRule[], filePath: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i]!.matcher.test(filePath)) {
+      return rules[i]!.owners;
+    }
+  }
+  return [];
+}
+
+/** Number of the given files each login owns. */
+export function countOwnedFiles(rules: CodeownersRule[], files: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    for (const owner of codeownersFor(rules, file)) {
+      counts.set(owner, (counts.get(owner) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// ── Picking ──
+
+export interface ReviewerLoad {
+  /** Pending requests currently assigned to the user */
+  pending: number;
+  lastAssignedAt?: string;
+}
+
+export interface PickReviewersInput {
+  candidates: IdentityUserRecord[];
+  count: number;
+  strategy: WorkflowReviewAssignPolicy["strategy"];
+  load: Map<string, ReviewerLoad>;
+  /** Changed files owned per GitHub login (lowercased) */
+  ownedFiles: Map<string, number>;
+  /** User ids that must not be picked, with the reason recorded */
+  exclude: Map<string, string>;
+  /** GitHub login of the pull request author */
+  authorLogin?: string;
+  now: Date;
+}
+
+export function pickReviewers(input: PickReviewersInput): Pick<ReviewAssignment, "reviewers" | "skipped"> {
+  const skipped: ReviewAssignment["skipped"] = [];
+  const available: IdentityUserRecord[] = [];
+  const authorLogin = input.authorLogin?.toLowerCase();
+
+  for (const candidate of input.candidates) {
+    const skip = (reason: string) => skipped.push({ userId: candidate.id, displayName: candidate.displayName, reason });
+    if (input.exclude.has(candidate.id)) {
+      skip(input.exclude.get(candidate.id)!);
+    } else if (candidate.awayUntil && Date.parse(candidate.awayUntil) > input.now.getTime()) {
+      skip(`out of office until ${candidate.awayUntil.slice(0, 10)}`);
+    } else if (authorLogin && candidate.githubLogin?.toLowerCase() === authorLogin) {
+      skip("pull request author");
+    } else {
+      available.push(candidate);
+    }
+  }
+
+  const owned = (user: IdentityUserRecord) => (user.githubLogin ? input.ownedFiles.get(user.githubLogin.toLowerCase()) ?? 0 : 0);
+  const load = (user: IdentityUserRecord) => input.load.get(user.id) ?? { pending: 0 };
+  const lastAssigned = (user: IdentityUserRecord) => load(user).lastAssignedAt ?? "";
+
+  const ordered = available.sort((a, b) =>
+    Number(owned(b) > 0) - Number(owned(a) > 0)
+    || (input.strategy === "least_loaded" ? load(a).pending - load(b).pending : 0)
+    || lastAssigned(a).localeCompare(lastAssigned(b))
+    || a.displayName.localeCompare(b.displayName));
+
+  const reviewers = ordered.slice(0, input.count).map((user) => {
+    const reasons: string[] = [];
+    const files = owned(user);
+    if (files > 0) {
+      reasons.push(`code owner of ${String(files)} changed file${files === 1 ? "" : "s"}`);
+    }
+    if (input.strategy === "least_loaded") {
+      reasons.push(`${String(load(user).pending)} pending review${load(user).pending === 1 ? "" : "s"}`);
+    }
+    const last = load(user).lastAssignedAt;
+    reasons.push(last ? `last assigned ${last.slice(0, 10)}` : "not assigned before");
+    return { userId: user.id, displayName: user.displayName, reasons };
+  });
+  return { reviewers, skipped };
+}
+
+/** Pending assignments and most recent assignment per user, from their assignment history. */
+export function reviewerLoad(history: ReviewRequestRecord[], excludeRequestId?: string): Map<string, ReviewerLoad> {
+  const loads = new Map<string, ReviewerLoad>();
+  for (const request of history) {
+    if (request.id === excludeRequestId || !request.assignment) continue;
+    for (const reviewer of request.assignment.reviewers) {
+      const entry = loads.get(reviewer.userId) ?? { pending: 0 };
+      if (request.status === "pending") entry.pending++;
+      if (!entry.lastAssignedAt || request.assignment.assignedAt > entry.lastAssignedAt) {
+        entry.lastAssignedAt = request.assignment.assignedAt;
+      }
+      loads.set(reviewer.userId, entry);
+    }
+  }
+  return loads;
+}
+
+// ── Assigner ──
+
+export type ReviewerAssignmentGitHub = Pick<
+  GitHubService,
+  "getPullRequest" | "listPullRequestFiles" | "readFile" | "requestPullRequestReviewers"
+>;
+
+export interface ReviewerAssignerDeps {
+  identity: Pick<WorkItemIdentityStore, "listUsersForTeam" | "listUsersForTeamRole">;
+  reviewRequests: Pick<ReviewRequestStore, "listReviewRequestsAssignedTo" | "setAssignment">;
+  events: Pick<WorkItemEventsStore, "append">;
+  github?: ReviewerAssignmentGitHub;
+  now?: () => Date;
+}
+
+export interface AssignReviewersInput {
+  policy: WorkflowReviewAssignPolicy;
+  /** Also request the picked reviewers on the pull request */
+  requestOnGitHub: boolean;
+  /** Reviewers kept from a previous assignment; only the remaining slots are picked */
+  keep?: ReviewAssignment["reviewers"];
+  exclude?: Map<string, string>;
+  reassignedByUserId?: string;
+}
+
+export class ReviewerAssigner {
+  constructor(private readonly deps: ReviewerAssignerDeps) {}
+
+  /** Assign reviewers to a request; returns it unchanged when nobody is available. */
+  async assign(workItem: WorkItemRecord, request: ReviewRequestRecord, input: AssignReviewersInput): Promise<ReviewRequestRecord> {
+    const now = this.deps.now?.() ?? new Date();
+    const keep = input.keep ?? [];
+    const exclude = new Map(input.exclude);
+    for (const reviewer of keep) {
+      exclude.set(reviewer.userId, "already assigned");
+    }
+
+    const candidates = await this.listCandidates(workItem, request);
+    const pullRequest = await this.loadPullRequest(workItem, input.policy.codeowners);
+    const load = reviewerLoad(
+      await this.deps.reviewRequests.listReviewRequestsAssignedTo(candidates.map((candidate) => candidate.id)),
+      request.id,
+    );
+    const picked = pickReviewers({
+      candidates,
+      count: Math.max(0, input.policy.reviewers - keep.length),
+      strategy: input.policy.strategy,
+      load,
+      ownedFiles: pullRequest.ownedFiles,
+      exclude,
+      authorLogin: pullRequest.authorLogin,
+      now,
+    });
+    if (picked.reviewers.length === 0) {
+      logInfo("No reviewer available to assign", { reviewRequestId: request.id, workItemId: workItem.id });
+      return request;
+    }
+
+    const assignment: ReviewAssignment = {
+      strategy: input.policy.strategy,
+      reviewers: [...keep, ...picked.reviewers],
+      skipped: picked.skipped.filter((entry) => !keep.some((reviewer) => reviewer.userId === entry.userId)),
+      assignedAt: now.toISOString(),
+      ...(input.reassignedByUserId ? { reassignedByUserId: input.reassignedByUserId } : {}),
+    };
+    const updated = await this.deps.reviewRequests.setAssignment(request.id, assignment);
+    await this.deps.events.append({
+      workItemId: workItem.id,
+      eventType: input.reassignedByUserId ? "review_request.reassigned" : "review_request.assigned",
+      actorUserId: input.reassignedByUserId,
+      payload: {
+        reviewRequestId: request.id,
+        strategy: assignment.strategy,
+        reviewerUserIds: assignment.reviewers.map((reviewer) => reviewer.userId),
+      },
+    });
+
+    if (input.requestOnGitHub) {
+      await this.requestOnGitHub(workItem, picked.reviewers.map((reviewer) => reviewer.userId), candidates);
+    }
+    return updated;
+  }
+
+  private async listCandidates(workItem: WorkItemRecord, request: ReviewRequestRecord): Promise<IdentityUserRecord[]> {
+    const ref = request.targetRef ?? {};
+    const teamId = typeof ref["teamId"] === "string" ? ref["teamId"] : workItem.ownerTeamId;
+    if (request.targetType === "team") {
+      return this.deps.identity.listUsersForTeam(teamId);
+    }
+    const role = typeof ref["role"] === "string" ? ref["role"] : typeof ref["teamRole"] === "string" ? ref["teamRole"] : undefined;
+    return request.targetType === "team_role" && role ? this.deps.identity.listUsersForTeamRole(teamId, role) : [];
+  }
+
+  private async loadPullRequest(
+    workItem: WorkItemRecord,
+    codeowners: boolean,
+  ): Promise<{ authorLogin?: string; ownedFiles: Map<string, number> }> {
+    const github = this.deps.github;
+    if (!github || !workItem.repo || workItem.githubPrNumber === undefined) {
+      return { ownedFiles: new Map() };
+    }
+    try {
+      const pullRequest = await github.getPullRequest(workItem.repo, workItem.githubPrNumber);
+      if (!codeowners) {
+        return { authorLogin: pullRequest.authorLogin, ownedFiles: new Map() };
+      }
+      const rules = await this.readCodeowners(github, workItem.repo, pullRequest.baseRef);
+      const files = rules.length > 0 ? await github.listPullRequestFiles(workItem.repo, workItem.githubPrNumber) : [];
+      return { authorLogin: pullRequest.authorLogin, ownedFiles: countOwnedFiles(rules, files) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown";
+      logError("Reviewer assignment could not read the pull request", { workItemId: workItem.id, error: message });
+      return { ownedFiles: new Map() };
+    }
+  }
+
+  private async readCodeowners(github: ReviewerAssignmentGitHub, repo: string, ref?: string): Promise<CodeownersRule[]> {
+    for (const filePath of CODEOWNERS_PATHS) {
+      try {
+        return parseCodeowners(await github.readFile(repo, filePath, ref));
+      } catch {
+        // Not at this location; GitHub checks the next one
+      }
+    }
+    return [];
+  }
+
+  private async requestOnGitHub(workItem: WorkItemRecord, userIds: string[], candidates: IdentityUserRecord[]): Promise<void> {
+    const logins = candidates
+      .filter((candidate) => userIds.includes(candidate.id) && candidate.githubLogin)
+      .map((candidate) => candidate.githubLogin!);
+    if (!this.deps.github || !workItem.repo || workItem.githubPrNumber === undefined || logins.length === 0) {
+      return;
+    }
+    try {
+      await this.deps.github.requestPullRequestReviewers(workItem.repo, workItem.githubPrNumber, logins);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown";
+      logError("Failed to request GitHub reviewers", { workItemId: workItem.id, error: message });
+    }
+  }
+}
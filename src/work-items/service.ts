@@ -3,15 +3,25 @@ import { RunStore } from "../store.js";
 import { actorAuditFields, isAdminOverrideActor, requireUserActor, type WorkItemActor } from "./actor.js";
 import { WorkItemAuthorization } from "./authorization.js";
 import { WorkItemEventsStore } from "./events-store.js";
+import { applyWorkItemDecision } from "./feature-delivery-decision.js";
+import {
+  reduceFeatureDelivery,
+  type FeatureDeliveryDecision,
+  type FeatureDeliveryReducerPolicy,
+} from "./feature-delivery-reducer.js";
+import { WorkItemIdentityStore } from "./identity-store.js";
 import { nextDiscoveryStateAfterPmConfirmation, evaluateDiscoveryReviewRound } from "./product-discovery-policy.js";
 import { ReviewRequestStore } from "./review-request-store.js";
+import { ReviewerAssigner, type ReviewerAssignmentGitHub } from "./reviewer-assignment.js";
 import { WorkItemStore } from "./store.js";
 import type {
   CreateWorkItemInput,
   ReviewRequestCommentSource,
   ReviewRequestRecord,
   WorkItemRecord,
+  WorkItemState,
 } from "./types.js";
+import { stageDefinition, stateDefinition, workflowDefinitionFor } from "./workflow-definition.js";
 import {
   assertCanConfirmDiscovery,
   assertCanRequestDiscoveryReview,
@@ -19,8 +29,17 @@ import {
   assertStateTransitionAllowed,
 } from "./workflow-policy.js";
 
+type UserActor = Extract<WorkItemActor, { principalType: "user" }>;
+
 export interface WorkItemServiceOptions {
+  qaPreparationHandler?: (workItem: WorkItemRecord) => Promise<void> | void;
   readyForMergeHandler?: (workItem: WorkItemRecord) => Promise<void> | void;
+  /** Feature delivery policy applied when a stage review request is answered */
+  reducerPolicy?: FeatureDeliveryReducerPolicy;
+  /** Used by reviewer assignment for CODEOWNERS and to request reviewers on the PR */
+  githubService?: ReviewerAssignmentGitHub;
+  /** Tell reviewers about stage review requests, e.g. in Slack */
+  notifyReviewRequests?: (workItem: WorkItemRecord, reviewRequests: ReviewRequestRecord[]) => Promise<void>;
 }
 
 export class WorkItemService {
@@ -29,7 +48,12 @@ export class WorkItemService {
   private readonly events: WorkItemEventsStore;
   private readonly runs: RunStore;
   private readonly authorization: WorkItemAuthorization;
+  private readonly identity: WorkItemIdentityStore;
+  private readonly qaPreparationHandler?: WorkItemServiceOptions["qaPreparationHandler"];
   private readonly readyForMergeHandler?: WorkItemServiceOptions["readyForMergeHandler"];
+  private readonly reducerPolicy: FeatureDeliveryReducerPolicy;
+  private readonly notifyReviewRequests?: WorkItemServiceOptions["notifyReviewRequests"];
+  private readonly reviewerAssigner: ReviewerAssigner;
 
   constructor(private readonly db: Database, options: WorkItemServiceOptions = {}) {
     this.workItems = new WorkItemStore(db);
@@ -37,7 +61,17 @@ export class WorkItemService {
     this.events = new WorkItemEventsStore(db);
     this.runs = new RunStore(db);
     this.authorization = new WorkItemAuthorization(db);
+    this.identity = new WorkItemIdentityStore(db);
+    this.qaPreparationHandler = options.qaPreparationHandler;
     this.readyForMergeHandler = options.readyForMergeHandler;
+    this.reducerPolicy = options.reducerPolicy ?? {};
+    this.notifyReviewRequests = options.notifyReviewRequests;
+    this.reviewerAssigner = new ReviewerAssigner({
+      identity: this.identity,
+      reviewRequests: this.reviewRequests,
+      events: this.events,
+      github: options.githubService,
+    });
   }
 
   async getWorkItem(id: string): Promise<WorkItemRecord | undefined> {
@@ -111,6 +145,7 @@ export class WorkItemService {
         requestMessage: request.requestMessage,
         focusPoints: request.focusPoints,
         requestedByUserId: actor.userId,
+        workflowStage: "waiting_for_review",
       }));
     }
 
@@ -139,6 +174,164 @@ export class WorkItemService {
     return created;
   }
 
+  /**
+   * Create the review request a workflow stage declares. Called when the
+   * stage is entered; requests left pending from earlier stages are
+   * superseded. With `assign`, concrete reviewers are picked before anyone
+   * is notified.
+   */
+  async requestStageReview(workItem: WorkItemRecord, state: WorkItemState): Promise<ReviewRequestRecord | undefined> {
+    const review = stageDefinition(workflowDefinitionFor(workItem), state)?.review;
+    const request = review?.request;
+    if (!review || !request || workItem.state !== state) {
+      return undefined;
+    }
+
+    const currentRequests = await this.reviewRequests.listReviewRequestsForWorkItem(workItem.id);
+    for (const pending of currentRequests.filter((existing) => existing.status === "pending")) {
+      await this.reviewRequests.setStatus(pending.id, "superseded");
+    }
+    const reviewRound = Math.max(0, ...currentRequests.map((existing) => existing.reviewRound)) + 1;
+
+    const created = await this.reviewRequests.createReviewRequest({
+      workItemId: workItem.id,
+      reviewRound,
+      type: request.type,
+      targetType: request.targetType,
+      targetRef: request.targetRef,
+      status: "pending",
+      title: request.title,
+      requestMessage: request.message,
+      requestedByUserId: workItem.createdByUserId,
+      workflowStage: state,
+    });
+    await this.events.append({
+      workItemId: workItem.id,
+      eventType: "review_request.created",
+      actorUserId: workItem.createdByUserId,
+      payload: { reviewRound, reviewRequestIds: [created.id], stage: state },
+    });
+
+    const assigned = request.assign
+      ? await this.reviewerAssigner.assign(workItem, created, {
+          policy: request.assign,
+          requestOnGitHub: review.approvedBy.includes("github_review"),
+        })
+      : created;
+    await this.notifyReviewRequests?.(workItem, [assigned]);
+    return assigned;
+  }
+
+  /**
+   * Hand an assigned review request on. An assignee replaces only themselves;
+   * anyone else who may respond to the request replaces every assignee.
+   */
+  async reassignReviewRequest(input: { reviewRequestId: string; actor: WorkItemActor }): Promise<ReviewRequestRecord> {
+    const actor = requireUserActor(input.actor);
+    const request = await this.reviewRequests.getReviewRequest(input.reviewRequestId);
+    if (!request) {
+      throw new Error(`ReviewRequest not found: ${input.reviewRequestId}`);
+    }
+    const workItem = await this.requireWorkItem(request.workItemId);
+    await this.authorization.assertCanRespondToReviewRequest(actor.userId, workItem, request);
+    if (request.status !== "pending" || !request.assignment) {
+      throw new Error("Only pending review requests with assigned reviewers can be reassigned");
+    }
+
+    const current = request.assignment.reviewers;
+    const replaced = current.some((reviewer) => reviewer.userId === actor.userId)
+      ? current.filter((reviewer) => reviewer.userId === actor.userId)
+      : current;
+    const review = request.workflowStage
+      ? stageDefinition(workflowDefinitionFor(workItem), request.workflowStage)?.review
+      : undefined;
+    const reassigned = await this.reviewerAssigner.assign(workItem, request, {
+      policy: {
+        reviewers: current.length,
+        strategy: request.assignment.strategy,
+        codeowners: review?.request?.assign?.codeowners ?? true,
+      },
+      requestOnGitHub: review?.approvedBy.includes("github_review") ?? false,
+      keep: current.filter((reviewer) => !replaced.includes(reviewer)),
+      exclude: new Map(replaced.map((reviewer) => [reviewer.userId, "reassigned away"])),
+      reassignedByUserId: actor.userId,
+    });
+    if (reassigned === request) {
+      throw new Error("No other reviewer is available");
+    }
+
+    // Only the newly assigned reviewers need to hear about it
+    const added = reassigned.assignment!.reviewers.filter((reviewer) => !current.some((entry) => entry.userId === reviewer.userId));
+    await this.notifyReviewRequests?.(workItem, [{ ...reassigned, assignment: { ...reassigned.assignment!, reviewers: added } }]);
+    return reassigned;
+  }
+
+  /**
+   * Complete an unanswered request as `no_response` once its SLA runs out.
+   * The work item moves to `onNoResponse` when given (through the feature
+   * delivery reducer for stages, so entry actions run); otherwise a discovery
+   * round resolves as if the reviewer had answered, and a stage stays put.
+   */
+  async expireReviewRequest(input: {
+    reviewRequestId: string;
+    onNoResponse?: WorkItemState;
+  }): Promise<WorkItemRecord | undefined> {
+    const request = await this.reviewRequests.getReviewRequest(input.reviewRequestId);
+    if (!request || request.status !== "pending") {
+      return undefined;
+    }
+    const workItem = await this.requireWorkItem(request.workItemId);
+    const completed = await this.reviewRequests.completeReviewRequest(request.id, { outcome: "no_response" });
+    if (!completed) {
+      return undefined;
+    }
+    await this.events.append({
+      workItemId: workItem.id,
+      eventType: "review_request.completed",
+      payload: { reviewRequestId: request.id, outcome: "no_response", expired: true },
+    });
+
+    const currentRound = await this.reviewRequests.listReviewRequestsForWorkItem(workItem.id, completed.reviewRound);
+    let patch: { state: WorkItemState; substate?: string; flagsToAdd?: string[] } | undefined;
+    if (input.onNoResponse) {
+      for (const pending of currentRound.filter((existing) => existing.status === "pending")) {
+        await this.reviewRequests.setStatus(pending.id, "superseded");
+      }
+      if (workItem.workflow === "feature_delivery") {
+        const decision = reduceFeatureDelivery(
+          workItem,
+          { type: "review_request.expired", state: completed.workflowStage ?? workItem.state, onNoResponse: input.onNoResponse },
+          this.reducerPolicy,
+        );
+        const updated = await applyWorkItemDecision(this.workItems, workItem, decision, this.events);
+        await this.executeStageCommands(updated, decision);
+        return updated;
+      }
+      patch = {
+        state: input.onNoResponse,
+        substate: stateDefinition(workflowDefinitionFor(workItem), input.onNoResponse)?.substate,
+      };
+    } else if (workItem.workflow === "product_discovery" && workItem.state === "waiting_for_review") {
+      const roundResult = evaluateDiscoveryReviewRound(workItem, currentRound);
+      patch = {
+        state: roundResult.nextState,
+        substate: roundResult.nextState === "waiting_for_pm_confirmation" ? "awaiting_pm_decision" : "applying_review_feedback",
+        flagsToAdd: roundResult.nextState === "waiting_for_pm_confirmation" ? ["all_required_reviews_received"] : [],
+      };
+    }
+    if (!patch || patch.state === workItem.state) {
+      return workItem;
+    }
+
+    const updated = await this.workItems.updateState(workItem.id, patch);
+    await this.events.append({
+      workItemId: workItem.id,
+      eventType: "work_item.state_changed",
+      payload: { state: updated.state, substate: updated.substate, reason: "review_no_response" },
+    });
+    return updated;
+  }
+
   async recordReviewOutcome(input: {
     reviewRequestId: string;
     actor: WorkItemActor;
@@ -153,38 +346,18 @@ export class WorkItemService {
     }
     const workItem = await this.requireWorkItem(existingReviewRequest.workItemId);
     await this.authorization.assertCanRespondToReviewRequest(actor.userId, workItem, existingReviewRequest);
+    if (workItem.workflow === "feature_delivery" && existingReviewRequest.workflowStage) {
+      return this.recordStageReviewOutcome(workItem, existingReviewRequest, actor, input);
+    }
     assertCanResolveDiscoveryReview(workItem);
 
     const completed = await this.reviewRequests.completeReviewRequest(input.reviewRequestId, {
       outcome: input.outcome,
     });
-
-    if (input.comment) {
-      await this.reviewRequests.addComment({
-        reviewRequestId: input.reviewRequestId,
-        authorUserId: actor.userId,
-        source: input.source ?? "dashboard",
-        body: input.comment,
-      });
-      await this.events.append({
-        workItemId: completed.workItemId,
-        eventType: "review_request.comment_added",
-        actorUserId: actor.userId,
-        payload: {
-          reviewRequestId: input.reviewRequestId,
-          source: input.source ?? "dashboard",
-          ...actorAuditFields(actor),
-        },
-      });
-      if (input.source === "slack") {
-        await this.events.append({
-          workItemId: completed.workItemId,
-          eventType: "slack.action_observed",
-          actorUserId: actor.userId,
-          payload: { reviewRequestId: input.reviewRequestId, outcome: input.outcome, ...actorAuditFields(actor) },
-        });
-      }
+    if (!completed) {
+      throw new Error("Review request is no longer pending");
     }
+    await this.addReviewComment(completed, actor, input);
 
     const currentRound = await this.reviewRequests.listReviewRequestsForWorkItem(completed.workItemId, completed.reviewRound);
     const roundResult = evaluateDiscoveryReviewRound(workItem, currentRound);
@@ -215,6 +388,79 @@ export class WorkItemService {
     return updated;
   }
 
+  /**
+   * Answer a workflow stage's review request from Slack or the dashboard. The
+   * answer goes through the feature delivery reducer: an approval sets the
+   * stage's done flag and moves the work item on, requested changes send it
+   * back to auto review.
+   */
+  private async recordStageReviewOutcome(
+    workItem: WorkItemRecord,
+    request: ReviewRequestRecord,
+    actor: UserActor,
+    input: { outcome: NonNullable<ReviewRequestRecord["outcome"]>; comment?: string; source?: ReviewRequestCommentSource },
+  ): Promise<WorkItemRecord> {
+    const outcome = input.outcome;
+    if (outcome !== "approved" && outcome !== "changes_requested") {
+      throw new Error("Stage review requests are answered with approved or changes_requested");
+    }
+    const completed = workItem.state === request.workflowStage
+      ? await this.reviewRequests.completeReviewRequest(request.id, { outcome })
+      : undefined;
+    if (!completed) {
+      throw new Error("Review request is no longer pending");
+    }
+    await this.addReviewComment(completed, actor, input);
+    await this.events.append({
+      workItemId: workItem.id,
+      eventType: "review_request.completed",
+      actorUserId: actor.userId,
+      payload: { reviewRequestId: request.id, outcome, stage: request.workflowStage, ...actorAuditFields(actor) },
+    });
+
+    const decision = reduceFeatureDelivery(
+      workItem,
+      { type: "review_request.responded", state: workItem.state, outcome },
+      this.reducerPolicy,
+    );
+    const updated = await applyWorkItemDecision(this.workItems, workItem, decision, this.events);
+    await this.executeStageCommands(updated, decision);
+    return updated;
+  }
+
+  /**
+   * The pending review request of the work item's current stage that the
+   * GitHub user may answer, if any. A GitHub approval only clears a stage
+   * that requests a review when it comes from one of the request's targets.
+   */
+  async findStageReviewRequestForGitHubReviewer(
+    workItem: WorkItemRecord,
+    githubLogin: string | undefined,
+  ): Promise<ReviewRequestRecord | undefined> {
+    const reviewer = githubLogin ? await this.identity.getUserByGitHubLogin(githubLogin) : undefined;
+    if (!reviewer) {
+      return undefined;
+    }
+    const pending = (await this.reviewRequests.listReviewRequestsForWorkItem(workItem.id))
+      .find((request) => request.status === "pending" && request.workflowStage === workItem.state);
+    if (!pending || !await this.authorization.canRespondToReviewRequest(reviewer.id, workItem, pending)) {
+      return undefined;
+    }
+    return pending;
+  }
+
+  /** Complete a stage review request answered by a GitHub approval. */
+  async completeStageReviewFromGitHub(request: ReviewRequestRecord, githubLogin: string): Promise<void> {
+    if (!await this.reviewRequests.completeReviewRequest(request.id, { outcome: "approved" })) {
+      return;
+    }
+    await this.events.append({
+      workItemId: request.workItemId,
+      eventType: "review_request.completed",
+      payload: { reviewRequestId: request.id, outcome: "approved", stage: request.workflowStage, source: "github", reviewer: githubLogin },
+    });
+  }
+
   async confirmDiscovery(input: {
     workItemId: string;
     approved: boolean;
@@ -618,6 +864,54 @@ export class WorkItemService {
     return workItem;
   }
 
+  private async addReviewComment(
+    request: ReviewRequestRecord,
+    actor: UserActor,
+    input: { outcome: NonNullable<ReviewRequestRecord["outcome"]>; comment?: string; source?: ReviewRequestCommentSource },
+  ): Promise<void> {
+    if (!input.comment) {
+      return;
+    }
+    await this.reviewRequests.addComment({
+      reviewRequestId: request.id,
+      authorUserId: actor.userId,
+      source: input.source ?? "dashboard",
+      body: input.comment,
+    });
+    await this.events.append({
+      workItemId: request.workItemId,
+      eventType: "review_request.comment_added",
+      actorUserId: actor.userId,
+      payload: {
+        reviewRequestId: request.id,
+        source: input.source ?? "dashboard",
+        ...actorAuditFields(actor),
+      },
+    });
+    if (input.source === "slack") {
+      await this.events.append({
+        workItemId: request.workItemId,
+        eventType: "slack.action_observed",
+        actorUserId: actor.userId,
+        payload: { reviewRequestId: request.id, outcome: input.outcome, ...actorAuditFields(actor) },
+      });
+    }
+  }
+
+  private async executeStageCommands(workItem: WorkItemRecord, decision: FeatureDeliveryDecision): Promise<void> {
+    for (const command of decision.commands) {
+      if (command.type === "qa_preparation_entered") {
+        await this.qaPreparationHandler?.(workItem);
+      }
+      if (command.type === "ready_for_merge_entered") {
+        await this.handleReadyForMerge(workItem);
+      }
+      if (command.type === "stage_review_requested") {
+        await this.requestStageReview(workItem, command.state);
+      }
+    }
+  }
+
   private async requireWorkItem(id: string): Promise<WorkItemRecord> {
     const workItem = await this.workItems.getWorkItem(id);
     if (!workItem) throw new Error(`WorkItem not found: ${id}`);
@@ -647,7 +941,7 @@ export class WorkItemService {
 }
 
 function isActivelyProcessingStatus(status: string): boolean {
-  return ["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing"].includes(status);
+  return ["queued", "running", "validating", "pushing", "awaiting_ci", "ci_fixing", "awaiting_approval"].includes(status);
 }
 
 function isUniqueConstraintError(error: unknown): error is Error & { code: string; constraint_name?: string } {
@@ -10,12 +10,18 @@ import { WorkItemIdentityStore } from "./identity-store.js";
 
 export interface BuildWorkItemReviewBlocksInput {
   appName: string;
+  /** Defaults to "<appName> review request" */
+  heading?: string;
   workItemTitle: string;
   workItemDisplayId: string;
   requestTitle: string;
   requestMessage?: string;
   focusPoints?: string[];
   detailUrl?: string;
+  /** Display names of the assigned reviewers */
+  assignees?: string[];
+  /** Offer a Reassign button next to the respond buttons */
+  reassignable?: boolean;
   actionValue: string;
 }
 
@@ -55,7 +61,8 @@ export function buildWorkItemReviewBlocks(input: BuildWorkItemReviewBlocksInput)
       type: "section",
       text: {
         type: "mrkdwn",
-        text: `*${input.appName} review request*\n*${input.workItemDisplayId}* — ${input.workItemTitle}\n*Request:* ${input.requestTitle}`,
+        text: `*${input.heading ?? `${input.appName} review request`}*\n*${input.workItemDisplayId}* — ${input.workItemTitle}\n*Request:* ${input.requestTitle}`
+          + (input.assignees?.length ? `\n*Assigned to:* ${input.assignees.join(", ")}` : ""),
       },
     },
     {
@@ -81,6 +88,14 @@ export function buildWorkItemReviewBlocks(input: BuildWorkItemReviewBlocksInput)
           text: { type: "plain_text", text: "Request changes", emoji: true },
           value: input.actionValue,
         },
+        ...(input.reassignable
+          ? [{
+              type: "button" as const,
+              action_id: "work_item_review_reassign",
+              text: { type: "plain_text" as const, text: "Reassign", emoji: true },
+              value: input.actionValue,
+            }]
+          : []),
       ],
     },
   ];
@@ -103,6 +118,17 @@ export async function resolveReviewRequestDestinations(
 ): Promise<SlackReviewDestination[]> {
   const resolved: SlackReviewDestination[] = [];
 
+  // Assigned reviewers are asked directly instead of the whole target
+  if (reviewRequest.assignment?.reviewers.length) {
+    for (const reviewer of reviewRequest.assignment.reviewers) {
+      const user = await identityStore.getUser(reviewer.userId);
+      if (user?.slackUserId && user.isActive) {
+        resolved.push({ kind: "dm", slackUserId: user.slackUserId, label: `${user.displayName} (assigned)` });
+      }
+    }
+    return resolved;
+  }
+
   if (reviewRequest.targetType === "user") {
     const userId = readStringField(reviewRequest.targetRef, "userId");
     if (!userId) return resolved;
@@ -158,86 +184,128 @@ export async function postWorkItemReviewNotifications(
   workItem: WorkItemRecord,
   reviewRequests: ReviewRequestRecord[],
 ): Promise<void> {
-  const detailUrl = buildWorkItemDetailUrl(config.dashboardPublicUrl, workItem.id);
-  const usernameOpt = config.slackCommandName ? { username: config.slackCommandName } : {};
-
   for (const reviewRequest of reviewRequests) {
-    const actionValue = buildWorkItemSlackActionValue({
-      reviewRequestId: reviewRequest.id,
-      workItemId: workItem.id,
-      homeChannelId: workItem.homeChannelId,
-      homeThreadTs: workItem.homeThreadTs,
-      requestTitle: reviewRequest.title,
-      detailUrl,
-    });
+    const text = `Review requested for ${workItem.jiraIssueKey ?? workItem.id}: ${reviewRequest.title}`;
+    const blocks = reviewRequestBlocks(config, workItem, reviewRequest);
+    const usernameOpt = config.slackCommandName ? { username: config.slackCommandName } : {};
 
     await client.chat.postMessage({
       channel: workItem.homeChannelId,
       thread_ts: workItem.homeThreadTs,
-      text: `Review requested for ${workItem.jiraIssueKey ?? workItem.id}: ${reviewRequest.title}`,
-      blocks: buildWorkItemReviewBlocks({
-        appName: config.appName,
-        workItemTitle: workItem.title,
-        workItemDisplayId: workItem.jiraIssueKey ?? workItem.id.slice(0, 8),
-        requestTitle: reviewRequest.title,
-        requestMessage: reviewRequest.requestMessage,
-        focusPoints: reviewRequest.focusPoints,
-        detailUrl,
-        actionValue,
-      }),
+      text,
+      blocks,
       ...usernameOpt,
     });
 
     const destinations = await resolveReviewRequestDestinations(identityStore, workItem, reviewRequest);
-    const sentKeys = new Set<string>();
-
-    for (const destination of destinations) {
-      if (destination.kind === "channel") {
-        const key = `channel:${destination.channelId}`;
-        if (sentKeys.has(key)) continue;
-        sentKeys.add(key);
-
-        await client.chat.postMessage({
-          channel: destination.channelId,
-          text: `Review requested for ${workItem.jiraIssueKey ?? workItem.id}: ${reviewRequest.title}`,
-          blocks: buildWorkItemReviewBlocks({
-            appName: config.appName,
-            workItemTitle: workItem.title,
-            workItemDisplayId: workItem.jiraIssueKey ?? workItem.id.slice(0, 8),
-            requestTitle: reviewRequest.title,
-            requestMessage: reviewRequest.requestMessage,
-            focusPoints: reviewRequest.focusPoints,
-            detailUrl,
-            actionValue,
-          }),
-          ...usernameOpt,
-        });
-        continue;
-      }
+    await postToReviewDestinations(client, config, destinations, text, blocks);
+  }
+}
+
+export type ReviewSlaNotice = "reminder" | "escalation";
+
+/**
+ * Nudge the reviewers of an overdue request, or — for an escalation — the
+ * escalation target. Posts in the work item thread and to each destination,
+ * with the same respond buttons as the original request.
+ */
+export async function postReviewRequestSlaNotice(
+  client: WebClient,
+  config: AppConfig,
+  identityStore: WorkItemIdentityStore,
+  workItem: WorkItemRecord,
+  reviewRequest: ReviewRequestRecord,
+  notice: ReviewSlaNotice,
+): Promise<void> {
+  const escalation = notice === "escalation" ? reviewRequest.escalationTarget : undefined;
+  if (notice === "escalation" && !escalation) {
+    return;
+  }
+  const displayId = workItem.jiraIssueKey ?? workItem.id;
+  const text = escalation
+    ? `Review escalated for ${displayId}: ${reviewRequest.title} has had no response`
+    : `Review reminder for ${displayId}: ${reviewRequest.title} is waiting on a response`;
+  const blocks = reviewRequestBlocks(
+    config,
+    workItem,
+    reviewRequest,
+    escalation ? `${config.appName} review escalated` : `${config.appName} review reminder`,
+  );
 
-      const key = `dm:${destination.slackUserId}`;
+  await client.chat.postMessage({
+    channel: workItem.homeChannelId,
+    thread_ts: workItem.homeThreadTs,
+    text,
+    ...(config.slackCommandName ? { username: config.slackCommandName } : {}),
+  });
+
+  const destinations = await resolveReviewRequestDestinations(
+    identityStore,
+    workItem,
+    escalation
+      ? { ...reviewRequest, targetType: escalation.targetType, targetRef: escalation.targetRef, assignment: undefined }
+      : reviewRequest,
+  );
+  await postToReviewDestinations(client, config, destinations, text, blocks);
+}
+
+function reviewRequestBlocks(
+  config: AppConfig,
+  workItem: WorkItemRecord,
+  reviewRequest: ReviewRequestRecord,
+  heading?: string,
+): Array<KnownBlock | Block> {
+  const detailUrl = buildWorkItemDetailUrl(config.dashboardPublicUrl, workItem.id);
+  return buildWorkItemReviewBlocks({
+    appName: config.appName,
+    heading,
+    workItemTitle: workItem.title,
+    workItemDisplayId: workItem.jiraIssueKey ?? workItem.id.slice(0, 8),
+    requestTitle: reviewRequest.title,
+    requestMessage: reviewRequest.requestMessage,
+    focusPoints: reviewRequest.focusPoints,
+    detailUrl,
+    assignees: reviewRequest.assignment?.reviewers.map((reviewer) => reviewer.displayName),
+    reassignable: Boolean(reviewRequest.assignment),
+    actionValue: buildWorkItemSlackActionValue({
+      reviewRequestId: reviewRequest.id,
+      workItemId: workItem.id,
+      homeChannelId: workItem.homeChannelId,
+      homeThreadTs: workItem.homeThreadTs,
+      requestTitle: reviewRequest.title,
+      detailUrl,
+    }),
+  });
+}
+
+async function postToReviewDestinations(
+  client: WebClient,
+  config: AppConfig,
+  destinations: SlackReviewDestination[],
+  text: string,
+  blocks: Array<KnownBlock | Block>,
+): Promise<void> {
+  const usernameOpt = config.slackCommandName ? { username: config.slackCommandName } : {};
+  const sentKeys = new Set<string>();
+
+  for (const destination of destinations) {
+    if (destination.kind === "channel") {
+      const key = `channel:${destination.channelId}`;
       if (sentKeys.has(key)) continue;
       sentKeys.add(key);
 
-      const dm = await client.conversations.open({ users: destination.slackUserId });
-      const dmChannelId = dm.channel?.id;
-      if (!dmChannelId) continue;
-
-      await client.chat.postMessage({
-        channel: dmChannelId,
-        text: `Review requested for ${workItem.jiraIssueKey ?? workItem.id}: ${reviewRequest.title}`,
-        blocks: buildWorkItemReviewBlocks({
-          appName: config.appName,
-          workItemTitle: workItem.title,
-          workItemDisplayId: workItem.jiraIssueKey ?? workItem.id.slice(0, 8),
-          requestTitle: reviewRequest.title,
-          requestMessage: reviewRequest.requestMessage,
-          focusPoints: reviewRequest.focusPoints,
-          detailUrl,
-          actionValue,
-        }),
-          ...usernameOpt,
-      });
+      await client.chat.postMessage({ channel: destination.channelId, text, blocks, ...usernameOpt });
+      continue;
     }
+
+    const key = `dm:${destination.slackUserId}`;
+    if (sentKeys.has(key)) continue;
+    sentKeys.add(key);
+
+    const dm = await client.conversations.open({ users: destination.slackUserId });
+    const dmChannelId = dm.channel?.id;
+    if (!dmChannelId) continue;
+
+    await client.chat.postMessage({ channel: dmChannelId, text, blocks, ...usernameOpt });
   }
 }
@@ -1,8 +1,9 @@
 import { randomUUID } from "node:crypto";
-import { and, arrayContains, desc, eq, isNotNull, not, or, sql } from "drizzle-orm";
+import { and, arrayContains, desc, eq, gte, isNotNull, lt, not, or, sql } from "drizzle-orm";
 import type { Database } from "../db/index.js";
-import { workItems } from "../db/schema.js";
+import { teams, workItems } from "../db/schema.js";
 import type { CreateWorkItemInput, UpdateWorkItemStateInput, WorkItemRecord } from "./types.js";
+import { selectWorkflowDefinitionForTeam } from "./workflow-definition.js";
 import { assertStateMatchesWorkflow, assertStateTransitionAllowed } from "./workflow-policy.js";
 
 type WorkItemRow = typeof workItems.$inferSelect;
@@ -11,6 +12,7 @@ function rowToRecord(row: WorkItemRow): WorkItemRecord {
   return {
     id: row.id,
     workflow: row.workflow as WorkItemRecord["workflow"],
+    workflowDefinitionId: row.workflowDefinitionId ?? undefined,
     state: row.state as WorkItemRecord["state"],
     substate: row.substate ?? undefined,
     flags: row.flags ?? [],
@@ -50,12 +52,15 @@ export class WorkItemStore {
   async createWorkItem(input: CreateWorkItemInput): Promise<WorkItemRecord> {
     const id = randomUUID();
     const now = new Date();
+    const workflowDefinitionId = input.workflowDefinitionId
+      ?? await this.selectTeamWorkflowDefinitionId(input.workflow, input.ownerTeamId);
 
-    assertStateMatchesWorkflow(input.workflow, input.state);
+    assertStateMatchesWorkflow(input.workflow, input.state, workflowDefinitionId);
 
     await this.db.insert(workItems).values({
       id,
       workflow: input.workflow,
+      workflowDefinitionId,
       state: input.state,
       substate: input.substate,
       flags: input.flags ?? [],
@@ -82,6 +87,14 @@ export class WorkItemStore {
     return (await this.getWorkItem(id))!;
   }
 
+  private async selectTeamWorkflowDefinitionId(
+    workflow: CreateWorkItemInput["workflow"],
+    teamId: string,
+  ): Promise<string | undefined> {
+    const rows = await this.db.select({ name: teams.name }).from(teams).where(eq(teams.id, teamId)).limit(1);
+    return selectWorkflowDefinitionForTeam(workflow, { id: teamId, name: rows[0]?.name })?.id;
+  }
+
   async getWorkItem(id: string): Promise<WorkItemRecord | undefined> {
     const rows = await this.db.select().from(workItems).where(eq(workItems.id, id));
     return rows[0] ? rowToRecord(rows[0]) : undefined;
@@ -100,6 +113,43 @@ export class WorkItemStore {
     return rows.map(rowToRecord);
   }
 
+  /** Feature delivery work items, newest first, optionally narrowed by team, repo and creation time. */
+  async listFeatureDeliveryWorkItems(filter: {
+    ownerTeamId?: string;
+    repo?: string;
+    /** Inclusive */
+    createdFrom?: Date;
+    /** Exclusive */
+    createdBefore?: Date;
+  } = {}): Promise<WorkItemRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(workItems)
+      .where(
+        and(
+          eq(workItems.workflow, "feature_delivery"),
+          filter.ownerTeamId ? eq(workItems.ownerTeamId, filter.ownerTeamId) : undefined,
+          filter.repo ? eq(workItems.repo, filter.repo) : undefined,
+          filter.createdFrom ? gte(workItems.createdAt, filter.createdFrom) : undefined,
+          filter.createdBefore ? lt(workItems.createdAt, filter.createdBefore) : undefined
+        )
+      )
+      .orderBy(desc(workItems.createdAt));
+    return rows.map(rowToRecord);
+  }
+
+  /** Each workflow definition id work items are pinned to, with its workflow. */
+  async listPinnedWorkflowDefinitions(): Promise<Array<{ workflow: WorkItemRecord["workflow"]; workflowDefinitionId: string }>> {
+    const rows = await this.db
+      .selectDistinct({ workflow: workItems.workflow, workflowDefinitionId: workItems.workflowDefinitionId })
+      .from(workItems)
+      .where(isNotNull(workItems.workflowDefinitionId));
+    return rows.map((row) => ({
+      workflow: row.workflow as WorkItemRecord["workflow"],
+      workflowDefinitionId: row.workflowDefinitionId!,
+    }));
+  }
+
   async listBranchSyncCandidateWorkItems(): Promise<WorkItemRecord[]> {
     const rows = await this.db
       .select()
@@ -26,7 +26,8 @@ export type FeatureDeliveryState =
   | "done"
   | "cancelled";
 
-export type WorkItemState = ProductDiscoveryState | FeatureDeliveryState;
+/** Built-in states; custom workflow definitions may declare more. */
+export type WorkItemState = ProductDiscoveryState | FeatureDeliveryState | (string & {});
 
 export const FEATURE_DELIVERY_AUTO_REVIEW_SUBSTATES = [
   "pr_adopted",
@@ -47,9 +48,30 @@ export type ReviewRequestStatus = "pending" | "completed" | "cancelled" | "super
 export type ReviewRequestOutcome = "approved" | "changes_requested" | "commented" | "no_response";
 export type ReviewRequestCommentSource = "slack" | "dashboard" | "system";
 
+export type ReviewAssignmentStrategy = "round_robin" | "least_loaded";
+
+/** Concrete reviewers picked for a team or role review request, and why. */
+export interface ReviewAssignment {
+  strategy: ReviewAssignmentStrategy;
+  reviewers: Array<{ userId: string; displayName: string; reasons: string[] }>;
+  /** Candidates passed over, e.g. out of office or the PR author */
+  skipped: Array<{ userId: string; displayName: string; reason: string }>;
+  assignedAt: string;
+  /** Set when a reviewer handed the request on */
+  reassignedByUserId?: string;
+}
+
+/** Who a review request is escalated to once its SLA escalation deadline passes. */
+export interface ReviewRequestEscalationTarget {
+  targetType: Extract<ReviewRequestTargetType, "team_role" | "org_role">;
+  targetRef: Record<string, unknown>;
+}
+
 export interface WorkItemRecord {
   id: string;
   workflow: WorkItemWorkflow;
+  /** Custom workflow definition the item is pinned to; unset for the built-in one */
+  workflowDefinitionId?: string;
   state: WorkItemState;
   substate?: string;
   activeRunCount?: number;
@@ -88,6 +110,8 @@ export interface WorkItemLinkedRunRecord {
 
 export interface CreateWorkItemInput {
   workflow: WorkItemWorkflow;
+  /** Defaults to the definition the owner team selected */
+  workflowDefinitionId?: string;
   state: WorkItemState;
   substate?: string;
   flags?: string[];
@@ -131,6 +155,13 @@ export interface ReviewRequestRecord {
   requestedByUserId: string;
   requestedAt: string;
   resolvedAt?: string;
+  /** Workflow state the request was made for; its SLA applies while the work item stays there */
+  workflowStage?: WorkItemState;
+  /** Last SLA reminder */
+  remindedAt?: string;
+  escalatedAt?: string;
+  escalationTarget?: ReviewRequestEscalationTarget;
+  assignment?: ReviewAssignment;
   createdAt: string;
   updatedAt: string;
 }
@@ -146,6 +177,7 @@ export interface CreateReviewRequestInput {
   requestMessage?: string;
   focusPoints?: string[];
   requestedByUserId: string;
+  workflowStage?: WorkItemState;
 }
 
 export interface CompleteReviewRequestInput {
@@ -0,0 +1,731 @@
+/**
+ * Work item workflow definitions — the states, transitions and review stages
+ * a work item moves through.
+ *
+ * The built-in `product_discovery` and `feature_delivery` definitions encode
+ * the stock process. Teams that need a different one declare it in
+ * `workflows/*.workflow.yml` (`kind: work_item_workflow`) and list themselves
+ * under `teams:`; work items created for those teams are pinned to it.
+ *
+ * For feature delivery, the states marked `stage: true` form the review
+ * pipeline walked in order after `auto_review`. A stage may wait for a review
+ * (`review.doneFlag`, approved by a GitHub review or a PR label), create a
+ * review request on entry, or launch a run intent on entry.
+ *
+ * States that hold review requests may set a `reviewSla`: when to remind the
+ * reviewers, when to escalate, and when an unanswered request is completed
+ * as `no_response` (see review-sla-monitor.ts).
+ *
+ * A stage's `review.request` may `assign` concrete reviewers from the target
+ * team rather than notifying all of it (see reviewer-assignment.ts).
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { logInfo } from "../logger.js";
+import type { RunIntentKind } from "../runs/run-intent.js";
+import type {
+  ReviewAssignmentStrategy,
+  ReviewRequestEscalationTarget,
+  ReviewRequestTargetType,
+  ReviewRequestType,
+  WorkItemRecord,
+  WorkItemState,
+  WorkItemWorkflow,
+} from "./types.js";
+
+export const WORKFLOW_DEFINITION_KIND = "work_item_workflow";
+
+export type WorkflowReviewSource = "github_review" | "label";
+
+export interface WorkflowReviewRequestTemplate {
+  type: ReviewRequestType;
+  targetType: ReviewRequestTargetType;
+  targetRef: Record<string, unknown>;
+  title: string;
+  message?: string;
+  /** Pick concrete reviewers from the target team instead of asking everyone */
+  assign?: WorkflowReviewAssignPolicy;
+}
+
+/** How reviewers are picked for a team or team_role request (see reviewer-assignment.ts). */
+export interface WorkflowReviewAssignPolicy {
+  /** Number of reviewers to assign */
+  reviewers: number;
+  strategy: ReviewAssignmentStrategy;
+  /** Prefer CODEOWNERS of the pull request's changed files */
+  codeowners: boolean;
+}
+
+export interface WorkflowStageReview {
+  /** Flag set once the stage is approved */
+  doneFlag: string;
+  /** Where approvals come from */
+  approvedBy: WorkflowReviewSource[];
+  /** Review request created when the stage is entered */
+  request?: WorkflowReviewRequestTemplate;
+}
+
+/** Response deadlines for review requests made in a state. Hours count from the request. */
+export interface WorkflowReviewSla {
+  /** Overdue after this long; the reviewers get a Slack reminder */
+  respondWithinHours: number;
+  /** Repeat the reminder this often while overdue */
+  remindEveryHours?: number;
+  escalateAfterHours?: number;
+  escalateTo?: ReviewRequestEscalationTarget;
+  /** Complete the request as no_response after this long */
+  expireAfterHours?: number;
+  /** State entered when a request expires; by default the work item stays put (discovery rounds resolve as usual) */
+  onNoResponse?: WorkItemState;
+}
+
+export interface WorkflowStateDefinition {
+  name: WorkItemState;
+  /** Substate set when the state is entered */
+  substate?: string;
+  /** States reachable from this one */
+  transitions: WorkItemState[];
+  /** Part of the feature delivery review pipeline */
+  stage?: boolean;
+  review?: WorkflowStageReview;
+  /** Run launched when the stage is entered */
+  runIntent?: StageRunIntent;
+  /** Green CI moves the stage on without a review */
+  advanceOn?: "ci_green";
+  /** Only entered when the work item carries this flag */
+  requiresFlag?: string;
+  /** Skipped when FEATURE_DELIVERY_SKIP_PRODUCT_REVIEW is set */
+  skippable?: boolean;
+  /** Passed straight through when its review is already done */
+  skipIfDone?: boolean;
+  /** Never walked past until its review is done, even if later stages are */
+  blocking?: boolean;
+  reviewSla?: WorkflowReviewSla;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  workflow: WorkItemWorkflow;
+  description?: string;
+  /** Team names (or ids) that use this definition */
+  teams: string[];
+  states: WorkflowStateDefinition[];
+}
+
+export type WorkflowSubject = Pick<WorkItemRecord, "workflow"> & { workflowDefinitionId?: string };
+
+export interface StageWalkOptions {
+  flags: readonly string[];
+  skipProductReview?: boolean;
+}
+
+/** Stage run intents and the state whose entry handler launches them. */
+const STAGE_RUN_INTENTS = {
+  "feature_delivery.qa_preparation": "qa_preparation",
+  "feature_delivery.finalize_pr": "ready_for_merge",
+} as const satisfies Partial<Record<RunIntentKind, WorkItemState>>;
+
+export type StageRunIntent = keyof typeof STAGE_RUN_INTENTS;
+
+/** Done flags that GitHub review labels can set. */
+const LABEL_REVIEW_FLAGS = new Set(["engineering_review_done", "qa_review_done"]);
+
+/** States the services and reducer enter by name. */
+const REQUIRED_STATES: Record<WorkItemWorkflow, WorkItemState[]> = {
+  product_discovery: ["backlog", "in_progress", "waiting_for_review", "waiting_for_pm_confirmation", "done", "cancelled"],
+  feature_delivery: ["backlog", "in_progress", "auto_review", "done", "cancelled"],
+};
+
+const WORKFLOWS = new Set<string>(["product_discovery", "feature_delivery"]);
+const REVIEW_REQUEST_TYPES = new Set<string>(["review", "approval"]);
+const REVIEW_TARGET_TYPES = new Set<string>(["user", "team", "team_role", "org_role"]);
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const STATE_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export class WorkflowDefinitionLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowDefinitionLoadError";
+  }
+}
+
+// ── Built-in definitions ──
+
+export const PRODUCT_DISCOVERY_WORKFLOW: WorkflowDefinition = parseWorkflowDefinition({
+  kind: WORKFLOW_DEFINITION_KIND,
+  id: "product_discovery",
+  workflow: "product_discovery",
+  description: "Discovery with review rounds and PM confirmation",
+  states: [
+    { name: "backlog", transitions: ["in_progress", "cancelled"] },
+    { name: "in_progress", transitions: ["waiting_for_review", "cancelled"] },
+    {
+      name: "waiting_for_review",
+      transitions: ["in_progress", "waiting_for_pm_confirmation", "cancelled"],
+      reviewSla: { respondWithinHours: 48, remindEveryHours: 24, expireAfterHours: 120 },
+    },
+    { name: "waiting_for_pm_confirmation", transitions: ["in_progress", "done", "cancelled"] },
+    { name: "done", transitions: [] },
+    { name: "cancelled", transitions: [] },
+  ],
+});
+
+export const FEATURE_DELIVERY_WORKFLOW: WorkflowDefinition = parseWorkflowDefinition({
+  kind: WORKFLOW_DEFINITION_KIND,
+  id: "feature_delivery",
+  workflow: "feature_delivery",
+  description: "Engineering review, QA preparation, product review, QA and merge",
+  states: [
+    { name: "backlog", transitions: ["in_progress", "auto_review", "done", "cancelled"] },
+    { name: "in_progress", transitions: ["auto_review", "done", "cancelled"] },
+    { name: "auto_review", substate: "waiting_ci", transitions: ["engineering_review", "done", "cancelled"] },
+    {
+      name: "engineering_review",
+      stage: true,
+      substate: "waiting_engineering_review",
+      blocking: true,
+      review: { doneFlag: "engineering_review_done", approvedBy: ["github_review", "label"] },
+      transitions: ["auto_review", "qa_preparation", "product_review", "qa_review", "done", "cancelled"],
+    },
+    {
+      name: "qa_preparation",
+      stage: true,
+      substate: "preparing_review_app",
+      runIntent: "feature_delivery.qa_preparation",
+      advanceOn: "ci_green",
+      transitions: ["auto_review", "product_review", "qa_review", "done", "cancelled"],
+    },
+    {
+      name: "product_review",
+      stage: true,
+      substate: "waiting_product_review",
+      requiresFlag: "product_review_required",
+      skippable: true,
+      review: { doneFlag: "product_review_done", approvedBy: ["github_review"] },
+      transitions: ["auto_review", "qa_review", "done", "cancelled"],
+    },
+    {
+      name: "qa_review",
+      stage: true,
+      substate: "waiting_qa_review",
+      skipIfDone: true,
+      review: { doneFlag: "qa_review_done", approvedBy: ["label"] },
+      transitions: ["auto_review", "ready_for_merge", "done", "cancelled"],
+    },
+    {
+      name: "ready_for_merge",
+      stage: true,
+      substate: "waiting_merge",
+      runIntent: "feature_delivery.finalize_pr",
+      transitions: ["auto_review", "done", "cancelled"],
+    },
+    { name: "done", transitions: [] },
+    { name: "cancelled", transitions: ["auto_review", "done"] },
+  ],
+});
+
+const BUILT_IN_WORKFLOWS: Record<WorkItemWorkflow, WorkflowDefinition> = {
+  product_discovery: PRODUCT_DISCOVERY_WORKFLOW,
+  feature_delivery: FEATURE_DELIVERY_WORKFLOW,
+};
+
+// ── Parsing ──
+
+/** Validate a parsed workflow definition document. */
+export function parseWorkflowDefinition(raw: unknown, source = "workflow definition"): WorkflowDefinition {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new WorkflowDefinitionLoadError(`${source}: must be a YAML object`);
+  }
+  const doc = raw as Record<string, unknown>;
+
+  if (doc["kind"] !== WORKFLOW_DEFINITION_KIND) {
+    throw new WorkflowDefinitionLoadError(`${source}: kind must be ${WORKFLOW_DEFINITION_KIND}`);
+  }
+  const id = doc["id"];
+  if (typeof id !== "string" || !ID_PATTERN.test(id)) {
+    throw new WorkflowDefinitionLoadError(`${source}: id must match ${String(ID_PATTERN)}`);
+  }
+  const workflow = doc["workflow"];
+  if (typeof workflow !== "string" || !WORKFLOWS.has(workflow)) {
+    throw new WorkflowDefinitionLoadError(`${id}: workflow must be product_discovery or feature_delivery`);
+  }
+  const teams = doc["teams"] ?? [];
+  if (!Array.isArray(teams) || teams.some((team) => typeof team !== "string" || !team.trim())) {
+    throw new WorkflowDefinitionLoadError(`${id}: teams must be a list of team names`);
+  }
+  if (!Array.isArray(doc["states"]) || doc["states"].length === 0) {
+    throw new WorkflowDefinitionLoadError(`${id}: states must be a non-empty list`);
+  }
+
+  const states = doc["states"].map((state, index) => parseState(id, state, index));
+  const names = new Set<string>();
+  for (const state of states) {
+    if (names.has(state.name)) {
+      throw new WorkflowDefinitionLoadError(`${id}: duplicate state ${state.name}`);
+    }
+    names.add(state.name);
+  }
+  for (const required of REQUIRED_STATES[workflow as WorkItemWorkflow]) {
+    if (!names.has(required)) {
+      throw new WorkflowDefinitionLoadError(`${id}: ${workflow} workflows must define state ${required}`);
+    }
+  }
+  for (const state of states) {
+    for (const target of state.transitions) {
+      if (!names.has(target)) {
+        throw new WorkflowDefinitionLoadError(`${id}: ${state.name} transitions to unknown state ${target}`);
+      }
+    }
+    if (state.stage && workflow !== "feature_delivery") {
+      throw new WorkflowDefinitionLoadError(`${id}: stages are only supported in feature_delivery workflows`);
+    }
+    if (state.reviewSla) {
+      const holdsRequests = workflow === "product_discovery" ? state.name === "waiting_for_review" : Boolean(state.review?.request);
+      if (!holdsRequests) {
+        throw new WorkflowDefinitionLoadError(`${id}.${state.name}: reviewSla needs a state that creates review requests`);
+      }
+      const onNoResponse = state.reviewSla.onNoResponse;
+      if (onNoResponse && !state.transitions.includes(onNoResponse)) {
+        throw new WorkflowDefinitionLoadError(`${id}.${state.name}: reviewSla.onNoResponse ${onNoResponse} is not a transition`);
+      }
+    }
+  }
+
+  return {
+    id,
+    workflow: workflow as WorkItemWorkflow,
+    description: typeof doc["description"] === "string" ? doc["description"] : undefined,
+    teams: (teams as string[]).map((team) => team.trim()),
+    states,
+  };
+}
+
+function parseState(id: string, raw: unknown, index: number): WorkflowStateDefinition {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new WorkflowDefinitionLoadError(`${id}: states[${String(index)}] must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+  const name = entry["name"];
+  if (typeof name !== "string" || !STATE_PATTERN.test(name)) {
+    throw new WorkflowDefinitionLoadError(`${id}: states[${String(index)}].name must match ${String(STATE_PATTERN)}`);
+  }
+  const label = `${id}.${name}`;
+
+  const transitions = entry["transitions"] ?? [];
+  if (!Array.isArray(transitions) || transitions.some((target) => typeof target !== "string")) {
+    throw new WorkflowDefinitionLoadError(`${label}: transitions must be a list of state names`);
+  }
+
+  const state: WorkflowStateDefinition = { name, transitions: transitions as string[] };
+  if (entry["substate"] !== undefined) {
+    if (typeof entry["substate"] !== "string" || !entry["substate"].trim()) {
+      throw new WorkflowDefinitionLoadError(`${label}: substate must be a string`);
+    }
+    state.substate = entry["substate"];
+  }
+  if (entry["stage"] === true) state.stage = true;
+
+  for (const key of ["skippable", "skipIfDone", "blocking"] as const) {
+    if (entry[key] === undefined) continue;
+    if (typeof entry[key] !== "boolean") {
+      throw new WorkflowDefinitionLoadError(`${label}: ${key} must be true or false`);
+    }
+    if (entry[key]) state[key] = true;
+  }
+  if (entry["requiresFlag"] !== undefined) {
+    if (typeof entry["requiresFlag"] !== "string" || !entry["requiresFlag"].trim()) {
+      throw new WorkflowDefinitionLoadError(`${label}: requiresFlag must be a flag name`);
+    }
+    state.requiresFlag = entry["requiresFlag"];
+  }
+  if (entry["advanceOn"] !== undefined) {
+    if (entry["advanceOn"] !== "ci_green") {
+      throw new WorkflowDefinitionLoadError(`${label}: advanceOn must be ci_green`);
+    }
+    state.advanceOn = "ci_green";
+  }
+  if (entry["runIntent"] !== undefined) {
+    const intent = entry["runIntent"];
+    if (typeof intent !== "string" || !(intent in STAGE_RUN_INTENTS)) {
+      throw new WorkflowDefinitionLoadError(
+        `${label}: runIntent must be one of ${Object.keys(STAGE_RUN_INTENTS).join(", ")}`,
+      );
+    }
+    const owner = STAGE_RUN_INTENTS[intent as StageRunIntent];
+    if (owner !== name) {
+      throw new WorkflowDefinitionLoadError(`${label}: runIntent ${intent} can only be launched from state ${owner}`);
+    }
+    state.runIntent = intent as StageRunIntent;
+  }
+  if (entry["review"] !== undefined) {
+    state.review = parseReview(label, entry["review"]);
+  }
+  if (entry["reviewSla"] !== undefined) {
+    state.reviewSla = parseReviewSla(label, entry["reviewSla"]);
+  }
+
+  const stageOnly = (["review", "runIntent", "advanceOn", "requiresFlag", "skippable", "skipIfDone", "blocking"] as const)
+    .filter((key) => state[key] !== undefined);
+  if (!state.stage && stageOnly.length > 0) {
+    throw new WorkflowDefinitionLoadError(`${label}: ${stageOnly.join(", ")} require stage: true`);
+  }
+  if ((state.skipIfDone || state.blocking) && !state.review) {
+    throw new WorkflowDefinitionLoadError(`${label}: skipIfDone and blocking require a review`);
+  }
+  return state;
+}
+
+function parseReview(label: string, raw: unknown): WorkflowStageReview {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new WorkflowDefinitionLoadError(`${label}: review must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+  const doneFlag = entry["doneFlag"];
+  if (typeof doneFlag !== "string" || !doneFlag.trim()) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.doneFlag is required`);
+  }
+  const approvedBy = entry["approvedBy"] ?? ["github_review"];
+  if (
+    !Array.isArray(approvedBy)
+    || approvedBy.length === 0
+    || approvedBy.some((source) => source !== "github_review" && source !== "label")
+  ) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.approvedBy must list github_review and/or label`);
+  }
+  if (approvedBy.includes("label") && !LABEL_REVIEW_FLAGS.has(doneFlag)) {
+    throw new WorkflowDefinitionLoadError(
+      `${label}: label approvals only set ${Array.from(LABEL_REVIEW_FLAGS).join(" or ")}`,
+    );
+  }
+
+  const review: WorkflowStageReview = { doneFlag, approvedBy: approvedBy as WorkflowReviewSource[] };
+  if (entry["request"] !== undefined) {
+    review.request = parseReviewRequest(label, entry["request"]);
+  }
+  return review;
+}
+
+function parseReviewRequest(label: string, raw: unknown): WorkflowReviewRequestTemplate {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+  const type = entry["type"] ?? "review";
+  if (typeof type !== "string" || !REVIEW_REQUEST_TYPES.has(type)) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.type must be review or approval`);
+  }
+  const targetType = entry["targetType"];
+  if (typeof targetType !== "string" || !REVIEW_TARGET_TYPES.has(targetType)) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.targetType must be one of ${Array.from(REVIEW_TARGET_TYPES).join(", ")}`);
+  }
+  const targetRef = entry["targetRef"] ?? {};
+  if (!targetRef || typeof targetRef !== "object" || Array.isArray(targetRef)) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.targetRef must be an object`);
+  }
+  const title = entry["title"];
+  if (typeof title !== "string" || !title.trim()) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.title is required`);
+  }
+  return {
+    type: type as ReviewRequestType,
+    targetType: targetType as ReviewRequestTargetType,
+    targetRef: targetRef as Record<string, unknown>,
+    title,
+    message: typeof entry["message"] === "string" ? entry["message"] : undefined,
+    ...(entry["assign"] === undefined ? {} : { assign: parseAssignPolicy(label, targetType, entry["assign"]) }),
+  };
+}
+
+function parseAssignPolicy(label: string, targetType: string, raw: unknown): WorkflowReviewAssignPolicy {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.assign must be an object`);
+  }
+  if (targetType !== "team" && targetType !== "team_role") {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.assign needs a team or team_role target`);
+  }
+  const entry = raw as Record<string, unknown>;
+  const reviewers = entry["reviewers"] ?? 1;
+  if (typeof reviewers !== "number" || !Number.isInteger(reviewers) || reviewers < 1) {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.assign.reviewers must be a positive integer`);
+  }
+  const strategy = entry["strategy"] ?? "least_loaded";
+  if (strategy !== "least_loaded" && strategy !== "round_robin") {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.assign.strategy must be least_loaded or round_robin`);
+  }
+  const codeowners = entry["codeowners"] ?? true;
+  if (typeof codeowners !== "boolean") {
+    throw new WorkflowDefinitionLoadError(`${label}: review.request.assign.codeowners must be true or false`);
+  }
+  return { reviewers, strategy, codeowners };
+}
+
+function parseReviewSla(label: string, raw: unknown): WorkflowReviewSla {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new WorkflowDefinitionLoadError(`${label}: reviewSla must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+  const hours = (key: keyof WorkflowReviewSla): number | undefined => {
+    const value = entry[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !(value > 0)) {
+      throw new WorkflowDefinitionLoadError(`${label}: reviewSla.${key} must be a positive number of hours`);
+    }
+    return value;
+  };
+
+  const respondWithinHours = hours("respondWithinHours");
+  if (respondWithinHours === undefined) {
+    throw new WorkflowDefinitionLoadError(`${label}: reviewSla.respondWithinHours is required`);
+  }
+  const sla: WorkflowReviewSla = { respondWithinHours };
+  const remindEveryHours = hours("remindEveryHours");
+  if (remindEveryHours !== undefined) sla.remindEveryHours = remindEveryHours;
+
+  const escalateAfterHours = hours("escalateAfterHours");
+  if ((escalateAfterHours === undefined) !== (entry["escalateTo"] === undefined)) {
+    throw new WorkflowDefinitionLoadError(`${label}: reviewSla.escalateAfterHours and escalateTo go together`);
+  }
+  if (escalateAfterHours !== undefined) {
+    const target = entry["escalateTo"] as Record<string, unknown> | null;
+    const targetRef = target?.["targetRef"];
+    if (
+      !target || typeof target !== "object"
+      || (target["targetType"] !== "team_role" && target["targetType"] !== "org_role")
+      || !targetRef || typeof targetRef !== "object" || Array.isArray(targetRef)
+      || typeof (targetRef as Record<string, unknown>)["role"] !== "string"
+    ) {
+      throw new WorkflowDefinitionLoadError(`${label}: reviewSla.escalateTo must be a team_role or org_role target with a role`);
+    }
+    if (escalateAfterHours <= respondWithinHours) {
+      throw new WorkflowDefinitionLoadError(`${label}: reviewSla.escalateAfterHours must come after respondWithinHours`);
+    }
+    sla.escalateAfterHours = escalateAfterHours;
+    sla.escalateTo = {
+      targetType: target["targetType"] as ReviewRequestEscalationTarget["targetType"],
+      targetRef: targetRef as Record<string, unknown>,
+    };
+  }
+
+  const expireAfterHours = hours("expireAfterHours");
+  if (expireAfterHours !== undefined) {
+    if (expireAfterHours <= Math.max(respondWithinHours, escalateAfterHours ?? 0)) {
+      throw new WorkflowDefinitionLoadError(`${label}: reviewSla.expireAfterHours must come after the other deadlines`);
+    }
+    sla.expireAfterHours = expireAfterHours;
+  }
+  if (entry["onNoResponse"] !== undefined) {
+    if (typeof entry["onNoResponse"] !== "string" || expireAfterHours === undefined) {
+      throw new WorkflowDefinitionLoadError(`${label}: reviewSla.onNoResponse needs expireAfterHours and a state name`);
+    }
+    sla.onNoResponse = entry["onNoResponse"];
+  }
+  return sla;
+}
+
+/**
+ * Load every `*.workflow.yml` in `dir` that declares `kind: work_item_workflow`.
+ * Other YAML files in the directory are ignored; a missing directory yields none.
+ */
+export async function loadWorkflowDefinitions(dir: string): Promise<WorkflowDefinition[]> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((file) => file.endsWith(".workflow.yml") || file.endsWith(".workflow.yaml")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const definitions: WorkflowDefinition[] = [];
+  for (const file of files) {
+    let raw: unknown;
+    try {
+      raw = parseYaml(await readFile(path.join(dir, file), "utf8"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown";
+      throw new WorkflowDefinitionLoadError(`${file}: invalid YAML: ${message}`);
+    }
+    if (!raw || typeof raw !== "object" || (raw as Record<string, unknown>)["kind"] !== WORKFLOW_DEFINITION_KIND) {
+      continue;
+    }
+    definitions.push(parseWorkflowDefinition(raw, file));
+  }
+  return definitions;
+}
+
+// ── Registry ──
+
+const customDefinitions = new Map<string, WorkflowDefinition>();
+
+/**
+ * Register custom definitions, replacing any registered before. Ids must not
+ * shadow a built-in, and a team may select one definition per workflow.
+ */
+export function registerWorkflowDefinitions(definitions: WorkflowDefinition[]): void {
+  const byId = new Map<string, WorkflowDefinition>();
+  const claimed = new Map<string, string>();
+  for (const definition of definitions) {
+    if (definition.id in BUILT_IN_WORKFLOWS || byId.has(definition.id)) {
+      throw new WorkflowDefinitionLoadError(`Duplicate workflow definition id: ${definition.id}`);
+    }
+    for (const team of definition.teams) {
+      const key = `${definition.workflow}:${team}`;
+      const other = claimed.get(key);
+      if (other) {
+        throw new WorkflowDefinitionLoadError(`Team ${team} selects both ${other} and ${definition.id} for ${definition.workflow}`);
+      }
+      claimed.set(key, definition.id);
+    }
+    byId.set(definition.id, definition);
+  }
+
+  customDefinitions.clear();
+  for (const [id, definition] of byId) {
+    customDefinitions.set(id, definition);
+  }
+  if (byId.size > 0) {
+    logInfo("Work item workflows registered", { ids: Array.from(byId.keys()) });
+  }
+}
+
+export function listWorkflowDefinitions(): WorkflowDefinition[] {
+  return [...Object.values(BUILT_IN_WORKFLOWS), ...customDefinitions.values()];
+}
+
+/**
+ * The definition a work item follows: the one it was pinned to at creation,
+ * else the built-in for its workflow. A pinned id that is not registered for
+ * that workflow throws; startup checks every pinned id up front (see
+ * assertPinnedWorkflowDefinitionsRegistered).
+ */
+export function workflowDefinitionFor(subject: WorkflowSubject): WorkflowDefinition {
+  if (!subject.workflowDefinitionId) {
+    return BUILT_IN_WORKFLOWS[subject.workflow];
+  }
+  const pinned = customDefinitions.get(subject.workflowDefinitionId);
+  if (!pinned || pinned.workflow !== subject.workflow) {
+    throw new WorkflowDefinitionLoadError(
+      `Work item workflow definition ${subject.workflowDefinitionId} is not registered for ${subject.workflow}`,
+    );
+  }
+  return pinned;
+}
+
+/**
+ * Throw when work items are pinned to definitions that are not registered,
+ * e.g. after a workflow file was removed or renamed.
+ */
+export function assertPinnedWorkflowDefinitionsRegistered(pinned: Array<Required<WorkflowSubject>>): void {
+  const missing = pinned
+    .filter((subject) => customDefinitions.get(subject.workflowDefinitionId)?.workflow !== subject.workflow)
+    .map((subject) => `${subject.workflowDefinitionId} (${subject.workflow})`);
+  if (missing.length > 0) {
+    throw new WorkflowDefinitionLoadError(
+      `Work items are pinned to unregistered workflow definitions: ${missing.join(", ")}. Restore them in the workflows directory.`,
+    );
+  }
+}
+
+/** The custom definition a team selected for `workflow`, if any. */
+export function selectWorkflowDefinitionForTeam(
+  workflow: WorkItemWorkflow,
+  team: { id: string; name?: string },
+): WorkflowDefinition | undefined {
+  for (const definition of customDefinitions.values()) {
+    if (definition.workflow !== workflow) continue;
+    if (definition.teams.includes(team.id) || (team.name !== undefined && definition.teams.includes(team.name))) {
+      return definition;
+    }
+  }
+  return undefined;
+}
+
+// ── Interpretation ──
+
+export function stateDefinition(definition: WorkflowDefinition, state: WorkItemState): WorkflowStateDefinition | undefined {
+  return definition.states.find((candidate) => candidate.name === state);
+}
+
+export function stageDefinition(definition: WorkflowDefinition, state: WorkItemState): WorkflowStateDefinition | undefined {
+  const found = stateDefinition(definition, state);
+  return found?.stage ? found : undefined;
+}
+
+export function isStageState(definition: WorkflowDefinition, state: WorkItemState): boolean {
+  return stageDefinition(definition, state) !== undefined;
+}
+
+function stages(definition: WorkflowDefinition): WorkflowStateDefinition[] {
+  return definition.states.filter((state) => state.stage);
+}
+
+function isStageActive(stage: WorkflowStateDefinition, options: StageWalkOptions): boolean {
+  if (stage.requiresFlag && !options.flags.includes(stage.requiresFlag)) return false;
+  return !(stage.skippable && options.skipProductReview);
+}
+
+/** The next stage the work item enters after `state`, skipping inactive ones. */
+export function nextStageAfter(
+  definition: WorkflowDefinition,
+  state: WorkItemState,
+  options: StageWalkOptions,
+): WorkflowStateDefinition | undefined {
+  const pipeline = stages(definition);
+  const index = pipeline.findIndex((stage) => stage.name === state);
+  if (index < 0) return undefined;
+  return pipeline.slice(index + 1).find((stage) => isStageActive(stage, options));
+}
+
+/** Follow `skipIfDone` stages whose review is already done. */
+export function settleStage(
+  definition: WorkflowDefinition,
+  state: WorkItemState,
+  isDone: (flag: string) => boolean,
+  options: StageWalkOptions,
+): WorkItemState {
+  let current = stageDefinition(definition, state);
+  const seen = new Set<string>();
+  while (current?.skipIfDone && current.review && isDone(current.review.doneFlag) && !seen.has(current.name)) {
+    seen.add(current.name);
+    const next = nextStageAfter(definition, current.name, options);
+    if (!next) break;
+    current = next;
+  }
+  return current?.name ?? state;
+}
+
+/**
+ * Where review progress points once auto review passes: the stage after the
+ * last one whose review is done, or the first stage if none is.
+ */
+export function stageTargetAfterAutoReview(definition: WorkflowDefinition, flags: readonly string[]): WorkItemState | undefined {
+  const pipeline = stages(definition);
+  let target = pipeline[0];
+  pipeline.forEach((stage, index) => {
+    if (stage.review && flags.includes(stage.review.doneFlag)) {
+      target = pipeline[index + 1] ?? stage;
+    }
+  });
+  return target?.name;
+}
+
+/**
+ * Stages entered in order once auto review passes, up to the target (or the
+ * first active stage past it). The walk stops early at a `blocking` stage
+ * whose review is not done.
+ */
+export function stagePathAfterAutoReview(definition: WorkflowDefinition, options: StageWalkOptions): WorkItemState[] {
+  const pipeline = stages(definition);
+  const target = stageTargetAfterAutoReview(definition, options.flags);
+  const targetIndex = pipeline.findIndex((stage) => stage.name === target);
+  const path: WorkItemState[] = [];
+
+  for (const [index, stage] of pipeline.entries()) {
+    if (!isStageActive(stage, options)) continue;
+    path.push(stage.name);
+    if (index >= targetIndex) break;
+    if (stage.blocking && stage.review && !options.flags.includes(stage.review.doneFlag)) break;
+  }
+  return path;
+}
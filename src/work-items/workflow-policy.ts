@@ -1,80 +1,37 @@
 import type { WorkItemRecord, WorkItemState, WorkItemWorkflow } from "./types.js";
+import { stateDefinition, workflowDefinitionFor, type WorkflowDefinition } from "./workflow-definition.js";
 
-type WorkflowStateSubject = Pick<WorkItemRecord, "workflow" | "state">;
+type WorkflowStateSubject = Pick<WorkItemRecord, "workflow" | "workflowDefinitionId" | "state">;
 
-const WORKFLOW_STATES: Record<WorkItemWorkflow, ReadonlySet<WorkItemState>> = {
-  product_discovery: new Set([
-    "backlog",
-    "in_progress",
-    "waiting_for_review",
-    "waiting_for_pm_confirmation",
-    "done",
-    "cancelled",
-  ]),
-  feature_delivery: new Set([
-    "backlog",
-    "in_progress",
-    "auto_review",
-    "engineering_review",
-    "qa_preparation",
-    "product_review",
-    "qa_review",
-    "ready_for_merge",
-    "done",
-    "cancelled",
-  ]),
-};
-
-const ALLOWED_STATE_TRANSITIONS: Record<WorkItemWorkflow, Record<WorkItemState, ReadonlySet<WorkItemState>>> = {
-  product_discovery: {
-    backlog: new Set(["in_progress", "cancelled"]),
-    in_progress: new Set(["waiting_for_review", "cancelled"]),
-    waiting_for_review: new Set(["in_progress", "waiting_for_pm_confirmation", "cancelled"]),
-    waiting_for_pm_confirmation: new Set(["in_progress", "done", "cancelled"]),
-    done: new Set(),
-    cancelled: new Set(),
-    auto_review: new Set(),
-    engineering_review: new Set(),
-    qa_preparation: new Set(),
-    product_review: new Set(),
-    qa_review: new Set(),
-    ready_for_merge: new Set(),
-  },
-  feature_delivery: {
-    backlog: new Set(["in_progress", "auto_review", "done", "cancelled"]),
-    in_progress: new Set(["auto_review", "done", "cancelled"]),
-    waiting_for_review: new Set(),
-    waiting_for_pm_confirmation: new Set(),
-    auto_review: new Set(["engineering_review", "done", "cancelled"]),
-    engineering_review: new Set(["auto_review", "qa_preparation", "product_review", "qa_review", "done", "cancelled"]),
-    qa_preparation: new Set(["auto_review", "product_review", "qa_review", "done", "cancelled"]),
-    product_review: new Set(["auto_review", "qa_review", "done", "cancelled"]),
-    qa_review: new Set(["auto_review", "ready_for_merge", "done", "cancelled"]),
-    ready_for_merge: new Set(["auto_review", "done", "cancelled"]),
-    done: new Set(),
-    cancelled: new Set(["auto_review", "done"]),
-  },
-};
-
-export function assertStateMatchesWorkflow(workflow: WorkItemWorkflow, state: WorkItemState): void {
-  if (!WORKFLOW_STATES[workflow].has(state)) {
-    throw new Error(`State ${state} is not valid for workflow ${workflow}`);
+export function assertStateMatchesWorkflow(
+  workflow: WorkItemWorkflow,
+  state: WorkItemState,
+  workflowDefinitionId?: string,
+): void {
+  const definition = workflowDefinitionFor({ workflow, workflowDefinitionId });
+  if (!stateDefinition(definition, state)) {
+    throw new Error(`State ${state} is not valid for workflow ${describeWorkflow(definition)}`);
   }
 }
 
 export function assertStateTransitionAllowed(workItem: WorkflowStateSubject, nextState: WorkItemState): void {
-  assertStateMatchesWorkflow(workItem.workflow, workItem.state);
-  assertStateMatchesWorkflow(workItem.workflow, nextState);
+  assertStateMatchesWorkflow(workItem.workflow, workItem.state, workItem.workflowDefinitionId);
+  assertStateMatchesWorkflow(workItem.workflow, nextState, workItem.workflowDefinitionId);
 
   if (workItem.state === nextState) {
     return;
   }
 
-  if (ALLOWED_STATE_TRANSITIONS[workItem.workflow][workItem.state].has(nextState)) {
+  const definition = workflowDefinitionFor(workItem);
+  if (stateDefinition(definition, workItem.state)?.transitions.includes(nextState)) {
     return;
   }
 
-  throw new Error(`State transition ${workItem.workflow}.${workItem.state} -> ${nextState} is not allowed`);
+  throw new Error(`State transition ${describeWorkflow(definition)}.${workItem.state} -> ${nextState} is not allowed`);
+}
+
+function describeWorkflow(definition: WorkflowDefinition): string {
+  return definition.id === definition.workflow ? definition.workflow : `${definition.workflow} (${definition.id})`;
 }
 
 export function assertCanRequestDiscoveryReview(workItem: WorkflowStateSubject): void {
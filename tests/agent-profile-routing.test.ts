@@ -256,6 +256,7 @@ describe("agent profile routing", () => {
         description: "Fix failing CI",
         isBuiltIn: true,
         nodeCount: 2,
+        includeOnly: false,
         createdAt: new Date(0).toISOString(),
         updatedAt: new Date(0).toISOString(),
         yaml: [
@@ -0,0 +1,334 @@
+/**
+ * Tests for alert clustering — signal extraction, grouping by repo/window and
+ * frame/file overlap, the LLM similarity fallback, cluster run tasks and the
+ * limits re-checked when a cluster launches.
+ */
+
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { describe, test } from "node:test";
+import {
+  AlertClusterer,
+  buildClusterTask,
+  checkSameRootCause,
+  composeClusterEvent,
+  extractClusterSignals,
+  findSignalOverlap,
+  parseSimilarityResponse,
+  type ClusterSimilarityCheck,
+} from "../src/observer/alert-clustering.js";
+import type { JournaledEvent } from "../src/observer/event-journal.js";
+import { ObserverDaemon } from "../src/observer/daemon.js";
+import { buildDedupKey } from "../src/observer/safety.js";
+import type { ObserverEventRecord, TriggerEvent, TriggerPriority, TriggerRule } from "../src/observer/types.js";
+import type { AppConfig } from "../src/config.js";
+import type { NewRunInput, RunRecord } from "../src/types.js";
+import { createTestDb } from "./helpers/test-db.js";
+
+// ── Helpers ──
+
+const WINDOW_MS = 120_000;
+const T0 = Date.parse("2026-10-18T12:00:00.000Z");
+
+let nextId = 0;
+
+function makeEvent(overrides: Partial<TriggerEvent> & { culprit?: string } = {}): TriggerEvent {
+  nextId += 1;
+  const { culprit, ...rest } = overrides;
+  return {
+    id: `evt-${String(nextId)}`,
+    source: "sentry_alert",
+    timestamp: new Date(T0).toISOString(),
+    repoSlug: "acme/checkout",
+    priority: "medium",
+    suggestedTask: `Fix Sentry issue ${String(nextId)}`,
+    rawPayload: { culprit },
+    notificationTarget: { type: "dashboard_only" },
+    ...rest,
+  };
+}
+
+const rule: TriggerRule = {
+  id: "sentry-errors",
+  source: "sentry_alert",
+  conditions: [],
+  requiresApproval: false,
+  cooldownMinutes: 60,
+  maxRunsPerHour: 3,
+};
+
+function entry(event: TriggerEvent, entryRule: TriggerRule = rule) {
+  const journal: JournaledEvent = { event, receivedAt: event.timestamp, outcome: "clustered", reason: "held" };
+  const record: ObserverEventRecord = {
+    eventId: event.id, source: event.source, timestamp: event.timestamp,
+    outcome: "clustered", reason: "held", processedAt: event.timestamp,
+  };
+  return { event, rule: entryRule, journal, record };
+}
+
+// ═══════════════════════════════════════════════════════
+// Signals
+// ═══════════════════════════════════════════════════════
+
+describe("extractClusterSignals", () => {
+  test("collects files and frames from the task and payload", () => {
+    const signals = extractClusterSignals(makeEvent({
+      suggestedTask: [
+        "Fix TypeError: cannot read 'total'",
+        "    at computeTotal (src/cart/totals.ts:42:7)",
+        "    at async handler (./src/routes/checkout.ts:10:3)",
+        '  File "app/billing/charge.py", line 88, in charge',
+      ].join("\n"),
+      culprit: "app.billing.charge in charge",
+    }));
+    assert.deepEqual(signals.files.sort(), ["app/billing/charge.py", "src/cart/totals.ts", "src/routes/checkout.ts"]);
+    assert.ok(signals.frames.includes("app.billing.charge in charge"));
+    assert.ok(signals.frames.includes("computeTotal"));
+    assert.ok(signals.frames.includes("app/billing/charge.py:charge"));
+  });
+
+  test("reports the overlap, preferring frames over files", () => {
+    const a = { files: ["src/a.ts", "src/b.ts"], frames: ["computeTotal"] };
+    assert.equal(findSignalOverlap(a, { files: ["src/b.ts"], frames: ["computeTotal"] }), "shared frame computeTotal");
+    assert.equal(findSignalOverlap(a, { files: ["src/b.ts"], frames: [] }), "shared file src/b.ts");
+    assert.equal(findSignalOverlap(a, { files: ["src/c.ts"], frames: [] }), undefined);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Clusterer
+// ═══════════════════════════════════════════════════════
+
+describe("AlertClusterer", () => {
+  test("groups alerts that share a stack frame within the window", async () => {
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS });
+    const first = await clusterer.add(entry(makeEvent({ culprit: "cart.totals in computeTotal" })), T0);
+    const second = await clusterer.add(entry(makeEvent({ culprit: "cart.totals in computeTotal" })), T0 + 10_000);
+    assert.equal(second.id, first.id);
+    assert.equal(first.members.length, 2);
+    assert.equal(first.members[0]!.reason, "first alert");
+    assert.equal(first.members[1]!.reason, "shared frame cart.totals in computeTotal");
+  });
+
+  test("keeps unrelated alerts, other repos and late alerts apart", async () => {
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS });
+    const first = await clusterer.add(entry(makeEvent({ suggestedTask: "Error in src/cart/totals.ts" })), T0);
+    const unrelated = await clusterer.add(entry(makeEvent({ suggestedTask: "Error in src/search/index.ts" })), T0 + 1000);
+    const otherRepo = await clusterer.add(
+      entry(makeEvent({ repoSlug: "acme/search", suggestedTask: "Error in src/cart/totals.ts" })),
+      T0 + 2000,
+    );
+    const late = await clusterer.add(entry(makeEvent({ suggestedTask: "Error in src/cart/totals.ts" })), T0 + WINDOW_MS + 1);
+    const ids = new Set([first.id, unrelated.id, otherRepo.id, late.id]);
+    assert.equal(ids.size, 4);
+  });
+
+  test("keeps alerts matched by different rules apart", async () => {
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS });
+    const first = await clusterer.add(entry(makeEvent({ culprit: "cart.totals in computeTotal" })), T0);
+    const gated = await clusterer.add(
+      entry(makeEvent({ culprit: "cart.totals in computeTotal" }), { ...rule, id: "sentry-gated", requiresApproval: true }),
+      T0 + 1000,
+    );
+    assert.notEqual(gated.id, first.id);
+    assert.equal(gated.ruleId, "sentry-gated");
+  });
+
+  test("isHeld reports events waiting in an open cluster", async () => {
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS });
+    const event = makeEvent({ rawPayload: { fingerprint: "fp-1" } });
+    await clusterer.add(entry(event), T0);
+    assert.equal(clusterer.isHeld(buildDedupKey(event)), true);
+    assert.equal(clusterer.isHeld(buildDedupKey(makeEvent())), false);
+    clusterer.takeReady(T0, true);
+    assert.equal(clusterer.isHeld(buildDedupKey(event)), false);
+  });
+
+  test("asks the similarity check when nothing overlaps", async () => {
+    const asked: string[] = [];
+    const similarity: ClusterSimilarityCheck = async (event) => {
+      asked.push(event.id);
+      return { sameRootCause: true, confidence: 0.9, reason: "same deploy regression" };
+    };
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS, similarity });
+    const first = await clusterer.add(entry(makeEvent()), T0);
+    const event = makeEvent();
+    const second = await clusterer.add(entry(event), T0 + 1000);
+    assert.equal(second.id, first.id);
+    assert.deepEqual(asked, [event.id]);
+    assert.equal(first.members[1]!.reason, "LLM: same deploy regression");
+  });
+
+  test("starts a new cluster when the similarity check is unsure or fails", async () => {
+    const verdicts = [
+      { sameRootCause: true, confidence: 0.4, reason: "maybe" },
+      null,
+    ];
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS, similarity: async () => verdicts.shift() ?? null });
+    const first = await clusterer.add(entry(makeEvent()), T0);
+    const second = await clusterer.add(entry(makeEvent()), T0 + 1000);
+    assert.notEqual(second.id, first.id);
+  });
+
+  test("takeReady returns clusters once their window closes", async () => {
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS });
+    await clusterer.add(entry(makeEvent()), T0);
+    await clusterer.add(entry(makeEvent()), T0 + 60_000);
+
+    assert.equal(clusterer.takeReady(T0 + WINDOW_MS - 1).length, 0);
+    const ready = clusterer.takeReady(T0 + WINDOW_MS);
+    assert.equal(ready.length, 1);
+    assert.equal(ready[0]!.entries.length, 1);
+    assert.equal(clusterer.takeReady(T0 + WINDOW_MS, true).length, 1);
+    assert.equal(clusterer.takeReady(T0 + WINDOW_MS, true).length, 0);
+  });
+
+  test("lists open clusters before launched ones", async () => {
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS });
+    await clusterer.add(entry(makeEvent()), T0);
+    const [launched] = clusterer.takeReady(T0, true);
+    clusterer.markLaunched(launched!.cluster, "run-123", T0 + 1);
+    const open = await clusterer.add(entry(makeEvent()), T0 + 2);
+
+    const listed = clusterer.list();
+    assert.deepEqual(listed.map((c) => c.id), [open.id, launched!.cluster.id]);
+    assert.equal(listed[1]!.status, "launched");
+    assert.equal(listed[1]!.runId, "run-123");
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Cluster Runs
+// ═══════════════════════════════════════════════════════
+
+describe("cluster run composition", () => {
+  async function clusterOf(events: TriggerEvent[], entryRule: TriggerRule = rule) {
+    const clusterer = new AlertClusterer({ windowMs: WINDOW_MS });
+    for (const event of events) {
+      await clusterer.add(entry(event, entryRule), T0);
+    }
+    return clusterer.takeReady(T0, true)[0]!;
+  }
+
+  test("the task lists every grouped alert", async () => {
+    const { cluster, entries } = await clusterOf([
+      makeEvent({ suggestedTask: "Fix Sentry issue: TypeError in totals\nLocation: src/cart/totals.ts", priority: "medium" }),
+      makeEvent({ suggestedTask: "Fix Sentry issue: NaN total\nLocation: src/cart/totals.ts", priority: "critical" }),
+      makeEvent({ suggestedTask: "Fix Sentry issue: 500 on checkout\nsrc/cart/totals.ts", priority: "high" }),
+    ]);
+    assert.equal(entries.length, 3);
+
+    const task = buildClusterTask(cluster, entries);
+    assert.match(task, /^Fix 3 related alerts in acme\/checkout/);
+    assert.match(task, /1\. \[sentry_alert\] Fix Sentry issue: TypeError in totals/);
+    assert.match(task, /2\. \[sentry_alert\] Fix Sentry issue: NaN total/);
+    assert.match(task, /3\. \[sentry_alert\] Fix Sentry issue: 500 on checkout/);
+
+    const event = composeClusterEvent(cluster, entries);
+    assert.equal(event.id, entries[0]!.event.id);
+    assert.equal(event.priority, "critical");
+    assert.equal(event.suggestedTask, task);
+  });
+
+  test("a single-alert cluster runs the original event", async () => {
+    const original = makeEvent();
+    const { cluster, entries } = await clusterOf([original]);
+    assert.equal(composeClusterEvent(cluster, entries), original);
+  });
+
+  test("member summaries honor rule task overrides", async () => {
+    const overriding = { ...rule, task: "Investigate checkout errors" };
+    const { cluster } = await clusterOf([makeEvent({ priority: "low" as TriggerPriority })], overriding);
+    assert.equal(cluster.members[0]!.summary, "Investigate checkout errors");
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// LLM Similarity
+// ═══════════════════════════════════════════════════════
+
+describe("LLM similarity", () => {
+  test("parseSimilarityResponse validates and clamps", () => {
+    assert.deepEqual(parseSimilarityResponse({ sameRootCause: true, confidence: 2, reason: "x" }), {
+      sameRootCause: true, confidence: 1, reason: "x",
+    });
+    assert.equal(parseSimilarityResponse({ sameRootCause: "yes" }), null);
+    assert.equal(parseSimilarityResponse(null), null);
+  });
+
+  test("checkSameRootCause returns the parsed verdict and null on failure", async () => {
+    const originalFetch = globalThis.fetch;
+    const cluster = await new AlertClusterer({ windowMs: WINDOW_MS }).add(entry(makeEvent()), T0);
+    const llmConfig = { apiKey: "test-key", defaultModel: "test/model", defaultTimeoutMs: 1000 };
+    try {
+      globalThis.fetch = async () => new Response(JSON.stringify({
+        model: "test/model",
+        choices: [{ message: { content: '{"sameRootCause": true, "confidence": 0.8, "reason": "same null total"}' } }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+      }), { status: 200 });
+      assert.deepEqual(await checkSameRootCause(makeEvent(), cluster, llmConfig, 1000), {
+        sameRootCause: true, confidence: 0.8, reason: "same null total",
+      });
+
+      globalThis.fetch = async () => new Response("upstream down", { status: 500 });
+      assert.equal(await checkSameRootCause(makeEvent(), cluster, llmConfig, 1000), null);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Launching clusters
+// ═══════════════════════════════════════════════════════
+
+describe("ObserverDaemon cluster launch", () => {
+  test("clusters opened in one window re-check the daily cap when they launch", async (t) => {
+    const testDb = await createTestDb();
+    t.after(testDb.cleanup);
+
+    const enqueued: NewRunInput[] = [];
+    const runManager = {
+      async enqueueRun(input: NewRunInput): Promise<RunRecord> {
+        enqueued.push(input);
+        return { ...input, id: randomUUID(), status: "queued", branchName: "goose/x", createdAt: new Date().toISOString() } as RunRecord;
+      },
+      onRunTerminal() {},
+    };
+    const config = {
+      defaultBaseBranch: "main",
+      sandboxRuntime: "local",
+      repoAllowlist: [],
+      teamChannelMap: new Map(),
+      observerAlertChannelId: "",
+      observerMaxRunsPerDay: 1,
+      observerMaxRunsPerRepoPerDay: 5,
+      observerBudgetDefaultRunCostUsd: 1,
+      observerSmartTriageEnabled: false,
+      observerWritebackEnabled: false,
+    } as unknown as AppConfig;
+    const daemon = new ObserverDaemon(config, runManager, undefined, undefined, undefined, testDb.db);
+    const internals = daemon as unknown as {
+      rules: TriggerRule[];
+      alertClusterer: AlertClusterer;
+      processPendingEvents(): Promise<void>;
+      launchReadyClusters(all: boolean): Promise<number>;
+    };
+    internals.rules = [rule];
+    internals.alertClusterer = new AlertClusterer({ windowMs: WINDOW_MS });
+
+    const now = new Date().toISOString();
+    daemon.enqueueEvent(makeEvent({ timestamp: now, suggestedTask: "Error in src/cart/totals.ts" }));
+    daemon.enqueueEvent(makeEvent({ timestamp: now, suggestedTask: "Error in src/search/index.ts" }));
+    await internals.processPendingEvents();
+    assert.equal(daemon.listAlertClusters()?.length, 2, "both events pass the safety checks and open their own cluster");
+
+    assert.equal(await internals.launchReadyClusters(true), 2);
+    assert.equal(enqueued.length, 1);
+    assert.deepEqual(
+      daemon.getRecentEvents().map((record) => record.outcome).sort(),
+      ["denied", "triggered"],
+    );
+    assert.match(daemon.getRecentEvents().find((record) => record.outcome === "denied")!.reason, /daily budget exhausted: 1\/1/);
+  });
+});
@@ -10,6 +10,7 @@ import {
   evaluateQueue,
   computePriority,
   type DeferredEvent,
+  type DeferredQueueStore,
   type SchedulerConfig,
   type SchedulerSlotChecker,
   type SchedulerStats
@@ -69,6 +70,7 @@ function freshStats(): SchedulerStats {
 
 function makeDeferredEvent(overrides?: Partial<DeferredEvent>): DeferredEvent {
   return {
+    id: `def-${Math.random().toString(36).slice(2, 10)}`,
     event: makeEvent(),
     rule: makeRule(),
     deferredAt: new Date().toISOString(),
@@ -79,6 +81,19 @@ function makeDeferredEvent(overrides?: Partial<DeferredEvent>): DeferredEvent {
   };
 }
 
+/** In-memory stand-in for DeferredEventStore. */
+function makeQueueStore(initial: DeferredEvent[] = []): DeferredQueueStore & { rows: Map<string, DeferredEvent> } {
+  const rows = new Map(initial.map((entry) => [entry.id, entry]));
+  return {
+    rows,
+    list: async () => [...rows.values()],
+    save: async (entries) => { for (const entry of entries) rows.set(entry.id, { ...entry }); },
+    remove: async (ids) => { for (const id of ids) rows.delete(id); }
+  };
+}
+
+const flushWrites = () => new Promise(resolve => setTimeout(resolve, 0));
+
 // ═══════════════════════════════════════════════════════
 // computePriority
 // ═══════════════════════════════════════════════════════
@@ -394,3 +409,115 @@ describe("startAutonomousScheduler", () => {
     scheduler.stop();
   });
 });
+
+// ═══════════════════════════════════════════════════════
+// Persistence and manual actions
+// ═══════════════════════════════════════════════════════
+
+describe("startAutonomousScheduler with a queue store", () => {
+  test("load() restores persisted events in priority order", async () => {
+    const store = makeQueueStore([
+      makeDeferredEvent({ id: "low", event: makeEvent({ priority: "low" }), priority: 25 }),
+      makeDeferredEvent({ id: "high", event: makeEvent({ priority: "high" }), priority: 75 })
+    ]);
+    const scheduler = startAutonomousScheduler(makeConfig(), makeSlotChecker(false), () => {}, store);
+
+    await scheduler.load();
+
+    assert.deepEqual(scheduler.getQueue().map(e => e.id), ["high", "low"]);
+    assert.equal(scheduler.getStats().queueSize, 2);
+    scheduler.stop();
+  });
+
+  test("defer() writes through and trimmed events are removed", async () => {
+    const store = makeQueueStore();
+    const scheduler = startAutonomousScheduler(makeConfig({ maxDeferredEvents: 1 }), makeSlotChecker(false), () => {}, store);
+
+    scheduler.defer(makeEvent({ id: "low", priority: "low" }), makeRule(), "low");
+    scheduler.defer(makeEvent({ id: "high", priority: "high" }), makeRule(), "high");
+    await flushWrites();
+
+    const persisted = [...store.rows.values()];
+    assert.equal(persisted.length, 1);
+    assert.equal(persisted[0]!.event.id, "high");
+    scheduler.stop();
+  });
+
+  test("evaluation removes the triggered event and saves retry counts", async () => {
+    const store = makeQueueStore();
+    const triggered: string[] = [];
+    const scheduler = startAutonomousScheduler(
+      makeConfig({ evaluateIntervalMs: 30 }),
+      makeSlotChecker(true),
+      (event) => { triggered.push(event.id); },
+      store
+    );
+
+    scheduler.defer(makeEvent({ id: "first", priority: "high" }), makeRule(), "a");
+    scheduler.defer(makeEvent({ id: "second", priority: "low" }), makeRule(), "b");
+    await new Promise(resolve => setTimeout(resolve, 50));
+    scheduler.stop();
+    await flushWrites();
+
+    assert.deepEqual(triggered, ["first"]);
+    const persisted = [...store.rows.values()];
+    assert.equal(persisted.length, 1);
+    assert.equal(persisted[0]!.event.id, "second");
+    assert.equal(persisted[0]!.retryCount, 1);
+  });
+
+  test("promote() triggers immediately and removes the event", async () => {
+    const store = makeQueueStore();
+    let triggeredId: string | undefined;
+    const scheduler = startAutonomousScheduler(makeConfig(), makeSlotChecker(false), (event) => { triggeredId = event.id; }, store);
+
+    scheduler.defer(makeEvent({ id: "stuck" }), makeRule(), "no capacity");
+    const entry = scheduler.getQueue()[0]!;
+    const promoted = await scheduler.promote(entry.id);
+
+    assert.equal(promoted?.event.id, "stuck");
+    assert.equal(triggeredId, "stuck");
+    assert.equal(scheduler.getQueue().length, 0);
+    assert.equal(scheduler.getStats().totalTriggered, 1);
+    assert.equal(store.rows.size, 0);
+    assert.equal(await scheduler.promote("missing"), undefined);
+    scheduler.stop();
+  });
+
+  test("reprioritize() rescores, reorders and survives the next evaluation", async () => {
+    const store = makeQueueStore();
+    const scheduler = startAutonomousScheduler(makeConfig(), makeSlotChecker(false), () => {}, store);
+
+    scheduler.defer(makeEvent({ id: "medium", priority: "medium" }), makeRule(), "m");
+    scheduler.defer(makeEvent({ id: "low", priority: "low" }), makeRule(), "l");
+    const lowEntry = scheduler.getQueue().find(e => e.event.id === "low")!;
+
+    const updated = await scheduler.reprioritize(lowEntry.id, "critical");
+
+    assert.equal(updated?.priority, 100);
+    assert.equal(scheduler.getQueue()[0]!.event.id, "low");
+    assert.equal(store.rows.get(lowEntry.id)?.event.priority, "critical");
+
+    const queue = scheduler.getQueue();
+    await evaluateQueue(queue, makeConfig(), makeSlotChecker(false), freshStats(), Date.now());
+    assert.equal(queue[0]!.event.id, "low");
+    scheduler.stop();
+  });
+
+  test("drop() removes the event without triggering it", async () => {
+    const store = makeQueueStore();
+    let triggered = false;
+    const scheduler = startAutonomousScheduler(makeConfig(), makeSlotChecker(true), () => { triggered = true; }, store);
+
+    scheduler.defer(makeEvent(), makeRule(), "r");
+    const entry = scheduler.getQueue()[0]!;
+    const dropped = await scheduler.drop(entry.id);
+
+    assert.equal(dropped?.id, entry.id);
+    assert.equal(triggered, false);
+    assert.equal(scheduler.getQueue().length, 0);
+    assert.equal(scheduler.getStats().totalDropped, 1);
+    assert.equal(store.rows.size, 0);
+    scheduler.stop();
+  });
+});
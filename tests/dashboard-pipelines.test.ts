@@ -10,8 +10,11 @@ import type { AppConfig } from "../src/config.js";
 import { RunStore } from "../src/store.js";
 import { startDashboardServer } from "../src/dashboard-server.js";
 import { dashboardHtml } from "../src/dashboard/html.js";
-import type { PipelineStore, StoredPipeline } from "../src/pipeline/pipeline-store.js";
+import type { PipelineRevision, PipelineStore, StoredPipeline } from "../src/pipeline/pipeline-store.js";
 import type { PipelineConfig } from "../src/pipeline/types.js";
+import type { PipelinePlan } from "../src/pipeline/pipeline-plan.js";
+import type { PipelineDiff } from "../src/pipeline/pipeline-diff.js";
+import { loadPipelineFromString } from "../src/pipeline/pipeline-loader.js";
 import { GitHubService } from "../src/github.js";
 import { mkdtemp, rm } from "node:fs/promises";
 import path from "node:path";
@@ -121,6 +124,7 @@ const SAMPLE_STORED: StoredPipeline = {
   yaml: "version: 1\nname: Default Pipeline\nnodes:\n  - id: step1\n    type: deterministic\n    action: run",
   isBuiltIn: true,
   nodeCount: 1,
+  includeOnly: false,
   createdAt: "2025-01-01T00:00:00.000Z",
   updatedAt: "2025-01-01T00:00:00.000Z",
 };
@@ -131,6 +135,7 @@ const SAMPLE_STORED_2: StoredPipeline = {
   yaml: "version: 1\nname: Custom Pipeline\nnodes:\n  - id: s1\n    type: deterministic\n    action: run",
   isBuiltIn: false,
   nodeCount: 1,
+  includeOnly: false,
   createdAt: "2025-02-01T00:00:00.000Z",
   updatedAt: "2025-02-01T00:00:00.000Z",
 };
@@ -150,6 +155,7 @@ function createMockPipelineStore(pipelines: StoredPipeline[] = [SAMPLE_STORED, S
         yaml,
         isBuiltIn: false,
         nodeCount: 1,
+        includeOnly: false,
         createdAt: existing?.createdAt ?? new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -524,6 +530,106 @@ describe("Dashboard Pipeline API routes", () => {
     assert.equal(res.status, 501);
   });
 
+  test("POST /api/pipelines/:id/plan previews the resolved node graph", async () => {
+    const mockStore = createMockPipelineStore([{
+      ...SAMPLE_STORED_2,
+      yaml: [
+        "version: 1",
+        "name: Custom Pipeline",
+        "nodes:",
+        "  - id: implement",
+        "    type: agentic",
+        "    action: implement",
+        "  - id: scope_judge",
+        "    type: agentic",
+        "    action: scope_judge",
+        "  - id: commit",
+        "    type: deterministic",
+        "    action: commit",
+      ].join("\n"),
+    }]);
+    mockStore.validate = (yaml: string) => loadPipelineFromString(yaml);
+    const port = await startServer(mockStore, { scopeJudgeEnabled: true });
+
+    const res = await request(port, "POST", "/api/pipelines/custom/plan", {
+      skipNodes: ["commit"],
+    });
+    assert.equal(res.status, 200);
+    const plan = res.data.plan as PipelinePlan;
+    assert.deepEqual(plan.nodes.map(node => [node.id, node.status]), [
+      ["implement", "run"],
+      ["scope_judge", "run"],
+      ["commit", "skipped"],
+    ]);
+
+    const missing = await request(port, "POST", "/api/pipelines/nope/plan", {});
+    assert.equal(missing.status, 404);
+
+    const badRepo = await request(port, "POST", "/api/pipelines/custom/plan", { repo: "not a slug" });
+    assert.equal(badRepo.status, 400);
+
+    const noGitHub = await request(port, "POST", "/api/pipelines/custom/plan", { repo: "org/repo" });
+    assert.equal(noGitHub.status, 501);
+  });
+
+  test("pipeline revision routes list, diff and roll back revisions", async () => {
+    const revision = (n: number, yaml: string): PipelineRevision => ({
+      id: `rev-${n}`,
+      pipelineId: "custom",
+      revision: n,
+      name: "Custom Pipeline",
+      yaml,
+      nodeCount: 1,
+      source: "save",
+      calledRevisions: { helper: `helper-rev-${n}` },
+      createdAt: "2025-02-01T00:00:00.000Z",
+    });
+    const revisions = [revision(1, SAMPLE_STORED_2.yaml), revision(2, SAMPLE_STORED_2.yaml.replace("id: s1", "id: s2"))];
+    const mockStore = createMockPipelineStore([{ ...SAMPLE_STORED_2, revisionId: "rev-2" }]);
+    const rollbacks: string[] = [];
+    Object.assign(mockStore, {
+      async listRevisions(id: string) {
+        return revisions
+          .filter(rev => rev.pipelineId === id)
+          .map(({ yaml: _yaml, ...rev }) => ({ ...rev, current: rev.id === "rev-2", runs: { total: 0, completed: 0, failed: 0, cancelled: 0 } }))
+          .reverse();
+      },
+      async getRevision(id: string, revisionId: string) {
+        return revisions.find(rev => rev.pipelineId === id && rev.id === revisionId);
+      },
+      async diffCalls(from: PipelineRevision, to: PipelineRevision) {
+        return [{ pipelineId: "helper", from: { id: from.calledRevisions.helper, revision: 1 }, to: { id: to.calledRevisions.helper, revision: 2 } }];
+      },
+      async rollback(id: string, revisionId: string) {
+        if (!revisions.some(rev => rev.id === revisionId)) return undefined;
+        rollbacks.push(`${id}:${revisionId}`);
+        return { ...SAMPLE_STORED_2, revisionId: "rev-3" };
+      },
+    });
+    const port = await startServer(mockStore);
+
+    const list = await request(port, "GET", "/api/pipelines/custom/revisions");
+    assert.equal(list.status, 200);
+    assert.deepEqual((list.data.revisions as Array<{ revision: number }>).map(rev => rev.revision), [2, 1]);
+
+    const single = await request(port, "GET", "/api/pipelines/custom/revisions/rev-1");
+    assert.equal((single.data.revision as PipelineRevision).yaml, SAMPLE_STORED_2.yaml);
+    assert.equal((await request(port, "GET", "/api/pipelines/custom/revisions/rev-9")).status, 404);
+
+    // `to` defaults to the current revision
+    const diff = await request(port, "GET", "/api/pipelines/custom/diff?from=rev-1");
+    assert.equal(diff.status, 200);
+    assert.deepEqual((diff.data.diff as PipelineDiff).nodes, { added: ["s2"], removed: ["s1"], changed: [] });
+    assert.deepEqual((diff.data.calls as Array<{ to: { id: string } }>).map(call => call.to.id), ["helper-rev-2"]);
+    assert.equal((await request(port, "GET", "/api/pipelines/custom/diff")).status, 400);
+
+    const rollback = await request(port, "POST", "/api/pipelines/custom/rollback", { revisionId: "rev-1" });
+    assert.equal(rollback.status, 200);
+    assert.deepEqual(rollbacks, ["custom:rev-1"]);
+    assert.equal((await request(port, "POST", "/api/pipelines/custom/rollback", { revisionId: "rev-9" })).status, 404);
+    assert.equal((await request(port, "POST", "/api/pipelines/custom/rollback", {})).status, 400);
+  });
+
   test("pipeline routes return 501 for all methods when store unavailable", async () => {
     const port = await startServer(undefined);
 
@@ -0,0 +1,231 @@
+/**
+ * Tests for YAML-configured webhook adapters — JSONPath mapping, spec
+ * validation, filters, signatures and directory loading.
+ */
+
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, test } from "node:test";
+import { buildDedupKey } from "../src/observer/safety.js";
+import { getAdapter } from "../src/observer/sources/adapter-registry.js";
+import {
+  DeclarativeAdapterLoadError,
+  createDeclarativeAdapter,
+  loadDeclarativeAdapters,
+  parseDeclarativeAdapterYaml,
+} from "../src/observer/sources/declarative-adapter.js";
+import { JsonPathError, parseJsonPath, readJsonPath } from "../src/observer/sources/json-path.js";
+
+// ── Helpers ──
+
+const DATADOG_YAML = `
+source: datadog
+signature:
+  header: X-Datadog-Signature
+  algorithm: sha256
+  prefix: "sha256="
+filter:
+  - field: rawPayload.transition
+    operator: equals
+    value: Triggered
+mapping:
+  repoSlug: $.tags.repo
+  suggestedTask: "Investigate monitor: {{$.title}} ({{ $.links[0] }})"
+  priority: $.priority
+  dedupKey: $.alert_id
+  baseBranch: main
+priorityMap:
+  P1: critical
+  P2: high
+`;
+
+const payload = {
+  alert_id: 4711,
+  title: "Checkout p99 latency",
+  transition: "Triggered",
+  priority: "P1",
+  tags: { repo: "acme/checkout" },
+  links: ["https://app.datadoghq.com/monitors/4711"],
+};
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(tmpdir(), "declarative-adapters-"));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// ═══════════════════════════════════════════════════════
+// JSONPath
+// ═══════════════════════════════════════════════════════
+
+describe("json-path", () => {
+  test("parses dot, bracket and index segments", () => {
+    assert.deepEqual(parseJsonPath("$.a['b c'][2].d"), ["a", "b c", 2, "d"]);
+    assert.deepEqual(parseJsonPath("$"), []);
+  });
+
+  test("rejects unsupported syntax", () => {
+    assert.throws(() => parseJsonPath("a.b"), JsonPathError);
+    assert.throws(() => parseJsonPath("$..a"), JsonPathError);
+    assert.throws(() => parseJsonPath("$.a[*]"), JsonPathError);
+  });
+
+  test("reads values and returns undefined for missing steps", () => {
+    const doc = { a: { list: [{ name: "x" }] } };
+    assert.equal(readJsonPath(doc, parseJsonPath("$.a.list[0].name")), "x");
+    assert.equal(readJsonPath(doc, parseJsonPath("$.a.list[3].name")), undefined);
+    assert.equal(readJsonPath(doc, parseJsonPath("$.a.missing.deeper")), undefined);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Spec Validation
+// ═══════════════════════════════════════════════════════
+
+describe("parseDeclarativeAdapterYaml", () => {
+  test("parses a full spec with defaults", () => {
+    const spec = parseDeclarativeAdapterYaml(DATADOG_YAML, "datadog.yml");
+    assert.equal(spec.source, "datadog");
+    assert.deepEqual(spec.signature, {
+      scheme: "hmac",
+      header: "x-datadog-signature",
+      algorithm: "sha256",
+      encoding: "hex",
+      prefix: "sha256=",
+    });
+    assert.equal(spec.filter.length, 1);
+    assert.equal(spec.priorityMap.P1, "critical");
+  });
+
+  test("rejects invalid specs with the file name in the message", () => {
+    const cases: Array<[string, RegExp]> = [
+      ["source: Bad Name\nmapping: {}", /bad\.yml: source must match/],
+      ["source: x\n", /mapping must be an object/],
+      ["source: x\nmapping:\n  title: $.title", /unknown mapping 'title'/],
+      ["source: x\nmapping:\n  repoSlug: $..repo", /mapping\.repoSlug/],
+      ["source: x\nmapping: {}\npriorityMap:\n  P1: urgent", /priorityMap\.P1/],
+      ["source: x\nmapping: {}\nsignature:\n  algorithm: md5\n  header: x-sig", /signature\.algorithm/],
+      ["source: x\nmapping: {}\nsignature: {}", /signature\.header is required/],
+      ["source: x\nmapping: {}\nfilter:\n  - field: a\n    operator: nope", /filter/],
+      ["source: [", /invalid YAML/],
+    ];
+    for (const [yaml, message] of cases) {
+      assert.throws(() => parseDeclarativeAdapterYaml(yaml, "bad.yml"), (err: unknown) => {
+        assert.ok(err instanceof DeclarativeAdapterLoadError);
+        assert.match(err.message, message);
+        return true;
+      });
+    }
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Mapping & Signatures
+// ═══════════════════════════════════════════════════════
+
+describe("createDeclarativeAdapter", () => {
+  const adapter = createDeclarativeAdapter(parseDeclarativeAdapterYaml(DATADOG_YAML), "C-ALERTS");
+
+  test("maps payload fields into a TriggerEvent", () => {
+    const event = adapter.parseEvent({}, payload);
+    assert.ok(event);
+    assert.equal(event.source, "datadog");
+    assert.equal(event.repoSlug, "acme/checkout");
+    assert.equal(event.baseBranch, "main");
+    assert.equal(event.priority, "critical");
+    assert.equal(event.suggestedTask, "Investigate monitor: Checkout p99 latency (https://app.datadoghq.com/monitors/4711)");
+    assert.equal(event.rawPayload, payload);
+    assert.deepEqual(event.notificationTarget, { type: "slack", channelId: "C-ALERTS" });
+  });
+
+  test("dedup key comes from the mapped field", () => {
+    const first = adapter.parseEvent({}, payload)!;
+    const second = adapter.parseEvent({}, payload)!;
+    assert.notEqual(first.id, second.id);
+    assert.equal(buildDedupKey(first), "datadog:4711");
+    assert.equal(buildDedupKey(second), buildDedupKey(first));
+  });
+
+  test("drops events that fail the filter", () => {
+    assert.equal(adapter.parseEvent({}, { ...payload, transition: "Recovered" }), null);
+  });
+
+  test("normalizes unknown priorities to medium", () => {
+    assert.equal(adapter.parseEvent({}, { ...payload, priority: "P5" })?.priority, "medium");
+    assert.equal(adapter.parseEvent({}, { ...payload, priority: "HIGH" })?.priority, "high");
+  });
+
+  test("verifies HMAC signatures", () => {
+    const body = JSON.stringify(payload);
+    const digest = createHmac("sha256", "dd-secret").update(body).digest("hex");
+    assert.equal(adapter.verifySignature(body, { "x-datadog-signature": `sha256=${digest}` }, "dd-secret"), true);
+    assert.equal(adapter.verifySignature(body, { "x-datadog-signature": digest }, "dd-secret"), false);
+    assert.equal(adapter.verifySignature(`${body} `, { "x-datadog-signature": `sha256=${digest}` }, "dd-secret"), false);
+    assert.equal(adapter.verifySignature(body, {}, "dd-secret"), false);
+  });
+
+  test("verifies token signatures", () => {
+    const tokenAdapter = createDeclarativeAdapter(
+      parseDeclarativeAdapterYaml("source: grafana\nsignature:\n  scheme: token\n  header: Authorization\n  prefix: 'Bearer '\nmapping: {}"),
+      ""
+    );
+    assert.equal(tokenAdapter.verifySignature("{}", { authorization: "Bearer tok" }, "tok"), true);
+    assert.equal(tokenAdapter.verifySignature("{}", { authorization: "Bearer nope" }, "tok"), false);
+    assert.deepEqual(tokenAdapter.parseEvent({}, {})?.notificationTarget, { type: "dashboard_only" });
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Loading
+// ═══════════════════════════════════════════════════════
+
+describe("loadDeclarativeAdapters", () => {
+  test("registers every YAML file and ignores other files", async () => {
+    await withTempDir(async (dir) => {
+      await writeFile(path.join(dir, "datadog.yml"), DATADOG_YAML);
+      await writeFile(path.join(dir, "README.md"), "# not an adapter");
+      const adapters = await loadDeclarativeAdapters(dir, {
+        alertChannelId: "C-ALERTS",
+        webhookSecrets: { datadog: "dd-secret" },
+      });
+      assert.deepEqual(adapters.map((a) => a.source), ["datadog"]);
+      assert.equal(getAdapter("datadog"), adapters[0]);
+    });
+  });
+
+  test("fails when a signed source has no secret", async () => {
+    await withTempDir(async (dir) => {
+      await writeFile(path.join(dir, "datadog.yml"), DATADOG_YAML);
+      await assert.rejects(
+        () => loadDeclarativeAdapters(dir, { alertChannelId: "", webhookSecrets: {} }),
+        /OBSERVER_WEBHOOK_SECRETS has no entry for 'datadog'/
+      );
+    });
+  });
+
+  test("fails on reserved or duplicate sources", async () => {
+    await withTempDir(async (dir) => {
+      await writeFile(path.join(dir, "a.yml"), "source: custom\nmapping: {}");
+      await writeFile(path.join(dir, "b.yaml"), "source: custom\nmapping: {}");
+      await assert.rejects(
+        () => loadDeclarativeAdapters(dir, { alertChannelId: "", webhookSecrets: {} }),
+        /b\.yaml: an adapter for source 'custom' is already registered/
+      );
+      await rm(path.join(dir, "b.yaml"));
+      await assert.rejects(
+        () => loadDeclarativeAdapters(dir, { alertChannelId: "", webhookSecrets: {}, reservedSources: ["custom"] }),
+        DeclarativeAdapterLoadError
+      );
+    });
+  });
+
+  test("returns nothing for a missing directory", async () => {
+    assert.deepEqual(await loadDeclarativeAdapters("/nonexistent/adapters", { alertChannelId: "", webhookSecrets: {} }), []);
+  });
+});
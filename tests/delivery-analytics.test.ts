@@ -0,0 +1,292 @@
+/**
+ * Tests for delivery analytics — state timelines rebuilt from events, the
+ * per-item metrics, summaries and CSV export, over in-memory data.
+ */
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  buildDeliveryAnalyticsReport,
+  buildStateTimeline,
+  deliveryAnalyticsCsv,
+  loadDeliveryAnalytics,
+  workItemDeliveryMetrics,
+  type WorkItemDeliveryMetrics,
+} from "../src/work-items/delivery-analytics.js";
+import type { ReviewRequestRecord, WorkItemEventRecord, WorkItemRecord } from "../src/work-items/types.js";
+
+const HOUR = 3_600_000;
+const START = Date.parse("2026-10-05T00:00:00.000Z");
+
+function at(hours: number): string {
+  return new Date(START + hours * HOUR).toISOString();
+}
+
+function workItem(overrides: Partial<WorkItemRecord> = {}): WorkItemRecord {
+  return {
+    id: "wi-1",
+    workflow: "feature_delivery",
+    state: "done",
+    flags: [],
+    title: "Checkout retries",
+    summary: "",
+    ownerTeamId: "team-1",
+    homeChannelId: "C1",
+    homeThreadTs: "1.0",
+    createdByUserId: "u-1",
+    repo: "acme/shop",
+    githubPrNumber: 42,
+    createdAt: at(0),
+    updatedAt: at(30),
+    ...overrides,
+  };
+}
+
+function eventsOf(workItemId: string, entries: Array<[number, string, Record<string, unknown>]>): WorkItemEventRecord[] {
+  return entries.map(([hours, eventType, payload], index) => ({
+    id: index + 1,
+    workItemId,
+    eventType,
+    payload,
+    createdAt: at(hours),
+  }));
+}
+
+function reviewRequest(overrides: Partial<ReviewRequestRecord> = {}): ReviewRequestRecord {
+  return {
+    id: "rr-1",
+    workItemId: "wi-1",
+    reviewRound: 1,
+    type: "review",
+    targetType: "team",
+    targetRef: {},
+    status: "completed",
+    outcome: "approved",
+    title: "Engineering review",
+    requestMessage: "",
+    focusPoints: [],
+    requestedByUserId: "u-1",
+    requestedAt: at(10),
+    resolvedAt: at(14),
+    createdAt: at(10),
+    updatedAt: at(14),
+    ...overrides,
+  };
+}
+
+// A PR that needs one CI repair, a second auto-review round and a human push.
+const DELIVERED = eventsOf("wi-1", [
+  [0, "work_item.created", { state: "auto_review" }],
+  [0, "github.label_observed", { action: "opened", prNumber: 42, headSha: "sha-0", labels: [] }],
+  [1, "github.ci_updated", { status: "completed", conclusion: "failure" }],
+  [1, "github.ci_updated", { conclusion: "failure", state: "auto_review" }],
+  [1, "run.auto_launched", { runId: "run-1", intentKind: "feature_delivery.repair_ci" }],
+  [3, "github.pr_synchronized", { headSha: "sha-run", previousState: "auto_review", nextState: "auto_review" }],
+  [4, "github.ci_updated", { conclusion: "success", state: "engineering_review" }],
+  [12, "github.pr_synchronized", { headSha: "sha-human", previousState: "engineering_review", nextState: "auto_review" }],
+  [13, "work_item.state_changed", { state: "engineering_review", previousState: "auto_review", reason: "feature_delivery" }],
+  [20, "work_item.state_changed", { state: "ready_for_merge", previousState: "engineering_review" }],
+  [30, "github.pr_merged", {}],
+]);
+
+// ═══════════════════════════════════════════════════════
+
+describe("buildStateTimeline", () => {
+  test("follows every state-carrying event and collapses repeats", () => {
+    assert.deepEqual(buildStateTimeline(workItem(), DELIVERED).map((entry) => [entry.state, entry.enteredAt]), [
+      ["auto_review", at(0)],
+      ["engineering_review", at(4)],
+      ["auto_review", at(12)],
+      ["engineering_review", at(13)],
+      ["ready_for_merge", at(20)],
+      ["done", at(30)],
+    ]);
+  });
+
+  test("starts from the first previous state when the creation event is missing", () => {
+    const events = eventsOf("wi-1", [[5, "github.review_transitioned", { previousState: "engineering_review", nextState: "qa_preparation" }]]);
+    assert.deepEqual(buildStateTimeline(workItem({ state: "product_review", updatedAt: at(8) }), events).map((entry) => entry.state), [
+      "engineering_review",
+      "qa_preparation",
+      "product_review",
+    ]);
+  });
+});
+
+describe("workItemDeliveryMetrics", () => {
+  test("computes lead time, state hours, review waits, rounds, repairs and human pushes", () => {
+    const metrics = workItemDeliveryMetrics({
+      workItem: workItem(),
+      teamName: "payments",
+      events: DELIVERED,
+      reviewRequests: [reviewRequest(), reviewRequest({ id: "rr-2", outcome: "no_response", resolvedAt: at(40) })],
+      runCommitShas: new Set(["sha-run"]),
+      now: new Date(at(100)),
+    });
+
+    assert.equal(metrics.leadTimeHours, 30);
+    assert.equal(metrics.doneAt, at(30));
+    assert.deepEqual(metrics.stateHours, { auto_review: 5, engineering_review: 15, ready_for_merge: 10 });
+    assert.deepEqual(metrics.reviewWaitHours, [4]);
+    assert.equal(metrics.autoReviewRounds, 2);
+    assert.deepEqual([metrics.ciRepairs, metrics.ciRepairsSucceeded], [1, 1]);
+    assert.equal(metrics.humanCodeChanges, 1);
+  });
+
+  test("the current state counts up to now and a pending repair is not yet judged", () => {
+    const events = eventsOf("wi-1", [
+      [0, "work_item.created", { state: "auto_review" }],
+      [2, "run.auto_launched", { intentKind: "feature_delivery.repair_ci" }],
+    ]);
+    const metrics = workItemDeliveryMetrics({
+      workItem: workItem({ state: "auto_review", updatedAt: at(2) }),
+      teamName: "payments",
+      events,
+      reviewRequests: [],
+      runCommitShas: new Set(),
+      now: new Date(at(6)),
+    });
+    assert.deepEqual(metrics.stateHours, { auto_review: 6 });
+    assert.equal(metrics.leadTimeHours, undefined);
+    assert.equal(metrics.ciRepairs, 0);
+  });
+
+  test("human changes are unknown for PRs first observed before pushes carried a head SHA", () => {
+    const metrics = (events: WorkItemEventRecord[]) => workItemDeliveryMetrics({
+      workItem: workItem(),
+      teamName: "payments",
+      events,
+      reviewRequests: [],
+      runCommitShas: new Set(),
+      now: new Date(at(100)),
+    }).humanCodeChanges;
+
+    const legacy = DELIVERED.map((event) => (event.payload["headSha"] ? { ...event, payload: { ...event.payload, headSha: undefined } } : event));
+    assert.equal(metrics(legacy), undefined);
+    assert.equal(metrics(DELIVERED.filter((event) => event.eventType !== "github.label_observed")), undefined);
+    assert.equal(metrics(DELIVERED), 2);
+  });
+
+  test("a run that pushes twice is not counted as a human change", () => {
+    const events = eventsOf("wi-1", [
+      [0, "work_item.created", { state: "auto_review" }],
+      [0, "github.label_observed", { action: "opened", prNumber: 42, headSha: "sha-0", labels: [] }],
+      [2, "github.pr_synchronized", { headSha: "sha-fix-1" }],
+      [4, "github.pr_synchronized", { headSha: "sha-fix-2" }],
+      [30, "github.pr_merged", {}],
+    ]);
+    const metrics = workItemDeliveryMetrics({
+      workItem: workItem(),
+      teamName: "payments",
+      events,
+      reviewRequests: [],
+      runCommitShas: new Set(["sha-fix-1", "sha-fix-2"]),
+      now: new Date(at(100)),
+    });
+    assert.equal(metrics.humanCodeChanges, 0);
+  });
+
+  test("items without a PR have no human change count", () => {
+    const metrics = workItemDeliveryMetrics({
+      workItem: workItem({ githubPrNumber: undefined }),
+      teamName: "payments",
+      events: eventsOf("wi-1", [[0, "work_item.created", { state: "auto_review" }]]),
+      reviewRequests: [],
+      runCommitShas: new Set(),
+      now: new Date(at(100)),
+    });
+    assert.equal(metrics.humanCodeChanges, undefined);
+  });
+});
+
+describe("reports", () => {
+  function item(overrides: Partial<WorkItemDeliveryMetrics>): WorkItemDeliveryMetrics {
+    return {
+      workItemId: "wi-1",
+      title: "Checkout retries",
+      teamId: "team-1",
+      teamName: "payments",
+      repo: "acme/shop",
+      prNumber: 42,
+      state: "done",
+      createdAt: at(0),
+      stateHours: {},
+      reviewWaitHours: [],
+      autoReviewRounds: 1,
+      ciRepairs: 0,
+      ciRepairsSucceeded: 0,
+      humanCodeChanges: 0,
+      ...overrides,
+    };
+  }
+
+  test("summarises per group and overall", () => {
+    const report = buildDeliveryAnalyticsReport([
+      item({ workItemId: "wi-1", doneAt: at(10), leadTimeHours: 10, stateHours: { auto_review: 4 }, ciRepairs: 2, ciRepairsSucceeded: 1 }),
+      item({ workItemId: "wi-2", doneAt: at(30), leadTimeHours: 30, stateHours: { auto_review: 8 }, autoReviewRounds: 3, humanCodeChanges: 2 }),
+      item({ workItemId: "wi-3", teamId: "team-2", teamName: "growth", state: "auto_review", reviewWaitHours: [5, 7] }),
+      item({ workItemId: "wi-4", teamId: "team-3", teamName: "search", doneAt: at(40), leadTimeHours: 40, humanCodeChanges: undefined }),
+    ], "team", new Date(at(50)));
+
+    assert.deepEqual(report.groups.map((group) => [group.label, group.workItems, group.done]), [["payments", 2, 2], ["growth", 1, 0], ["search", 1, 1]]);
+    const payments = report.groups[0]!;
+    assert.equal(payments.medianLeadTimeHours, 20);
+    assert.equal(payments.p85LeadTimeHours, 27);
+    assert.deepEqual(payments.medianStateHours, { auto_review: 6 });
+    assert.equal(payments.averageAutoReviewRounds, 2);
+    assert.equal(payments.ciRepairSuccessRate, 0.5);
+    assert.equal(payments.doneWithoutHumanChangesRate, 0.5);
+    assert.equal(report.groups[1]!.doneWithoutHumanChangesRate, undefined);
+    assert.equal(report.groups[2]!.doneWithoutHumanChangesRate, undefined);
+    assert.equal(report.overall.doneWithoutHumanChangesRate, 0.5);
+    assert.equal(report.overall.medianReviewWaitHours, 6);
+  });
+
+  test("periods group by creation week or month in order", () => {
+    const items = [
+      item({ workItemId: "wi-1", createdAt: "2026-10-14T09:00:00.000Z" }),
+      item({ workItemId: "wi-2", createdAt: "2026-09-30T09:00:00.000Z" }),
+      item({ workItemId: "wi-3", createdAt: "2026-10-11T23:00:00.000Z" }),
+    ];
+    assert.deepEqual(buildDeliveryAnalyticsReport(items, "week").groups.map((group) => [group.key, group.workItems]), [
+      ["2026-09-28", 1],
+      ["2026-10-05", 1],
+      ["2026-10-12", 1],
+    ]);
+    assert.deepEqual(buildDeliveryAnalyticsReport(items, "month").groups.map((group) => group.key), ["2026-09", "2026-10"]);
+  });
+
+  test("CSV has a row per work item, quotes fields and neutralises formulas", () => {
+    const csv = deliveryAnalyticsCsv(buildDeliveryAnalyticsReport([
+      item({ title: "Retry, then \"fail\"", leadTimeHours: 12, stateHours: { auto_review: 3, security_review: 2 } }),
+      item({ workItemId: "wi-2", title: "=HYPERLINK(\"x\")" }),
+    ], "team"));
+    const [header, first, second] = csv.trimEnd().split("\r\n");
+
+    assert.ok(header!.startsWith("work_item_id,jira_issue_key,title,team,repo,pr_number,state,"));
+    assert.ok(header!.endsWith(",hours_ready_for_merge,hours_security_review"));
+    assert.match(first!, /^wi-1,,"Retry, then ""fail""",payments,acme\/shop,42,done,/);
+    assert.match(first!, /,3,(,){5}2$/);
+    assert.match(second!, /^wi-2,,"'=HYPERLINK\(""x""\)",/);
+  });
+});
+
+describe("loadDeliveryAnalytics", () => {
+  test("passes the filters to the store and batches the per-item lookups", async () => {
+    const filters: unknown[] = [];
+    const requested: string[][] = [];
+    const report = await loadDeliveryAnalytics({
+      workItems: { listFeatureDeliveryWorkItems: async (filter) => { filters.push(filter); return [workItem({ id: "wi-1" })]; } },
+      events: { listForWorkItems: async (ids) => { requested.push(ids); return DELIVERED; } },
+      reviewRequests: { listReviewRequestsForWorkItems: async () => [reviewRequest()] },
+      runs: { listCommitShasForWorkItems: async (ids) => { requested.push(ids); return [{ workItemId: "wi-1", commitSha: "sha-run" }]; } },
+      getTeamName: async () => "payments",
+      now: () => new Date(at(100)),
+    }, { teamId: "team-1", repo: "acme/shop", from: new Date(at(-1)), to: new Date(at(1)) });
+
+    assert.deepEqual(filters, [{ ownerTeamId: "team-1", repo: "acme/shop", createdFrom: new Date(at(-1)), createdBefore: new Date(at(1)) }]);
+    assert.deepEqual(requested, [["wi-1"], ["wi-1"]]);
+    assert.deepEqual(report.workItems.map((metrics) => [metrics.workItemId, metrics.teamName, metrics.humanCodeChanges]), [["wi-1", "payments", 1]]);
+    assert.equal(report.overall.done, 1);
+  });
+});
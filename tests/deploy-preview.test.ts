@@ -2,6 +2,7 @@ import assert from "node:assert/strict";
 import test from "node:test";
 import { deployPreviewNode } from "../src/pipeline/nodes/deploy-preview.js";
 import { ContextBag } from "../src/pipeline/context-bag.js";
+import { runWithAbortSignal } from "../src/pipeline/shell.js";
 import type { NodeConfig, NodeDeps } from "../src/pipeline/types.js";
 import type { AppConfig } from "../src/config.js";
 import type { RunRecord } from "../src/types.js";
@@ -255,6 +256,27 @@ test("deploy_preview: readiness_poll_interval_seconds has 1s minimum floor", asy
   assert.ok(elapsed >= 1500, `Expected >=1500ms, got ${String(elapsed)}ms`);
 });
 
+// ── node timeout ──
+
+test("deploy_preview: a node timeout while waiting for a deployment is a soft_fail", async () => {
+  const ctx = new ContextBag();
+  const controller = new AbortController();
+  const deps = makeDeps({
+    githubService: { listDeployments: async () => [] } as unknown as NodeDeps["githubService"],
+    abortSignal: controller.signal
+  });
+
+  setTimeout(() => controller.abort(new Error("deploy_preview timed out after 1s")), 50);
+  const result = await runWithAbortSignal(controller.signal, () => deployPreviewNode(
+    makeNodeConfig({ strategy: "github_deployment_api", github_environment_pattern: "preview" }),
+    ctx,
+    deps
+  ));
+
+  assert.equal(result.outcome, "soft_fail");
+  assert.equal(result.error, "Preview not ready: deploy_preview timed out after 1s");
+});
+
 // ── command strategy ──
 
 test("deploy_preview: command strategy soft_fail without command", async () => {
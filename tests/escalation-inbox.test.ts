@@ -0,0 +1,282 @@
+/**
+ * EscalationInbox tests — paging, status transitions, audit trail and
+ * conversion to a run, using in-memory fakes for the store, Slack and RunManager.
+ */
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { WebClient } from "@slack/web-api";
+import type { AppConfig } from "../src/config.js";
+import {
+  EscalationInbox,
+  buildEscalationBlocks,
+  formatEscalationText,
+  slackEscalationActor,
+  type EscalationRecordStore,
+} from "../src/observer/escalation-inbox.js";
+import type { RunEnqueuer } from "../src/observer/run-enqueuer.js";
+import type { EscalationRecord, TriggerEvent, TriggerRule } from "../src/observer/types.js";
+import type { NewRunInput, RunRecord } from "../src/types.js";
+
+// ── Helpers ──
+
+const config = {
+  observerAlertChannelId: "C-ALERTS",
+  defaultBaseBranch: "main",
+  sandboxRuntime: "local",
+  teamChannelMap: new Map(),
+} as unknown as AppConfig;
+
+function makeEvent(overrides?: Partial<TriggerEvent>): TriggerEvent {
+  return {
+    id: "evt-1",
+    source: "sentry_alert",
+    timestamp: new Date().toISOString(),
+    repoSlug: "org/repo",
+    suggestedTask: "Investigate leaked token in logs",
+    priority: "critical",
+    rawPayload: {},
+    notificationTarget: { type: "dashboard_only" },
+    ...overrides,
+  };
+}
+
+function makeRule(overrides?: Partial<TriggerRule>): TriggerRule {
+  return {
+    id: "security-alerts",
+    source: "sentry_alert",
+    conditions: [],
+    requiresApproval: false,
+    notificationChannel: "C-SEC",
+    cooldownMinutes: 60,
+    maxRunsPerHour: 5,
+    ...overrides,
+  };
+}
+
+function makeStore(): EscalationRecordStore & { records: Map<string, EscalationRecord> } {
+  const records = new Map<string, EscalationRecord>();
+  let counter = 0;
+  return {
+    records,
+    async create(input) {
+      counter += 1;
+      const now = new Date().toISOString();
+      const record: EscalationRecord = {
+        id: `esc-${String(counter)}`,
+        eventId: input.event.id,
+        source: input.event.source,
+        ruleId: input.rule.id,
+        repoSlug: input.event.repoSlug ?? input.rule.repoSlug,
+        priority: input.event.priority,
+        reason: input.reason,
+        confidence: input.confidence,
+        status: "open",
+        event: input.event,
+        rule: input.rule,
+        audit: [{ action: "escalated", actor: "observer", at: now, note: input.reason }],
+        createdAt: now,
+        updatedAt: now,
+      };
+      records.set(record.id, record);
+      return { ...record };
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record ? { ...record, audit: [...record.audit] } : undefined;
+    },
+    async list(options) {
+      return [...records.values()].filter((record) => !options?.status || record.status === options.status);
+    },
+    async setSlackMessage(id, channelId, messageTs) {
+      const record = records.get(id)!;
+      record.slackChannelId = channelId;
+      record.slackMessageTs = messageTs;
+    },
+    async transition(id, from, entry, status) {
+      const record = records.get(id);
+      if (!record || record.status !== from) return undefined;
+      record.status = status;
+      record.audit = [...record.audit, entry];
+      record.runId = entry.runId ?? record.runId;
+      record.updatedAt = entry.at;
+      return { ...record, audit: [...record.audit] };
+    },
+    async setRun(id, runId) {
+      const record = records.get(id);
+      if (!record) return undefined;
+      record.runId = runId;
+      record.audit = record.audit.map((entry) => (entry.action === "converted" ? { ...entry, runId } : entry));
+      return { ...record, audit: [...record.audit] };
+    },
+  };
+}
+
+function makeRunManager(): RunEnqueuer & { enqueued: NewRunInput[] } {
+  const enqueued: NewRunInput[] = [];
+  return {
+    enqueued,
+    async enqueueRun(input) {
+      enqueued.push(input);
+      return { id: "run-12345678", repoSlug: input.repoSlug } as RunRecord;
+    },
+    onRunTerminal() {},
+  };
+}
+
+function makeSlack() {
+  const posted: Array<Record<string, unknown>> = [];
+  const updated: Array<Record<string, unknown>> = [];
+  const client = {
+    chat: {
+      postMessage: async (args: Record<string, unknown>) => {
+        posted.push(args);
+        return { ok: true, ts: "1700000000.000100" };
+      },
+      update: async (args: Record<string, unknown>) => {
+        updated.push(args);
+        return { ok: true };
+      },
+    },
+  } as unknown as WebClient;
+  return { client, posted, updated };
+}
+
+const decision = { action: "escalate" as const, confidence: 0.92, reason: "Possible credential leak" };
+
+function actionIds(escalation: EscalationRecord): string[] {
+  const actions = buildEscalationBlocks(escalation).find((block) => block.type === "actions") as
+    | { elements: Array<{ action_id: string }> }
+    | undefined;
+  return actions ? actions.elements.map((element) => element.action_id) : [];
+}
+
+// ── Tests ──
+
+describe("EscalationInbox", () => {
+  test("escalate() stores the triage reason and pages the rule's channel", async () => {
+    const store = makeStore();
+    const slack = makeSlack();
+    const inbox = new EscalationInbox(store, config, makeRunManager(), slack.client);
+
+    const escalation = await inbox.escalate(makeEvent(), makeRule(), decision);
+
+    assert.equal(escalation.status, "open");
+    assert.equal(escalation.confidence, 0.92);
+    assert.equal(slack.posted.length, 1);
+    assert.equal(slack.posted[0]!.channel, "C-SEC");
+    assert.match(String(slack.posted[0]!.text), /Possible credential leak/);
+    assert.match(String(slack.posted[0]!.text), /92%/);
+    assert.equal(store.records.get(escalation.id)!.slackMessageTs, "1700000000.000100");
+    assert.deepEqual(actionIds(escalation), [
+      "observer_escalation_ack",
+      "observer_escalation_convert",
+      "observer_escalation_dismiss",
+    ]);
+  });
+
+  test("escalate() falls back to the observer alert channel", async () => {
+    const slack = makeSlack();
+    const inbox = new EscalationInbox(makeStore(), config, makeRunManager(), slack.client);
+
+    await inbox.escalate(makeEvent(), makeRule({ notificationChannel: undefined }), decision);
+
+    assert.equal(slack.posted[0]!.channel, "C-ALERTS");
+  });
+
+  test("acknowledge() appends to the audit trail and updates the page", async () => {
+    const slack = makeSlack();
+    const inbox = new EscalationInbox(makeStore(), config, makeRunManager(), slack.client);
+    const escalation = await inbox.escalate(makeEvent(), makeRule(), decision);
+
+    const result = await inbox.acknowledge(escalation.id, slackEscalationActor("U42"));
+
+    assert.ok(result.ok);
+    assert.equal(result.escalation.status, "acknowledged");
+    assert.deepEqual(result.escalation.audit.map((entry) => entry.action), ["escalated", "acknowledged"]);
+    assert.equal(slack.updated.length, 1);
+    assert.match(String(slack.updated[0]!.text), /acknowledged by <@U42>/);
+    assert.deepEqual(actionIds(result.escalation), ["observer_escalation_convert", "observer_escalation_dismiss"]);
+
+    const again = await inbox.acknowledge(escalation.id, "dashboard");
+    assert.equal(again.ok, false);
+  });
+
+  test("convertToRun() queues a run threaded under the page", async () => {
+    const runManager = makeRunManager();
+    const slack = makeSlack();
+    const inbox = new EscalationInbox(makeStore(), config, runManager, slack.client);
+    const escalation = await inbox.escalate(makeEvent(), makeRule(), decision);
+
+    const result = await inbox.convertToRun(escalation.id, "user:u-1");
+
+    assert.ok(result.ok);
+    assert.equal(result.run?.id, "run-12345678");
+    assert.equal(result.escalation.status, "converted");
+    assert.equal(result.escalation.runId, "run-12345678");
+    assert.equal(runManager.enqueued.length, 1);
+    assert.equal(runManager.enqueued[0]!.channelId, "C-SEC");
+    assert.equal(runManager.enqueued[0]!.threadTs, "1700000000.000100");
+    assert.equal(runManager.enqueued[0]!.requestedBy, "user:u-1");
+    // Only the page was posted — no extra seed message
+    assert.equal(slack.posted.length, 1);
+    assert.deepEqual(actionIds(result.escalation), []);
+
+    const dismissed = await inbox.dismiss(escalation.id, "dashboard");
+    assert.equal(dismissed.ok, false);
+  });
+
+  test("convertToRun() queues one run when two people convert at once", async () => {
+    const runManager = makeRunManager();
+    const inbox = new EscalationInbox(makeStore(), config, runManager, makeSlack().client);
+    const escalation = await inbox.escalate(makeEvent(), makeRule(), decision);
+
+    const results = await Promise.all([
+      inbox.convertToRun(escalation.id, slackEscalationActor("U1")),
+      inbox.convertToRun(escalation.id, "dashboard"),
+    ]);
+
+    assert.equal(results.filter((result) => result.ok).length, 1);
+    assert.equal(runManager.enqueued.length, 1);
+  });
+
+  test("convertToRun() reopens the escalation when the run cannot be queued", async () => {
+    const store = makeStore();
+    const runManager: RunEnqueuer = {
+      async enqueueRun() { throw new Error("queue unavailable"); },
+      onRunTerminal() {},
+    };
+    const inbox = new EscalationInbox(store, config, runManager, makeSlack().client);
+    const escalation = await inbox.escalate(makeEvent(), makeRule(), decision);
+
+    const result = await inbox.convertToRun(escalation.id, "dashboard");
+
+    assert.equal(result.ok, false);
+    const stored = store.records.get(escalation.id)!;
+    assert.equal(stored.status, "open");
+    assert.deepEqual(stored.audit.map((entry) => entry.action), ["escalated", "converted", "reopened"]);
+  });
+
+  test("convertToRun() refuses events without a repo", async () => {
+    const runManager = makeRunManager();
+    const inbox = new EscalationInbox(makeStore(), config, runManager);
+    const escalation = await inbox.escalate(makeEvent({ repoSlug: undefined }), makeRule(), decision);
+
+    const result = await inbox.convertToRun(escalation.id, "dashboard");
+
+    assert.equal(result.ok, false);
+    assert.equal(runManager.enqueued.length, 0);
+  });
+
+  test("dismiss() records the note", async () => {
+    const inbox = new EscalationInbox(makeStore(), config, makeRunManager());
+    const escalation = await inbox.escalate(makeEvent(), makeRule(), decision);
+
+    const result = await inbox.dismiss(escalation.id, "dashboard", "Known false positive");
+
+    assert.ok(result.ok);
+    assert.equal(result.escalation.status, "dismissed");
+    assert.equal(result.escalation.audit.at(-1)?.note, "Known false positive");
+    assert.match(formatEscalationText(result.escalation), /Dismissed/);
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * FanOutManager tests — repo resolution, bounded concurrency, aggregate
+ * Slack card and cancellation, using in-memory fakes for the stores and
+ * RunManager.
+ */
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { WebClient } from "@slack/web-api";
+import { handleMessage } from "../src/orchestrator/orchestrator.js";
+import type { HandleMessageDeps } from "../src/orchestrator/types.js";
+import {
+  FanOutError,
+  FanOutManager,
+  formatFanOutText,
+  type FanOutConfig,
+  type FanOutRecord,
+  type FanOutRecordStore,
+  type FanOutRunManager,
+  type NewFanOutInput,
+} from "../src/runs/fan-out.js";
+import type { NewRunInput, RunRecord, RunStatus } from "../src/types.js";
+
+// ── Helpers ──
+
+const config: FanOutConfig = {
+  slackCommandName: "goose",
+  repoAllowlist: [],
+  defaultBaseBranch: "main",
+  dashboardEnabled: false,
+  dashboardHost: "127.0.0.1",
+  dashboardPort: 8787,
+};
+
+function makeFanOutStore(): FanOutRecordStore & { records: Map<string, FanOutRecord> } {
+  const records = new Map<string, FanOutRecord>();
+  let counter = 0;
+  return {
+    records,
+    async create(input: NewFanOutInput) {
+      counter++;
+      const record: FanOutRecord = { ...input, id: `fan-${String(counter)}`, status: "running", createdAt: new Date().toISOString() };
+      records.set(record.id, record);
+      return { ...record };
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record ? { ...record } : undefined;
+    },
+    async list() {
+      return [...records.values()];
+    },
+    async listRunning() {
+      return [...records.values()].filter((record) => record.status === "running");
+    },
+    async setStatusMessageTs(id, statusMessageTs) {
+      records.get(id)!.statusMessageTs = statusMessageTs;
+    },
+    async recordEnqueueError(id, repoSlug, error) {
+      const record = records.get(id)!;
+      record.enqueueErrors = { ...record.enqueueErrors, [repoSlug]: error };
+    },
+    async finish(id, status) {
+      const record = records.get(id)!;
+      record.status = status;
+      record.finishedAt = new Date().toISOString();
+    },
+  };
+}
+
+function makeRuns(failingRepos: string[] = []) {
+  const runs: RunRecord[] = [];
+  const statusCallbacks: Array<(runId: string, status: string, runtime: RunRecord["runtime"]) => void> = [];
+  const cancelled: string[] = [];
+  const runManager: FanOutRunManager = {
+    async enqueueRun(input) {
+      if (failingRepos.includes(input.repoSlug)) {
+        throw new Error(`Cannot enqueue ${input.repoSlug}`);
+      }
+      const run: RunRecord = {
+        ...(input as NewRunInput),
+        id: `run-${String(runs.length + 1)}`,
+        runtime: "local",
+        status: "queued",
+        branchName: `goose/run-${String(runs.length + 1)}`,
+        createdAt: new Date().toISOString(),
+      };
+      runs.push(run);
+      return run;
+    },
+    async cancelRun(runId) {
+      cancelled.push(runId);
+      return true;
+    },
+    onRunStatusChange(cb) {
+      statusCallbacks.push(cb);
+    },
+    onRunTerminal() {},
+  };
+  const runStore = {
+    async listRunsForFanOut(fanOutId: string) {
+      return runs.filter((run) => run.fanOutId === fanOutId);
+    },
+  };
+  async function finishRun(runId: string, status: RunStatus, prUrl?: string): Promise<void> {
+    const run = runs.find((candidate) => candidate.id === runId)!;
+    run.status = status;
+    run.prUrl = prUrl;
+    for (const cb of statusCallbacks) cb(runId, status, "local");
+    // Let the manager's promise chain settle.
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  return { runs, cancelled, runManager, runStore, finishRun };
+}
+
+function makeSlack() {
+  const posted: Array<Record<string, unknown>> = [];
+  const updated: Array<Record<string, unknown>> = [];
+  const client = {
+    chat: {
+      postMessage: async (args: Record<string, unknown>) => {
+        posted.push(args);
+        return { ok: true, ts: "1700000000.000100" };
+      },
+      update: async (args: Record<string, unknown>) => {
+        updated.push(args);
+        return { ok: true };
+      },
+    },
+  } as unknown as WebClient;
+  return { client, posted, updated };
+}
+
+const slackInput = { requestedBy: "U123", channelId: "C123", threadTs: "1700000000.000001" };
+
+// ── Tests ──
+
+describe("FanOutManager", () => {
+  test("runs at most `concurrency` children and starts the next as one finishes", async () => {
+    const store = makeFanOutStore();
+    const runs = makeRuns();
+    const manager = new FanOutManager(config, store, runs.runStore, runs.runManager, undefined, undefined);
+
+    const view = await manager.start({
+      ...slackInput,
+      task: "Bump shared eslint config",
+      targets: { repos: ["acme/a", "acme/b", "acme/c"] },
+      concurrency: 2,
+    });
+
+    assert.equal(runs.runs.length, 2);
+    assert.deepEqual(view.children.map((child) => child.status), ["queued", "queued", "pending"]);
+    assert.ok(runs.runs.every((run) => run.fanOutId === view.id && run.channelId === "fanout"));
+
+    await runs.finishRun("run-1", "completed", "https://github.com/acme/a/pull/1");
+    assert.equal(runs.runs.length, 3);
+    assert.equal(runs.runs[2]!.repoSlug, "acme/c");
+
+    await runs.finishRun("run-2", "failed");
+    await runs.finishRun("run-3", "completed", "https://github.com/acme/c/pull/7");
+
+    const done = await manager.get(view.id);
+    assert.equal(done!.status, "completed");
+    assert.deepEqual(done!.counts, { pending: 0, active: 0, completed: 2, failed: 1, cancelled: 0 });
+    assert.equal(done!.children[0]!.prUrl, "https://github.com/acme/a/pull/1");
+  });
+
+  test("rejects repos outside the allowlist and malformed slugs", async () => {
+    const runs = makeRuns();
+    const manager = new FanOutManager(
+      { ...config, repoAllowlist: ["acme/a"] },
+      makeFanOutStore(),
+      runs.runStore,
+      runs.runManager,
+      undefined,
+      undefined
+    );
+
+    await assert.rejects(
+      manager.start({ ...slackInput, task: "x", targets: { repos: ["acme/a", "acme/secret"] } }),
+      (error: unknown) => error instanceof FanOutError && /acme\/secret/.test(error.message)
+    );
+    await assert.rejects(
+      manager.start({ ...slackInput, task: "x", targets: { repos: ["not-a-slug", "acme/a"] } }),
+      FanOutError
+    );
+    assert.equal(runs.runs.length, 0);
+  });
+
+  test("resolves org/topic targets through GitHub search, filtered by the allowlist", async () => {
+    const runs = makeRuns();
+    const searches: Array<{ org?: string; topic?: string }> = [];
+    const manager = new FanOutManager(
+      { ...config, repoAllowlist: ["acme/a", "acme/b"] },
+      makeFanOutStore(),
+      runs.runStore,
+      runs.runManager,
+      {
+        async searchRepositories(filter) {
+          searches.push(filter);
+          return [
+            { fullName: "acme/a", private: true },
+            { fullName: "acme/b", private: false },
+            { fullName: "acme/unlisted", private: true },
+          ];
+        },
+      },
+      undefined
+    );
+
+    const view = await manager.start({ ...slackInput, task: "Rename deprecated API", targets: { org: "acme", topic: "service" } });
+
+    assert.deepEqual(searches, [{ org: "acme", topic: "service" }]);
+    assert.deepEqual(view.repoSlugs, ["acme/a", "acme/b"]);
+    assert.equal(view.concurrency, 3);
+  });
+
+  test("posts one aggregate Slack card and updates it as children finish", async () => {
+    const runs = makeRuns();
+    const slack = makeSlack();
+    const manager = new FanOutManager(config, makeFanOutStore(), runs.runStore, runs.runManager, undefined, slack.client);
+
+    await manager.start({ ...slackInput, task: "Bump config", targets: { repos: ["acme/a", "acme/b"] } });
+    assert.equal(slack.posted.length, 1);
+    assert.equal(slack.posted[0]!["thread_ts"], slackInput.threadTs);
+
+    await runs.finishRun("run-1", "completed", "https://github.com/acme/a/pull/3");
+    const last = slack.updated.at(-1)!;
+    assert.equal(last["ts"], "1700000000.000100");
+    assert.match(String(last["text"]), /1\/2 done/);
+    assert.match(String(last["text"]), /acme\/a.*pull\/3/);
+  });
+
+  test("cancel stops pending repos and cancels active children", async () => {
+    const store = makeFanOutStore();
+    const runs = makeRuns();
+    const manager = new FanOutManager(config, store, runs.runStore, runs.runManager, undefined, undefined);
+
+    const view = await manager.start({ ...slackInput, task: "x", targets: { repos: ["acme/a", "acme/b"] }, concurrency: 1 });
+    const cancelled = await manager.cancel(view.id);
+
+    assert.deepEqual(runs.cancelled, ["run-1"]);
+    assert.equal(cancelled!.status, "cancelled");
+    assert.equal(cancelled!.children[1]!.status, "skipped");
+
+    await runs.finishRun("run-1", "cancelled");
+    assert.equal(runs.runs.length, 1);
+  });
+
+  test("a repo that cannot be enqueued is marked failed and the others still start", async () => {
+    const store = makeFanOutStore();
+    const runs = makeRuns(["acme/a"]);
+    const manager = new FanOutManager(config, store, runs.runStore, runs.runManager, undefined, undefined);
+
+    const view = await manager.start({ ...slackInput, task: "x", targets: { repos: ["acme/a", "acme/b", "acme/c"] }, concurrency: 1 });
+    assert.equal(view.status, "running");
+    assert.deepEqual(view.children.map((child) => [child.repoSlug, child.status]), [
+      ["acme/a", "failed"],
+      ["acme/b", "queued"],
+      ["acme/c", "pending"],
+    ]);
+    assert.equal(view.children[0]!.error, "Cannot enqueue acme/a");
+
+    await runs.finishRun("run-1", "completed");
+    await runs.finishRun("run-2", "completed");
+    const finished = await manager.get(view.id);
+    assert.equal(finished!.status, "completed");
+    assert.deepEqual(finished!.counts, { pending: 0, active: 0, completed: 2, failed: 1, cancelled: 0 });
+  });
+
+  test("a fan-out whose repos all fail to enqueue finishes instead of staying running", async () => {
+    const store = makeFanOutStore();
+    const runs = makeRuns(["acme/a", "acme/b"]);
+    const manager = new FanOutManager(config, store, runs.runStore, runs.runManager, undefined, undefined);
+
+    const view = await manager.start({ ...slackInput, task: "x", targets: { repos: ["acme/a", "acme/b"] } });
+    assert.equal(view.status, "completed");
+    assert.equal(view.counts.failed, 2);
+    assert.equal(runs.runs.length, 0);
+  });
+
+  test("formatFanOutText lists each repo with its outcome", () => {
+    const text = formatFanOutText({
+      id: "fan-1",
+      task: "x",
+      baseBranch: "main",
+      targets: { repos: ["acme/a", "acme/b"] },
+      repoSlugs: ["acme/a", "acme/b"],
+      concurrency: 2,
+      requestedBy: "U1",
+      channelId: "C1",
+      threadTs: "1",
+      status: "completed",
+      createdAt: new Date().toISOString(),
+      children: [
+        { repoSlug: "acme/a", status: "completed", runId: "run-1", prUrl: "https://github.com/acme/a/pull/1" },
+        { repoSlug: "acme/b", status: "failed", runId: "run-2", error: "Validation failed" },
+      ],
+      counts: { pending: 0, active: 0, completed: 1, failed: 1, cancelled: 0 },
+    }, "goose");
+
+    assert.match(text, /⚠️ \*goose • fan-out across 2 repos\* \(2\/2 done\)/);
+    assert.match(text, /✅ `acme\/a` — <https:\/\/github.com\/acme\/a\/pull\/1\|PR>/);
+    assert.match(text, /❌ `acme\/b` — failed: Validation failed/);
+  });
+});
+
+describe("execute_multi_repo_task tool", () => {
+  test("is offered only when startFanOut is wired and forwards the targets", async () => {
+    const calls: unknown[] = [];
+    const toolNames: string[][] = [];
+    let toolResult = "";
+    const fakeLLM = async (_config: unknown, request: {
+      tools: Array<{ function: { name: string } }>;
+      executeTool: (name: string, args: Record<string, unknown>) => Promise<string>;
+    }) => {
+      toolNames.push(request.tools.map((tool) => tool.function.name));
+      if (request.tools.some((tool) => tool.function.name === "execute_multi_repo_task")) {
+        toolResult = await request.executeTool("execute_multi_repo_task", {
+          repos: ["acme/a", "acme/b"],
+          task: "Bump config",
+          concurrency: 2,
+        });
+      }
+      return { content: "ok", messages: [], turnsUsed: 1, totalInputTokens: 0, totalOutputTokens: 0, perModelUsage: [] };
+    };
+    const baseDeps: HandleMessageDeps = {
+      enqueueRun: async () => ({ id: "x", branchName: "b", repoSlug: "o/r" }),
+      listRuns: async () => "[]",
+      getConfig: async () => "{}",
+      repoAllowlist: [],
+    };
+    const request = { message: "bump config in a and b", userId: "U1", channelId: "C1", threadTs: "T1" };
+
+    await handleMessage({} as never, "m", "system", request, baseDeps, { _callLLMOverride: fakeLLM });
+    await handleMessage({} as never, "m", "system", request, {
+      ...baseDeps,
+      startFanOut: async (targets, task, opts) => {
+        calls.push({ targets, task, opts });
+        return "Multi-repo run started";
+      },
+    }, { _callLLMOverride: fakeLLM });
+
+    assert.equal(toolNames[0]!.includes("execute_multi_repo_task"), false);
+    assert.equal(toolNames[1]!.includes("execute_multi_repo_task"), true);
+    assert.deepEqual(calls, [{
+      targets: { repos: ["acme/a", "acme/b"], org: undefined, topic: undefined },
+      task: "Bump config",
+      opts: { baseBranch: undefined, concurrency: 2 },
+    }]);
+    assert.equal(toolResult, "Multi-repo run started");
+  });
+});
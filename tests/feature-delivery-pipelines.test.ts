@@ -13,12 +13,12 @@ const expectedCommonNodes = [
   { id: "validate", type: "deterministic", action: "validate" },
   { id: "local_test", type: "deterministic", action: "local_test" },
   { id: "lightweight_checks", type: "deterministic", action: "lightweight_checks" },
-  { id: "diff_gate", type: "conditional", action: "diff_gate" },
-  { id: "forbidden_files", type: "conditional", action: "forbidden_files" },
-  { id: "security_scan", type: "deterministic", action: "security_scan" },
-  { id: "commit", type: "deterministic", action: "commit" },
-  { id: "push", type: "deterministic", action: "push" },
-  { id: "create_pr", type: "deterministic", action: "create_pr" },
+  { id: "quality_gates.diff_gate", type: "conditional", action: "diff_gate" },
+  { id: "quality_gates.forbidden_files", type: "conditional", action: "forbidden_files" },
+  { id: "quality_gates.security_scan", type: "deterministic", action: "security_scan" },
+  { id: "publish.commit", type: "deterministic", action: "commit" },
+  { id: "publish.push", type: "deterministic", action: "push" },
+  { id: "publish.create_pr", type: "deterministic", action: "create_pr" },
   { id: "wait_ci", type: "async", action: "wait_ci" },
   { id: "notify", type: "deterministic", action: "notify" },
 ];
@@ -0,0 +1,221 @@
+/**
+ * Tests for the incident webhook adapter (PagerDuty / Opsgenie) — signature
+ * verification, fixture payload parsing, dedup keys and incident notes.
+ */
+
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, test } from "node:test";
+import { IncidentNoteClient, formatIncidentRunNote } from "../src/observer/incident-notes.js";
+import { buildDedupKey } from "../src/observer/safety.js";
+import { createIncidentAdapter } from "../src/observer/sources/incident-adapter-wrapper.js";
+import {
+  mapIncidentPriority,
+  parseIncidentWebhook,
+  verifyIncidentSignature,
+  verifyPagerDutySignature,
+  type IncidentPayload,
+} from "../src/observer/sources/incident-webhook-adapter.js";
+import type { RunRecord } from "../src/types.js";
+
+// ── Helpers ──
+
+const FIXTURES_DIR = path.join(import.meta.dirname, "fixtures", "incidents");
+
+function fixtureBody(name: string): string {
+  return readFileSync(path.join(FIXTURES_DIR, name), "utf8");
+}
+
+function fixture(name: string): unknown {
+  return JSON.parse(fixtureBody(name));
+}
+
+function pagerDutySignature(body: string, secret: string): string {
+  return `v1=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+const options = {
+  alertChannelId: "C-ALERTS",
+  serviceRepoMap: new Map([
+    ["PF9KMXH", "acme/checkout"],
+    ["search-indexer", "acme/search"],
+  ]),
+};
+
+// ═══════════════════════════════════════════════════════
+// Signature Verification
+// ═══════════════════════════════════════════════════════
+
+describe("incident webhook signatures", () => {
+  const secret = "incident-secret";
+  const body = fixtureBody("pagerduty-incident-triggered.json");
+
+  test("accepts a valid PagerDuty signature", () => {
+    assert.equal(verifyPagerDutySignature(body, pagerDutySignature(body, secret), secret), true);
+  });
+
+  test("accepts any signature in a rotated PagerDuty header", () => {
+    const header = `${pagerDutySignature(body, "old-secret")},${pagerDutySignature(body, secret)}`;
+    assert.equal(verifyPagerDutySignature(body, header, secret), true);
+  });
+
+  test("rejects tampered bodies and missing signatures", () => {
+    assert.equal(verifyPagerDutySignature(`${body} `, pagerDutySignature(body, secret), secret), false);
+    assert.equal(verifyPagerDutySignature(body, undefined, secret), false);
+  });
+
+  test("falls back to a shared secret for unsigned (Opsgenie) webhooks", () => {
+    assert.equal(verifyIncidentSignature(body, { authorization: `Bearer ${secret}` }, secret), true);
+    assert.equal(verifyIncidentSignature(body, { "x-webhook-secret": secret }, secret), true);
+    assert.equal(verifyIncidentSignature(body, { "x-webhook-secret": "wrong" }, secret), false);
+    assert.equal(verifyIncidentSignature(body, {}, secret), false);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Payload Parsing
+// ═══════════════════════════════════════════════════════
+
+describe("parseIncidentWebhook", () => {
+  test("maps a PagerDuty incident.triggered payload", () => {
+    const event = parseIncidentWebhook(fixture("pagerduty-incident-triggered.json"), options);
+    assert.ok(event);
+    assert.equal(event.source, "incident");
+    assert.equal(event.repoSlug, "acme/checkout");
+    assert.equal(event.priority, "high");
+    assert.deepEqual(event.notificationTarget, { type: "slack", channelId: "C-ALERTS" });
+
+    const incident = event.rawPayload as IncidentPayload;
+    assert.equal(incident.provider, "pagerduty");
+    assert.equal(incident.incidentId, "Q2YW0B7ZV3MJ1K");
+    assert.equal(incident.service, "checkout-api");
+    assert.equal(incident.urgency, "high");
+    assert.equal(incident.incidentPriority, "P2");
+    assert.equal(incident.runbookUrl, "https://runbooks.acme.dev/checkout/5xx");
+
+    assert.match(event.suggestedTask!, /Investigate incident: Checkout API 5xx rate/);
+    assert.match(event.suggestedTask!, /Runbook: https:\/\/runbooks\.acme\.dev\/checkout\/5xx/);
+    assert.match(event.suggestedTask!, /Incident link: https:\/\/acme\.pagerduty\.com\/incidents\/Q2YW0B7ZV3MJ1K/);
+  });
+
+  test("ignores non-actionable PagerDuty events", () => {
+    assert.equal(parseIncidentWebhook(fixture("pagerduty-incident-acknowledged.json"), options), null);
+  });
+
+  test("maps an Opsgenie Create payload", () => {
+    const event = parseIncidentWebhook(fixture("opsgenie-alert-create.json"), options);
+    assert.ok(event);
+    assert.equal(event.repoSlug, "acme/search");
+    assert.equal(event.priority, "medium");
+
+    const incident = event.rawPayload as IncidentPayload;
+    assert.equal(incident.provider, "opsgenie");
+    assert.equal(incident.eventType, "alert.create");
+    assert.equal(incident.incidentId, "70413a06-38d6-4c85-92b8-5ebc900d42e2");
+    assert.equal(incident.runbookUrl, "https://runbooks.acme.dev/search/indexer-backlog");
+    assert.match(event.suggestedTask!, /Backlog has grown steadily/);
+  });
+
+  test("ignores unknown payloads and Opsgenie actions other than Create/Escalate", () => {
+    assert.equal(parseIncidentWebhook({ hello: "world" }, options), null);
+    const closed = { ...(fixture("opsgenie-alert-create.json") as Record<string, unknown>), action: "Close" };
+    assert.equal(parseIncidentWebhook(closed, options), null);
+  });
+
+  test("leaves repoSlug unset for unmapped services", () => {
+    const event = parseIncidentWebhook(fixture("pagerduty-incident-triggered.json"), { alertChannelId: "C-ALERTS" });
+    assert.equal(event?.repoSlug, undefined);
+  });
+
+  test("dedup key is stable per incident across deliveries", () => {
+    const first = parseIncidentWebhook(fixture("pagerduty-incident-triggered.json"), options)!;
+    const second = parseIncidentWebhook(fixture("pagerduty-incident-triggered.json"), options)!;
+    assert.notEqual(first.id, second.id);
+    assert.equal(buildDedupKey(first), "incident:pagerduty:Q2YW0B7ZV3MJ1K");
+    assert.equal(buildDedupKey(second), buildDedupKey(first));
+  });
+
+  test("createIncidentAdapter exposes the incident source", () => {
+    const adapter = createIncidentAdapter(options);
+    assert.equal(adapter.source, "incident");
+    assert.ok(adapter.parseEvent({}, fixture("opsgenie-alert-create.json")));
+  });
+});
+
+describe("mapIncidentPriority", () => {
+  test("prefers the provider priority over urgency", () => {
+    assert.equal(mapIncidentPriority("P1", "low"), "critical");
+    assert.equal(mapIncidentPriority("p4", "high"), "low");
+  });
+
+  test("falls back to urgency, then medium", () => {
+    assert.equal(mapIncidentPriority(undefined, "high"), "high");
+    assert.equal(mapIncidentPriority(undefined, "low"), "low");
+    assert.equal(mapIncidentPriority(undefined, undefined), "medium");
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Incident Notes
+// ═══════════════════════════════════════════════════════
+
+describe("IncidentNoteClient", () => {
+  test("posts PagerDuty notes with the From header", async () => {
+    const originalFetch = globalThis.fetch;
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+    globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push({ url: String(input), init: init ?? {} });
+      return new Response("{}", { status: 201 });
+    };
+    try {
+      const client = new IncidentNoteClient({ pagerdutyApiToken: "pd-token", pagerdutyFromEmail: "bot@acme.dev" });
+      await client.addNote("pagerduty", "Q2YW0B7ZV3MJ1K", "Run finished");
+
+      assert.equal(requests.length, 1);
+      assert.equal(requests[0]!.url, "https://api.pagerduty.com/incidents/Q2YW0B7ZV3MJ1K/notes");
+      const headers = requests[0]!.init.headers as Record<string, string>;
+      assert.equal(headers.Authorization, "Token token=pd-token");
+      assert.equal(headers.From, "bot@acme.dev");
+      assert.deepEqual(JSON.parse(String(requests[0]!.init.body)), { note: { content: "Run finished" } });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("posts Opsgenie notes to the configured API host", async () => {
+    const originalFetch = globalThis.fetch;
+    const urls: string[] = [];
+    globalThis.fetch = async (input: RequestInfo | URL) => {
+      urls.push(String(input));
+      return new Response("{}", { status: 202 });
+    };
+    try {
+      const client = new IncidentNoteClient({ opsgenieApiKey: "og-key", opsgenieApiUrl: "https://api.eu.opsgenie.com/" });
+      await client.addNote("opsgenie", "70413a06", "Run finished");
+      assert.deepEqual(urls, ["https://api.eu.opsgenie.com/v2/alerts/70413a06/notes?identifierType=id"]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test("refuses providers without credentials", async () => {
+    const client = new IncidentNoteClient({ opsgenieApiKey: "og-key" });
+    assert.equal(client.supports("pagerduty"), false);
+    await assert.rejects(() => client.addNote("pagerduty", "X", "note"), /not configured for pagerduty/);
+  });
+
+  test("formatIncidentRunNote summarizes the run", () => {
+    const run = { prUrl: "https://github.com/acme/checkout/pull/42", changedFiles: ["a.ts", "b.ts"] } as RunRecord;
+    const note = formatIncidentRunNote("12345678-aaaa", "completed", run, "https://gooseherd.acme.dev/");
+    assert.match(note, /Gooseherd run 12345678 completed\./);
+    assert.match(note, /Pull request: https:\/\/github\.com\/acme\/checkout\/pull\/42/);
+    assert.match(note, /Changed files: 2/);
+    assert.match(note, /Run: https:\/\/gooseherd\.acme\.dev\/#run\/12345678/);
+
+    const failed = formatIncidentRunNote("12345678-aaaa", "failed", { error: "tests failed" } as RunRecord);
+    assert.match(failed, /finished with status failed/);
+    assert.match(failed, /Error: tests failed/);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Tests for Jira write-back — a local HTTP Jira stand-in receives the
+ * transitions, comments and remote links; work item events are in memory.
+ */
+
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { JiraClient } from "../src/jira.js";
+import { JIRA_WRITEBACK_APPLIED_EVENT, runJiraWriteBackCycle, type JiraWriteBackCycleDeps } from "../src/work-items/jira-writeback.js";
+import type { AppendWorkItemEventInput, WorkItemEventRecord, WorkItemRecord } from "../src/work-items/types.js";
+
+// ── Jira stand-in ──
+
+interface JiraCall {
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+const jira = {
+  calls: [] as JiraCall[],
+  transitions: [
+    { id: "11", name: "Start Progress", to: { name: "In Progress" } },
+    { id: "21", name: "Send to review", to: { name: "In Review" } },
+    { id: "31", name: "Done", to: { name: "Done" } },
+  ],
+  failWith: undefined as number | undefined,
+};
+
+let server: Server;
+let client: JiraClient;
+
+before(async () => {
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk: Buffer) => { raw += chunk.toString(); });
+    req.on("end", () => {
+      const path = (req.url ?? "").replace(/^\/rest\/api\/3/, "");
+      jira.calls.push({ method: req.method ?? "GET", path, body: raw ? JSON.parse(raw) as Record<string, unknown> : undefined });
+      if (jira.failWith) {
+        res.writeHead(jira.failWith).end("{}");
+        return;
+      }
+      if (req.method === "GET" && path.endsWith("/transitions")) {
+        res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify({ transitions: jira.transitions }));
+        return;
+      }
+      res.writeHead(req.method === "POST" && path.endsWith("/transitions") ? 204 : 201).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  client = new JiraClient({
+    jiraBaseUrl: "https://acme.atlassian.net",
+    jiraApiBaseUrl: `http://127.0.0.1:${String(port)}`,
+    jiraUser: "bot@acme.dev",
+    jiraApiToken: "token",
+    jiraRequestTimeoutMs: 5_000,
+  });
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+// ── In-memory work items ──
+
+class MemoryEvents {
+  readonly records: WorkItemEventRecord[] = [];
+
+  async append(input: AppendWorkItemEventInput): Promise<void> {
+    this.records.push({
+      id: this.records.length + 1,
+      workItemId: input.workItemId,
+      eventType: input.eventType,
+      payload: input.payload ?? {},
+      actorUserId: input.actorUserId,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async listAfter(afterId: number, limit: number): Promise<WorkItemEventRecord[]> {
+    return this.records.filter((record) => record.id > afterId).slice(0, limit);
+  }
+
+  async listForWorkItemByEventType(workItemId: string, eventType: string): Promise<WorkItemEventRecord[]> {
+    return this.records.filter((record) => record.workItemId === workItemId && record.eventType === eventType).reverse();
+  }
+}
+
+function workItem(overrides: Partial<WorkItemRecord> = {}): WorkItemRecord {
+  return {
+    id: "wi-1",
+    workflow: "feature_delivery",
+    state: "in_progress",
+    flags: [],
+    title: "Checkout retries",
+    summary: "",
+    ownerTeamId: "team-1",
+    homeChannelId: "C1",
+    homeThreadTs: "1.0",
+    jiraIssueKey: "PAY-7",
+    createdByUserId: "u-1",
+    createdAt: "2026-10-18T10:00:00.000Z",
+    updatedAt: "2026-10-18T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+let events: MemoryEvents;
+let items: Map<string, WorkItemRecord>;
+
+function deps(transitions: Record<string, string> = { in_progress: "Start Progress", engineering_review: "In Review", done: "Done" }): JiraWriteBackCycleDeps {
+  return {
+    events,
+    workItems: { getWorkItem: async (id) => items.get(id) },
+    jira: client,
+    transitions: new Map(Object.entries(transitions)),
+  };
+}
+
+function writes(): JiraCall[] {
+  return jira.calls.filter((call) => call.method === "POST");
+}
+
+beforeEach(() => {
+  jira.calls = [];
+  jira.failWith = undefined;
+  events = new MemoryEvents();
+  items = new Map();
+});
+
+// ═══════════════════════════════════════════════════════
+
+describe("runJiraWriteBackCycle", () => {
+  test("transitions the issue to the work item state, once", async () => {
+    items.set("wi-1", workItem());
+    await events.append({ workItemId: "wi-1", eventType: "work_item.state_changed", payload: { state: "in_progress" } });
+
+    const result = await runJiraWriteBackCycle(deps(), 0);
+    assert.deepEqual(result, { cursor: 1, pending: new Map(), applied: 1, failed: 0 });
+    assert.deepEqual(writes(), [{ method: "POST", path: "/issue/PAY-7/transitions", body: { transition: { id: "11" } } }]);
+
+    const [record] = await events.listForWorkItemByEventType("wi-1", JIRA_WRITEBACK_APPLIED_EVENT);
+    assert.equal(record!.payload["state"], "in_progress");
+
+    // Replaying the same events changes nothing in Jira
+    jira.calls = [];
+    const replay = await runJiraWriteBackCycle(deps(), 0);
+    assert.equal(replay.applied, 0);
+    assert.deepEqual(writes(), []);
+  });
+
+  test("matches a transition by its target status and skips unknown ones", async () => {
+    items.set("wi-1", workItem({ state: "engineering_review" }));
+    await events.append({ workItemId: "wi-1", eventType: "work_item.state_changed" });
+    await runJiraWriteBackCycle(deps(), 0);
+    assert.deepEqual(writes().map((call) => call.body), [{ transition: { id: "21" } }]);
+
+    jira.calls = [];
+    items.set("wi-1", workItem({ state: "qa_review" }));
+    await events.append({ workItemId: "wi-1", eventType: "work_item.state_changed" });
+    const result = await runJiraWriteBackCycle(deps({ qa_review: "QA" }), 2);
+    assert.equal(result.applied, 0);
+    assert.deepEqual(writes(), []);
+    const [skipped] = await events.listForWorkItemByEventType("wi-1", JIRA_WRITEBACK_APPLIED_EVENT);
+    assert.equal(skipped!.payload["skipped"], 'transition "QA" not available');
+  });
+
+  test("workflow-specific mappings win over plain states", async () => {
+    items.set("wi-1", workItem({ workflow: "product_discovery", state: "done" }));
+    await events.append({ workItemId: "wi-1", eventType: "work_item.state_changed" });
+    await runJiraWriteBackCycle(deps({ done: "Done", "product_discovery.done": "Start Progress" }), 0);
+    assert.deepEqual(writes().map((call) => call.body), [{ transition: { id: "11" } }]);
+  });
+
+  test("links the PR and comments review outcomes and the merge", async () => {
+    items.set("wi-1", workItem({
+      state: "engineering_review",
+      repo: "acme/checkout",
+      githubPrNumber: 42,
+      githubPrUrl: "https://github.com/acme/checkout/pull/42",
+    }));
+    await events.append({ workItemId: "wi-1", eventType: "github.pr_adopted" });
+    await events.append({ workItemId: "wi-1", eventType: "github.review_submitted", payload: { reviewer: "octo", reviewState: "commented" } });
+    await events.append({ workItemId: "wi-1", eventType: "github.review_submitted", payload: { reviewer: "octo", reviewState: "approved" } });
+    await events.append({ workItemId: "wi-1", eventType: "review_request.completed", payload: { outcome: "changes_requested" } });
+    await events.append({ workItemId: "wi-1", eventType: "github.pr_merged", payload: { prUrl: "https://github.com/acme/checkout/pull/42" } });
+
+    await runJiraWriteBackCycle(deps({}), 0);
+
+    const posted = writes();
+    assert.deepEqual(posted[0], {
+      method: "POST",
+      path: "/issue/PAY-7/remotelink",
+      body: {
+        globalId: "gooseherd-pr:https://github.com/acme/checkout/pull/42",
+        object: { url: "https://github.com/acme/checkout/pull/42", title: "acme/checkout PR #42" },
+      },
+    });
+    const comments = posted
+      .filter((call) => call.path === "/issue/PAY-7/comment")
+      .map((call) => ((call.body!["body"] as { content: Array<{ content: Array<{ text: string }> }> }).content[0]!.content[0]!.text));
+    assert.deepEqual(comments, [
+      "Pull request opened: https://github.com/acme/checkout/pull/42",
+      "octo approved https://github.com/acme/checkout/pull/42.",
+      "Gooseherd review outcome: changes requested.",
+      "Pull request merged: https://github.com/acme/checkout/pull/42",
+    ]);
+
+    jira.calls = [];
+    await runJiraWriteBackCycle(deps({}), 0);
+    assert.deepEqual(writes(), []);
+  });
+
+  test("ignores work items without a Jira issue", async () => {
+    items.set("wi-2", workItem({ id: "wi-2", jiraIssueKey: undefined }));
+    await events.append({ workItemId: "wi-2", eventType: "work_item.state_changed" });
+    const result = await runJiraWriteBackCycle(deps(), 0);
+    assert.deepEqual(result, { cursor: 1, pending: new Map(), applied: 0, failed: 0 });
+    assert.deepEqual(jira.calls, []);
+  });
+
+  test("server errors are retried per work item while the cursor moves on", async () => {
+    items.set("wi-1", workItem());
+    items.set("wi-2", workItem({ id: "wi-2", jiraIssueKey: "PAY-8", state: "engineering_review" }));
+    await events.append({ workItemId: "wi-1", eventType: "work_item.state_changed" });
+
+    jira.failWith = 503;
+    const held = await runJiraWriteBackCycle(deps(), 0);
+    assert.equal(held.cursor, 1);
+    assert.equal(held.failed, 1);
+    assert.deepEqual([...held.pending.keys()], ["wi-1"]);
+    assert.equal(held.pending.get("wi-1")!.attempts, 1);
+
+    jira.failWith = undefined;
+    await events.append({ workItemId: "wi-2", eventType: "work_item.state_changed" });
+    const retried = await runJiraWriteBackCycle(deps(), held.cursor, held.pending);
+    assert.deepEqual(retried, { cursor: 2, pending: new Map(), applied: 2, failed: 0 });
+    assert.deepEqual(writes().map((call) => call.path), ["/issue/PAY-7/transitions", "/issue/PAY-8/transitions"]);
+  });
+
+  test("gives up on a work item after repeated failures", async () => {
+    items.set("wi-1", workItem());
+    await events.append({ workItemId: "wi-1", eventType: "work_item.state_changed" });
+
+    jira.failWith = 503;
+    let result = await runJiraWriteBackCycle(deps(), 0);
+    for (let cycle = 1; cycle < 5; cycle++) {
+      assert.equal(result.pending.size, 1);
+      result = await runJiraWriteBackCycle(deps(), result.cursor, result.pending);
+    }
+    assert.equal(result.pending.size, 0);
+    assert.equal(result.failed, 1);
+  });
+
+  test("client errors are recorded and skipped", async () => {
+    items.set("wi-1", workItem());
+    await events.append({ workItemId: "wi-1", eventType: "work_item.state_changed" });
+
+    jira.failWith = 404;
+    const skipped = await runJiraWriteBackCycle(deps(), 0);
+    assert.deepEqual(skipped, { cursor: 1, pending: new Map(), applied: 0, failed: 0 });
+    const [record] = await events.listForWorkItemByEventType("wi-1", JIRA_WRITEBACK_APPLIED_EVENT);
+    assert.match(String(record!.payload["skipped"]), /404/);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Rule backtest tests — replaying journaled events through candidate rules
+ * with simulated dedup, cooldown, rate-limit and budget state.
+ */
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { backtestRules, type BacktestOptions } from "../src/observer/backtest.js";
+import { EventJournalStore, type JournaledEvent } from "../src/observer/event-journal.js";
+import type { TriggerEvent, TriggerRule } from "../src/observer/types.js";
+import { createTestDb } from "./helpers/test-db.js";
+
+// ── Helpers ──
+
+const options: BacktestOptions = { maxDaily: 50, maxPerRepo: 10, repoAllowlist: [] };
+
+const T0 = Date.parse("2026-03-02T09:00:00.000Z");
+
+function minutes(n: number): string {
+  return new Date(T0 + n * 60_000).toISOString();
+}
+
+function makeEvent(overrides?: Partial<TriggerEvent>): TriggerEvent {
+  return {
+    id: "evt-1",
+    source: "sentry_alert",
+    timestamp: minutes(0),
+    repoSlug: "org/repo",
+    suggestedTask: "Fix TypeError in checkout",
+    priority: "high",
+    rawPayload: { level: "error" },
+    notificationTarget: { type: "dashboard_only" },
+    ...overrides,
+  };
+}
+
+function journaled(at: string, event: TriggerEvent, overrides?: Partial<JournaledEvent>): JournaledEvent {
+  return { event, receivedAt: at, outcome: "no_match", reason: "No matching rule", ...overrides };
+}
+
+function makeRule(overrides?: Partial<TriggerRule>): TriggerRule {
+  return {
+    id: "sentry-errors",
+    source: "sentry_alert",
+    conditions: [{ field: "rawPayload.level", operator: "equals", value: "error" }],
+    requiresApproval: false,
+    cooldownMinutes: 60,
+    maxRunsPerHour: 5,
+    ...overrides,
+  };
+}
+
+// ── Tests ──
+
+describe("backtestRules", () => {
+  test("counts matches and would-trigger runs per rule", () => {
+    const events = [
+      journaled(minutes(0), makeEvent({ id: "a" })),
+      journaled(minutes(1), makeEvent({ id: "b", rawPayload: { level: "warning" } })),
+      journaled(minutes(2), makeEvent({ id: "c", repoSlug: "org/other" })),
+    ];
+
+    const report = backtestRules(events, [makeRule()], options);
+
+    assert.equal(report.eventCount, 3);
+    assert.equal(report.unmatched, 1);
+    assert.equal(report.from, minutes(0));
+    assert.equal(report.to, minutes(2));
+    const rule = report.rules[0]!;
+    assert.equal(rule.matched, 2);
+    assert.equal(rule.wouldTrigger, 2);
+    assert.equal(report.wouldTrigger, 2);
+  });
+
+  test("dedups repeats inside the source's dedup window", () => {
+    const issue = { rawPayload: { level: "error", fingerprint: "42" } };
+    const events = [
+      journaled(minutes(0), makeEvent({ id: "a", ...issue })),
+      // Same issue within the sentry dedup window
+      journaled(minutes(10), makeEvent({ id: "b", ...issue })),
+      // Sentry keys expire after an hour
+      journaled(minutes(70), makeEvent({ id: "c", ...issue })),
+    ];
+
+    const report = backtestRules(events, [makeRule()], options);
+
+    const rule = report.rules[0]!;
+    assert.equal(rule.wouldTrigger, 2);
+    assert.equal(rule.denied.dedup, 1);
+  });
+
+  test("applies the daily and per-repo budgets per UTC day", () => {
+    const events = [0, 1, 2].map((i) =>
+      journaled(minutes(i * 10), makeEvent({ id: `e${String(i)}`, source: "github_webhook", rawPayload: { level: "error", n: i } })),
+    );
+    const rule = makeRule({ source: "github_webhook" });
+
+    const report = backtestRules(events, [rule], { ...options, maxPerRepo: 2 });
+
+    assert.equal(report.rules[0]!.wouldTrigger, 2);
+    assert.equal(report.rules[0]!.denied.repo_budget, 1);
+  });
+
+  test("recorded triage decisions block replayed events unless the rule skips triage", () => {
+    const events = [
+      journaled(minutes(0), makeEvent({ id: "a" }), {
+        triage: { action: "discard", confidence: 0.9, reason: "noise" },
+      }),
+      journaled(minutes(1), makeEvent({ id: "b", rawPayload: { level: "error", other: true } }), {
+        triage: { action: "discard", confidence: 0.5, reason: "unsure" },
+      }),
+    ];
+
+    const blocked = backtestRules(events, [makeRule()], options);
+    assert.equal(blocked.rules[0]!.blockedByTriage, 1);
+    assert.equal(blocked.rules[0]!.wouldTrigger, 1);
+
+    const skipped = backtestRules(events, [makeRule({ skipTriage: true })], options);
+    assert.equal(skipped.rules[0]!.blockedByTriage, 0);
+    assert.equal(skipped.rules[0]!.wouldTrigger, 2);
+  });
+
+  test("compares with the real outcomes, including rules missing from the candidate set", () => {
+    const events = [
+      journaled(minutes(0), makeEvent({ id: "a" }), {
+        matchedRuleId: "old-rule", outcome: "triggered", reason: "Run enqueued", runId: "run-1",
+      }),
+      journaled(minutes(5), makeEvent({ id: "b", rawPayload: { level: "error", other: true } }), {
+        matchedRuleId: "old-rule", outcome: "denied", reason: "rate limit",
+      }),
+    ];
+    const outcomes = new Map([["old-rule", { runs: 1, succeeded: 1 }]]);
+
+    const report = backtestRules(events, [makeRule()], options, outcomes);
+
+    const candidate = report.rules.find((rule) => rule.ruleId === "sentry-errors")!;
+    assert.equal(candidate.inCandidateSet, true);
+    assert.equal(candidate.wouldTrigger, 2);
+    assert.equal(candidate.delta, 2);
+    const previous = report.rules.find((rule) => rule.ruleId === "old-rule")!;
+    assert.equal(previous.inCandidateSet, false);
+    assert.deepEqual(previous.actual, { triggered: 1, runs: 1, succeeded: 1 });
+    assert.equal(previous.delta, -1);
+    assert.equal(report.actualTriggered, 1);
+  });
+});
+
+describe("EventJournalStore", () => {
+  test("listSince() keeps the newest events when the window exceeds the limit", async (t) => {
+    const testDb = await createTestDb();
+    t.after(async () => { await testDb.cleanup(); });
+    const journal = new EventJournalStore(testDb.db);
+    for (const [index, id] of ["a", "b", "c"].entries()) {
+      await journal.record(journaled(minutes(index), makeEvent({ id })));
+    }
+
+    const events = await journal.listSince(new Date(T0), 2);
+
+    assert.deepEqual(events.map((entry) => entry.event.id), ["b", "c"]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for observer spend budgets — YAML parsing, period bounds, forecast
+ * pre-flight, alert text and burn-down status.
+ */
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  ObserverBudgetsLoadError,
+  budgetPeriodBounds,
+  budgetUsedRatio,
+  budgetsFor,
+  buildBudgetStatus,
+  checkSpendBudgets,
+  formatBudgetAlert,
+  parseObserverBudgetsYaml,
+  type BudgetUsage,
+  type ObserverBudget,
+} from "../src/observer/budgets.js";
+import { BudgetSpendStore } from "../src/observer/budget-store.js";
+import { RunLinkStore } from "../src/observer/run-link-store.js";
+import { parseTriggerRulesYaml } from "../src/observer/trigger-rules.js";
+import type { TriggerEvent } from "../src/observer/types.js";
+import { RunStore } from "../src/store.js";
+import { createTestDb } from "./helpers/test-db.js";
+
+// ── Helpers ──
+
+const teamBudget: ObserverBudget = { id: "team:platform", scope: "team", name: "platform", period: "monthly", maxUsd: 100 };
+const repoBudget: ObserverBudget = { id: "repo:acme/checkout", scope: "repo", name: "acme/checkout", period: "daily", maxRuns: 5 };
+
+function usage(budget: ObserverBudget, spend: Partial<BudgetUsage> = {}): BudgetUsage {
+  return {
+    budget,
+    periodStart: "2026-10-01T00:00:00.000Z",
+    periodEnd: "2026-11-01T00:00:00.000Z",
+    spentUsd: 0,
+    runs: 0,
+    pendingRuns: 0,
+    ...spend,
+  };
+}
+
+// ═══════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════
+
+describe("parseObserverBudgetsYaml", () => {
+  test("parses budgets next to trigger rules", () => {
+    const raw = [
+      "trigger_rules: []",
+      "budgets:",
+      "  - { scope: team, name: platform, maxUsd: 100, notificationChannel: C-PLAT }",
+      "  - { scope: repo, name: acme/checkout, period: daily, maxUsd: 12.5, maxRuns: 5 }",
+    ].join("\n");
+    assert.deepEqual(parseTriggerRulesYaml(raw), []);
+    assert.deepEqual(parseObserverBudgetsYaml(raw), [
+      { id: "team:platform", scope: "team", name: "platform", period: "monthly", maxUsd: 100, maxRuns: undefined, notificationChannel: "C-PLAT" },
+      { id: "repo:acme/checkout", scope: "repo", name: "acme/checkout", period: "daily", maxUsd: 12.5, maxRuns: 5, notificationChannel: undefined },
+    ]);
+  });
+
+  test("no budgets section means no budgets", () => {
+    assert.deepEqual(parseObserverBudgetsYaml("trigger_rules: []"), []);
+  });
+
+  test("rejects invalid budgets", () => {
+    const cases: Array<[string, RegExp]> = [
+      ["budgets: {}", /budgets must be an array/],
+      ["budgets: [{ scope: org, name: x, maxUsd: 1 }]", /scope must be one of: team, repo/],
+      ["budgets: [{ scope: team, maxUsd: 1 }]", /name is required/],
+      ["budgets: [{ scope: team, name: x, period: yearly, maxUsd: 1 }]", /period must be one of/],
+      ["budgets: [{ scope: team, name: x }]", /set maxUsd, maxRuns or both/],
+      ["budgets: [{ scope: team, name: x, maxUsd: -5 }]", /maxUsd: must be a positive number/],
+      ["budgets: [{ scope: team, name: x, maxRuns: 2.5 }]", /maxRuns: must be a whole number/],
+      ["budgets: [{ scope: team, name: x, maxRuns: 1 }, { scope: team, name: x, maxUsd: 1 }]", /duplicate budget for team:x/],
+    ];
+    for (const [raw, message] of cases) {
+      assert.throws(() => parseObserverBudgetsYaml(raw), (err: unknown) => err instanceof ObserverBudgetsLoadError && message.test(err.message));
+    }
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Periods & Matching
+// ═══════════════════════════════════════════════════════
+
+describe("budget periods and matching", () => {
+  test("period bounds are UTC day, Monday week and calendar month", () => {
+    const now = new Date("2026-10-18T15:30:00.000Z"); // a Sunday
+    const iso = (b: { start: Date; end: Date }) => [b.start.toISOString(), b.end.toISOString()];
+    assert.deepEqual(iso(budgetPeriodBounds("daily", now)), ["2026-10-18T00:00:00.000Z", "2026-10-19T00:00:00.000Z"]);
+    assert.deepEqual(iso(budgetPeriodBounds("weekly", now)), ["2026-10-12T00:00:00.000Z", "2026-10-19T00:00:00.000Z"]);
+    assert.deepEqual(iso(budgetPeriodBounds("monthly", now)), ["2026-10-01T00:00:00.000Z", "2026-11-01T00:00:00.000Z"]);
+  });
+
+  test("budgetsFor matches the run's team and repo", () => {
+    const budgets = [teamBudget, repoBudget];
+    assert.deepEqual(budgetsFor(budgets, { teamId: "platform", repoSlug: "acme/checkout" }), budgets);
+    assert.deepEqual(budgetsFor(budgets, { repoSlug: "acme/checkout" }), [repoBudget]);
+    assert.deepEqual(budgetsFor(budgets, { teamId: "search", repoSlug: "acme/search" }), []);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Pre-flight
+// ═══════════════════════════════════════════════════════
+
+describe("checkSpendBudgets", () => {
+  test("allows a run whose forecast fits", () => {
+    assert.equal(checkSpendBudgets([usage(teamBudget, { spentUsd: 90 })], 9.5).action, "allow");
+    assert.equal(checkSpendBudgets([], 1000).action, "allow");
+  });
+
+  test("denies when the forecast would exceed the USD cap", () => {
+    const decision = checkSpendBudgets([usage(teamBudget, { spentUsd: 90 })], 12);
+    assert.equal(decision.action, "deny");
+    assert.equal(decision.check, "spend_budget");
+    assert.equal(decision.reason, "team budget platform would be exceeded: $90.00 committed + $12.00 forecast > $100.00 this month");
+  });
+
+  test("charges in-flight runs at the forecast", () => {
+    assert.equal(checkSpendBudgets([usage(teamBudget, { spentUsd: 70, pendingRuns: 2 })], 10).action, "allow");
+    assert.equal(checkSpendBudgets([usage(teamBudget, { spentUsd: 70, pendingRuns: 3 })], 10).action, "deny");
+  });
+
+  test("denies once the run cap is reached", () => {
+    const decision = checkSpendBudgets([usage(teamBudget), usage(repoBudget, { runs: 5 })], 1);
+    assert.equal(decision.action, "deny");
+    assert.equal(decision.reason, "repo budget acme/checkout exhausted: 5/5 runs today");
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Alerts & Status
+// ═══════════════════════════════════════════════════════
+
+describe("budget alerts and status", () => {
+  test("used ratio takes the fuller of USD and runs", () => {
+    const both: ObserverBudget = { ...teamBudget, maxRuns: 10 };
+    assert.equal(budgetUsedRatio(usage(both, { spentUsd: 50, runs: 9 })), 0.9);
+    assert.equal(budgetUsedRatio(usage(both, { spentUsd: 85, runs: 1 })), 0.85);
+  });
+
+  test("alert text names the budget, its use and its period", () => {
+    const text = formatBudgetAlert(usage({ ...teamBudget, maxRuns: 10 }, { spentUsd: 82, runs: 4 }));
+    assert.match(text, /Observer team budget for platform is at 82%/);
+    assert.match(text, /\$82\.00 of \$100\.00 · 4 of 10 runs this month/);
+  });
+
+  test("status projects period-end spend and burns down by day", () => {
+    const status = buildBudgetStatus(
+      usage(teamBudget, { spentUsd: 30 }),
+      [{ day: "2026-10-01", spentUsd: 10 }, { day: "2026-10-03", spentUsd: 20 }],
+      new Date("2026-10-03T12:00:00.000Z"),
+    );
+    assert.equal(status.usedRatio, 0.3);
+    // 30 USD in 2.5 of 31 days
+    assert.equal(status.projectedUsd, 372);
+    assert.deepEqual(status.burnDown, [
+      { day: "2026-10-01", remainingUsd: 90 },
+      { day: "2026-10-02", remainingUsd: 90 },
+      { day: "2026-10-03", remainingUsd: 70 },
+    ]);
+  });
+
+  test("run-only budgets have no burn-down", () => {
+    const status = buildBudgetStatus(usage(repoBudget, { runs: 2 }), [], new Date("2026-10-03T12:00:00.000Z"));
+    assert.deepEqual(status.burnDown, []);
+    assert.equal(status.usedRatio, 0.4);
+  });
+});
+
+describe("BudgetSpendStore", () => {
+  test("charges runs linked to observer events, whoever requested them", async (t) => {
+    const testDb = await createTestDb();
+    t.after(async () => { await testDb.cleanup(); });
+    const store = new RunStore(testDb.db);
+    await store.init();
+    const create = async (requestedBy: string) => {
+      const run = await store.createRun({
+        repoSlug: "acme/checkout", task: "Fix it", baseBranch: "main", requestedBy, channelId: "C1", threadTs: "1.0", runtime: "local",
+      }, "gooseherd");
+      await store.updateRun(run.id, { status: "completed", tokenUsage: { qualityGateInputTokens: 0, qualityGateOutputTokens: 0, costUsd: 2 } });
+      return run;
+    };
+    await create("observer:sentry_alert");
+    const converted = await create("slack:U42");
+    await create("user:u-1");
+    const event = { id: "evt-1", source: "sentry_alert", rawPayload: {} } as TriggerEvent;
+    await new RunLinkStore(testDb.db).createMany([{ runId: converted.id, event, dedupKey: "sentry:web:evt-1", status: "queued" }]);
+
+    const spend = await new BudgetSpendStore(testDb.db).getSpend("repo", "acme/checkout", new Date(0));
+
+    assert.deepEqual(spend, { spentUsd: 4, runs: 2, pendingRuns: 0 });
+  });
+});
@@ -28,6 +28,8 @@ import {
   loadTriggerRules,
   matchTriggerRule,
   evaluateCondition,
+  explainRuleMatch,
+  parseTriggerRulesYaml,
   TriggerRulesLoadError
 } from "../src/observer/trigger-rules.js";
 
@@ -153,6 +155,12 @@ describe("Safety Pipeline", () => {
     assert.equal(getDedupTtl("slack_observer"), 30 * 60 * 1000);
   });
 
+  test("jira events have a dedup TTL and rate limit of their own", () => {
+    assert.equal(getDedupTtl("jira"), 24 * 60 * 60 * 1000);
+    const now = Date.now();
+    assert.equal(checkRateLimit("jira", [now - 1000, now - 2000], now).action, "deny");
+  });
+
   // ── checkRateLimit ──
 
   test("checkRateLimit: allows when under limits", () => {
@@ -460,6 +468,87 @@ trigger_rules:
     };
     assert.equal(evaluateCondition(event, cond), true);
   });
+
+  test("evaluateCondition: numeric and in operators", () => {
+    const event = makeSentryEvent({ rawPayload: { userCount: "250", level: "fatal" } });
+    assert.equal(evaluateCondition(event, { field: "rawPayload.userCount", operator: "gt", value: "100" }), true);
+    assert.equal(evaluateCondition(event, { field: "rawPayload.userCount", operator: "lte", value: "250" }), true);
+    assert.equal(evaluateCondition(event, { field: "rawPayload.userCount", operator: "lt", value: "250" }), false);
+    assert.equal(evaluateCondition(event, { field: "rawPayload.level", operator: "gte", value: "1" }), false);
+    assert.equal(evaluateCondition(event, { field: "rawPayload.level", operator: "in", values: ["error", "fatal"] }), true);
+    assert.equal(evaluateCondition(event, { field: "rawPayload.missing", operator: "in", values: ["undefined"] }), false);
+  });
+
+  // ── Condition groups ──
+
+  const groupedRulesYaml = `
+trigger_rules:
+  - id: loud-prod-errors
+    source: sentry_alert
+    conditions:
+      - any:
+          - { field: rawPayload.level, operator: equals, value: fatal }
+          - { field: rawPayload.userCount, operator: gt, value: 100 }
+      - not: { field: rawPayload.environment, operator: in, value: [staging, dev] }
+`;
+
+  test("parseTriggerRulesYaml: parses any/all/not groups", () => {
+    const rules = parseTriggerRulesYaml(groupedRulesYaml);
+    assert.deepEqual(rules[0]!.conditions, [
+      {
+        any: [
+          { field: "rawPayload.level", operator: "equals", value: "fatal" },
+          { field: "rawPayload.userCount", operator: "gt", value: "100" }
+        ]
+      },
+      { not: { field: "rawPayload.environment", operator: "in", values: ["staging", "dev"] } }
+    ]);
+  });
+
+  test("matchTriggerRule: evaluates nested groups", () => {
+    const rules = parseTriggerRulesYaml(groupedRulesYaml);
+    const match = (rawPayload: Record<string, unknown>) => matchTriggerRule(makeSentryEvent({ rawPayload }), rules)?.id ?? null;
+    assert.equal(match({ level: "fatal", environment: "production" }), "loud-prod-errors");
+    assert.equal(match({ level: "error", userCount: 500, environment: "production" }), "loud-prod-errors");
+    assert.equal(match({ level: "error", userCount: 5, environment: "production" }), null);
+    assert.equal(match({ level: "fatal", environment: "staging" }), null);
+  });
+
+  test("parseTriggerRulesYaml: rejects malformed groups and operator values", () => {
+    const wrap = (conditions: string) => `
+trigger_rules:
+  - id: bad
+    source: sentry_alert
+    conditions:
+${conditions}
+`;
+    assert.throws(() => parseTriggerRulesYaml(wrap("      - any: []")), TriggerRulesLoadError);
+    assert.throws(() => parseTriggerRulesYaml(wrap("      - { any: [{ field: a, operator: exists }], not: { field: b, operator: exists } }")), TriggerRulesLoadError);
+    assert.throws(() => parseTriggerRulesYaml(wrap("      - { field: rawPayload.userCount, operator: gt, value: many }")), TriggerRulesLoadError);
+    assert.throws(() => parseTriggerRulesYaml(wrap("      - { field: rawPayload.level, operator: in, value: fatal }")), TriggerRulesLoadError);
+  });
+
+  test("explainRuleMatch: reports every condition with the actual value", () => {
+    const [rule] = parseTriggerRulesYaml(groupedRulesYaml);
+    const explanation = explainRuleMatch(
+      makeSentryEvent({ rawPayload: { level: "error", userCount: 500, environment: "staging" } }),
+      rule!
+    );
+
+    assert.equal(explanation.matched, false);
+    assert.equal(explanation.sourceMatched, true);
+    const [anyTrace, notTrace] = explanation.conditions;
+    assert.equal(anyTrace!.type, "any");
+    assert.equal(anyTrace!.matched, true);
+    assert.deepEqual(
+      anyTrace!.type !== "condition" ? anyTrace!.children.map(child => child.matched) : [],
+      [false, true]
+    );
+    assert.equal(notTrace!.type, "not");
+    assert.equal(notTrace!.matched, false);
+    const inner = notTrace!.type !== "condition" ? notTrace!.children[0] : undefined;
+    assert.equal(inner?.type === "condition" ? inner.actual : undefined, "staging");
+  });
 });
 
 // ═══════════════════════════════════════════════════════
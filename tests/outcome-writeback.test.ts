@@ -0,0 +1,212 @@
+/**
+ * Tests for observer outcome write-back — Sentry comments and resolution,
+ * GitHub check runs, Slack thread replies, incident notes and the
+ * run-finished lifecycle hook that drives them.
+ */
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { WebClient } from "@slack/web-api";
+import { RunLifecycleHooks } from "../src/hooks/run-lifecycle.js";
+import { IncidentNoteClient } from "../src/observer/incident-notes.js";
+import { OutcomeWriteBack, formatOutcomeMessage } from "../src/observer/outcome-writeback.js";
+import type { ObserverRunLink } from "../src/observer/run-link-store.js";
+import { buildDedupKey, buildRecurrenceKey } from "../src/observer/safety.js";
+import type { TriggerEvent } from "../src/observer/types.js";
+import type { RunRecord } from "../src/types.js";
+
+// ── Helpers ──
+
+const RUN_ID = "0f1e2d3c-4b5a-6978-8a9b-0c1d2e3f4a5b";
+const PR_URL = "https://github.com/acme/checkout/pull/42";
+
+function makeLink(source: string, rawPayload: unknown): ObserverRunLink {
+  const event: TriggerEvent = {
+    id: `${source}-1`,
+    source: source as TriggerEvent["source"],
+    timestamp: "2026-10-18T12:00:00.000Z",
+    repoSlug: "acme/checkout",
+    priority: "high",
+    suggestedTask: "Fix it",
+    rawPayload,
+    notificationTarget: { type: "dashboard_only" },
+  };
+  return {
+    id: 1, runId: RUN_ID, event, dedupKey: buildDedupKey(event), repoSlug: "acme/checkout",
+    status: "pr_open", prUrl: PR_URL, prNumber: 42,
+    createdAt: event.timestamp, updatedAt: event.timestamp,
+  };
+}
+
+function makeRun(overrides: Partial<RunRecord> = {}): RunRecord {
+  return {
+    id: RUN_ID, status: "completed", repoSlug: "acme/checkout", task: "Fix it",
+    baseBranch: "main", branchName: "gooseherd/fix", requestedBy: "observer",
+    channelId: "C1", threadTs: "1.0", createdAt: "2026-10-18T12:00:00.000Z",
+    prUrl: PR_URL, prNumber: 42,
+    ...overrides,
+  } as RunRecord;
+}
+
+interface FetchCall { url: string; method: string; body: unknown }
+
+async function withFetch<T>(status: number, fn: (calls: FetchCall[]) => Promise<T>): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  const calls: FetchCall[] = [];
+  globalThis.fetch = async (input, init) => {
+    calls.push({ url: String(input), method: init?.method ?? "GET", body: JSON.parse(String(init?.body ?? "null")) });
+    return new Response("{}", { status });
+  };
+  try {
+    return await fn(calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+// ═══════════════════════════════════════════════════════
+// Sentry
+// ═══════════════════════════════════════════════════════
+
+describe("OutcomeWriteBack: Sentry", () => {
+  const link = makeLink("sentry_alert", { projectSlug: "web", shortId: "WEB-12", issueId: "9001" });
+  const writer = new OutcomeWriteBack({ sentryAuthToken: "sntry", sentryApiBase: "https://sentry.test/api/0/" });
+
+  test("comments on the issue when the run finishes", async () => {
+    await withFetch(200, async (calls) => {
+      const target = await writer.writeBack(link, { stage: "finished", runId: RUN_ID, status: "completed", prUrl: PR_URL });
+      assert.equal(target, "sentry");
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0]!.url, "https://sentry.test/api/0/issues/9001/comments/");
+      assert.equal(calls[0]!.method, "POST");
+      assert.match((calls[0]!.body as { text: string }).text, /opened a fix for this alert: .*pull\/42/);
+    });
+  });
+
+  test("resolves the issue once the fix merges and reopens it on recurrence", async () => {
+    await withFetch(200, async (calls) => {
+      await writer.writeBack(link, { stage: "merged", runId: RUN_ID, prUrl: PR_URL });
+      assert.deepEqual(calls.map((c) => c.method), ["POST", "PUT"]);
+      assert.deepEqual(calls[1]!.body, { status: "resolved" });
+
+      calls.length = 0;
+      await writer.writeBack(link, { stage: "recurred", runId: RUN_ID, prUrl: PR_URL });
+      assert.deepEqual(calls.map((c) => c.method), ["PUT", "POST"]);
+      assert.deepEqual(calls[0]!.body, { status: "unresolved" });
+    });
+  });
+
+  test("skips without a token or issue id and throws on API errors", async () => {
+    await withFetch(500, async (calls) => {
+      const noToken = new OutcomeWriteBack({});
+      assert.equal(await noToken.writeBack(link, { stage: "finished", runId: RUN_ID }), undefined);
+      assert.equal(await writer.writeBack(makeLink("sentry_alert", {}), { stage: "finished", runId: RUN_ID }), undefined);
+      assert.equal(calls.length, 0);
+      await assert.rejects(writer.writeBack(link, { stage: "finished", runId: RUN_ID }), /Sentry POST .* 500/);
+    });
+  });
+
+  test("webhook issues recur on the shortId the poller uses", () => {
+    assert.equal(buildRecurrenceKey(link.event), "sentry:web:WEB-12");
+    assert.equal(buildRecurrenceKey(makeLink("sentry_alert", { projectSlug: "web", fingerprint: "WEB-12" }).event), "sentry:web:WEB-12");
+    assert.equal(link.dedupKey, "sentry:web:sentry_alert-1");
+  });
+});
+
+describe("buildRecurrenceKey", () => {
+  test("a failing check suite recurs on a later commit of the same branch", () => {
+    const fixed = makeLink("github_webhook", { eventType: "check_suite", repo: "acme/checkout", branch: "main", sha: "abc123" });
+    const later = makeLink("github_webhook", { eventType: "check_suite", repo: "acme/checkout", branch: "main", sha: "def456" });
+    assert.notEqual(fixed.dedupKey, later.dedupKey);
+    assert.equal(buildRecurrenceKey(later.event), buildRecurrenceKey(fixed.event));
+    assert.equal(buildRecurrenceKey(fixed.event), "gh:check:acme/checkout:main");
+  });
+
+  test("other sources recur on their dedup key", () => {
+    const incident = makeLink("incident", { provider: "pagerduty", incidentId: "Q1" });
+    assert.equal(buildRecurrenceKey(incident.event), incident.dedupKey);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// GitHub, Slack, Incidents
+// ═══════════════════════════════════════════════════════
+
+describe("OutcomeWriteBack: other sources", () => {
+  test("annotates the failing commit with a check run when the run finishes", async () => {
+    const checks: Array<Record<string, unknown>> = [];
+    const writer = new OutcomeWriteBack({ github: { createCheckRun: async (params) => { checks.push(params); } } });
+    const link = makeLink("github_webhook", { repo: "acme/checkout", sha: "abc123", checkName: "ci" });
+
+    const run = makeRun();
+    assert.equal(await writer.writeBack(link, { stage: "finished", runId: RUN_ID, status: "completed", run, prUrl: PR_URL }), "github_check");
+    assert.equal(checks.length, 1);
+    assert.equal(checks[0]!["headSha"], "abc123");
+    assert.equal(checks[0]!["conclusion"], "neutral");
+    assert.equal(checks[0]!["title"], "Fix proposed in #42");
+    assert.equal(checks[0]!["detailsUrl"], PR_URL);
+
+    assert.equal(await writer.writeBack(link, { stage: "merged", runId: RUN_ID, prUrl: PR_URL }), undefined);
+    assert.equal(checks.length, 1);
+  });
+
+  test("replies in the source Slack thread", async () => {
+    const posts: Array<Record<string, unknown>> = [];
+    const webClient = { chat: { postMessage: async (args: Record<string, unknown>) => { posts.push(args); return { ok: true }; } } };
+    const writer = new OutcomeWriteBack({ webClient: webClient as unknown as WebClient });
+    const link = makeLink("slack_observer", { channelId: "C-ALERTS", messageTs: "1700000000.000100" });
+
+    assert.equal(await writer.writeBack(link, { stage: "finished", runId: RUN_ID, status: "failed", run: makeRun({ status: "failed", error: "tests failed" }) }), "slack_thread");
+    assert.equal(posts[0]!["channel"], "C-ALERTS");
+    assert.equal(posts[0]!["thread_ts"], "1700000000.000100");
+    assert.match(String(posts[0]!["text"]), /finished with status failed\.\nError: tests failed/);
+  });
+
+  test("adds a note to the incident", async () => {
+    const writer = new OutcomeWriteBack({ incidentNotes: new IncidentNoteClient({ opsgenieApiKey: "og-key" }) });
+    const link = makeLink("incident", { provider: "opsgenie", eventType: "Create", incidentId: "og-1", title: "Checkout down" });
+    await withFetch(202, async (calls) => {
+      assert.equal(await writer.writeBack(link, { stage: "merged", runId: RUN_ID, prUrl: PR_URL }), "incident");
+      assert.match(calls[0]!.url, /\/alerts\/og-1\/notes/);
+      assert.match(JSON.stringify(calls[0]!.body), /fix for this alert was merged/);
+    });
+  });
+
+  test("ignores sources without a write-back target", async () => {
+    const writer = new OutcomeWriteBack({});
+    assert.equal(await writer.writeBack(makeLink("cron", {}), { stage: "finished", runId: RUN_ID }), undefined);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Messages & Hooks
+// ═══════════════════════════════════════════════════════
+
+describe("formatOutcomeMessage", () => {
+  test("describes each stage and links the run", () => {
+    assert.equal(
+      formatOutcomeMessage({ stage: "finished", runId: RUN_ID, status: "completed", dashboardUrl: "https://goose.test/" }),
+      "Gooseherd run 0f1e2d3c completed without opening a pull request.\nRun: https://goose.test/#run/0f1e2d3c",
+    );
+    const recurrence = makeLink("sentry_alert", {}).event;
+    assert.equal(
+      formatOutcomeMessage({ stage: "recurred", runId: RUN_ID, prUrl: PR_URL, recurrence }),
+      `This alert fired again after the Gooseherd fix (${PR_URL}) was merged. Reopened for review.\n` +
+        "Recurrence: sentry_alert-1 at 2026-10-18T12:00:00.000Z",
+    );
+  });
+});
+
+describe("RunLifecycleHooks: run finished listeners", () => {
+  test("calls every listener even when one throws", async () => {
+    const hooks = new RunLifecycleHooks();
+    assert.equal(hooks.hasRunFinishedListeners, false);
+    const seen: string[] = [];
+    hooks.addRunFinishedListener(async () => { throw new Error("boom"); });
+    hooks.addRunFinishedListener(async (run) => { seen.push(run.id); });
+    assert.equal(hooks.hasRunFinishedListeners, true);
+
+    await hooks.onRunFinished(makeRun());
+    assert.deepEqual(seen, [RUN_ID]);
+  });
+});
@@ -35,6 +35,7 @@ import {
 
 // ── Per-Repo Config imports ──
 import {
+  loadRepoConfigFromGitHub,
   parseRepoConfigYaml,
   type RepoConfig,
   type RepoQualityGateOverrides
@@ -667,4 +668,23 @@ quality_gates:
     });
   });
 
+  test("loadRepoConfigFromGitHub: reads the base branch and treats a missing file as no config", async () => {
+    const reads: string[] = [];
+    const github = {
+      async readFile(repoSlug: string, path: string, ref?: string): Promise<string> {
+        reads.push(`${repoSlug}:${path}@${ref}`);
+        if (repoSlug === "org/none") throw Object.assign(new Error("Not Found"), { status: 404 });
+        if (repoSlug === "org/down") throw Object.assign(new Error("Bad credentials"), { status: 401 });
+        return "quality_gates:\n  scope_judge:\n    enabled: true\n";
+      }
+    };
+
+    assert.deepEqual(await loadRepoConfigFromGitHub(github, "org/repo", "main"), {
+      qualityGates: { scope_judge: { enabled: true } }
+    });
+    assert.deepEqual(reads, ["org/repo:.gooseherd.yml@main"]);
+    assert.equal(await loadRepoConfigFromGitHub(github, "org/none", "main"), null);
+    await assert.rejects(loadRepoConfigFromGitHub(github, "org/down", "main"), /Bad credentials/);
+  });
+
 });
@@ -0,0 +1,200 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, mkdir, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { loadPipeline, loadPipelineFromString, PipelineLoadError } from "../src/pipeline/pipeline-loader.js";
+import { evaluateCondition, renameNodeReferences } from "../src/pipeline/expression.js";
+import { PipelineEngine } from "../src/pipeline/pipeline-engine.js";
+import { NODE_HANDLERS } from "../src/pipeline/node-registry.js";
+import type { AppConfig } from "../src/config.js";
+import type { RunRecord } from "../src/types.js";
+import type { StoredPipeline } from "../src/pipeline/pipeline-store.js";
+import { buildAgentProfileTargetCatalog } from "../src/agent-profile-targets.js";
+
+const GATES_YAML = [
+  "version: 1",
+  "name: gates",
+  "context:",
+  "  gateMode: strict",
+  "  maxRounds: 1",
+  "nodes:",
+  "  - id: diff_gate",
+  "    type: conditional",
+  "    action: diff_gate",
+  "  - id: security_scan",
+  "    type: deterministic",
+  "    action: security_scan",
+  "    if: \"diff_gate.outcome == 'success' && ctx.gateMode == 'strict'\""
+].join("\n");
+
+function resolver(sources: Record<string, string>): (id: string) => string | undefined {
+  return (id) => sources[id];
+}
+
+test("renameNodeReferences rewrites only node path roots", () => {
+  const rename = (root: string) => (root === "diff_gate" ? `gates.${root}` : undefined);
+  assert.equal(
+    renameNodeReferences("diff_gate.outcome == 'diff_gate' && ctx.diff_gate", rename),
+    "gates.diff_gate.outcome == 'diff_gate' && ctx.diff_gate"
+  );
+});
+
+test("expressions resolve dotted step ids by longest match", () => {
+  const scope = {
+    ctx: {},
+    config: {},
+    nodes: { gates: { outcome: "failure" }, "gates.diff_gate": { outcome: "success" } }
+  };
+  assert.equal(evaluateCondition("gates.diff_gate.outcome == 'success'", scope), true);
+  assert.equal(evaluateCondition("gates.outcome == 'failure'", scope), true);
+});
+
+test("pipeline-loader: inlines a called pipeline with namespaced step ids", () => {
+  const pipeline = loadPipelineFromString([
+    "version: 1",
+    "name: parent",
+    "context:",
+    "  maxRounds: 3",
+    "nodes:",
+    "  - id: implement",
+    "    type: agentic",
+    "    action: implement",
+    "  - id: gates",
+    "    call: gates",
+    "    if: \"implement.outcome == 'success'\"",
+    "  - id: commit",
+    "    type: deterministic",
+    "    action: commit",
+    "    if: \"gates.security_scan.outcome != 'failure'\""
+  ].join("\n"), { resolvePipeline: resolver({ gates: GATES_YAML }) });
+
+  assert.deepEqual(pipeline.nodes.map(node => node.id), ["implement", "gates.diff_gate", "gates.security_scan", "commit"]);
+  assert.equal(pipeline.nodes[1]!.if, "implement.outcome == 'success'");
+  assert.equal(
+    pipeline.nodes[2]!.if,
+    "(implement.outcome == 'success') && (gates.diff_gate.outcome == 'success' && ctx.gateMode == 'strict')"
+  );
+  assert.deepEqual(pipeline.context, { gateMode: "strict", maxRounds: 3 });
+  assert.deepEqual(pipeline.includes, ["gates"]);
+});
+
+test("pipeline-loader: rejects include cycles and unknown pipelines", () => {
+  const sources = {
+    a: "version: 1\nname: a\nnodes:\n  - id: to_b\n    include: b\n",
+    b: "version: 1\nname: b\nnodes:\n  - id: to_a\n    call: a\n"
+  };
+  assert.throws(
+    () => loadPipelineFromString(sources.a, { pipelineId: "a", resolvePipeline: resolver(sources) }),
+    (err: unknown) => err instanceof PipelineLoadError && /include cycle a -> b -> a/.test(err.message)
+  );
+  assert.throws(
+    () => loadPipelineFromString("version: 1\nname: x\nnodes:\n  - id: gates\n    call: missing\n"),
+    /called pipeline 'missing' not found/
+  );
+  assert.throws(
+    () => loadPipelineFromString("version: 1\nname: x\nnodes:\n  - id: gates\n    call: gates\n    type: deterministic\n",
+      { resolvePipeline: resolver({ gates: GATES_YAML }) }),
+    /'type' is not supported on a call node/
+  );
+  assert.throws(
+    () => loadPipelineFromString("version: 1\nname: x\nnodes:\n  - id: a.b\n    type: deterministic\n    action: commit\n"),
+    /cannot contain '\.'/
+  );
+});
+
+test("include-only helper pipelines stay out of pipeline selection", async () => {
+  const helper = await loadPipeline(path.resolve("pipelines/quality-gates.yml"));
+  assert.equal(helper.includeOnly, true);
+  assert.equal((await loadPipeline(path.resolve("pipelines/pipeline.yml"))).includeOnly, undefined);
+  const parent = loadPipelineFromString("version: 1\nname: parent\nnodes:\n  - id: checks\n    call: gates\n",
+    { resolvePipeline: resolver({ gates: `${GATES_YAML}\ninclude_only: true` }) });
+  assert.equal(parent.includeOnly, undefined, "callers are not include-only themselves");
+  assert.throws(() => loadPipelineFromString(`${GATES_YAML}\ninclude_only: "yes"`), /include_only must be true or false/);
+
+  const stored = (id: string, yaml: string, includeOnly: boolean): StoredPipeline => ({
+    id, name: id, yaml, isBuiltIn: true, nodeCount: 1, includeOnly, createdAt: "", updatedAt: ""
+  });
+  const catalog = buildAgentProfileTargetCatalog([
+    stored("gates", GATES_YAML, true),
+    stored("parent", "version: 1\nname: parent\nnodes:\n  - id: checks\n    call: gates\n", false)
+  ]);
+  assert.deepEqual(catalog.pipelines.map(pipeline => pipeline.id), ["parent"]);
+  assert.deepEqual(catalog.pipelines[0]!.nodes.map(node => node.id), ["checks.diff_gate", "checks.security_scan"]);
+});
+
+test("loadPipeline resolves called pipelines next to the pipeline file", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pipeline-calls-"));
+  t.after(() => rm(tmpDir, { recursive: true, force: true }));
+  await writeFile(path.join(tmpDir, "gates.yml"), GATES_YAML, "utf8");
+  await writeFile(path.join(tmpDir, "parent.yml"), "version: 1\nname: parent\nnodes:\n  - id: checks\n    call: gates\n", "utf8");
+
+  const pipeline = await loadPipeline(path.join(tmpDir, "parent.yml"));
+  assert.deepEqual(pipeline.nodes.map(node => node.id), ["checks.diff_gate", "checks.security_scan"]);
+});
+
+test("PipelineEngine: runs called steps in the parent context and honours skipNodes by step id", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pipeline-calls-run-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  await writeFile(path.join(tmpDir, "gates.yml"), GATES_YAML, "utf8");
+  const pipelinePath = path.join(tmpDir, "parent.yml");
+  await writeFile(pipelinePath, [
+    "version: 1",
+    "name: parent",
+    "nodes:",
+    "  - id: gates",
+    "    call: gates",
+    "  - id: notify",
+    "    type: deterministic",
+    "    action: notify"
+  ].join("\n"), "utf8");
+
+  const originalDiffGate = NODE_HANDLERS.diff_gate;
+  const originalSecurityScan = NODE_HANDLERS.security_scan;
+  const originalNotify = NODE_HANDLERS.notify;
+  t.after(async () => {
+    NODE_HANDLERS.diff_gate = originalDiffGate;
+    NODE_HANDLERS.security_scan = originalSecurityScan;
+    NODE_HANDLERS.notify = originalNotify;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  let scanCalls = 0;
+  let notifySaw: unknown;
+  NODE_HANDLERS.diff_gate = async () => ({ outcome: "success", outputs: { diffGateVerdict: "pass" } });
+  NODE_HANDLERS.security_scan = async () => {
+    scanCalls++;
+    return { outcome: "success" };
+  };
+  NODE_HANDLERS.notify = async (_node, ctx) => {
+    notifySaw = ctx.get("diffGateVerdict");
+    return { outcome: "success" };
+  };
+
+  const config = { appName: "TestHerd", workRoot: workDir, sandboxEnabled: false, dryRun: true } as AppConfig;
+  const run = {
+    id: "test-run-calls",
+    runtime: "local",
+    status: "running",
+    repoSlug: "org/repo",
+    task: "task",
+    baseBranch: "main",
+    branchName: "testherd/calls",
+    requestedBy: "U1",
+    channelId: "C1",
+    threadTs: "1",
+    createdAt: new Date().toISOString(),
+    skipNodes: ["security_scan"]
+  } as RunRecord;
+
+  const engine = new PipelineEngine(config);
+  const ended: string[] = [];
+  engine.onNodeEvent(event => { if (event.type === "end") ended.push(event.nodeId); });
+
+  await engine.execute(run, async () => {}, pipelinePath, undefined, undefined, run.skipNodes);
+
+  assert.equal(notifySaw, "pass");
+  assert.equal(scanCalls, 0);
+  assert.deepEqual(ended, ["gates.diff_gate", "notify"]);
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import { loadPipeline, loadPipelineFromString, PipelineLoadError } from "../src/pipeline/pipeline-loader.js";
+import { NODE_HANDLERS } from "../src/pipeline/node-registry.js";
+import { buildPipelineJsonSchema } from "../src/pipeline/pipeline-schema.js";
+
+const REPO_DIR_INPUT_YAML = [
+  "version: 2",
+  "name: needs-repo",
+  "inputs:",
+  "  repoDir: string",
+  "nodes:",
+  "  - id: diff_gate",
+  "    type: conditional",
+  "    action: diff_gate"
+].join("\n");
+
+function v2(...nodeLines: string[]): string {
+  return ["version: 2", "name: typed", "nodes:", ...nodeLines].join("\n");
+}
+
+const CLONE = ["  - id: clone", "    type: deterministic", "    action: clone"];
+
+test("every registered node handler declares a context contract", () => {
+  assert.deepEqual(Object.keys(NODE_HANDLERS).filter(action => !NODE_HANDLERS[action]!.contract), []);
+});
+
+test("v2 pipelines reject nodes that read keys no earlier node writes", () => {
+  assert.throws(
+    () => loadPipelineFromString(v2("  - id: implement", "    type: agentic", "    action: implement", ...CLONE)),
+    (error: unknown) => error instanceof PipelineLoadError && error.message === "Node 'implement' reads ctx.repoDir, but no earlier node writes it"
+  );
+  const pipeline = loadPipelineFromString(v2(...CLONE, "  - id: implement", "    type: agentic", "    action: implement"));
+  assert.equal(pipeline.version, 2);
+});
+
+test("v2 pipelines check conditions, context_keys and declared types", () => {
+  assert.throws(
+    () => loadPipelineFromString(v2(...CLONE, "  - id: commit", "    type: deterministic", "    action: commit", "    if: \"ctx.chagnedFiles\"")),
+    /Node 'commit' reads ctx\.chagnedFiles, but no earlier node writes it/
+  );
+  assert.throws(
+    () => loadPipelineFromString(v2(
+      ...CLONE,
+      "  - id: decide",
+      "    type: conditional",
+      "    action: decide_next_step",
+      "    config:",
+      "      context_keys: [repoDir, ciLogTial]"
+    )),
+    /Node 'decide' config reads ctx\.ciLogTial/
+  );
+  assert.throws(
+    () => loadPipelineFromString([
+      "version: 2",
+      "name: typed",
+      "context:",
+      "  repoDir: 42",
+      "nodes:",
+      "  - id: diff_gate",
+      "    type: conditional",
+      "    action: diff_gate"
+    ].join("\n")),
+    /Node 'diff_gate' reads ctx\.repoDir as string, but context writes it as number/
+  );
+  const withOutputKey = loadPipelineFromString(v2(
+    "  - id: probe",
+    "    type: deterministic",
+    "    action: run",
+    "    config:",
+    "      command: echo hi",
+    "      output_key: probeOutput",
+    "  - id: notify",
+    "    type: deterministic",
+    "    action: notify",
+    "    if: \"ctx.probeOutput != ''\""
+  ));
+  assert.equal(withOutputKey.nodes.length, 2);
+});
+
+test("parallel children only see keys written before the block", () => {
+  assert.throws(
+    () => loadPipelineFromString(v2(
+      "  - id: checks",
+      "    type: parallel",
+      "    parallel:",
+      "      - id: probe",
+      "        type: deterministic",
+      "        action: run",
+      "        config:",
+      "          command: echo hi",
+      "          output_key: probeOutput",
+      "      - id: notify",
+      "        type: deterministic",
+      "        action: notify",
+      "        if: \"ctx.probeOutput != ''\""
+    )),
+    /Node 'notify' reads ctx\.probeOutput/
+  );
+});
+
+test("v1 pipelines keep loading without the data-flow check", () => {
+  const pipeline = loadPipelineFromString(["version: 1", "name: loose", "nodes:", "  - id: implement", "    type: agentic", "    action: implement"].join("\n"));
+  assert.equal(pipeline.nodes.length, 1);
+  assert.throws(
+    () => loadPipelineFromString(["version: 1", "name: loose", "inputs:", "  repoDir: string", "nodes:", ...CLONE].join("\n")),
+    /inputs/
+  );
+});
+
+test("called pipeline inputs are checked at the call site", () => {
+  const resolvePipeline = (id: string) => (id === "needs-repo" ? REPO_DIR_INPUT_YAML : undefined);
+  assert.throws(
+    () => loadPipelineFromString(v2("  - id: gates", "    call: needs-repo"), { resolvePipeline }),
+    /Call node 'gates' \(pipeline 'needs-repo' input\) reads ctx\.repoDir/
+  );
+  const pipeline = loadPipelineFromString(v2(...CLONE, "  - id: gates", "    call: needs-repo"), { resolvePipeline });
+  assert.deepEqual(pipeline.nodes.map(node => node.id), ["clone", "gates.diff_gate"]);
+});
+
+test("bundled pipelines load as v2 and the checked-in JSON Schema is up to date", async () => {
+  for (const name of ["pipeline", "quality-gates", "open-pr", "ci-fix", "feature-delivery-self-review"]) {
+    const pipeline = await loadPipeline(path.resolve("pipelines", `${name}.yml`));
+    assert.equal(pipeline.version, 2, name);
+  }
+  const checkedIn = JSON.parse(await readFile(path.resolve("schemas/pipeline.schema.json"), "utf8")) as unknown;
+  assert.deepEqual(checkedIn, buildPipelineJsonSchema(), "run `npm run pipeline:schema`");
+});
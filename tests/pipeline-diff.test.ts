@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { diffPipelineYaml } from "../src/pipeline/pipeline-diff.js";
+
+const BEFORE = [
+  "version: 2",
+  "name: demo",
+  "nodes:",
+  "  - id: clone",
+  "    type: deterministic",
+  "    action: clone",
+  "  - id: lint_fix",
+  "    type: deterministic",
+  "    action: lint_fix",
+  "  - id: validate",
+  "    type: deterministic",
+  "    action: validate"
+].join("\n");
+
+test("diffPipelineYaml reports line changes and added, removed and changed nodes", () => {
+  const after = BEFORE
+    .replace("  - id: lint_fix\n    type: deterministic\n    action: lint_fix\n", "")
+    .replace("    action: validate", "    action: validate\n    timeout_seconds: 600")
+    + "\n  - id: commit\n    type: deterministic\n    action: commit";
+  const diff = diffPipelineYaml(BEFORE, after);
+
+  assert.deepEqual(diff.nodes, { added: ["commit"], removed: ["lint_fix"], changed: ["validate"] });
+  assert.equal(diff.removed, 3);
+  assert.equal(diff.added, 4);
+  assert.deepEqual(
+    diff.lines.filter(line => line.op !== "same").map(line => `${line.op === "add" ? "+" : "-"}${line.text.trim()}`),
+    ["-- id: lint_fix", "-type: deterministic", "-action: lint_fix", "+timeout_seconds: 600", "+- id: commit", "+type: deterministic", "+action: commit"]
+  );
+});
+
+test("diffPipelineYaml tolerates unparseable YAML", () => {
+  const diff = diffPipelineYaml(BEFORE, "nodes: [unclosed");
+  assert.deepEqual(diff.nodes, { added: [], removed: ["clone", "lint_fix", "validate"], changed: [] });
+  assert.equal(diff.added, 1);
+});
@@ -9,7 +9,8 @@ import type { AppConfig } from "../src/config.js";
 import type { RunRecord } from "../src/types.js";
 import type { NodeConfig, NodeResult } from "../src/pipeline/types.js";
 import { NODE_HANDLERS } from "../src/pipeline/node-registry.js";
-import { runShellCapture } from "../src/pipeline/shell.js";
+import { runShellCapture, sleep } from "../src/pipeline/shell.js";
+import { resolvePipelineSnapshot } from "../src/runs/run-checkpoints.js";
 
 // ── Helpers ──
 
@@ -635,3 +636,633 @@ test("PipelineEngine: bypasses browser_verify fix loop for non-code failure clas
   const log = await readFile(logFile, "utf8");
   assert.ok(log.includes("browser_verify loop bypassed for auth_exhausted"));
 });
+
+// ── Parallel blocks ──
+
+function parallelPipelineYaml(extraNodes: string[] = []): string {
+  return [
+    "version: 1",
+    "name: parallel-pipeline",
+    "nodes:",
+    "  - id: quality_gates",
+    "    parallel:",
+    "      - id: diff_gate",
+    "        type: conditional",
+    "        action: diff_gate",
+    "      - id: security_scan",
+    "        type: deterministic",
+    "        action: security_scan",
+    "      - id: scope_judge",
+    "        type: agentic",
+    "        action: scope_judge",
+    "        enabled: false",
+    ...extraNodes
+  ].join("\n");
+}
+
+test("pipeline-loader: normalizes a parallel block and validates its children", async () => {
+  const { loadPipelineFromString, flattenPipelineNodes } = await import("../src/pipeline/pipeline-loader.js");
+
+  const pipeline = loadPipelineFromString(parallelPipelineYaml());
+  assert.equal(pipeline.nodes.length, 1);
+  assert.equal(pipeline.nodes[0]!.type, "parallel");
+  assert.equal(pipeline.nodes[0]!.action, "parallel");
+  assert.deepEqual(
+    flattenPipelineNodes(pipeline.nodes).map(n => n.id),
+    ["diff_gate", "security_scan", "scope_judge"]
+  );
+});
+
+test("pipeline-loader: rejects unsupported parallel block shapes", async () => {
+  const { loadPipelineFromString } = await import("../src/pipeline/pipeline-loader.js");
+
+  assert.throws(
+    () => loadPipelineFromString(parallelPipelineYaml([
+      "  - id: diff_gate",
+      "    type: conditional",
+      "    action: diff_gate"
+    ])),
+    /duplicate node id 'diff_gate'/
+  );
+  assert.throws(
+    () => loadPipelineFromString([
+      "version: 1",
+      "name: bad",
+      "nodes:",
+      "  - id: gates",
+      "    parallel:",
+      "      - id: validate",
+      "        type: deterministic",
+      "        action: validate",
+      "        on_failure:",
+      "          action: loop",
+      "          agent_node: fix_validation",
+      "          max_rounds: 2"
+    ].join("\n")),
+    /on_failure loops are not supported inside a parallel block/
+  );
+  assert.throws(
+    () => loadPipelineFromString(parallelPipelineYaml([
+      "  - id: checks",
+      "    parallel:",
+      "      - id: lint_fix",
+      "        type: deterministic",
+      "        action: lint_fix",
+      "      - id: commit",
+      "        type: deterministic",
+      "        action: commit"
+    ])),
+    /lint_fix changes the shared workspace and cannot run inside a parallel block/
+  );
+  assert.throws(
+    () => loadPipelineFromString("version: 1\nname: bad\nnodes:\n  - id: gates\n    parallel: []\n"),
+    /parallel must be a non-empty list/
+  );
+});
+
+test("PipelineEngine: runs parallel children concurrently and merges outputs", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-parallel-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  const pipelinePath = path.join(tmpDir, "pipeline.yml");
+  await writeFile(pipelinePath, parallelPipelineYaml([
+    "  - id: notify",
+    "    type: deterministic",
+    "    action: notify"
+  ]), "utf8");
+
+  const originalDiffGate = NODE_HANDLERS.diff_gate;
+  const originalSecurityScan = NODE_HANDLERS.security_scan;
+  const originalNotify = NODE_HANDLERS.notify;
+  t.after(async () => {
+    NODE_HANDLERS.diff_gate = originalDiffGate;
+    NODE_HANDLERS.security_scan = originalSecurityScan;
+    NODE_HANDLERS.notify = originalNotify;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  // Each gate waits for the other to start — this only resolves if both run at once.
+  let releaseDiff!: () => void;
+  let releaseScan!: () => void;
+  const diffStarted = new Promise<void>(resolve => { releaseScan = resolve; });
+  const scanStarted = new Promise<void>(resolve => { releaseDiff = resolve; });
+  NODE_HANDLERS.diff_gate = async () => {
+    releaseScan();
+    await scanStarted;
+    return { outcome: "soft_fail", error: "Large diff", outputs: { diffGateVerdict: "soft_fail" } };
+  };
+  NODE_HANDLERS.security_scan = async () => {
+    releaseDiff();
+    await diffStarted;
+    return { outcome: "success", outputs: { securityScanVerdict: "pass" } };
+  };
+  let notifySaw: Record<string, unknown> = {};
+  NODE_HANDLERS.notify = async (_node, ctx) => {
+    notifySaw = { diff: ctx.get("diffGateVerdict"), scan: ctx.get("securityScanVerdict") };
+    return { outcome: "success" };
+  };
+
+  const engine = new PipelineEngine(makeConfig({ workRoot: workDir }));
+  const stepIds: string[] = [];
+  engine.onNodeEvent(event => { if (event.type === "end") stepIds.push(event.nodeId); });
+
+  const result = await engine.execute(makeRun({ id: "test-run-parallel" }), async () => {}, pipelinePath);
+  assert.ok(result.logsPath);
+  assert.deepEqual(notifySaw, { diff: "soft_fail", scan: "pass" });
+  assert.deepEqual(stepIds.sort(), ["diff_gate", "notify", "security_scan"]);
+
+  const log = await readFile(result.logsPath, "utf8");
+  assert.match(log, /quality_gates: starting parallel block \(diff_gate, security_scan\)/);
+});
+
+test("PipelineEngine: a failing parallel child fails the run after siblings finish", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-parallel-fail-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  const pipelinePath = path.join(tmpDir, "pipeline.yml");
+  await writeFile(pipelinePath, parallelPipelineYaml([
+    "  - id: notify",
+    "    type: deterministic",
+    "    action: notify"
+  ]), "utf8");
+
+  const originalDiffGate = NODE_HANDLERS.diff_gate;
+  const originalSecurityScan = NODE_HANDLERS.security_scan;
+  const originalNotify = NODE_HANDLERS.notify;
+  t.after(async () => {
+    NODE_HANDLERS.diff_gate = originalDiffGate;
+    NODE_HANDLERS.security_scan = originalSecurityScan;
+    NODE_HANDLERS.notify = originalNotify;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  let diffGateFinished = false;
+  let notifyCalls = 0;
+  NODE_HANDLERS.diff_gate = async () => {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    diffGateFinished = true;
+    return { outcome: "success" };
+  };
+  NODE_HANDLERS.security_scan = async () => ({ outcome: "failure", error: "Secret detected" });
+  NODE_HANDLERS.notify = async () => {
+    notifyCalls++;
+    return { outcome: "success" };
+  };
+
+  const engine = new PipelineEngine(makeConfig({ workRoot: workDir }));
+  await assert.rejects(
+    engine.execute(makeRun({ id: "test-run-parallel-fail" }), async () => {}, pipelinePath),
+    /Secret detected/
+  );
+  assert.equal(diffGateFinished, true);
+  assert.equal(notifyCalls, 0);
+});
+
+test("PipelineEngine: loop until expression decides when the fix loop is done", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-loop-until-"));
+  const logFile = path.join(tmpDir, "run.log");
+  await writeFile(logFile, "", "utf8");
+
+  const originalValidate = NODE_HANDLERS.validate;
+  const originalFixValidation = NODE_HANDLERS.fix_validation;
+  t.after(async () => {
+    NODE_HANDLERS.validate = originalValidate;
+    NODE_HANDLERS.fix_validation = originalFixValidation;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  let fixCalls = 0;
+  NODE_HANDLERS.fix_validation = async () => {
+    fixCalls++;
+    return { outcome: "success", outputs: { remainingErrors: 3 - fixCalls } };
+  };
+  // Validation keeps failing, but the loop accepts a small number of leftovers
+  NODE_HANDLERS.validate = async () => ({ outcome: "failure", error: "still failing" });
+
+  const config = makeConfig({ workRoot: tmpDir, dryRun: true });
+  const engine = new PipelineEngine(config);
+  const failedNode: NodeConfig = {
+    id: "validate",
+    type: "deterministic",
+    action: "validate",
+    on_failure: { action: "loop", agent_node: "fix_validation", max_rounds: 3, until: "ctx.remainingErrors <= 1" }
+  };
+  const deps = { config, run: makeRun(), logFile, workRoot: tmpDir, onPhase: async () => {} };
+
+  const loopResult = await (engine as any).handleLoopFailure(
+    "test-pipeline",
+    failedNode,
+    { outcome: "failure", error: "failed" } satisfies NodeResult,
+    new ContextBag(),
+    deps
+  );
+
+  assert.equal(loopResult.outcome, "success");
+  assert.equal(fixCalls, 2);
+  const log = await readFile(logFile, "utf8");
+  assert.ok(log.includes("fix loop succeeded on attempt 2 (until: ctx.remainingErrors <= 1)"));
+});
+
+test("PipelineEngine: snapshots before each node and resumes from a failed node", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-resume-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  const pipelinePath = path.join(tmpDir, "pipeline.yml");
+  await writeFile(pipelinePath, [
+    "version: 1",
+    "name: resume-pipeline",
+    "nodes:",
+    "  - id: classify_task",
+    "    type: deterministic",
+    "    action: classify_task",
+    "  - id: validate",
+    "    type: deterministic",
+    "    action: validate",
+    "  - id: notify",
+    "    type: deterministic",
+    "    action: notify"
+  ].join("\n"), "utf8");
+
+  const originalClassify = NODE_HANDLERS.classify_task;
+  const originalValidate = NODE_HANDLERS.validate;
+  const originalNotify = NODE_HANDLERS.notify;
+  t.after(async () => {
+    NODE_HANDLERS.classify_task = originalClassify;
+    NODE_HANDLERS.validate = originalValidate;
+    NODE_HANDLERS.notify = originalNotify;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  let classifyCalls = 0;
+  let validateShouldFail = true;
+  let validateSaw: unknown;
+  let notifyCalls = 0;
+  NODE_HANDLERS.classify_task = async () => {
+    classifyCalls++;
+    return { outcome: "success", outputs: { taskType: "bugfix" } };
+  };
+  NODE_HANDLERS.validate = async (_node, ctx) => {
+    validateSaw = ctx.get("taskType");
+    return validateShouldFail ? { outcome: "failure", error: "tests failed" } : { outcome: "success" };
+  };
+  NODE_HANDLERS.notify = async () => {
+    notifyCalls++;
+    return { outcome: "success" };
+  };
+
+  const engine = new PipelineEngine(makeConfig({ workRoot: workDir }));
+  const run = makeRun({ id: "test-run-resume" });
+  const snapshots: Array<{ checkpointKey: string; payload: Record<string, unknown> }> = [];
+  await assert.rejects(
+    engine.execute(run, async () => {}, pipelinePath, undefined, undefined, undefined, undefined, undefined, undefined,
+      async (checkpoint) => {
+        if (checkpoint.checkpointType === "run.pipeline_snapshot") snapshots.push({ checkpointKey: checkpoint.checkpointKey, payload: checkpoint.payload ?? {} });
+      }),
+    /tests failed/
+  );
+
+  assert.deepEqual(snapshots.map(snapshot => snapshot.payload["nextNodeId"]), ["classify_task", "validate"]);
+  assert.equal(snapshots[1]!.payload["baseCheckpointKey"], snapshots[0]!.checkpointKey);
+  assert.deepEqual(Object.keys(snapshots[1]!.payload["context"] as object), ["taskType"], "later snapshots only store changes");
+  const last = resolvePipelineSnapshot(snapshots, snapshots[1]!.checkpointKey)!;
+  assert.equal(last.context["taskType"], "bugfix");
+  assert.equal(last.context["repoSlug"], run.repoSlug);
+  assert.equal(last.nodeResults["classify_task"]?.["outcome"], "success");
+
+  validateShouldFail = false;
+  validateSaw = undefined;
+  await engine.execute(run, async () => {}, pipelinePath, undefined, undefined, undefined, undefined, undefined, undefined, undefined,
+    { fromNodeId: "validate", context: last.context, nodeResults: last.nodeResults, snapshotCheckpointKey: last.checkpointKey });
+
+  assert.equal(classifyCalls, 1, "nodes before the resume point must not re-run");
+  assert.equal(validateSaw, "bugfix");
+  assert.equal(notifyCalls, 1);
+
+  await assert.rejects(
+    engine.execute(run, async () => {}, pipelinePath, undefined, undefined, undefined, undefined, undefined, undefined, undefined,
+      { fromNodeId: "missing", context: {}, nodeResults: {} }),
+    /Cannot resume: node 'missing'/
+  );
+});
+
+test("PipelineEngine: dynamic skips survive a resume", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-resume-skips-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  const pipelinePath = path.join(tmpDir, "pipeline.yml");
+  await writeFile(pipelinePath, [
+    "version: 1",
+    "name: resume-skips",
+    "nodes:",
+    "  - id: classify_task",
+    "    type: deterministic",
+    "    action: classify_task",
+    "  - id: validate",
+    "    type: deterministic",
+    "    action: validate",
+    "  - id: notify",
+    "    type: deterministic",
+    "    action: notify"
+  ].join("\n"), "utf8");
+
+  const originalClassify = NODE_HANDLERS.classify_task;
+  const originalValidate = NODE_HANDLERS.validate;
+  const originalNotify = NODE_HANDLERS.notify;
+  t.after(async () => {
+    NODE_HANDLERS.classify_task = originalClassify;
+    NODE_HANDLERS.validate = originalValidate;
+    NODE_HANDLERS.notify = originalNotify;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  let validateShouldFail = true;
+  let notifyCalls = 0;
+  NODE_HANDLERS.classify_task = async () => ({ outcome: "success", outputs: { taskType: "chore", _skipNodes: ["notify"] } });
+  NODE_HANDLERS.validate = async () => validateShouldFail ? { outcome: "failure", error: "tests failed" } : { outcome: "success" };
+  NODE_HANDLERS.notify = async () => {
+    notifyCalls++;
+    return { outcome: "success" };
+  };
+
+  const engine = new PipelineEngine(makeConfig({ workRoot: workDir }));
+  const run = makeRun({ id: "test-run-resume-skips" });
+  const snapshots: Array<{ checkpointKey: string; payload: Record<string, unknown> }> = [];
+  await assert.rejects(
+    engine.execute(run, async () => {}, pipelinePath, undefined, undefined, undefined, undefined, undefined, undefined,
+      async (checkpoint) => {
+        if (checkpoint.checkpointType === "run.pipeline_snapshot") snapshots.push({ checkpointKey: checkpoint.checkpointKey, payload: checkpoint.payload ?? {} });
+      }),
+    /tests failed/
+  );
+
+  const gate = resolvePipelineSnapshot(snapshots, snapshots.at(-1)!.checkpointKey)!;
+  assert.deepEqual(gate.skipNodeIds, ["notify"]);
+
+  validateShouldFail = false;
+  await engine.execute(run, async () => {}, pipelinePath, undefined, undefined, undefined, undefined, undefined, undefined, undefined,
+    { fromNodeId: gate.nextNodeId, context: gate.context, nodeResults: gate.nodeResults, skipNodeIds: gate.skipNodeIds });
+  assert.equal(notifyCalls, 0, "a decision node's skip still applies after resuming");
+});
+
+test("PipelineEngine: approval_gate parks the run and resumes on the reviewer's decision", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-approval-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  const pipelinePath = path.join(tmpDir, "pipeline.yml");
+  await writeFile(pipelinePath, [
+    "version: 1",
+    "name: approval-pipeline",
+    "nodes:",
+    "  - id: implement",
+    "    type: agentic",
+    "    action: implement",
+    "  - id: human_review",
+    "    type: deterministic",
+    "    action: approval_gate",
+    "  - id: notify",
+    "    type: deterministic",
+    "    action: notify"
+  ].join("\n"), "utf8");
+
+  const originalImplement = NODE_HANDLERS.implement;
+  const originalNotify = NODE_HANDLERS.notify;
+  t.after(async () => {
+    NODE_HANDLERS.implement = originalImplement;
+    NODE_HANDLERS.notify = originalNotify;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const reviewerNotes: unknown[] = [];
+  let notifyCalls = 0;
+  NODE_HANDLERS.implement = async (_node, ctx) => {
+    reviewerNotes.push(ctx.get("reviewerNote"));
+    return {
+      outcome: "success",
+      outputs: {
+        changedFiles: ["src/app.ts"],
+        gateReport: [{ gate: "diff_gate", verdict: "pass", reasons: [] }]
+      }
+    };
+  };
+  NODE_HANDLERS.notify = async () => {
+    notifyCalls++;
+    return { outcome: "success" };
+  };
+
+  const engine = new PipelineEngine(makeConfig({ workRoot: workDir }));
+  const run = makeRun({ id: "test-run-approval", runtime: "local" });
+  const snapshots: Array<{ nextNodeId: string; context: Record<string, unknown>; nodeResults: Record<string, Record<string, unknown>> }> = [];
+  const onCheckpoint = async (checkpoint: { checkpointType: string; payload?: Record<string, unknown> }) => {
+    if (checkpoint.checkpointType === "run.pipeline_snapshot") snapshots.push(checkpoint.payload as never);
+  };
+  const resumeFromGate = (decision: Record<string, unknown>) => {
+    const gate = snapshots.filter(snapshot => snapshot.nextNodeId === "human_review").at(-1)!;
+    return engine.execute(run, async () => {}, pipelinePath, undefined, undefined, undefined, undefined, undefined, undefined, onCheckpoint,
+      { fromNodeId: "human_review", context: { ...gate.context, ...decision }, nodeResults: gate.nodeResults });
+  };
+
+  const parked = await engine.execute(run, async () => {}, pipelinePath, undefined, undefined, undefined, undefined, undefined, undefined, onCheckpoint);
+  assert.deepEqual(parked.approvalRequest, {
+    nodeId: "human_review",
+    changedFiles: ["src/app.ts"],
+    gateReport: [{ gate: "diff_gate", verdict: "pass", reasons: [] }],
+    loopBackTo: "implement"
+  });
+  assert.equal(notifyCalls, 0, "nodes after the gate must wait for a decision");
+
+  const changes = await resumeFromGate({ approvalDecision: "changes_requested", approvalNote: "Rename the helper" });
+  assert.deepEqual(reviewerNotes, [undefined, "Rename the helper"]);
+  assert.ok(changes.approvalRequest, "the gate asks again after the loop back");
+  assert.equal(notifyCalls, 0);
+  assert.equal(snapshots.at(-1)!.context["approvalDecision"], undefined, "decisions are not carried into later snapshots");
+
+  const approved = await resumeFromGate({ approvalDecision: "approved", approvalDecidedBy: "U1" });
+  assert.equal(approved.approvalRequest, undefined);
+  assert.equal(notifyCalls, 1);
+});
+
+test("pipeline-loader: approval_gate needs an earlier loop_back_to node and no parallel block", async () => {
+  const { loadPipelineFromString, PipelineLoadError } = await import("../src/pipeline/pipeline-loader.js");
+  const gate = "  - id: human_review\n    type: deterministic\n    action: approval_gate\n";
+  const implement = "  - id: implement\n    type: agentic\n    action: implement\n";
+
+  assert.equal(loadPipelineFromString(`version: 1\nname: gated\nnodes:\n${implement}${gate}`).nodes.length, 2);
+  assert.throws(
+    () => loadPipelineFromString(`version: 1\nname: gated\nnodes:\n${gate}${implement}`),
+    (error: unknown) => error instanceof PipelineLoadError && /loop_back_to 'implement' must name an earlier top-level node/.test(error.message)
+  );
+  assert.throws(
+    () => loadPipelineFromString(`version: 1\nname: gated\nnodes:\n${implement}  - id: checks\n    parallel:\n  ${gate.split("\n").filter(Boolean).join("\n  ")}\n`),
+    /approval_gate cannot run inside a parallel block/
+  );
+});
+
+test("pipeline-loader: validates timeout_seconds and retry", async () => {
+  const { loadPipelineFromString } = await import("../src/pipeline/pipeline-loader.js");
+  const base = "version: 1\nname: policies\nnodes:\n  - id: push\n    type: deterministic\n    action: push\n";
+
+  const pipeline = loadPipelineFromString(`${base}    timeout_seconds: 30\n    retry:\n      max_attempts: 3\n      backoff: fixed\n      delay_seconds: 2\n`);
+  assert.equal(pipeline.nodes[0]!.timeout_seconds, 30);
+  assert.deepEqual(pipeline.nodes[0]!.retry, { max_attempts: 3, backoff: "fixed", delay_seconds: 2 });
+
+  assert.throws(() => loadPipelineFromString(`${base}    timeout_seconds: 0\n`), /timeout_seconds must be a positive number/);
+  assert.throws(() => loadPipelineFromString(`${base}    retry:\n      max_attempts: 0\n`), /retry.max_attempts must be an integer/);
+  assert.throws(() => loadPipelineFromString(`${base}    retry:\n      max_attempts: 2\n      backoff: linear\n`), /retry.backoff/);
+});
+
+test("PipelineEngine: a timed-out node fails and its shell command is killed", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-timeout-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  const pipelinePath = path.join(tmpDir, "pipeline.yml");
+  await writeFile(pipelinePath, [
+    "version: 1",
+    "name: timeout-pipeline",
+    "nodes:",
+    "  - id: validate",
+    "    type: deterministic",
+    "    action: validate",
+    "    timeout_seconds: 0.5"
+  ].join("\n"), "utf8");
+
+  const originalValidate = NODE_HANDLERS.validate;
+  t.after(async () => {
+    NODE_HANDLERS.validate = originalValidate;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  let handlerSignal: AbortSignal | undefined;
+  let commandFinished: Promise<{ code: number }> | undefined;
+  NODE_HANDLERS.validate = async (_node, _ctx, deps) => {
+    handlerSignal = deps.abortSignal;
+    commandFinished = runShellCapture("sleep 30", { logFile: path.join(tmpDir, "cmd.log") });
+    await commandFinished;
+    return { outcome: "success" };
+  };
+
+  const engine = new PipelineEngine(makeConfig({ workRoot: workDir }));
+  const started = Date.now();
+  await assert.rejects(
+    engine.execute(makeRun({ id: "test-run-timeout" }), async () => {}, pipelinePath),
+    /validate timed out after 0.5s/
+  );
+  const { code } = await commandFinished!;
+  assert.ok(Date.now() - started < 10_000, "the sleep command should be killed, not awaited");
+  assert.notEqual(code, 0);
+  assert.equal(handlerSignal?.aborted, true);
+});
+
+test("PipelineEngine: a retry starts only after the timed-out attempt has unwound", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-timeout-retry-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  const pipelinePath = path.join(tmpDir, "pipeline.yml");
+  await writeFile(pipelinePath, [
+    "version: 1",
+    "name: timeout-retry-pipeline",
+    "nodes:",
+    "  - id: push",
+    "    type: deterministic",
+    "    action: push",
+    "    timeout_seconds: 0.2",
+    "    retry:",
+    "      max_attempts: 2",
+    "      delay_seconds: 0"
+  ].join("\n"), "utf8");
+
+  const originalPush = NODE_HANDLERS.push;
+  t.after(async () => {
+    NODE_HANDLERS.push = originalPush;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  let attempts = 0;
+  let running = 0;
+  let maxRunning = 0;
+  NODE_HANDLERS.push = async () => {
+    attempts++;
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    try {
+      await sleep(30_000);
+      return { outcome: "success" };
+    } catch {
+      // Slow cleanup after the abort, e.g. waiting for a killed process
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return { outcome: "soft_fail", error: "push did not finish in time" };
+    } finally {
+      running--;
+    }
+  };
+
+  const engine = new PipelineEngine(makeConfig({ workRoot: workDir }));
+  const result = await engine.execute(makeRun({ id: "test-run-timeout-retry" }), async () => {}, pipelinePath);
+  assert.equal(attempts, 1, "a soft fail reported while unwinding is kept and not retried");
+  assert.equal(maxRunning, 1);
+  const log = await readFile(result.logsPath, "utf8");
+  assert.match(log, /push: soft_fail/);
+
+  NODE_HANDLERS.push = async () => {
+    attempts++;
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    try {
+      await sleep(30_000);
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 300));
+    } finally {
+      running--;
+    }
+    return { outcome: "success" };
+  };
+  attempts = 0;
+  await assert.rejects(
+    engine.execute(makeRun({ id: "test-run-timeout-retry-2" }), async () => {}, pipelinePath),
+    /push timed out after 0.2s/
+  );
+  assert.equal(attempts, 2);
+  assert.equal(maxRunning, 1, "attempts never overlap");
+});
+
+test("PipelineEngine: retries a failing node before giving up", async (t) => {
+  const tmpDir = await mkdtemp(path.join(os.tmpdir(), "pe-retry-"));
+  const workDir = path.join(tmpDir, "work");
+  await mkdir(workDir, { recursive: true });
+  const pipelinePath = path.join(tmpDir, "pipeline.yml");
+  await writeFile(pipelinePath, [
+    "version: 1",
+    "name: retry-pipeline",
+    "nodes:",
+    "  - id: push",
+    "    type: deterministic",
+    "    action: push",
+    "    retry:",
+    "      max_attempts: 3",
+    "      delay_seconds: 0"
+  ].join("\n"), "utf8");
+
+  const originalPush = NODE_HANDLERS.push;
+  t.after(async () => {
+    NODE_HANDLERS.push = originalPush;
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  let attempts = 0;
+  NODE_HANDLERS.push = async () => {
+    attempts++;
+    return attempts < 3 ? { outcome: "failure", error: "remote hung up" } : { outcome: "success" };
+  };
+
+  const engine = new PipelineEngine(makeConfig({ workRoot: workDir }));
+  const result = await engine.execute(makeRun({ id: "test-run-retry" }), async () => {}, pipelinePath);
+  assert.equal(attempts, 3);
+  const log = await readFile(result.logsPath, "utf8");
+  assert.match(log, /push: attempt 2\/3 failed \(remote hung up\), retrying in 0s/);
+
+  attempts = -10;
+  await assert.rejects(
+    engine.execute(makeRun({ id: "test-run-retry-exhausted" }), async () => {}, pipelinePath),
+    /remote hung up/
+  );
+  assert.equal(attempts, -7);
+});
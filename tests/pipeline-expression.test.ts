@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  checkExpression,
+  evaluateCondition,
+  evaluateExpression,
+  ExpressionError,
+  type ExpressionScope
+} from "../src/pipeline/expression.js";
+import { loadPipelineFromString, PipelineLoadError } from "../src/pipeline/pipeline-loader.js";
+
+function makeScope(overrides?: Partial<ExpressionScope>): ExpressionScope {
+  return {
+    ctx: {
+      changedFiles: ["a.ts", "b.ts", "c.ts"],
+      taskType: "bugfix",
+      browserVerifyFailureCode: "",
+      retries: 2
+    },
+    config: {
+      sandboxEnabled: true,
+      lintFixCommand: "",
+      validationCommand: "npm test"
+    },
+    nodes: {
+      classify_task: { outcome: "success", taskType: "chore" },
+      validate: { outcome: "failure", error: "exit 1" }
+    },
+    ...overrides
+  };
+}
+
+describe("evaluateCondition", () => {
+  test("keeps the legacy truthiness and != '' patterns working", () => {
+    const scope = makeScope();
+    assert.equal(evaluateCondition("config.sandboxEnabled", scope), true);
+    assert.equal(evaluateCondition("config.lintFixCommand != ''", scope), false);
+    assert.equal(evaluateCondition("config.validationCommand != ''", scope), true);
+    assert.equal(evaluateCondition("config.missingCommand != ''", scope), false);
+    assert.equal(evaluateCondition("ctx.browserVerifyFailureCode", scope), false);
+  });
+
+  test("supports comparison, boolean and length operators", () => {
+    const scope = makeScope();
+    assert.equal(evaluateCondition("ctx.changedFiles.length > 2 && config.sandboxEnabled", scope), true);
+    assert.equal(evaluateCondition("ctx.changedFiles.length > 20 || ctx.retries >= 2", scope), true);
+    assert.equal(evaluateCondition("!(ctx.retries < 3)", scope), false);
+    assert.equal(evaluateCondition("ctx.taskType.length == 6", scope), true);
+  });
+
+  test("supports membership and node result references", () => {
+    const scope = makeScope();
+    assert.equal(evaluateCondition("classify_task.taskType in ['bugfix', 'chore']", scope), true);
+    assert.equal(evaluateCondition("ctx.taskType not in ['feature']", scope), true);
+    assert.equal(evaluateCondition("'b.ts' in ctx.changedFiles", scope), true);
+    assert.equal(evaluateCondition("validate.outcome == 'success'", scope), false);
+    assert.equal(evaluateCondition("validate.error == 'exit 1'", scope), true);
+  });
+
+  test("treats empty arrays as falsy", () => {
+    assert.equal(evaluateCondition("ctx.changedFiles", makeScope({ ctx: { changedFiles: [] } })), false);
+  });
+
+  test("does not compare values of different types", () => {
+    const scope = makeScope();
+    assert.equal(evaluateCondition("ctx.taskType > 3", scope), false);
+    assert.equal(evaluateExpression("ctx.retries == '2'", scope), false);
+  });
+
+  test("cannot reach prototypes or call functions", () => {
+    assert.throws(() => evaluateExpression("ctx.__proto__", makeScope()), ExpressionError);
+    assert.throws(() => evaluateExpression("ctx.taskType.toString()", makeScope()), ExpressionError);
+    assert.equal(evaluateExpression("ctx.hasOwnProperty", makeScope()), undefined);
+  });
+});
+
+describe("checkExpression", () => {
+  const nodeIds = new Set(["classify_task", "validate"]);
+
+  test("rejects syntax errors", () => {
+    assert.throws(() => checkExpression("ctx.a ==", nodeIds), /Unexpected end/);
+    assert.throws(() => checkExpression("(ctx.a", nodeIds), /Expected '\)'/);
+    assert.throws(() => checkExpression("ctx.a = 1", nodeIds), /Unexpected character '='/);
+  });
+
+  test("rejects unknown path roots", () => {
+    assert.throws(() => checkExpression("clasify_task.taskType == 'bugfix'", nodeIds), /Unknown reference 'clasify_task.taskType'/);
+    assert.throws(() => checkExpression("ctx", nodeIds), /must be followed by a key/);
+  });
+
+  test("rejects ill-typed relational and membership operands", () => {
+    assert.throws(() => checkExpression("ctx.count > true", nodeIds), /cannot compare true/);
+    assert.throws(() => checkExpression("ctx.count < ['a']", nodeIds), /needs a number or string/);
+    assert.throws(() => checkExpression("ctx.taskType in 3", nodeIds), /Right side of 'in'/);
+  });
+});
+
+describe("pipeline-loader expression validation", () => {
+  test("accepts valid if and until expressions", () => {
+    const pipeline = loadPipelineFromString(`
+version: 1
+name: "expressions"
+nodes:
+  - id: classify_task
+    type: deterministic
+    action: classify_task
+  - id: validate
+    type: deterministic
+    action: validate
+    if: "config.validationCommand != '' && classify_task.taskType in ['bugfix', 'chore']"
+    on_failure:
+      action: loop
+      agent_node: fix_validation
+      max_rounds: 2
+      until: "validate.outcome == 'success'"
+`);
+    assert.equal(pipeline.nodes.length, 2);
+  });
+
+  test("rewrites pre-expression conditions instead of rejecting them", () => {
+    const pipeline = loadPipelineFromString(`
+version: 1
+name: "legacy"
+nodes:
+  - id: validate
+    type: deterministic
+    action: validate
+    if: "browserVerifyFailureCode != ''"
+    on_failure:
+      action: loop
+      agent_node: fix_validation
+      max_rounds: 2
+      until: "validate.exit_code == 0"
+  - id: lint
+    type: deterministic
+    action: lint_fix
+    if: "repoSummary.hasLint"
+`);
+    assert.equal(pipeline.nodes[0]!.if, "ctx.browserVerifyFailureCode != ''");
+    assert.equal(pipeline.nodes[0]!.on_failure?.until, "validate.outcome == 'success'");
+    assert.equal(pipeline.nodes[1]!.if, "ctx.repoSummary.hasLint");
+  });
+
+  test("fails validation on a typo in an if expression", () => {
+    assert.throws(
+      () => loadPipelineFromString(`
+version: 1
+name: "expressions"
+nodes:
+  - id: validate
+    type: deterministic
+    action: validate
+    if: "valdate.outcome == 'success'"
+`),
+      (err: unknown) => err instanceof PipelineLoadError && /invalid if expression/.test(err.message)
+    );
+  });
+
+  test("fails validation on a malformed until expression", () => {
+    assert.throws(
+      () => loadPipelineFromString(`
+version: 1
+name: "expressions"
+nodes:
+  - id: validate
+    type: deterministic
+    action: validate
+    on_failure:
+      action: loop
+      agent_node: fix_validation
+      max_rounds: 2
+      until: "validate.outcome == "
+`),
+      /invalid on_failure.until expression/
+    );
+  });
+});
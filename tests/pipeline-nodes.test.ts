@@ -16,7 +16,7 @@ import { waitCiNode } from "../src/pipeline/ci/wait-ci-node.js";
 import type { NodeConfig, NodeDeps } from "../src/pipeline/types.js";
 import type { AppConfig } from "../src/config.js";
 import type { RunRecord } from "../src/types.js";
-import { runShellCapture } from "../src/pipeline/shell.js";
+import { runShellCapture, runWithAbortSignal } from "../src/pipeline/shell.js";
 
 // ── Helpers ──
 
@@ -1244,4 +1244,29 @@ describe("waitCiNode", () => {
     assert.equal(result.outcome, "success");
     assert.equal(result.outputs?.ciConclusion, "no_ci");
   });
+
+  test("reports a CI timeout when the node timeout aborts the wait", async () => {
+    const ctx = new ContextBag({ commitSha: "abc123456789" });
+    const controller = new AbortController();
+    const deps = makeDeps({
+      configOverrides: {
+        ciWaitEnabled: true,
+        ciCheckFilter: [],
+        ciPatienceTimeoutSeconds: 0,
+        ciMaxWaitSeconds: 1,
+        ciPollIntervalSeconds: 60,
+      },
+      githubService: {
+        listCheckRuns: async () => [{ name: "build", status: "in_progress", conclusion: null }],
+      } as unknown as NodeDeps["githubService"],
+      abortSignal: controller.signal,
+    });
+
+    setTimeout(() => controller.abort(new Error("wait_ci timed out after 1s")), 50);
+    const result = await runWithAbortSignal(controller.signal, () => waitCiNode(makeNodeConfig("wait_ci"), ctx, deps));
+
+    assert.equal(result.outcome, "failure");
+    assert.equal(result.error, "CI polling stopped: wait_ci timed out after 1s");
+    assert.equal(ctx.get("ciConclusion"), "failure");
+  });
 });
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { evaluateConditionPartial } from "../src/pipeline/expression.js";
+import { loadPipelineFromString } from "../src/pipeline/pipeline-loader.js";
+import { planPipeline } from "../src/pipeline/pipeline-plan.js";
+import { parseRepoConfigYaml } from "../src/pipeline/repo-config.js";
+import type { AppConfig } from "../src/config.js";
+
+const PIPELINE_YAML = [
+  "version: 1",
+  "name: plan-me",
+  "context:",
+  "  strict: true",
+  "nodes:",
+  "  - id: clone",
+  "    type: deterministic",
+  "    action: clone",
+  "  - id: implement",
+  "    type: agentic",
+  "    action: implement",
+  "    timeout_seconds: 600",
+  "  - id: lint_fix",
+  "    type: deterministic",
+  "    action: lint_fix",
+  "    if: \"config.lintFixCommand != ''\"",
+  "  - id: validate",
+  "    type: deterministic",
+  "    action: validate",
+  "    if: \"ctx.strict || implement.outcome == 'success'\"",
+  "    on_failure:",
+  "      action: loop",
+  "      agent_node: fix_validation",
+  "      max_rounds: 2",
+  "  - id: checks",
+  "    type: parallel",
+  "    parallel:",
+  "      - id: scope_judge",
+  "        type: agentic",
+  "        action: scope_judge",
+  "      - id: security_scan",
+  "        type: deterministic",
+  "        action: security_scan",
+  "        if: \"implement.outcome == 'success' && ctx.changedFiles\"",
+  "  - id: browser_verify",
+  "    type: deterministic",
+  "    action: browser_verify",
+  "    enabled: false",
+  "  - id: decide_recovery",
+  "    type: conditional",
+  "    action: decide_next_step",
+  "    enabled: false",
+  "  - id: commit",
+  "    type: deterministic",
+  "    action: commit"
+].join("\n");
+
+const config = {
+  lintFixCommand: "",
+  scopeJudgeEnabled: false,
+  browserVerifyEnabled: false,
+  activeAgentProfile: { id: "default", name: "Default", runtime: "pi", model: "base-model" },
+  agentProfileCatalog: [{ id: "fast", name: "Fast", runtime: "pi", model: "fast-model" }],
+  agentProfilePolicies: [{
+    id: "p1",
+    scope: "pipeline_node",
+    targetKey: "pipeline:plan-me|node:implement",
+    mode: "single",
+    enabled: true,
+    members: [{ profileId: "fast", ordinal: 0, enabled: true }]
+  }]
+} as unknown as AppConfig;
+
+test("evaluateConditionPartial decides only when known values settle the result", () => {
+  const scope = { ctx: { a: true }, config: { off: false }, nodes: {} };
+  const isKnown = (segments: string[]) => segments[0] !== "implement";
+  assert.equal(evaluateConditionPartial("ctx.a || implement.outcome == 'success'", scope, isKnown), true);
+  assert.equal(evaluateConditionPartial("config.off && implement.outcome == 'success'", scope, isKnown), false);
+  assert.equal(evaluateConditionPartial("!(ctx.a && implement.outcome == 'success')", scope, isKnown), undefined);
+});
+
+test("planPipeline resolves skips, conditions, loops and routing without running anything", () => {
+  const pipeline = loadPipelineFromString(PIPELINE_YAML);
+  const plan = planPipeline(pipeline, { pipelineId: "plan-me", config, skipNodes: ["commit"] });
+  const byId = new Map(plan.nodes.map(node => [node.id, node]));
+
+  assert.equal(byId.get("clone")!.status, "run");
+  assert.equal(byId.get("implement")!.routing?.profileName, "Fast");
+  assert.equal(byId.get("implement")!.routing?.targetKey, "pipeline:plan-me|node:implement");
+  assert.equal(byId.get("implement")!.timeoutSeconds, 600);
+  assert.deepEqual(
+    [byId.get("lint_fix")!.status, byId.get("lint_fix")!.reason],
+    ["skipped", "condition is false: config.lintFixCommand != ''"]
+  );
+  assert.equal(byId.get("validate")!.status, "run");
+  assert.equal(byId.get("validate")!.loop?.agent_node, "fix_validation");
+  assert.equal(byId.get("browser_verify")!.reason, "enabled: false (not in enableNodes)");
+  assert.equal(byId.get("commit")!.reason, "in skipNodes list");
+
+  const [scopeJudge, securityScan] = byId.get("checks")!.children!;
+  assert.equal(scopeJudge!.status, "skipped");
+  assert.match(scopeJudge!.reason!, /disabled in app config and \.gooseherd\.yml/);
+  assert.equal(securityScan!.status, "conditional");
+  assert.equal(securityScan!.reason, "depends on runtime values: implement.outcome, ctx.changedFiles");
+});
+
+test("planPipeline applies .gooseherd.yml overrides and enableNodes auto-enables", () => {
+  const pipeline = loadPipelineFromString(PIPELINE_YAML);
+  const repoConfig = parseRepoConfigYaml("quality_gates:\n  scope_judge:\n    enabled: true\n  browser_verify:\n    enabled: true\n");
+  const plan = planPipeline(pipeline, {
+    pipelineId: "plan-me",
+    config,
+    enableNodes: ["browser_verify"],
+    repoConfig
+  });
+  const byId = new Map(plan.nodes.map(node => [node.id, node]));
+
+  assert.equal(plan.context["repoScopeJudgeEnabled"], true);
+  assert.equal(byId.get("checks")!.children![0]!.status, "run");
+  assert.equal(byId.get("browser_verify")!.status, "run");
+  assert.equal(byId.get("decide_recovery")!.status, "run");
+  assert.ok(byId.get("decide_recovery")!.gotoTargets!.includes("implement"));
+  assert.ok(!byId.get("decide_recovery")!.gotoTargets!.includes("decide_recovery"));
+});
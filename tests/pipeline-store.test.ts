@@ -311,4 +311,88 @@ describe("PipelineStore", () => {
     assert.ok(store2.get("default"));
     assert.equal(store2.list().length, 2);
   });
+
+  test("save() records a revision per change and skips unchanged YAML", async (t) => {
+    const { store, pipelinesDir, testDb } = await setup();
+    t.after(async () => { await testDb.cleanup(); });
+
+    await store.init(pipelinesDir);
+    const first = await store.save("my-custom", VALID_YAML);
+    const unchanged = await store.save("my-custom", VALID_YAML);
+    const second = await store.save("my-custom", VALID_YAML_2);
+
+    assert.equal(unchanged.revisionId, first.revisionId);
+    assert.notEqual(second.revisionId, first.revisionId);
+    const revisions = await store.listRevisions("my-custom");
+    assert.deepEqual(revisions.map((r) => [r.revision, r.source, r.current]), [[2, "save", true], [1, "save", false]]);
+    assert.equal((await store.getRevision("my-custom", first.revisionId!))?.yaml, VALID_YAML);
+    assert.deepEqual((await store.listRevisions("default")).map((r) => r.source), ["seed"]);
+  });
+
+  test("rollback() appends a copy of the earlier revision", async (t) => {
+    const { store, pipelinesDir, testDb } = await setup();
+    t.after(async () => { await testDb.cleanup(); });
+
+    await store.init(pipelinesDir);
+    const first = await store.save("my-custom", VALID_YAML);
+    await store.save("my-custom", VALID_YAML_2);
+
+    const rolledBack = await store.rollback("my-custom", first.revisionId!);
+    assert.equal(rolledBack?.yaml, VALID_YAML);
+    assert.equal(rolledBack?.nodeCount, 1);
+    const [latest] = await store.listRevisions("my-custom");
+    assert.equal(latest?.revision, 3);
+    assert.equal(latest?.source, "rollback");
+    assert.equal(latest?.rolledBackFrom, first.revisionId);
+
+    assert.equal(await store.rollback("my-custom", "00000000-0000-0000-0000-000000000000"), undefined);
+    const seeded = store.get("default")!;
+    await assert.rejects(() => store.rollback("default", seeded.revisionId!), PipelineLoadError);
+  });
+
+  test("revisions record the pipelines they call, for history, diff and rollback", async (t) => {
+    const { store, pipelinesDir, testDb } = await setup();
+    t.after(async () => { await testDb.cleanup(); });
+
+    await store.init(pipelinesDir);
+    const helperV1 = await store.save("my-helper", VALID_YAML);
+    const caller = await store.save("my-caller", "version: 1\nname: Caller\nnodes:\n  - id: checks\n    call: my-helper\n");
+    const callerV1 = await store.getRevision("my-caller", caller.revisionId!);
+    assert.deepEqual(callerV1?.calledRevisions, { "my-helper": helperV1.revisionId });
+
+    const helperV2 = await store.save("my-helper", VALID_YAML_2);
+    const callerRevisions = await store.listRevisions("my-caller");
+    assert.deepEqual(callerRevisions.map((r) => [r.revision, r.source, r.current]), [[2, "call", true], [1, "save", false]]);
+    const callerV2 = await store.getRevision("my-caller", callerRevisions[0]!.id);
+    assert.equal(callerV2?.yaml, callerV1?.yaml);
+    assert.deepEqual(callerV2?.calledRevisions, { "my-helper": helperV2.revisionId });
+    assert.equal(store.get("my-caller")?.revisionId, callerV2?.id);
+
+    const [call] = await store.diffCalls(callerV1!, callerV2!);
+    assert.equal(call?.pipelineId, "my-helper");
+    assert.deepEqual([call?.from?.revision, call?.to?.revision], [1, 2]);
+    assert.deepEqual(call?.diff.nodes.added, ["step2"]);
+
+    await store.rollback("my-caller", callerV1!.id);
+    assert.equal(store.get("my-helper")?.yaml, VALID_YAML);
+    const [helperLatest] = await store.listRevisions("my-helper");
+    assert.deepEqual([helperLatest?.source, helperLatest?.rolledBackFrom], ["rollback", helperV1.revisionId]);
+    const current = await store.getRevision("my-caller", store.get("my-caller")!.revisionId!);
+    assert.deepEqual(current?.calledRevisions, { "my-helper": helperLatest?.id });
+  });
+
+  test("re-seeding only adds a revision when the built-in file changed", async (t) => {
+    const { store, pipelinesDir, testDb } = await setup();
+    t.after(async () => { await testDb.cleanup(); });
+
+    await store.init(pipelinesDir);
+    await store.init(pipelinesDir);
+    assert.equal((await store.listRevisions("default")).length, 1);
+
+    await writeFile(path.join(pipelinesDir, "default.yml"), VALID_YAML_2);
+    await store.init(pipelinesDir);
+    const revisions = await store.listRevisions("default");
+    assert.deepEqual(revisions.map((r) => r.revision), [2, 1]);
+    assert.equal(store.get("default")?.revisionId, revisions[0]?.id);
+  });
 });
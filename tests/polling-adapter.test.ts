@@ -0,0 +1,274 @@
+/**
+ * Tests for the polling adapter framework — cursor persistence, backoff,
+ * pagination helpers — and the GitHub and Jira pollers built on it.
+ */
+
+import assert from "node:assert/strict";
+import { afterEach, describe, test } from "node:test";
+import {
+  collectPages,
+  nextPollDelayMs,
+  parseNextLink,
+  runPollCycle,
+  type PollCursorStore,
+  type PollingAdapter,
+} from "../src/observer/sources/polling-adapter.js";
+import { createGitHubPoller } from "../src/observer/sources/github-poller.js";
+import { createJiraPoller, mapJiraPriority } from "../src/observer/sources/jira-poller.js";
+import type { JiraSearchPage } from "../src/jira.js";
+
+// ── Helpers ──
+
+class MemoryCursors implements PollCursorStore {
+  readonly values = new Map<string, string>();
+
+  async getPollCursor(sourceType: string, sourceKey: string): Promise<string | undefined> {
+    return this.values.get(`${sourceType}/${sourceKey}`);
+  }
+
+  async setPollCursor(sourceType: string, sourceKey: string, cursorValue: string): Promise<void> {
+    this.values.set(`${sourceType}/${sourceKey}`, cursorValue);
+  }
+}
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+// ═══════════════════════════════════════════════════════
+// Framework
+// ═══════════════════════════════════════════════════════
+
+describe("runPollCycle", () => {
+  test("passes each key its cursor and stores the new one", async () => {
+    const cursors = new MemoryCursors();
+    cursors.values.set("demo/a", "5");
+    const seen: Array<[string | undefined, string]> = [];
+    const adapter: PollingAdapter = {
+      id: "demo",
+      intervalSeconds: 60,
+      keys: () => ["a", "b"],
+      async fetchSince(cursor, key) {
+        seen.push([cursor, key]);
+        return { events: [], cursor: key === "a" ? "7" : undefined };
+      },
+    };
+
+    const result = await runPollCycle(adapter, cursors);
+    assert.deepEqual(seen, [["5", "a"], [undefined, "b"]]);
+    assert.deepEqual(result, { events: [], failedKeys: [] });
+    assert.deepEqual([...cursors.values], [["demo/a", "7"]]);
+  });
+
+  test("a failing key keeps its cursor while the others advance", async () => {
+    const cursors = new MemoryCursors();
+    const adapter: PollingAdapter = {
+      id: "demo",
+      intervalSeconds: 60,
+      keys: () => ["bad", "good"],
+      async fetchSince(_cursor, key) {
+        if (key === "bad") throw new Error("HTTP 502");
+        return { events: [], cursor: "next" };
+      },
+    };
+
+    const result = await runPollCycle(adapter, cursors);
+    assert.deepEqual(result.failedKeys, ["bad"]);
+    assert.deepEqual([...cursors.values], [["demo/good", "next"]]);
+  });
+
+  test("adapters without keys use a single default cursor", async () => {
+    const cursors = new MemoryCursors();
+    const adapter: PollingAdapter = { id: "solo", intervalSeconds: 60, fetchSince: async () => ({ events: [], cursor: "c1" }) };
+    await runPollCycle(adapter, cursors);
+    assert.equal(cursors.values.get("solo/default"), "c1");
+  });
+});
+
+describe("nextPollDelayMs", () => {
+  test("jitters the interval by up to 10%", () => {
+    assert.equal(nextPollDelayMs(60_000, 0, () => 0.5), 60_000);
+    assert.equal(nextPollDelayMs(60_000, 0, () => 0), 54_000);
+    assert.equal(nextPollDelayMs(60_000, 0, () => 1), 66_000);
+  });
+
+  test("doubles per consecutive failure, capped at an hour", () => {
+    assert.equal(nextPollDelayMs(60_000, 1, () => 0.5), 120_000);
+    assert.equal(nextPollDelayMs(60_000, 3, () => 0.5), 480_000);
+    assert.equal(nextPollDelayMs(60_000, 20, () => 0.5), 3_600_000);
+    // Intervals longer than the cap are never shortened
+    assert.equal(nextPollDelayMs(7_200_000, 2, () => 0.5), 7_200_000);
+  });
+});
+
+describe("pagination helpers", () => {
+  test("collectPages follows next tokens up to maxPages", async () => {
+    const calls: Array<string | undefined> = [];
+    const items = await collectPages(async (next) => {
+      calls.push(next);
+      const page = Number(next ?? "0");
+      return { items: [page], next: String(page + 1) };
+    }, 3);
+    assert.deepEqual(items, [0, 1, 2]);
+    assert.deepEqual(calls, [undefined, "1", "2"]);
+  });
+
+  test("parseNextLink reads rel=next from a Link header", () => {
+    const header = '<https://api.github.com/x?page=3>; rel="next", <https://api.github.com/x?page=9>; rel="last"';
+    assert.equal(parseNextLink(header), "https://api.github.com/x?page=3");
+    assert.equal(parseNextLink('<https://api.github.com/x?page=1>; rel="prev"'), undefined);
+    assert.equal(parseNextLink(null), undefined);
+  });
+});
+
+// ═══════════════════════════════════════════════════════
+// Built-in pollers
+// ═══════════════════════════════════════════════════════
+
+describe("GitHub poller", () => {
+  function run(id: number) {
+    return {
+      id, name: "CI", head_branch: "main", head_sha: "abc", status: "completed", conclusion: "failure",
+      html_url: `https://github.com/acme/app/actions/runs/${String(id)}`, created_at: "2026-10-18T10:00:00Z",
+      updated_at: "2026-10-18T10:05:00Z", repository: { full_name: "acme/app" },
+    };
+  }
+
+  test("follows pages until it reaches the cursor", async () => {
+    const urls: string[] = [];
+    const pages: Record<string, { runs: number[]; next?: string }> = {
+      first: { runs: [110, 109], next: "https://api.github.com/page2" },
+      "https://api.github.com/page2": { runs: [108, 100], next: "https://api.github.com/page3" },
+    };
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = String(input);
+      urls.push(url);
+      const page = pages[url] ?? pages["first"]!;
+      return new Response(JSON.stringify({ total_count: 50, workflow_runs: page.runs.map(run) }), {
+        status: 200,
+        headers: page.next ? { link: `<${page.next}>; rel="next"` } : {},
+      });
+    }) as typeof fetch;
+
+    const poller = createGitHubPoller({ getToken: async () => "t", watchedRepos: ["acme/app"], pollIntervalSeconds: 60, alertChannelId: "C1" });
+    const result = await poller.fetchSince("100", "acme/app");
+
+    assert.equal(urls.length, 2);
+    assert.equal(result.cursor, "110");
+    assert.deepEqual(result.events.map((e) => (e.rawPayload as { runId: number }).runId), [110, 109, 108]);
+  });
+
+  test("stops paging after a few pages and resumes from the newest run", async () => {
+    let calls = 0;
+    globalThis.fetch = (async () => {
+      calls += 1;
+      const ids = [200 - calls * 2, 199 - calls * 2];
+      return new Response(JSON.stringify({ total_count: 200, workflow_runs: ids.map(run) }), {
+        status: 200,
+        headers: { link: `<https://api.github.com/page${String(calls + 1)}>; rel="next"` },
+      });
+    }) as typeof fetch;
+
+    const poller = createGitHubPoller({ getToken: async () => "t", watchedRepos: ["acme/app"], pollIntervalSeconds: 60, alertChannelId: "C1" });
+    const result = await poller.fetchSince("100", "acme/app");
+
+    assert.equal(calls, 3);
+    assert.equal(result.cursor, "198");
+    assert.deepEqual(result.events.map((e) => (e.rawPayload as { runId: number }).runId), [198, 197, 196, 195, 194, 193]);
+  });
+});
+
+describe("Jira poller", () => {
+  test("maps Jira priorities", () => {
+    assert.equal(mapJiraPriority("Highest"), "critical");
+    assert.equal(mapJiraPriority("High"), "high");
+    assert.equal(mapJiraPriority("Medium"), "medium");
+    assert.equal(mapJiraPriority(undefined), "low");
+  });
+
+  function poller(pages: JiraSearchPage[], queries: Array<{ jql: string; nextPageToken?: string }> = []) {
+    return createJiraPoller({
+      client: {
+        async searchIssues(jql, options) {
+          queries.push({ jql, nextPageToken: options.nextPageToken });
+          return pages[queries.length - 1] ?? { issues: [] };
+        },
+        issueUrl: (key) => `https://acme.atlassian.net/browse/${key}`,
+      },
+      jql: "labels = gooseherd",
+      repoMap: new Map([["OPS", "acme/checkout"]]),
+      pollIntervalSeconds: 300,
+      alertChannelId: "C-ALERTS",
+    });
+  }
+
+  test("turns issues that newly match the JQL into events", async () => {
+    const queries: Array<{ jql: string; nextPageToken?: string }> = [];
+    const pages: JiraSearchPage[] = [
+      {
+        issues: [
+          { id: "1", key: "OPS-1", fields: { summary: "Old", updated: "2026-10-18T11:59:30.000+0000" } },
+          {
+            id: "2", key: "OPS-2",
+            fields: {
+              summary: "Checkout 500s", description: "Stack trace attached", updated: "2026-10-18T11:58:00.000+0000",
+              priority: { name: "High" }, status: { name: "To Do" }, project: { key: "OPS" }, labels: ["gooseherd"],
+            },
+          },
+        ],
+        nextPageToken: "p2",
+      },
+      { issues: [{ id: "3", key: "PAY-3", fields: { summary: "Refund bug", updated: "2026-10-18T11:59:00.000+0000" } }] },
+    ];
+
+    const result = await poller(pages, queries).fetchSince(JSON.stringify({ keys: ["OPS-1", "OPS-9"] }), "default");
+
+    assert.deepEqual(queries.map((q) => q.nextPageToken), [undefined, "p2"]);
+    assert.equal(queries[0]!.jql, "(labels = gooseherd) ORDER BY created DESC");
+    // OPS-1 already matched (a write-back only updated it); OPS-9 stopped matching
+    assert.deepEqual(result.events.map((e) => e.dedupKey), ["OPS-2", "PAY-3"]);
+    assert.deepEqual(JSON.parse(result.cursor!), { keys: ["OPS-1", "OPS-2", "PAY-3"] });
+
+    const [event] = result.events;
+    assert.equal(event!.source, "jira");
+    assert.equal(event!.repoSlug, "acme/checkout");
+    assert.equal(event!.priority, "high");
+    assert.deepEqual(event!.notificationTarget, { type: "slack", channelId: "C-ALERTS" });
+    assert.match(event!.suggestedTask ?? "", /^OPS-2: Checkout 500s\n\nStack trace attached\n\nJira: https:\/\/acme\.atlassian\.net\/browse\/OPS-2$/);
+    assert.deepEqual(event!.rawPayload, {
+      issueKey: "OPS-2", issueId: "2", projectKey: "OPS", summary: "Checkout 500s", status: "To Do", priority: "High",
+      issueType: undefined, labels: ["gooseherd"], assignee: undefined, url: "https://acme.atlassian.net/browse/OPS-2",
+      updated: "2026-10-18T11:58:00.000+0000",
+    });
+    // Project without a repo mapping
+    assert.equal(result.events[1]!.repoSlug, undefined);
+  });
+
+  test("an issue that stops matching is reported again when it matches again", async () => {
+    const issue = { id: "1", key: "OPS-1", fields: { summary: "Flaky", updated: "2026-10-18T11:00:00.000+0000" } };
+    const gone = await poller([{ issues: [] }]).fetchSince(JSON.stringify({ keys: ["OPS-1"] }), "default");
+    assert.deepEqual(JSON.parse(gone.cursor!), { keys: [] });
+
+    const back = await poller([{ issues: [issue] }]).fetchSince(gone.cursor, "default");
+    assert.deepEqual(back.events.map((e) => e.dedupKey), ["OPS-1"]);
+  });
+
+  test("without a key list only issues updated since the old cursor are new", async () => {
+    const pages: JiraSearchPage[] = [{
+      issues: [
+        { id: "1", key: "OPS-1", fields: { summary: "Old", updated: "2026-10-18T11:50:00.000+0000" } },
+        { id: "2", key: "OPS-2", fields: { summary: "New", updated: "2026-10-18T11:58:00.000+0000" } },
+      ],
+    }];
+    const result = await poller(pages).fetchSince("2026-10-18T11:55:00.000Z", "default");
+    assert.deepEqual(result.events.map((e) => e.dedupKey), ["OPS-2"]);
+    assert.deepEqual(JSON.parse(result.cursor!), { keys: ["OPS-1", "OPS-2"] });
+  });
+
+  test("no newly matching issues keeps the key list", async () => {
+    const cursor = JSON.stringify({ keys: [] });
+    assert.deepEqual(await poller([{ issues: [] }]).fetchSince(cursor, "default"), { events: [], cursor });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Tests for the review SLA monitor — reminders, escalation, no_response
+ * expiry and the overdue dashboard summary, over in-memory stores.
+ */
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import type { ReviewSlaNotice } from "../src/work-items/slack-actions.js";
+import { listOverdueReviews, runReviewSlaCycle, type ReviewSlaCycleDeps } from "../src/work-items/review-sla-monitor.js";
+import type {
+  AppendWorkItemEventInput,
+  ReviewRequestEscalationTarget,
+  ReviewRequestRecord,
+  WorkItemRecord,
+  WorkItemState,
+} from "../src/work-items/types.js";
+import { parseWorkflowDefinition, registerWorkflowDefinitions } from "../src/work-items/workflow-definition.js";
+
+const HOUR = 3_600_000;
+const REQUESTED_AT = Date.parse("2026-10-18T00:00:00.000Z");
+
+const SECURITY_WORKFLOW = parseWorkflowDefinition({
+  kind: "work_item_workflow",
+  id: "security-sla",
+  workflow: "feature_delivery",
+  states: [
+    { name: "backlog", transitions: ["in_progress"] },
+    { name: "in_progress", transitions: ["auto_review"] },
+    { name: "auto_review", transitions: ["security_review", "done"] },
+    {
+      name: "security_review",
+      stage: true,
+      review: {
+        doneFlag: "security_review_done",
+        request: { targetType: "org_role", targetRef: { role: "security" }, title: "Security review" },
+      },
+      reviewSla: {
+        respondWithinHours: 24,
+        remindEveryHours: 12,
+        escalateAfterHours: 48,
+        escalateTo: { targetType: "org_role", targetRef: { role: "security_lead" } },
+        expireAfterHours: 96,
+        onNoResponse: "auto_review",
+      },
+      transitions: ["auto_review", "done"],
+    },
+    { name: "done", transitions: [] },
+    { name: "cancelled", transitions: [] },
+  ],
+});
+
+// ── In-memory stores ──
+
+class MemoryReviewRequests {
+  readonly records = new Map<string, ReviewRequestRecord>();
+
+  add(overrides: Partial<ReviewRequestRecord> = {}): ReviewRequestRecord {
+    const record: ReviewRequestRecord = {
+      id: `rr-${String(this.records.size + 1)}`,
+      workItemId: "wi-1",
+      reviewRound: 1,
+      type: "approval",
+      targetType: "org_role",
+      targetRef: { role: "security" },
+      status: "pending",
+      title: "Security review",
+      requestMessage: "",
+      focusPoints: [],
+      requestedByUserId: "u-1",
+      requestedAt: new Date(REQUESTED_AT).toISOString(),
+      workflowStage: "security_review",
+      createdAt: new Date(REQUESTED_AT).toISOString(),
+      updatedAt: new Date(REQUESTED_AT).toISOString(),
+      ...overrides,
+    };
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  async listPendingReviewRequests(): Promise<ReviewRequestRecord[]> {
+    return Array.from(this.records.values()).filter((record) => record.status === "pending");
+  }
+
+  async markReminded(id: string, remindedAt: Date): Promise<void> {
+    this.records.set(id, { ...this.records.get(id)!, remindedAt: remindedAt.toISOString() });
+  }
+
+  async markEscalated(id: string, escalatedAt: Date, target: ReviewRequestEscalationTarget): Promise<void> {
+    this.records.set(id, { ...this.records.get(id)!, escalatedAt: escalatedAt.toISOString(), escalationTarget: target });
+  }
+}
+
+function workItem(overrides: Partial<WorkItemRecord> = {}): WorkItemRecord {
+  return {
+    id: "wi-1",
+    workflow: "feature_delivery",
+    workflowDefinitionId: "security-sla",
+    state: "security_review",
+    flags: [],
+    title: "Checkout retries",
+    summary: "",
+    ownerTeamId: "team-1",
+    homeChannelId: "C1",
+    homeThreadTs: "1.0",
+    createdByUserId: "u-1",
+    createdAt: new Date(REQUESTED_AT).toISOString(),
+    updatedAt: new Date(REQUESTED_AT).toISOString(),
+    ...overrides,
+  };
+}
+
+let requests: MemoryReviewRequests;
+let items: Map<string, WorkItemRecord>;
+let events: AppendWorkItemEventInput[];
+let notices: Array<{ reviewRequest: ReviewRequestRecord; notice: ReviewSlaNotice }>;
+let expired: Array<{ reviewRequestId: string; onNoResponse?: WorkItemState }>;
+
+function deps(hoursAfterRequest: number): ReviewSlaCycleDeps {
+  return {
+    reviewRequests: requests,
+    workItems: { getWorkItem: async (id) => items.get(id) },
+    events: { append: async (input) => { events.push(input); } },
+    notify: async (_workItem, reviewRequest, notice) => { notices.push({ reviewRequest, notice }); },
+    expire: async (reviewRequestId, onNoResponse) => {
+      expired.push({ reviewRequestId, onNoResponse });
+      requests.records.set(reviewRequestId, { ...requests.records.get(reviewRequestId)!, status: "completed", outcome: "no_response" });
+    },
+    now: () => new Date(REQUESTED_AT + hoursAfterRequest * HOUR),
+  };
+}
+
+beforeEach(() => {
+  registerWorkflowDefinitions([SECURITY_WORKFLOW]);
+  requests = new MemoryReviewRequests();
+  items = new Map([["wi-1", workItem()]]);
+  events = [];
+  notices = [];
+  expired = [];
+});
+
+afterEach(() => {
+  registerWorkflowDefinitions([]);
+});
+
+// ═══════════════════════════════════════════════════════
+
+describe("runReviewSlaCycle", () => {
+  test("reminds once overdue, then every remindEveryHours", async () => {
+    requests.add();
+
+    assert.equal((await runReviewSlaCycle(deps(23))).reminded, 0);
+    assert.equal((await runReviewSlaCycle(deps(25))).reminded, 1);
+    assert.equal((await runReviewSlaCycle(deps(30))).reminded, 0);
+    assert.equal((await runReviewSlaCycle(deps(37))).reminded, 1);
+
+    assert.deepEqual(notices.map((entry) => entry.notice), ["reminder", "reminder"]);
+    assert.deepEqual(events.map((event) => event.eventType), ["review_request.reminded", "review_request.reminded"]);
+    assert.equal(events[0]!.payload!["dueAt"], new Date(REQUESTED_AT + 24 * HOUR).toISOString());
+  });
+
+  test("escalates once to the escalation target", async () => {
+    requests.add({ remindedAt: new Date(REQUESTED_AT + 47 * HOUR).toISOString() });
+
+    const result = await runReviewSlaCycle(deps(49));
+    assert.equal(result.escalated, 1);
+    assert.equal(notices[0]!.notice, "escalation");
+    assert.deepEqual(notices[0]!.reviewRequest.escalationTarget, { targetType: "org_role", targetRef: { role: "security_lead" } });
+    assert.ok(requests.records.get("rr-1")!.escalatedAt);
+    assert.deepEqual(events[0], {
+      workItemId: "wi-1",
+      eventType: "review_request.escalated",
+      payload: { reviewRequestId: "rr-1", targetType: "org_role", targetRef: { role: "security_lead" } },
+    });
+
+    assert.equal((await runReviewSlaCycle(deps(50))).escalated, 0);
+  });
+
+  test("expires as no_response with the stage's consequence", async () => {
+    requests.add();
+
+    const result = await runReviewSlaCycle(deps(97));
+    assert.deepEqual(result, { reminded: 0, escalated: 0, expired: 1, failed: 0 });
+    assert.deepEqual(expired, [{ reviewRequestId: "rr-1", onNoResponse: "auto_review" }]);
+    assert.equal((await runReviewSlaCycle(deps(98))).expired, 0);
+  });
+
+  test("ignores requests once the work item has left their stage, and states without an SLA", async () => {
+    requests.add();
+    items.set("wi-1", workItem({ state: "auto_review" }));
+    assert.deepEqual(await runReviewSlaCycle(deps(200)), { reminded: 0, escalated: 0, expired: 0, failed: 0 });
+
+    items.set("wi-1", workItem({ workflowDefinitionId: undefined, state: "engineering_review" }));
+    requests.records.clear();
+    requests.add({ workflowStage: "engineering_review" });
+    assert.deepEqual(await runReviewSlaCycle(deps(200)), { reminded: 0, escalated: 0, expired: 0, failed: 0 });
+  });
+
+  test("built-in discovery reviews expire into the usual round resolution", async () => {
+    items.set("wi-2", workItem({ id: "wi-2", workflow: "product_discovery", workflowDefinitionId: undefined, state: "waiting_for_review" }));
+    requests.add({ workItemId: "wi-2", targetType: "team", workflowStage: "waiting_for_review" });
+
+    assert.equal((await runReviewSlaCycle(deps(49))).reminded, 1);
+    assert.equal((await runReviewSlaCycle(deps(121))).expired, 1);
+    assert.deepEqual(expired, [{ reviewRequestId: "rr-1", onNoResponse: undefined }]);
+  });
+
+  test("requests made before stages were recorded are left alone", async () => {
+    items.set("wi-2", workItem({ id: "wi-2", workflow: "product_discovery", workflowDefinitionId: undefined, state: "waiting_for_review" }));
+    requests.add({ workItemId: "wi-2", targetType: "team", workflowStage: undefined });
+
+    assert.deepEqual(await runReviewSlaCycle(deps(500)), { reminded: 0, escalated: 0, expired: 0, failed: 0 });
+    assert.deepEqual(notices, []);
+  });
+
+  test("a failed notification is retried next cycle", async () => {
+    requests.add();
+    const failing = { ...deps(25), notify: async () => { throw new Error("slack down"); } };
+
+    assert.equal((await runReviewSlaCycle(failing)).failed, 1);
+    assert.equal(requests.records.get("rr-1")!.remindedAt, undefined);
+    assert.equal((await runReviewSlaCycle(deps(26))).reminded, 1);
+  });
+});
+
+describe("listOverdueReviews", () => {
+  test("groups overdue requests by owner team", async () => {
+    items.set("wi-2", workItem({ id: "wi-2", ownerTeamId: "team-2", title: "Refunds", jiraIssueKey: "PAY-9" }));
+    items.set("wi-3", workItem({ id: "wi-3", ownerTeamId: "team-2", title: "Payouts" }));
+    requests.add();
+    requests.add({ workItemId: "wi-2", escalatedAt: new Date(REQUESTED_AT + 48 * HOUR).toISOString() });
+    requests.add({ workItemId: "wi-3", requestedAt: new Date(REQUESTED_AT + 20 * HOUR).toISOString() });
+
+    const teams = await listOverdueReviews({
+      reviewRequests: requests,
+      workItems: { getWorkItem: async (id) => items.get(id) },
+      getTeamName: async (teamId) => (teamId === "team-1" ? "payments" : undefined),
+    }, new Date(REQUESTED_AT + 30 * HOUR));
+
+    assert.deepEqual(teams.map((team) => [team.teamName, team.reviews.map((review) => review.workItemId)]), [
+      ["payments", ["wi-1"]],
+      ["team-2", ["wi-2"]],
+    ]);
+    assert.deepEqual(teams[1]!.reviews[0], {
+      reviewRequestId: "rr-2",
+      workItemId: "wi-2",
+      workItemTitle: "Refunds",
+      jiraIssueKey: "PAY-9",
+      stage: "security_review",
+      title: "Security review",
+      targetType: "org_role",
+      requestedAt: new Date(REQUESTED_AT).toISOString(),
+      dueAt: new Date(REQUESTED_AT + 24 * HOUR).toISOString(),
+      escalated: true,
+      expiresAt: new Date(REQUESTED_AT + 96 * HOUR).toISOString(),
+    });
+  });
+});
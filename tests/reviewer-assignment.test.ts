@@ -0,0 +1,257 @@
+/**
+ * Tests for reviewer assignment — CODEOWNERS matching, the pure picker and
+ * the assigner over in-memory stores and a fake GitHub.
+ */
+
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import type { IdentityUserRecord } from "../src/work-items/identity-store.js";
+import {
+  ReviewerAssigner,
+  codeownersFor,
+  parseCodeowners,
+  pickReviewers,
+  reviewerLoad,
+  type PickReviewersInput,
+} from "../src/work-items/reviewer-assignment.js";
+import type {
+  AppendWorkItemEventInput,
+  ReviewAssignment,
+  ReviewRequestRecord,
+  WorkItemRecord,
+} from "../src/work-items/types.js";
+
+const NOW = new Date("2026-10-18T12:00:00.000Z");
+
+function user(id: string, overrides: Partial<IdentityUserRecord> = {}): IdentityUserRecord {
+  return { id, displayName: id, githubLogin: id, isActive: true, ...overrides };
+}
+
+function request(overrides: Partial<ReviewRequestRecord> = {}): ReviewRequestRecord {
+  return {
+    id: "rr-1",
+    workItemId: "wi-1",
+    reviewRound: 1,
+    type: "review",
+    targetType: "team",
+    targetRef: {},
+    status: "pending",
+    title: "Engineering review",
+    requestMessage: "",
+    focusPoints: [],
+    requestedByUserId: "author",
+    requestedAt: NOW.toISOString(),
+    workflowStage: "engineering_review",
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+function assignment(userIds: string[], assignedAt: string): ReviewAssignment {
+  return {
+    strategy: "least_loaded",
+    reviewers: userIds.map((userId) => ({ userId, displayName: userId, reasons: [] })),
+    skipped: [],
+    assignedAt,
+  };
+}
+
+function pick(overrides: Partial<PickReviewersInput>) {
+  return pickReviewers({
+    candidates: [],
+    count: 1,
+    strategy: "least_loaded",
+    load: new Map(),
+    ownedFiles: new Map(),
+    exclude: new Map(),
+    now: NOW,
+    ...overrides,
+  });
+}
+
+// ═══════════════════════════════════════════════════════
+
+describe("CODEOWNERS", () => {
+  const rules = parseCodeowners([
+    "# Default owners",
+    "*           @Ana @org/platform",
+    "*.sql       @bo",
+    "/docs/      @cy  # docs team",
+    "src/billing/**/*.ts @dee",
+    "apps/       @eli",
+  ].join("\n"));
+
+  test("the last matching rule wins", () => {
+    assert.deepEqual(codeownersFor(rules, "README.md"), ["ana"]);
+    assert.deepEqual(codeownersFor(rules, "db/migrations/001.sql"), ["bo"]);
+    assert.deepEqual(codeownersFor(rules, "docs/setup.md"), ["cy"]);
+    assert.deepEqual(codeownersFor(rules, "src/docs/setup.md"), ["ana"]);
+    assert.deepEqual(codeownersFor(rules, "src/billing/invoices/total.ts"), ["dee"]);
+    assert.deepEqual(codeownersFor(rules, "src/billing/index.ts"), ["dee"]);
+    assert.deepEqual(codeownersFor(rules, "services/apps/web/main.ts"), ["eli"]);
+  });
+});
+
+describe("pickReviewers", () => {
+  test("skips people out of office, the PR author and excluded users, with reasons", () => {
+    const result = pick({
+      candidates: [
+        user("ana", { awayUntil: "2026-10-25T00:00:00.000Z" }),
+        user("bo"),
+        user("cy"),
+        user("dee", { awayUntil: "2026-10-01T00:00:00.000Z" }),
+      ],
+      count: 2,
+      exclude: new Map([["cy", "reassigned away"]]),
+      authorLogin: "BO",
+    });
+
+    assert.deepEqual(result.reviewers.map((reviewer) => reviewer.userId), ["dee"]);
+    assert.deepEqual(result.skipped, [
+      { userId: "ana", displayName: "ana", reason: "out of office until 2026-10-25" },
+      { userId: "bo", displayName: "bo", reason: "pull request author" },
+      { userId: "cy", displayName: "cy", reason: "reassigned away" },
+    ]);
+  });
+
+  test("least_loaded prefers code owners, then the fewest pending reviews", () => {
+    const candidates = [user("ana"), user("bo"), user("cy")];
+    const load = new Map([
+      ["ana", { pending: 3, lastAssignedAt: "2026-10-01T00:00:00.000Z" }],
+      ["bo", { pending: 1, lastAssignedAt: "2026-10-17T00:00:00.000Z" }],
+    ]);
+
+    assert.deepEqual(pick({ candidates, load, count: 2 }).reviewers.map((reviewer) => reviewer.userId), ["cy", "bo"]);
+
+    const owned = pick({ candidates, load, ownedFiles: new Map([["ana", 2]]) });
+    assert.deepEqual(owned.reviewers, [{
+      userId: "ana",
+      displayName: "ana",
+      reasons: ["code owner of 2 changed files", "3 pending reviews", "last assigned 2026-10-01"],
+    }]);
+  });
+
+  test("round_robin takes whoever was assigned longest ago", () => {
+    const result = pick({
+      candidates: [user("ana"), user("bo")],
+      strategy: "round_robin",
+      load: new Map([
+        ["ana", { pending: 0, lastAssignedAt: "2026-10-17T00:00:00.000Z" }],
+        ["bo", { pending: 4, lastAssignedAt: "2026-10-10T00:00:00.000Z" }],
+      ]),
+    });
+    assert.deepEqual(result.reviewers, [{ userId: "bo", displayName: "bo", reasons: ["last assigned 2026-10-10"] }]);
+  });
+});
+
+describe("reviewerLoad", () => {
+  test("counts pending assignments and the latest assignment per user", () => {
+    const loads = reviewerLoad([
+      request({ id: "rr-1", assignment: assignment(["ana"], "2026-10-10T00:00:00.000Z") }),
+      request({ id: "rr-2", status: "completed", assignment: assignment(["ana", "bo"], "2026-10-12T00:00:00.000Z") }),
+      request({ id: "rr-3", assignment: assignment(["bo"], "2026-10-11T00:00:00.000Z") }),
+    ], "rr-3");
+
+    assert.deepEqual(loads.get("ana"), { pending: 1, lastAssignedAt: "2026-10-12T00:00:00.000Z" });
+    assert.deepEqual(loads.get("bo"), { pending: 0, lastAssignedAt: "2026-10-12T00:00:00.000Z" });
+  });
+});
+
+// ── Assigner over in-memory stores ──
+
+describe("ReviewerAssigner", () => {
+  const workItem: WorkItemRecord = {
+    id: "wi-1",
+    workflow: "feature_delivery",
+    state: "engineering_review",
+    flags: [],
+    title: "Checkout retries",
+    summary: "",
+    ownerTeamId: "team-1",
+    homeChannelId: "C1",
+    homeThreadTs: "1.0",
+    createdByUserId: "author",
+    repo: "acme/shop",
+    githubPrNumber: 42,
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+  };
+
+  let history: ReviewRequestRecord[];
+  let events: AppendWorkItemEventInput[];
+  let requestedOnGitHub: string[][];
+  let assigner: ReviewerAssigner;
+
+  beforeEach(() => {
+    history = [request({ id: "rr-old", assignment: assignment(["bo"], "2026-10-17T00:00:00.000Z") })];
+    events = [];
+    requestedOnGitHub = [];
+    assigner = new ReviewerAssigner({
+      identity: {
+        listUsersForTeam: async () => [user("ana"), user("bo"), user("cy"), user("author")],
+        listUsersForTeamRole: async () => [],
+      },
+      reviewRequests: {
+        listReviewRequestsAssignedTo: async () => history,
+        setAssignment: async (id, value) => ({ ...request({ id }), assignment: value }),
+      },
+      events: { append: async (input) => { events.push(input); } },
+      github: {
+        getPullRequest: async () => ({ number: 42, url: "", title: "", body: "", state: "open", labels: [], authorLogin: "author", baseRef: "main" }),
+        listPullRequestFiles: async () => ["src/checkout/retry.ts", "README.md"],
+        readFile: async (_repo, filePath) => {
+          if (filePath !== "CODEOWNERS") throw new Error("Not Found");
+          return "* @ana\nsrc/checkout/ @cy\n";
+        },
+        requestPullRequestReviewers: async (_repo, _pr, reviewers) => { requestedOnGitHub.push(reviewers); },
+      },
+      now: () => NOW,
+    });
+  });
+
+  test("assigns a code owner, records why, and requests them on the pull request", async () => {
+    const updated = await assigner.assign(workItem, request(), {
+      policy: { reviewers: 2, strategy: "least_loaded", codeowners: true },
+      requestOnGitHub: true,
+    });
+
+    assert.deepEqual(updated.assignment?.reviewers.map((reviewer) => reviewer.userId), ["ana", "cy"]);
+    assert.deepEqual(updated.assignment?.skipped, [{ userId: "author", displayName: "author", reason: "pull request author" }]);
+    assert.deepEqual(updated.assignment?.reviewers[0]?.reasons, ["code owner of 1 changed file", "0 pending reviews", "not assigned before"]);
+    assert.deepEqual(requestedOnGitHub, [["ana", "cy"]]);
+    assert.deepEqual(events[0], {
+      workItemId: "wi-1",
+      eventType: "review_request.assigned",
+      actorUserId: undefined,
+      payload: { reviewRequestId: "rr-1", strategy: "least_loaded", reviewerUserIds: ["ana", "cy"] },
+    });
+  });
+
+  test("reassignment keeps the other reviewers and replaces the one handing on", async () => {
+    const current = request({ assignment: assignment(["ana", "cy"], "2026-10-18T00:00:00.000Z") });
+    const updated = await assigner.assign(workItem, current, {
+      policy: { reviewers: 2, strategy: "least_loaded", codeowners: false },
+      requestOnGitHub: false,
+      keep: current.assignment!.reviewers.filter((reviewer) => reviewer.userId === "cy"),
+      exclude: new Map([["ana", "reassigned away"]]),
+      reassignedByUserId: "ana",
+    });
+
+    assert.deepEqual(updated.assignment?.reviewers.map((reviewer) => reviewer.userId), ["cy", "bo"]);
+    assert.equal(updated.assignment?.reassignedByUserId, "ana");
+    assert.equal(events[0]?.eventType, "review_request.reassigned");
+    assert.deepEqual(requestedOnGitHub, []);
+  });
+
+  test("leaves the request unassigned when nobody is available", async () => {
+    const unchanged = request();
+    const result = await assigner.assign(workItem, unchanged, {
+      policy: { reviewers: 1, strategy: "round_robin", codeowners: true },
+      requestOnGitHub: true,
+      exclude: new Map([["ana", "reassigned away"], ["bo", "reassigned away"], ["cy", "reassigned away"]]),
+    });
+    assert.equal(result, unchanged);
+    assert.deepEqual(events, []);
+  });
+});
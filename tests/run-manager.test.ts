@@ -1,10 +1,15 @@
 import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import test from "node:test";
 import { RunManager, classifyError } from "../src/run-manager.js";
 import { RunStore } from "../src/store.js";
 import type { AppConfig } from "../src/config.js";
 import type { RuntimeRegistry } from "../src/runtime/backend.js";
 import type { RunRecord, ExecutionResult } from "../src/types.js";
+import { RunCheckpointStore } from "../src/runs/run-checkpoint-store.js";
+import type { PipelineResumeState } from "../src/pipeline/types.js";
 import { createTestDb, type TestDb } from "./helpers/test-db.js";
 
 // ── Mock factories ─────────────────────────────────────
@@ -1023,6 +1028,227 @@ test("retryRun returns undefined for non-existent run", async () => {
   await testDb.cleanup();
 });
 
+// ── resumeRun ──────────────────────────────────────────
+
+test("resumeRun refuses runs that did not fail or get cancelled", async () => {
+  const { store, testDb } = await setupTestStore();
+  const config = makeConfig();
+  const manager = new RunManager(config, store, makeMockPipelineEngine(), makeMockSlackClient() as any);
+
+  const run = await manager.enqueueRun({
+    repoSlug: "org/repo",
+    task: "completed task",
+    baseBranch: "main",
+    requestedBy: "U1234",
+    channelId: "C1234",
+    threadTs: "1234567890.000000",
+    runtime: config.sandboxRuntime
+  });
+  await waitForRunDone(store, run.id);
+
+  const result = await manager.resumeRun(run.id, "U5678");
+  assert.equal(result.ok, false);
+  assert.match(!result.ok ? result.error : "", /Can only resume failed or cancelled runs/);
+
+  await store.updateRun(run.id, { status: "failed", phase: "failed", error: "boom" });
+  const noSnapshots = await manager.resumeRun(run.id, "U5678");
+  assert.equal(noSnapshots.ok, false, "resume needs a checkpoint store with snapshots");
+
+  await testDb.cleanup();
+});
+
+test("concurrent resume requests queue the run only once", async (t) => {
+  const { store, testDb } = await setupTestStore();
+  const workRoot = await mkdtemp(path.join(os.tmpdir(), "rm-resume-"));
+  t.after(async () => {
+    await rm(workRoot, { recursive: true, force: true });
+    await testDb.cleanup();
+  });
+  const config = makeConfig({ workRoot });
+  const checkpoints = new RunCheckpointStore(testDb.db);
+  let executions = 0;
+  const execute: RuntimeRegistry["local"] = {
+    runtime: "local",
+    execute: async (_run, { onCheckpoint, resume }) => {
+      executions += 1;
+      if (resume) {
+        return { branchName: "testherd/test-branch", logsPath: path.join(workRoot, "run.log"), commitSha: "", changedFiles: [] };
+      }
+      await onCheckpoint?.({
+        checkpointKey: "pipeline_snapshot:notify:1",
+        checkpointType: "run.pipeline_snapshot",
+        payload: { pipelineId: "pipeline", nextNodeId: "notify", completedSteps: [], context: {}, nodeResults: {} },
+      });
+      throw new Error("notify failed");
+    },
+  };
+  const manager = new RunManager(config, store, { local: execute, docker: undefined, kubernetes: undefined },
+    makeMockSlackClient() as any, undefined, undefined, undefined, undefined, checkpoints);
+
+  const run = await manager.enqueueRun({
+    repoSlug: "org/repo",
+    task: "resumable task",
+    baseBranch: "main",
+    requestedBy: "U1234",
+    channelId: "C1234",
+    threadTs: "1234567890.000000",
+    runtime: config.sandboxRuntime,
+  });
+  await waitForRunDone(store, run.id);
+  await mkdir(path.join(workRoot, run.id, "repo"), { recursive: true });
+
+  const results = await Promise.all([manager.resumeRun(run.id, "U5678"), manager.resumeRun(run.id, "U9999")]);
+  assert.deepEqual(results.map((result) => result.ok).sort(), [false, true]);
+  await waitForRunDone(store, run.id);
+
+  assert.equal(executions, 2);
+  assert.equal((await checkpoints.listOfType(run.id, "run.resume_requested")).length, 1);
+});
+
+// ── approval gate ──────────────────────────────────────
+
+test("a run parked at an approval gate resumes from the gate once approved", async () => {
+  const { store, testDb } = await setupTestStore();
+  const mockClient = makeMockSlackClient();
+  const config = makeConfig();
+  const resumes: Array<PipelineResumeState | undefined> = [];
+  const execute: RuntimeRegistry["local"] = {
+    runtime: "local",
+    execute: async (_run, { onCheckpoint, resume }) => {
+      resumes.push(resume);
+      const base = {
+        branchName: "testherd/test-branch",
+        logsPath: "/tmp/test-work/test-run/run.log",
+        commitSha: "",
+        changedFiles: ["src/index.ts"],
+      } satisfies ExecutionResult;
+      if (resume) return base;
+      await onCheckpoint?.({
+        checkpointKey: "pipeline_snapshot:human_review:1",
+        checkpointType: "run.pipeline_snapshot",
+        payload: { pipelineId: "pipeline", nextNodeId: "human_review", completedSteps: [], context: { taskType: "bugfix" }, nodeResults: {} },
+      });
+      return {
+        ...base,
+        approvalRequest: { nodeId: "human_review", changedFiles: ["src/index.ts"], gateReport: [], loopBackTo: "implement" },
+      };
+    },
+  };
+  const manager = new RunManager(
+    config, store, { local: execute, docker: undefined, kubernetes: undefined }, mockClient as any,
+    undefined, undefined, undefined, undefined, new RunCheckpointStore(testDb.db)
+  );
+
+  const run = await manager.enqueueRun({
+    repoSlug: "org/repo",
+    task: "gated task",
+    baseBranch: "main",
+    requestedBy: "U1234",
+    channelId: "C1234",
+    threadTs: "1234567890.000000",
+    runtime: config.sandboxRuntime,
+  });
+  await waitForRunStatus(store, run.id, "awaiting_approval");
+
+  const approvalPost = mockClient._calls.find((call) => String(call.args["text"]).includes("Approval needed"));
+  assert.ok(approvalPost, "should post the approval request in the thread");
+  assert.match(JSON.stringify(approvalPost!.args["blocks"]), /run_approval_approve/);
+  assert.equal((await manager.getApprovalRequest(run.id))?.nodeId, "human_review");
+
+  const noNote = await manager.decideApproval(run.id, "changes_requested", "U5678");
+  assert.equal(noNote.ok, false, "requesting changes needs a note");
+
+  // Two reviewers click at once: only one decision takes effect
+  const decisions = await Promise.all([
+    manager.decideApproval(run.id, "approved", "U5678"),
+    manager.decideApproval(run.id, "approved", "U9999"),
+  ]);
+  assert.deepEqual(decisions.map((decision) => decision.ok).sort(), [false, true]);
+  await waitForRunDone(store, run.id);
+  const decided = await new RunCheckpointStore(testDb.db).listOfType(run.id, "run.approval_decided");
+  assert.equal(decided.length, 1);
+
+  assert.equal((await store.getRun(run.id))?.status, "completed");
+  assert.equal(resumes[1]?.fromNodeId, "human_review");
+  assert.equal(resumes[1]?.context["approvalDecision"], "approved");
+  assert.equal(resumes[1]?.context["taskType"], "bugfix");
+
+  const again = await manager.decideApproval(run.id, "approved", "U5678");
+  assert.equal(again.ok, false);
+
+  await testDb.cleanup();
+});
+
+test("a queued resume request is picked up by the next orchestrator process", async () => {
+  const { store, testDb } = await setupTestStore();
+  const config = makeConfig();
+  const checkpoints = new RunCheckpointStore(testDb.db);
+  const resumes: Array<PipelineResumeState | undefined> = [];
+  const execute: RuntimeRegistry["local"] = {
+    runtime: "local",
+    execute: async (_run, { onCheckpoint, resume }) => {
+      resumes.push(resume);
+      const base = {
+        branchName: "testherd/test-branch",
+        logsPath: "/tmp/test-work/test-run/run.log",
+        commitSha: "",
+        changedFiles: [],
+      } satisfies ExecutionResult;
+      if (resume) return base;
+      await onCheckpoint?.({
+        checkpointKey: "pipeline_snapshot:validate:1",
+        checkpointType: "run.pipeline_snapshot",
+        payload: { pipelineId: "pipeline", nextNodeId: "validate", completedSteps: [], context: { taskType: "bugfix" }, nodeResults: {} },
+      });
+      await onCheckpoint?.({
+        checkpointKey: "pipeline_snapshot:notify:2",
+        checkpointType: "run.pipeline_snapshot",
+        payload: {
+          pipelineId: "pipeline", nextNodeId: "notify", completedSteps: [], context: { commitSha: "abc" }, nodeResults: {},
+          baseCheckpointKey: "pipeline_snapshot:validate:1", skipNodeIds: ["browser_verify"],
+        },
+      });
+      throw new Error("notify failed");
+    },
+  };
+  const registry = { local: execute, docker: undefined, kubernetes: undefined };
+  const first = new RunManager(config, store, registry, makeMockSlackClient() as any,
+    undefined, undefined, undefined, undefined, checkpoints);
+
+  const run = await first.enqueueRun({
+    repoSlug: "org/repo",
+    task: "resumable task",
+    baseBranch: "main",
+    requestedBy: "U1234",
+    channelId: "C1234",
+    threadTs: "1234567890.000000",
+    runtime: config.sandboxRuntime,
+  });
+  await waitForRunDone(store, run.id);
+
+  // The request was recorded, but the process stopped before running it
+  await checkpoints.emit({
+    runId: run.id,
+    checkpointKey: "resume_requested:notify:3",
+    checkpointType: "run.resume_requested",
+    payload: { fromNodeId: "notify", snapshotCheckpointKey: "pipeline_snapshot:notify:2", requestedBy: "U5678" },
+  });
+  await store.updateRun(run.id, { status: "queued", phase: "queued" });
+
+  const restarted = new RunManager(config, store, registry, makeMockSlackClient() as any,
+    undefined, undefined, undefined, undefined, checkpoints);
+  restarted.requeueExistingRun(run.id);
+  await waitForRunDone(store, run.id);
+
+  assert.equal((await store.getRun(run.id))?.status, "completed");
+  assert.equal(resumes[1]?.fromNodeId, "notify");
+  assert.deepEqual(resumes[1]?.context, { taskType: "bugfix", commitSha: "abc" });
+  assert.deepEqual(resumes[1]?.skipNodeIds, ["browser_verify"]);
+  assert.ok(await checkpoints.hasCheckpoint(run.id, "resume_started:resume_requested:notify:3"));
+
+  await testDb.cleanup();
+});
+
 // ── continueRun ────────────────────────────────────────
 
 test("continueRun creates a chained run with parentRunId", async () => {
@@ -2,6 +2,7 @@ import assert from "node:assert/strict";
 import test from "node:test";
 import { modelPrices, runs, teams, users } from "../src/db/schema.js";
 import { mapPhaseToRunStatus, RunStore } from "../src/store.js";
+import { RunCheckpointStore } from "../src/runs/run-checkpoint-store.js";
 import { WorkItemStore } from "../src/work-items/store.js";
 import { createTestDb } from "./helpers/test-db.js";
 
@@ -396,6 +397,55 @@ test("RunStore falls back to linked work item PR metadata when run fields are em
   assert.equal(listed?.prNumber, 77);
 });
 
+test("RunStore lists the commits pushed by runs linked to work items", async (t) => {
+  const testDb = await createTestDb();
+  t.after(testDb.cleanup);
+
+  const store = new RunStore(testDb.db);
+  await store.init();
+  const workItemId = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+  const newRun = (task: string, linkedWorkItemId?: string) => store.createRun(
+    {
+      repoSlug: "owner/repo",
+      task,
+      baseBranch: "main",
+      requestedBy: "work-item:auto-review",
+      channelId: "C_STORE_TEST",
+      threadTs: "1740000000.900",
+      workItemId: linkedWorkItemId,
+    },
+    "gooseherd"
+  );
+
+  const checkpoints = new RunCheckpointStore(testDb.db);
+  const recordPush = (runId: string, commitSha: string) => checkpoints.emit({
+    runId,
+    checkpointKey: `commit_pushed:${commitSha}`,
+    checkpointType: "run.commit_pushed",
+    payload: { nodeId: "fix_ci", commitSha },
+  });
+
+  // A CI fix loop pushes twice; the run keeps only the last SHA.
+  const pushed = await newRun("pushed a fix", workItemId);
+  await recordPush(pushed.id, "sha-1a");
+  await recordPush(pushed.id, "sha-1b");
+  await store.updateRun(pushed.id, { commitSha: "sha-1b" });
+  const legacy = await newRun("pushed before push checkpoints", workItemId);
+  await store.updateRun(legacy.id, { commitSha: "sha-legacy" });
+  await newRun("no commit yet", workItemId);
+  const unlinked = await newRun("unrelated run");
+  await recordPush(unlinked.id, "sha-2");
+  await store.updateRun(unlinked.id, { commitSha: "sha-2" });
+
+  const listed = await store.listCommitShasForWorkItems([workItemId]);
+  assert.deepEqual(
+    listed.map((row) => row.commitSha).sort(),
+    ["sha-1a", "sha-1b", "sha-legacy"],
+  );
+  assert.ok(listed.every((row) => row.workItemId === workItemId));
+  assert.deepEqual(await store.listCommitShasForWorkItems([]), []);
+});
+
 test("listRuns returns newest first and feedback is saved", async (t) => {
   const { store, cleanup } = await createStore();
   t.after(cleanup);
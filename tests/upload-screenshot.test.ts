@@ -194,7 +194,12 @@ describe("uploadScreenshotNode", () => {
     ctx.set("screenshotPath", screenshotFile);
     ctx.set("videoPath", videoFile);
     ctx.set("prNumber", 42);
-    const deps = makeDeps({ githubService: mockGithub as any, run });
+    const checkpoints: Array<{ checkpointKey: string; payload?: Record<string, unknown> }> = [];
+    const deps = makeDeps({
+      githubService: mockGithub as any,
+      run,
+      emitRunCheckpoint: async (checkpoint) => { checkpoints.push(checkpoint); },
+    });
 
     const result = await uploadScreenshotNode(makeNodeConfig(), ctx, deps);
 
@@ -206,6 +211,11 @@ describe("uploadScreenshotNode", () => {
     assert.ok(updatedPrBody?.body.includes("/blob/video-sha/"), "PR should link to GitHub blob player URL");
     assert.ok(updatedPrBody?.body.includes("/raw/video-sha/"), "PR should keep raw URL for embed source");
     assert.equal(ctx.get("commitSha"), "video-sha", "commitSha should track latest media commit");
+    assert.deepEqual(
+      checkpoints.map((checkpoint) => checkpoint.payload?.["commitSha"]),
+      ["screenshot-sha", "video-sha"],
+      "both media commits should be recorded as pushed by the run"
+    );
 
     await rm(tmpDir, { recursive: true });
   });
@@ -5,6 +5,7 @@ import { eq } from "drizzle-orm";
 import { createTestDb } from "./helpers/test-db.js";
 import { orgRoleAssignments, reviewRequestComments, teamMembers, teams, users, workItems, reviewRequests, workItemEvents } from "../src/db/schema.js";
 import { WorkItemService } from "../src/work-items/service.js";
+import { loadWorkflowDefinitions, registerWorkflowDefinitions } from "../src/work-items/workflow-definition.js";
 import { RunStore } from "../src/store.js";
 
 function slackUserActor(userId: string, sessionId = "slack-session-1") {
@@ -33,6 +34,7 @@ function adminSessionActor(sessionId = "admin-session-1") {
 }
 
 async function createServiceFixture(options: {
+  qaPreparationHandler?: (workItem: { id: string; state: string }) => Promise<void> | void;
   readyForMergeHandler?: (workItem: { id: string; state: string }) => Promise<void> | void;
 } = {}) {
   const testDb = await createTestDb();
@@ -68,6 +70,7 @@ async function createServiceFixture(options: {
     db: testDb.db,
     cleanup: testDb.cleanup,
     service: new WorkItemService(testDb.db, {
+      qaPreparationHandler: options.qaPreparationHandler,
       readyForMergeHandler: options.readyForMergeHandler,
     }),
     pmUserId,
@@ -262,6 +265,108 @@ test("service enforces target-aware authorization for review responses", async (
   assert.equal(comments[0]?.body, "Approved by the correct reviewer");
 });
 
+test("service advances a stage when its review request is approved by a target", async (t) => {
+  const entered: string[] = [];
+  const { db, cleanup, service, pmUserId, reviewerUserId, outsiderUserId, ownerTeamId } = await createServiceFixture({
+    qaPreparationHandler: async (workItem) => {
+      entered.push(workItem.state);
+    },
+  });
+  t.after(cleanup);
+  const [security] = (await loadWorkflowDefinitions("workflows")).filter((definition) => definition.id === "security-review");
+  registerWorkflowDefinitions([{ ...security!, teams: ["growth"] }]);
+  t.after(() => registerWorkflowDefinitions([]));
+  await db.insert(orgRoleAssignments).values({ userId: reviewerUserId, orgRole: "security" });
+  await db.update(users).set({ githubLogin: "sec-eng" }).where(eq(users.id, reviewerUserId));
+  await db.update(users).set({ githubLogin: "outsider" }).where(eq(users.id, outsiderUserId));
+
+  const delivery = await service.createDeliveryFromPullRequest({
+    title: "Rotate session keys",
+    ownerTeamId,
+    homeChannelId: "C_GROWTH",
+    homeThreadTs: "1740000000.370",
+    createdByUserId: pmUserId,
+    repo: "acme/shop",
+    githubPrNumber: 7,
+  });
+  assert.equal(delivery.workflowDefinitionId, "security-review");
+  const [inSecurity] = await db
+    .update(workItems)
+    .set({ state: "security_review", substate: "waiting_security_review", flags: ["self_review_done", "ci_green", "engineering_review_done"] })
+    .where(eq(workItems.id, delivery.id))
+    .returning();
+  const request = await service.requestStageReview({ ...delivery, state: inSecurity!.state, flags: inSecurity!.flags }, "security_review");
+  assert.ok(request);
+
+  const current = (await service.getWorkItem(delivery.id))!;
+  assert.equal(await service.findStageReviewRequestForGitHubReviewer(current, "outsider"), undefined);
+  assert.equal((await service.findStageReviewRequestForGitHubReviewer(current, "sec-eng"))?.id, request.id);
+  await assert.rejects(() => service.recordReviewOutcome({
+    reviewRequestId: request.id,
+    outcome: "approved",
+    actor: slackUserActor(outsiderUserId),
+  }), /not authorized/i);
+
+  const approved = await service.recordReviewOutcome({
+    reviewRequestId: request.id,
+    outcome: "approved",
+    actor: slackUserActor(reviewerUserId),
+    source: "slack",
+  });
+  assert.equal(approved.state, "qa_preparation");
+  assert.ok(approved.flags.includes("security_review_done"));
+  assert.deepEqual(entered, ["qa_preparation"]);
+
+  const [completed] = await db.select().from(reviewRequests).where(eq(reviewRequests.id, request.id));
+  assert.equal(completed?.status, "completed");
+  await assert.rejects(() => service.recordReviewOutcome({
+    reviewRequestId: request.id,
+    outcome: "approved",
+    actor: slackUserActor(reviewerUserId),
+  }), /no longer pending/);
+});
+
+test("service expires a stage review into onNoResponse through the reducer", async (t) => {
+  const entered: string[] = [];
+  const { db, cleanup, service, pmUserId, ownerTeamId } = await createServiceFixture({
+    qaPreparationHandler: async (workItem) => {
+      entered.push(workItem.state);
+    },
+  });
+  t.after(cleanup);
+  const [security] = (await loadWorkflowDefinitions("workflows")).filter((definition) => definition.id === "security-review");
+  registerWorkflowDefinitions([{
+    ...security!,
+    teams: ["growth"],
+    states: security!.states.map((state) => state.name === "security_review"
+      ? { ...state, reviewSla: { ...state.reviewSla!, onNoResponse: "qa_preparation" } }
+      : state),
+  }]);
+  t.after(() => registerWorkflowDefinitions([]));
+
+  const delivery = await service.createDeliveryFromPullRequest({
+    title: "Rotate session keys",
+    ownerTeamId,
+    homeChannelId: "C_GROWTH",
+    homeThreadTs: "1740000000.380",
+    createdByUserId: pmUserId,
+  });
+  await db
+    .update(workItems)
+    .set({ state: "security_review", substate: "waiting_security_review", flags: ["engineering_review_done"] })
+    .where(eq(workItems.id, delivery.id));
+  const request = await service.requestStageReview({ ...delivery, state: "security_review" }, "security_review");
+
+  const expired = await service.expireReviewRequest({ reviewRequestId: request!.id, onNoResponse: "qa_preparation" });
+  assert.equal(expired?.state, "qa_preparation");
+  assert.equal(expired?.substate, "preparing_review_app");
+  assert.deepEqual(entered, ["qa_preparation"]);
+
+  const [completed] = await db.select().from(reviewRequests).where(eq(reviewRequests.id, request!.id));
+  assert.equal(completed?.outcome, "no_response");
+  assert.equal(await service.expireReviewRequest({ reviewRequestId: request!.id, onNoResponse: "qa_preparation" }), undefined);
+});
+
 test("service rejects unauthorized override actors but allows org-role admins", async (t) => {
   const { cleanup, service, pmUserId, outsiderUserId, adminUserId, ctoUserId, ownerTeamId } = await createServiceFixture();
   t.after(cleanup);
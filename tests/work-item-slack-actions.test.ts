@@ -7,10 +7,13 @@ import { createTestDb } from "./helpers/test-db.js";
 import { WorkItemStore } from "../src/work-items/store.js";
 import { ReviewRequestStore } from "../src/work-items/review-request-store.js";
 import { WorkItemIdentityStore } from "../src/work-items/identity-store.js";
+import { WorkItemService } from "../src/work-items/service.js";
 import {
+  parseWorkItemSlackActionValue,
   postWorkItemReviewNotifications,
   resolveReviewRequestDestinations,
 } from "../src/work-items/slack-actions.js";
+import { loadWorkflowDefinitions, registerWorkflowDefinitions } from "../src/work-items/workflow-definition.js";
 
 function makeConfig(): AppConfig {
   return {
@@ -311,3 +314,79 @@ test("postWorkItemReviewNotifications sends home-thread note and target-aware Sl
     await fixture.cleanup();
   }
 });
+
+test("an assigned reviewer's Slack approval advances the stage", async () => {
+  const fixture = await seedIdentityFixture();
+  const [security] = (await loadWorkflowDefinitions("workflows")).filter((definition) => definition.id === "security-review");
+  registerWorkflowDefinitions([{
+    ...security!,
+    teams: ["growth"],
+    states: security!.states.map((state) => state.name === "engineering_review"
+      ? {
+          ...state,
+          review: {
+            ...state.review!,
+            request: {
+              type: "review",
+              targetType: "team_role",
+              targetRef: { role: "engineer" },
+              title: "Engineering review",
+              assign: { reviewers: 1, strategy: "least_loaded", codeowners: false },
+            },
+          },
+        }
+      : state),
+  }]);
+  const dms: Array<{ channel: string; blocks?: Array<{ type: string; elements?: Array<{ action_id?: string; value?: string }> }> }> = [];
+
+  try {
+    const workItem = await new WorkItemStore(fixture.db).createWorkItem({
+      workflow: "feature_delivery",
+      state: "engineering_review",
+      title: "Rotate session keys",
+      ownerTeamId: fixture.ownerTeamId,
+      homeChannelId: "C_HOME",
+      homeThreadTs: "1740000000.222",
+      createdByUserId: fixture.users.createdByUserId,
+    });
+    const fakeClient = {
+      chat: {
+        postMessage: async (payload: (typeof dms)[number]) => {
+          if (payload.channel.startsWith("D_")) dms.push(payload);
+          return {};
+        },
+      },
+      conversations: {
+        open: async ({ users: slackUserId }: { users: string }) => ({ channel: { id: `D_${slackUserId}` } }),
+      },
+    };
+    const service = new WorkItemService(fixture.db, {
+      notifyReviewRequests: (item, requests) =>
+        postWorkItemReviewNotifications(fakeClient as never, makeConfig(), fixture.identityStore, item, requests),
+    });
+
+    const request = await service.requestStageReview(workItem, "engineering_review");
+    assert.deepEqual(request?.assignment?.reviewers.map((reviewer) => reviewer.userId), [fixture.users.directReviewerId]);
+    assert.deepEqual(dms.map((dm) => dm.channel), ["D_U_DEV"]);
+
+    const approve = dms[0]!.blocks!
+      .flatMap((block) => block.elements ?? [])
+      .find((element) => element.action_id === "work_item_review_approve");
+    const payload = parseWorkItemSlackActionValue(approve?.value);
+    assert.equal(payload?.reviewRequestId, request!.id);
+
+    const updated = await service.recordReviewOutcome({
+      reviewRequestId: payload!.reviewRequestId,
+      outcome: "approved",
+      actor: { principalType: "user", userId: fixture.users.directReviewerId, authMethod: "slack" },
+      comment: "Approved from Slack",
+      source: "slack",
+    });
+    assert.equal(updated.state, "security_review");
+    assert.ok(updated.flags.includes("engineering_review_done"));
+    assert.equal((await fixture.reviewRequestStore.getReviewRequest(request!.id))?.status, "completed");
+  } finally {
+    registerWorkflowDefinitions([]);
+    await fixture.cleanup();
+  }
+});
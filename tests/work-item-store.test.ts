@@ -106,8 +106,9 @@ test("work item stores persist work item state, review requests, comments, and e
     resolvedAt: "2026-04-11T12:00:00.000Z",
   });
 
-  assert.equal(completed.status, "completed");
-  assert.equal(completed.outcome, "approved");
+  assert.equal(completed?.status, "completed");
+  assert.equal(completed?.outcome, "approved");
+  assert.equal(await reviewRequests.completeReviewRequest(reviewRequest.id, { outcome: "changes_requested" }), undefined);
 
   await reviewRequests.addComment({
     reviewRequestId: reviewRequest.id,
@@ -314,6 +315,42 @@ test("work item store lists branch sync candidates without terminal work items",
   assert.deepEqual(listed.map((workItem) => workItem.id), [paused.id, active.id]);
 });
 
+test("work item store lists feature deliveries by team, repo and creation time", async (t) => {
+  const { db, cleanup, workItems, ownerUserId, ownerTeamId } = await createStores();
+  t.after(cleanup);
+
+  const otherTeamId = randomUUID();
+  await db.insert(teams).values({ id: otherTeamId, name: "growth", slackChannelId: "C_TEAM_2" });
+  const create = (title: string, overrides: { workflow?: "feature_delivery" | "product_discovery"; repo?: string; ownerTeamId?: string } = {}) =>
+    workItems.createWorkItem({
+      workflow: overrides.workflow ?? "feature_delivery",
+      state: overrides.workflow === "product_discovery" ? "backlog" : "auto_review",
+      title,
+      summary: "",
+      ownerTeamId: overrides.ownerTeamId ?? ownerTeamId,
+      homeChannelId: "C_TEAM_1",
+      homeThreadTs: `1740000000.${title.length}`,
+      createdByUserId: ownerUserId,
+      repo: overrides.repo ?? "acme/shop",
+    });
+
+  const matching = await create("Matching");
+  const old = await create("Created long ago");
+  await db.update(workItemsTable).set({ createdAt: new Date("2020-01-01T00:00:00.000Z") }).where(eq(workItemsTable.id, old.id));
+  await create("Other repo", { repo: "acme/api" });
+  await create("Other team", { ownerTeamId: otherTeamId });
+  await create("Discovery", { workflow: "product_discovery" });
+
+  const listed = await workItems.listFeatureDeliveryWorkItems({
+    ownerTeamId,
+    repo: "acme/shop",
+    createdFrom: new Date("2025-01-01T00:00:00.000Z"),
+    createdBefore: new Date(Date.now() + 60_000),
+  });
+  assert.deepEqual(listed.map((workItem) => workItem.id), [matching.id]);
+  assert.equal((await workItems.listFeatureDeliveryWorkItems()).length, 4);
+});
+
 test("work item store preserves repo on create and read", async (t) => {
   const { cleanup, workItems, ownerUserId, ownerTeamId } = await createStores();
   t.after(cleanup);
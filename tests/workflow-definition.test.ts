@@ -0,0 +1,330 @@
+/**
+ * Tests for declarative work item workflows — parsing, team selection, and the
+ * reducer and transition policy interpreting a custom definition.
+ */
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, test } from "node:test";
+import { reduceFeatureDelivery } from "../src/work-items/feature-delivery-reducer.js";
+import type { WorkItemRecord } from "../src/work-items/types.js";
+import {
+  FEATURE_DELIVERY_WORKFLOW,
+  WorkflowDefinitionLoadError,
+  assertPinnedWorkflowDefinitionsRegistered,
+  loadWorkflowDefinitions,
+  parseWorkflowDefinition,
+  registerWorkflowDefinitions,
+  selectWorkflowDefinitionForTeam,
+  stagePathAfterAutoReview,
+  workflowDefinitionFor,
+  type WorkflowDefinition,
+} from "../src/work-items/workflow-definition.js";
+import { assertStateTransitionAllowed } from "../src/work-items/workflow-policy.js";
+
+const SECURITY_WORKFLOW_FILE = path.resolve("workflows/security-review.workflow.yml");
+
+async function loadSecurityWorkflow(teams: string[] = ["payments"]): Promise<WorkflowDefinition> {
+  const [definition] = (await loadWorkflowDefinitions(path.dirname(SECURITY_WORKFLOW_FILE)))
+    .filter((candidate) => candidate.id === "security-review");
+  assert.ok(definition, "workflows/security-review.workflow.yml should load");
+  return { ...definition, teams };
+}
+
+function workItem(input: { state: WorkItemRecord["state"]; flags?: string[]; workflowDefinitionId?: string }): WorkItemRecord {
+  return {
+    id: "wi-1",
+    workflow: "feature_delivery",
+    workflowDefinitionId: input.workflowDefinitionId,
+    state: input.state,
+    substate: "waiting_ci",
+    flags: input.flags ?? [],
+    title: "Checkout retries",
+    summary: "",
+    ownerTeamId: "team-1",
+    homeChannelId: "C1",
+    homeThreadTs: "1.1",
+    createdByUserId: "user-1",
+    createdAt: "2026-10-18T00:00:00.000Z",
+    updatedAt: "2026-10-18T00:00:00.000Z",
+  };
+}
+
+function minimal(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    kind: "work_item_workflow",
+    id: "lean",
+    workflow: "feature_delivery",
+    states: [
+      { name: "backlog", transitions: ["in_progress"] },
+      { name: "in_progress", transitions: ["auto_review"] },
+      { name: "auto_review", transitions: ["ready_for_merge", "done"] },
+      { name: "ready_for_merge", stage: true, runIntent: "feature_delivery.finalize_pr", transitions: ["done"] },
+      { name: "done", transitions: [] },
+      { name: "cancelled", transitions: [] },
+    ],
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  registerWorkflowDefinitions([]);
+});
+
+// ═══════════════════════════════════════════════════════
+
+describe("parseWorkflowDefinition", () => {
+  test("accepts a minimal feature delivery workflow", () => {
+    const definition = parseWorkflowDefinition(minimal({ teams: ["platform"] }));
+    assert.equal(definition.id, "lean");
+    assert.deepEqual(definition.teams, ["platform"]);
+    assert.deepEqual(stagePathAfterAutoReview(definition, { flags: [] }), ["ready_for_merge"]);
+  });
+
+  test("rejects definitions the services cannot drive", () => {
+    const states = minimal()["states"] as Array<Record<string, unknown>>;
+    const cases: Array<[Record<string, unknown>, RegExp]> = [
+      [minimal({ workflow: "ops" }), /workflow must be/],
+      [minimal({ states: states.filter((state) => state["name"] !== "auto_review") }), /must define state auto_review/],
+      [minimal({ states: [...states, { name: "qa_review", transitions: ["shipped"] }] }), /unknown state shipped/],
+      [
+        minimal({ states: [...states, { name: "deploy", stage: true, runIntent: "feature_delivery.qa_preparation", transitions: [] }] }),
+        /can only be launched from state qa_preparation/,
+      ],
+      [
+        minimal({
+          states: [...states, { name: "legal", stage: true, review: { doneFlag: "legal_done", approvedBy: ["label"] }, transitions: [] }],
+        }),
+        /label approvals only set/,
+      ],
+      [minimal({ states: [...states, { name: "legal", review: { doneFlag: "legal_done" }, transitions: [] }] }), /require stage: true/],
+      [
+        minimal({ states: [...states, { name: "legal", reviewSla: { respondWithinHours: 24 }, transitions: [] }] }),
+        /reviewSla needs a state that creates review requests/,
+      ],
+      [
+        minimal({
+          states: [...states, {
+            name: "legal",
+            stage: true,
+            review: { doneFlag: "legal_done", request: { targetType: "team", title: "Legal" } },
+            reviewSla: { respondWithinHours: 24, expireAfterHours: 12 },
+            transitions: [],
+          }],
+        }),
+        /expireAfterHours must come after/,
+      ],
+      [
+        minimal({
+          states: [...states, {
+            name: "legal",
+            stage: true,
+            review: { doneFlag: "legal_done", request: { targetType: "team", title: "Legal" } },
+            reviewSla: { respondWithinHours: 24, expireAfterHours: 48, onNoResponse: "done" },
+            transitions: ["auto_review"],
+          }],
+        }),
+        /onNoResponse done is not a transition/,
+      ],
+      [
+        minimal({
+          states: [...states, {
+            name: "legal",
+            stage: true,
+            review: {
+              doneFlag: "legal_done",
+              request: { targetType: "org_role", targetRef: { role: "legal" }, title: "Legal", assign: { reviewers: 1 } },
+            },
+            transitions: [],
+          }],
+        }),
+        /assign needs a team or team_role target/,
+      ],
+    ];
+    for (const [raw, message] of cases) {
+      assert.throws(() => parseWorkflowDefinition(raw), (error: unknown) => {
+        assert.ok(error instanceof WorkflowDefinitionLoadError);
+        assert.match(error.message, message);
+        return true;
+      });
+    }
+  });
+});
+
+describe("loadWorkflowDefinitions", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  test("loads work item workflows and ignores other workflow YAML", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "workflows-"));
+    await writeFile(path.join(dir, "lean.workflow.yml"), JSON.stringify(minimal()));
+    await writeFile(path.join(dir, "team-process.workflow.yml"), "name: agents\nstages: []\n");
+    await writeFile(path.join(dir, "notes.yml"), "kind: work_item_workflow\n");
+
+    const definitions = await loadWorkflowDefinitions(dir);
+    assert.deepEqual(definitions.map((definition) => definition.id), ["lean"]);
+    assert.deepEqual(await loadWorkflowDefinitions(path.join(dir, "missing")), []);
+  });
+
+  test("reports the file of an invalid definition", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "workflows-"));
+    await writeFile(path.join(dir, "broken.workflow.yml"), "kind: work_item_workflow\nid: broken\n");
+    await assert.rejects(loadWorkflowDefinitions(dir), /broken: workflow must be/);
+  });
+});
+
+describe("team selection", () => {
+  test("teams pick a custom definition by name or id; others keep the built-in", async () => {
+    const security = await loadSecurityWorkflow(["payments", "team-9"]);
+    registerWorkflowDefinitions([security]);
+
+    assert.equal(selectWorkflowDefinitionForTeam("feature_delivery", { id: "team-1", name: "payments" })?.id, "security-review");
+    assert.equal(selectWorkflowDefinitionForTeam("feature_delivery", { id: "team-9" })?.id, "security-review");
+    assert.equal(selectWorkflowDefinitionForTeam("feature_delivery", { id: "team-2", name: "growth" }), undefined);
+    assert.equal(selectWorkflowDefinitionForTeam("product_discovery", { id: "team-1", name: "payments" }), undefined);
+
+    assert.equal(workflowDefinitionFor({ workflow: "feature_delivery", workflowDefinitionId: "security-review" }).id, "security-review");
+    assert.equal(workflowDefinitionFor({ workflow: "feature_delivery" }), FEATURE_DELIVERY_WORKFLOW);
+    assert.throws(
+      () => workflowDefinitionFor({ workflow: "feature_delivery", workflowDefinitionId: "retired" }),
+      /retired is not registered for feature_delivery/,
+    );
+  });
+
+  test("pinned ids must all be registered", async () => {
+    registerWorkflowDefinitions([await loadSecurityWorkflow()]);
+    assert.doesNotThrow(() => assertPinnedWorkflowDefinitionsRegistered([
+      { workflow: "feature_delivery", workflowDefinitionId: "security-review" },
+    ]));
+    assert.throws(
+      () => assertPinnedWorkflowDefinitionsRegistered([
+        { workflow: "feature_delivery", workflowDefinitionId: "security-review" },
+        { workflow: "product_discovery", workflowDefinitionId: "security-review" },
+        { workflow: "feature_delivery", workflowDefinitionId: "retired" },
+      ]),
+      /unregistered workflow definitions: security-review \(product_discovery\), retired \(feature_delivery\)/,
+    );
+  });
+
+  test("a team cannot select two definitions for the same workflow", async () => {
+    const security = await loadSecurityWorkflow(["payments"]);
+    assert.throws(
+      () => registerWorkflowDefinitions([security, { ...security, id: "security-lite" }]),
+      /Team payments selects both security-review and security-lite/,
+    );
+    assert.throws(() => registerWorkflowDefinitions([{ ...security, id: "feature_delivery" }]), /Duplicate workflow definition id/);
+  });
+});
+
+describe("custom workflow interpretation", () => {
+  test("transitions follow the pinned definition", async () => {
+    registerWorkflowDefinitions([await loadSecurityWorkflow()]);
+    const pinned = { workflow: "feature_delivery" as const, workflowDefinitionId: "security-review" };
+
+    assert.doesNotThrow(() => assertStateTransitionAllowed({ ...pinned, state: "engineering_review" }, "security_review"));
+    assert.throws(
+      () => assertStateTransitionAllowed({ ...pinned, state: "qa_preparation" }, "product_review"),
+      /State product_review is not valid for workflow feature_delivery \(security-review\)/,
+    );
+    assert.throws(
+      () => assertStateTransitionAllowed({ workflow: "feature_delivery", state: "engineering_review" }, "security_review"),
+      /not valid for workflow feature_delivery/,
+    );
+  });
+
+  test("an engineering approval enters the security stage and requests its review", async () => {
+    registerWorkflowDefinitions([await loadSecurityWorkflow()]);
+
+    const decision = reduceFeatureDelivery(
+      workItem({ state: "engineering_review", workflowDefinitionId: "security-review" }),
+      { type: "github.review_submitted", reviewState: "approved", automationEnabled: true },
+    );
+
+    assert.deepEqual(decision.patches, [{
+      state: "security_review",
+      substate: "waiting_security_review",
+      flagsToAdd: ["engineering_review_done"],
+    }]);
+    assert.deepEqual(decision.commands, [{ type: "stage_review_requested", state: "security_review" }]);
+  });
+
+  test("a security approval moves on to QA preparation", async () => {
+    registerWorkflowDefinitions([await loadSecurityWorkflow()]);
+
+    const decision = reduceFeatureDelivery(
+      workItem({ state: "security_review", flags: ["engineering_review_done"], workflowDefinitionId: "security-review" }),
+      { type: "github.review_submitted", reviewState: "approved", automationEnabled: true, fromRequestedReviewer: true },
+    );
+
+    assert.deepEqual(decision.patches.map((patch) => [patch.state, patch.flagsToAdd]), [["qa_preparation", ["security_review_done"]]]);
+    assert.deepEqual(decision.commands, [{ type: "qa_preparation_entered" }]);
+  });
+
+  test("a GitHub approval from someone outside the security request is ignored", async () => {
+    registerWorkflowDefinitions([await loadSecurityWorkflow()]);
+    const security = workItem({ state: "security_review", flags: ["engineering_review_done"], workflowDefinitionId: "security-review" });
+
+    assert.deepEqual(
+      reduceFeatureDelivery(security, { type: "github.review_submitted", reviewState: "approved", automationEnabled: true }),
+      { patches: [], commands: [] },
+    );
+    assert.deepEqual(
+      reduceFeatureDelivery(security, { type: "github.review_submitted", reviewState: "changes_requested", automationEnabled: false }).patches
+        .map((patch) => patch.state),
+      ["auto_review"],
+    );
+  });
+
+  test("answering the security request from Slack approves the stage or sends it back", async () => {
+    registerWorkflowDefinitions([await loadSecurityWorkflow()]);
+    const security = workItem({ state: "security_review", flags: ["engineering_review_done"], workflowDefinitionId: "security-review" });
+
+    const approved = reduceFeatureDelivery(security, { type: "review_request.responded", state: "security_review", outcome: "approved" });
+    assert.deepEqual(approved.patches.map((patch) => [patch.state, patch.flagsToAdd]), [["qa_preparation", ["security_review_done"]]]);
+    assert.deepEqual(approved.commands, [{ type: "qa_preparation_entered" }]);
+
+    const rejected = reduceFeatureDelivery(security, { type: "review_request.responded", state: "security_review", outcome: "changes_requested" });
+    assert.deepEqual(rejected.patches, [{ state: "auto_review", substate: "waiting_ci" }]);
+
+    const stale = reduceFeatureDelivery(security, { type: "review_request.responded", state: "engineering_review", outcome: "approved" });
+    assert.deepEqual(stale, { patches: [], commands: [] });
+  });
+
+  test("green CI walks back through the stages already approved, never past security", async () => {
+    registerWorkflowDefinitions([await loadSecurityWorkflow()]);
+
+    const stalled = reduceFeatureDelivery(
+      workItem({ state: "auto_review", flags: ["self_review_done", "engineering_review_done", "qa_review_done"], workflowDefinitionId: "security-review" }),
+      { type: "github.ci_completed", conclusion: "success", hasActiveSystemRun: false, automationEnabled: true },
+    );
+    assert.deepEqual(stalled.patches.map((patch) => patch.state), ["engineering_review", "security_review"]);
+    assert.deepEqual(stalled.commands, [{ type: "stage_review_requested", state: "security_review" }]);
+
+    const cleared = reduceFeatureDelivery(
+      workItem({
+        state: "auto_review",
+        flags: ["self_review_done", "engineering_review_done", "security_review_done"],
+        workflowDefinitionId: "security-review",
+      }),
+      { type: "github.ci_completed", conclusion: "success", hasActiveSystemRun: false, automationEnabled: true },
+    );
+    assert.deepEqual(cleared.patches.map((patch) => patch.state), ["engineering_review", "security_review", "qa_preparation"]);
+  });
+
+  test("the built-in workflow is unaffected by registered definitions", async () => {
+    registerWorkflowDefinitions([await loadSecurityWorkflow()]);
+
+    const decision = reduceFeatureDelivery(
+      workItem({ state: "engineering_review" }),
+      { type: "github.review_submitted", reviewState: "approved", automationEnabled: true },
+    );
+    assert.deepEqual(decision.patches.map((patch) => patch.state), ["qa_preparation"]);
+    assert.deepEqual(decision.commands, [{ type: "qa_preparation_entered" }]);
+  });
+});